@@ -0,0 +1,176 @@
+// src/ai/__tests__/answerKey.test.ts
+// Answer-key verification with stub solvers in place of the model: no network, no API key.
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Question } from '@/types';
+import {
+  toSolverInput,
+  verifyAnswerKey,
+  type AnswerKeySolution,
+  type AnswerKeySolver,
+  type AnswerKeySolverInput,
+} from '@/ai/answerKey';
+
+const solution = (answer: Partial<AnswerKeySolution>): AnswerKeySolution => ({
+  reasoning: 'stub',
+  confidence: 0.9,
+  optionIds: [],
+  textAnswers: [],
+  numericAnswer: null,
+  matches: [],
+  ...answer,
+});
+
+/** A solver that always gives the same answer, whatever it is shown. */
+const answers = (answer: Partial<AnswerKeySolution>): AnswerKeySolver => async () => solution(answer);
+
+const capital: Question = {
+  questionType: 'mcq',
+  questionText: 'ما عاصمة سوريا؟',
+  options: [{ id: 'a', text: 'حلب' }, { id: 'b', text: 'دمشق' }, { id: 'c', text: 'حمص' }],
+  correctOptionId: 'b',
+};
+
+const countries: Question = {
+  questionType: 'matching',
+  questionText: 'صل كل دولة بعاصمتها',
+  pairs: [
+    { id: 'p1', prompt: 'سوريا', match: 'دمشق' },
+    { id: 'p2', prompt: 'مصر', match: 'القاهرة' },
+    { id: 'p3', prompt: 'الأردن', match: 'عمّان' },
+    { id: 'p4', prompt: 'لبنان', match: 'بيروت' },
+  ],
+};
+
+const capitalsOf: Record<string, string> = { 'سوريا': 'دمشق', 'مصر': 'القاهرة', 'الأردن': 'عمّان', 'لبنان': 'بيروت' };
+
+/** A solver that knows the capitals and picks the choice by its text, as a model would. */
+const matchByText = async (input: AnswerKeySolverInput) => solution({
+  matches: input.prompts.map(prompt => ({
+    promptId: prompt.id,
+    choiceId: input.choices.find(choice => choice.text === capitalsOf[prompt.text])?.id ?? '',
+  })),
+});
+
+const steps: Question = {
+  questionType: 'ordering',
+  questionText: 'رتب مراحل انقسام الخلية',
+  options: [
+    { id: 'o1', text: 'الطور التمهيدي' },
+    { id: 'o2', text: 'الطور الاستوائي' },
+    { id: 'o3', text: 'الطور الانفصالي' },
+    { id: 'o4', text: 'الطور النهائي' },
+  ],
+};
+
+describe('verifyAnswerKey', () => {
+  it('agrees when the solver picks the stored option', async () => {
+    const verdict = await verifyAnswerKey(capital, answers({ optionIds: ['b'] }));
+    assert.equal(verdict.agrees, true);
+    assert.equal(verdict.solverAnswer, 'دمشق');
+  });
+
+  it('disagrees when the solver picks another option', async () => {
+    const verdict = await verifyAnswerKey(capital, answers({ optionIds: ['a'], reasoning: 'حلب أكبر مدينة' }));
+    assert.equal(verdict.agrees, false);
+    assert.equal(verdict.solverAnswer, 'حلب');
+    assert.equal(verdict.reasoning, 'حلب أكبر مدينة');
+  });
+
+  it('keeps the confidence between 0 and 1', async () => {
+    const verdict = await verifyAnswerKey(capital, answers({ optionIds: ['b'], confidence: 7 }));
+    assert.equal(verdict.confidence, 1);
+  });
+
+  it('never shows the solver the key', async () => {
+    let seen: AnswerKeySolverInput | null = null;
+    await verifyAnswerKey(capital, async input => {
+      seen = input;
+      return solution({ optionIds: ['b'] });
+    });
+    assert.doesNotMatch(JSON.stringify(seen), /correctOptionId/);
+  });
+
+  it('compares blanks ignoring hamza forms and tashkeel', async () => {
+    const question: Question = {
+      questionType: 'fill_in_the_blanks',
+      questionText: 'أول من نزل على سطح القمر ____ عام ____',
+      correctAnswers: ['آرمسترونغ', '1969'],
+    };
+    assert.equal((await verifyAnswerKey(question, answers({ textAnswers: ['ارمسترونغ', '1969'] }))).agrees, true);
+    assert.equal((await verifyAnswerKey(question, answers({ textAnswers: ['ألدرين', '1969'] }))).agrees, false);
+  });
+
+  it('accepts numeric answers within the tolerance', async () => {
+    const question: Question = {
+      questionType: 'numeric',
+      questionText: 'ما تسارع الجاذبية الأرضية؟',
+      numericAnswer: 9.8,
+      tolerance: 0.1,
+      unit: 'm/s²',
+    };
+    assert.equal((await verifyAnswerKey(question, answers({ numericAnswer: 9.81 }))).agrees, true);
+    assert.equal((await verifyAnswerKey(question, answers({ numericAnswer: 10 }))).agrees, false);
+  });
+
+  it('refuses short answer questions', async () => {
+    const question: Question = { questionType: 'short_answer', questionText: 'اشرح دورة الماء' };
+    await assert.rejects(verifyAnswerKey(question, answers({})));
+  });
+});
+
+describe('matching questions', () => {
+  it('shows the answers under ids of their own', () => {
+    const input = toSolverInput(countries);
+    assert.deepEqual(input.prompts.map(prompt => prompt.id), ['p1', 'p2', 'p3', 'p4']);
+    assert.deepEqual(input.choices.map(choice => choice.id), ['c1', 'c2', 'c3', 'c4']);
+    assert.deepEqual([...input.choices.map(choice => choice.text)].sort(), Object.values(capitalsOf).sort());
+  });
+
+  it('agrees with a solver that matches by content', async () => {
+    const verdict = await verifyAnswerKey(countries, matchByText);
+    assert.equal(verdict.agrees, true);
+    assert.match(verdict.solverAnswer, /سوريا: دمشق/);
+  });
+
+  it('does not reward copying the prompt ids', async () => {
+    const copyIds: AnswerKeySolver = async input =>
+      solution({ matches: input.prompts.map(prompt => ({ promptId: prompt.id, choiceId: prompt.id })) });
+    assert.equal((await verifyAnswerKey(countries, copyIds)).agrees, false);
+  });
+
+  it('disagrees when two answers are swapped', async () => {
+    const swapped: AnswerKeySolver = async input => {
+      const { matches } = await matchByText(input);
+      [matches[0].choiceId, matches[1].choiceId] = [matches[1].choiceId, matches[0].choiceId];
+      return solution({ matches });
+    };
+    assert.equal((await verifyAnswerKey(countries, swapped)).agrees, false);
+  });
+});
+
+describe('ordering questions', () => {
+  it('hides the stored order and ids', () => {
+    const input = toSolverInput(steps);
+    assert.deepEqual(input.choices.map(choice => choice.id), ['c1', 'c2', 'c3', 'c4']);
+    assert.notDeepEqual(input.choices.map(choice => choice.text), steps.options.map(opt => opt.text));
+  });
+
+  it('shows the same question the same way every time', () => {
+    assert.deepEqual(toSolverInput(steps), toSolverInput(steps));
+  });
+
+  it('agrees with a solver that orders by content', async () => {
+    const byContent: AnswerKeySolver = async input => solution({
+      optionIds: steps.options.map(opt => input.choices.find(choice => choice.text === opt.text)!.id),
+    });
+    const verdict = await verifyAnswerKey(steps, byContent);
+    assert.equal(verdict.agrees, true);
+    assert.equal(verdict.solverAnswer, steps.options.map(opt => opt.text).join(' ← '));
+  });
+
+  it('disagrees with the order it was shown', async () => {
+    const asShown: AnswerKeySolver = async input => solution({ optionIds: input.choices.map(choice => choice.id) });
+    assert.equal((await verifyAnswerKey(steps, asShown)).agrees, false);
+  });
+});
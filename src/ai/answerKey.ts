@@ -0,0 +1,192 @@
+// src/ai/answerKey.ts
+// Answer-key verification without the model: what the solver is shown, and how its solution is compared
+// with the stored key. The solver never sees the key; ordering items and matching answers are shuffled
+// (by a hash of their id, so the same question always looks the same) and shown under ids of their own,
+// c1..cn, so that neither the stored order nor the ids give the key away.
+//
+// src/ai/flows/verify-answer-key-flow.ts plugs the Genkit prompt in as the solver. To check the
+// comparison offline, pass a stub instead (see src/ai/__tests__/answerKey.test.ts):
+//
+//   await verifyAnswerKey(question, async () => ({ reasoning: '', confidence: 1, optionIds: ['b'], ... }));
+import type { Question, QuestionType } from '@/types';
+import { normalizeArabic } from '@/lib/arabicText';
+
+export interface AnswerKeyItem {
+  id: string;
+  text: string;
+}
+
+/** The question as the solver sees it. */
+export interface AnswerKeySolverInput {
+  questionType: QuestionType;
+  questionText: string;
+  /** Options to choose from (mcq, true_false, multi_select), items to order, or answers to match. */
+  choices: AnswerKeyItem[];
+  /** The left-hand side of a matching question. */
+  prompts: AnswerKeyItem[];
+  /** Number of blanks of a fill-in-the-blanks question. */
+  blankCount: number;
+  unit: string | null;
+}
+
+/** The solver's own answer. Only the fields of the question's type are read. */
+export interface AnswerKeySolution {
+  reasoning: string;
+  /** 0..1, how sure the solver is of its answer. */
+  confidence: number;
+  /** Chosen options, or every item in the right order for ordering questions. */
+  optionIds: string[];
+  /** One answer per blank. */
+  textAnswers: string[];
+  numericAnswer: number | null;
+  /** The answer picked for each prompt of a matching question. */
+  matches: { promptId: string; choiceId: string }[];
+}
+
+export type AnswerKeySolver = (input: AnswerKeySolverInput) => Promise<AnswerKeySolution>;
+
+export interface AnswerKeyVerdict {
+  agrees: boolean;
+  confidence: number;
+  reasoning: string;
+  /** The solver's answer in words, to show next to the stored key. */
+  solverAnswer: string;
+}
+
+/** Short answers only have a model answer to compare against, which is left to the teacher. */
+export const canVerifyAnswerKey = (question: Pick<Question, 'questionType'>): boolean =>
+  question.questionType !== 'short_answer';
+
+// FNV-1a: a stable order that has nothing to do with the stored one.
+const hashId = (id: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+interface HiddenChoice extends AnswerKeyItem {
+  /** The option or pair the choice stands for. */
+  keyId: string;
+}
+
+/** The items of an ordering question or the answers of a matching question, as the solver sees them. */
+const hiddenChoices = (question: Question): HiddenChoice[] => {
+  const items = question.questionType === 'ordering'
+    ? question.options.map(opt => ({ keyId: opt.id, text: opt.text }))
+    : question.questionType === 'matching'
+      ? question.pairs.map(pair => ({ keyId: pair.id, text: pair.match }))
+      : [];
+  return items
+    .sort((a, b) => hashId(a.keyId) - hashId(b.keyId) || a.keyId.localeCompare(b.keyId))
+    .map((item, index) => ({ ...item, id: `c${index + 1}` }));
+};
+
+export const toSolverInput = (question: Question): AnswerKeySolverInput => {
+  const input: AnswerKeySolverInput = {
+    questionType: question.questionType,
+    questionText: question.questionText,
+    choices: [],
+    prompts: [],
+    blankCount: 0,
+    unit: null,
+  };
+  switch (question.questionType) {
+    case 'mcq':
+    case 'true_false':
+    case 'multi_select':
+      input.choices = question.options.map(opt => ({ id: opt.id, text: opt.text }));
+      break;
+    case 'ordering':
+      input.choices = hiddenChoices(question).map(({ id, text }) => ({ id, text }));
+      break;
+    case 'matching':
+      input.prompts = question.pairs.map(pair => ({ id: pair.id, text: pair.prompt }));
+      input.choices = hiddenChoices(question).map(({ id, text }) => ({ id, text }));
+      break;
+    case 'fill_in_the_blanks':
+      input.blankCount = question.correctAnswers.length;
+      break;
+    case 'numeric':
+      input.unit = question.unit ?? null;
+      break;
+  }
+  return input;
+};
+
+const sameText = (answer: string, key: string) => {
+  const a = normalizeArabic(answer);
+  const b = normalizeArabic(key);
+  return a !== '' && (a === b || a.includes(b) || b.includes(a));
+};
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+/** Whether the solution matches the stored key, and the solution in words. */
+export const compareWithKey = (question: Question, solution: AnswerKeySolution): { agrees: boolean; solverAnswer: string } => {
+  const optionText = (id: string) =>
+    ('options' in question && question.options?.find(opt => opt.id === id)?.text) || id;
+  // Ordering and matching solutions name the c1..cn choices; anything else the solver returns matches no key.
+  const hidden = hiddenChoices(question);
+  const keyIdOf = (id: string) => hidden.find(choice => choice.id === id)?.keyId;
+  const choiceText = (id: string) => hidden.find(choice => choice.id === id)?.text ?? id;
+
+  switch (question.questionType) {
+    case 'mcq':
+    case 'true_false':
+      return {
+        agrees: solution.optionIds.length === 1 && solution.optionIds[0] === question.correctOptionId,
+        solverAnswer: solution.optionIds.map(optionText).join('، '),
+      };
+    case 'multi_select':
+      return {
+        agrees: sameSet(solution.optionIds, question.correctOptionIds),
+        solverAnswer: solution.optionIds.map(optionText).join('، '),
+      };
+    case 'ordering':
+      return {
+        agrees: solution.optionIds.length === question.options.length
+          && question.options.every((opt, index) => keyIdOf(solution.optionIds[index]) === opt.id),
+        solverAnswer: solution.optionIds.map(choiceText).join(' ← '),
+      };
+    case 'matching':
+      return {
+        agrees: question.pairs.every(pair =>
+          solution.matches.some(match => match.promptId === pair.id && keyIdOf(match.choiceId) === pair.id)),
+        solverAnswer: question.pairs
+          .map(pair => `${pair.prompt}: ${choiceText(solution.matches.find(m => m.promptId === pair.id)?.choiceId ?? '')}`)
+          .join('، '),
+      };
+    case 'fill_in_the_blanks':
+      return {
+        agrees: solution.textAnswers.length === question.correctAnswers.length
+          && question.correctAnswers.every((key, index) => sameText(solution.textAnswers[index], key)),
+        solverAnswer: solution.textAnswers.join('، '),
+      };
+    case 'numeric': {
+      const answer = solution.numericAnswer;
+      return {
+        agrees: answer !== null && Math.abs(answer - question.numericAnswer) <= question.tolerance + 1e-9,
+        solverAnswer: answer === null ? '' : `${answer}${question.unit ? ` ${question.unit}` : ''}`,
+      };
+    }
+    case 'short_answer':
+      throw new Error('Short answer questions have no answer key to verify.');
+  }
+};
+
+/** Has `solve` answer the question on its own and compares the result with the stored key. */
+export const verifyAnswerKey = async (question: Question, solve: AnswerKeySolver): Promise<AnswerKeyVerdict> => {
+  if (!canVerifyAnswerKey(question)) {
+    throw new Error('Short answer questions have no answer key to verify.');
+  }
+  const solution = await solve(toSolverInput(question));
+  const { agrees, solverAnswer } = compareWithKey(question, solution);
+  return {
+    agrees,
+    confidence: Math.min(Math.max(solution.confidence, 0), 1),
+    reasoning: solution.reasoning,
+    solverAnswer,
+  };
+};
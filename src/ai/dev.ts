@@ -4,3 +4,5 @@ config();
 
 import '@/ai/flows/arabic-question-sanity-check.ts';
 import '@/ai/flows/suggest-question-tags-flow.ts'; // Added new flow
+import '@/ai/flows/verify-answer-key-flow.ts';
+import '@/ai/flows/suggest-distractors-flow.ts';
@@ -0,0 +1,83 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow to suggest plausible wrong options (distractors) for a multiple-choice question.
+ *
+ * - suggestDistractors - A function that takes the question and its correct answer and returns distractors.
+ * - SuggestDistractorsInput - The input type for the suggestDistractors function.
+ * - SuggestDistractorsOutput - The return type for the suggestDistractors function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {normalizeArabic} from '@/lib/arabicText';
+
+const SuggestDistractorsInputSchema = z.object({
+  questionText: z.string().describe('The text of the multiple-choice question.'),
+  correctAnswer: z.string().describe('The text of the correct option.'),
+  existingOptions: z.array(z.string()).describe('Wrong options the author already wrote; new distractors must differ from them.'),
+  count: z.number().int().min(1).max(5).describe('How many distractors to suggest.'),
+});
+export type SuggestDistractorsInput = z.infer<typeof SuggestDistractorsInputSchema>;
+
+const SuggestDistractorsOutputSchema = z.object({
+  distractors: z.array(z.object({
+    text: z.string().describe('The wrong option, written like the correct answer (same language, length and form).'),
+    rationale: z.string().describe('One short sentence on the misconception that makes this option tempting, in Arabic.'),
+  })),
+});
+export type SuggestDistractorsOutput = z.infer<typeof SuggestDistractorsOutputSchema>;
+
+export async function suggestDistractors(input: SuggestDistractorsInput): Promise<SuggestDistractorsOutput> {
+  return suggestDistractorsFlow(input);
+}
+
+const suggestDistractorsPrompt = ai.definePrompt({
+  name: 'suggestDistractorsPrompt',
+  input: {schema: SuggestDistractorsInputSchema},
+  output: {schema: SuggestDistractorsOutputSchema},
+  prompt: `You are an experienced teacher writing multiple-choice questions for the Arab secondary school curriculum.
+Write {{count}} distractors (plausible but definitely wrong options) for the question below.
+
+Question:
+{{{questionText}}}
+
+Correct answer:
+{{{correctAnswer}}}
+{{#if existingOptions.length}}
+
+Wrong options already written (do not repeat them):
+{{#each existingOptions}}
+- {{{this}}}
+{{/each}}
+{{/if}}
+
+Good distractors:
+- are clearly wrong to a student who understands the topic, but tempting to one who holds a common misconception;
+- match the correct answer in language, length, grammatical form and notation (keep LaTeX and \\ce{} notation if the answer uses it);
+- are not synonyms of the correct answer, not "all of the above" / "none of the above", and not jokes.
+
+For each distractor give a one-sentence rationale in Arabic naming the misconception it targets.
+`,
+});
+
+const suggestDistractorsFlow = ai.defineFlow(
+  {
+    name: 'suggestDistractorsFlow',
+    inputSchema: SuggestDistractorsInputSchema,
+    outputSchema: SuggestDistractorsOutputSchema,
+  },
+  async (input) => {
+    const {output} = await suggestDistractorsPrompt(input);
+    // The model occasionally repeats the correct answer or an existing option; drop those and duplicates.
+    const seen = new Set([input.correctAnswer, ...input.existingOptions].map(normalizeArabic));
+    const distractors = (output?.distractors || [])
+      .map(d => ({text: d.text.trim(), rationale: d.rationale.trim()}))
+      .filter(d => {
+        const key = normalizeArabic(d.text);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return {distractors};
+  }
+);
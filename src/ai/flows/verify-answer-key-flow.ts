@@ -0,0 +1,90 @@
+// src/ai/flows/verify-answer-key-flow.ts
+'use server';
+
+/**
+ * @fileOverview Flow that checks a question's answer key: the model solves the question without seeing
+ * the key, and its answer is compared with the stored one (see src/ai/answerKey.ts).
+ *
+ * - verifyQuestionAnswerKey - Solves the question and returns whether the model agrees with the key.
+ * - AnswerKeyVerdict - The return type for the verifyQuestionAnswerKey function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import type {Question} from '@/types';
+import {verifyAnswerKey, type AnswerKeyVerdict} from '@/ai/answerKey';
+
+export type {AnswerKeyVerdict} from '@/ai/answerKey';
+
+const ItemSchema = z.object({id: z.string(), text: z.string()});
+
+const SolveQuestionInputSchema = z.object({
+  questionType: z.string().describe('mcq, true_false, multi_select, ordering, matching, fill_in_the_blanks or numeric.'),
+  questionText: z.string(),
+  choices: z.array(ItemSchema).describe('Options to choose from, items to put in order, or answers to match.'),
+  prompts: z.array(ItemSchema).describe('The items to match, for matching questions.'),
+  blankCount: z.number().describe('Number of blanks, for fill_in_the_blanks questions.'),
+  unit: z.string().nullable().describe('Unit of the answer, for numeric questions.'),
+});
+
+const SolveQuestionOutputSchema = z.object({
+  reasoning: z.string().describe('Step-by-step working, in the language of the question.'),
+  confidence: z.number().min(0).max(1).describe('How sure you are of your answer, from 0 to 1.'),
+  optionIds: z.array(z.string()).describe('Ids of the chosen options, or of every item in the right order for ordering questions.'),
+  textAnswers: z.array(z.string()).describe('One answer per blank, in order, for fill_in_the_blanks questions.'),
+  numericAnswer: z.number().nullable().describe('The answer in the given unit, for numeric questions.'),
+  matches: z.array(z.object({promptId: z.string(), choiceId: z.string()})).describe('The choice matched to each prompt, for matching questions.'),
+});
+
+export async function verifyQuestionAnswerKey(question: Question): Promise<AnswerKeyVerdict> {
+  return verifyAnswerKey(question, input => solveQuestionFlow(input));
+}
+
+const solveQuestionPrompt = ai.definePrompt({
+  name: 'solveQuestionPrompt',
+  input: {schema: SolveQuestionInputSchema},
+  output: {schema: SolveQuestionOutputSchema},
+  prompt: `You are an expert teacher for the Arab secondary school curriculum. Solve the following {{questionType}} question yourself, carefully and step by step, then give your final answer.
+
+Question: {{{questionText}}}
+{{#if prompts.length}}
+Items to match:
+{{#each prompts}}
+- [{{id}}] {{{text}}}
+{{/each}}
+{{/if}}
+{{#if choices.length}}
+Choices:
+{{#each choices}}
+- [{{id}}] {{{text}}}
+{{/each}}
+{{/if}}
+{{#if blankCount}}
+The question has {{blankCount}} blank(s).
+{{/if}}
+{{#if unit}}
+Give the answer in {{unit}}.
+{{/if}}
+
+Fill only the answer fields of this question type and leave the others empty (or null):
+- mcq and true_false: exactly one id in optionIds.
+- multi_select: every correct id in optionIds.
+- ordering: every id in optionIds, in the right order.
+- matching: one entry in matches per item, with the id of its choice.
+- fill_in_the_blanks: one entry in textAnswers per blank.
+- numeric: numericAnswer.
+Use the ids in square brackets exactly as written. Rate your confidence honestly; use a low value if the question is ambiguous or cannot be solved from what is given.
+`,
+});
+
+const solveQuestionFlow = ai.defineFlow(
+  {
+    name: 'solveQuestionFlow',
+    inputSchema: SolveQuestionInputSchema,
+    outputSchema: SolveQuestionOutputSchema,
+  },
+  async input => {
+    const {output} = await solveQuestionPrompt(input);
+    return output!;
+  }
+);
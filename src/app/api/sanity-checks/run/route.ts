@@ -0,0 +1,52 @@
+// src/app/api/sanity-checks/run/route.ts
+// Runs the sanity check worker (src/lib/sanityCheckWorker.ts) for one time slice. A scheduler calls it
+// every few minutes with `Authorization: Bearer <SANITY_WORKER_SECRET>`; a signed-in teacher or admin
+// calls it with their access token from the review page's "run now". Either way the worker takes the
+// queue in order, whatever subject the entries belong to.
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient, type ServiceRoleClient } from '@/lib/supabaseAdmin';
+import { runSanityChecks } from '@/lib/sanityCheckWorker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/** Leaves a minute of maxDuration for the entry in progress and the response. */
+const TIME_BUDGET_MS = 240000;
+
+const bearerToken = (request: Request): string | null =>
+  request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1] ?? null;
+
+const isWorkerSecret = (token: string): boolean => {
+  const secret = process.env.SANITY_WORKER_SECRET;
+  if (!secret) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const isTeacherOrAdmin = async (client: ServiceRoleClient, accessToken: string): Promise<boolean> => {
+  const { data: { user } } = await client.auth.getUser(accessToken);
+  if (!user) return false;
+  const { data: profile } = await client.from('profiles').select('role').eq('id', user.id).maybeSingle();
+  return profile?.role === 'admin' || profile?.role === 'teacher';
+};
+
+const run = async (request: Request) => {
+  const token = bearerToken(request);
+  const client = createServiceRoleClient();
+  if (!token || !(isWorkerSecret(token) || await isTeacherOrAdmin(client, token))) {
+    return NextResponse.json({ error: 'غير مصرح بتشغيل فحص الصحة.' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runSanityChecks(client, { timeBudgetMs: TIME_BUDGET_MS }));
+  } catch (error: any) {
+    console.error("Sanity check worker stopped:", error);
+    return NextResponse.json({ error: error?.message || 'Unknown error' }, { status: 500 });
+  }
+};
+
+// Schedulers differ in the method they call with.
+export const GET = run;
+export const POST = run;
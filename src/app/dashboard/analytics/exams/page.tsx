@@ -5,7 +5,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { BarChart3, Loader2, Info, Edit, Activity } from 'lucide-react';
-import { getExams, getExamAttempts } from '@/lib/firestore';
+import { getExams, getExamAttempts } from '@/lib/supabaseData';
 import type { Exam, ExamAttempt } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
@@ -19,7 +19,7 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { getAnnouncementById, updateAnnouncement } from '@/lib/firestore';
+import { getAnnouncementById, updateAnnouncement } from '@/lib/supabaseData';
 import type { Announcement, AnnouncementType } from '@/types';
 import { useParams, useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
@@ -28,7 +28,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Megaphone, PlusCircle, Loader2, Edit3, Trash2, Eye, EyeOff, CalendarDays } from 'lucide-react';
-import { getAnnouncements, deleteAnnouncement, updateAnnouncement } from '@/lib/firestore'; // These will throw errors
+import { getAnnouncements, deleteAnnouncement, updateAnnouncement } from '@/lib/supabaseData';
 import type { Announcement, AnnouncementType } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { format, parseISO } from 'date-fns'; // Added parseISO
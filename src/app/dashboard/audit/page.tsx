@@ -0,0 +1,254 @@
+// src/app/dashboard/audit/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { format, parseISO, addDays } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getAuditLogPage, getUsers, DEFAULT_AUDIT_LOG_PAGE_SIZE } from '@/lib/supabaseData';
+import type { AuditLogPageParams } from '@/lib/supabaseData';
+import type { AuditEntityType, AuditLogEntry, UserProfile } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { ScrollText, Loader2, RefreshCw } from 'lucide-react';
+import AuditChanges from '@/components/audit/AuditChanges';
+import { AUDIT_ACTION_LABELS, AUDIT_ACTION_VARIANTS, AUDIT_ENTITY_LABELS, AUDIT_ROLE_LABELS } from '@/components/audit/auditLabels';
+
+const ALL = 'all';
+
+interface AuditFilters {
+  actorId: string;
+  entityType: AuditEntityType | typeof ALL;
+  fromDate: string; // yyyy-MM-dd from the date input, '' when unset
+  toDate: string;
+}
+
+const DEFAULT_FILTERS: AuditFilters = { actorId: ALL, entityType: ALL, fromDate: '', toDate: '' };
+
+const toPageParams = (filters: AuditFilters): AuditLogPageParams => ({
+  actorId: filters.actorId === ALL ? undefined : filters.actorId,
+  entityType: filters.entityType === ALL ? undefined : filters.entityType,
+  from: filters.fromDate ? parseISO(filters.fromDate).toISOString() : undefined,
+  // The "to" day is inclusive, so the bound is the start of the next day.
+  to: filters.toDate ? addDays(parseISO(filters.toDate), 1).toISOString() : undefined,
+});
+
+// Edit pages that carry a history drawer for the entity.
+const entityHref = (entry: AuditLogEntry): string | null => {
+  if (entry.action === 'delete') return null;
+  switch (entry.entityType) {
+    case 'question': return `/dashboard/questions/edit/${entry.entityId}`;
+    case 'exam':
+    case 'exam_question': return `/dashboard/exams/edit/${entry.entityId}`;
+    case 'subject': return `/dashboard/subjects/edit/${entry.entityId}`;
+    default: return null;
+  }
+};
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<AuditFilters>(DEFAULT_FILTERS);
+  const [staffUsers, setStaffUsers] = useState<UserProfile[]>([]);
+  const queryVersionRef = useRef(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getUsers()
+      .then(users => setStaffUsers(users.filter(u => u.role === 'admin' || u.role === 'teacher')))
+      .catch(error => console.error("Error fetching users for audit filters:", error));
+  }, []);
+
+  const loadFirstPage = useCallback(async () => {
+    const version = ++queryVersionRef.current;
+    setIsLoading(true);
+    try {
+      const page = await getAuditLogPage({ ...toPageParams(filters), limit: DEFAULT_AUDIT_LOG_PAGE_SIZE });
+      if (version !== queryVersionRef.current) return; // A newer filter change is already loading.
+      setEntries(page.entries);
+      setTotalCount(page.totalCount);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب سجل التدقيق." });
+    } finally {
+      if (version === queryVersionRef.current) setIsLoading(false);
+    }
+  }, [filters, toast]);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = async () => {
+    if (nextCursor === null) return;
+    const version = queryVersionRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getAuditLogPage({ ...toPageParams(filters), cursor: nextCursor, limit: DEFAULT_AUDIT_LOG_PAGE_SIZE });
+      if (version !== queryVersionRef.current) return;
+      setEntries(prev => [...prev, ...page.entries]);
+      setTotalCount(page.totalCount);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more audit entries:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب المزيد من السجلات." });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 mb-2 rtl:space-x-reverse">
+              <ScrollText className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold tracking-tight">سجل التدقيق</CardTitle>
+            </div>
+            <Button variant="outline" onClick={loadFirstPage} disabled={isLoading}>
+              <RefreshCw className={`mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0 ${isLoading ? 'animate-spin' : ''}`} />
+              تحديث
+            </Button>
+          </div>
+          <CardDescription className="text-lg text-muted-foreground">
+            كل إنشاء وتعديل وحذف قام به المدراء والمدرسون، مع القيم قبل التغيير وبعده.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 border rounded-lg bg-muted/30">
+            <div className="space-y-1">
+              <Label>المستخدم</Label>
+              <Select value={filters.actorId} onValueChange={value => updateFilter('actorId', value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>كل المستخدمين</SelectItem>
+                  {staffUsers.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name || u.email || u.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>نوع العنصر</Label>
+              <Select value={filters.entityType} onValueChange={value => updateFilter('entityType', value as AuditFilters['entityType'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>كل الأنواع</SelectItem>
+                  {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                    <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">من تاريخ</Label>
+              <Input id="audit-from" type="date" value={filters.fromDate} onChange={e => updateFilter('fromDate', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">إلى تاريخ</Label>
+              <Input id="audit-to" type="date" value={filters.toDate} onChange={e => updateFilter('toDate', e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{totalCount} سجل</span>
+            <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_FILTERS)}>مسح الفلاتر</Button>
+          </div>
+
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">لا توجد سجلات مطابقة.</div>
+          ) : (
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">الوقت</TableHead>
+                    <TableHead className="text-right">المستخدم</TableHead>
+                    <TableHead className="text-right">الإجراء</TableHead>
+                    <TableHead className="text-right">العنصر</TableHead>
+                    <TableHead className="text-right">التغييرات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => {
+                    const href = entityHref(entry);
+                    return (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {format(parseISO(entry.created_at), 'PPpp', { locale: arSA })}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.actor?.name || entry.actor?.email || 'مستخدم غير معروف'}</div>
+                          {entry.actorRole && <div className="text-xs text-muted-foreground">{AUDIT_ROLE_LABELS[entry.actorRole]}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div>{AUDIT_ENTITY_LABELS[entry.entityType]}</div>
+                          {href ? (
+                            <Link href={href} className="text-xs font-mono text-primary hover:underline" dir="ltr">{entry.entityId}</Link>
+                          ) : (
+                            <div className="text-xs font-mono text-muted-foreground" dir="ltr">{entry.entityId}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="min-w-[18rem]">
+                          <details>
+                            <summary className="cursor-pointer text-sm text-primary">عرض التفاصيل</summary>
+                            <div className="mt-2">
+                              <AuditChanges entry={entry} />
+                            </div>
+                          </details>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {nextCursor !== null && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />}
+                تحميل المزيد
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
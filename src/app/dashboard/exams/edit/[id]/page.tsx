@@ -15,14 +15,17 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { getExamById, updateExam, getQuestions, getSubjects, getTags } from '@/lib/firestore';
-import type { Exam, Question, Subject, Tag, ExamQuestionLink } from '@/types';
+import { getExamById, updateExam, getQuestions, getQuestionGroups, getSubjects, getTags } from '@/lib/supabaseData';
+import type { Exam, Question, QuestionGroup, Subject, Tag, ExamQuestionLink } from '@/types';
 import { useParams, useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Save, ClipboardEdit, AlertTriangle, BookCopy, TagsIcon, Search, Eye, EyeOff, Image as ImageIcon, User, Clock } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import NextImage from 'next/image'; // For displaying the image
 import { useAuth } from '@/hooks/use-auth';
+import QuestionGroupPicker from '@/components/questions/QuestionGroupPicker';
+import MathText from '@/components/MathText';
+import AuditHistorySheet from '@/components/audit/AuditHistorySheet';
 
 const examSchema = z.object({
   title: z.string().min(3, "عنوان الامتحان يجب أن يكون 3 أحرف على الأقل."),
@@ -44,6 +47,7 @@ export default function EditExamPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingInitialData, setIsFetchingInitialData] = useState(true);
   const [availableQuestions, setAvailableQuestions] = useState<Question[]>([]);
+  const [availableGroups, setAvailableGroups] = useState<QuestionGroup[]>([]);
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
 
   const [rawAvailableTags, setRawAvailableTags] = useState<Tag[]>([]);
@@ -93,9 +97,10 @@ export default function EditExamPage() {
     setIsFetchingInitialData(true);
     setExamNotFound(false);
     try {
-      const [examData, questions, subjects, tags] = await Promise.all([
+      const [examData, questions, groups, subjects, tags] = await Promise.all([
         getExamById(examIdFromParams),
         getQuestions(user.id, userProfile.role),
+        getQuestionGroups(user.id, userProfile.role),
         getSubjects(user.id, userProfile.role),
         getTags()
       ]);
@@ -123,6 +128,7 @@ export default function EditExamPage() {
       setCurrentExamImageUrl(examData.image);
 
       setAvailableQuestions(questions);
+      setAvailableGroups(groups);
       setAvailableSubjects(subjects);
       setRawAvailableTags(tags);
 
@@ -186,6 +192,11 @@ export default function EditExamPage() {
     );
   }, [tagsWithCounts, tagSearchTerm]);
 
+  const groupTitles = useMemo(
+    () => new Map(availableGroups.map(group => [group.id!, group.title])),
+    [availableGroups]
+  );
+
   const filteredQuestions = useMemo(() => {
     if (selectedFilterTagIds.length === 0) {
       return availableQuestions;
@@ -283,9 +294,12 @@ export default function EditExamPage() {
   return (
     <Card className="max-w-3xl mx-auto shadow-lg">
       <CardHeader>
-        <div className="flex items-center space-x-3 rtl:space-x-reverse">
-          <ClipboardEdit className="h-8 w-8 text-primary" />
-          <CardTitle className="text-2xl font-bold">تعديل الامتحان</CardTitle>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <ClipboardEdit className="h-8 w-8 text-primary" />
+            <CardTitle className="text-2xl font-bold">تعديل الامتحان</CardTitle>
+          </div>
+          {params?.id && <AuditHistorySheet entityType="exam" entityId={params.id as string} />}
         </div>
         <CardDescription>قم بتحديث تفاصيل الامتحان الحالي واختر الأسئلة والمادة الدراسية وحالة النشر والصورة.</CardDescription>
       </CardHeader>
@@ -536,6 +550,12 @@ export default function EditExamPage() {
                     </FormDescription>
                   </div>
 
+                  <QuestionGroupPicker
+                    groups={availableGroups}
+                    selectedQuestionIds={selectedQuestionIds}
+                    onChange={ids => form.setValue("selectedQuestionIds", ids, { shouldValidate: true })}
+                  />
+
                   <div className="mb-3 p-3 border rounded-md bg-muted/50 flex items-center justify-between text-sm">
                     <div className='flex items-center gap-4'>
                         <span className="text-muted-foreground">
@@ -603,8 +623,11 @@ export default function EditExamPage() {
                                   />
                                 </FormControl>
                                 <FormLabel className="font-normal text-sm flex-1 cursor-pointer">
-                                  <p className="font-medium text-foreground">{question.questionText}</p>
-                                  <p className="text-xs text-muted-foreground">المادة: {question.subject} | الصعوبة: {question.difficulty}</p>
+                                  <p className="font-medium text-foreground"><MathText text={question.questionText} /></p>
+                                  <p className="text-xs text-muted-foreground">
+                                    المادة: {question.subject} | الصعوبة: {question.difficulty}
+                                    {question.groupId && groupTitles.has(question.groupId) && ` | المجموعة: ${groupTitles.get(question.groupId)}`}
+                                  </p>
                                 </FormLabel>
                               </FormItem>
                             );
@@ -15,13 +15,15 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
-import { addExam, getQuestions, getSubjects, getTags } from '@/lib/firestore';
-import type { Question, Subject, Tag } from '@/types';
+import { addExam, getQuestions, getQuestionGroups, getSubjects, getTags } from '@/lib/supabaseData';
+import type { Question, QuestionGroup, Subject, Tag } from '@/types';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { PlusCircle, Loader2, ClipboardPlus, AlertTriangle, BookCopy, TagsIcon, Search, Eye, EyeOff, Image as ImageIcon, User, Clock } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useAuth } from '@/hooks/use-auth';
+import QuestionGroupPicker from '@/components/questions/QuestionGroupPicker';
+import MathText from '@/components/MathText';
 
 const examSchema = z.object({
   title: z.string().min(3, "عنوان الامتحان يجب أن يكون 3 أحرف على الأقل."),
@@ -45,6 +47,7 @@ export default function NewExamPage() {
   const [isFetchingSubjects, setIsFetchingSubjects] = useState(true);
   const [isFetchingTags, setIsFetchingTags] = useState(true);
   const [availableQuestions, setAvailableQuestions] = useState<Question[]>([]);
+  const [availableGroups, setAvailableGroups] = useState<QuestionGroup[]>([]);
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
 
   const [rawAvailableTags, setRawAvailableTags] = useState<Tag[]>([]);
@@ -85,12 +88,14 @@ export default function NewExamPage() {
     setIsFetchingSubjects(true);
     setIsFetchingTags(true);
     try {
-      const [questions, subjects, tags] = await Promise.all([
+      const [questions, groups, subjects, tags] = await Promise.all([
         getQuestions(user.id, userProfile.role),
+        getQuestionGroups(user.id, userProfile.role),
         getSubjects(user.id, userProfile.role),
         getTags()
       ]);
       setAvailableQuestions(questions);
+      setAvailableGroups(groups);
       setAvailableSubjects(subjects);
       setRawAvailableTags(tags);
     } catch (error) {
@@ -154,6 +159,11 @@ export default function NewExamPage() {
     );
   }, [tagsWithCounts, tagSearchTerm]);
 
+  const groupTitles = useMemo(
+    () => new Map(availableGroups.map(group => [group.id!, group.title])),
+    [availableGroups]
+  );
+
   const filteredQuestions = useMemo(() => {
     if (selectedFilterTagIds.length === 0) {
       return availableQuestions;
@@ -189,13 +199,13 @@ export default function NewExamPage() {
   const onSubmit = async (data: ExamFormValues) => {
     setIsLoading(true);
     try {
-      // The data passed to addExam now matches its new signature in firestore.ts
+      // The data passed to addExam matches its signature in supabaseData.ts
       await addExam({
         title: data.title,
         description: data.description || '',
         subjectId: data.subjectId,
         // 'questionIds' here is the array of selected question IDs from the form
-        // The addExam function in firestore.ts will handle creating entries in 'exam_questions'
+        // addExam creates the exam_questions links in the same transaction
         questionIds: data.selectedQuestionIds,
         published: data.published,
         image: data.image || null,
@@ -487,6 +497,12 @@ export default function NewExamPage() {
                     </FormDescription>
                   </div>
 
+                  <QuestionGroupPicker
+                    groups={availableGroups}
+                    selectedQuestionIds={selectedQuestionIds}
+                    onChange={ids => form.setValue("selectedQuestionIds", ids, { shouldValidate: true })}
+                  />
+
                   <div className="mb-3 p-3 border rounded-md bg-muted/50 flex items-center justify-between text-sm">
                     <div className='flex items-center gap-4'>
                         <span className="text-muted-foreground">
@@ -559,8 +575,11 @@ export default function NewExamPage() {
                                   />
                                 </FormControl>
                                 <FormLabel className="font-normal text-sm flex-1 cursor-pointer">
-                                  <p className="font-medium text-foreground">{question.questionText}</p>
-                                  <p className="text-xs text-muted-foreground">المادة: {question.subject} | الصعوبة: {question.difficulty}</p>
+                                  <p className="font-medium text-foreground"><MathText text={question.questionText} /></p>
+                                  <p className="text-xs text-muted-foreground">
+                                    المادة: {question.subject} | الصعوبة: {question.difficulty}
+                                    {question.groupId && groupTitles.has(question.groupId) && ` | المجموعة: ${groupTitles.get(question.groupId)}`}
+                                  </p>
                                 </FormLabel>
                               </FormItem>
                             );
@@ -17,12 +17,15 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Badge } from '@/components/ui/badge';
-import { ClipboardList, PlusCircle, Loader2, Edit3, Trash2, BookOpen, Eye, EyeOff, Image as ImageIconLucide, User, Clock } from 'lucide-react';
-import { getExams, deleteExam as deleteExamFromDb, getSubjects, updateExam } from '@/lib/firestore';
+import { ClipboardList, PlusCircle, Loader2, Edit3, Trash2, BookOpen, Eye, EyeOff, Image as ImageIconLucide, User, Clock, Search } from 'lucide-react';
+import { getExams, deleteExam as deleteExamFromDb, getSubjects, updateExam } from '@/lib/supabaseData';
 import type { Exam, Subject } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import HighlightedText from '@/components/HighlightedText';
+import { matchesArabicSearch } from '@/lib/arabicText';
 
 export default function ExamsPage() {
   const [exams, setExams] = useState<Exam[]>([]);
@@ -30,6 +33,7 @@ export default function ExamsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [deletingExamId, setDeletingExamId] = useState<string | null>(null);
   const [togglingPublishExamId, setTogglingPublishExamId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
 
   useEffect(() => {
@@ -52,6 +56,11 @@ export default function ExamsPage() {
     fetchPageData();
   }, [toast]);
 
+  const filteredExams = useMemo(
+    () => exams.filter(exam => matchesArabicSearch(`${exam.title} ${exam.description || ''}`, searchTerm)),
+    [exams, searchTerm]
+  );
+
   const subjectsMap = useMemo(() => {
     const map = new Map<string, string>();
     subjects.forEach(subject => {
@@ -69,7 +78,7 @@ export default function ExamsPage() {
       setExams(prevExams => prevExams.filter(exam => exam.id !== deletingExamId));
       toast({
         title: "نجاح",
-        description: "تم حذف الامتحان بنجاح.",
+        description: "تم نقل الامتحان إلى سلة المحذوفات.",
       });
     } catch (error) {
       console.error("Error deleting exam:", error);
@@ -88,8 +97,8 @@ export default function ExamsPage() {
     setTogglingPublishExamId(exam.id);
     try {
       const newPublishedStatus = !(exam.published || false);
-      // Pass an empty questionIds array as it's now managed by exam_questions table
-      await updateExam(exam.id, { published: newPublishedStatus, questionIds: [] });
+      // Leave questionIds out so the exam's question links are not touched.
+      await updateExam(exam.id, { published: newPublishedStatus });
       setExams(prevExams =>
         prevExams.map(e =>
           e.id === exam.id ? { ...e, published: newPublishedStatus } : e
@@ -139,6 +148,15 @@ export default function ExamsPage() {
           <CardDescription className="text-lg text-muted-foreground">
             قم بإنشاء وإدارة الامتحانات الخاصة بك من هنا.
           </CardDescription>
+          <div className="relative mt-2 max-w-sm">
+            <Search className="absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="ابحث في عناوين الامتحانات وأوصافها..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pr-8"
+            />
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -154,9 +172,11 @@ export default function ExamsPage() {
                 ابدأ بإضافة امتحان جديد ليظهر هنا.
               </p>
             </div>
+          ) : filteredExams.length === 0 ? (
+            <p className="py-10 text-center text-muted-foreground">لا توجد امتحانات تطابق البحث.</p>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {exams.map((exam) => {
+              {filteredExams.map((exam) => {
                 return (
                   <Card key={exam.id} className="flex flex-col justify-between hover:shadow-md transition-shadow duration-200 overflow-hidden">
                     {exam.image && exam.image.trim() !== '' ? (
@@ -176,13 +196,13 @@ export default function ExamsPage() {
                       )}
                     <CardHeader className="pt-4">
                       <div className="flex justify-between items-start">
-                          <CardTitle className="text-xl">{exam.title}</CardTitle>
+                          <CardTitle className="text-xl"><HighlightedText text={exam.title} query={searchTerm} /></CardTitle>
                           <Badge variant="secondary" className="whitespace-nowrap">
                             {getQuestionCountText(exam.questionCount)}
                           </Badge>
                       </div>
                       {exam.description && (
-                        <CardDescription className="mt-1 text-sm line-clamp-2">{exam.description}</CardDescription>
+                        <CardDescription className="mt-1 text-sm line-clamp-2"><HighlightedText text={exam.description} query={searchTerm} /></CardDescription>
                       )}
                        <div className="text-sm text-muted-foreground mt-2 flex items-center">
                           <BookOpen className="h-4 w-4 mr-1.5 rtl:ml-1.5 rtl:mr-0" />
@@ -239,7 +259,7 @@ export default function ExamsPage() {
                           <AlertDialogHeader className="text-right">
                             <AlertDialogTitle>هل أنت متأكد من الحذف؟</AlertDialogTitle>
                             <AlertDialogDescription>
-                              سيتم حذف الامتحان "{exam.title}" بشكل دائم. هذا الإجراء لا يمكن التراجع عنه.
+                              سيتم نقل الامتحان "{exam.title}" إلى سلة المحذوفات، ويمكن استعادته من هناك.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter className="flex-row-reverse">
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { Download, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
 import { 
     getQuestions, 
     getExams, 
@@ -13,13 +14,22 @@ import {
     getAccessCodes,
     getUsers,
     getSubjectsWithDetails,
-    convertTimestampsToDates 
-} from '@/lib/firestore'; 
-import type { Question, Option } from '@/types';
+    getTags,
+    convertTimestampsToDates,
+    toQuestionSheetColumns,
+} from '@/lib/supabaseData'; 
+import type { Question } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import * as XLSX from 'xlsx';
+import CoursePackageExport from '@/components/subjects/CoursePackageExport';
+import { exportQuestionFile, QUESTION_FILE_TYPES, type QuestionFileFormat } from '@/lib/questionFormats';
 
-type ExportFormat = 'xlsx' | 'json';
+type ExportFormat = 'xlsx' | 'json' | QuestionFileFormat;
+
+const QUESTION_FILE_LABELS: Record<QuestionFileFormat, string> = {
+  moodle: 'Moodle XML (.xml)',
+  gift: 'GIFT (.txt)',
+};
 type DataType = 'questions' | 'exams' | 'news' | 'accessCodes' | 'users' | 'subjects';
 
 export default function ExportPage() {
@@ -40,6 +50,7 @@ export default function ExportPage() {
     users: 'xlsx',
     subjects: 'json', 
   });
+  const [questionFileWarnings, setQuestionFileWarnings] = useState<string[]>([]);
   const { toast } = useToast();
 
   const downloadFile = (data: string, filename: string, type: string) => {
@@ -89,15 +100,10 @@ export default function ExportPage() {
             lessonId: q.lessonId,
             isSane: q.isSane,
             sanityExplanation: q.sanityExplanation,
+            externalId: q.externalId,
+            feedback: q.feedback,
           };
-          if (q.options && Array.isArray(q.options)) {
-            q.options.forEach((opt, index) => {
-              flatQuestion[`option${index + 1}`] = opt.text;
-            });
-            const correctOption = q.options.find(opt => opt.id === q.correctOptionId);
-            flatQuestion['correctOptionText'] = correctOption ? correctOption.text : 'N/A';
-          }
-          flatQuestion['correctOptionId'] = q.correctOptionId;
+          Object.assign(flatQuestion, toQuestionSheetColumns(q));
           flatQuestion['createdAt'] = q.created_at;
           flatQuestion['updatedAt'] = q.updated_at;
           return flatQuestion;
@@ -129,13 +135,33 @@ export default function ExportPage() {
     }
   };
 
+  // Moodle XML and GIFT cover MCQ, multi-select, true/false, fill-in-the-blanks and short answer questions.
+  const downloadQuestionFile = async (questions: Question[], filename: string, format: QuestionFileFormat) => {
+    if (questions.length === 0) {
+      toast({ title: "لا توجد بيانات", description: `لا توجد بيانات متاحة للتصدير لـ ${filename}.` });
+      return;
+    }
+    const { extension, mimeType } = QUESTION_FILE_TYPES[format];
+    const { content, exported, warnings } = await exportQuestionFile(questions, await getTags(), format);
+    setQuestionFileWarnings(warnings);
+    if (exported === 0) {
+      toast({ variant: "destructive", title: "خطأ في التصدير", description: `لا يوجد سؤال يمكن تصديره بتنسيق ${QUESTION_FILE_LABELS[format]}.` });
+      return;
+    }
+    downloadFile(content, `${filename}.${extension}`, `${mimeType};charset=utf-8`);
+    toast({ title: "نجاح", description: `تم تصدير ${exported} من ${questions.length} سؤال بتنسيق ${QUESTION_FILE_LABELS[format]}.` });
+  };
+
   const handleExport = async (dataType: DataType, fetchData: () => Promise<any[]>, filename: string) => {
     setLoadingStates(prev => ({ ...prev, [dataType]: true }));
+    if (dataType === 'questions') setQuestionFileWarnings([]);
     try {
       const data = await fetchData();
       const format = exportFormats[dataType];
       if (format === 'json') {
         downloadJSON(data, filename);
+      } else if (format === 'moodle' || format === 'gift') {
+        await downloadQuestionFile(data as Question[], filename, format);
       } else { // xlsx
         downloadXLSX(data, filename, dataType);
       }
@@ -156,7 +182,7 @@ export default function ExportPage() {
   };
 
   const exportConfig: { type: DataType, label: string, fetchData: () => Promise<any[]>, filename: string, supportedFormats: ExportFormat[] }[] = [
-    { type: 'questions', label: 'تصدير الأسئلة', fetchData: getQuestions, filename: 'تصدير_الأسئلة', supportedFormats: ['xlsx', 'json'] },
+    { type: 'questions', label: 'تصدير الأسئلة', fetchData: getQuestions, filename: 'تصدير_الأسئلة', supportedFormats: ['xlsx', 'json', 'moodle', 'gift'] },
     { type: 'exams', label: 'تصدير الامتحانات', fetchData: getExams, filename: 'تصدير_الامتحانات', supportedFormats: ['xlsx', 'json'] },
     { type: 'news', label: 'تصدير الأخبار', fetchData: getNewsArticles, filename: 'تصدير_الأخبار', supportedFormats: ['xlsx', 'json'] },
     { type: 'accessCodes', label: 'تصدير رموز الدخول', fetchData: getAccessCodes, filename: 'تصدير_رموز_الدخول', supportedFormats: ['xlsx', 'json'] },
@@ -173,8 +199,7 @@ export default function ExportPage() {
             <CardTitle className="text-3xl font-bold tracking-tight">تصدير البيانات</CardTitle>
           </div>
           <CardDescription className="text-lg text-muted-foreground">
-            قم بتنزيل بيانات التطبيق الخاصة بك بتنسيقات مختلفة. 
-            (ملاحظة: سيفشل جلب البيانات حتى يتم ترحيل وظائف Firestore إلى Supabase).
+            قم بتنزيل بيانات التطبيق الخاصة بك بتنسيقات مختلفة.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-8">
@@ -183,6 +208,9 @@ export default function ExportPage() {
             سيتم تصدير حقول التاريخ كسلاسل تاريخ ISO.
             بالنسبة للبيانات المتداخلة مثل المواد (مع الأقسام والدروس)، يوصى باستخدام تنسيق JSON.
             بالنسبة للأسئلة المصدرة إلى XLSX، ستكون الخيارات والإجابات الصحيحة في أعمدة منفصلة.
+            ولنقل الأسئلة إلى Moodle أو نظام يقرأ تنسيقاته استخدم Moodle XML أو GIFT: يصبح الوسم الأول لكل سؤال فئته،
+            وتُضمَّن الصور في ملف Moodle XML، أما أسئلة المطابقة والترتيب والإجابة الرقمية فلا تُصدَّر بهما.
+            لنقل مقرر كامل إلى مشروع آخر استخدم حزمة المقرر.
           </p>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pt-4">
@@ -207,13 +235,31 @@ export default function ExportPage() {
                       <Label htmlFor={`${type}-json`}>JSON (.json)</Label>
                     </div>
                   )}
+                  {(['moodle', 'gift'] as QuestionFileFormat[]).filter(format => supportedFormats.includes(format)).map(format => (
+                    <div key={format} className="flex items-center space-x-2 rtl:space-x-reverse">
+                      <RadioGroupItem value={format} id={`${type}-${format}`} />
+                      <Label htmlFor={`${type}-${format}`}>{QUESTION_FILE_LABELS[format]}</Label>
+                    </div>
+                  ))}
                 </RadioGroup>
                 <Button onClick={() => handleExport(type, fetchData, filename)} disabled={loadingStates[type]} className="w-full">
                   {loadingStates[type] ? <Loader2 className="ml-2 h-5 w-5 animate-spin rtl:mr-2 rtl:ml-0" /> : <Download className="ml-2 h-5 w-5 rtl:mr-2 rtl:ml-0" />}
                   تصدير {exportFormats[type].toUpperCase()}
                 </Button>
+                {type === 'questions' && questionFileWarnings.length > 0 && (
+                  <Alert variant="destructive" className="mt-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>ما لم يُصدَّر كما هو</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-1 max-h-40 overflow-y-auto list-disc ps-5 text-xs">
+                        {questionFileWarnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
               </Card>
             ))}
+            <CoursePackageExport />
           </div>
         </CardContent>
       </Card>
@@ -17,10 +17,15 @@ import {
     addSubjectsBatch,
     getSubjects,
     getUsers 
-} from '@/lib/firestore'; 
-import type { Question, Option, Subject, QuestionType, Exam, NewsArticle, AccessCode, UserProfile, AccessCodeType } from '@/types';
+} from '@/lib/supabaseData'; 
+import type { Question, Option, Subject, QuestionType, Exam, NewsArticle, AccessCode, UserProfile, AccessCodeType, ImportMode, ImportResult } from '@/types';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import QuestionImportPreview from '@/components/questions/QuestionImportPreview';
+import ImportColumnMapper from '@/components/questions/ImportColumnMapper';
+import CoursePackageImport from '@/components/subjects/CoursePackageImport';
+import { questionFileFormat, readQuestionFile } from '@/lib/questionFormats';
 
 type DataType = 'questions' | 'exams' | 'news' | 'accessCodes' | 'users' | 'subjects';
 
@@ -32,6 +37,18 @@ interface ImportState {
   successMessage: string | null;
 }
 
+// Types whose rows can be matched to ones imported before: by externalId, or by the code for access codes.
+const KEYED_DATA_TYPES: DataType[] = ['questions', 'exams', 'news', 'accessCodes', 'subjects'];
+
+const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  insert: 'إضافة الجديد فقط',
+  update: 'تحديث الموجود فقط',
+  upsert: 'إضافة الجديد وتحديث الموجود',
+};
+
+const describeImportResult = (result: ImportResult): string =>
+  `${result.created} جديد، ${result.updated} محدَّث، ${result.unchanged} دون تغيير، ${result.skipped} متجاوز`;
+
 const initialImportState: ImportState = {
   file: null,
   fileName: null,
@@ -50,8 +67,23 @@ export default function ImportPage() {
     subjects: { ...initialImportState },
   });
 
+  const [importModes, setImportModes] = useState<Record<DataType, ImportMode>>({
+    questions: 'insert',
+    exams: 'insert',
+    news: 'insert',
+    accessCodes: 'insert',
+    users: 'insert',
+    subjects: 'insert',
+  });
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
   const [availableUsers, setAvailableUsers] = useState<UserProfile[]>([]);
+  // Question rows as parsed from the file, waiting for their columns to be mapped in <ImportColumnMapper />.
+  const [pendingQuestionRows, setPendingQuestionRows] = useState<any[] | null>(null);
+  // Mapped question rows waiting for the duplicate review in <QuestionImportPreview />.
+  const [pendingQuestionImport, setPendingQuestionImport] = useState<any[] | null>(null);
+  // Moodle XML and GIFT files name no subject: all their questions go into the one picked here.
+  const [questionFileSubjectId, setQuestionFileSubjectId] = useState<string>('');
+  const [questionFileWarnings, setQuestionFileWarnings] = useState<string[]>([]);
 
   const { toast } = useToast();
 
@@ -79,12 +111,40 @@ export default function ImportPage() {
     }));
   };
 
+  const markImported = (dataType: DataType, summary: string, fileName: string | null) => {
+    updateImportState(dataType, { 
+      successMessage: `تم استيراد ${dataType} بنجاح من ${fileName}: ${summary}.`,
+      file: null, 
+      fileName: null 
+    });
+    toast({ title: "نجاح", description: `استيراد ${dataType}: ${summary}.` });
+    const fileInput = document.getElementById(`file-import-input-${dataType}`) as HTMLInputElement;
+    if (fileInput) fileInput.value = '';
+  };
+
+  /** A keyed import either finished, or stopped at a failed write with the rows before it kept. */
+  const reportImportResult = (dataType: DataType, result: ImportResult, fileName: string | null) => {
+    if (!result.error) {
+      markImported(dataType, describeImportResult(result), fileName);
+      return;
+    }
+    updateImportState(dataType, {
+      error: `توقف الاستيراد قبل اكتماله: ${result.error}. ما كُتب قبل التوقف محفوظ (${describeImportResult(result)})، وإعادة استيراد الملف نفسه بالوضع نفسه تكمل الباقي.`,
+    });
+    toast({ variant: "destructive", title: `استيراد ${dataType} غير مكتمل`, description: describeImportResult(result) });
+  };
+
   const handleFileChangeWrapper = (dataType: DataType) => (event: React.ChangeEvent<HTMLInputElement>) => {
     updateImportState(dataType, { error: null, successMessage: null });
+    if (dataType === 'questions') {
+      setPendingQuestionRows(null);
+      setPendingQuestionImport(null);
+      setQuestionFileWarnings([]);
+    }
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
       const allowedTypes = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/json'];
-      const allowedExtensions = ['.csv', '.xlsx', '.json'];
+      const allowedExtensions = ['.csv', '.xlsx', '.json', ...(dataType === 'questions' ? ['.xml', '.gift', '.txt'] : [])];
       const fileTypeIsAllowed = allowedTypes.includes(selectedFile.type);
       const fileNameEndsWithAllowedExtension = allowedExtensions.some(ext => selectedFile.name.toLowerCase().endsWith(ext));
 
@@ -92,7 +152,9 @@ export default function ImportPage() {
         updateImportState(dataType, { file: selectedFile, fileName: selectedFile.name });
       } else {
         updateImportState(dataType, { 
-          error: "نوع ملف غير صالح. الرجاء تحميل ملف CSV أو XLSX أو JSON.", 
+          error: dataType === 'questions'
+            ? "نوع ملف غير صالح. الرجاء تحميل ملف CSV أو XLSX أو JSON أو Moodle XML أو GIFT."
+            : "نوع ملف غير صالح. الرجاء تحميل ملف CSV أو XLSX أو JSON.", 
           file: null, 
           fileName: null 
         });
@@ -127,9 +189,6 @@ export default function ImportPage() {
       
       try {
         switch (dataType) {
-          case 'questions':
-            itemsToImport.push(normalizedRow); 
-            break;
           case 'exams':
              if (!normalizedRow.title || !normalizedRow.subjectname) { console.warn("تجاوز الامتحان: العنوان أو اسم المادة مفقود", normalizedRow); continue; }
             const examSubjectId = subjectsMapByName.get(String(normalizedRow.subjectname).toLowerCase());
@@ -145,6 +204,7 @@ export default function ImportPage() {
               teacherName: String(normalizedRow.teachername || ''),
               teacherId: String(normalizedRow.teacherid || ''),
               durationInMinutes: normalizedRow.durationinminutes ? parseInt(String(normalizedRow.durationinminutes)) : null,
+              externalId: normalizedRow.externalid ? String(normalizedRow.externalid) : null,
             });
             break;
           case 'news':
@@ -153,6 +213,7 @@ export default function ImportPage() {
               title: String(normalizedRow.title),
               content: String(normalizedRow.content),
               imageUrl: String(normalizedRow.imageurl || ''),
+              externalId: normalizedRow.externalid ? String(normalizedRow.externalid) : null,
             });
             break;
           case 'accessCodes':
@@ -206,6 +267,7 @@ export default function ImportPage() {
               iconName: String(normalizedRow.iconname || ''),
               imageHint: String(normalizedRow.imagehint || ''),
               order: normalizedRow.order ? parseInt(String(normalizedRow.order)) : null,
+              externalId: normalizedRow.externalid ? String(normalizedRow.externalid) : null,
             });
             break;
           default:
@@ -236,7 +298,16 @@ export default function ImportPage() {
     const fileExtension = state.file.name.split('.').pop()?.toLowerCase();
     let parsedDataPromise: Promise<any[]>;
 
-    if (fileExtension === 'csv' || state.file.type === 'text/csv') {
+    if (dataType === 'questions' && questionFileFormat(state.file.name)) {
+      if (!questionFileSubjectId) {
+        updateImportState(dataType, { error: "الرجاء اختيار المادة التي تُستورد إليها أسئلة الملف.", isLoading: false });
+        return;
+      }
+      parsedDataPromise = readQuestionFile(state.file, questionFileSubjectId).then(({ rows, warnings }) => {
+        setQuestionFileWarnings(warnings);
+        return rows;
+      });
+    } else if (fileExtension === 'csv' || state.file.type === 'text/csv') {
       parsedDataPromise = new Promise((resolve, reject) => {
         Papa.parse(state.file!, {
           header: true,
@@ -286,6 +357,17 @@ export default function ImportPage() {
 
     try {
       const parsedData = await parsedDataPromise;
+
+      if (dataType === 'questions') {
+        // The file keeps its own headers until they are mapped to the import fields.
+        if (!parsedData || parsedData.length === 0) {
+          updateImportState(dataType, { error: "الملف المحدد فارغ أو لا يمكن تحليله بشكل صحيح." });
+          return;
+        }
+        setPendingQuestionRows(parsedData);
+        return;
+      }
+
       const itemsToImportResult = await processParsedData(dataType, parsedData);
 
       if (typeof itemsToImportResult === 'string') { 
@@ -295,24 +377,21 @@ export default function ImportPage() {
       
       const itemsToImport = itemsToImportResult as any[];
 
+      const mode = importModes[dataType];
+      let result: ImportResult;
       switch (dataType) {
-        case 'questions': await importQuestionsBatch(itemsToImport); break;
-        case 'exams': await addExamsBatch(itemsToImport); break;
-        case 'news': await addNewsArticlesBatch(itemsToImport); break;
-        case 'accessCodes': await addAccessCodesBatch(itemsToImport); break;
-        case 'users': await addUsersBatch(itemsToImport); break;
-        case 'subjects': await addSubjectsBatch(itemsToImport); break;
+        case 'exams': result = await addExamsBatch(itemsToImport, mode); break;
+        case 'news': result = await addNewsArticlesBatch(itemsToImport, mode); break;
+        case 'accessCodes': result = await addAccessCodesBatch(itemsToImport, mode); break;
+        case 'users':
+          await addUsersBatch(itemsToImport);
+          markImported(dataType, `${itemsToImport.length} مستخدم`, state.fileName);
+          return;
+        case 'subjects': result = await addSubjectsBatch(itemsToImport, mode); break;
         default: throw new Error(`نوع بيانات غير معروف للاستيراد: ${dataType}`);
       }
       
-      updateImportState(dataType, { 
-        successMessage: `تم استيراد ${itemsToImport.length} ${dataType} بنجاح من ${state.fileName}!`,
-        file: null, 
-        fileName: null 
-      });
-      toast({ title: "نجاح", description: `تم استيراد ${itemsToImport.length} ${dataType}.` });
-      const fileInput = document.getElementById(`file-import-input-${dataType}`) as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
+      reportImportResult(dataType, result, state.fileName);
     } catch (err: any) {
       console.error(`خطأ في معالجة أو استيراد ${dataType}:`, err);
       if (err.message && err.message.includes("This function is not implemented for Supabase")) {
@@ -329,7 +408,25 @@ export default function ImportPage() {
     } finally {
       updateImportState(dataType, { isLoading: false });
     }
-  }, [importStates, toast, availableSubjects, availableUsers]); 
+  }, [importStates, importModes, toast, availableSubjects, availableUsers, questionFileSubjectId]); 
+
+  const handleConfirmQuestionImport = async (items: any[]) => {
+    updateImportState('questions', { isLoading: true, error: null });
+    try {
+      const result = await importQuestionsBatch(items, importModes.questions);
+      setPendingQuestionImport(null);
+      setPendingQuestionRows(null);
+      reportImportResult('questions', result, importStates.questions.fileName);
+    } catch (err: any) {
+      console.error("خطأ في استيراد questions:", err);
+      updateImportState('questions', { 
+        error: `حدث خطأ أثناء عملية الاستيراد لـ questions: ${(err as Error).message}. مشكلات كل صف مبينة في المعاينة وفي تقرير الأخطاء (XLSX).`,
+      });
+      toast({ variant: "destructive", title: "فشل استيراد questions", description: "لم يتم استيراد questions." });
+    } finally {
+      updateImportState('questions', { isLoading: false });
+    }
+  };
 
   const importSections: {
     type: DataType;
@@ -343,12 +440,19 @@ export default function ImportPage() {
       icon: ListChecks,
       instructions: (
         <>
-          مطلوب: <code>questionType</code> (mcq, true_false, fill_in_the_blanks, short_answer), <code>questionText</code>, <code>difficulty</code>, <code>subject</code> (name) أو <code>subjectId</code>.<br/>
+          مطلوب: <code>questionType</code> (mcq, true_false, fill_in_the_blanks, short_answer, multi_select, matching, ordering, numeric), <code>questionText</code>, <code>difficulty</code>, <code>subject</code> (name) أو <code>subjectId</code>.<br/>
           MCQ/TrueFalse: <code>option1..6</code>, <code>correctOptionIndex</code> (1-based) أو <code>correctOptionText</code>.<br/>
+          MCQ وMultiSelect وOrdering (اختياري): <code>option1_image</code>/<code>option1_audio</code> وما بعدها لكل خيار (روابط URL)؛ يمكن ترك نص الخيار فارغًا إذا أُرفقت صورة أو صوت.<br/>
           FillInTheBlanks: <code>correctAnswers</code> (إذا كانت متعددة، مفصولة بفاصلة منقوطة ';').<br/>
           ShortAnswer: <code>modelAnswer</code> (اختياري).<br/>
-          اختياري: <code>lessonId</code>, <code>tagIds</code> (مفصولة بفاصلة), <code>isSane</code>, <code>sanityExplanation</code>.<br/>
-          JSON: مصفوفة من كائنات الأسئلة.
+          MultiSelect: <code>option1..8</code>, <code>correctOptionIndexes</code> (1-based، مفصولة بفاصلة منقوطة ';').<br/>
+          Matching: <code>pair1Prompt</code>/<code>pair1Match</code> حتى <code>pair8Prompt</code>/<code>pair8Match</code> (زوجان على الأقل).<br/>
+          Ordering: <code>option1..8</code> بالترتيب الصحيح.<br/>
+          Numeric: <code>numericAnswer</code>، <code>tolerance</code> (اختياري، الافتراضي 0)، <code>unit</code> (اختياري).<br/>
+          اختياري: <code>lessonId</code>, <code>tagIds</code> (مفصولة بفاصلة), <code>isSane</code>, <code>sanityExplanation</code>, <code>externalId</code> (معرف السؤال في ملفك، لإعادة الاستيراد دون تكرار)، <code>feedback</code> (التغذية الراجعة)، و<code>option1_feedback</code> حتى <code>option6_feedback</code> لأسئلة MCQ وصح/خطأ (الخيار 1 صحيح والخيار 2 خطأ).<br/>
+          لا يلزم أن تطابق عناوين الأعمدة هذه الأسماء: بعد فحص الملف تربط كل عمود بحقله (ويمكن حفظ الربط كقالب)، وتُطابق أسماء المواد والدروس (<code>lesson</code>) والوسوم (<code>tags</code>) مع معرفاتها.<br/>
+          JSON: مصفوفة من كائنات الأسئلة.<br/>
+          Moodle XML (<code>.xml</code>) وGIFT (<code>.gift</code> أو <code>.txt</code>): أسئلة الاختيار من متعدد والاختيار المتعدد وصح/خطأ والمقالية (essay) وملء الفراغات (shortanswer وcloze) مع التغذية الراجعة والصور؛ تصبح الفئة والوسوم وسومًا، ويُستورد كل الملف في مادة تختارها.
         </>
       ),
     },
@@ -359,7 +463,7 @@ export default function ImportPage() {
       instructions: (
         <>
           مطلوب: <code>title</code>, <code>subjectName</code> (يجب أن يتطابق مع اسم مادة موجودة).<br/>
-          اختياري: <code>description</code>, <code>questionIds</code> (سلسلة من معرفات الأسئلة مفصولة بفاصلة), <code>published</code> (true/false), <code>image</code> (URL), <code>imageHint</code>, <code>teacherName</code>, <code>teacherId</code>, <code>durationInMinutes</code> (رقم).<br/>
+          اختياري: <code>description</code>, <code>questionIds</code> (سلسلة من معرفات الأسئلة مفصولة بفاصلة), <code>published</code> (true/false), <code>image</code> (URL), <code>imageHint</code>, <code>teacherName</code>, <code>teacherId</code>, <code>durationInMinutes</code> (رقم), <code>externalId</code>.<br/>
           JSON: مصفوفة من كائنات الامتحانات.
         </>
       ),
@@ -371,7 +475,7 @@ export default function ImportPage() {
       instructions: (
         <>
           مطلوب: <code>title</code>, <code>content</code>.<br/>
-          اختياري: <code>imageUrl</code> (URL).<br/>
+          اختياري: <code>imageUrl</code> (URL), <code>externalId</code>.<br/>
           JSON: مصفوفة من كائنات الأخبار.
         </>
       ),
@@ -383,7 +487,7 @@ export default function ImportPage() {
       instructions: (
         <>
           مطلوب: <code>name</code>, <code>encodedValue</code> (سلسلة فريدة لـ QR), <code>type</code> (مثال: subject_monthly), <code>validFrom</code> (YYYY-MM-DD), <code>validUntil</code> (YYYY-MM-DD).<br/>
-          اختياري: <code>subjectName</code> (إذا كان النوع يتطلبه، يجب أن يتطابق مع مادة موجودة), <code>isActive</code> (true/false, الافتراضي true).<br/>
+          اختياري: <code>subjectName</code> (إذا كان النوع يتطلبه، يجب أن يتطابق مع مادة موجودة), <code>isActive</code> (true/false, الافتراضي true). يُعرف الرمز الموجود مسبقًا بقيمة <code>encodedValue</code>، ولا يغيّر التحديث حالة استخدامه.<br/>
           JSON: مصفوفة من كائنات رموز الدخول (تأكد من أن التواريخ هي سلاسل ISO أو قابلة للتحليل).
         </>
       ),
@@ -409,7 +513,7 @@ export default function ImportPage() {
       instructions: (
         <>
           مطلوب: <code>name</code>, <code>branch</code> (scientific, literary, general).<br/>
-          اختياري: <code>description</code>, <code>image</code> (URL), <code>iconName</code> (اسم أيقونة Lucide), <code>imageHint</code>, <code>order</code> (رقم).<br/>
+          اختياري: <code>description</code>, <code>image</code> (URL), <code>iconName</code> (اسم أيقونة Lucide), <code>imageHint</code>, <code>order</code> (رقم), <code>externalId</code>.<br/>
           استيراد CSV/XLSX للتفاصيل ذات المستوى الأعلى. الاستيراد المتداخل الكامل (الأقسام، الدروس) عبر JSON هو ميزة متقدمة تتطلب هيكلًا محددًا.
           <br/>
           JSON: مصفوفة من كائنات المواد (حقول المستوى الأعلى).
@@ -428,7 +532,7 @@ export default function ImportPage() {
             <CardTitle className="text-3xl font-bold tracking-tight">استيراد البيانات</CardTitle>
           </div>
           <CardDescription className="text-lg text-muted-foreground">
-            قم بتحميل ملفات CSV أو Excel (.xlsx) أو JSON لاستيراد البيانات دفعة واحدة. (ملاحظة: سيفشل استيراد البيانات حتى يتم ترحيل وظائف Firestore إلى Supabase).
+            قم بتحميل ملفات CSV أو Excel (.xlsx) أو JSON لاستيراد البيانات دفعة واحدة، أو ملفات أسئلة Moodle XML وGIFT.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-8">
@@ -448,7 +552,7 @@ export default function ImportPage() {
                     <Input
                       id={`file-import-input-${type}`}
                       type="file"
-                      accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/json"
+                      accept={`.csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/json${type === 'questions' ? ', .xml, .gift, .txt' : ''}`}
                       onChange={handleFileChangeWrapper(type)}
                       className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
                       disabled={state.isLoading}
@@ -461,6 +565,41 @@ export default function ImportPage() {
                     <p className="text-xs text-muted-foreground pt-1">{instructions}</p>
                   </div>
 
+                  {type === 'questions' && state.fileName && questionFileFormat(state.fileName) && (
+                    <div className="space-y-1">
+                      <Label htmlFor="question-file-subject" className="text-sm font-medium">مادة الأسئلة المستوردة</Label>
+                      <Select value={questionFileSubjectId} onValueChange={setQuestionFileSubjectId} disabled={state.isLoading || !!pendingQuestionRows}>
+                        <SelectTrigger id="question-file-subject" className="w-full sm:w-72"><SelectValue placeholder="اختر مادة" /></SelectTrigger>
+                        <SelectContent>
+                          {availableSubjects.map(subject => (
+                            <SelectItem key={subject.id} value={subject.id!}>{subject.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">ملفات Moodle XML وGIFT لا تحدد المادة، فتُستورد كل أسئلة الملف في المادة المختارة.</p>
+                    </div>
+                  )}
+
+                  {KEYED_DATA_TYPES.includes(type) && (
+                    <div className="space-y-1">
+                      <Label htmlFor={`import-mode-${type}`} className="text-sm font-medium">
+                        {type === 'accessCodes' ? 'الرموز الموجودة مسبقًا (بنفس encodedValue)' : 'العناصر المستوردة من قبل (بنفس externalId)'}
+                      </Label>
+                      <Select
+                        value={importModes[type]}
+                        onValueChange={value => setImportModes(prev => ({ ...prev, [type]: value as ImportMode }))}
+                        disabled={state.isLoading}
+                      >
+                        <SelectTrigger id={`import-mode-${type}`} className="w-full sm:w-72"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>{IMPORT_MODE_LABELS[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {state.error && (
                     <Alert variant="destructive">
                       <AlertCircle className="h-4 w-4" />
@@ -476,14 +615,48 @@ export default function ImportPage() {
                     </Alert>
                   )}
 
-                  <Button onClick={() => handleImport(type)} disabled={state.isLoading || !state.file} size="lg" className="w-full sm:w-auto">
+                  {type === 'questions' && questionFileWarnings.length > 0 && (
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>ما لم يُستورد من الملف كما هو</AlertTitle>
+                      <AlertDescription>
+                        <ul className="mt-1 max-h-40 overflow-y-auto list-disc ps-5 text-xs">
+                          {questionFileWarnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {type === 'questions' && pendingQuestionRows && !pendingQuestionImport && (
+                    <ImportColumnMapper
+                      rows={pendingQuestionRows}
+                      subjects={availableSubjects}
+                      onComplete={setPendingQuestionImport}
+                      onCancel={() => setPendingQuestionRows(null)}
+                      disabled={state.isLoading}
+                    />
+                  )}
+
+                  {type === 'questions' && pendingQuestionImport && (
+                    <QuestionImportPreview
+                      items={pendingQuestionImport}
+                      subjects={availableSubjects}
+                      fileName={state.fileName}
+                      onConfirm={handleConfirmQuestionImport}
+                      onCancel={() => { setPendingQuestionImport(null); setPendingQuestionRows(null); }}
+                      disabled={state.isLoading}
+                    />
+                  )}
+
+                  <Button onClick={() => handleImport(type)} disabled={state.isLoading || !state.file || (type === 'questions' && !!pendingQuestionRows)} size="lg" className="w-full sm:w-auto">
                     {state.isLoading ? <Loader2 className="ml-2 h-5 w-5 animate-spin rtl:mr-2 rtl:ml-0" /> : <Upload className="ml-2 h-5 w-5 rtl:mr-2 rtl:ml-0" />}
-                    استيراد {title.replace('استيراد ', '')}
+                    {type === 'questions' ? 'فحص الملف ومعاينة الأسئلة' : `استيراد ${title.replace('استيراد ', '')}`}
                   </Button>
                 </CardContent>
               </Card>
             );
           })}
+          <CoursePackageImport />
         </CardContent>
       </Card>
     </div>
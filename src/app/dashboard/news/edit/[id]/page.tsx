@@ -10,7 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { getNewsArticleById, updateNewsArticle } from '@/lib/firestore';
+import { getNewsArticleById, updateNewsArticle } from '@/lib/supabaseData';
 import { useParams, useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Save, Newspaper } from 'lucide-react';
@@ -81,7 +81,7 @@ export default function EditNewsArticlePage() {
       await updateNewsArticle(articleIdFromParams, {
         title: data.title,
         content: data.content,
-        // If imageUrl is an empty string, store undefined/null so Firestore removes the field or sets it to null
+        // If imageUrl is an empty string, leave it unset so the column is stored as NULL
         // If it's a valid URL, store that.
         imageUrl: data.imageUrl && data.imageUrl.trim() !== '' ? data.imageUrl.trim() : undefined,
       });
@@ -10,7 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { addNewsArticle } from '@/lib/firestore';
+import { addNewsArticle } from '@/lib/supabaseData';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { PlusCircle, Loader2, Newspaper } from 'lucide-react';
@@ -43,7 +43,7 @@ export default function NewNewsArticlePage() {
       await addNewsArticle({
         title: data.title,
         content: data.content,
-        imageUrl: data.imageUrl || undefined, // Store undefined if empty string, Firestore handles it as absent
+        imageUrl: data.imageUrl || undefined, // Store undefined if empty string; the column is saved as NULL
       });
       toast({
         title: "نجاح!",
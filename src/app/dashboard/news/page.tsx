@@ -1,7 +1,7 @@
 
 // src/app/dashboard/news/page.tsx
 "use client";
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
@@ -17,11 +17,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Newspaper, PlusCircle, Loader2, Edit3, Trash2, CalendarDays } from 'lucide-react';
-import { getNewsArticles, deleteNewsArticle } from '@/lib/firestore'; // These will throw errors
+import { Newspaper, PlusCircle, Loader2, Edit3, Trash2, CalendarDays, Search } from 'lucide-react';
+import { getNewsArticles, deleteNewsArticle } from '@/lib/supabaseData';
 import type { NewsArticle } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { format, parseISO } from 'date-fns'; // Added parseISO
+import { Input } from '@/components/ui/input';
+import HighlightedText from '@/components/HighlightedText';
+import { matchesArabicSearch } from '@/lib/arabicText';
 
 const isValidImageUrlForNextImage = (url?: string): boolean => {
   if (!url || url.trim() === '') return false;
@@ -41,8 +44,14 @@ export default function NewsPage() {
   const [newsArticles, setNewsArticles] = useState<NewsArticle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [deletingArticleId, setDeletingArticleId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
   const { toast } = useToast();
 
+  const filteredArticles = useMemo(
+    () => newsArticles.filter(article => matchesArabicSearch(`${article.title} ${article.content}`, searchTerm)),
+    [newsArticles, searchTerm]
+  );
+
   useEffect(() => {
     const fetchArticles = async () => {
       setIsLoading(true);
@@ -117,6 +126,15 @@ export default function NewsPage() {
           <CardDescription className="text-lg text-muted-foreground">
             قم بإنشاء، تعديل، ونشر الأخبار والإعلانات من هنا.
           </CardDescription>
+          <div className="relative mt-2 max-w-sm">
+            <Search className="absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="ابحث في الأخبار..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pr-8"
+            />
+          </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -132,9 +150,11 @@ export default function NewsPage() {
                 ابدأ بإضافة خبر جديد ليظهر هنا.
               </p>
             </div>
+          ) : filteredArticles.length === 0 ? (
+            <p className="py-10 text-center text-muted-foreground">لا توجد أخبار تطابق البحث.</p>
           ) : (
             <div className="space-y-6">
-              {newsArticles.map((article) => (
+              {filteredArticles.map((article) => (
                 <Card key={article.id} className="overflow-hidden hover:shadow-md transition-shadow duration-200">
                   <div className="md:flex">
                     {isValidImageUrlForNextImage(article.imageUrl) && (
@@ -150,13 +170,13 @@ export default function NewsPage() {
                       </div>
                     )}
                     <div className={`p-6 ${isValidImageUrlForNextImage(article.imageUrl) ? 'md:w-2/3' : 'w-full'}`}>
-                      <CardTitle className="text-xl mb-2">{article.title}</CardTitle>
+                      <CardTitle className="text-xl mb-2"><HighlightedText text={article.title} query={searchTerm} /></CardTitle>
                       <div className="flex items-center text-sm text-muted-foreground mb-3">
                         <CalendarDays className="mr-1.5 h-4 w-4 rtl:ml-1.5 rtl:mr-0" />
                         نشر في: {formatDate(article.created_at)}
                       </div>
                       <CardDescription className="line-clamp-3 mb-4">
-                        {article.content}
+                        <HighlightedText text={article.content} query={searchTerm} />
                       </CardDescription>
                        <CardFooter className="p-0 pt-4 border-t flex justify-end space-x-2 rtl:space-x-reverse">
                           <Button variant="outline" size="sm" asChild>
@@ -27,7 +27,7 @@ import {
   getAccessCodes,
   getTeachers,
   getUsers,
-} from '@/lib/firestore';
+} from '@/lib/supabaseData';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 
@@ -17,11 +17,10 @@ import * as z from 'zod';
 import QRCodeStyling from 'react-qr-code';
 import { v4 as uuidv4 } from 'uuid';
 import { useToast } from '@/hooks/use-toast';
-import { addAccessCode, getAccessCodes, getSubjects, updateAccessCode, deleteAccessCode } from '@/lib/firestore'; // These will throw errors
+import { addAccessCode, getAccessCodes, getSubjects, updateAccessCode, deleteAccessCode } from '@/lib/supabaseData';
 import type { AccessCode, AccessCodeType, Subject } from '@/types';
 import { QrCode, Download, Save, Loader2, CalendarIcon, Trash2, Edit3, CheckCircle, XCircle, ListChecks, PackagePlus, Printer, CheckSquare, Square, MinusSquare, CircleSlash, HelpCircle } from 'lucide-react';
 import { format, addMonths, addYears, isValid, addQuarters, parseISO } from 'date-fns'; // Added parseISO
-// Removed: import { Timestamp } from 'firebase/firestore';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -0,0 +1,241 @@
+// src/app/dashboard/questions/duplicates/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowRight, Copy, Loader2, Merge, RefreshCw, X } from 'lucide-react';
+import MathText from '@/components/MathText';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '@/components/questions/questionLabels';
+import {
+  clusterDuplicatePairs,
+  findDuplicateQuestionPairs,
+  getDuplicateCandidates,
+  getSubjects,
+  mergeQuestions,
+  type DuplicateCandidate,
+} from '@/lib/supabaseData';
+import type { Subject } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+
+const ALL_SUBJECTS = 'all';
+
+interface DuplicateCluster {
+  key: string;
+  candidates: DuplicateCandidate[];
+  survivorId: string;
+}
+
+// The question used by the most exams is the natural survivor; ties go to the oldest one.
+const pickSurvivor = (candidates: DuplicateCandidate[]): string =>
+  [...candidates].sort((a, b) =>
+    b.examCount - a.examCount || (a.question.created_at ?? '').localeCompare(b.question.created_at ?? '')
+  )[0].question.id!;
+
+const formatDate = (value: string | undefined) =>
+  value ? format(parseISO(value), 'd MMMM yyyy', { locale: arSA }) : '—';
+
+export default function DuplicateQuestionsPage() {
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectFilter, setSubjectFilter] = useState<string>(ALL_SUBJECTS);
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [clusterToMerge, setClusterToMerge] = useState<DuplicateCluster | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const { toast } = useToast();
+  const { user, userProfile } = useAuth();
+
+  useEffect(() => {
+    if (!user || !userProfile) return;
+    getSubjects(user.id, userProfile.role)
+      .then(setSubjects)
+      .catch(error => console.error("Error fetching subjects:", error));
+  }, [user, userProfile]);
+
+  const fetchClusters = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const pairs = await findDuplicateQuestionPairs(subjectFilter === ALL_SUBJECTS ? null : subjectFilter);
+      const idClusters = clusterDuplicatePairs(pairs);
+      const candidates = await getDuplicateCandidates(idClusters.flat());
+      const byId = new Map(candidates.map(candidate => [candidate.question.id!, candidate]));
+      setClusters(
+        idClusters
+          .map(ids => ids.map(id => byId.get(id)).filter((c): c is DuplicateCandidate => !!c))
+          .filter(members => members.length > 1)
+          .map(members => ({ key: members.map(m => m.question.id).sort().join(','), candidates: members, survivorId: pickSurvivor(members) }))
+      );
+    } catch (error) {
+      console.error("Error finding duplicate questions:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل البحث عن الأسئلة المكررة." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subjectFilter, toast]);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  const setSurvivor = (key: string, survivorId: string) => {
+    setClusters(prev => prev.map(cluster => (cluster.key === key ? { ...cluster, survivorId } : cluster)));
+  };
+
+  const dismissCluster = (key: string) => {
+    setClusters(prev => prev.filter(cluster => cluster.key !== key));
+  };
+
+  const handleMerge = async () => {
+    if (!clusterToMerge) return;
+    setIsMerging(true);
+    try {
+      const duplicateIds = clusterToMerge.candidates
+        .map(candidate => candidate.question.id!)
+        .filter(id => id !== clusterToMerge.survivorId);
+      const movedLinks = await mergeQuestions(clusterToMerge.survivorId, duplicateIds);
+      dismissCluster(clusterToMerge.key);
+      toast({
+        title: "نجاح",
+        description: `تم دمج ${duplicateIds.length} سؤال ونقل ${movedLinks} ارتباط بالامتحانات. الأسئلة المدمجة في سلة المحذوفات.`,
+      });
+      setClusterToMerge(null);
+    } catch (error: any) {
+      console.error("Error merging questions:", error);
+      toast({ variant: "destructive", title: "خطأ", description: error?.message || "فشل دمج الأسئلة." });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
+              <Copy className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold tracking-tight">الأسئلة المكررة</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/questions">
+                  <ArrowRight className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> الأسئلة
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={fetchClusters} disabled={isLoading}>
+                <RefreshCw className={`mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0 ${isLoading ? 'animate-spin' : ''}`} /> تحديث
+              </Button>
+            </div>
+          </div>
+          <CardDescription className="text-lg text-muted-foreground">
+            أسئلة من المادة نفسها تتطابق صياغتها تقريبًا بعد توحيد التشكيل والهمزات والتاء المربوطة. اختر السؤال الذي سيبقى، وتنتقل إليه ارتباطات الامتحانات والدرس والتصنيفات.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="max-w-xs space-y-1">
+            <Label>المادة</Label>
+            <Select value={subjectFilter} onValueChange={setSubjectFilter} disabled={isLoading}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SUBJECTS}>كل المواد</SelectItem>
+                {subjects.map(subject => (
+                  <SelectItem key={subject.id} value={subject.id!}>{subject.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+            </div>
+          ) : clusters.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-border rounded-lg bg-muted/30 min-h-[240px]">
+              <Copy className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <h2 className="text-2xl font-semibold text-foreground mb-2">لا توجد أسئلة مكررة</h2>
+              <p className="text-muted-foreground max-w-md">لم يُعثر على أسئلة متشابهة إلى حد التكرار.</p>
+            </div>
+          ) : (
+            clusters.map(cluster => (
+              <Card key={cluster.key} className="shadow-sm">
+                <CardContent className="pt-6 space-y-4">
+                  <RadioGroup value={cluster.survivorId} onValueChange={value => setSurvivor(cluster.key, value)} className="space-y-2">
+                    {cluster.candidates.map(({ question, examCount }) => (
+                      <label
+                        key={question.id}
+                        className="flex items-start gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50 has-[:checked]:border-primary"
+                      >
+                        <RadioGroupItem value={question.id!} className="mt-1" />
+                        <div className="flex-1 space-y-1">
+                          <MathText text={question.questionText} />
+                          <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                            <Badge variant="outline">{QUESTION_TYPE_LABELS[question.questionType]}</Badge>
+                            {question.difficulty && <Badge variant="outline">{DIFFICULTY_LABELS[question.difficulty]}</Badge>}
+                            <Badge variant="secondary">{examCount} امتحان</Badge>
+                            <span>أُضيف {formatDate(question.created_at)}</span>
+                            <Link href={`/dashboard/questions/edit/${question.id}`} target="_blank" className="underline">فتح</Link>
+                          </div>
+                        </div>
+                        {question.id === cluster.survivorId && <Badge>سيبقى</Badge>}
+                      </label>
+                    ))}
+                  </RadioGroup>
+                  <div className="flex gap-2">
+                    <Button onClick={() => setClusterToMerge(cluster)}>
+                      <Merge className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> دمج في السؤال المحدد
+                    </Button>
+                    <Button variant="ghost" onClick={() => dismissCluster(cluster.key)}>
+                      <X className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> ليست مكررة
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!clusterToMerge} onOpenChange={(open) => !open && setClusterToMerge(null)}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader className="text-right">
+            <AlertDialogTitle>دمج {clusterToMerge ? clusterToMerge.candidates.length - 1 : 0} سؤال في السؤال المحدد؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              ستشير الامتحانات التي تستخدم الأسئلة المكررة إلى السؤال المحدد، وتُنقل الأسئلة المكررة إلى سلة المحذوفات حيث يمكن استعادتها.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="flex-row-reverse">
+            <AlertDialogCancel disabled={isMerging}>إلغاء</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleMerge(); }} disabled={isMerging}>
+              {isMerging && <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />}
+              تأكيد الدمج
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -20,8 +20,8 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { getQuestionById, updateQuestion, getSubjects, getTags, addTag as createTagInDb } from '@/lib/firestore';
-import { uploadFile, deleteFileByUrl } from '@/lib/storage';
+import { getQuestionById, updateQuestion, getSubjects, getTags, addTag as createTagInDb } from '@/lib/supabaseData';
+import { uploadFile } from '@/lib/storage';
 import { useParams, useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { PlusCircle, Trash2, Loader2, Sparkles, AlertTriangle, CheckCircle2, BookCopy, SaveIcon, TagsIcon, Image as ImageIcon, Upload } from 'lucide-react';
@@ -32,10 +32,28 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import NextImage from 'next/image';
+import AuditHistorySheet from '@/components/audit/AuditHistorySheet';
+import QuestionRevisionsPanel from '@/components/questions/QuestionRevisionsPanel';
+import ExtendedAnswerFields from '@/components/questions/ExtendedAnswerFields';
+import MathText, { MathPreview } from '@/components/MathText';
+import {
+  EXTENDED_QUESTION_TYPES,
+  isExtendedQuestionType,
+  matchingAnswerSchema,
+  multiSelectAnswerSchema,
+  numericAnswerSchema,
+  orderingAnswerSchema,
+  toExtendedAnswerFormValues,
+  toExtendedAnswerPayload,
+  type ExtendedAnswerFormValues,
+} from '@/components/questions/extendedQuestionTypes';
+import { QUESTION_TYPE_LABELS } from '@/components/questions/questionLabels';
+import OptionMediaFields from '@/components/questions/OptionMediaFields';
+import DistractorSuggestions, { type McqOptionsState } from '@/components/questions/DistractorSuggestions';
+import { hasOptionContent, mcqOptionSchema, optionMediaUrls, optionSelectLabel, toOptionFormValues, toOptionMedia } from '@/components/questions/optionMedia';
+import { useSessionUploads } from '@/hooks/use-session-uploads';
 
-const optionSchema = z.object({
-  text: z.string().min(1, "Option text cannot be empty."),
-});
+const optionSchema = mcqOptionSchema("Option text cannot be empty unless it has an image or audio clip.");
 
 const correctAnswerSchema = z.object({
   text: z.string().min(1, "Correct answer text cannot be empty."),
@@ -49,6 +67,7 @@ const baseQuestionSchema = z.object({
   imageHint: z.string().max(50, "تلميح الصورة لا يمكن أن يتجاوز 50 حرفًا.").optional(),
   difficulty: z.enum(['easy', 'medium', 'hard'], { required_error: "Please select a difficulty." }),
   tagIds: z.array(z.string()).optional().default([]),
+  feedback: z.string().optional(),
 });
 
 // Schema for Multiple Choice Questions (MCQ)
@@ -83,6 +102,10 @@ const questionSchema = z.discriminatedUnion("questionType", [
   trueFalseQuestionSchema,
   fillInTheBlanksQuestionSchema,
   shortAnswerQuestionSchema,
+  baseQuestionSchema.extend(multiSelectAnswerSchema.shape),
+  baseQuestionSchema.extend(matchingAnswerSchema.shape),
+  baseQuestionSchema.extend(orderingAnswerSchema.shape),
+  baseQuestionSchema.extend(numericAnswerSchema.shape),
 ]);
 
 type QuestionFormValues = z.infer<typeof questionSchema>;
@@ -99,6 +122,7 @@ export default function EditQuestionPage() {
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
   const [availableTags, setAvailableTags] = useState<Tag[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped after a revision restore to reload the form
   
   const router = useRouter();
   const params = useParams();
@@ -159,6 +183,33 @@ export default function EditQuestionPage() {
      // @ts-ignore
     name: "options",
   });
+  // Files uploaded during this edit are deleted as soon as they are dropped; saved ones only on save,
+  // and only when no revision refers to them any more.
+  const optionUploads = useSessionUploads();
+
+  const handleRemoveMcqOption = (index: number) => {
+    const removed = form.getValues(`options.${index}`);
+    removeMcqOption(index);
+    void optionUploads.discard(removed?.imageUrl);
+    void optionUploads.discard(removed?.audioUrl);
+  };
+
+  const getMcqOptionsState = () => {
+    const correctIndex = parseInt(form.getValues('correctOptionIndex') ?? '', 10);
+    return {
+      questionText: form.getValues('questionText'),
+      options: form.getValues('options') || [],
+      correctIndex: isNaN(correctIndex) ? null : correctIndex,
+    };
+  };
+
+  const handleApplyDistractors = (next: McqOptionsState) => {
+    const keptUrls = optionMediaUrls(next.options);
+    const droppedUrls = optionMediaUrls(form.getValues('options')).filter(url => !keptUrls.includes(url));
+    replaceMcqOptions(next.options);
+    if (next.correctIndex !== null) form.setValue('correctOptionIndex', String(next.correctIndex));
+    droppedUrls.forEach(url => { void optionUploads.discard(url); });
+  };
 
   const { fields: fillBlankAnswerFields, append: appendFillBlankAnswer, remove: removeFillBlankAnswer, replace: replaceFillBlankAnswers } = useFieldArray({
     control: form.control,
@@ -242,10 +293,11 @@ export default function EditQuestionPage() {
           difficulty: fetchedQuestionData.difficulty,
           tagIds: fetchedQuestionData.tagIds || [],
           questionType: fetchedQuestionData.questionType,
+          feedback: fetchedQuestionData.feedback || '',
         };
 
         if (fetchedQuestionData.questionType === 'mcq') {
-          defaultValues.options = (fetchedQuestionData as MCQQuestion).options.map(opt => ({ text: opt.text }));
+          defaultValues.options = (fetchedQuestionData as MCQQuestion).options.map(toOptionFormValues);
           const correctIndex = (fetchedQuestionData as MCQQuestion).options.findIndex(opt => opt.id === (fetchedQuestionData as MCQQuestion).correctOptionId);
           defaultValues.correctOptionIndex = correctIndex !== -1 ? correctIndex.toString() : undefined;
 
@@ -255,19 +307,21 @@ export default function EditQuestionPage() {
           defaultValues.correctAnswers = (fetchedQuestionData as FillInTheBlanksQuestion).correctAnswers.map(ans => ({ text: ans }));
         } else if (fetchedQuestionData.questionType === 'short_answer') {
           defaultValues.modelAnswer = (fetchedQuestionData as ShortAnswerQuestion).modelAnswer;
+        } else {
+          Object.assign(defaultValues, toExtendedAnswerFormValues(fetchedQuestionData));
         }
         
         form.reset(defaultValues as QuestionFormValues);
 
         if (fetchedQuestionData.questionType === 'mcq') {
-           replaceMcqOptions((fetchedQuestionData as MCQQuestion).options.map(opt => ({ text: opt.text })));
+           replaceMcqOptions((fetchedQuestionData as MCQQuestion).options.map(toOptionFormValues));
         } else if (fetchedQuestionData.questionType === 'fill_in_the_blanks') {
            replaceFillBlankAnswers((fetchedQuestionData as FillInTheBlanksQuestion).correctAnswers.map(ans => ({ text: ans })));
         }
       }
     };
     fetchPageData();
-  }, [params, form, router, toast, replaceMcqOptions, replaceFillBlankAnswers]); 
+  }, [params, form, router, toast, replaceMcqOptions, replaceFillBlankAnswers, reloadKey]); 
 
   const handleAiCheck = async () => {
     const questionText = form.getValues("questionText");
@@ -368,12 +422,7 @@ export default function EditQuestionPage() {
     if (!questionIdFromParams || !initialQuestionData) return;
     setIsLoading(true);
     try {
-       // If the image URL has changed from the original and the original was not empty, delete the old file
-      if (initialQuestionData.imageUrl && data.imageUrl !== initialQuestionData.imageUrl) {
-        await deleteFileByUrl(initialQuestionData.imageUrl);
-        toast({ title: "تنظيف", description: "تم حذف الصورة القديمة من المخزن." });
-      }
-
+      // A replaced image is kept in storage: earlier revisions of the question still point to it.
       const selectedSubject = availableSubjects.find(s => s.id === data.subjectId);
       if (!selectedSubject) {
         toast({ variant: "destructive", title: "خطأ", description: "المادة المختارة غير موجودة." });
@@ -387,7 +436,8 @@ export default function EditQuestionPage() {
         const mcqData = data as Extract<QuestionFormValues, { questionType: 'mcq' }>;
         const optionsWithIds: Option[] = mcqData.options.map((opt, index) => ({ 
           id: initialQuestionData.questionType === 'mcq' ? ((initialQuestionData as MCQQuestion).options[index]?.id || `option-${Date.now()}-${index}`) : `option-${Date.now()}-${index}`,
-          text: opt.text 
+          text: opt.text.trim(),
+          ...toOptionMedia(opt),
         }));
         const correctOptionIndex = parseInt(mcqData.correctOptionIndex, 10);
         if (isNaN(correctOptionIndex) || correctOptionIndex < 0 || correctOptionIndex >= optionsWithIds.length) {
@@ -418,10 +468,16 @@ export default function EditQuestionPage() {
           questionText: tfData.questionText,
           imageUrl: tfData.imageUrl || null,
           imageHint: tfData.imageHint || null,
+          // The choices are fixed; only their feedback (from a Moodle XML or GIFT import) is carried over.
           options: [ 
             { id: 'true', text: 'صحيح' },
             { id: 'false', text: 'خطأ' },
-          ],
+          ].map(opt => {
+            const feedback = initialQuestionData.questionType === 'true_false'
+              ? (initialQuestionData as TrueFalseQuestion).options.find(initial => initial.id === opt.id)?.feedback
+              : null;
+            return feedback ? { ...opt, feedback } : opt;
+          }),
           correctOptionId: tfData.correctBooleanAnswer,
           difficulty: tfData.difficulty,
           subjectId: selectedSubject.id,
@@ -447,6 +503,20 @@ export default function EditQuestionPage() {
           tagIds: fitbData.tagIds || [],
           lessonId: initialQuestionData?.lessonId || null,
         };
+      } else if (isExtendedQuestionType(data.questionType)) {
+        updatedQuestionPayload = {
+          ...toExtendedAnswerPayload(data as ExtendedAnswerFormValues, initialQuestionData),
+          questionText: data.questionText,
+          imageUrl: data.imageUrl || null,
+          imageHint: data.imageHint || null,
+          difficulty: data.difficulty,
+          subjectId: selectedSubject.id,
+          subject: selectedSubject.name,
+          isSane: aiCheckResult ? aiCheckResult.isSane : (initialQuestionData?.isSane ?? null),
+          sanityExplanation: aiCheckResult ? aiCheckResult.explanation : (initialQuestionData?.sanityExplanation ?? null),
+          tagIds: data.tagIds || [],
+          lessonId: initialQuestionData?.lessonId || null,
+        };
       } else { // 'short_answer'
         const saData = data as Extract<QuestionFormValues, { questionType: 'short_answer' }>;
         updatedQuestionPayload = {
@@ -464,9 +534,13 @@ export default function EditQuestionPage() {
           lessonId: initialQuestionData?.lessonId || null,
         };
       }
-
+      updatedQuestionPayload.feedback = data.feedback?.trim() || null;
 
       await updateQuestion(questionIdFromParams, updatedQuestionPayload);
+      await optionUploads.commit(
+        optionMediaUrls(updatedQuestionPayload.options),
+        optionMediaUrls('options' in initialQuestionData ? initialQuestionData.options : undefined),
+      );
       toast({ title: "نجاح!", description: "تم تحديث السؤال بنجاح." });
       router.push('/dashboard/questions');
     } catch (error) {
@@ -489,213 +563,324 @@ export default function EditQuestionPage() {
   }
 
   return (
-    <Card className="max-w-3xl mx-auto shadow-lg">
-      <CardHeader>
-        <div className="flex items-center space-x-3 rtl:space-x-reverse">
-          <BookCopy className="h-8 w-8 text-primary" />
-          <CardTitle className="text-2xl font-bold">تعديل السؤال</CardTitle>
-        </div>
-        <CardDescription>قم بتعديل تفاصيل السؤال الحالي.</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-            <FormField
-              control={form.control}
-              name="subjectId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>المادة</FormLabel>
-                   <Select 
-                    onValueChange={field.onChange} 
-                    value={field.value} 
-                    disabled={isLoading || isFetchingSubjects || availableSubjects.length === 0}
-                  >
+    <div className="space-y-6">
+      <Card className="max-w-3xl mx-auto shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
+              <BookCopy className="h-8 w-8 text-primary" />
+              <CardTitle className="text-2xl font-bold">تعديل السؤال</CardTitle>
+            </div>
+            {params?.id && <AuditHistorySheet entityType="question" entityId={params.id as string} />}
+          </div>
+          <CardDescription>قم بتعديل تفاصيل السؤال الحالي.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+              <FormField
+                control={form.control}
+                name="subjectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>المادة</FormLabel>
+                     <Select 
+                      onValueChange={field.onChange} 
+                      value={field.value} 
+                      disabled={isLoading || isFetchingSubjects || availableSubjects.length === 0}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="اختر المادة للسؤال" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {isFetchingSubjects && availableSubjects.length === 0 ? ( 
+                          <div className="flex items-center justify-center p-4">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                            <span className="ml-2 rtl:mr-2">جاري تحميل المواد...</span>
+                          </div>
+                        ) : availableSubjects.length === 0 ? (
+                           <div className="p-4 text-center text-muted-foreground">
+                             لا توجد مواد مضافة. يرجى <a href="/dashboard/subjects" className="text-primary hover:underline">إضافة مادة</a> أولاً.
+                           </div>
+                        ) : (
+                          availableSubjects.map((subject) => (
+                            <SelectItem key={subject.id} value={subject.id!}>
+                              {subject.name} ({subject.branch})
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="questionType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>نوع السؤال</FormLabel>
+                    <Select onValueChange={(value) => {
+                      field.onChange(value);
+                    }} value={field.value} disabled={isLoading}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="اختر نوع السؤال" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="mcq">اختيار من متعدد</SelectItem>
+                        <SelectItem value="true_false">صح/خطأ</SelectItem>
+                        <SelectItem value="fill_in_the_blanks">املأ الفراغات</SelectItem>
+                        <SelectItem value="short_answer">سؤال مقالي قصير</SelectItem>
+                        {EXTENDED_QUESTION_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            
+              <FormField
+                control={form.control}
+                name="questionText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>نص السؤال (عربي)</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="اختر المادة للسؤال" />
-                      </SelectTrigger>
+                      <Textarea 
+                        placeholder={
+                          watchedQuestionType === 'fill_in_the_blanks' 
+                          ? "اكتب نص السؤال هنا، واستخدم ____ للإشارة إلى الفراغات."
+                          : "اكتب نص السؤال هنا..."
+                        } 
+                        {...field} 
+                        rows={4} 
+                      />
                     </FormControl>
-                    <SelectContent>
-                      {isFetchingSubjects && availableSubjects.length === 0 ? ( 
-                        <div className="flex items-center justify-center p-4">
-                          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
-                          <span className="ml-2 rtl:mr-2">جاري تحميل المواد...</span>
-                        </div>
-                      ) : availableSubjects.length === 0 ? (
-                         <div className="p-4 text-center text-muted-foreground">
-                           لا توجد مواد مضافة. يرجى <a href="/dashboard/subjects" className="text-primary hover:underline">إضافة مادة</a> أولاً.
-                         </div>
-                      ) : (
-                        availableSubjects.map((subject) => (
-                          <SelectItem key={subject.id} value={subject.id!}>
-                            {subject.name} ({subject.branch})
-                          </SelectItem>
-                        ))
-                      )}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
+                    <MathPreview text={field.value} />
+                    <FormDescription>هذا هو النص الأساسي للسؤال. اكتب الرياضيات بين {'$...$'} (أو {'$$...$$'} لسطر مستقل) والمعادلات الكيميائية بالصيغة {'\\ce{...}'}.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {currentImageUrl && (
+                <FormItem>
+                    <FormLabel>الصورة الحالية للسؤال</FormLabel>
+                    <div className="mt-2 relative w-full h-48 rounded-md overflow-hidden border">
+                        <NextImage src={currentImageUrl} alt="صورة السؤال الحالية" layout="fill" objectFit="contain" />
+                    </div>
                 </FormItem>
               )}
-            />
-            <FormField
-              control={form.control}
-              name="questionType"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>نوع السؤال</FormLabel>
-                  <Select onValueChange={(value) => {
-                    field.onChange(value);
-                  }} value={field.value} disabled={isLoading}>
+
+              <div className="space-y-2">
+                  <FormField
+                      control={form.control}
+                      name="imageUrl"
+                      render={({ field }) => (
+                      <FormItem>
+                          <FormLabel className="flex items-center">
+                              <ImageIcon className="h-4 w-4 mr-2 rtl:ml-2 rtl:mr-0"/>
+                              {currentImageUrl ? 'تغيير رابط صورة السؤال' : 'إضافة رابط صورة للسؤال'} (اختياري)
+                          </FormLabel>
+                          <FormControl>
+                              <Input 
+                              type="url" 
+                              placeholder="https://example.com/question-image.png" 
+                              {...field} 
+                              value={field.value ?? ''}
+                              />
+                          </FormControl>
+                          <FormDescription>
+                              أدخل رابط URL مباشر أو ارفع صورة جديدة باستخدام الزر أدناه.
+                          </FormDescription>
+                          <FormMessage />
+                      </FormItem>
+                      )}
+                  />
+                  <div className="relative flex gap-2">
+                      <Button type="button" variant="outline" disabled={isUploading || isLoading} onClick={() => document.getElementById('question-image-upload-edit')?.click()}>
+                          {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                          {isUploading ? 'جاري الرفع...' : 'رفع صورة'}
+                      </Button>
+                       {currentImageUrl && (
+                          <Button type="button" variant="destructive" size="sm" onClick={() => form.setValue('imageUrl', '')} disabled={isUploading || isLoading}>
+                              <Trash2 className="mr-2 h-4 w-4" /> مسح الصورة الحالية
+                          </Button>
+                      )}
+                      <input
+                          type="file"
+                          id="question-image-upload-edit"
+                          className="hidden"
+                          accept="image/png, image/jpeg, image/gif, image/webp"
+                          onChange={handleImageUpload}
+                          disabled={isUploading || isLoading}
+                      />
+                  </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="imageHint"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>تلميح الصورة (اختياري)</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="اختر نوع السؤال" />
-                      </SelectTrigger>
+                      <Input placeholder="مثال: 'رسم بياني كيميائي' أو 'معادلة رياضية'" {...field} value={field.value ?? ''}/>
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value="mcq">اختيار من متعدد</SelectItem>
-                      <SelectItem value="true_false">صح/خطأ</SelectItem>
-                      <SelectItem value="fill_in_the_blanks">املأ الفراغات</SelectItem>
-                      <SelectItem value="short_answer">سؤال مقالي قصير</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormDescription>
+                      كلمة أو كلمتين لوصف الصورة. ستُستخدم كـ `data-ai-hint`.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             
-            <FormField
-              control={form.control}
-              name="questionText"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>نص السؤال (عربي)</FormLabel>
-                  <FormControl>
-                    <Textarea 
-                      placeholder={
-                        watchedQuestionType === 'fill_in_the_blanks' 
-                        ? "اكتب نص السؤال هنا، واستخدم ____ للإشارة إلى الفراغات."
-                        : "اكتب نص السؤال هنا..."
-                      } 
-                      {...field} 
-                      rows={4} 
-                    />
-                  </FormControl>
-                  <FormDescription>هذا هو النص الأساسي للسؤال.</FormDescription>
-                  <FormMessage />
-                </FormItem>
+              <div className="space-x-2 rtl:space-x-reverse flex items-center">
+                  <Button type="button" variant="outline" onClick={handleAiCheck} disabled={isAiChecking || isLoading || isSuggestingTags}>
+                  {isAiChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                  فحص سلامة اللغة العربية
+                  </Button>
+                  <Button type="button" variant="outline" onClick={handleAiSuggestTags} disabled={isSuggestingTags || isLoading || isAiChecking}>
+                      {isSuggestingTags ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                      اقترح تصنيفات بالذكاء الاصطناعي
+                  </Button>
+              </div>
+
+
+              {aiCheckResult && (
+                <Alert variant={aiCheckResult.isSane ? "default" : "destructive"} className="mt-4">
+                  {aiCheckResult.isSane ? <CheckCircle2 className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                  <AlertTitle>{aiCheckResult.isSane ? "فحص AI: يبدو جيدًا!" : "فحص AI: تم العثور على مشاكل محتملة"}</AlertTitle>
+                  <AlertDescription><MathText text={aiCheckResult.explanation} /></AlertDescription>
+                </Alert>
               )}
-            />
 
-            {currentImageUrl && (
-              <FormItem>
-                  <FormLabel>الصورة الحالية للسؤال</FormLabel>
-                  <div className="mt-2 relative w-full h-48 rounded-md overflow-hidden border">
-                      <NextImage src={currentImageUrl} alt="صورة السؤال الحالية" layout="fill" objectFit="contain" />
+              {watchedQuestionType === 'mcq' && (
+                <>
+                  <div>
+                    <Label>الخيارات</Label>
+                    <div className="space-y-4 mt-2">
+                      {mcqOptionFields.map((item, index) => (
+                        <FormField
+                          key={item.id}
+                          control={form.control}
+                          name={`options.${index}.text`}
+                          render={({ field: optionField }) => (
+                            <FormItem>
+                              <div className="flex items-center gap-2">
+                                <FormControl><Input placeholder={`الخيار ${index + 1}`} {...optionField} /></FormControl>
+                                {mcqOptionFields.length > 2 && (
+                                  <Button type="button" variant="destructive" size="icon" onClick={() => handleRemoveMcqOption(index)} disabled={isLoading}>
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                              <MathPreview text={optionField.value} />
+                              <OptionMediaFields index={index} uploads={optionUploads} disabled={isLoading} />
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      {mcqOptionFields.length < 6 && (
+                        <Button type="button" variant="outline" size="sm" onClick={() => appendMcqOption({ text: '' })} disabled={isLoading}>
+                          <PlusCircle className="mr-2 h-4 w-4" /> أضف خيارًا
+                        </Button>
+                      )}
+                      <DistractorSuggestions getState={getMcqOptionsState} maxOptions={6} onApply={handleApplyDistractors} disabled={isLoading} />
+                    </div>
                   </div>
-              </FormItem>
-            )}
 
-            <div className="space-y-2">
-                <FormField
+                  <FormField
                     control={form.control}
-                    name="imageUrl"
+                     // @ts-ignore
+                    name="correctOptionIndex"
                     render={({ field }) => (
-                    <FormItem>
-                        <FormLabel className="flex items-center">
-                            <ImageIcon className="h-4 w-4 mr-2 rtl:ml-2 rtl:mr-0"/>
-                            {currentImageUrl ? 'تغيير رابط صورة السؤال' : 'إضافة رابط صورة للسؤال'} (اختياري)
-                        </FormLabel>
-                        <FormControl>
-                            <Input 
-                            type="url" 
-                            placeholder="https://example.com/question-image.png" 
-                            {...field} 
-                            value={field.value ?? ''}
-                            />
-                        </FormControl>
-                        <FormDescription>
-                            أدخل رابط URL مباشر أو ارفع صورة جديدة باستخدام الزر أدناه.
-                        </FormDescription>
+                      <FormItem>
+                        <FormLabel>الإجابة الصحيحة</FormLabel>
+                        <Select onValueChange={field.onChange} value={String(field.value)} disabled={isLoading}>
+                          <FormControl><SelectTrigger><SelectValue placeholder="اختر الإجابة الصحيحة" /></SelectTrigger></FormControl>
+                          <SelectContent>
+                             {/* @ts-ignore */}
+                            {(form.getValues("options") || []).map((option, index) => (
+                              <SelectItem key={index} value={index.toString()} disabled={!hasOptionContent(option)}>
+                                {optionSelectLabel(option, index)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
-                    </FormItem>
-                    )}
-                />
-                <div className="relative flex gap-2">
-                    <Button type="button" variant="outline" disabled={isUploading || isLoading} onClick={() => document.getElementById('question-image-upload-edit')?.click()}>
-                        {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-                        {isUploading ? 'جاري الرفع...' : 'رفع صورة'}
-                    </Button>
-                     {currentImageUrl && (
-                        <Button type="button" variant="destructive" size="sm" onClick={() => form.setValue('imageUrl', '')} disabled={isUploading || isLoading}>
-                            <Trash2 className="mr-2 h-4 w-4" /> مسح الصورة الحالية
-                        </Button>
+                      </FormItem>
                     )}
-                    <input
-                        type="file"
-                        id="question-image-upload-edit"
-                        className="hidden"
-                        accept="image/png, image/jpeg, image/gif, image/webp"
-                        onChange={handleImageUpload}
-                        disabled={isUploading || isLoading}
-                    />
-                </div>
-            </div>
+                  />
+                </>
+              )}
 
-            <FormField
-              control={form.control}
-              name="imageHint"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>تلميح الصورة (اختياري)</FormLabel>
-                  <FormControl>
-                    <Input placeholder="مثال: 'رسم بياني كيميائي' أو 'معادلة رياضية'" {...field} value={field.value ?? ''}/>
-                  </FormControl>
-                  <FormDescription>
-                    كلمة أو كلمتين لوصف الصورة. ستُستخدم كـ `data-ai-hint`.
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
+              {watchedQuestionType === 'true_false' && (
+                 <FormField
+                  control={form.control}
+                   // @ts-ignore
+                  name="correctBooleanAnswer"
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormLabel>الإجابة الصحيحة</FormLabel>
+                      <FormControl>
+                        <RadioGroup
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          className="flex flex-col space-y-1"
+                          disabled={isLoading}
+                        >
+                          <FormItem className="flex items-center space-x-3 space-y-0 rtl:space-x-reverse">
+                            <FormControl>
+                              <RadioGroupItem value="true" />
+                            </FormControl>
+                            <FormLabel className="font-normal">صحيح</FormLabel>
+                          </FormItem>
+                          <FormItem className="flex items-center space-x-3 space-y-0 rtl:space-x-reverse">
+                            <FormControl>
+                              <RadioGroupItem value="false" />
+                            </FormControl>
+                            <FormLabel className="font-normal">خطأ</FormLabel>
+                          </FormItem>
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
             
-            <div className="space-x-2 rtl:space-x-reverse flex items-center">
-                <Button type="button" variant="outline" onClick={handleAiCheck} disabled={isAiChecking || isLoading || isSuggestingTags}>
-                {isAiChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
-                فحص سلامة اللغة العربية
-                </Button>
-                <Button type="button" variant="outline" onClick={handleAiSuggestTags} disabled={isSuggestingTags || isLoading || isAiChecking}>
-                    {isSuggestingTags ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
-                    اقترح تصنيفات بالذكاء الاصطناعي
-                </Button>
-            </div>
-
-
-            {aiCheckResult && (
-              <Alert variant={aiCheckResult.isSane ? "default" : "destructive"} className="mt-4">
-                {aiCheckResult.isSane ? <CheckCircle2 className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
-                <AlertTitle>{aiCheckResult.isSane ? "فحص AI: يبدو جيدًا!" : "فحص AI: تم العثور على مشاكل محتملة"}</AlertTitle>
-                <AlertDescription>{aiCheckResult.explanation}</AlertDescription>
-              </Alert>
-            )}
-
-            {watchedQuestionType === 'mcq' && (
-              <>
-                <div>
-                  <Label>الخيارات</Label>
+              {watchedQuestionType === 'fill_in_the_blanks' && (
+                 <div>
+                  <Label>الإجابات الصحيحة للفراغات</Label>
+                   <FormDescription className="text-xs mb-2">
+                    أضف إجابة لكل فراغ (____) في نص السؤال.
+                  </FormDescription>
                   <div className="space-y-4 mt-2">
-                    {mcqOptionFields.map((item, index) => (
+                    {fillBlankAnswerFields.map((item, index) => (
                       <FormField
                         key={item.id}
                         control={form.control}
-                        name={`options.${index}.text`}
-                        render={({ field: optionField }) => (
+                        // @ts-ignore
+                        name={`correctAnswers.${index}.text`}
+                        render={({ field }) => (
                           <FormItem>
                             <div className="flex items-center gap-2">
-                              <FormControl><Input placeholder={`الخيار ${index + 1}`} {...optionField} /></FormControl>
-                              {mcqOptionFields.length > 2 && (
-                                <Button type="button" variant="destructive" size="icon" onClick={() => removeMcqOption(index)} disabled={isLoading}>
+                              <FormControl>
+                                <Input placeholder={`إجابة الفراغ ${index + 1}`} {...field} />
+                              </FormControl>
+                              {fillBlankAnswerFields.length > 1 && (
+                                <Button type="button" variant="destructive" size="icon" onClick={() => removeFillBlankAnswer(index)} disabled={isLoading}>
                                   <Trash2 className="h-4 w-4" />
                                 </Button>
                               )}
@@ -706,235 +891,162 @@ export default function EditQuestionPage() {
                       />
                     ))}
                   </div>
-                  {mcqOptionFields.length < 6 && (
-                    <Button type="button" variant="outline" size="sm" onClick={() => appendMcqOption({ text: '' })} className="mt-2" disabled={isLoading}>
-                      <PlusCircle className="mr-2 h-4 w-4" /> أضف خيارًا
-                    </Button>
-                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendFillBlankAnswer({ text: '' })}
+                    className="mt-2"
+                    disabled={isLoading}
+                  >
+                    <PlusCircle className="mr-2 h-4 w-4" /> إضافة إجابة فراغ أخرى
+                  </Button>
                 </div>
+              )}
 
+              {watchedQuestionType === 'short_answer' && (
                 <FormField
                   control={form.control}
-                   // @ts-ignore
-                  name="correctOptionIndex"
+                  // @ts-ignore
+                  name="modelAnswer"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>الإجابة الصحيحة</FormLabel>
-                      <Select onValueChange={field.onChange} value={String(field.value)} disabled={isLoading}>
-                        <FormControl><SelectTrigger><SelectValue placeholder="اختر الإجابة الصحيحة" /></SelectTrigger></FormControl>
-                        <SelectContent>
-                           {/* @ts-ignore */}
-                          {(form.getValues("options") || []).map((option, index) => (
-                            <SelectItem key={index} value={index.toString()} disabled={!option.text?.trim()}>
-                              الخيار {index + 1}: {option.text?.length > 30 ? option.text.substring(0,30) + '...' : option.text}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <FormLabel>الإجابة النموذجية (اختياري)</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="اكتب الإجابة النموذجية هنا كمرجع..." {...field} rows={3} />
+                      </FormControl>
+                      <MathPreview text={field.value} />
+                      <FormDescription>
+                        هذه الإجابة للمراجعة ولن يتم استخدامها للتصحيح التلقائي.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </>
-            )}
+              )}
 
-            {watchedQuestionType === 'true_false' && (
-               <FormField
+              {isExtendedQuestionType(watchedQuestionType) && (
+                <ExtendedAnswerFields questionType={watchedQuestionType} disabled={isLoading} />
+              )}
+
+              <FormField
                 control={form.control}
-                 // @ts-ignore
-                name="correctBooleanAnswer"
+                name="feedback"
                 render={({ field }) => (
-                  <FormItem className="space-y-3">
-                    <FormLabel>الإجابة الصحيحة</FormLabel>
-                    <FormControl>
-                      <RadioGroup
-                        onValueChange={field.onChange}
-                        value={field.value}
-                        className="flex flex-col space-y-1"
-                        disabled={isLoading}
-                      >
-                        <FormItem className="flex items-center space-x-3 space-y-0 rtl:space-x-reverse">
-                          <FormControl>
-                            <RadioGroupItem value="true" />
-                          </FormControl>
-                          <FormLabel className="font-normal">صحيح</FormLabel>
-                        </FormItem>
-                        <FormItem className="flex items-center space-x-3 space-y-0 rtl:space-x-reverse">
-                          <FormControl>
-                            <RadioGroupItem value="false" />
-                          </FormControl>
-                          <FormLabel className="font-normal">خطأ</FormLabel>
-                        </FormItem>
-                      </RadioGroup>
-                    </FormControl>
+                  <FormItem>
+                    <FormLabel>التغذية الراجعة (اختياري)</FormLabel>
+                    <FormControl><Textarea placeholder="شرح عام للإجابة الصحيحة..." {...field} value={field.value ?? ''} rows={2} /></FormControl>
+                    <FormDescription>تُنقل مع السؤال عند التصدير إلى Moodle XML وGIFT والاستيراد منهما.</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-            )}
-            
-            {watchedQuestionType === 'fill_in_the_blanks' && (
-               <div>
-                <Label>الإجابات الصحيحة للفراغات</Label>
-                 <FormDescription className="text-xs mb-2">
-                  أضف إجابة لكل فراغ (____) في نص السؤال.
-                </FormDescription>
-                <div className="space-y-4 mt-2">
-                  {fillBlankAnswerFields.map((item, index) => (
-                    <FormField
-                      key={item.id}
-                      control={form.control}
-                      // @ts-ignore
-                      name={`correctAnswers.${index}.text`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <div className="flex items-center gap-2">
-                            <FormControl>
-                              <Input placeholder={`إجابة الفراغ ${index + 1}`} {...field} />
-                            </FormControl>
-                            {fillBlankAnswerFields.length > 1 && (
-                              <Button type="button" variant="destructive" size="icon" onClick={() => removeFillBlankAnswer(index)} disabled={isLoading}>
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            )}
-                          </div>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  ))}
-                </div>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => appendFillBlankAnswer({ text: '' })}
-                  className="mt-2"
-                  disabled={isLoading}
-                >
-                  <PlusCircle className="mr-2 h-4 w-4" /> إضافة إجابة فراغ أخرى
-                </Button>
-              </div>
-            )}
 
-            {watchedQuestionType === 'short_answer' && (
               <FormField
                 control={form.control}
-                // @ts-ignore
-                name="modelAnswer"
+                name="difficulty"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>الإجابة النموذجية (اختياري)</FormLabel>
-                    <FormControl>
-                      <Textarea placeholder="اكتب الإجابة النموذجية هنا كمرجع..." {...field} rows={3} />
-                    </FormControl>
-                    <FormDescription>
-                      هذه الإجابة للمراجعة ولن يتم استخدامها للتصحيح التلقائي.
-                    </FormDescription>
+                    <FormLabel>مستوى الصعوبة</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                      <FormControl><SelectTrigger><SelectValue placeholder="اختر مستوى الصعوبة" /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value="easy">سهل</SelectItem>
+                        <SelectItem value="medium">متوسط</SelectItem>
+                        <SelectItem value="hard">صعب</SelectItem>
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-            )}
-
-
-            <FormField
-              control={form.control}
-              name="difficulty"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>مستوى الصعوبة</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
-                    <FormControl><SelectTrigger><SelectValue placeholder="اختر مستوى الصعوبة" /></SelectTrigger></FormControl>
-                    <SelectContent>
-                      <SelectItem value="easy">سهل</SelectItem>
-                      <SelectItem value="medium">متوسط</SelectItem>
-                      <SelectItem value="hard">صعب</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
 
-            <FormField
-              control={form.control}
-              name="tagIds"
-              render={() => (
-                <FormItem>
-                  <div className="mb-2">
-                    <FormLabel className="text-base flex items-center">
-                      <TagsIcon className="h-5 w-5 mr-2 rtl:ml-2 rtl:mr-0 text-primary" />
-                      التصنيفات (اختياري)
-                    </FormLabel>
-                    <FormDescription>
-                      اختر التصنيفات ذات الصلة بهذا السؤال.
-                    </FormDescription>
-                  </div>
-                  {isFetchingTags ? (
-                    <div className="flex items-center justify-center p-2">
-                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
-                        <span className="ml-2 rtl:mr-2">جاري تحميل التصنيفات...</span>
+              <FormField
+                control={form.control}
+                name="tagIds"
+                render={() => (
+                  <FormItem>
+                    <div className="mb-2">
+                      <FormLabel className="text-base flex items-center">
+                        <TagsIcon className="h-5 w-5 mr-2 rtl:ml-2 rtl:mr-0 text-primary" />
+                        التصنيفات (اختياري)
+                      </FormLabel>
+                      <FormDescription>
+                        اختر التصنيفات ذات الصلة بهذا السؤال.
+                      </FormDescription>
                     </div>
-                  ) : availableTags.length === 0 ? (
-                    <p className="text-sm text-muted-foreground">
-                      لا توجد تصنيفات متاحة. يمكنك إضافة تصنيفات من <a href="/dashboard/tags" className="text-primary hover:underline">صفحة التصنيفات</a>.
-                    </p>
-                  ) : (
-                    <ScrollArea className="h-40 rounded-md border p-3">
-                      <div className="space-y-2">
-                        {availableTags.map((tag) => (
-                          <FormField
-                            key={tag.id}
-                            control={form.control}
-                            name="tagIds"
-                            render={({ field }) => {
-                              return (
-                                <FormItem
-                                  key={tag.id}
-                                  className="flex flex-row items-center space-x-2 space-y-0 rtl:space-x-reverse"
-                                >
-                                  <FormControl>
-                                    <Checkbox
-                                      checked={field.value?.includes(tag.id!)}
-                                      onCheckedChange={(checked) => {
-                                        return checked
-                                          ? field.onChange([...(field.value || []), tag.id!])
-                                          : field.onChange(
-                                              (field.value || []).filter(
-                                                (value) => value !== tag.id
-                                              )
-                                            );
-                                      }}
-                                    />
-                                  </FormControl>
-                                  <FormLabel className="font-normal text-sm cursor-pointer">
-                                    {tag.name}
-                                  </FormLabel>
-                                </FormItem>
-                              );
-                            }}
-                          />
-                        ))}
+                    {isFetchingTags ? (
+                      <div className="flex items-center justify-center p-2">
+                          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                          <span className="ml-2 rtl:mr-2">جاري تحميل التصنيفات...</span>
                       </div>
-                    </ScrollArea>
-                  )}
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    ) : availableTags.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        لا توجد تصنيفات متاحة. يمكنك إضافة تصنيفات من <a href="/dashboard/tags" className="text-primary hover:underline">صفحة التصنيفات</a>.
+                      </p>
+                    ) : (
+                      <ScrollArea className="h-40 rounded-md border p-3">
+                        <div className="space-y-2">
+                          {availableTags.map((tag) => (
+                            <FormField
+                              key={tag.id}
+                              control={form.control}
+                              name="tagIds"
+                              render={({ field }) => {
+                                return (
+                                  <FormItem
+                                    key={tag.id}
+                                    className="flex flex-row items-center space-x-2 space-y-0 rtl:space-x-reverse"
+                                  >
+                                    <FormControl>
+                                      <Checkbox
+                                        checked={field.value?.includes(tag.id!)}
+                                        onCheckedChange={(checked) => {
+                                          return checked
+                                            ? field.onChange([...(field.value || []), tag.id!])
+                                            : field.onChange(
+                                                (field.value || []).filter(
+                                                  (value) => value !== tag.id
+                                                )
+                                              );
+                                        }}
+                                      />
+                                    </FormControl>
+                                    <FormLabel className="font-normal text-sm cursor-pointer">
+                                      {tag.name}
+                                    </FormLabel>
+                                  </FormItem>
+                                );
+                              }}
+                            />
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
 
-            <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => router.back()} disabled={isLoading}>إلغاء</Button>
-                <Button type="submit" disabled={!canSubmit}>
-                  {isLoading || isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SaveIcon className="mr-2 h-4 w-4" />}
-                  حفظ التغييرات
-                </Button>
-            </div>
-          </form>
-        </Form>
-      </CardContent>
-    </Card>
+              <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => router.back()} disabled={isLoading}>إلغاء</Button>
+                  <Button type="submit" disabled={!canSubmit}>
+                    {isLoading || isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SaveIcon className="mr-2 h-4 w-4" />}
+                    حفظ التغييرات
+                  </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+      {params?.id && (
+        <QuestionRevisionsPanel
+          questionId={params.id as string}
+          availableTags={availableTags}
+          onRestored={() => setReloadKey(k => k + 1)}
+        />
+      )}
+    </div>
   );
 }
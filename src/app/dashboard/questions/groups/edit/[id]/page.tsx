@@ -0,0 +1,80 @@
+// src/app/dashboard/questions/groups/edit/[id]/page.tsx
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Layers, Loader2 } from 'lucide-react';
+import { getQuestionGroupById } from '@/lib/supabaseData';
+import type { QuestionGroup } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import QuestionGroupForm from '@/components/questions/QuestionGroupForm';
+import AuditHistorySheet from '@/components/audit/AuditHistorySheet';
+
+export default function EditQuestionGroupPage() {
+  const [group, setGroup] = useState<QuestionGroup | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const groupId = params?.id as string | undefined;
+
+  useEffect(() => {
+    if (!groupId) return;
+    const fetchGroup = async () => {
+      setIsFetching(true);
+      try {
+        setGroup(await getQuestionGroupById(groupId));
+      } catch (error) {
+        console.error("Error fetching question group:", error);
+        toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب مجموعة الأسئلة." });
+      } finally {
+        setIsFetching(false);
+      }
+    };
+    fetchGroup();
+  }, [groupId, toast]);
+
+  if (isFetching) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <Card className="max-w-3xl mx-auto shadow-lg">
+        <CardHeader>
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <AlertTriangle className="h-8 w-8 text-destructive" />
+            <CardTitle className="text-2xl font-bold">المجموعة غير موجودة</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => router.push('/dashboard/questions/groups')}>العودة إلى مجموعات الأسئلة</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-3xl mx-auto shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <Layers className="h-8 w-8 text-primary" />
+            <CardTitle className="text-2xl font-bold">تعديل مجموعة الأسئلة</CardTitle>
+          </div>
+          <AuditHistorySheet entityType="question_group" entityId={group.id!} />
+        </div>
+        <CardDescription>تغيير الدرس هنا ينقل كل أسئلة المجموعة إليه.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <QuestionGroupForm group={group} />
+      </CardContent>
+    </Card>
+  );
+}
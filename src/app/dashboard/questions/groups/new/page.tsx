@@ -0,0 +1,24 @@
+// src/app/dashboard/questions/groups/new/page.tsx
+"use client";
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Layers } from 'lucide-react';
+import QuestionGroupForm from '@/components/questions/QuestionGroupForm';
+
+export default function NewQuestionGroupPage() {
+  return (
+    <Card className="max-w-3xl mx-auto shadow-lg">
+      <CardHeader>
+        <div className="flex items-center space-x-3 rtl:space-x-reverse">
+          <Layers className="h-8 w-8 text-primary" />
+          <CardTitle className="text-2xl font-bold">مجموعة أسئلة جديدة</CardTitle>
+        </div>
+        <CardDescription>أضف مقطعًا (نصًا أو صورة) ثم اختر الأسئلة التي تعتمد عليه ورتبها.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <QuestionGroupForm />
+      </CardContent>
+    </Card>
+  );
+}
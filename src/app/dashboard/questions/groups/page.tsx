@@ -0,0 +1,181 @@
+// src/app/dashboard/questions/groups/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowRight, Edit3, Layers, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { getQuestionGroups, deleteQuestionGroup, getSubjects } from '@/lib/supabaseData';
+import type { QuestionGroup, Subject } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+
+export default function QuestionGroupsPage() {
+  const [groups, setGroups] = useState<QuestionGroup[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [groupToDelete, setGroupToDelete] = useState<QuestionGroup | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+  const { user, userProfile } = useAuth();
+
+  const fetchGroups = useCallback(async () => {
+    if (!user || !userProfile) return;
+    setIsLoading(true);
+    try {
+      const [fetchedGroups, fetchedSubjects] = await Promise.all([
+        getQuestionGroups(user.id, userProfile.role),
+        getSubjects(user.id, userProfile.role),
+      ]);
+      setGroups(fetchedGroups);
+      setSubjects(fetchedSubjects);
+    } catch (error) {
+      console.error("Error fetching question groups:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب مجموعات الأسئلة." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, userProfile, toast]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const subjectNames = useMemo(
+    () => new Map(subjects.map(subject => [subject.id!, subject.name])),
+    [subjects]
+  );
+
+  const handleDelete = async () => {
+    if (!groupToDelete?.id) return;
+    setIsDeleting(true);
+    try {
+      await deleteQuestionGroup(groupToDelete.id);
+      setGroups(prev => prev.filter(group => group.id !== groupToDelete.id));
+      toast({ title: "نجاح", description: `تم حذف المجموعة "${groupToDelete.title}".` });
+      setGroupToDelete(null);
+    } catch (error) {
+      console.error("Error deleting question group:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل حذف المجموعة." });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
+              <Layers className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold tracking-tight">مجموعات الأسئلة</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/questions">
+                  <ArrowRight className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> الأسئلة
+                </Link>
+              </Button>
+              <Button asChild>
+                <Link href="/dashboard/questions/groups/new">
+                  <PlusCircle className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> مجموعة جديدة
+                </Link>
+              </Button>
+            </div>
+          </div>
+          <CardDescription className="text-lg text-muted-foreground">
+            مقاطع القراءة والأسئلة المرتبطة بها. تُضاف المجموعة إلى الدروس والامتحانات كوحدة واحدة وتبقى أسئلتها متتالية.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-border rounded-lg bg-muted/30 min-h-[240px]">
+              <Layers className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <h2 className="text-2xl font-semibold text-foreground mb-2">لا توجد مجموعات بعد</h2>
+              <p className="text-muted-foreground max-w-md">أنشئ مجموعة لتجمع عدة أسئلة حول نص أو صورة مشتركة.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>العنوان</TableHead>
+                    <TableHead>المادة</TableHead>
+                    <TableHead className="text-center">عدد الأسئلة</TableHead>
+                    <TableHead className="text-right">الإجراءات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map(group => (
+                    <TableRow key={group.id}>
+                      <TableCell className="font-medium max-w-xs">
+                        <div className="truncate" title={group.title}>{group.title}</div>
+                        {group.stimulusText && (
+                          <div className="text-xs text-muted-foreground truncate" title={group.stimulusText}>{group.stimulusText}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{(group.subjectId && subjectNames.get(group.subjectId)) || '—'}</TableCell>
+                      <TableCell className="text-center">{group.questionIds?.length ?? 0}</TableCell>
+                      <TableCell className="text-right space-x-1 rtl:space-x-reverse">
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={`/dashboard/questions/groups/edit/${group.id}`}>
+                            <Edit3 className="mr-1 h-3 w-3 rtl:ml-1 rtl:mr-0" /> تعديل
+                          </Link>
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setGroupToDelete(group)}>
+                          <Trash2 className="mr-1 h-3 w-3 rtl:ml-1 rtl:mr-0" /> حذف
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!groupToDelete} onOpenChange={(open) => !open && setGroupToDelete(null)}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader className="text-right">
+            <AlertDialogTitle>حذف المجموعة "{groupToDelete?.title}"؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيُحذف المقطع نهائيًا، أما أسئلته فتبقى في بنك الأسئلة كأسئلة مستقلة.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="flex-row-reverse">
+            <AlertDialogCancel disabled={isDeleting}>إلغاء</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleDelete(); }} disabled={isDeleting} className="bg-destructive hover:bg-destructive/90">
+              {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />}
+              تأكيد الحذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
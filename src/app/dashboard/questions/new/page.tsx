@@ -20,7 +20,7 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { addQuestion, getSubjects, getTags, addTag as createTagInDb, getSubjectSections, getLessonsInSection } from '@/lib/firestore';
+import { addQuestion, getSubjects, getTags, addTag as createTagInDb, getSubjectSections, getLessonsInSection } from '@/lib/supabaseData';
 import { uploadFile } from '@/lib/storage';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
@@ -31,10 +31,26 @@ import { suggestQuestionTags } from '@/ai/flows/suggest-question-tags-flow';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import ExtendedAnswerFields from '@/components/questions/ExtendedAnswerFields';
+import MathText, { MathPreview } from '@/components/MathText';
+import {
+  EXTENDED_QUESTION_TYPES,
+  isExtendedQuestionType,
+  matchingAnswerSchema,
+  multiSelectAnswerSchema,
+  numericAnswerSchema,
+  orderingAnswerSchema,
+  toExtendedAnswerPayload,
+  type ExtendedAnswerFormValues,
+} from '@/components/questions/extendedQuestionTypes';
+import { QUESTION_TYPE_LABELS } from '@/components/questions/questionLabels';
+import OptionMediaFields from '@/components/questions/OptionMediaFields';
+import DistractorSuggestions, { type McqOptionsState } from '@/components/questions/DistractorSuggestions';
+import SimilarQuestionsAlert from '@/components/questions/SimilarQuestionsAlert';
+import { hasOptionContent, mcqOptionSchema, optionMediaUrls, optionSelectLabel, toOptionMedia } from '@/components/questions/optionMedia';
+import { useSessionUploads } from '@/hooks/use-session-uploads';
 
-const optionSchema = z.object({
-  text: z.string().min(1, "نص الخيار لا يمكن أن يكون فارغًا."),
-});
+const optionSchema = mcqOptionSchema("نص الخيار لا يمكن أن يكون فارغًا ما لم يُرفق به صورة أو صوت.");
 
 const correctAnswerSchema = z.object({
   text: z.string().min(1, "نص الإجابة لا يمكن أن يكون فارغًا."),
@@ -49,6 +65,7 @@ const baseQuestionSchema = z.object({
   imageHint: z.string().max(50, "تلميح الصورة لا يمكن أن يتجاوز 50 حرفًا.").optional(),
   difficulty: z.enum(['easy', 'medium', 'hard'], { required_error: "الرجاء اختيار مستوى الصعوبة." }),
   tagIds: z.array(z.string()).optional().default([]),
+  feedback: z.string().optional(),
 });
 
 const mcqQuestionSchema = baseQuestionSchema.extend({
@@ -77,6 +94,10 @@ const questionSchema = z.discriminatedUnion("questionType", [
   trueFalseQuestionSchema,
   fillInTheBlanksQuestionSchema,
   shortAnswerQuestionSchema,
+  baseQuestionSchema.extend(multiSelectAnswerSchema.shape),
+  baseQuestionSchema.extend(matchingAnswerSchema.shape),
+  baseQuestionSchema.extend(orderingAnswerSchema.shape),
+  baseQuestionSchema.extend(numericAnswerSchema.shape),
 ]);
 
 type QuestionFormValues = z.infer<typeof questionSchema>;
@@ -120,12 +141,14 @@ export default function NewQuestionPage() {
       correctOptionIndex: undefined,
       correctAnswers: [{ text: '' }],
       modelAnswer: '',
+      feedback: '',
     },
   });
 
   const watchedQuestionType = form.watch("questionType");
   const watchedSubjectId = form.watch("subjectId");
   const watchedSectionId = form.watch("sectionId");
+  const watchedQuestionText = form.watch("questionText");
 
   useEffect(() => {
     if (watchedQuestionType === 'mcq') {
@@ -240,10 +263,35 @@ export default function NewQuestionPage() {
     fetchLessons();
   }, [watchedSubjectId, watchedSectionId, form, toast]);
 
-  const { fields: mcqOptionFields, append: appendMcqOption, remove: removeMcqOption } = useFieldArray({
+  const { fields: mcqOptionFields, append: appendMcqOption, remove: removeMcqOption, replace: replaceMcqOptions } = useFieldArray({
     control: form.control,
     name: "options", 
   });
+  const optionUploads = useSessionUploads();
+
+  const handleRemoveMcqOption = (index: number) => {
+    const removed = form.getValues(`options.${index}`);
+    removeMcqOption(index);
+    void optionUploads.discard(removed?.imageUrl);
+    void optionUploads.discard(removed?.audioUrl);
+  };
+
+  const getMcqOptionsState = () => {
+    const correctIndex = parseInt(form.getValues('correctOptionIndex') ?? '', 10);
+    return {
+      questionText: form.getValues('questionText'),
+      options: form.getValues('options') || [],
+      correctIndex: isNaN(correctIndex) ? null : correctIndex,
+    };
+  };
+
+  const handleApplyDistractors = (next: McqOptionsState) => {
+    const keptUrls = optionMediaUrls(next.options);
+    const droppedUrls = optionMediaUrls(form.getValues('options')).filter(url => !keptUrls.includes(url));
+    replaceMcqOptions(next.options);
+    if (next.correctIndex !== null) form.setValue('correctOptionIndex', String(next.correctIndex));
+    droppedUrls.forEach(url => { void optionUploads.discard(url); });
+  };
   
   const { fields: fillBlankAnswerFields, append: appendFillBlankAnswer, remove: removeFillBlankAnswer } = useFieldArray({
     control: form.control,
@@ -388,7 +436,7 @@ export default function NewQuestionPage() {
       let questionPayload: Omit<Question, 'id' | 'createdAt' | 'updatedAt'>;
       if (data.questionType === 'mcq') {
         const mcqData = data as Extract<QuestionFormValues, { questionType: 'mcq' }>;
-        const optionsWithIds: Option[] = mcqData.options.map((opt, index) => ({ id: `option-${index + 1}-${Date.now()}`, text: opt.text }));
+        const optionsWithIds: Option[] = mcqData.options.map((opt, index) => ({ id: `option-${index + 1}-${Date.now()}`, text: opt.text.trim(), ...toOptionMedia(opt) }));
         const correctOptionId = optionsWithIds[parseInt(mcqData.correctOptionIndex)].id;
         questionPayload = {
           questionType: 'mcq', questionText: data.questionText, imageUrl: data.imageUrl || null, imageHint: data.imageHint || null, options: optionsWithIds, correctOptionId: correctOptionId,
@@ -415,6 +463,15 @@ export default function NewQuestionPage() {
           sanityExplanation: aiCheckResult ? aiCheckResult.explanation : null,
           tagIds: data.tagIds || [], lessonId: data.lessonId || null,
         };
+      } else if (isExtendedQuestionType(data.questionType)) {
+        questionPayload = {
+          ...toExtendedAnswerPayload(data as ExtendedAnswerFormValues),
+          questionText: data.questionText, imageUrl: data.imageUrl || null, imageHint: data.imageHint || null,
+          difficulty: data.difficulty, subjectId: selectedSubject.id, subject: selectedSubject.name,
+          isSane: aiCheckResult ? aiCheckResult.isSane : null,
+          sanityExplanation: aiCheckResult ? aiCheckResult.explanation : null,
+          tagIds: data.tagIds || [], lessonId: data.lessonId || null,
+        };
       } else { 
          const saData = data as Extract<QuestionFormValues, { questionType: 'short_answer' }>;
          questionPayload = {
@@ -425,7 +482,9 @@ export default function NewQuestionPage() {
           tagIds: data.tagIds || [], lessonId: data.lessonId || null,
         };
       }
+      questionPayload.feedback = data.feedback?.trim() || null;
       await addQuestion(questionPayload);
+      await optionUploads.commit(optionMediaUrls('options' in questionPayload ? questionPayload.options : undefined));
       toast({ title: "Success!", description: "New question added successfully." });
       router.push('/dashboard/questions');
     } catch (error) {
@@ -596,6 +655,9 @@ export default function NewQuestionPage() {
                       <SelectItem value="true_false">صح/خطأ</SelectItem>
                       <SelectItem value="fill_in_the_blanks">املأ الفراغات</SelectItem>
                       <SelectItem value="short_answer">سؤال مقالي قصير</SelectItem>
+                      {EXTENDED_QUESTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -620,12 +682,15 @@ export default function NewQuestionPage() {
                       rows={4} 
                     />
                   </FormControl>
-                  <FormDescription>هذا هو النص الأساسي للسؤال.</FormDescription>
+                  <MathPreview text={field.value} />
+                  <FormDescription>هذا هو النص الأساسي للسؤال. اكتب الرياضيات بين {'$...$'} (أو {'$$...$$'} لسطر مستقل) والمعادلات الكيميائية بالصيغة {'\\ce{...}'}.</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <SimilarQuestionsAlert questionText={watchedQuestionText} subjectId={watchedSubjectId} />
+
             <div className="space-y-2">
                 <FormField
                     control={form.control}
@@ -699,7 +764,7 @@ export default function NewQuestionPage() {
               <Alert variant={aiCheckResult.isSane ? "default" : "destructive"} className="mt-4">
                 {aiCheckResult.isSane ? <CheckCircle2 className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
                 <AlertTitle>{aiCheckResult.isSane ? "فحص AI: يبدو جيدًا!" : "فحص AI: تم العثور على مشاكل محتملة"}</AlertTitle>
-                <AlertDescription>{aiCheckResult.explanation}</AlertDescription>
+                <AlertDescription><MathText text={aiCheckResult.explanation} /></AlertDescription>
               </Alert>
             )}
 
@@ -720,22 +785,27 @@ export default function NewQuestionPage() {
                                 <Input placeholder={`الخيار ${index + 1}`} {...optionField} />
                               </FormControl>
                               {mcqOptionFields.length > 2 && (
-                                <Button type="button" variant="destructive" size="icon" onClick={() => removeMcqOption(index)} disabled={isLoading}>
+                                <Button type="button" variant="destructive" size="icon" onClick={() => handleRemoveMcqOption(index)} disabled={isLoading}>
                                   <Trash2 className="h-4 w-4" />
                                 </Button>
                               )}
                             </div>
+                            <MathPreview text={optionField.value} />
+                            <OptionMediaFields index={index} uploads={optionUploads} disabled={isLoading} />
                             <FormMessage />
                           </FormItem>
                         )}
                       />
                     ))}
                   </div>
-                  {mcqOptionFields.length < 6 && (
-                    <Button type="button" variant="outline" size="sm" onClick={() => appendMcqOption({ text: '' })} className="mt-2" disabled={isLoading}>
-                      <PlusCircle className="mr-2 h-4 w-4" /> أضف خيار
-                    </Button>
-                  )}
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {mcqOptionFields.length < 6 && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => appendMcqOption({ text: '' })} disabled={isLoading}>
+                        <PlusCircle className="mr-2 h-4 w-4" /> أضف خيار
+                      </Button>
+                    )}
+                    <DistractorSuggestions getState={getMcqOptionsState} maxOptions={6} onApply={handleApplyDistractors} disabled={isLoading} />
+                  </div>
                 </div>
                 <FormField
                   control={form.control}
@@ -751,8 +821,8 @@ export default function NewQuestionPage() {
                         </FormControl>
                         <SelectContent>
                           {(form.getValues("options") || []).map((option, index) => (
-                            <SelectItem key={index} value={index.toString()} disabled={!option.text?.trim()}>
-                              الخيار {index + 1}: {option.text?.length > 30 ? option.text.substring(0,30) + '...' : option.text}
+                            <SelectItem key={index} value={index.toString()} disabled={!hasOptionContent(option)}>
+                              {optionSelectLabel(option, index)}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -829,6 +899,7 @@ export default function NewQuestionPage() {
                   <FormItem>
                     <FormLabel>الإجابة النموذجية (اختياري)</FormLabel>
                     <FormControl><Textarea placeholder="اكتب الإجابة النموذجية هنا كمرجع..." {...field} rows={3} /></FormControl>
+                    <MathPreview text={field.value} />
                     <FormDescription>هذه الإجابة للمراجعة ولن يتم استخدامها للتصحيح التلقائي.</FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -836,6 +907,23 @@ export default function NewQuestionPage() {
               />
             )}
 
+            {isExtendedQuestionType(watchedQuestionType) && (
+              <ExtendedAnswerFields questionType={watchedQuestionType} disabled={isLoading} />
+            )}
+
+            <FormField
+              control={form.control}
+              name="feedback"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>التغذية الراجعة (اختياري)</FormLabel>
+                  <FormControl><Textarea placeholder="شرح عام للإجابة الصحيحة..." {...field} value={field.value ?? ''} rows={2} /></FormControl>
+                  <FormDescription>تُنقل مع السؤال عند التصدير إلى Moodle XML وGIFT والاستيراد منهما.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="difficulty"
@@ -1,10 +1,12 @@
 
 // src/app/dashboard/questions/page.tsx
 "use client";
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import Link from 'next/link';
+import MathText from '@/components/MathText';
+import AnswerKeyBadge from '@/components/questions/AnswerKeyBadge';
 import { Button } from '@/components/ui/button';
-import { PlusCircle, Edit3, Trash2, RefreshCw, CheckCircle2, AlertTriangle, TagsIcon, Loader2, Save, Search, Download, Upload, Info, Sparkles, Image as ImageIcon } from 'lucide-react'; // Added ImageIcon
+import { PlusCircle, Edit3, Trash2, RefreshCw, CheckCircle2, AlertTriangle, TagsIcon, Loader2, Save, Search, Download, Upload, Info, Sparkles, Image as ImageIcon, Layers, Copy, ListChecks, X, ShieldCheck } from 'lucide-react'; // Added ImageIcon
 import {
   Table,
   TableBody,
@@ -53,27 +55,98 @@ import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input as UiInput } from '@/components/ui/input'; // Renamed to avoid conflict
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; 
-import { getQuestions, deleteQuestion as deleteQuestionFromDb, updateQuestion as updateQuestionInDb, getTags, addTag as createTagInDb, getSubjects, convertTimestampsToDates } from '@/lib/firestore';
-import type { Question, Tag, Subject, Option } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getQuestionsPage, deleteQuestion as deleteQuestionFromDb, updateQuestion as updateQuestionInDb, getTags, addTag as createTagInDb, getSubjects, convertTimestampsToDates, DEFAULT_QUESTION_PAGE_SIZE, toQuestionSheetColumns } from '@/lib/supabaseData';
+import type { QuestionPageParams, QuestionSortField } from '@/lib/supabaseData';
+import type { Question, QuestionType, Tag, Subject } from '@/types';
+import { matchesArabicSearch } from '@/lib/arabicText';
 import { useToast } from '@/hooks/use-toast';
 import { arabicQuestionSanityCheck } from '@/ai/flows/arabic-question-sanity-check';
 import { suggestQuestionTags } from '@/ai/flows/suggest-question-tags-flow'; // Import the new flow
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import * as XLSX from 'xlsx';
-import { Timestamp } from 'firebase/firestore';
 import { DialogTrigger as UiDialogTrigger } from "@/components/ui/dialog"; 
 import { useAuth } from '@/hooks/use-auth';
 import NextImage from 'next/image'; // Import NextImage
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import QuestionBulkActionsDialog from '@/components/questions/QuestionBulkActionsDialog';
+import { BULK_ACTION_LABELS, type BulkQuestionAction, type BulkReport } from '@/components/questions/bulkQuestionActions';
+
+
+const UNCATEGORIZED_KEY = 'uncategorized';
+const SEARCH_DEBOUNCE_MS = 400;
+const EXPORT_PAGE_SIZE = 100;
+
+// One accordion section's worth of server-paged questions.
+interface SubjectQuestionsState {
+  questions: Question[];
+  totalCount: number;
+  nextCursor: number | null;
+  isLoading: boolean;
+}
+
+interface QuestionFilters {
+  difficulty: 'all' | NonNullable<Question['difficulty']>;
+  questionType: 'all' | QuestionType;
+  sanity: 'all' | 'sane' | 'insane' | 'unchecked';
+  tagId: string; // 'all' or a tag id
+  sort: `${QuestionSortField}:${'asc' | 'desc'}`;
+}
 
+const DEFAULT_FILTERS: QuestionFilters = { difficulty: 'all', questionType: 'all', sanity: 'all', tagId: 'all', sort: 'created_at:desc' };
+
+const toPageParams = (filters: QuestionFilters, search: string): QuestionPageParams => {
+  const [field, direction] = filters.sort.split(':') as [QuestionSortField, 'asc' | 'desc'];
+  return {
+    search: search || undefined,
+    difficulty: filters.difficulty === 'all' ? undefined : filters.difficulty,
+    questionType: filters.questionType === 'all' ? undefined : filters.questionType,
+    isSane: filters.sanity === 'all' ? undefined : filters.sanity === 'unchecked' ? null : filters.sanity === 'sane',
+    tagIds: filters.tagId === 'all' ? undefined : [filters.tagId],
+    sort: { field, ascending: direction === 'asc' },
+  };
+};
+
+// Calls onLoadMore when scrolled into view; the button is a fallback for when the observer doesn't fire.
+function LoadMoreTrigger({ onLoadMore, isLoading }: { onLoadMore: () => void; isLoading: boolean }) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || isLoading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [onLoadMore, isLoading]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-3">
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        تحميل المزيد
+      </Button>
+    </div>
+  );
+}
 
 export default function QuestionsPage() {
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [subjectPages, setSubjectPages] = useState<Record<string, SubjectQuestionsState>>({});
   const [allTags, setAllTags] = useState<Tag[]>([]);
   const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
   const [isLoadingTags, setIsLoadingTags] = useState(true);
   const [isLoadingSubjects, setIsLoadingSubjects] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [filters, setFilters] = useState<QuestionFilters>(DEFAULT_FILTERS);
   const [deletingQuestionId, setDeletingQuestionId] = useState<string | null>(null);
   const [managingTagsForQuestion, setManagingTagsForQuestion] = useState<Question | null>(null);
   const [selectedTagIdsInDialog, setSelectedTagIdsInDialog] = useState<string[]>([]);
@@ -81,7 +154,12 @@ export default function QuestionsPage() {
   const [isAddingTagInDialog, setIsAddingTagInDialog] = useState(false);
   const [isSuggestingTagsInDialog, setIsSuggestingTagsInDialog] = useState(false);
   const [isSavingTags, setIsSavingTags] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [activeAccordionSubject, setActiveAccordionSubject] = useState<string | null>(null);
+  const [selectedQuestionIds, setSelectedQuestionIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkQuestionAction | null>(null);
+  // Bumped whenever the filters change so responses for an older filter set are dropped.
+  const queryVersionRef = useRef(0);
 
   const [actionDialogState, setActionDialogState] = useState<{
     type: 'export' | 'import' | null;
@@ -93,19 +171,33 @@ export default function QuestionsPage() {
   const { toast } = useToast();
   const { user, userProfile } = useAuth();
 
+  // A search for a subject or tag name also finds the questions filed under it.
+  const pageParams = useMemo(() => ({
+    ...toPageParams(filters, debouncedSearchTerm),
+    searchSubjectIds: debouncedSearchTerm
+      ? availableSubjects.filter(subject => subject.id && matchesArabicSearch(subject.name, debouncedSearchTerm)).map(subject => subject.id!)
+      : undefined,
+    searchTagIds: debouncedSearchTerm
+      ? allTags.filter(tag => tag.id && matchesArabicSearch(tag.name, debouncedSearchTerm)).map(tag => tag.id!)
+      : undefined,
+  }), [filters, debouncedSearchTerm, availableSubjects, allTags]);
+  const hasActiveFilters = !!debouncedSearchTerm || JSON.stringify(filters) !== JSON.stringify(DEFAULT_FILTERS);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   const fetchPageData = useCallback(async () => {
     if (!user || !userProfile) return;
-    
-    setIsLoading(true);
+
     setIsLoadingTags(true);
     setIsLoadingSubjects(true);
     try {
-      const [fetchedQuestions, fetchedTags, fetchedSubjects] = await Promise.all([
-        getQuestions(user.id, userProfile.role),
+      const [fetchedTags, fetchedSubjects] = await Promise.all([
         getTags(),
         getSubjects(user.id, userProfile.role),
       ]);
-      setQuestions(fetchedQuestions);
       setAllTags(fetchedTags);
       setAvailableSubjects(fetchedSubjects);
     } catch (error) {
@@ -113,10 +205,9 @@ export default function QuestionsPage() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to fetch questions, tags, or subjects.",
+        description: "Failed to fetch tags or subjects.",
       });
     } finally {
-      setIsLoading(false);
       setIsLoadingTags(false);
       setIsLoadingSubjects(false);
     }
@@ -128,6 +219,108 @@ export default function QuestionsPage() {
     }
   }, [fetchPageData, user, userProfile]);
 
+  const groupKeys = useMemo(() => {
+    const keys = availableSubjects.map(subject => subject.id!).filter(Boolean);
+    // Questions without a subject are only reachable by admins (teachers are scoped to their subjects).
+    if (userProfile?.role === 'admin') keys.push(UNCATEGORIZED_KEY);
+    return keys;
+  }, [availableSubjects, userProfile]);
+
+  const fetchGroupPage = useCallback((groupKey: string, cursor: number | null, limit = DEFAULT_QUESTION_PAGE_SIZE) =>
+    getQuestionsPage(
+      { ...pageParams, subjectId: groupKey === UNCATEGORIZED_KEY ? null : groupKey, cursor, limit },
+      user?.id,
+      userProfile?.role,
+    ), [pageParams, user, userProfile]);
+
+  // Loads the first page of every subject so the counts and empty states reflect the current filters.
+  // The counts are estimates past the API row limit, which keeps these per-subject queries cheap.
+  const loadFirstPages = useCallback(async () => {
+    if (!user || !userProfile || groupKeys.length === 0) return;
+    const version = ++queryVersionRef.current;
+    setIsLoading(true);
+    setSubjectPages(prev => Object.fromEntries(groupKeys.map(key => [key, { ...(prev[key] || { questions: [], totalCount: 0, nextCursor: null }), isLoading: true }])));
+    try {
+      const pages = await Promise.all(groupKeys.map(key => fetchGroupPage(key, null)));
+      if (version !== queryVersionRef.current) return;
+      setSubjectPages(Object.fromEntries(groupKeys.map((key, index) => [key, { ...pages[index], isLoading: false }])));
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch questions.",
+      });
+      if (version === queryVersionRef.current) {
+        setSubjectPages(prev => Object.fromEntries(Object.entries(prev).map(([key, page]) => [key, { ...page, isLoading: false }])));
+      }
+    } finally {
+      if (version === queryVersionRef.current) setIsLoading(false);
+    }
+  }, [groupKeys, fetchGroupPage, toast, user, userProfile]);
+
+  // Also re-runs after a refresh, since refetching the subjects yields new group keys.
+  useEffect(() => {
+    loadFirstPages();
+  }, [loadFirstPages]);
+
+  const loadMore = useCallback(async (groupKey: string) => {
+    const current = subjectPages[groupKey];
+    if (!current || current.isLoading || current.nextCursor === null) return;
+    const version = queryVersionRef.current;
+    setSubjectPages(prev => ({ ...prev, [groupKey]: { ...prev[groupKey], isLoading: true } }));
+    try {
+      const page = await fetchGroupPage(groupKey, current.nextCursor);
+      if (version !== queryVersionRef.current) return;
+      setSubjectPages(prev => ({
+        ...prev,
+        [groupKey]: {
+          questions: [...prev[groupKey].questions, ...page.questions],
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          isLoading: false,
+        },
+      }));
+    } catch (error) {
+      console.error("Error fetching more questions:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to load more questions." });
+      setSubjectPages(prev => ({ ...prev, [groupKey]: { ...prev[groupKey], isLoading: false } }));
+    }
+  }, [subjectPages, fetchGroupPage, toast]);
+
+  // Applies a local edit to a question wherever it is currently loaded.
+  const patchLoadedQuestion = (questionId: string, patch: Partial<Question>) => {
+    setSubjectPages(prev => Object.fromEntries(Object.entries(prev).map(([key, page]) => [
+      key,
+      { ...page, questions: page.questions.map(q => q.id === questionId ? { ...q, ...patch } as Question : q) },
+    ])));
+  };
+
+  // Only loaded rows can be ticked, so the selection is always a subset of the loaded questions.
+  const selectedQuestions = useMemo(
+    () => Object.values(subjectPages).flatMap(page => page.questions).filter(q => selectedQuestionIds.has(q.id!)),
+    [subjectPages, selectedQuestionIds]
+  );
+
+  const toggleQuestionSelection = (questionIds: string[], selected: boolean) => {
+    setSelectedQuestionIds(prev => {
+      const next = new Set(prev);
+      questionIds.forEach(id => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleBulkActionFinished = (action: BulkQuestionAction, report: BulkReport) => {
+    toast({
+      variant: report.failed.length > 0 ? "destructive" : "default",
+      title: BULK_ACTION_LABELS[action],
+      description: `${report.succeeded.length} succeeded, ${report.skipped.length} skipped, ${report.failed.length} failed.`,
+    });
+    // Failed questions stay selected so the action can be retried on them.
+    setSelectedQuestionIds(new Set(report.failed.map(({ question }) => question.id!)));
+    loadFirstPages();
+  };
+
   const tagsMap = useMemo(() => {
     const map = new Map<string, string>();
     allTags.forEach(tag => {
@@ -136,22 +329,23 @@ export default function QuestionsPage() {
     return map;
   }, [allTags]);
 
-  const subjectsMap = useMemo(() => {
-    const map = new Map<string, { name: string, branch: string }>();
-    availableSubjects.forEach(subject => {
-      if (subject.id) map.set(subject.id, { name: subject.name, branch: subject.branch });
-    });
-    return map;
-  }, [availableSubjects]);
-
   const handleDeleteQuestion = async () => {
     if (!deletingQuestionId) return;
     try {
       await deleteQuestionFromDb(deletingQuestionId);
-      setQuestions(questions.filter(q => q.id !== deletingQuestionId));
+      setSubjectPages(prev => Object.fromEntries(Object.entries(prev).map(([key, page]) => {
+        const questions = page.questions.filter(q => q.id !== deletingQuestionId);
+        const removed = page.questions.length - questions.length;
+        return [key, {
+          ...page,
+          questions,
+          totalCount: page.totalCount - removed,
+          nextCursor: page.nextCursor === null ? null : page.nextCursor - removed,
+        }];
+      })));
       toast({
         title: "Success",
-        description: "Question deleted successfully.",
+        description: "Question moved to the trash.",
       });
     } catch (error) {
       console.error("Error deleting question:", error);
@@ -172,9 +366,7 @@ export default function QuestionsPage() {
     try {
       const result = await arabicQuestionSanityCheck({ question: question.questionText });
       await updateQuestionInDb(question.id, { isSane: result.isSane, sanityExplanation: result.explanation });
-      setQuestions(prevQuestions => prevQuestions.map(q =>
-        q.id === question.id ? { ...q, isSane: result.isSane, sanityExplanation: result.explanation } : q
-      ));
+      patchLoadedQuestion(question.id, { isSane: result.isSane, sanityExplanation: result.explanation });
       toast({
         title: "Sanity Check Complete",
         description: `Question sanity: ${result.isSane ? 'Valid' : 'Invalid'}.`,
@@ -191,37 +383,6 @@ export default function QuestionsPage() {
     }
   };
 
-  const filteredQuestions = useMemo(() => {
-    if (!searchTerm) return questions;
-    return questions.filter(q =>
-      q.questionText.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (q.subject && q.subject.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (q.subjectId && subjectsMap.get(q.subjectId)?.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (q.tagIds && q.tagIds.some(tagId => tagsMap.get(tagId)?.toLowerCase().includes(searchTerm.toLowerCase())))
-    );
-  }, [questions, searchTerm, tagsMap, subjectsMap]);
-
-  const questionsGroupedBySubject = useMemo(() => {
-    const grouped = new Map<string, Question[]>();
-    filteredQuestions.forEach(question => {
-      const subjectId = question.subjectId || 'uncategorized';
-      if (!grouped.has(subjectId)) {
-        grouped.set(subjectId, []);
-      }
-      grouped.get(subjectId)!.push(question);
-    });
-    // Ensure all available subjects have an entry, even if empty, for consistent accordion rendering
-    availableSubjects.forEach(subject => {
-        if (subject.id && !grouped.has(subject.id)) {
-            grouped.set(subject.id, []);
-        }
-    });
-    if (!grouped.has('uncategorized') && filteredQuestions.some(q => !q.subjectId)) {
-        grouped.set('uncategorized', []); // Ensure uncategorized exists if relevant
-    }
-    return grouped;
-  }, [filteredQuestions, availableSubjects]);
-
 
   const getTagDisplay = (tagIds?: string[]) => {
     if (!tagIds || tagIds.length === 0) return 'No Tags';
@@ -312,9 +473,7 @@ export default function QuestionsPage() {
     setIsSavingTags(true);
     try {
       await updateQuestionInDb(managingTagsForQuestion.id, { tagIds: selectedTagIdsInDialog });
-      setQuestions(prev => prev.map(q =>
-        q.id === managingTagsForQuestion.id ? { ...q, tagIds: selectedTagIdsInDialog } : q
-      ));
+      patchLoadedQuestion(managingTagsForQuestion.id, { tagIds: selectedTagIdsInDialog });
       toast({ title: "Success", description: "Question tags updated." });
       setManagingTagsForQuestion(null); // Close dialog
     } catch (error) {
@@ -336,15 +495,29 @@ export default function QuestionsPage() {
     URL.revokeObjectURL(url);
   };
 
-  const handleExportSubjectQuestions = (subject: Subject, questionsToExport: Question[], format: 'xlsx' | 'json') => {
-    if (!questionsToExport || questionsToExport.length === 0) {
-      toast({ title: "No Data", description: `No questions available to export for ${subject.name}.` });
-      return;
+  // Exports every question of the subject that matches the current filters, not just the loaded pages.
+  const fetchAllGroupQuestions = async (groupKey: string): Promise<Question[]> => {
+    const collected: Question[] = [];
+    let cursor: number | null = 0;
+    while (cursor !== null) {
+      const page = await fetchGroupPage(groupKey, cursor, EXPORT_PAGE_SIZE);
+      collected.push(...page.questions);
+      cursor = page.nextCursor;
     }
+    return collected;
+  };
 
+  const handleExportSubjectQuestions = async (subject: Subject, format: 'xlsx' | 'json') => {
     const filename = `questions_${subject.name.replace(/\s+/g, '_')}_${new Date().toISOString().slice(0,10)}`;
 
+    setIsExporting(true);
     try {
+      const questionsToExport = await fetchAllGroupQuestions(subject.id || UNCATEGORIZED_KEY);
+      if (questionsToExport.length === 0) {
+        toast({ title: "No Data", description: `No questions available to export for ${subject.name}.` });
+        return;
+      }
+
       if (format === 'json') {
         const processedData = convertTimestampsToDates(questionsToExport);
         const jsonString = JSON.stringify(processedData, null, 2);
@@ -363,24 +536,14 @@ export default function QuestionsPage() {
             isSane: q.isSane,
             sanityExplanation: q.sanityExplanation,
             tagIds: q.tagIds?.map(id => tagsMap.get(id) || id).join(', ') || '',
+            externalId: q.externalId,
+            feedback: q.feedback,
           };
-          if(q.questionType === 'mcq'){
-            (q.options as Option[]).forEach((opt, index) => {
-                flatQuestion[`option${index + 1}`] = opt.text;
-            });
-            const correctOption = (q.options as Option[]).find(opt => opt.id === q.correctOptionId);
-            flatQuestion['correctOptionText'] = correctOption ? correctOption.text : 'N/A';
-            flatQuestion['correctOptionId'] = q.correctOptionId;
-          } else if (q.questionType === 'true_false'){
-            flatQuestion['correctOptionId'] = q.correctOptionId; // true or false
-          } else if (q.questionType === 'fill_in_the_blanks'){
-            flatQuestion['correctAnswers'] = q.correctAnswers?.join('; ');
-          } else if (q.questionType === 'short_answer'){
-            flatQuestion['modelAnswer'] = q.modelAnswer;
-          }
+          Object.assign(flatQuestion, toQuestionSheetColumns(q));
 
-          if (q.created_at && (q.created_at as any).toDate) flatQuestion['createdAt'] = (q.created_at as unknown as Timestamp).toDate().toISOString();
-          if (q.updated_at && (q.updated_at as any).toDate) flatQuestion['updatedAt'] = (q.updated_at as unknown as Timestamp).toDate().toISOString();
+          // Supabase returns timestamptz columns as ISO strings already.
+          if (q.created_at) flatQuestion['createdAt'] = q.created_at;
+          if (q.updated_at) flatQuestion['updatedAt'] = q.updated_at;
           return flatQuestion;
         });
 
@@ -393,8 +556,10 @@ export default function QuestionsPage() {
     } catch (error) {
       console.error(`Error exporting questions for ${subject.name}:`, error);
       toast({ variant: "destructive", title: "Export Error", description: `Failed to export questions for ${subject.name}.` });
+    } finally {
+      setIsExporting(false);
+      setActionDialogState({ type: null, subject: null }); // Close dialog
     }
-    setActionDialogState({ type: null, subject: null }); // Close dialog
   };
 
 
@@ -404,7 +569,7 @@ export default function QuestionsPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Manage Questions</h1>
           <p className="text-muted-foreground">
-            Browse, add, edit, or delete questions. Questions are grouped by subject.
+            Browse, add, edit, or delete questions. Questions are grouped by subject; tick several to change them in bulk.
           </p>
         </div>
         <div className="flex gap-2">
@@ -412,6 +577,21 @@ export default function QuestionsPage() {
             <RefreshCw className={`mr-2 h-4 w-4 ${(isLoading || isLoadingTags || isLoadingSubjects) ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Link href="/dashboard/questions/groups">
+            <Button variant="outline">
+              <Layers className="mr-2 h-4 w-4" /> Question Groups
+            </Button>
+          </Link>
+          <Link href="/dashboard/questions/duplicates">
+            <Button variant="outline">
+              <Copy className="mr-2 h-4 w-4" /> Duplicates
+            </Button>
+          </Link>
+          <Link href="/dashboard/questions/sanity-review">
+            <Button variant="outline">
+              <ShieldCheck className="mr-2 h-4 w-4" /> Sanity Review
+            </Button>
+          </Link>
           <Link href="/dashboard/questions/new">
             <Button>
               <PlusCircle className="mr-2 h-4 w-4" /> Add New Question
@@ -424,17 +604,102 @@ export default function QuestionsPage() {
         <CardHeader>
           <CardTitle>Question List by Subject</CardTitle>
           <CardDescription>
-            Questions are grouped by subject. Use the search to filter by text, subject name, or tag name.
+            Questions are grouped by subject and loaded page by page. Search matches the question text, ignoring tashkeel, hamza forms and the definite article; use the filters to narrow by tag, difficulty, type, or sanity status.
           </CardDescription>
-          <UiInput
-            placeholder="Search questions..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="mt-2 max-w-sm"
-          />
+          <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center">
+            <div className="relative max-w-sm flex-grow">
+              <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <UiInput
+                placeholder="Search questions..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={filters.tagId} onValueChange={(value) => setFilters(prev => ({ ...prev, tagId: value }))}>
+              <SelectTrigger className="w-full sm:w-[160px]"><SelectValue placeholder="Tag" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tags</SelectItem>
+                {allTags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id!}>{tag.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.difficulty} onValueChange={(value) => setFilters(prev => ({ ...prev, difficulty: value as QuestionFilters['difficulty'] }))}>
+              <SelectTrigger className="w-full sm:w-[140px]"><SelectValue placeholder="Difficulty" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All difficulties</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.questionType} onValueChange={(value) => setFilters(prev => ({ ...prev, questionType: value as QuestionFilters['questionType'] }))}>
+              <SelectTrigger className="w-full sm:w-[160px]"><SelectValue placeholder="Type" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                <SelectItem value="mcq">Multiple choice</SelectItem>
+                <SelectItem value="true_false">True / False</SelectItem>
+                <SelectItem value="fill_in_the_blanks">Fill in the blanks</SelectItem>
+                <SelectItem value="short_answer">Short answer</SelectItem>
+                <SelectItem value="multi_select">Multi-select</SelectItem>
+                <SelectItem value="matching">Matching</SelectItem>
+                <SelectItem value="ordering">Ordering</SelectItem>
+                <SelectItem value="numeric">Numeric</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.sanity} onValueChange={(value) => setFilters(prev => ({ ...prev, sanity: value as QuestionFilters['sanity'] }))}>
+              <SelectTrigger className="w-full sm:w-[150px]"><SelectValue placeholder="Sanity" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any sanity status</SelectItem>
+                <SelectItem value="sane">Valid</SelectItem>
+                <SelectItem value="insane">Needs review</SelectItem>
+                <SelectItem value="unchecked">Not checked</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.sort} onValueChange={(value) => setFilters(prev => ({ ...prev, sort: value as QuestionFilters['sort'] }))}>
+              <SelectTrigger className="w-full sm:w-[170px]"><SelectValue placeholder="Sort" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created_at:desc">Newest first</SelectItem>
+                <SelectItem value="created_at:asc">Oldest first</SelectItem>
+                <SelectItem value="updated_at:desc">Recently updated</SelectItem>
+                <SelectItem value="question_text:asc">Question text (A-Z)</SelectItem>
+                <SelectItem value="difficulty:asc">Difficulty</SelectItem>
+              </SelectContent>
+            </Select>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={() => { setSearchTerm(''); setFilters(DEFAULT_FILTERS); }}>
+                Clear filters
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
-          {(isLoading || isLoadingSubjects || isLoadingTags) && questions.length === 0 ? (
+          {selectedQuestions.length > 0 && (
+            <div className="sticky top-16 z-20 mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted p-2">
+              <span className="text-sm font-medium">{selectedQuestions.length} selected</span>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm">
+                    <ListChecks className="mr-2 h-4 w-4" /> Bulk actions
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {(['move', 'difficulty', 'add_tags', 'remove_tags', 'lock', 'unlock', 'sanity_check', 'add_to_exam'] as const).map(action => (
+                    <DropdownMenuItem key={action} onSelect={() => setBulkAction(action)}>{BULK_ACTION_LABELS[action]}</DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="text-destructive" onSelect={() => setBulkAction('delete')}>
+                    {BULK_ACTION_LABELS.delete}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedQuestionIds(new Set())}>
+                <X className="mr-2 h-4 w-4" /> Clear selection
+              </Button>
+            </div>
+          )}
+          {(isLoadingSubjects || isLoadingTags) && availableSubjects.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground flex items-center justify-center">
               <Loader2 className="h-6 w-6 animate-spin mr-2"/> Loading data...
             </div>
@@ -449,8 +714,9 @@ export default function QuestionsPage() {
                 onValueChange={setActiveAccordionSubject}
             >
               {availableSubjects.map(subject => {
-                const subjectQuestions = questionsGroupedBySubject.get(subject.id!) || [];
-                if (subjectQuestions.length === 0 && searchTerm && !Object.keys(questionsGroupedBySubject).includes(subject.id!)) return null;
+                const subjectPage = subjectPages[subject.id!];
+                const subjectQuestions = subjectPage?.questions || [];
+                if (hasActiveFilters && subjectPage && !subjectPage.isLoading && subjectPage.totalCount === 0) return null;
 
                 return (
                   <AccordionItem value={subject.id!} key={subject.id}>
@@ -459,7 +725,7 @@ export default function QuestionsPage() {
                         <span className="font-semibold">{subject.name} ({subject.branch})</span>
                       </AccordionTrigger>
                       <div className="flex items-center gap-1 shrink-0">
-                        <Badge variant="outline" className="px-1.5 py-0.5 text-xs whitespace-nowrap">{subjectQuestions.length} Questions</Badge>
+                        <Badge variant="outline" className="px-1.5 py-0.5 text-xs whitespace-nowrap">{subjectPage?.totalCount ?? 0} Questions</Badge>
                         <TooltipProvider>
                           <Tooltip>
                             <TooltipTrigger asChild>
@@ -468,7 +734,7 @@ export default function QuestionsPage() {
                                 size="icon"
                                 className="h-7 w-7"
                                 onClick={(e) => { e.stopPropagation(); setActionDialogState({ type: 'export', subject }); }}
-                                disabled={subjectQuestions.length === 0}
+                                disabled={!subjectPage || subjectPage.totalCount === 0}
                               >
                                 <Download className="h-4 w-4" />
                                 <span className="sr-only">Export Questions for {subject.name}</span>
@@ -496,15 +762,26 @@ export default function QuestionsPage() {
                       </div>
                     </div>
                     <AccordionContent>
-                      {subjectQuestions.length === 0 ? (
+                      {!subjectPage || (subjectPage.isLoading && subjectQuestions.length === 0) ? (
+                        <div className="text-sm text-muted-foreground flex items-center justify-center py-4">
+                          <Loader2 className="h-4 w-4 animate-spin mr-2"/> Loading questions...
+                        </div>
+                      ) : subjectQuestions.length === 0 ? (
                         <p className="text-sm text-muted-foreground text-center py-4">
-                          {searchTerm ? `No questions match your search for "${subject.name}".` : `No questions found for "${subject.name}".`}
+                          {hasActiveFilters ? `No questions match your search for "${subject.name}".` : `No questions found for "${subject.name}".`}
                         </p>
                       ) : (
                         <div className="overflow-x-auto border rounded-md">
                           <Table>
                             <TableHeader>
                               <TableRow>
+                                <TableHead className="w-10">
+                                  <Checkbox
+                                    aria-label="Select all loaded questions"
+                                    checked={subjectQuestions.every(q => selectedQuestionIds.has(q.id!))}
+                                    onCheckedChange={(checked) => toggleQuestionSelection(subjectQuestions.map(q => q.id!), checked === true)}
+                                  />
+                                </TableHead>
                                 <TableHead className="w-[30%]">Question Text</TableHead>
                                 <TableHead>Difficulty</TableHead>
                                 <TableHead>Sanity Check</TableHead>
@@ -514,7 +791,14 @@ export default function QuestionsPage() {
                             </TableHeader>
                             <TableBody>
                               {subjectQuestions.map((question) => (
-                                <TableRow key={question.id}>
+                                <TableRow key={question.id} data-state={selectedQuestionIds.has(question.id!) ? 'selected' : undefined}>
+                                  <TableCell>
+                                    <Checkbox
+                                      aria-label="Select question"
+                                      checked={selectedQuestionIds.has(question.id!)}
+                                      onCheckedChange={(checked) => toggleQuestionSelection([question.id!], checked === true)}
+                                    />
+                                  </TableCell>
                                   <TableCell className="font-medium max-w-xs" title={question.questionText}>
                                     <div className="flex items-center gap-2">
                                       {question.imageUrl && (
@@ -532,7 +816,7 @@ export default function QuestionsPage() {
                                           </Tooltip>
                                         </TooltipProvider>
                                       )}
-                                      <span className="truncate">{question.questionText}</span>
+                                      <MathText text={question.questionText} inline highlight={debouncedSearchTerm} className="truncate whitespace-nowrap" />
                                     </div>
                                   </TableCell>
                                   <TableCell>
@@ -548,26 +832,29 @@ export default function QuestionsPage() {
                                     </Badge>
                                   </TableCell>
                                   <TableCell>
-                                    {question.isSane === undefined || question.isSane === null ? (
-                                      <Button size="sm" variant="outline" onClick={() => handleSanityCheck(question)} disabled={isLoading} className="text-xs px-2 py-1 h-auto">
-                                        Check
-                                      </Button>
-                                    ) : (
-                                      <TooltipProvider>
-                                        <Tooltip>
-                                          <TooltipTrigger>
-                                            {question.isSane ? (
-                                              <CheckCircle2 className="h-5 w-5 text-green-600" />
-                                            ) : (
-                                              <AlertTriangle className="h-5 w-5 text-red-600" />
-                                            )}
-                                          </TooltipTrigger>
-                                          <TooltipContent side="top" className="max-w-xs text-sm bg-popover text-popover-foreground p-2 rounded shadow-lg">
-                                            <p>{question.sanityExplanation || (question.isSane ? "Looks good!" : "Needs review.")}</p>
-                                          </TooltipContent>
-                                        </Tooltip>
-                                      </TooltipProvider>
-                                    )}
+                                    <div className="flex items-center gap-2">
+                                      {question.isSane === undefined || question.isSane === null ? (
+                                        <Button size="sm" variant="outline" onClick={() => handleSanityCheck(question)} disabled={isLoading} className="text-xs px-2 py-1 h-auto">
+                                          Check
+                                        </Button>
+                                      ) : (
+                                        <TooltipProvider>
+                                          <Tooltip>
+                                            <TooltipTrigger>
+                                              {question.isSane ? (
+                                                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                                              ) : (
+                                                <AlertTriangle className="h-5 w-5 text-red-600" />
+                                              )}
+                                            </TooltipTrigger>
+                                            <TooltipContent side="top" className="max-w-xs text-sm bg-popover text-popover-foreground p-2 rounded shadow-lg">
+                                              <p><MathText text={question.sanityExplanation || (question.isSane ? "Looks good!" : "Needs review.")} /></p>
+                                            </TooltipContent>
+                                          </Tooltip>
+                                        </TooltipProvider>
+                                      )}
+                                      <AnswerKeyBadge check={question.answerKeyCheck} />
+                                    </div>
                                   </TableCell>
                                   <TableCell>
                                     <TooltipProvider>
@@ -668,7 +955,7 @@ export default function QuestionsPage() {
                                         <AlertDialogHeader className="text-right">
                                           <AlertDialogTitle>هل أنت متأكد؟</AlertDialogTitle>
                                           <AlertDialogDescription>
-                                            سيتم حذف هذا السؤال بشكل دائم. هذا الإجراء لا يمكن التراجع عنه.
+                                            سيتم نقل هذا السؤال إلى سلة المحذوفات، ويمكن استعادته من هناك.
                                           </AlertDialogDescription>
                                         </AlertDialogHeader>
                                         <AlertDialogFooter className="flex-row-reverse">
@@ -682,6 +969,9 @@ export default function QuestionsPage() {
                               ))}
                             </TableBody>
                           </Table>
+                          {subjectPage.nextCursor !== null && (
+                            <LoadMoreTrigger onLoadMore={() => loadMore(subject.id!)} isLoading={subjectPage.isLoading} />
+                          )}
                         </div>
                       )}
                     </AccordionContent>
@@ -689,9 +979,10 @@ export default function QuestionsPage() {
                 )
               })}
               {/* Fallback for uncategorized questions */}
-             {Array.from(questionsGroupedBySubject.keys()).filter(key => key === 'uncategorized' && (questionsGroupedBySubject.get(key) || []).length > 0).map(subjectId => {
-                const subjectQuestions = questionsGroupedBySubject.get(subjectId)!;
-                const uncategorizedSubjectPlaceholder: Subject = { id: 'uncategorized', name: 'Uncategorized Questions', branch: 'general' };
+             {[UNCATEGORIZED_KEY].filter(key => (subjectPages[key]?.totalCount ?? 0) > 0).map(subjectId => {
+                const subjectPage = subjectPages[subjectId];
+                const subjectQuestions = subjectPage.questions;
+                const uncategorizedSubjectPlaceholder: Subject = { id: UNCATEGORIZED_KEY, name: 'Uncategorized Questions', branch: 'general' };
                 return (
                   <AccordionItem value={subjectId} key={subjectId}>
                      <div className="flex flex-col items-start gap-2 sm:flex-row sm:items-center sm:justify-between w-full py-3 px-4 hover:bg-muted/50 rounded-t-md">
@@ -699,7 +990,7 @@ export default function QuestionsPage() {
                           <span className="font-semibold">أسئلة غير مصنفة لمادة</span>
                         </AccordionTrigger>
                         <div className="flex items-center gap-1 shrink-0">
-                            <Badge variant="outline" className="px-1.5 py-0.5 text-xs whitespace-nowrap">{subjectQuestions.length} Questions</Badge>
+                            <Badge variant="outline" className="px-1.5 py-0.5 text-xs whitespace-nowrap">{subjectPage?.totalCount ?? 0} Questions</Badge>
                             <TooltipProvider>
                                 <Tooltip>
                                 <TooltipTrigger asChild>
@@ -708,7 +999,7 @@ export default function QuestionsPage() {
                                     size="icon"
                                     className="h-7 w-7"
                                     onClick={(e) => { e.stopPropagation(); setActionDialogState({ type: 'export', subject: uncategorizedSubjectPlaceholder });}}
-                                    disabled={subjectQuestions.length === 0}
+                                    disabled={subjectPage.totalCount === 0}
                                     >
                                     <Download className="h-4 w-4" />
                                     <span className="sr-only">Export Uncategorized Questions</span>
@@ -740,6 +1031,13 @@ export default function QuestionsPage() {
                           <Table>
                             <TableHeader>
                               <TableRow>
+                                <TableHead className="w-10">
+                                  <Checkbox
+                                    aria-label="Select all loaded questions"
+                                    checked={subjectQuestions.every(q => selectedQuestionIds.has(q.id!))}
+                                    onCheckedChange={(checked) => toggleQuestionSelection(subjectQuestions.map(q => q.id!), checked === true)}
+                                  />
+                                </TableHead>
                                 <TableHead className="w-[30%]">Question Text</TableHead>
                                 <TableHead>Difficulty</TableHead>
                                 <TableHead>Sanity Check</TableHead>
@@ -749,9 +1047,16 @@ export default function QuestionsPage() {
                             </TableHeader>
                             <TableBody>
                               {subjectQuestions.map((question) => (
-                                <TableRow key={question.id}>
+                                <TableRow key={question.id} data-state={selectedQuestionIds.has(question.id!) ? 'selected' : undefined}>
+                                  <TableCell>
+                                    <Checkbox
+                                      aria-label="Select question"
+                                      checked={selectedQuestionIds.has(question.id!)}
+                                      onCheckedChange={(checked) => toggleQuestionSelection([question.id!], checked === true)}
+                                    />
+                                  </TableCell>
                                   <TableCell className="font-medium max-w-xs truncate" title={question.questionText}>
-                                    {question.questionText}
+                                    <MathText text={question.questionText} inline highlight={debouncedSearchTerm} className="whitespace-nowrap" />
                                   </TableCell>
                                   <TableCell>
                                     <Badge variant={
@@ -766,26 +1071,29 @@ export default function QuestionsPage() {
                                     </Badge>
                                   </TableCell>
                                   <TableCell>
-                                    {question.isSane === undefined || question.isSane === null ? (
-                                      <Button size="sm" variant="outline" onClick={() => handleSanityCheck(question)} disabled={isLoading} className="text-xs px-2 py-1 h-auto">
-                                        Check
-                                      </Button>
-                                    ) : (
-                                      <TooltipProvider>
-                                        <Tooltip>
-                                          <TooltipTrigger>
-                                            {question.isSane ? (
-                                              <CheckCircle2 className="h-5 w-5 text-green-600" />
-                                            ) : (
-                                              <AlertTriangle className="h-5 w-5 text-red-600" />
-                                            )}
-                                          </TooltipTrigger>
-                                          <TooltipContent side="top" className="max-w-xs text-sm bg-popover text-popover-foreground p-2 rounded shadow-lg">
-                                            <p>{question.sanityExplanation || (question.isSane ? "Looks good!" : "Needs review.")}</p>
-                                          </TooltipContent>
-                                        </Tooltip>
-                                      </TooltipProvider>
-                                    )}
+                                    <div className="flex items-center gap-2">
+                                      {question.isSane === undefined || question.isSane === null ? (
+                                        <Button size="sm" variant="outline" onClick={() => handleSanityCheck(question)} disabled={isLoading} className="text-xs px-2 py-1 h-auto">
+                                          Check
+                                        </Button>
+                                      ) : (
+                                        <TooltipProvider>
+                                          <Tooltip>
+                                            <TooltipTrigger>
+                                              {question.isSane ? (
+                                                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                                              ) : (
+                                                <AlertTriangle className="h-5 w-5 text-red-600" />
+                                              )}
+                                            </TooltipTrigger>
+                                            <TooltipContent side="top" className="max-w-xs text-sm bg-popover text-popover-foreground p-2 rounded shadow-lg">
+                                              <p><MathText text={question.sanityExplanation || (question.isSane ? "Looks good!" : "Needs review.")} /></p>
+                                            </TooltipContent>
+                                          </Tooltip>
+                                        </TooltipProvider>
+                                      )}
+                                      <AnswerKeyBadge check={question.answerKeyCheck} />
+                                    </div>
                                   </TableCell>
                                   <TableCell>
                                     <TooltipProvider>
@@ -886,7 +1194,7 @@ export default function QuestionsPage() {
                                         <AlertDialogHeader className="text-right">
                                           <AlertDialogTitle>هل أنت متأكد؟</AlertDialogTitle>
                                           <AlertDialogDescription>
-                                            سيتم حذف هذا السؤال بشكل دائم. هذا الإجراء لا يمكن التراجع عنه.
+                                            سيتم نقل هذا السؤال إلى سلة المحذوفات، ويمكن استعادته من هناك.
                                           </AlertDialogDescription>
                                         </AlertDialogHeader>
                                         <AlertDialogFooter className="flex-row-reverse">
@@ -900,18 +1208,18 @@ export default function QuestionsPage() {
                               ))}
                             </TableBody>
                           </Table>
+                          {subjectPage.nextCursor !== null && (
+                            <LoadMoreTrigger onLoadMore={() => loadMore(subjectId)} isLoading={subjectPage.isLoading} />
+                          )}
                         </div>
                     </AccordionContent>
                   </AccordionItem>
                 )
               })}
-             {Array.from(questionsGroupedBySubject.keys()).length === 0 && !searchTerm && (
-                <p className="text-center text-muted-foreground py-4">لا توجد أسئلة مضافة لأي مادة بعد.</p>
-             )}
-             {Array.from(questionsGroupedBySubject.keys()).length > 0 &&
-              !Array.from(questionsGroupedBySubject.values()).some(qArray => qArray.length > 0) &&
-              searchTerm && (
-                <p className="text-center text-muted-foreground py-4">لا توجد أسئلة تطابق بحثك.</p>
+             {!isLoading && Object.values(subjectPages).every(page => page.totalCount === 0) && (
+                <p className="text-center text-muted-foreground py-4">
+                  {hasActiveFilters ? 'لا توجد أسئلة تطابق بحثك.' : 'لا توجد أسئلة مضافة لأي مادة بعد.'}
+                </p>
              )}
 
 
@@ -920,6 +1228,15 @@ export default function QuestionsPage() {
         </CardContent>
       </Card>
 
+      <QuestionBulkActionsDialog
+        action={bulkAction}
+        questions={selectedQuestions}
+        subjects={availableSubjects}
+        tags={allTags}
+        onClose={() => setBulkAction(null)}
+        onFinished={handleBulkActionFinished}
+      />
+
       {/* Subject-Specific Import/Export Dialog */}
       <Dialog
         open={actionDialogState.type !== null}
@@ -949,14 +1266,16 @@ export default function QuestionsPage() {
                 <div className="space-y-3 py-4">
                   <p className="text-sm text-muted-foreground">سيتم تصدير الأسئلة المطابقة للبحث الحالي (إن وجد) لهذه المادة.</p>
                   <Button
-                    onClick={() => handleExportSubjectQuestions(actionDialogState.subject!, questionsGroupedBySubject.get(actionDialogState.subject!.id || 'uncategorized') || [], 'xlsx')}
+                    onClick={() => handleExportSubjectQuestions(actionDialogState.subject!, 'xlsx')}
                     className="w-full"
+                    disabled={isExporting}
                   >
                     <Download className="ml-2 h-4 w-4 rtl:mr-2 rtl:ml-0" /> تصدير كـ XLSX (Excel)
                   </Button>
                   <Button
-                    onClick={() => handleExportSubjectQuestions(actionDialogState.subject!, questionsGroupedBySubject.get(actionDialogState.subject!.id || 'uncategorized') || [], 'json')}
+                    onClick={() => handleExportSubjectQuestions(actionDialogState.subject!, 'json')}
                     className="w-full"
+                    disabled={isExporting}
                   >
                      <Download className="ml-2 h-4 w-4 rtl:mr-2 rtl:ml-0" /> تصدير كـ JSON
                   </Button>
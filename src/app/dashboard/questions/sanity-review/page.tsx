@@ -0,0 +1,371 @@
+// src/app/dashboard/questions/sanity-review/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowRight, Check, ListPlus, Loader2, Play, RefreshCw, RotateCcw, ShieldCheck, X } from 'lucide-react';
+import MathText from '@/components/MathText';
+import AnswerKeyBadge from '@/components/questions/AnswerKeyBadge';
+import {
+  enqueueSanityChecks,
+  getSanityReviewProgress,
+  getSanityReviews,
+  getSubjects,
+  requeueSanityChecks,
+  resolveSanityReview,
+} from '@/lib/supabaseData';
+import type { SanityReview, SanityReviewProgress, SanityReviewStatus, Subject } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useSanityCheckRunner } from '@/hooks/use-sanity-check-runner';
+
+const ALL_SUBJECTS = 'all';
+/** How often the counts are refreshed while questions wait for the worker. */
+const PROGRESS_POLL_MS = 15000;
+
+type VerdictFilter = 'all' | 'sane' | 'not_sane' | 'key_disagrees';
+
+const STATUS_TABS: { status: SanityReviewStatus; label: string }[] = [
+  { status: 'review', label: 'بانتظار المراجعة' },
+  { status: 'queued', label: 'في قائمة الفحص' },
+  { status: 'failed', label: 'تعذر فحصها' },
+  { status: 'accepted', label: 'مقبولة' },
+  { status: 'rejected', label: 'مرفوضة' },
+];
+
+const formatDate = (value: string | null) =>
+  value ? format(parseISO(value), 'd MMMM yyyy، h:mm a', { locale: arSA }) : '—';
+
+const checkedShare = (row: SanityReviewProgress) => {
+  const total = row.queued + row.failed + row.toReview + row.accepted + row.rejected;
+  return total === 0 ? 0 : Math.round(((total - row.queued - row.failed) / total) * 100);
+};
+
+export default function SanityReviewPage() {
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectFilter, setSubjectFilter] = useState<string>(ALL_SUBJECTS);
+  const [statusTab, setStatusTab] = useState<SanityReviewStatus>('review');
+  const [verdictFilter, setVerdictFilter] = useState<VerdictFilter>('all');
+  const [progress, setProgress] = useState<SanityReviewProgress[]>([]);
+  const [reviews, setReviews] = useState<SanityReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEnqueueing, setIsEnqueueing] = useState(false);
+  const [busyReviewId, setBusyReviewId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { user, userProfile } = useAuth();
+
+  useEffect(() => {
+    if (!user || !userProfile) return;
+    getSubjects(user.id, userProfile.role)
+      .then(setSubjects)
+      .catch(error => console.error("Error fetching subjects:", error));
+  }, [user, userProfile]);
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      setProgress(await getSanityReviewProgress());
+    } catch (error) {
+      console.error("Error fetching sanity review progress:", error);
+    }
+  }, []);
+
+  const fetchReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const hasVerdict = statusTab === 'review' || statusTab === 'accepted' || statusTab === 'rejected';
+      setReviews(await getSanityReviews({
+        status: statusTab,
+        subjectId: subjectFilter === ALL_SUBJECTS ? undefined : subjectFilter,
+        isSane: hasVerdict && (verdictFilter === 'sane' || verdictFilter === 'not_sane') ? verdictFilter === 'sane' : undefined,
+        keyAgrees: hasVerdict && verdictFilter === 'key_disagrees' ? false : undefined,
+      }));
+    } catch (error) {
+      console.error("Error fetching sanity reviews:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل تحميل قائمة المراجعة." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusTab, subjectFilter, verdictFilter, toast]);
+
+  const refresh = useCallback(() => {
+    fetchProgress();
+    fetchReviews();
+  }, [fetchProgress, fetchReviews]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runner = useSanityCheckRunner(fetchProgress);
+
+  // A finished run leaves new verdicts behind; show them.
+  useEffect(() => {
+    if (!runner.isRunning) fetchReviews();
+  }, [runner.isRunning, fetchReviews]);
+
+  const handleEnqueue = async () => {
+    setIsEnqueueing(true);
+    try {
+      const queued = await enqueueSanityChecks(subjectFilter === ALL_SUBJECTS ? null : subjectFilter);
+      toast({
+        title: "نجاح",
+        description: queued > 0
+          ? `أُضيف ${queued} سؤال إلى قائمة الفحص.`
+          : "لا توجد أسئلة جديدة أو معدلة تحتاج إلى فحص.",
+      });
+      refresh();
+    } catch (error: any) {
+      console.error("Error queueing sanity checks:", error);
+      toast({ variant: "destructive", title: "خطأ", description: error?.message || "فشل إضافة الأسئلة إلى قائمة الفحص." });
+    } finally {
+      setIsEnqueueing(false);
+    }
+  };
+
+  const handleResolve = async (review: SanityReview, accept: boolean) => {
+    setBusyReviewId(review.id);
+    try {
+      await resolveSanityReview(review.id, accept);
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+      fetchProgress();
+    } catch (error: any) {
+      console.error("Error resolving sanity review:", error);
+      toast({ variant: "destructive", title: "خطأ", description: error?.message || "فشل حفظ القرار." });
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  const handleRequeue = async (reviewIds: string[]) => {
+    try {
+      const requeued = await requeueSanityChecks(reviewIds);
+      toast({ title: "نجاح", description: `أُعيد ${requeued} سؤال إلى قائمة الفحص.` });
+      refresh();
+    } catch (error: any) {
+      console.error("Error requeueing sanity checks:", error);
+      toast({ variant: "destructive", title: "خطأ", description: error?.message || "فشل إعادة الأسئلة إلى قائمة الفحص." });
+    }
+  };
+
+  const totals = progress.reduce(
+    (sum, row) => ({ queued: sum.queued + row.queued, toReview: sum.toReview + row.toReview }),
+    { queued: 0, toReview: 0 }
+  );
+
+  // The worker runs on the server; follow its progress while anything waits for it.
+  useEffect(() => {
+    if (totals.queued === 0 && !runner.isRunning) return;
+    const timer = setInterval(fetchProgress, PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [totals.queued, runner.isRunning, fetchProgress]);
+  const showVerdictFilter = statusTab === 'review' || statusTab === 'accepted' || statusTab === 'rejected';
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
+              <ShieldCheck className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold tracking-tight">مراجعة فحص الصحة</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/questions">
+                  <ArrowRight className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> الأسئلة
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={refresh} disabled={isLoading}>
+                <RefreshCw className={`mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0 ${isLoading ? 'animate-spin' : ''}`} /> تحديث
+              </Button>
+            </div>
+          </div>
+          <CardDescription className="text-lg text-muted-foreground">
+            تُفحص الأسئلة غير المفحوصة أو المعدلة بعد آخر فحص بالذكاء الاصطناعي سؤالًا بعد سؤال: صياغة السؤال، ومفتاح الإجابة بحل السؤال دون الاطلاع عليه. لا يُحفظ الحكم في السؤال إلا بعد قبوله هنا. يجري الفحص على الخادم كل بضع دقائق دون الحاجة إلى إبقاء هذه الصفحة مفتوحة، ويمكن تشغيله فورًا من هنا.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-64 space-y-1">
+              <Label>المادة</Label>
+              <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SUBJECTS}>كل المواد</SelectItem>
+                  {subjects.map(subject => (
+                    <SelectItem key={subject.id} value={subject.id!}>{subject.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleEnqueue} disabled={isEnqueueing}>
+              {isEnqueueing
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />
+                : <ListPlus className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+              إضافة الأسئلة غير المفحوصة
+            </Button>
+            <Button onClick={runner.runNow} disabled={runner.isRunning || totals.queued === 0}>
+              {runner.isRunning
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />
+                : <Play className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+              تشغيل الفحص الآن ({totals.queued})
+            </Button>
+          </div>
+
+          {(runner.isRunning || runner.lastRun || runner.error) && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              {runner.isRunning ? (
+                <p className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                  جارٍ الفحص على الخادم؛ يمكنك مغادرة الصفحة دون إيقافه.
+                </p>
+              ) : runner.lastRun && (
+                <p>
+                  آخر تشغيل: فُحص {runner.lastRun.checked}، وتعذر {runner.lastRun.failed} (يُعاد تلقائيًا لاحقًا).
+                  {runner.lastRun.stoppedEarly && ' بقيت أسئلة في القائمة يكملها التشغيل المجدول.'}
+                </p>
+              )}
+              {(runner.error || runner.lastRun?.lastError) && (
+                <p className="text-destructive">آخر خطأ: {runner.error || runner.lastRun?.lastError}</p>
+              )}
+            </div>
+          )}
+
+          {progress.length > 0 && (
+            <div className="grid gap-3 md:grid-cols-2">
+              {progress.map(row => (
+                <div key={row.subjectId ?? 'none'} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{row.subjectName ?? 'بدون مادة'}</span>
+                    <span className="text-muted-foreground">{checkedShare(row)}% مفحوص</span>
+                  </div>
+                  <Progress value={checkedShare(row)} />
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    <Badge variant="outline">في القائمة {row.queued}</Badge>
+                    <Badge variant="secondary">للمراجعة {row.toReview}</Badge>
+                    <Badge variant="outline">مقبولة {row.accepted}</Badge>
+                    <Badge variant="outline">مرفوضة {row.rejected}</Badge>
+                    {row.failed > 0 && <Badge variant="destructive">تعذر فحصها {row.failed}</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <Tabs value={statusTab} onValueChange={value => setStatusTab(value as SanityReviewStatus)} dir="rtl">
+            <TabsList className="flex-wrap h-auto">
+              {STATUS_TABS.map(tab => (
+                <TabsTrigger key={tab.status} value={tab.status}>
+                  {tab.label}
+                  {tab.status === 'review' && totals.toReview > 0 && ` (${totals.toReview})`}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex flex-wrap items-end gap-4">
+            {showVerdictFilter && (
+              <div className="w-56 space-y-1">
+                <Label>الحكم</Label>
+                <Select value={verdictFilter} onValueChange={value => setVerdictFilter(value as VerdictFilter)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">كل الأحكام</SelectItem>
+                    <SelectItem value="not_sane">غير سليم فقط</SelectItem>
+                    <SelectItem value="sane">سليم فقط</SelectItem>
+                    <SelectItem value="key_disagrees">مفتاح الإجابة مشكوك فيه</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {statusTab === 'failed' && reviews.length > 0 && (
+              <Button variant="outline" onClick={() => handleRequeue(reviews.map(review => review.id))}>
+                <RotateCcw className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> إعادة فحص الكل
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-border rounded-lg bg-muted/30 min-h-[200px]">
+              <ShieldCheck className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">لا توجد أسئلة في هذه القائمة.</p>
+            </div>
+          ) : (
+            reviews.map(review => (
+              <div key={review.id} className="rounded-md border p-4 space-y-3">
+                <MathText text={review.questionText} />
+                {review.isSane !== null && (
+                  <div className="space-y-1 text-sm">
+                    <Badge variant={review.isSane ? 'secondary' : 'destructive'}>
+                      {review.isSane ? 'سليم' : 'غير سليم'}
+                    </Badge>
+                    {review.explanation && <p className="text-muted-foreground">{review.explanation}</p>}
+                  </div>
+                )}
+                {review.keyCheck && (
+                  <div className="space-y-1 text-sm">
+                    <AnswerKeyBadge check={review.keyCheck} />
+                    {review.keyCheck.solverAnswer && (
+                      <p>إجابة الذكاء الاصطناعي: <MathText text={review.keyCheck.solverAnswer} inline /></p>
+                    )}
+                  </div>
+                )}
+                {review.lastError && (
+                  <p className="text-sm text-destructive">
+                    {review.attempts} محاولة. آخر خطأ: {review.lastError}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {review.checkedAt && <span>فُحص {formatDate(review.checkedAt)}</span>}
+                  {review.reviewedAt && <span>· رُوجع {formatDate(review.reviewedAt)}</span>}
+                  <Link href={`/dashboard/questions/edit/${review.questionId}`} target="_blank" className="underline">فتح السؤال</Link>
+                </div>
+                {review.status === 'review' && (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleResolve(review, true)} disabled={busyReviewId === review.id}>
+                      {busyReviewId === review.id
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />
+                        : <Check className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+                      قبول الحكم
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleResolve(review, false)} disabled={busyReviewId === review.id}>
+                      <X className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> رفض
+                    </Button>
+                  </div>
+                )}
+                {review.status === 'failed' && (
+                  <Button size="sm" variant="outline" onClick={() => handleRequeue([review.id])}>
+                    <RotateCcw className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> إعادة الفحص
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
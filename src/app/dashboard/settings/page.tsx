@@ -19,7 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'; 
 import { useToast } from '@/hooks/use-toast';
-import { getAppSettings, updateAppSettings } from '@/lib/firestore';
+import { getAppSettings, updateAppSettings } from '@/lib/supabaseData';
 import type { AppSettings, SocialMediaLink, SocialPlatform } from '@/types';
 import { Loader2, Save, Settings, PlusCircle, Trash2 } from 'lucide-react';
 import UserTable from '@/components/UserTable'; // Import UserTable
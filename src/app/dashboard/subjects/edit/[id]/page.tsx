@@ -18,12 +18,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { getSubjectById, updateSubject } from '@/lib/firestore';
+import { getSubjectById, updateSubject } from '@/lib/supabaseData';
 import { uploadFile, deleteFileByUrl } from '@/lib/storage';
 import { Loader2, BookUser, Save, Trash2, Upload } from 'lucide-react';
 import type { Subject, SubjectBranch } from '@/types';
 import { useParams, useRouter } from 'next/navigation';
 import NextImage from 'next/image';
+import AuditHistorySheet from '@/components/audit/AuditHistorySheet';
 
 const subjectSchema = z.object({
   name: z.string().min(3, "اسم المادة يجب أن يكون 3 أحرف على الأقل.").max(100, "اسم المادة طويل جدًا (100 حرف كحد أقصى)."),
@@ -194,9 +195,12 @@ export default function EditSubjectPage() {
   return (
     <Card className="w-full max-w-xl mx-auto shadow-lg">
       <CardHeader>
-        <div className="flex items-center space-x-3 mb-2 rtl:space-x-reverse">
-          <BookUser className="h-8 w-8 text-primary" />
-          <CardTitle className="text-2xl font-bold">تعديل المادة الدراسية</CardTitle>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <BookUser className="h-8 w-8 text-primary" />
+            <CardTitle className="text-2xl font-bold">تعديل المادة الدراسية</CardTitle>
+          </div>
+          {params?.id && <AuditHistorySheet entityType="subject" entityId={params.id as string} />}
         </div>
         <CardDescription>قم بتحديث تفاصيل المادة الدراسية الحالية.</CardDescription>
       </CardHeader>
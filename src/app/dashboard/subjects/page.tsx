@@ -1,9 +1,10 @@
 
 // src/app/dashboard/subjects/page.tsx
 "use client";
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, Suspense } from 'react';
 import Link from 'next/link';
-import { getSubjects, deleteSubject } from '@/lib/firestore';
+import { useSearchParams } from 'next/navigation';
+import { getSubjects, deleteSubject } from '@/lib/supabaseData';
 import type { Subject } from '@/types';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
@@ -37,6 +38,15 @@ const branchTranslations: Record<Subject['branch'], string> = {
   literary: "أدبي",
 };
 
+// ?subject=<id> (used by the header search for lessons) opens that subject's section list.
+function OpenSubjectFromQuery({ onOpen }: { onOpen: (subjectId: string) => void }) {
+  const subjectId = useSearchParams().get('subject');
+  useEffect(() => {
+    if (subjectId) onOpen(subjectId);
+  }, [subjectId, onOpen]);
+  return null;
+}
+
 export default function SubjectsPage() {
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -75,7 +85,7 @@ export default function SubjectsPage() {
     };
     try {
       await deleteSubject(deletingSubjectId, user?.id, userProfile?.role);
-      toast({ title: "نجاح", description: "تم حذف المادة بنجاح." });
+      toast({ title: "نجاح", description: "تم نقل المادة إلى سلة المحذوفات." });
       setSubjects(prev => prev.filter(s => s.id !== deletingSubjectId));
     } catch (err: any) {
       console.error("Error deleting subject:", err);
@@ -88,6 +98,9 @@ export default function SubjectsPage() {
 
   return (
     <div className="space-y-6">
+      <Suspense fallback={null}>
+        <OpenSubjectFromQuery onOpen={setActiveAccordionItem} />
+      </Suspense>
       <Card className="shadow-lg">
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -155,7 +168,7 @@ export default function SubjectsPage() {
                             <AlertDialogHeader className="text-right">
                               <AlertDialogTitle>هل أنت متأكد؟</AlertDialogTitle>
                               <AlertDialogDescription>
-                                سيتم حذف المادة "{subject.name}" وكل الأقسام والدروس والأسئلة المرتبطة بها بشكل دائم.
+                                سيتم نقل المادة "{subject.name}" وكل الأقسام والدروس والأسئلة والامتحانات المرتبطة بها إلى سلة المحذوفات، ويمكن استعادتها معاً من هناك.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter className="flex-row-reverse">
@@ -28,7 +28,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { getTags, addTag, deleteTag, updateTag } from '@/lib/firestore'; // Assuming updateTag exists or will be added
+import { getTags, addTag, deleteTag, updateTag } from '@/lib/supabaseData'; // Assuming updateTag exists or will be added
 import type { Tag } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Tags, PlusCircle, Loader2, Trash2, Edit3, RefreshCw } from 'lucide-react';
@@ -0,0 +1,228 @@
+// src/app/dashboard/trash/page.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getTrashItems, restoreTrashItem, purgeTrashItem } from '@/lib/supabaseData';
+import { deleteFileByUrl } from '@/lib/storage';
+import type { TrashEntity, TrashItem } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { Trash2, Loader2, RefreshCw, ArchiveRestore } from 'lucide-react';
+
+const ENTITY_LABELS: Record<TrashEntity, string> = {
+  subject: 'مادة',
+  section: 'قسم',
+  lesson: 'درس',
+  question: 'سؤال',
+  exam: 'امتحان',
+};
+
+const ENTITY_TABS: { value: TrashEntity | 'all'; label: string }[] = [
+  { value: 'all', label: 'الكل' },
+  { value: 'subject', label: 'المواد' },
+  { value: 'section', label: 'الأقسام' },
+  { value: 'lesson', label: 'الدروس' },
+  { value: 'question', label: 'الأسئلة' },
+  { value: 'exam', label: 'الامتحانات' },
+];
+
+// What a restore or purge of the item takes along (see list_trash in the soft delete migration).
+const describeChildren = (item: TrashItem): string | null => {
+  if (item.childCount === 0) return null;
+  if (item.entity === 'subject') return `مع ${item.childCount} من الأقسام والدروس والأسئلة والامتحانات`;
+  if (item.entity === 'section') return `مع ${item.childCount} من الدروس`;
+  return null;
+};
+
+const itemKey = (item: TrashItem) => `${item.entity}:${item.id}`;
+
+export default function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<TrashEntity | 'all'>('all');
+  const [busyItemKey, setBusyItemKey] = useState<string | null>(null);
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await getTrashItems());
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب محتويات سلة المحذوفات." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const visibleItems = useMemo(
+    () => (activeTab === 'all' ? items : items.filter(item => item.entity === activeTab)),
+    [items, activeTab]
+  );
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyItemKey(itemKey(item));
+    try {
+      await restoreTrashItem(item.entity, item.id);
+      toast({ title: "نجاح", description: `تمت استعادة ${ENTITY_LABELS[item.entity]} "${item.title}".` });
+      fetchTrash();
+    } catch (error) {
+      console.error("Error restoring trash item:", error);
+      const message = error instanceof Error ? error.message : '';
+      toast({ variant: "destructive", title: "خطأ", description: message || "فشلت الاستعادة." });
+    } finally {
+      setBusyItemKey(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setBusyItemKey(itemKey(item));
+    try {
+      const unusedMedia = await purgeTrashItem(item.entity, item.id);
+      await Promise.all(unusedMedia.map(url => deleteFileByUrl(url)));
+      setItems(prev => prev.filter(i => itemKey(i) !== itemKey(item)));
+      toast({ title: "نجاح", description: `تم حذف ${ENTITY_LABELS[item.entity]} "${item.title}" نهائياً.` });
+    } catch (error) {
+      console.error("Error purging trash item:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل الحذف النهائي." });
+    } finally {
+      setBusyItemKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 mb-2 rtl:space-x-reverse">
+              <Trash2 className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold tracking-tight">سلة المحذوفات</CardTitle>
+            </div>
+            <Button variant="outline" onClick={fetchTrash} disabled={isLoading}>
+              <RefreshCw className={`mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0 ${isLoading ? 'animate-spin' : ''}`} />
+              تحديث
+            </Button>
+          </div>
+          <CardDescription className="text-lg text-muted-foreground">
+            العناصر المحذوفة من المواد والأقسام والدروس والأسئلة والامتحانات. استعادة عنصر تعيد معه ما حُذف معه من محتوى.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={activeTab} onValueChange={value => setActiveTab(value as TrashEntity | 'all')} className="mb-4">
+            <TabsList>
+              {ENTITY_TABS.map(tab => (
+                <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {isLoading && items.length === 0 ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+              <p className="ml-3 text-muted-foreground rtl:mr-3 rtl:ml-0">جاري تحميل سلة المحذوفات...</p>
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div className="flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-border rounded-lg bg-muted/30 min-h-[200px]">
+              <Trash2 className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">سلة المحذوفات فارغة.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">النوع</TableHead>
+                    <TableHead className="text-right">العنصر</TableHead>
+                    <TableHead className="text-right">المادة</TableHead>
+                    <TableHead className="text-right">تاريخ الحذف</TableHead>
+                    <TableHead className="text-left">الإجراءات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.map(item => {
+                    const key = itemKey(item);
+                    const isBusy = busyItemKey === key;
+                    // Subjects are trashed and restored by admins only.
+                    const canManage = isAdmin || item.entity !== 'subject';
+                    const children = describeChildren(item);
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>
+                          <Badge variant="secondary">{ENTITY_LABELS[item.entity]}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium max-w-md">
+                          <div className="line-clamp-2">{item.title}</div>
+                          {children && <div className="text-xs text-muted-foreground mt-1">{children}</div>}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{item.subjectName || 'غير محدد'}</TableCell>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">
+                          {formatDistanceToNow(parseISO(item.deletedAt), { addSuffix: true, locale: arSA })}
+                        </TableCell>
+                        <TableCell className="text-left space-x-2 rtl:space-x-reverse whitespace-nowrap">
+                          <Button variant="outline" size="sm" onClick={() => handleRestore(item)} disabled={!canManage || isBusy}>
+                            {isBusy ? <Loader2 className="mr-1 h-4 w-4 animate-spin rtl:ml-1 rtl:mr-0" /> : <ArchiveRestore className="mr-1 h-4 w-4 rtl:ml-1 rtl:mr-0" />}
+                            استعادة
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm" disabled={!canManage || isBusy}>
+                                <Trash2 className="mr-1 h-4 w-4 rtl:ml-1 rtl:mr-0" /> حذف نهائي
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader className="text-right">
+                                <AlertDialogTitle>هل أنت متأكد من الحذف النهائي؟</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  سيتم حذف {ENTITY_LABELS[item.entity]} "{item.title}"{children ? ` ${children}` : ''} بشكل دائم. هذا الإجراء لا يمكن التراجع عنه.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter className="flex-row-reverse">
+                                <AlertDialogCancel>إلغاء</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handlePurge(item)} className="bg-destructive hover:bg-destructive/90">حذف نهائي</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+// src/components/HighlightedText.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import { searchMatchRanges } from '@/lib/arabicText';
+
+interface HighlightedTextProps {
+  text: string | null | undefined;
+  /** Search box entry; the words it matches are marked the way search matches them (see src/lib/arabicText.ts). */
+  query: string | null | undefined;
+}
+
+/** Plain text with the words matched by a search marked. */
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const parts = useMemo(() => {
+    const value = text || '';
+    const result: Array<{ value: string; match: boolean }> = [];
+    let last = 0;
+    searchMatchRanges(value, query).forEach(([start, end]) => {
+      if (start > last) result.push({ value: value.slice(last, start), match: false });
+      result.push({ value: value.slice(start, end), match: true });
+      last = end;
+    });
+    if (last < value.length) result.push({ value: value.slice(last), match: false });
+    return result;
+  }, [text, query]);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">{part.value}</mark>
+          : <React.Fragment key={index}>{part.value}</React.Fragment>
+      )}
+    </>
+  );
+}
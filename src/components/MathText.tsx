@@ -0,0 +1,59 @@
+// src/components/MathText.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/contrib/mhchem'; // Registers \ce{} and \pu{} with KaTeX
+// katex.min.css is imported globally in layout.tsx
+import { splitMathSegments, hasMathMarkup } from '@/lib/mathText';
+import { cn } from '@/lib/utils';
+import HighlightedText from '@/components/HighlightedText';
+
+const renderTeX = (tex: string, displayMode: boolean): string =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, strict: 'ignore' });
+
+interface MathTextProps {
+  text: string | null | undefined;
+  /** Renders block math inline as well, for one-line contexts such as table cells and list rows. */
+  inline?: boolean;
+  /** Search box entry whose matches are marked in the text (not inside formulas). */
+  highlight?: string;
+  className?: string;
+}
+
+/** Authored text with its $...$, $$...$$ and \ce{} segments typeset by KaTeX (see src/lib/mathText.ts). */
+export default function MathText({ text, inline, highlight, className }: MathTextProps) {
+  const segments = useMemo(() => splitMathSegments(text || ''), [text]);
+
+  return (
+    <span className={cn('whitespace-pre-wrap', className)}>
+      {segments.map((segment, index) => {
+        if (segment.kind === 'text') {
+          return highlight
+            ? <HighlightedText key={index} text={segment.value} query={highlight} />
+            : <React.Fragment key={index}>{segment.value}</React.Fragment>;
+        }
+        const display = segment.display && !inline;
+        return (
+          <span
+            key={index}
+            dir="ltr"
+            className={display ? 'block my-2 overflow-x-auto' : 'inline-block align-middle'}
+            dangerouslySetInnerHTML={{ __html: renderTeX(segment.value, display) }}
+          />
+        );
+      })}
+    </span>
+  );
+}
+
+/** Live preview under a text input; renders nothing until the text contains math markup. */
+export function MathPreview({ text, className }: { text: string | null | undefined; className?: string }) {
+  if (!hasMathMarkup(text)) return null;
+  return (
+    <div className={cn('mt-2 rounded-md border border-dashed bg-muted/30 p-2 text-sm', className)}>
+      <span className="block text-xs text-muted-foreground mb-1">معاينة</span>
+      <MathText text={text} />
+    </div>
+  );
+}
@@ -2,9 +2,7 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-// Removed: import { db } from "@/config/firebaseClient";
-// import { collection, getDocs, updateDoc, doc, query, orderBy } from "firebase/firestore"; // Firestore imports removed
-import { getUsers, updateUser } from '@/lib/firestore'; // These will throw errors until implemented for Supabase
+import { getUsers, updateUser } from '@/lib/supabaseData';
 import type { UserProfile } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -27,7 +25,6 @@ import { Loader2, Users } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 
 const ROLES: UserProfile['role'][] = ['student', 'teacher', 'admin', 'user'];
-const NOT_IMPLEMENTED_ERROR = "This function is not implemented for Supabase. Please update src/lib/firestore.ts";
 
 export default function UserTable() {
   const [users, setUsers] = useState<UserProfile[]>([]);
@@ -38,19 +35,15 @@ export default function UserTable() {
   const fetchUsers = async () => {
     setIsLoading(true);
     try {
-      const data = await getUsers(); // This will use the (now placeholder) Supabase version
+      const data = await getUsers();
       setUsers(data);
     } catch (error: any) {
       console.error("Error fetching users:", error);
-      if (error.message && error.message.includes(NOT_IMPLEMENTED_ERROR)) {
-         toast({ variant: "destructive", title: "وظيفة غير منفذة", description: "إدارة المستخدمين تتطلب تطبيق الواجهة الخلفية لـ Supabase." });
-      } else {
-        toast({
-          variant: "destructive",
-          title: "خطأ في جلب المستخدمين",
-          description: "لم نتمكن من تحميل بيانات المستخدمين. يرجى المحاولة مرة أخرى.",
-        });
-      }
+      toast({
+        variant: "destructive",
+        title: "خطأ في جلب المستخدمين",
+        description: "لم نتمكن من تحميل بيانات المستخدمين. يرجى المحاولة مرة أخرى.",
+      });
     } finally {
       setIsLoading(false);
     }
@@ -67,7 +60,6 @@ export default function UserTable() {
     }
     setIsUpdatingRole(userId);
     try {
-      // Assuming updateUser from lib/firestore will be adapted for Supabase
       await updateUser(userId, { role: newRole });
       toast({
         title: "تم تحديث الدور",
@@ -80,15 +72,11 @@ export default function UserTable() {
       );
     } catch (error: any) {
       console.error("Error updating role:", error);
-      if (error.message && error.message.includes(NOT_IMPLEMENTED_ERROR)) {
-         toast({ variant: "destructive", title: "وظيفة غير منفذة", description: "تحديث أدوار المستخدمين يتطلب تطبيق الواجهة الخلفية لـ Supabase." });
-      } else {
-        toast({
-          variant: "destructive",
-          title: "خطأ في تحديث الدور",
-          description: "لم نتمكن من تحديث دور المستخدم. يرجى المحاولة مرة أخرى.",
-        });
-      }
+      toast({
+        variant: "destructive",
+        title: "خطأ في تحديث الدور",
+        description: "لم نتمكن من تحديث دور المستخدم. يرجى المحاولة مرة أخرى.",
+      });
     } finally {
       setIsUpdatingRole(null);
     }
@@ -0,0 +1,51 @@
+// src/components/audit/AuditChanges.tsx
+"use client";
+
+import React from 'react';
+import type { AuditLogEntry } from '@/types';
+
+// Bookkeeping columns that say nothing about what the user changed.
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+};
+
+interface AuditChangesProps {
+  entry: AuditLogEntry;
+}
+
+/** Lists the columns an audit entry touched, with the old value struck through next to the new one. */
+export default function AuditChanges({ entry }: AuditChangesProps) {
+  const fields = Array.from(new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]))
+    .filter(field => !HIDDEN_FIELDS.has(field))
+    .sort();
+
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">لا توجد تفاصيل.</p>;
+  }
+
+  return (
+    <dl className="space-y-1 text-xs">
+      {fields.map(field => {
+        const hasBefore = !!entry.before && field in entry.before;
+        const hasAfter = !!entry.after && field in entry.after;
+        return (
+          <div key={field} className="grid grid-cols-[minmax(6rem,auto)_1fr] gap-2">
+            <dt className="font-mono text-muted-foreground" dir="ltr">{field}</dt>
+            <dd className="break-words">
+              {hasBefore && (
+                <span className="line-through text-red-600 me-2">{formatValue(entry.before![field])}</span>
+              )}
+              {hasAfter && (
+                <span className="text-green-700">{formatValue(entry.after![field])}</span>
+              )}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
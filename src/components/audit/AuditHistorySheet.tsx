@@ -0,0 +1,95 @@
+// src/components/audit/AuditHistorySheet.tsx
+"use client";
+
+import React, { useState, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { getEntityHistory } from '@/lib/supabaseData';
+import type { AuditEntityType, AuditLogEntry } from '@/types';
+import { History, Loader2 } from 'lucide-react';
+import AuditChanges from './AuditChanges';
+import { AUDIT_ACTION_LABELS, AUDIT_ACTION_VARIANTS, AUDIT_ENTITY_LABELS, AUDIT_ROLE_LABELS } from './auditLabels';
+
+interface AuditHistorySheetProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+/** "سجل التغييرات" button for edit pages; loads the entity's audit history when opened. */
+export default function AuditHistorySheet({ entityType, entityId }: AuditHistorySheetProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await getEntityHistory(entityType, entityId));
+    } catch (err) {
+      console.error("Error fetching entity history:", err);
+      setError("فشل في جلب سجل التغييرات.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  return (
+    <Sheet onOpenChange={open => { if (open) loadHistory(); }}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <History className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> سجل التغييرات
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-full sm:max-w-lg">
+        <SheetHeader className="text-right">
+          <SheetTitle>سجل التغييرات</SheetTitle>
+          <SheetDescription>كل تعديل على {AUDIT_ENTITY_LABELS[entityType]}، من الأحدث إلى الأقدم.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pe-3">
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">لا توجد تغييرات مسجلة.</p>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map(entry => (
+                <li key={entry.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                    {entry.entityType !== entityType && (
+                      <Badge variant="outline">{AUDIT_ENTITY_LABELS[entry.entityType]}</Badge>
+                    )}
+                    <span className="font-medium">{entry.actor?.name || entry.actor?.email || 'مستخدم غير معروف'}</span>
+                    {entry.actorRole && (
+                      <span className="text-muted-foreground">({AUDIT_ROLE_LABELS[entry.actorRole]})</span>
+                    )}
+                    <span className="text-xs text-muted-foreground ms-auto">
+                      {format(parseISO(entry.created_at), 'PPpp', { locale: arSA })}
+                    </span>
+                  </div>
+                  <AuditChanges entry={entry} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
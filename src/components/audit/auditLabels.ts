@@ -0,0 +1,42 @@
+// src/components/audit/auditLabels.ts
+import type { AuditAction, AuditEntityType, UserProfile } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'إنشاء',
+  update: 'تعديل',
+  delete: 'حذف نهائي',
+  trash: 'نقل إلى السلة',
+  restore: 'استعادة',
+};
+
+export const AUDIT_ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  trash: 'destructive',
+  restore: 'outline',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  subject: 'مادة',
+  section: 'قسم',
+  lesson: 'درس',
+  question: 'سؤال',
+  question_group: 'مجموعة أسئلة',
+  exam: 'امتحان',
+  exam_question: 'أسئلة امتحان',
+  tag: 'تصنيف',
+  teacher_subject: 'تعيين مدرس',
+  access_code: 'رمز تفعيل',
+  news: 'خبر',
+  announcement: 'إعلان',
+  app_settings: 'إعدادات التطبيق',
+  user: 'مستخدم',
+};
+
+export const AUDIT_ROLE_LABELS: Record<NonNullable<UserProfile['role']>, string> = {
+  admin: 'مدير',
+  teacher: 'مدرس',
+  student: 'طالب',
+  user: 'مستخدم',
+};
@@ -0,0 +1,163 @@
+// src/components/layout/GlobalSearch.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Input } from '@/components/ui/input';
+import HighlightedText from '@/components/HighlightedText';
+import { searchEverything } from '@/lib/supabaseData';
+import { searchTerms } from '@/lib/arabicText';
+import type { SearchEntity, SearchResult } from '@/types';
+import { cn } from '@/lib/utils';
+import { Loader2, Search } from 'lucide-react';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ENTITY_GROUPS: { entity: SearchEntity; label: string }[] = [
+  { entity: 'question', label: 'الأسئلة' },
+  { entity: 'lesson', label: 'الدروس' },
+  { entity: 'exam', label: 'الامتحانات' },
+  { entity: 'news', label: 'الأخبار' },
+];
+
+// Lessons have no page of their own; the subjects page opens the lesson's subject.
+const resultHref = (result: SearchResult): string => {
+  switch (result.entity) {
+    case 'question':
+      return `/dashboard/questions/edit/${result.id}`;
+    case 'lesson':
+      return result.subjectId ? `/dashboard/subjects?subject=${result.subjectId}` : '/dashboard/subjects';
+    case 'exam':
+      return `/dashboard/exams/edit/${result.id}`;
+    case 'news':
+      return `/dashboard/news/edit/${result.id}`;
+  }
+};
+
+/** The search box in the header: finds questions, lessons, exams and news and jumps to the one picked. */
+export default function GlobalSearch() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (searchTerms(query).length === 0) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchEverything(query);
+        if (!cancelled) {
+          setResults(found);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error("Error searching:", error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Grouped by kind, in the order the list shows them, so the arrow keys walk the list top to bottom.
+  const orderedResults = ENTITY_GROUPS.flatMap(group => results.filter(result => result.entity === group.entity));
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    setQuery('');
+    router.push(resultHref(result));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setIsOpen(false);
+    } else if (event.key === 'ArrowDown' && orderedResults.length > 0) {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => (index + 1) % orderedResults.length);
+    } else if (event.key === 'ArrowUp' && orderedResults.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + orderedResults.length) % orderedResults.length);
+    } else if (event.key === 'Enter' && orderedResults[activeIndex]) {
+      event.preventDefault();
+      openResult(orderedResults[activeIndex]);
+    }
+  };
+
+  const showPanel = isOpen && searchTerms(query).length > 0;
+
+  return (
+    <div className="relative w-full max-w-md">
+      <Search className="absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder="ابحث في الأسئلة والدروس والامتحانات والأخبار..."
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="pr-8"
+        aria-label="بحث عام"
+      />
+      {showPanel && (
+        // Results are picked on mouse down, before the input's blur closes the panel.
+        <div className="absolute inset-x-0 top-full z-50 mt-1 max-h-[70vh] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          {isSearching && orderedResults.length === 0 ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> جارٍ البحث...
+            </div>
+          ) : orderedResults.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">لا توجد نتائج.</p>
+          ) : (
+            ENTITY_GROUPS.map(group => {
+              const groupResults = orderedResults.filter(result => result.entity === group.entity);
+              if (groupResults.length === 0) return null;
+              return (
+                <div key={group.entity} className="py-1">
+                  <p className="px-2 py-1 text-xs font-semibold text-muted-foreground">{group.label}</p>
+                  {groupResults.map(result => {
+                    const index = orderedResults.indexOf(result);
+                    return (
+                      <button
+                        key={`${result.entity}-${result.id}`}
+                        type="button"
+                        onMouseDown={(e) => { e.preventDefault(); openResult(result); }}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={cn(
+                          "block w-full rounded-sm px-2 py-1.5 text-right text-sm",
+                          index === activeIndex && "bg-accent text-accent-foreground"
+                        )}
+                      >
+                        <span className="line-clamp-1"><HighlightedText text={result.title} query={query} /></span>
+                        {(result.subjectName || result.excerpt) && (
+                          <span className="line-clamp-1 text-xs text-muted-foreground">
+                            {result.subjectName}
+                            {result.subjectName && result.excerpt && ' · '}
+                            {result.excerpt && <HighlightedText text={result.excerpt} query={query} />}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,13 +18,14 @@ import { supabase } from '@/lib/supabaseClient';
 import { useRouter, usePathname } from 'next/navigation';
 import { useSidebar } from '../ui/sidebar';
 import type { AdminNotification, AppSettings, AdminNotificationType } from '@/types'; 
-import { getAppSettings, getAdminNotifications, markNotificationAsRead } from '@/lib/firestore';
+import { getAppSettings, getAdminNotifications, markNotificationAsRead } from '@/lib/supabaseData';
 import { formatDistanceToNow, parseISO } from 'date-fns'; 
 import { arSA } from 'date-fns/locale';
 import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
 import NextImage from 'next/image'; 
 import { cn } from "@/lib/utils";
+import GlobalSearch from './GlobalSearch';
 
 export default function AppHeader() {
   const { userProfile, user } = useAuth(); 
@@ -170,6 +171,12 @@ export default function AppHeader() {
         </div>
         <h1 className="text-xl font-semibold text-foreground">لوحة تحكم اتمتني</h1> 
       </div>
+
+      {user && (
+        <div className="hidden flex-1 justify-center px-4 md:flex">
+          <GlobalSearch />
+        </div>
+      )}
       
       <div className="flex items-center gap-2">
         <DropdownMenu onOpenChange={handleNotificationDropdownToggle}>
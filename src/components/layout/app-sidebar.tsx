@@ -15,9 +15,9 @@ import {
   SidebarTrigger,
 } from '@/components/ui/sidebar';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Home, FileQuestion, ClipboardList, Newspaper, QrCode, Download, Upload, Settings, School, BookOpenCheck, Users2, BarChart3, Megaphone, MessageSquare, Tags, Loader2 } from 'lucide-react';
+import { Home, FileQuestion, ClipboardList, Newspaper, QrCode, Download, Upload, Settings, School, BookOpenCheck, Users2, BarChart3, Megaphone, MessageSquare, Tags, Trash2, ScrollText, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { getAppSettings } from '@/lib/firestore';
+import { getAppSettings } from '@/lib/supabaseData';
 import type { AppSettings } from '@/types';
 import { useAuth } from '@/hooks/use-auth';
 
@@ -43,6 +43,8 @@ const allNavItems: NavItem[] = [
   { href: '/dashboard/teachers', label: 'المدرسون', icon: Users2, adminOnly: true },
   { href: '/dashboard/export', label: 'تصدير البيانات', icon: Download, adminOnly: true },
   { href: '/dashboard/import', label: 'استيراد البيانات', icon: Upload, adminOnly: true },
+  { href: '/dashboard/audit', label: 'سجل التدقيق', icon: ScrollText, adminOnly: true },
+  { href: '/dashboard/trash', label: 'سلة المحذوفات', icon: Trash2, teacherAllowed: true },
 ];
 
 export default function AppSidebar() {
@@ -20,18 +20,32 @@ import {
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { addQuestion, getSubjectById, getTags, addTag as createTagInDb } from '@/lib/firestore'; // Updated to use createTagInDb alias
+import { addQuestion, getSubjectById, getTags, addTag as createTagInDb } from '@/lib/supabaseData'; // Updated to use createTagInDb alias
 import { uploadFile } from '@/lib/storage';
 import { useToast } from '@/hooks/use-toast';
 import { PlusCircle, Trash2, Loader2, TagsIcon, Search, Image as ImageIcon, Upload } from 'lucide-react'; // Added Search and ImageIcon icons
 import type { Option, Question, QuestionType, MCQQuestion, TrueFalseQuestion, FillInTheBlanksQuestion, ShortAnswerQuestion, Tag } from '@/types';
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import ExtendedAnswerFields from './ExtendedAnswerFields';
+import { MathPreview } from '@/components/MathText';
+import {
+  EXTENDED_QUESTION_TYPES,
+  isExtendedQuestionType,
+  matchingAnswerSchema,
+  multiSelectAnswerSchema,
+  numericAnswerSchema,
+  orderingAnswerSchema,
+  toExtendedAnswerPayload,
+  type ExtendedAnswerFormValues,
+} from './extendedQuestionTypes';
+import { QUESTION_TYPE_LABELS } from './questionLabels';
+import OptionMediaFields from './OptionMediaFields';
+import { hasOptionContent, mcqOptionSchema, optionMediaUrls, optionSelectLabel, toOptionMedia } from './optionMedia';
+import { useSessionUploads } from '@/hooks/use-session-uploads';
 
 // Schemas for different parts of the lesson question form
-const lessonOptionSchema = z.object({
-  text: z.string().min(1, "نص الخيار لا يمكن أن يكون فارغًا."),
-});
+const lessonOptionSchema = mcqOptionSchema("نص الخيار لا يمكن أن يكون فارغًا ما لم يُرفق به صورة أو صوت.");
 
 const lessonCorrectAnswerSchema = z.object({
   text: z.string().min(1, "نص الإجابة الصحيحة لا يمكن أن يكون فارغًا."),
@@ -77,6 +91,10 @@ const lessonQuestionSchema = z.discriminatedUnion("questionType", [
   lessonTrueFalseQuestionSchema,
   lessonFillInTheBlanksQuestionSchema,
   lessonShortAnswerQuestionSchema,
+  lessonBaseQuestionSchema.extend(multiSelectAnswerSchema.shape),
+  lessonBaseQuestionSchema.extend(matchingAnswerSchema.shape),
+  lessonBaseQuestionSchema.extend(orderingAnswerSchema.shape),
+  lessonBaseQuestionSchema.extend(numericAnswerSchema.shape),
 ]);
 
 type LessonQuestionFormValues = z.infer<typeof lessonQuestionSchema>;
@@ -131,6 +149,14 @@ export default function AddLessonQuestionForm({
     // @ts-ignore
     name: "options",
   });
+  const optionUploads = useSessionUploads();
+
+  const handleRemoveMcqOption = (index: number) => {
+    const removed = form.getValues(`options.${index}`);
+    removeMcqOption(index);
+    void optionUploads.discard(removed?.imageUrl);
+    void optionUploads.discard(removed?.audioUrl);
+  };
 
   const { fields: fillBlankAnswerFields, append: appendFillBlankAnswer, remove: removeFillBlankAnswer } = useFieldArray({
     control: form.control,
@@ -273,7 +299,7 @@ export default function AddLessonQuestionForm({
 
       if (formData.questionType === 'mcq') {
         const mcqData = formData as Extract<LessonQuestionFormValues, { questionType: 'mcq' }>;
-        const optionsWithIds: Option[] = mcqData.options.map((opt, index) => ({ id: `option-${index + 1}-${Date.now()}`, text: opt.text }));
+        const optionsWithIds: Option[] = mcqData.options.map((opt, index) => ({ id: `option-${index + 1}-${Date.now()}`, text: opt.text.trim(), ...toOptionMedia(opt) }));
         const correctOptionId = optionsWithIds[parseInt(mcqData.correctOptionIndex)].id;
         questionPayload = {
           questionType: 'mcq', questionText: mcqData.questionText, imageUrl: mcqData.imageUrl || null, imageHint: mcqData.imageHint || null, options: optionsWithIds, correctOptionId: correctOptionId,
@@ -301,6 +327,13 @@ export default function AddLessonQuestionForm({
           difficulty: saData.difficulty, subjectId: subjectId, subject: subjectName || subjectId,
           lessonId: lessonId, isSane: null, sanityExplanation: null, tagIds: formData.tagIds || [],
         };
+      } else if (isExtendedQuestionType(formData.questionType)) {
+        questionPayload = {
+          ...toExtendedAnswerPayload(formData as ExtendedAnswerFormValues),
+          questionText: formData.questionText, imageUrl: formData.imageUrl || null, imageHint: formData.imageHint || null,
+          difficulty: formData.difficulty, subjectId: subjectId, subject: subjectName || subjectId,
+          lessonId: lessonId, isSane: null, sanityExplanation: null, tagIds: formData.tagIds || [],
+        };
       } else {
         console.error("Invalid question type in form data:", formData);
         toast({ variant: "destructive", title: "خطأ", description: "نوع سؤال غير صالح." });
@@ -309,6 +342,7 @@ export default function AddLessonQuestionForm({
       }
       
       await addQuestion(questionPayload);
+      await optionUploads.commit(optionMediaUrls('options' in questionPayload ? questionPayload.options : undefined));
 
       toast({
         title: "نجاح!",
@@ -386,6 +420,9 @@ export default function AddLessonQuestionForm({
                       <SelectItem value="true_false" className="text-sm">صح/خطأ</SelectItem>
                       <SelectItem value="fill_in_the_blanks" className="text-sm">املأ الفراغات</SelectItem>
                       <SelectItem value="short_answer" className="text-sm">سؤال مقالي قصير</SelectItem>
+                      {EXTENDED_QUESTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type} className="text-sm">{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -411,6 +448,7 @@ export default function AddLessonQuestionForm({
                       className="text-sm"
                     />
                   </FormControl>
+                  <MathPreview text={field.value} />
                   <FormMessage />
                 </FormItem>
               )}
@@ -464,11 +502,13 @@ export default function AddLessonQuestionForm({
                                 <Input placeholder={`الخيار ${index + 1}`} {...optionField} className="text-sm h-8"/>
                               </FormControl>
                               {mcqOptionFields.length > 2 && (
-                                <Button type="button" variant="ghost" size="icon" onClick={() => removeMcqOption(index)} disabled={isLoading} className="h-8 w-8">
+                                <Button type="button" variant="ghost" size="icon" onClick={() => handleRemoveMcqOption(index)} disabled={isLoading} className="h-8 w-8">
                                   <Trash2 className="h-3.5 w-3.5 text-destructive" />
                                 </Button>
                               )}
                             </div>
+                            <MathPreview text={optionField.value} />
+                            <OptionMediaFields index={index} uploads={optionUploads} disabled={isLoading} />
                             <FormMessage />
                           </FormItem>
                         )}
@@ -505,8 +545,8 @@ export default function AddLessonQuestionForm({
                         <SelectContent>
                           {/* @ts-ignore */}
                           {(form.getValues("options") || []).map((option, index) => (
-                            <SelectItem key={index} value={index.toString()} disabled={!option.text?.trim()} className="text-sm">
-                              الخيار {index + 1}{option.text?.trim() ? `: ${option.text.substring(0,20)}...` : ''}
+                            <SelectItem key={index} value={index.toString()} disabled={!hasOptionContent(option)} className="text-sm">
+                              {optionSelectLabel(option, index)}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -602,12 +642,17 @@ export default function AddLessonQuestionForm({
                     <FormControl>
                       <Textarea placeholder="اكتب الإجابة النموذجية هنا كمرجع..." {...field} rows={2} className="text-sm"/>
                     </FormControl>
+                    <MathPreview text={field.value} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
             )}
 
+            {isExtendedQuestionType(watchedQuestionType) && (
+              <ExtendedAnswerFields questionType={watchedQuestionType} disabled={isLoading} />
+            )}
+
             <FormField
               control={form.control}
               name="difficulty"
@@ -0,0 +1,38 @@
+// src/components/questions/AnswerKeyBadge.tsx
+"use client";
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import MathText from '@/components/MathText';
+import type { AnswerKeyCheck } from '@/types';
+
+interface AnswerKeyBadgeProps {
+  check: AnswerKeyCheck | null | undefined;
+}
+
+/** Whether the AI's own solution matched the stored answer key; the solution and reasoning are in the tooltip. */
+export default function AnswerKeyBadge({ check }: AnswerKeyBadgeProps) {
+  if (!check) return null;
+  const confidence = check.confidence === null ? null : Math.round(check.confidence * 100);
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge
+            variant={check.agrees ? 'outline' : 'destructive'}
+            className="cursor-default whitespace-nowrap text-xs"
+          >
+            {check.agrees ? 'مفتاح الإجابة مؤكد' : 'مفتاح الإجابة مشكوك فيه'}
+            {confidence !== null && ` · ${confidence}%`}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-sm space-y-1 text-sm" dir="rtl">
+          {check.solverAnswer && <p className="font-medium">إجابة الذكاء الاصطناعي: <MathText text={check.solverAnswer} inline /></p>}
+          {check.explanation && <MathText text={check.explanation} />}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,183 @@
+// src/components/questions/DistractorSuggestions.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import MathText from '@/components/MathText';
+import { suggestDistractors, type SuggestDistractorsOutput } from '@/ai/flows/suggest-distractors-flow';
+import { hasOptionContent, type McqOptionFormValues } from '@/components/questions/optionMedia';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw, Sparkles } from 'lucide-react';
+
+type Distractor = SuggestDistractorsOutput['distractors'][number];
+
+const DEFAULT_DISTRACTOR_COUNT = 3;
+
+export interface McqOptionsState {
+  options: McqOptionFormValues[];
+  /** Index of the correct option, or null when none is picked yet. */
+  correctIndex: number | null;
+}
+
+/**
+ * Puts the picked distractors into the option list.
+ * - `insert` fills the empty options first and adds the rest, up to `maxOptions`.
+ * - `replace` swaps out every wrong option (dropping the extra ones) and keeps the correct one where it is.
+ */
+export const applyDistractors = (
+  state: McqOptionsState,
+  distractors: string[],
+  mode: 'insert' | 'replace',
+  maxOptions: number
+): McqOptionsState => {
+  const pending = [...distractors];
+  const isFree = (opt: McqOptionFormValues, index: number) =>
+    index !== state.correctIndex && (mode === 'replace' || !hasOptionContent(opt));
+
+  const options: McqOptionFormValues[] = [];
+  let correctIndex: number | null = null;
+  state.options.forEach((opt, index) => {
+    if (!isFree(opt, index)) {
+      if (index === state.correctIndex) correctIndex = options.length;
+      options.push(opt);
+    } else if (pending.length > 0) {
+      options.push({ text: pending.shift()!, imageUrl: null, audioUrl: null });
+    } else if (mode === 'insert') {
+      options.push(opt);
+    }
+  });
+  while (pending.length > 0 && options.length < maxOptions) {
+    options.push({ text: pending.shift()!, imageUrl: null, audioUrl: null });
+  }
+  return { options, correctIndex };
+};
+
+interface DistractorSuggestionsProps {
+  /** Read when the button is pressed, so the suggestions fit what is in the form right then. */
+  getState: () => McqOptionsState & { questionText: string };
+  maxOptions: number;
+  onApply: (next: McqOptionsState) => void;
+  disabled?: boolean;
+}
+
+/** "Suggest distractors" button of the MCQ options editor, with a dialog to pick and insert the suggestions. */
+export default function DistractorSuggestions({ getState, maxOptions, onApply, disabled }: DistractorSuggestionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestions, setSuggestions] = useState<Distractor[]>([]);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+
+  const fetchSuggestions = async () => {
+    const { questionText, options, correctIndex } = getState();
+    const correctAnswer = correctIndex === null ? '' : options[correctIndex]?.text.trim() ?? '';
+    if (!questionText.trim() || !correctAnswer) {
+      toast({
+        variant: "destructive",
+        title: "بيانات ناقصة",
+        description: "اكتب نص السؤال وحدد الإجابة الصحيحة (بنص مكتوب) قبل طلب الاقتراحات.",
+      });
+      return;
+    }
+    setIsOpen(true);
+    setIsSuggesting(true);
+    try {
+      const existingOptions = options
+        .filter((opt, index) => index !== correctIndex && opt.text.trim())
+        .map(opt => opt.text.trim());
+      const result = await suggestDistractors({ questionText, correctAnswer, existingOptions, count: DEFAULT_DISTRACTOR_COUNT });
+      setSuggestions(result.distractors);
+      setPicked(new Set(result.distractors.map((_, index) => index)));
+    } catch (error) {
+      console.error("AI Distractor Suggestion Error:", error);
+      toast({ variant: "destructive", title: "فشل اقتراح الخيارات", description: "لم نتمكن من اقتراح خيارات خاطئة. يرجى المحاولة مرة أخرى." });
+      setIsOpen(false);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const togglePicked = (index: number, checked: boolean) => {
+    setPicked(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const apply = (mode: 'insert' | 'replace') => {
+    const chosen = suggestions.filter((_, index) => picked.has(index)).map(d => d.text);
+    const state = getState();
+    const next = applyDistractors(state, chosen, mode, maxOptions);
+    const placed = next.options.filter(opt => chosen.includes(opt.text)).length;
+    onApply(next);
+    setIsOpen(false);
+    toast({
+      title: "اقتراح الخيارات",
+      description: placed < chosen.length
+        ? `أُضيف ${placed} من ${chosen.length} خيارات؛ الحد الأقصى ${maxOptions} خيارات.`
+        : `أُضيف ${placed} خيار.`,
+    });
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" size="sm" onClick={fetchSuggestions} disabled={disabled || isSuggesting}>
+        {isSuggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+        اقترح خيارات خاطئة
+      </Button>
+      <Dialog open={isOpen} onOpenChange={(open) => { if (!isSuggesting) setIsOpen(open); }}>
+        <DialogContent className="sm:max-w-lg" dir="rtl">
+          <DialogHeader className="text-right">
+            <DialogTitle>خيارات خاطئة مقترحة</DialogTitle>
+            <DialogDescription>اختر الخيارات التي تريدها، ثم أضفها إلى الخيارات الفارغة أو استبدل بها الخيارات الخاطئة الحالية.</DialogDescription>
+          </DialogHeader>
+          {isSuggesting ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : suggestions.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground">لم تُقترح خيارات جديدة. جرّب مرة أخرى.</p>
+          ) : (
+            <div className="space-y-3 py-2">
+              {suggestions.map((distractor, index) => (
+                <label key={index} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50">
+                  <Checkbox
+                    checked={picked.has(index)}
+                    onCheckedChange={(checked) => togglePicked(index, checked === true)}
+                    className="mt-1"
+                  />
+                  <div className="space-y-1">
+                    <MathText text={distractor.text} />
+                    <p className="text-xs text-muted-foreground">{distractor.rationale}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          <DialogFooter className="flex-row-reverse gap-2">
+            <Button type="button" onClick={() => apply('insert')} disabled={isSuggesting || picked.size === 0}>
+              إضافة
+            </Button>
+            <Button type="button" variant="secondary" onClick={() => apply('replace')} disabled={isSuggesting || picked.size === 0}>
+              استبدال الخيارات الخاطئة
+            </Button>
+            <Button type="button" variant="ghost" onClick={fetchSuggestions} disabled={isSuggesting}>
+              <RefreshCw className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> اقتراحات أخرى
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,248 @@
+// src/components/questions/ExtendedAnswerFields.tsx
+"use client";
+
+import React, { useEffect } from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { MAX_CHOICE_ITEMS } from '@/lib/supabaseData';
+import { MathPreview } from '@/components/MathText';
+import { ArrowDown, ArrowUp, PlusCircle, Trash2 } from 'lucide-react';
+import { EXTENDED_ANSWER_DEFAULTS, type ExtendedQuestionType } from './extendedQuestionTypes';
+
+// Array-level errors (too few rows, nothing marked correct, ...) end up on the array itself or on its root.
+const ArrayError = ({ name }: { name: string }) => {
+  const { formState: { errors } } = useFormContext();
+  const error = errors[name] as { message?: string; root?: { message?: string } } | undefined;
+  const message = error?.message || error?.root?.message;
+  return message ? <p className="text-sm font-medium text-destructive">{message}</p> : null;
+};
+
+interface SectionProps {
+  disabled?: boolean;
+}
+
+function MultiSelectFields({ disabled }: SectionProps) {
+  const { control } = useFormContext();
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'selectOptions' });
+
+  useEffect(() => {
+    if (fields.length === 0) replace(EXTENDED_ANSWER_DEFAULTS.selectOptions);
+  }, [fields.length, replace]);
+
+  return (
+    <div>
+      <Label>الخيارات</Label>
+      <FormDescription className="text-xs mb-2">حدد كل الخيارات الصحيحة؛ على الطالب اختيارها جميعًا.</FormDescription>
+      <div className="space-y-3 mt-2">
+        {fields.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <FormField
+              control={control}
+              name={`selectOptions.${index}.isCorrect`}
+              render={({ field }) => (
+                <FormItem className="space-y-0">
+                  <FormControl>
+                    <Checkbox checked={!!field.value} onCheckedChange={checked => field.onChange(checked === true)} disabled={disabled} aria-label={`الخيار ${index + 1} صحيح`} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`selectOptions.${index}.text`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder={`الخيار ${index + 1}`} {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+                  <MathPreview text={field.value} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {fields.length > 2 && (
+              <Button type="button" variant="destructive" size="icon" onClick={() => remove(index)} disabled={disabled}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      <ArrayError name="selectOptions" />
+      {fields.length < MAX_CHOICE_ITEMS && (
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '', isCorrect: false })} className="mt-2" disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> أضف خيارًا
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function MatchingFields({ disabled }: SectionProps) {
+  const { control } = useFormContext();
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'pairs' });
+
+  useEffect(() => {
+    if (fields.length === 0) replace(EXTENDED_ANSWER_DEFAULTS.pairs);
+  }, [fields.length, replace]);
+
+  return (
+    <div>
+      <Label>أزواج المطابقة</Label>
+      <FormDescription className="text-xs mb-2">يرى الطالب الطرف المقابل بترتيب عشوائي ويطابق كل عنصر بما يقابله.</FormDescription>
+      <div className="space-y-3 mt-2">
+        {fields.map((item, index) => (
+          <div key={item.id} className="flex items-start gap-2">
+            <FormField
+              control={control}
+              name={`pairs.${index}.prompt`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder={`العنصر ${index + 1}`} {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+                  <MathPreview text={field.value} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`pairs.${index}.match`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder={`ما يقابل العنصر ${index + 1}`} {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+                  <MathPreview text={field.value} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {fields.length > 2 && (
+              <Button type="button" variant="destructive" size="icon" onClick={() => remove(index)} disabled={disabled}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      <ArrayError name="pairs" />
+      {fields.length < MAX_CHOICE_ITEMS && (
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ prompt: '', match: '' })} className="mt-2" disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> أضف زوجًا
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function OrderingFields({ disabled }: SectionProps) {
+  const { control } = useFormContext();
+  const { fields, append, remove, move, replace } = useFieldArray({ control, name: 'orderItems' });
+
+  useEffect(() => {
+    if (fields.length === 0) replace(EXTENDED_ANSWER_DEFAULTS.orderItems);
+  }, [fields.length, replace]);
+
+  return (
+    <div>
+      <Label>العناصر بالترتيب الصحيح</Label>
+      <FormDescription className="text-xs mb-2">أدخل العناصر بترتيبها الصحيح؛ ستُعرض على الطالب بترتيب عشوائي.</FormDescription>
+      <div className="space-y-3 mt-2">
+        {fields.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <span className="w-6 text-center text-sm text-muted-foreground">{index + 1}</span>
+            <FormField
+              control={control}
+              name={`orderItems.${index}.text`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder={`العنصر ${index + 1}`} {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+                  <MathPreview text={field.value} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(index, index - 1)} disabled={disabled || index === 0} aria-label="تحريك للأعلى">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(index, index + 1)} disabled={disabled || index === fields.length - 1} aria-label="تحريك للأسفل">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            {fields.length > 2 && (
+              <Button type="button" variant="destructive" size="icon" onClick={() => remove(index)} disabled={disabled}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+      <ArrayError name="orderItems" />
+      {fields.length < MAX_CHOICE_ITEMS && (
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ text: '' })} className="mt-2" disabled={disabled}>
+          <PlusCircle className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> أضف عنصرًا
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function NumericFields({ disabled }: SectionProps) {
+  const { control } = useFormContext();
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <FormField
+        control={control}
+        name="numericAnswer"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>الإجابة الصحيحة</FormLabel>
+            <FormControl><Input inputMode="decimal" dir="ltr" placeholder="9.81" {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="numericTolerance"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>هامش الخطأ المسموح (±)</FormLabel>
+            <FormControl><Input inputMode="decimal" dir="ltr" placeholder="0" {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+            <FormDescription className="text-xs">تُقبل أي إجابة ضمن هذا الفرق عن القيمة الصحيحة.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="numericUnit"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>الوحدة (اختياري)</FormLabel>
+            <FormControl><Input placeholder="م/ث²" {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+interface ExtendedAnswerFieldsProps {
+  questionType: ExtendedQuestionType;
+  disabled?: boolean;
+}
+
+/** Answer inputs for the multi_select, matching, ordering and numeric types; must be rendered inside <Form>. */
+export default function ExtendedAnswerFields({ questionType, disabled }: ExtendedAnswerFieldsProps) {
+  switch (questionType) {
+    case 'multi_select':
+      return <MultiSelectFields disabled={disabled} />;
+    case 'matching':
+      return <MatchingFields disabled={disabled} />;
+    case 'ordering':
+      return <OrderingFields disabled={disabled} />;
+    case 'numeric':
+      return <NumericFields disabled={disabled} />;
+  }
+}
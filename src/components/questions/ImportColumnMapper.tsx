@@ -0,0 +1,387 @@
+// src/components/questions/ImportColumnMapper.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  addTag,
+  deleteImportMappingTemplate,
+  getImportMappingTemplates,
+  getLessonsForSubjects,
+  getTags,
+  RepositoryError,
+  saveImportMappingTemplate,
+} from '@/lib/supabaseData';
+import {
+  applyColumnMapping,
+  chosenNameId,
+  collectNameResolutions,
+  detectHeaders,
+  guessColumnMapping,
+  IMPORT_TARGET_FIELDS,
+  missingRequiredFields,
+  nameResolver,
+  resolutionId,
+  sampleValues,
+  type ColumnMapping,
+  type NameKind,
+  type NameOverrides,
+  type NameResolution,
+} from '@/components/questions/importColumnMapping';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { ImportMappingTemplate, Lesson, Subject, Tag } from '@/types';
+import { ArrowLeft, Loader2, Save, Trash2 } from 'lucide-react';
+
+interface ImportColumnMapperProps {
+  /** Rows as parsed from the file, keyed by the file's own headers. */
+  rows: Record<string, unknown>[];
+  subjects: Subject[];
+  /** Gets the rows as import items (lowercase field keys, names resolved to ids). */
+  onComplete: (items: Record<string, any>[]) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+// Select items cannot have an empty value.
+const IGNORE = '__ignore__';
+const NO_MATCH = '__none__';
+
+const NAME_KIND_TITLES: Record<NameKind, string> = {
+  subject: 'المواد',
+  lesson: 'الدروس',
+  tag: 'الوسوم',
+};
+
+/** Mapping step of the question import: file headers to import fields, and names in the file to ids. */
+export default function ImportColumnMapper({ rows, subjects, onComplete, onCancel, disabled }: ImportColumnMapperProps) {
+  const headers = useMemo(() => detectHeaders(rows), [rows]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers));
+  const [overrides, setOverrides] = useState<NameOverrides>({});
+  const [createMissingTags, setCreateMissingTags] = useState(true);
+
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [templates, setTemplates] = useState<ImportMappingTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { user, isAdmin } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const subjectIds = subjects.map(s => s.id).filter((id): id is string => !!id);
+        const [lessonsData, tagsData, templatesData] = await Promise.all([
+          getLessonsForSubjects(subjectIds),
+          getTags(),
+          getImportMappingTemplates('questions'),
+        ]);
+        if (cancelled) return;
+        setLessons(lessonsData);
+        setTags(tagsData);
+        setTemplates(templatesData);
+      } catch (error) {
+        console.error("Error loading lessons, tags or mapping templates:", error);
+        if (!cancelled) toast({ variant: "destructive", title: "خطأ", description: "فشل تحميل الدروس أو الوسوم أو قوالب الربط." });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [subjects, toast]);
+
+  const resolutions = useMemo(
+    () => collectNameResolutions(rows, mapping, { subjects, lessons, tags }, overrides),
+    [rows, mapping, subjects, lessons, tags, overrides]
+  );
+  const missing = missingRequiredFields(mapping);
+  const selectedTemplate = templates.find(t => t.id === templateId) ?? null;
+  const canEditTemplate = (template: ImportMappingTemplate) => isAdmin || template.createdBy === user?.id;
+
+  const candidatesFor = (resolution: NameResolution): { id: string; name: string }[] => {
+    switch (resolution.kind) {
+      case 'subject': return subjects.filter(s => s.id).map(s => ({ id: s.id!, name: s.name }));
+      case 'lesson': return lessons.filter(l => l.id && l.subjectId === resolution.subjectId).map(l => ({ id: l.id!, name: l.title }));
+      case 'tag': return tags.filter(t => t.id).map(t => ({ id: t.id!, name: t.name }));
+    }
+  };
+
+  const setField = (header: string, field: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      // A field belongs to one column: whichever column had it lets it go.
+      if (field) Object.keys(next).forEach(other => { if (next[other] === field) next[other] = ''; });
+      next[header] = field;
+      return next;
+    });
+  };
+
+  const chooseTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setTemplateId(template.id);
+    setTemplateName(template.name);
+    setMapping(guessColumnMapping(headers, template.mapping));
+  };
+
+  const saveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    setIsSavingTemplate(true);
+    try {
+      // Saving under the selected template's name updates it; any other name makes a new template.
+      const existing = selectedTemplate && selectedTemplate.name === name && canEditTemplate(selectedTemplate) ? selectedTemplate : null;
+      const saved = await saveImportMappingTemplate({ id: existing?.id, name, dataType: 'questions', mapping });
+      setTemplates(prev => [...prev.filter(t => t.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name, 'ar')));
+      setTemplateId(saved.id);
+      toast({ title: "نجاح", description: `تم حفظ قالب الربط "${saved.name}".` });
+    } catch (error) {
+      console.error("Error saving import mapping template:", error);
+      const taken = error instanceof RepositoryError && error.code === '23505';
+      toast({
+        variant: "destructive",
+        title: "خطأ",
+        description: taken ? `يوجد قالب باسم "${name}" بالفعل. اختر اسمًا آخر.` : "فشل حفظ قالب الربط.",
+      });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    setIsSavingTemplate(true);
+    try {
+      await deleteImportMappingTemplate(selectedTemplate.id);
+      setTemplates(prev => prev.filter(t => t.id !== selectedTemplate.id));
+      setTemplateId(null);
+      setTemplateName('');
+      toast({ title: "نجاح", description: `تم حذف قالب الربط "${selectedTemplate.name}".` });
+    } catch (error) {
+      console.error("Error deleting import mapping template:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل حذف قالب الربط." });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const setOverride = (resolution: NameResolution, value: string) => {
+    setOverrides(prev => ({ ...prev, [resolutionId(resolution.kind, resolution.key)]: value === NO_MATCH ? null : value }));
+  };
+
+  const unresolvedTags = resolutions.filter(r => r.kind === 'tag' && !chosenNameId(r, overrides));
+
+  const handleContinue = async () => {
+    setIsApplying(true);
+    try {
+      const finalOverrides = { ...overrides };
+      if (createMissingTags) {
+        for (const resolution of unresolvedTags) {
+          finalOverrides[resolutionId(resolution.kind, resolution.key)] = await addTag({ name: resolution.value });
+        }
+        if (unresolvedTags.length > 0) {
+          toast({ title: "نجاح", description: `تم إنشاء ${unresolvedTags.length} وسم جديد.` });
+        }
+      }
+      onComplete(applyColumnMapping(rows, mapping, nameResolver(resolutions, finalOverrides)));
+    } catch (error) {
+      console.error("Error creating missing tags:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل إنشاء الوسوم الجديدة." });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const busy = disabled || isApplying || isSavingTemplate;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> جارٍ تحميل المواد والدروس والوسوم...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="space-y-1">
+        <h3 className="font-semibold">ربط أعمدة الملف</h3>
+        <p className="text-sm text-muted-foreground">
+          {rows.length} صف و{headers.length} عمود. اختر لكل عمود الحقل الذي يحتويه، أو اتركه "تجاهل".
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-56 space-y-1">
+          <Label>قالب ربط محفوظ</Label>
+          <Select value={templateId ?? undefined} onValueChange={chooseTemplate} disabled={busy || templates.length === 0}>
+            <SelectTrigger><SelectValue placeholder={templates.length === 0 ? 'لا توجد قوالب' : 'اختر قالبًا'} /></SelectTrigger>
+            <SelectContent>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-56 space-y-1">
+          <Label htmlFor="mapping-template-name">اسم القالب</Label>
+          <Input
+            id="mapping-template-name"
+            value={templateName}
+            onChange={e => setTemplateName(e.target.value)}
+            placeholder="مثال: ملف أسئلة الفيزياء"
+            disabled={busy}
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={saveTemplate} disabled={busy || !templateName.trim()}>
+          {isSavingTemplate ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <Save className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+          حفظ كقالب
+        </Button>
+        {selectedTemplate && canEditTemplate(selectedTemplate) && (
+          <Button type="button" variant="ghost" onClick={deleteTemplate} disabled={busy}>
+            <Trash2 className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> حذف القالب
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="max-h-[420px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-right">عمود الملف</TableHead>
+              <TableHead className="text-right">أمثلة من الملف</TableHead>
+              <TableHead className="w-64 text-right">الحقل</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {headers.map(header => (
+              <TableRow key={header}>
+                <TableCell className="font-medium">{header}</TableCell>
+                <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                  {sampleValues(rows, header).join(' · ') || '—'}
+                </TableCell>
+                <TableCell>
+                  <Select value={mapping[header] || IGNORE} onValueChange={value => setField(header, value === IGNORE ? '' : value)} disabled={busy}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>تجاهل</SelectItem>
+                      {IMPORT_TARGET_FIELDS.map(field => (
+                        <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      {missing.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>حقول مطلوبة غير مربوطة</AlertTitle>
+          <AlertDescription>اربط عمودًا بكل من: {missing.join('، ')}.</AlertDescription>
+        </Alert>
+      )}
+
+      {(['subject', 'lesson', 'tag'] as NameKind[]).map(kind => {
+        const ofKind = resolutions.filter(r => r.kind === kind);
+        if (ofKind.length === 0) return null;
+        return (
+          <div key={kind} className="space-y-2">
+            <h4 className="text-sm font-semibold">{NAME_KIND_TITLES[kind]} المذكورة في الملف</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">الاسم في الملف</TableHead>
+                  <TableHead className="w-20 text-right">الصفوف</TableHead>
+                  <TableHead className="w-64 text-right">يطابق</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ofKind.map(resolution => {
+                  const chosen = chosenNameId(resolution, overrides);
+                  const isGuess = chosen !== null && chosen === resolution.match?.id && resolution.match.score < 1;
+                  return (
+                    <TableRow key={resolutionId(resolution.kind, resolution.key)}>
+                      <TableCell>
+                        {resolution.value}
+                        {isGuess && (
+                          <Badge variant="outline" className="mr-2 text-xs rtl:ml-2 rtl:mr-0">
+                            تطابق تقريبي {Math.round(resolution.match!.score * 100)}%
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{resolution.rows}</TableCell>
+                      <TableCell>
+                        <Select value={chosen ?? NO_MATCH} onValueChange={value => setOverride(resolution, value)} disabled={busy}>
+                          <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_MATCH}>
+                              {kind === 'tag' && createMissingTags ? 'وسم جديد' : 'بدون مطابقة'}
+                            </SelectItem>
+                            {candidatesFor(resolution).map(candidate => (
+                              <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {kind === 'subject' && ofKind.some(r => !chosenNameId(r, overrides)) && (
+              <p className="text-xs text-destructive">الصفوف التي لا تطابق مادتها أي مادة ستظهر كأخطاء في المعاينة.</p>
+            )}
+            {kind === 'tag' && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="create-missing-tags"
+                  checked={createMissingTags}
+                  onCheckedChange={checked => setCreateMissingTags(checked === true)}
+                  disabled={busy}
+                />
+                <Label htmlFor="create-missing-tags" className="text-sm font-normal">
+                  إنشاء الوسوم غير الموجودة ({unresolvedTags.length})
+                </Label>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" onClick={handleContinue} disabled={busy || missing.length > 0}>
+          {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <ArrowLeft className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+          متابعة إلى المعاينة
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={busy}>
+          إلغاء
+        </Button>
+      </div>
+    </div>
+  );
+}
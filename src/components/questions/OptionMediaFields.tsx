@@ -0,0 +1,100 @@
+// src/components/questions/OptionMediaFields.tsx
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { uploadFile } from '@/lib/storage';
+import { useToast } from '@/hooks/use-toast';
+import type { SessionUploads } from '@/hooks/use-session-uploads';
+import { Image as ImageIcon, Music, Loader2, X } from 'lucide-react';
+
+type MediaKind = 'imageUrl' | 'audioUrl';
+
+const ACCEPT: Record<MediaKind, string> = {
+  imageUrl: 'image/png, image/jpeg, image/gif, image/webp',
+  audioUrl: 'audio/mpeg, audio/mp4, audio/ogg, audio/wav, audio/webm',
+};
+
+interface OptionMediaFieldsProps {
+  /** Position of the option in the form's `options` array. */
+  index: number;
+  uploads: SessionUploads;
+  disabled?: boolean;
+}
+
+/** Image and audio attachments of one MCQ option, with their previews. Must be rendered inside <Form>. */
+export default function OptionMediaFields({ index, uploads, disabled }: OptionMediaFieldsProps) {
+  const { control, setValue } = useFormContext();
+  const { toast } = useToast();
+  const [uploading, setUploading] = useState<MediaKind | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const imageUrl: string | null | undefined = useWatch({ control, name: `options.${index}.imageUrl` });
+  const audioUrl: string | null | undefined = useWatch({ control, name: `options.${index}.audioUrl` });
+
+  const setMedia = (kind: MediaKind, url: string | null) => {
+    const previous = kind === 'imageUrl' ? imageUrl : audioUrl;
+    setValue(`options.${index}.${kind}`, url, { shouldValidate: true, shouldDirty: true });
+    void uploads.discard(previous);
+  };
+
+  const handleUpload = async (kind: MediaKind, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(kind);
+    try {
+      const publicUrl = await uploadFile(file, 'questionimages', 'question-options');
+      uploads.track(publicUrl);
+      setMedia(kind, publicUrl);
+    } catch (error) {
+      console.error("Error uploading option media:", error);
+      toast({ variant: "destructive", title: "خطأ في الرفع", description: "فشلت عملية رفع الملف. يرجى المحاولة مرة أخرى." });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const isBusy = disabled || uploading !== null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="ghost" size="sm" disabled={isBusy} onClick={() => imageInputRef.current?.click()}>
+          {uploading === 'imageUrl' ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <ImageIcon className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+          {imageUrl ? 'تغيير الصورة' : 'إرفاق صورة'}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" disabled={isBusy} onClick={() => audioInputRef.current?.click()}>
+          {uploading === 'audioUrl' ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <Music className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+          {audioUrl ? 'تغيير الصوت' : 'إرفاق صوت'}
+        </Button>
+        <input ref={imageInputRef} type="file" className="hidden" accept={ACCEPT.imageUrl} onChange={e => handleUpload('imageUrl', e)} disabled={isBusy} />
+        <input ref={audioInputRef} type="file" className="hidden" accept={ACCEPT.audioUrl} onChange={e => handleUpload('audioUrl', e)} disabled={isBusy} />
+      </div>
+
+      {(imageUrl || audioUrl) && (
+        <div className="flex flex-wrap items-center gap-3">
+          {imageUrl && (
+            <div className="relative">
+              <img src={imageUrl} alt={`صورة الخيار ${index + 1}`} className="h-20 w-auto rounded-md border object-contain" />
+              <Button type="button" variant="destructive" size="icon" className="absolute -top-2 -right-2 h-6 w-6" onClick={() => setMedia('imageUrl', null)} disabled={isBusy}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          {audioUrl && (
+            <div className="flex items-center gap-1">
+              <audio controls src={audioUrl} className="h-10" />
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMedia('audioUrl', null)} disabled={isBusy}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
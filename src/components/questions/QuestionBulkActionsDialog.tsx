@@ -0,0 +1,384 @@
+// src/components/questions/QuestionBulkActionsDialog.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import MathText from '@/components/MathText';
+import {
+  addQuestionsToExam,
+  deleteQuestion,
+  getExams,
+  getLessonsInSection,
+  getSubjectSections,
+  queueSanityChecks,
+  updateQuestion,
+} from '@/lib/supabaseData';
+import type { Exam, Lesson, Question, Subject, Tag } from '@/types';
+import { DIFFICULTY_LABELS } from './questionLabels';
+import {
+  BULK_ACTION_LABELS,
+  runBulkOperation,
+  withTags,
+  withoutTags,
+  type BulkQuestionAction,
+  type BulkReport,
+} from './bulkQuestionActions';
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+
+const NO_LESSON = 'none';
+
+interface QuestionBulkActionsDialogProps {
+  /** The action to configure and run; null keeps the dialog closed. */
+  action: BulkQuestionAction | null;
+  questions: Question[];
+  subjects: Subject[];
+  tags: Tag[];
+  onClose: () => void;
+  /** Called once the action ran, with what happened to each question. */
+  onFinished: (action: BulkQuestionAction, report: BulkReport) => void;
+}
+
+/**
+ * Asks for what the bulk action needs (target subject, tags, exam, ...), shows what is about to
+ * change, then runs it question by question with a progress bar and a report of the failures.
+ */
+export default function QuestionBulkActionsDialog({ action, questions, subjects, tags, onClose, onFinished }: QuestionBulkActionsDialogProps) {
+  const [subjectId, setSubjectId] = useState('');
+  const [lessonId, setLessonId] = useState(NO_LESSON);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [isLoadingLessons, setIsLoadingLessons] = useState(false);
+  const [difficulty, setDifficulty] = useState<NonNullable<Question['difficulty']>>('medium');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [examId, setExamId] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<BulkReport | null>(null);
+
+  // Every opening starts from a clean form.
+  useEffect(() => {
+    if (!action) return;
+    setSubjectId('');
+    setLessonId(NO_LESSON);
+    setTagIds([]);
+    setExamId('');
+    setProgress(0);
+    setReport(null);
+    if (action === 'add_to_exam') {
+      getExams()
+        .then(setExams)
+        .catch(error => console.error("Error fetching exams for bulk action:", error));
+    }
+  }, [action]);
+
+  useEffect(() => {
+    setLessonId(NO_LESSON);
+    setLessons([]);
+    if (!subjectId) return;
+    let cancelled = false;
+    const fetchLessons = async () => {
+      setIsLoadingLessons(true);
+      try {
+        const sections = await getSubjectSections(subjectId);
+        const sectionLessons = await Promise.all(sections.map(section => getLessonsInSection(subjectId, section.id!)));
+        if (!cancelled) setLessons(sectionLessons.flat());
+      } catch (error) {
+        console.error("Error fetching lessons for bulk action:", error);
+      } finally {
+        if (!cancelled) setIsLoadingLessons(false);
+      }
+    };
+    fetchLessons();
+    return () => { cancelled = true; };
+  }, [subjectId]);
+
+  const subjectCount = useMemo(() => new Set(questions.map(q => q.subjectId || '')).size, [questions]);
+  const subjectName = subjects.find(subject => subject.id === subjectId)?.name;
+  const lessonTitle = lessons.find(lesson => lesson.id === lessonId)?.title;
+  const tagNames = tags.filter(tag => tagIds.includes(tag.id!)).map(tag => tag.name);
+  const examTitle = exams.find(exam => exam.id === examId)?.title;
+
+  const isConfigured = (() => {
+    switch (action) {
+      case 'move': return !!subjectId;
+      case 'add_tags':
+      case 'remove_tags': return tagIds.length > 0;
+      case 'add_to_exam': return !!examId;
+      default: return !!action;
+    }
+  })();
+
+  const summary = (() => {
+    const count = `${questions.length} سؤال${subjectCount > 1 ? ` من ${subjectCount} مواد` : ''}`;
+    switch (action) {
+      case 'move':
+        return `سيُنقل ${count} إلى المادة «${subjectName ?? '…'}»${lessonTitle ? ` والدرس «${lessonTitle}»` : ' دون ربط بدرس'}.`;
+      case 'difficulty':
+        return `ستصبح صعوبة ${count} «${DIFFICULTY_LABELS[difficulty]}».`;
+      case 'add_tags':
+        return `ستُضاف التصنيفات (${tagNames.join('، ') || '…'}) إلى ${count}.`;
+      case 'remove_tags':
+        return `ستُزال التصنيفات (${tagNames.join('، ') || '…'}) من ${count}.`;
+      case 'lock':
+        return `سيُقفل ${count}.`;
+      case 'unlock':
+        return `سيُفتح ${count} للجميع.`;
+      case 'sanity_check':
+        return `سيُضاف ${count} إلى قائمة الفحص بالذكاء الاصطناعي على الخادم، وتظهر النتائج للمراجعة في صفحة مراجعة فحص الصحة.`;
+      case 'add_to_exam':
+        return `سيُضاف ${count} إلى آخر الامتحان «${examTitle ?? '…'}»، وتُتخطى الأسئلة الموجودة فيه مسبقًا.`;
+      case 'delete':
+        return `سيُنقل ${count} إلى سلة المحذوفات، ويمكن استعادتها من هناك.`;
+      default:
+        return '';
+    }
+  })();
+
+  const runAction = async (currentAction: BulkQuestionAction): Promise<BulkReport> => {
+    switch (currentAction) {
+      case 'move':
+        return runBulkOperation(questions, async question => {
+          const targetLessonId = lessonId === NO_LESSON ? null : lessonId;
+          if (question.subjectId === subjectId && (question.lessonId ?? null) === targetLessonId) return 'في المادة والدرس مسبقًا';
+          await updateQuestion(question.id!, { subjectId, lessonId: targetLessonId });
+        }, setProgress);
+      case 'difficulty':
+        return runBulkOperation(questions, async question => {
+          if (question.difficulty === difficulty) return 'بالصعوبة نفسها مسبقًا';
+          await updateQuestion(question.id!, { difficulty });
+        }, setProgress);
+      case 'add_tags':
+        return runBulkOperation(questions, async question => {
+          const next = withTags(question, tagIds);
+          if (!next) return 'يحمل التصنيفات مسبقًا';
+          await updateQuestion(question.id!, { tagIds: next });
+        }, setProgress);
+      case 'remove_tags':
+        return runBulkOperation(questions, async question => {
+          const next = withoutTags(question, tagIds);
+          if (!next) return 'لا يحمل أيًّا من التصنيفات';
+          await updateQuestion(question.id!, { tagIds: next });
+        }, setProgress);
+      case 'lock':
+      case 'unlock': {
+        const isLocked = currentAction === 'lock';
+        return runBulkOperation(questions, async question => {
+          if ((question.isLocked ?? true) === isLocked) return isLocked ? 'مقفل مسبقًا' : 'مفتوح مسبقًا';
+          await updateQuestion(question.id!, { isLocked });
+        }, setProgress);
+      }
+      case 'sanity_check': {
+        // The worker checks them later; here they only join the queue, in one call.
+        const report: BulkReport = { succeeded: [], skipped: [], failed: [] };
+        try {
+          const queuedIds = await queueSanityChecks(questions.map(q => q.id!));
+          questions.forEach(question => {
+            if (queuedIds.includes(question.id!)) report.succeeded.push(question);
+            else report.skipped.push({ question, message: 'في قائمة الفحص أو بانتظار المراجعة مسبقًا' });
+          });
+        } catch (error: any) {
+          console.error("Error queueing sanity checks:", error);
+          questions.forEach(question => report.failed.push({ question, message: error?.message || 'خطأ غير معروف' }));
+        }
+        setProgress(questions.length);
+        return report;
+      }
+      case 'add_to_exam': {
+        // One save for the whole selection, so the exam is rewritten once and keeps the selection's order.
+        const report: BulkReport = { succeeded: [], skipped: [], failed: [] };
+        try {
+          const addedIds = await addQuestionsToExam(examId, questions.map(q => q.id!));
+          questions.forEach(question => {
+            if (addedIds.includes(question.id!)) report.succeeded.push(question);
+            else report.skipped.push({ question, message: 'موجود في الامتحان مسبقًا' });
+          });
+        } catch (error: any) {
+          console.error("Error adding questions to exam:", error);
+          questions.forEach(question => report.failed.push({ question, message: error?.message || 'خطأ غير معروف' }));
+        }
+        setProgress(questions.length);
+        return report;
+      }
+      case 'delete':
+        return runBulkOperation(questions, async question => {
+          await deleteQuestion(question.id!);
+        }, setProgress);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      const result = await runAction(action);
+      setReport(result);
+      onFinished(action, result);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleTag = (tagId: string, checked: boolean) => {
+    setTagIds(prev => (checked ? [...prev, tagId] : prev.filter(id => id !== tagId)));
+  };
+
+  const tagsToOffer = action === 'remove_tags'
+    ? tags.filter(tag => questions.some(q => q.tagIds?.includes(tag.id!)))
+    : tags;
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => { if (!open && !isRunning) onClose(); }}>
+      <DialogContent className="sm:max-w-lg" dir="rtl">
+        <DialogHeader className="text-right">
+          <DialogTitle>{action ? BULK_ACTION_LABELS[action] : ''}</DialogTitle>
+          <DialogDescription>{report ? 'انتهى التنفيذ.' : summary}</DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-green-600 hover:bg-green-600"><CheckCircle2 className="ml-1 h-3.5 w-3.5" /> نجح {report.succeeded.length}</Badge>
+              {report.skipped.length > 0 && <Badge variant="secondary">تُخطي {report.skipped.length}</Badge>}
+              {report.failed.length > 0 && <Badge variant="destructive"><AlertTriangle className="ml-1 h-3.5 w-3.5" /> فشل {report.failed.length}</Badge>}
+            </div>
+            {report.failed.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>أسئلة لم تُعدّل</AlertTitle>
+                <AlertDescription>
+                  <ScrollArea className="max-h-48">
+                    <ul className="space-y-1">
+                      {report.failed.map(({ question, message }) => (
+                        <li key={question.id}>
+                          <MathText text={question.questionText} inline className="line-clamp-1" />
+                          <span className="block text-xs">{message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        ) : isRunning ? (
+          <div className="space-y-2 py-2">
+            <Progress value={(progress / Math.max(questions.length, 1)) * 100} />
+            <p className="text-sm text-muted-foreground">{progress} من {questions.length}</p>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {action === 'move' && (
+              <>
+                <div className="space-y-1">
+                  <Label>المادة</Label>
+                  <Select value={subjectId} onValueChange={setSubjectId}>
+                    <SelectTrigger><SelectValue placeholder="اختر المادة" /></SelectTrigger>
+                    <SelectContent>
+                      {subjects.map(subject => (
+                        <SelectItem key={subject.id} value={subject.id!}>{subject.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>الدرس</Label>
+                  <Select value={lessonId} onValueChange={setLessonId} disabled={!subjectId || isLoadingLessons}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_LESSON}>بدون درس</SelectItem>
+                      {lessons.map(lesson => (
+                        <SelectItem key={lesson.id} value={lesson.id!}>{lesson.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {action === 'difficulty' && (
+              <div className="space-y-1">
+                <Label>الصعوبة</Label>
+                <Select value={difficulty} onValueChange={(value) => setDifficulty(value as typeof difficulty)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DIFFICULTY_LABELS) as Array<keyof typeof DIFFICULTY_LABELS>).map(level => (
+                      <SelectItem key={level} value={level}>{DIFFICULTY_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(action === 'add_tags' || action === 'remove_tags') && (
+              tagsToOffer.length === 0 ? (
+                <p className="text-sm text-muted-foreground">لا توجد تصنيفات على الأسئلة المحددة.</p>
+              ) : (
+                <ScrollArea className="h-48 rounded-md border p-3">
+                  <div className="space-y-2">
+                    {tagsToOffer.map(tag => (
+                      <div key={tag.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`bulk-tag-${tag.id}`}
+                          checked={tagIds.includes(tag.id!)}
+                          onCheckedChange={(checked) => toggleTag(tag.id!, checked === true)}
+                        />
+                        <Label htmlFor={`bulk-tag-${tag.id}`} className="font-normal">{tag.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )
+            )}
+
+            {action === 'add_to_exam' && (
+              <div className="space-y-1">
+                <Label>الامتحان</Label>
+                <Select value={examId} onValueChange={setExamId}>
+                  <SelectTrigger><SelectValue placeholder="اختر الامتحان" /></SelectTrigger>
+                  <SelectContent>
+                    {exams.map(exam => (
+                      <SelectItem key={exam.id} value={exam.id!}>{exam.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-row-reverse gap-2">
+          {report ? (
+            <Button onClick={onClose}>إغلاق</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={isRunning}>إلغاء</Button>
+              <Button
+                variant={action === 'delete' ? 'destructive' : 'default'}
+                onClick={handleRun}
+                disabled={!isConfigured || isRunning || questions.length === 0}
+              >
+                {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />}
+                تنفيذ على {questions.length} سؤال
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,423 @@
+// src/components/questions/QuestionGroupForm.tsx
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  addQuestionGroup, updateQuestionGroup, getSubjects, getQuestions, getQuestionGroups, getSubjectSections, getLessonsInSection,
+} from '@/lib/supabaseData';
+import { uploadFile } from '@/lib/storage';
+import type { Question, QuestionGroup, Subject } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { ArrowDown, ArrowUp, Image as ImageIcon, Loader2, Save, Search, Trash2, Upload } from 'lucide-react';
+import { QUESTION_TYPE_LABELS } from './questionLabels';
+import MathText, { MathPreview } from '@/components/MathText';
+import { matchesArabicSearch } from '@/lib/arabicText';
+
+const NO_LESSON = 'none';
+
+const questionGroupSchema = z.object({
+  title: z.string().trim().min(3, "عنوان المجموعة يجب أن يكون 3 أحرف على الأقل."),
+  stimulusText: z.string().optional(),
+  stimulusImageUrl: z.string().url({ message: "الرجاء إدخال رابط URL صحيح." }).optional().or(z.literal('')),
+  stimulusImageHint: z.string().max(50, "تلميح الصورة لا يمكن أن يتجاوز 50 حرفًا.").optional(),
+  subjectId: z.string({ required_error: "الرجاء اختيار المادة." }).min(1, "الرجاء اختيار المادة."),
+  lessonId: z.string().optional(),
+  questionIds: z.array(z.string()).min(1, "أضف سؤالًا واحدًا على الأقل إلى المجموعة."),
+}).refine(data => !!data.stimulusText?.trim() || !!data.stimulusImageUrl, {
+  message: "أدخل نص المقطع أو صورة له.",
+  path: ['stimulusText'],
+});
+
+type QuestionGroupFormValues = z.infer<typeof questionGroupSchema>;
+
+interface LessonOption {
+  id: string;
+  label: string;
+}
+
+interface QuestionGroupFormProps {
+  /** The stored group when editing; omitted on the new page. */
+  group?: QuestionGroup;
+}
+
+/** Create/edit form for a question group: the stimulus, its subject and lesson, and the ordered member questions. */
+export default function QuestionGroupForm({ group }: QuestionGroupFormProps) {
+  const [availableSubjects, setAvailableSubjects] = useState<Subject[]>([]);
+  const [subjectQuestions, setSubjectQuestions] = useState<Question[]>([]);
+  const [otherGroupTitles, setOtherGroupTitles] = useState<Record<string, string>>({});
+  const [lessonOptions, setLessonOptions] = useState<LessonOption[]>([]);
+  const [isFetchingSubjects, setIsFetchingSubjects] = useState(true);
+  const [isFetchingSubjectData, setIsFetchingSubjectData] = useState(false);
+  const [questionSearch, setQuestionSearch] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+  const { user, userProfile } = useAuth();
+
+  const form = useForm<QuestionGroupFormValues>({
+    resolver: zodResolver(questionGroupSchema),
+    defaultValues: {
+      title: group?.title || '',
+      stimulusText: group?.stimulusText || '',
+      stimulusImageUrl: group?.stimulusImageUrl || '',
+      stimulusImageHint: group?.stimulusImageHint || '',
+      subjectId: group?.subjectId || '',
+      lessonId: group?.lessonId || NO_LESSON,
+      questionIds: group?.questionIds || [],
+    },
+  });
+
+  const watchedSubjectId = form.watch('subjectId');
+  const selectedQuestionIds = form.watch('questionIds');
+
+  useEffect(() => {
+    if (!user || !userProfile) return;
+    const fetchSubjects = async () => {
+      setIsFetchingSubjects(true);
+      try {
+        setAvailableSubjects(await getSubjects(user.id, userProfile.role));
+      } catch (error) {
+        console.error("Error fetching subjects:", error);
+        toast({ variant: "destructive", title: "خطأ في جلب المواد" });
+      } finally {
+        setIsFetchingSubjects(false);
+      }
+    };
+    fetchSubjects();
+  }, [user, userProfile, toast]);
+
+  // Questions and lessons of the chosen subject; members must belong to the group's subject.
+  useEffect(() => {
+    if (!user || !userProfile || !watchedSubjectId) {
+      setSubjectQuestions([]);
+      setLessonOptions([]);
+      return;
+    }
+    const fetchSubjectData = async () => {
+      setIsFetchingSubjectData(true);
+      try {
+        const [questions, groups, sections] = await Promise.all([
+          getQuestions(user.id, userProfile.role),
+          getQuestionGroups(user.id, userProfile.role),
+          getSubjectSections(watchedSubjectId),
+        ]);
+        const lessonsBySection = await Promise.all(
+          sections.map(section => getLessonsInSection(watchedSubjectId, section.id!))
+        );
+        setSubjectQuestions(questions.filter(q => q.subjectId === watchedSubjectId));
+        setOtherGroupTitles(Object.fromEntries(
+          groups.filter(g => g.id !== group?.id).map(g => [g.id!, g.title])
+        ));
+        setLessonOptions(sections.flatMap((section, index) =>
+          lessonsBySection[index].map(lesson => ({ id: lesson.id!, label: `${section.title} — ${lesson.title}` }))
+        ));
+      } catch (error) {
+        console.error("Error fetching subject data for question group:", error);
+        toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب أسئلة ودروس المادة." });
+      } finally {
+        setIsFetchingSubjectData(false);
+      }
+    };
+    fetchSubjectData();
+  }, [watchedSubjectId, user, userProfile, group?.id, toast]);
+
+  const questionsById = useMemo(
+    () => new Map(subjectQuestions.map(q => [q.id!, q])),
+    [subjectQuestions]
+  );
+
+  const candidateQuestions = useMemo(() => {
+    return subjectQuestions.filter(q =>
+      !selectedQuestionIds.includes(q.id!) && matchesArabicSearch(q.questionText, questionSearch)
+    );
+  }, [subjectQuestions, selectedQuestionIds, questionSearch]);
+
+  const setMembers = (ids: string[]) =>
+    form.setValue('questionIds', ids, { shouldValidate: true, shouldDirty: true });
+
+  const moveMember = (index: number, offset: number) => {
+    const ids = [...selectedQuestionIds];
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    setMembers(ids);
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const publicUrl = await uploadFile(file, 'questionimages', 'question-groups');
+      form.setValue('stimulusImageUrl', publicUrl, { shouldValidate: true, shouldDirty: true });
+      toast({ title: "نجاح", description: "تم رفع صورة المقطع بنجاح." });
+    } catch (error) {
+      console.error("Error uploading question group image:", error);
+      toast({ variant: "destructive", title: "خطأ في الرفع", description: "فشلت عملية رفع الصورة. يرجى المحاولة مرة أخرى." });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const onSubmit = async (data: QuestionGroupFormValues) => {
+    setIsSaving(true);
+    const payload = {
+      title: data.title,
+      stimulusText: data.stimulusText || null,
+      stimulusImageUrl: data.stimulusImageUrl || null,
+      stimulusImageHint: data.stimulusImageHint || null,
+      subjectId: data.subjectId,
+      lessonId: data.lessonId && data.lessonId !== NO_LESSON ? data.lessonId : null,
+      questionIds: data.questionIds,
+    };
+    try {
+      if (group?.id) {
+        await updateQuestionGroup(group.id, payload);
+      } else {
+        await addQuestionGroup(payload);
+      }
+      toast({ title: "نجاح", description: `تم حفظ المجموعة "${data.title}".` });
+      router.push('/dashboard/questions/groups');
+    } catch (error) {
+      console.error("Error saving question group:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في حفظ المجموعة. تأكد أن جميع الأسئلة من نفس المادة." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = isSaving || isUploading;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>عنوان المجموعة</FormLabel>
+              <FormControl><Input placeholder="مثال: نص القراءة الأول" {...field} disabled={disabled} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="subjectId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>المادة</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  form.setValue('lessonId', NO_LESSON);
+                  setMembers([]);
+                }}
+                value={field.value || undefined}
+                disabled={disabled || isFetchingSubjects}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={isFetchingSubjects ? "جاري تحميل المواد..." : "اختر المادة"} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {availableSubjects.map(subject => (
+                    <SelectItem key={subject.id} value={subject.id!}>{subject.name} ({subject.branch})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>يجب أن تكون كل أسئلة المجموعة من هذه المادة.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="lessonId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>الدرس (اختياري)</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value || NO_LESSON} disabled={disabled || !watchedSubjectId || isFetchingSubjectData}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="بدون درس" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_LESSON}>بدون درس</SelectItem>
+                  {lessonOptions.map(lesson => (
+                    <SelectItem key={lesson.id} value={lesson.id}>{lesson.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>تُربط كل أسئلة المجموعة بهذا الدرس معًا.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stimulusText"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>نص المقطع</FormLabel>
+              <FormControl>
+                <Textarea placeholder="النص أو المعطيات التي تعتمد عليها أسئلة المجموعة..." className="min-h-[160px]" {...field} value={field.value ?? ''} disabled={disabled} />
+              </FormControl>
+              <MathPreview text={field.value} />
+              <FormDescription>يُعرض للطالب قبل أسئلة المجموعة.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <FormField
+            control={form.control}
+            name="stimulusImageUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center">
+                  <ImageIcon className="h-4 w-4 mr-2 rtl:ml-2 rtl:mr-0" />
+                  صورة المقطع (اختياري)
+                </FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://example.com/passage.png" {...field} value={field.value ?? ''} disabled={disabled} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="outline" disabled={disabled} onClick={() => document.getElementById('question-group-image-upload')?.click()}>
+            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <Upload className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+            {isUploading ? 'جاري الرفع...' : 'رفع صورة'}
+          </Button>
+          <input
+            type="file"
+            id="question-group-image-upload"
+            className="hidden"
+            accept="image/png, image/jpeg, image/gif, image/webp"
+            onChange={handleImageUpload}
+            disabled={disabled}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="stimulusImageHint"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>تلميح الصورة (اختياري)</FormLabel>
+              <FormControl><Input placeholder="مثال: 'جدول بيانات'" {...field} value={field.value ?? ''} disabled={disabled} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="questionIds"
+          render={() => (
+            <FormItem>
+              <FormLabel className="text-base">أسئلة المجموعة</FormLabel>
+              <FormDescription>تظهر الأسئلة للطالب بهذا الترتيب بعد المقطع. السؤال الموجود في مجموعة أخرى يُنقل إلى هذه المجموعة.</FormDescription>
+
+              {selectedQuestionIds.length === 0 ? (
+                <p className="text-sm text-muted-foreground border rounded-md p-4">لم تتم إضافة أسئلة بعد.</p>
+              ) : (
+                <ol className="space-y-2 border rounded-md p-3">
+                  {selectedQuestionIds.map((questionId, index) => {
+                    const question = questionsById.get(questionId);
+                    return (
+                      <li key={questionId} className="flex items-center gap-2">
+                        <span className="w-6 text-center text-sm text-muted-foreground">{index + 1}</span>
+                        <span className="flex-1 text-sm truncate" title={question?.questionText}>
+                          {question ? <MathText text={question.questionText} inline className="whitespace-nowrap" /> : (isFetchingSubjectData ? '...' : 'سؤال غير متاح')}
+                        </span>
+                        {question && <Badge variant="outline">{QUESTION_TYPE_LABELS[question.questionType]}</Badge>}
+                        <Button type="button" variant="ghost" size="icon" onClick={() => moveMember(index, -1)} disabled={disabled || index === 0} aria-label="تحريك للأعلى">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => moveMember(index, 1)} disabled={disabled || index === selectedQuestionIds.length - 1} aria-label="تحريك للأسفل">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => setMembers(selectedQuestionIds.filter(id => id !== questionId))} disabled={disabled} aria-label="إزالة من المجموعة">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              <FormMessage />
+
+              <div className="relative mt-4">
+                <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground rtl:right-2 rtl:left-auto" />
+                <Input
+                  placeholder="ابحث في أسئلة المادة..."
+                  value={questionSearch}
+                  onChange={(e) => setQuestionSearch(e.target.value)}
+                  className="pl-8 rtl:pr-8 rtl:pl-3"
+                  disabled={!watchedSubjectId}
+                />
+              </div>
+              <ScrollArea className="h-64 w-full rounded-md border p-3 mt-2">
+                {!watchedSubjectId ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">اختر المادة أولاً.</p>
+                ) : isFetchingSubjectData ? (
+                  <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+                ) : candidateQuestions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">لا توجد أسئلة أخرى في هذه المادة.</p>
+                ) : (
+                  candidateQuestions.map(question => (
+                    <label key={question.id} className="flex items-start gap-3 mb-2 p-2 rounded-md hover:bg-muted/50 cursor-pointer">
+                      <Checkbox
+                        checked={false}
+                        onCheckedChange={() => setMembers([...selectedQuestionIds, question.id!])}
+                        disabled={disabled}
+                      />
+                      <span className="flex-1 text-sm">
+                        <MathText text={question.questionText} highlight={questionSearch} />
+                        {question.groupId && otherGroupTitles[question.groupId] && (
+                          <span className="block text-xs text-muted-foreground">في المجموعة: {otherGroupTitles[question.groupId]}</span>
+                        )}
+                      </span>
+                    </label>
+                  ))
+                )}
+              </ScrollArea>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => router.back()} disabled={isSaving}>إلغاء</Button>
+          <Button type="submit" disabled={disabled}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" /> : <Save className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" />}
+            حفظ المجموعة
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
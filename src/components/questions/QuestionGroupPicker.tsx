@@ -0,0 +1,52 @@
+// src/components/questions/QuestionGroupPicker.tsx
+"use client";
+
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import type { QuestionGroup } from '@/types';
+import { Layers } from 'lucide-react';
+
+interface QuestionGroupPickerProps {
+  groups: QuestionGroup[];
+  selectedQuestionIds: string[];
+  onChange: (questionIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Adds or removes every question of a group at once in the exam forms. save_exam keeps the members
+ * together and in group order, so their position in the selection does not matter.
+ */
+export default function QuestionGroupPicker({ groups, selectedQuestionIds, onChange, disabled }: QuestionGroupPickerProps) {
+  const nonEmptyGroups = groups.filter(group => (group.questionIds?.length ?? 0) > 0);
+  if (nonEmptyGroups.length === 0) return null;
+
+  const toggleGroup = (group: QuestionGroup, checked: boolean) => {
+    const memberIds = group.questionIds || [];
+    onChange(checked
+      ? [...selectedQuestionIds, ...memberIds.filter(id => !selectedQuestionIds.includes(id))]
+      : selectedQuestionIds.filter(id => !memberIds.includes(id)));
+  };
+
+  return (
+    <div className="mb-3 space-y-2 rounded-md border p-3">
+      <p className="flex items-center text-sm font-medium">
+        <Layers className="h-4 w-4 mr-2 rtl:ml-2 rtl:mr-0 text-muted-foreground" />
+        مجموعات الأسئلة
+      </p>
+      {nonEmptyGroups.map(group => {
+        const memberIds = group.questionIds || [];
+        const selectedCount = memberIds.filter(id => selectedQuestionIds.includes(id)).length;
+        const checked = selectedCount === 0 ? false : selectedCount === memberIds.length ? true : 'indeterminate';
+        return (
+          <label key={group.id} className="flex items-center gap-3 rounded-md p-2 hover:bg-muted/50 cursor-pointer">
+            <Checkbox checked={checked} onCheckedChange={value => toggleGroup(group, value === true)} disabled={disabled} />
+            <span className="flex-1 text-sm">{group.title}</span>
+            <Badge variant="secondary">{selectedCount}/{memberIds.length}</Badge>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
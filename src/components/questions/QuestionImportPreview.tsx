@@ -0,0 +1,309 @@
+// src/components/questions/QuestionImportPreview.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import MathText from '@/components/MathText';
+import { findSimilarQuestions, SIMILAR_QUESTION_THRESHOLD } from '@/lib/supabaseData';
+import { trigramSimilarity, trigrams } from '@/lib/arabicText';
+import {
+  downloadImportReport,
+  IMPORT_ROW_STATUS_LABELS,
+  validateQuestionImport,
+  validateQuestionImportRow,
+  type ImportRowStatus,
+  type ValidatedImportRow,
+} from '@/components/questions/questionImportValidation';
+import type { SimilarQuestion, Subject } from '@/types';
+import { Copy, Download, Edit3, Loader2, Upload } from 'lucide-react';
+
+interface DuplicateFlag {
+  bankMatch?: SimilarQuestion;
+  /** 0-based index of an earlier row of the same file that reads almost the same. */
+  fileMatchIndex?: number;
+  fileSimilarity?: number;
+}
+
+interface QuestionImportPreviewProps {
+  /** Normalized import rows (lowercase keys), as passed to importQuestionsBatch. */
+  items: Record<string, any>[];
+  /** Subjects the rows may name; used to resolve subject names and check subject ids. */
+  subjects: Subject[];
+  fileName: string | null;
+  onConfirm: (items: Record<string, any>[]) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+type StatusFilter = 'all' | ImportRowStatus;
+
+// Always offered in the row editor, even when the file has no such column.
+const REQUIRED_KEYS = ['questiontype', 'questiontext', 'difficulty', 'subjectid'];
+
+const STATUS_BADGE_VARIANTS: Record<ImportRowStatus, 'secondary' | 'outline' | 'destructive'> = {
+  valid: 'secondary',
+  warning: 'outline',
+  error: 'destructive',
+};
+
+const rowText = (item: Record<string, any>): string => String(item.questiontext ?? '');
+const rowSubjectId = (item: Record<string, any>): string | null => (item.subjectid ? String(item.subjectid) : null);
+
+// Earlier rows of the same subject are compared in the browser; the bank is compared by the database.
+const findFileDuplicates = (items: Record<string, any>[]): Map<number, { index: number; similarity: number }> => {
+  const grams = items.map(item => trigrams(rowText(item)));
+  const result = new Map<number, { index: number; similarity: number }>();
+  items.forEach((item, i) => {
+    for (let j = 0; j < i; j++) {
+      if (rowSubjectId(items[j]) !== rowSubjectId(item)) continue;
+      const similarity = trigramSimilarity(grams[i], grams[j]);
+      if (similarity >= SIMILAR_QUESTION_THRESHOLD && similarity > (result.get(i)?.similarity ?? 0)) {
+        result.set(i, { index: j, similarity });
+      }
+    }
+  });
+  return result;
+};
+
+/**
+ * Dry run of a question import. Every row is validated and listed with its status (valid, warning or
+ * error) and the reasons; rows can be fixed in place or left out, and the problems downloaded as an
+ * XLSX report. Rows that look like a question already in the bank, or like an earlier row of the file,
+ * are warnings and left out unless ticked. Nothing is written until the import is confirmed.
+ */
+export default function QuestionImportPreview({ items, subjects, fileName, onConfirm, onCancel, disabled }: QuestionImportPreviewProps) {
+  const [rows, setRows] = useState<ValidatedImportRow[]>(() => validateQuestionImport(items, subjects));
+  const [flags, setFlags] = useState<Map<number, DuplicateFlag> | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [editing, setEditing] = useState<{ index: number; draft: Record<string, string> } | null>(null);
+
+  useEffect(() => {
+    setRows(validateQuestionImport(items, subjects));
+    setEditing(null);
+  }, [items, subjects]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = async () => {
+      const resolvedItems = validateQuestionImport(items, subjects).map(row => row.item);
+      const result = new Map<number, DuplicateFlag>();
+      findFileDuplicates(resolvedItems).forEach((match, index) => {
+        result.set(index, { fileMatchIndex: match.index, fileSimilarity: match.similarity });
+      });
+      try {
+        const bankMatches = await findSimilarQuestions(resolvedItems.map(rowText), { subjectIds: resolvedItems.map(rowSubjectId) });
+        bankMatches.forEach(match => {
+          const flag = result.get(match.inputIndex) || {};
+          if (!flag.bankMatch || match.similarity > flag.bankMatch.similarity) flag.bankMatch = match;
+          result.set(match.inputIndex, flag);
+        });
+      } catch (error) {
+        console.error("Error checking the import for duplicates:", error);
+        if (!cancelled) setCheckError("تعذر مقارنة الأسئلة بالبنك؛ تظهر فقط التكرارات داخل الملف.");
+      }
+      if (cancelled) return;
+      setFlags(result);
+      setExcluded(new Set(result.keys()));
+    };
+    setFlags(null);
+    setCheckError(null);
+    check();
+    return () => { cancelled = true; };
+  }, [items, subjects]);
+
+  // A possible duplicate is a warning on top of whatever the row's own checks found.
+  const statusOf = (row: ValidatedImportRow): ImportRowStatus =>
+    row.status === 'valid' && flags?.has(row.index) ? 'warning' : row.status;
+
+  const counts: Record<ImportRowStatus, number> = { valid: 0, warning: 0, error: 0 };
+  rows.forEach(row => { counts[statusOf(row)]++; });
+
+  const importableRows = rows.filter(row => row.status !== 'error' && !excluded.has(row.index));
+  const visibleRows = statusFilter === 'all' ? rows : rows.filter(row => statusOf(row) === statusFilter);
+
+  const toggleExcluded = (index: number, exclude: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (exclude) next.add(index); else next.delete(index);
+      return next;
+    });
+  };
+
+  const startEditing = (row: ValidatedImportRow) => {
+    const keys = Array.from(new Set([...REQUIRED_KEYS, ...Object.keys(row.item)]));
+    setEditing({ index: row.index, draft: Object.fromEntries(keys.map(key => [key, row.item[key] == null ? '' : String(row.item[key])])) });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    const draft = Object.fromEntries(Object.entries(editing.draft).filter(([, value]) => value.trim() !== '').map(([key, value]) => [key, value.trim()]));
+    const revalidated = validateQuestionImportRow(draft, editing.index, subjects);
+    setRows(prev => prev.map(row => (row.index === editing.index ? revalidated : row)));
+    setEditing(null);
+  };
+
+  const reportRows = rows.map(row => {
+    const flag = flags?.get(row.index);
+    if (!flag) return row;
+    const similarTo = flag.bankMatch ? `سؤال في البنك (${flag.bankMatch.questionId})` : `الصف ${(flag.fileMatchIndex ?? 0) + 1}`;
+    return { ...row, status: statusOf(row), issues: [...row.issues, { level: 'warning' as const, message: `قد يكون مكررًا: يشبه ${similarTo}.` }] };
+  });
+
+  if (!flags) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> جارٍ فحص الصفوف والبحث عن أسئلة مكررة...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{rows.length} صف في الملف:</span>
+        <Badge variant="secondary">{IMPORT_ROW_STATUS_LABELS.valid} {counts.valid}</Badge>
+        <Badge variant="outline">{IMPORT_ROW_STATUS_LABELS.warning} {counts.warning}</Badge>
+        <Badge variant="destructive">{IMPORT_ROW_STATUS_LABELS.error} {counts.error}</Badge>
+        <div className="mr-auto w-40 rtl:ml-auto rtl:mr-0">
+          <Select value={statusFilter} onValueChange={value => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">كل الصفوف</SelectItem>
+              <SelectItem value="error">الأخطاء</SelectItem>
+              <SelectItem value="warning">التحذيرات</SelectItem>
+              <SelectItem value="valid">السليمة</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {checkError && (
+        <Alert variant="destructive">
+          <AlertTitle>تنبيه</AlertTitle>
+          <AlertDescription>{checkError}</AlertDescription>
+        </Alert>
+      )}
+
+      <ScrollArea className="h-96 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">استيراد</TableHead>
+              <TableHead className="w-16">الصف</TableHead>
+              <TableHead className="w-20">الحالة</TableHead>
+              <TableHead>السؤال</TableHead>
+              <TableHead>الملاحظات</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map(row => {
+              const flag = flags.get(row.index);
+              const status = statusOf(row);
+              return (
+                <React.Fragment key={row.index}>
+                  <TableRow>
+                    <TableCell>
+                      <Checkbox
+                        checked={row.status !== 'error' && !excluded.has(row.index)}
+                        onCheckedChange={value => toggleExcluded(row.index, value !== true)}
+                        disabled={disabled || row.status === 'error'}
+                        aria-label="استيراد هذا الصف"
+                      />
+                    </TableCell>
+                    <TableCell>{row.index + 1}</TableCell>
+                    <TableCell><Badge variant={STATUS_BADGE_VARIANTS[status]}>{IMPORT_ROW_STATUS_LABELS[status]}</Badge></TableCell>
+                    <TableCell className="max-w-xs">
+                      <MathText text={rowText(row.item) || '—'} inline className="line-clamp-2" />
+                    </TableCell>
+                    <TableCell className="text-xs space-y-1">
+                      {row.issues.map((issue, i) => (
+                        <p key={i} className={issue.level === 'error' ? 'text-destructive' : 'text-muted-foreground'}>{issue.message}</p>
+                      ))}
+                      {flag?.bankMatch && (
+                        <p className="flex items-center gap-1 text-muted-foreground">
+                          <Copy className="h-3.5 w-3.5 shrink-0" />
+                          يشبه سؤالًا في البنك ({Math.round(flag.bankMatch.similarity * 100)}%):
+                          <Link href={`/dashboard/questions/edit/${flag.bankMatch.questionId}`} target="_blank" className="hover:underline line-clamp-1">
+                            <MathText text={flag.bankMatch.questionText} inline />
+                          </Link>
+                        </p>
+                      )}
+                      {flag?.fileMatchIndex !== undefined && (
+                        <p className="flex items-center gap-1 text-muted-foreground">
+                          <Copy className="h-3.5 w-3.5 shrink-0" />
+                          يشبه الصف {flag.fileMatchIndex + 1} من الملف نفسه ({Math.round((flag.fileSimilarity ?? 0) * 100)}%)
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(row)} disabled={disabled} aria-label="تعديل الصف">
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {editing?.index === row.index && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-muted/30">
+                        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                          {Object.entries(editing.draft).map(([key, value]) => (
+                            <div key={key} className="space-y-1">
+                              <Label className="text-xs" dir="ltr">{key}</Label>
+                              <Input
+                                value={value}
+                                onChange={e => setEditing(prev => prev && { ...prev, draft: { ...prev.draft, [key]: e.target.value } })}
+                                className="h-8"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <div className="mt-3 flex gap-2">
+                          <Button size="sm" onClick={saveEditing}>حفظ وإعادة الفحص</Button>
+                          <Button size="sm" variant="outline" onClick={() => setEditing(null)}>إلغاء</Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+      <p className="text-xs text-muted-foreground">
+        الصفوف التي بها أخطاء لا تُستورد حتى تُصحح. الصفوف التي قد تكون مكررة غير محددة؛ حددها لاستيرادها رغم التشابه.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => onConfirm(importableRows.map(row => row.item))} disabled={disabled || importableRows.length === 0 || !!editing}>
+          {disabled ? <Loader2 className="ml-2 h-4 w-4 animate-spin rtl:mr-2 rtl:ml-0" /> : <Upload className="ml-2 h-4 w-4 rtl:mr-2 rtl:ml-0" />}
+          استيراد {importableRows.length} سؤال
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => downloadImportReport(reportRows, fileName || 'questions')}
+          disabled={counts.warning + counts.error === 0}
+        >
+          <Download className="ml-2 h-4 w-4 rtl:mr-2 rtl:ml-0" /> تنزيل تقرير الأخطاء (XLSX)
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={disabled}>إلغاء</Button>
+      </div>
+    </div>
+  );
+}
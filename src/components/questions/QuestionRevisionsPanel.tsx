@@ -0,0 +1,287 @@
+// src/components/questions/QuestionRevisionsPanel.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { arSA } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getQuestionRevisions, restoreQuestionRevision } from '@/lib/supabaseData';
+import type { QuestionRevision, Tag } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import MathText from '@/components/MathText';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from './questionLabels';
+
+const correctAnswerText = (revision: QuestionRevision): string => {
+  switch (revision.questionType) {
+    case 'mcq':
+    case 'true_false':
+      return revision.options?.find(opt => opt.id === revision.correctOptionId)?.text || revision.correctOptionId || '—';
+    case 'fill_in_the_blanks':
+      return (revision.correctAnswers || []).join('، ') || '—';
+    case 'multi_select':
+      return (revision.options || [])
+        .filter(opt => revision.correctOptionIds?.includes(opt.id))
+        .map(opt => opt.text)
+        .join('، ') || '—';
+    case 'matching':
+      return (revision.pairs || []).map(pair => `${pair.prompt} ← ${pair.match}`).join('، ') || '—';
+    case 'ordering':
+      return (revision.options || []).map(opt => opt.text).join(' ← ') || '—';
+    case 'numeric':
+      if (revision.numericAnswer === null) return '—';
+      return `${revision.numericAnswer}${revision.unit ? ` ${revision.unit}` : ''} ± ${revision.tolerance ?? 0}`;
+    default:
+      return revision.modelAnswer || '—';
+  }
+};
+
+// Options marked correct in the side-by-side view (single- and multi-answer choice questions).
+const isCorrectOption = (revision: QuestionRevision, optionId: string): boolean =>
+  revision.correctOptionId === optionId || !!revision.correctOptionIds?.includes(optionId);
+
+interface DiffRow {
+  label: string;
+  render: (revision: QuestionRevision) => React.ReactNode;
+  // Plain value used to decide whether the row changed between the two revisions.
+  compareValue: (revision: QuestionRevision) => string;
+}
+
+interface QuestionRevisionsPanelProps {
+  questionId: string;
+  availableTags: Tag[];
+  /** Reloads the current question after a revision has been restored. */
+  onRestored: () => void;
+}
+
+/** Revision list for the question edit page, with a side-by-side diff against the current revision. */
+export default function QuestionRevisionsPanel({ questionId, availableTags, onRestored }: QuestionRevisionsPanelProps) {
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const { toast } = useToast();
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const fetched = await getQuestionRevisions(questionId);
+      setRevisions(fetched);
+      // Preselect the revision before the current one, the usual thing to compare against.
+      setSelectedRevision(fetched[1]?.revision ?? null);
+    } catch (error) {
+      console.error("Error fetching question revisions:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في جلب نسخ السؤال." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [questionId, toast]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const tagNames = (tagIds: string[]) =>
+    tagIds.map(id => availableTags.find(tag => tag.id === id)?.name || id);
+
+  const diffRows: DiffRow[] = [
+    {
+      label: 'نوع السؤال',
+      render: r => QUESTION_TYPE_LABELS[r.questionType] || r.questionType,
+      compareValue: r => r.questionType,
+    },
+    {
+      label: 'نص السؤال',
+      render: r => <p><MathText text={r.questionText} /></p>,
+      compareValue: r => r.questionText,
+    },
+    {
+      label: 'الخيارات',
+      render: r => r.options && r.options.length > 0 ? (
+        <ul className="space-y-1">
+          {r.options.map(opt => (
+            <li key={opt.id} className={cn(isCorrectOption(r, opt.id) && 'font-semibold text-green-700')}>
+              <MathText text={opt.text} />
+              {opt.imageUrl && <a href={opt.imageUrl} target="_blank" rel="noopener noreferrer" className="mx-1 text-xs text-primary underline">(صورة)</a>}
+              {opt.audioUrl && <a href={opt.audioUrl} target="_blank" rel="noopener noreferrer" className="mx-1 text-xs text-primary underline">(صوت)</a>}
+              {isCorrectOption(r, opt.id) && ' ✓'}
+            </li>
+          ))}
+        </ul>
+      ) : '—',
+      compareValue: r => JSON.stringify(r.options || []),
+    },
+    {
+      label: 'الإجابة الصحيحة',
+      render: r => correctAnswerText(r),
+      compareValue: r => JSON.stringify([
+        r.correctOptionId, r.correctAnswers, r.modelAnswer, r.correctOptionIds, r.pairs, r.numericAnswer, r.unit, r.tolerance,
+      ]),
+    },
+    {
+      label: 'التصنيفات',
+      render: r => r.tagIds.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {tagNames(r.tagIds).map(name => <Badge key={name} variant="secondary">{name}</Badge>)}
+        </div>
+      ) : '—',
+      compareValue: r => [...r.tagIds].sort().join(','),
+    },
+    {
+      label: 'الصعوبة',
+      render: r => (r.difficulty && DIFFICULTY_LABELS[r.difficulty]) || '—',
+      compareValue: r => r.difficulty || '',
+    },
+    {
+      label: 'الصورة',
+      render: r => r.imageUrl
+        ? <a href={r.imageUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all" dir="ltr">{r.imageUrl}</a>
+        : '—',
+      compareValue: r => `${r.imageUrl || ''}|${r.imageHint || ''}`,
+    },
+  ];
+
+  const current = revisions[0];
+  const selected = revisions.find(r => r.revision === selectedRevision);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const newRevision = await restoreQuestionRevision(questionId, selected.revision);
+      toast({ title: "نجاح", description: `تمت استعادة النسخة ${selected.revision} كنسخة جديدة رقم ${newRevision}.` });
+      setIsConfirmOpen(false);
+      await loadRevisions();
+      onRestored();
+    } catch (error) {
+      console.error("Error restoring question revision:", error);
+      toast({ variant: "destructive", title: "خطأ", description: "فشل في استعادة النسخة." });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-5xl mx-auto shadow-lg">
+      <CardHeader>
+        <div className="flex items-center space-x-3 rtl:space-x-reverse">
+          <GitCompare className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl font-bold">نسخ السؤال</CardTitle>
+        </div>
+        <CardDescription>
+          تُحفظ نسخة جديدة عند كل تعديل على المحتوى أو الإجابة. قارن أي نسخة سابقة بالنسخة الحالية واستعدها بنقرة.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">لا توجد نسخ محفوظة لهذا السؤال.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-4">
+            <ScrollArea className="h-80 rounded-md border">
+              <ol className="p-2 space-y-1">
+                {revisions.map(revision => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedRevision(revision.revision)}
+                      className={cn(
+                        "w-full text-right rounded-md px-3 py-2 text-sm hover:bg-muted",
+                        revision.revision === selectedRevision && "bg-muted"
+                      )}
+                    >
+                      <div className="flex items-center gap-2 font-medium">
+                        النسخة {revision.revision}
+                        {revision === current && <Badge variant="outline">الحالية</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(parseISO(revision.created_at), 'PPp', { locale: arSA })}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {revision.author?.name || revision.author?.email || 'غير معروف'}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+
+            {!selected || selected === current ? (
+              <div className="flex items-center justify-center rounded-md border p-6 text-sm text-muted-foreground">
+                {revisions.length === 1 ? 'هذه هي النسخة الوحيدة من السؤال.' : 'اختر نسخة سابقة لمقارنتها بالنسخة الحالية.'}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="overflow-x-auto border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/40">
+                        <th className="p-2 text-right w-28"></th>
+                        <th className="p-2 text-right">النسخة {selected.revision}</th>
+                        <th className="p-2 text-right">النسخة الحالية ({current.revision})</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diffRows.map(row => {
+                        const changed = row.compareValue(selected) !== row.compareValue(current);
+                        return (
+                          <tr key={row.label} className={cn("border-b align-top last:border-0", changed && "bg-amber-50 dark:bg-amber-950/30")}>
+                            <td className="p-2 font-medium text-muted-foreground">{row.label}</td>
+                            <td className={cn("p-2", changed && "text-red-700 dark:text-red-400")}>{row.render(selected)}</td>
+                            <td className={cn("p-2", changed && "text-green-700 dark:text-green-400")}>{row.render(current)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex justify-end">
+                  <Button type="button" variant="outline" onClick={() => setIsConfirmOpen(true)} disabled={isRestoring}>
+                    <RotateCcw className="mr-2 h-4 w-4 rtl:ml-2 rtl:mr-0" /> استعادة النسخة {selected.revision}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>استعادة النسخة {selected?.revision}؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيُستبدل محتوى السؤال الحالي بمحتوى هذه النسخة وتُحفظ النتيجة كنسخة جديدة. لن تُحذف أي نسخة سابقة،
+              وستبقى محاولات الطلاب مرتبطة بالنسخة التي أجابوا عنها.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="flex-row-reverse">
+            <AlertDialogCancel disabled={isRestoring}>إلغاء</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleRestore(); }} disabled={isRestoring}>
+              {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />}
+              استعادة
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
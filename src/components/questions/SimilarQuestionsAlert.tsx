@@ -0,0 +1,70 @@
+// src/components/questions/SimilarQuestionsAlert.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import MathText from '@/components/MathText';
+import { findSimilarQuestions } from '@/lib/supabaseData';
+import type { SimilarQuestion } from '@/types';
+import { Copy } from 'lucide-react';
+
+const CHECK_DEBOUNCE_MS = 600;
+const MIN_TEXT_LENGTH = 10;
+
+interface SimilarQuestionsAlertProps {
+  questionText: string | undefined;
+  subjectId: string | undefined;
+  /** The question being edited, so it does not match itself. */
+  excludeId?: string;
+}
+
+/** Warns while a question is typed when the bank already has one that reads almost the same. */
+export default function SimilarQuestionsAlert({ questionText, subjectId, excludeId }: SimilarQuestionsAlertProps) {
+  const [matches, setMatches] = useState<SimilarQuestion[]>([]);
+
+  useEffect(() => {
+    const text = (questionText || '').trim();
+    if (text.length < MIN_TEXT_LENGTH) {
+      setMatches([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await findSimilarQuestions([text], { subjectIds: [subjectId || null], excludeId });
+        if (!cancelled) setMatches(found);
+      } catch (error) {
+        // Only a hint; the form keeps working without it.
+        console.error("Error checking for similar questions:", error);
+      }
+    }, CHECK_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [questionText, subjectId, excludeId]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <Alert>
+      <Copy className="h-4 w-4" />
+      <AlertTitle>يوجد في البنك أسئلة مشابهة</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">تأكد من أنك لا تضيف سؤالًا مكررًا:</p>
+        <ul className="space-y-1">
+          {matches.map(match => (
+            <li key={match.questionId} className="flex items-center gap-2">
+              <Badge variant="secondary">{Math.round(match.similarity * 100)}%</Badge>
+              <Link href={`/dashboard/questions/edit/${match.questionId}`} target="_blank" className="hover:underline line-clamp-1">
+                <MathText text={match.questionText} inline />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
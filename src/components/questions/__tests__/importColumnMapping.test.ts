@@ -0,0 +1,67 @@
+// src/components/questions/__tests__/importColumnMapping.test.ts
+// Guessing which import field each spreadsheet header is: exact names and aliases in Arabic and English,
+// the spellings teachers vary, option columns, and headers that should stay unmapped.
+import './supabaseEnv';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { guessColumnMapping, missingRequiredFields } from '@/components/questions/importColumnMapping';
+
+/** The field guessed for one header on its own, so no other column can claim it first. */
+const fieldFor = (header: string) => guessColumnMapping([header])[header];
+
+describe('guessColumnMapping', () => {
+  it('maps field keys, Arabic labels and aliases in either language', () => {
+    assert.equal(fieldFor('questionText'), 'questiontext');
+    assert.equal(fieldFor('نص السؤال'), 'questiontext');
+    assert.equal(fieldFor('السؤال'), 'questiontext');
+    assert.equal(fieldFor('question type'), 'questiontype');
+    assert.equal(fieldFor('الإجابة الصحيحة'), 'correctoptiontext');
+    assert.equal(fieldFor('External ID'), 'externalid');
+  });
+
+  it('ignores case, spacing, tashkeel, tatweel and hamza or taa marbuta forms', () => {
+    assert.equal(fieldFor('QUESTION TYPE'), 'questiontype');
+    assert.equal(fieldFor('ExternalId'), 'externalid');
+    assert.equal(fieldFor('الصُّعوبة'), 'difficulty');
+    assert.equal(fieldFor('المـــادة'), 'subject');
+    assert.equal(fieldFor('مستوي الصعوبه'), 'difficulty');
+    assert.equal(fieldFor('رقم الاجابه الصحيحه'), 'correctoptionindex');
+  });
+
+  it('falls back to the closest name for a misspelled header', () => {
+    assert.equal(fieldFor('مستوى صعوبه'), 'difficulty');
+    assert.equal(fieldFor('نصوص السؤال'), 'questiontext');
+  });
+
+  it('reads option columns by number, Arabic digit or letter', () => {
+    assert.deepEqual(guessColumnMapping(['الخيار ١', 'Choice B', 'خيار ج', 'option4', 'البديل هـ']), {
+      'الخيار ١': 'option1',
+      'Choice B': 'option2',
+      'خيار ج': 'option3',
+      option4: 'option4',
+      'البديل هـ': 'option5',
+    });
+  });
+
+  it('leaves headers it cannot place unmapped', () => {
+    assert.equal(fieldFor('ملاحظات المعلم'), '');
+    assert.equal(fieldFor('Difficulty level'), '');
+    assert.equal(fieldFor(''), '');
+    assert.equal(fieldFor('الخيار 9'), '');
+  });
+
+  it('gives a field to the first column that claims it', () => {
+    assert.deepEqual(guessColumnMapping(['السؤال', 'نص السؤال']), { 'السؤال': 'questiontext', 'نص السؤال': '' });
+  });
+
+  it('keeps the template choice over a guess', () => {
+    const mapping = guessColumnMapping(['السؤال', 'Question Text'], { 'question text': 'questiontext', 'السؤال': '' });
+    assert.deepEqual(mapping, { 'السؤال': '', 'Question Text': 'questiontext' });
+  });
+});
+
+describe('missingRequiredFields', () => {
+  it('names the required fields no column is mapped to', () => {
+    assert.deepEqual(missingRequiredFields({ 'السؤال': 'questiontext', 'المادة': 'subject' }), ['نوع السؤال', 'مستوى الصعوبة']);
+  });
+});
@@ -0,0 +1,98 @@
+// src/components/questions/__tests__/questionImportValidation.test.ts
+// The import dry run: how rows are resolved, and the errors and warnings the preview shows for them.
+import './supabaseEnv';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Subject } from '@/types';
+import { validateQuestionImport, validateQuestionImportRow } from '@/components/questions/questionImportValidation';
+
+const MATH_ID = '11111111-0000-4000-8000-000000000001';
+const HISTORY_ID = '11111111-0000-4000-8000-000000000002';
+
+const subjects: Subject[] = [
+  { id: MATH_ID, name: 'الرياضيات', branch: 'scientific' },
+  { id: HISTORY_ID, name: 'التاريخ', branch: 'literary' },
+];
+
+const mcq = (extra: Record<string, any> = {}): Record<string, any> => ({
+  questiontype: 'mcq',
+  questiontext: 'ما ناتج جمع 2 و 2؟',
+  difficulty: 'easy',
+  subject: 'الرياضيات',
+  option1: '3',
+  option2: '4',
+  correctoptionindex: 2,
+  ...extra,
+});
+
+const messages = (row: { issues: { message: string }[] }) => row.issues.map(issue => issue.message);
+
+describe('validateQuestionImportRow', () => {
+  it('resolves the subject name to its id', () => {
+    const row = validateQuestionImportRow(mcq(), 0, subjects);
+    assert.equal(row.item.subjectid, MATH_ID);
+    assert.equal(row.status, 'valid');
+  });
+
+  it('matches the subject name regardless of tashkeel and hamza forms', () => {
+    const row = validateQuestionImportRow(mcq({ subject: 'الرِّياضيات' }), 0, subjects);
+    assert.equal(row.item.subjectid, MATH_ID);
+  });
+
+  it('reports a subject name it does not know', () => {
+    const row = validateQuestionImportRow(mcq({ subject: 'الكيمياء' }), 0, subjects);
+    assert.equal(row.status, 'error');
+    assert.match(messages(row).join('\n'), /الكيمياء/);
+  });
+
+  it('reports a subject id the user has no access to', () => {
+    const row = validateQuestionImportRow(mcq({ subject: undefined, subjectid: '99999999-0000-4000-8000-000000000099' }), 0, subjects);
+    assert.equal(row.status, 'error');
+  });
+
+  it('reports what parseQuestionImportRow rejects', () => {
+    const row = validateQuestionImportRow(mcq({ option2: undefined, correctoptionindex: 1 }), 0, subjects);
+    assert.equal(row.status, 'error');
+  });
+
+  it('warns about option columns past what the question type holds', () => {
+    const row = validateQuestionImportRow(mcq({ option7: 'خيار زائد' }), 0, subjects);
+    assert.equal(row.status, 'warning');
+    assert.match(messages(row)[0], /option7/);
+
+    const multiSelect = validateQuestionImportRow(
+      mcq({ questiontype: 'multi_select', correctoptionindex: undefined, correctoptionindexes: '2', option7: '7' }),
+      0,
+      subjects,
+    );
+    assert.equal(multiSelect.status, 'valid');
+  });
+
+  it('ignores empty option columns past the limit', () => {
+    assert.equal(validateQuestionImportRow(mcq({ option7: '  ' }), 0, subjects).status, 'valid');
+  });
+
+  it('warns about an isSane value that is not true or false', () => {
+    const row = validateQuestionImportRow(mcq({ issane: 'نعم' }), 0, subjects);
+    assert.equal(row.status, 'warning');
+    assert.match(messages(row)[0], /isSane/);
+    assert.equal(validateQuestionImportRow(mcq({ issane: 'TRUE' }), 0, subjects).status, 'valid');
+  });
+});
+
+describe('validateQuestionImport', () => {
+  it('reports an external id repeated later in the file, pointing at its first row', () => {
+    const rows = validateQuestionImport([
+      mcq({ externalid: 'q-1' }),
+      mcq({ externalid: 'q-2' }),
+      mcq({ externalid: ' q-1 ' }),
+    ], subjects);
+    assert.deepEqual(rows.map(row => row.status), ['valid', 'valid', 'error']);
+    assert.match(messages(rows[2]).join('\n'), /q-1.*الصف 1/);
+  });
+
+  it('numbers the rows by their position in the file', () => {
+    const rows = validateQuestionImport([mcq(), mcq({ subject: 'التاريخ' })], subjects);
+    assert.deepEqual(rows.map(row => [row.index, row.item.subjectid]), [[0, MATH_ID], [1, HISTORY_ID]]);
+  });
+});
@@ -0,0 +1,5 @@
+// src/components/questions/__tests__/supabaseEnv.ts
+// Placeholder connection settings, so modules that create the Supabase client when loaded (everything
+// behind @/lib/supabaseData) can be imported. The tests never reach the database. Import it first.
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= 'http://127.0.0.1:54321';
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= 'test-anon-key';
@@ -0,0 +1,78 @@
+// src/components/questions/bulkQuestionActions.ts
+// Bulk actions of the questions page. Each question is written on its own, so one failure (RLS, a
+// group that must stay in one subject) is reported for that question and the rest go on. The AI sanity
+// check only queues the questions for the server-side worker (src/lib/sanityCheckWorker.ts).
+import type { Question } from '@/types';
+
+export type BulkQuestionAction =
+  | 'move'
+  | 'difficulty'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'lock'
+  | 'unlock'
+  | 'sanity_check'
+  | 'add_to_exam'
+  | 'delete';
+
+export const BULK_ACTION_LABELS: Record<BulkQuestionAction, string> = {
+  move: 'نقل إلى مادة/درس',
+  difficulty: 'تعيين الصعوبة',
+  add_tags: 'إضافة تصنيفات',
+  remove_tags: 'إزالة تصنيفات',
+  lock: 'قفل',
+  unlock: 'إلغاء القفل',
+  sanity_check: 'إضافة إلى قائمة فحص الصحة',
+  add_to_exam: 'إضافة إلى امتحان',
+  delete: 'نقل إلى سلة المحذوفات',
+};
+
+export interface BulkOutcome {
+  question: Question;
+  /** Why the question was left alone (skipped) or why writing it failed. */
+  message: string;
+}
+
+export interface BulkReport {
+  succeeded: Question[];
+  skipped: BulkOutcome[];
+  failed: BulkOutcome[];
+}
+
+/**
+ * Runs `operation` for one question after the other. The operation returns a reason to report the
+ * question as skipped (nothing to change), or nothing when it was written; a thrown error marks it failed.
+ */
+export const runBulkOperation = async (
+  questions: Question[],
+  operation: (question: Question) => Promise<string | void>,
+  onProgress: (done: number) => void,
+): Promise<BulkReport> => {
+  const report: BulkReport = { succeeded: [], skipped: [], failed: [] };
+  for (const [index, question] of questions.entries()) {
+    try {
+      const skipReason = await operation(question);
+      if (skipReason) report.skipped.push({ question, message: skipReason });
+      else report.succeeded.push(question);
+    } catch (error: any) {
+      console.error(`Bulk action failed for question ${question.id}:`, error);
+      report.failed.push({ question, message: error?.message || 'خطأ غير معروف' });
+    }
+    onProgress(index + 1);
+  }
+  return report;
+};
+
+/** The question's tags with `tagIds` added, or null when it already has all of them. */
+export const withTags = (question: Question, tagIds: string[]): string[] | null => {
+  const current = question.tagIds || [];
+  const missing = tagIds.filter(id => !current.includes(id));
+  return missing.length > 0 ? [...current, ...missing] : null;
+};
+
+/** The question's tags without `tagIds`, or null when it has none of them. */
+export const withoutTags = (question: Question, tagIds: string[]): string[] | null => {
+  const current = question.tagIds || [];
+  const kept = current.filter(id => !tagIds.includes(id));
+  return kept.length < current.length ? kept : null;
+};
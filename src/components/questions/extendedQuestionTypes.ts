@@ -0,0 +1,158 @@
+// src/components/questions/extendedQuestionTypes.ts
+// Form schemas and conversions for the multi_select, matching, ordering and numeric question types.
+// The question forms (new, edit and AddLessonQuestionForm) extend their own base schema with these and
+// render the inputs with <ExtendedAnswerFields />.
+import * as z from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { MAX_CHOICE_ITEMS } from '@/lib/supabaseData';
+import type { MatchingQuestion, MultiSelectQuestion, NumericQuestion, OrderingQuestion, Question, QuestionType } from '@/types';
+
+export const EXTENDED_QUESTION_TYPES = ['multi_select', 'matching', 'ordering', 'numeric'] as const;
+
+export type ExtendedQuestionType = typeof EXTENDED_QUESTION_TYPES[number];
+
+export const isExtendedQuestionType = (type: QuestionType | undefined): type is ExtendedQuestionType =>
+  (EXTENDED_QUESTION_TYPES as readonly string[]).includes(type ?? '');
+
+/** Parses a number typed by the user; accepts a decimal comma. Returns null for anything else. */
+export const parseNumberInput = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const itemText = (message: string) => z.string().trim().min(1, message);
+
+const hasDistinct = (values: string[]) => new Set(values.map(v => v.trim())).size === values.length;
+
+export const multiSelectAnswerSchema = z.object({
+  questionType: z.literal('multi_select'),
+  selectOptions: z.array(z.object({
+    text: itemText("نص الخيار لا يمكن أن يكون فارغًا."),
+    isCorrect: z.boolean(),
+  }))
+    .min(2, "يجب أن يكون هناك خياران على الأقل.")
+    .max(MAX_CHOICE_ITEMS, `لا يمكن أن يكون هناك أكثر من ${MAX_CHOICE_ITEMS} خيارات.`)
+    .refine(options => options.some(opt => opt.isCorrect), "حدد إجابة صحيحة واحدة على الأقل."),
+});
+
+export const matchingAnswerSchema = z.object({
+  questionType: z.literal('matching'),
+  pairs: z.array(z.object({
+    prompt: itemText("الطرف الأول لا يمكن أن يكون فارغًا."),
+    match: itemText("الطرف المقابل لا يمكن أن يكون فارغًا."),
+  }))
+    .min(2, "يجب أن يكون هناك زوجان على الأقل.")
+    .max(MAX_CHOICE_ITEMS, `لا يمكن أن يكون هناك أكثر من ${MAX_CHOICE_ITEMS} أزواج.`)
+    .refine(pairs => hasDistinct(pairs.map(pair => pair.match)), "لا يمكن أن يتكرر الطرف المقابل في أكثر من زوج."),
+});
+
+export const orderingAnswerSchema = z.object({
+  questionType: z.literal('ordering'),
+  orderItems: z.array(z.object({ text: itemText("نص العنصر لا يمكن أن يكون فارغًا.") }))
+    .min(2, "يجب أن يكون هناك عنصران على الأقل.")
+    .max(MAX_CHOICE_ITEMS, `لا يمكن أن يكون هناك أكثر من ${MAX_CHOICE_ITEMS} عناصر.`)
+    .refine(items => hasDistinct(items.map(item => item.text)), "عناصر الترتيب يجب أن تكون مختلفة."),
+});
+
+export const numericAnswerSchema = z.object({
+  questionType: z.literal('numeric'),
+  numericAnswer: z.string()
+    .trim()
+    .min(1, "الرجاء إدخال الإجابة الرقمية.")
+    .refine(value => parseNumberInput(value) !== null, "الرجاء إدخال رقم صالح."),
+  numericUnit: z.string().trim().max(20, "الوحدة لا يمكن أن تتجاوز 20 حرفًا.").optional(),
+  numericTolerance: z.string()
+    .trim()
+    .optional()
+    .refine(value => !value || (parseNumberInput(value) ?? -1) >= 0, "هامش الخطأ يجب أن يكون رقمًا أكبر من أو يساوي صفر."),
+});
+
+export type ExtendedAnswerFormValues =
+  | z.infer<typeof multiSelectAnswerSchema>
+  | z.infer<typeof matchingAnswerSchema>
+  | z.infer<typeof orderingAnswerSchema>
+  | z.infer<typeof numericAnswerSchema>;
+
+export type ExtendedAnswerPayload =
+  | Pick<MultiSelectQuestion, 'questionType' | 'options' | 'correctOptionIds'>
+  | Pick<MatchingQuestion, 'questionType' | 'pairs'>
+  | Pick<OrderingQuestion, 'questionType' | 'options'>
+  | Pick<NumericQuestion, 'questionType' | 'numericAnswer' | 'tolerance' | 'unit'>;
+
+// Empty rows shown when a form switches to one of the types.
+export const EXTENDED_ANSWER_DEFAULTS = {
+  selectOptions: [{ text: '', isCorrect: false }, { text: '', isCorrect: false }],
+  pairs: [{ prompt: '', match: '' }, { prompt: '', match: '' }],
+  orderItems: [{ text: '' }, { text: '' }],
+};
+
+/**
+ * Builds the answer part of the question payload.
+ * @param previous The stored question when editing; option and pair ids are kept by position so that
+ *   attempts and revisions keep pointing at the same entries.
+ */
+export const toExtendedAnswerPayload = (values: ExtendedAnswerFormValues, previous?: Question | null): ExtendedAnswerPayload => {
+  const previousIds = (type: ExtendedQuestionType): string[] => {
+    if (!previous || previous.questionType !== type) return [];
+    if (previous.questionType === 'matching') return previous.pairs.map(pair => pair.id);
+    return (previous.options || []).map(opt => opt.id);
+  };
+
+  switch (values.questionType) {
+    case 'multi_select': {
+      const ids = previousIds('multi_select');
+      const options = values.selectOptions.map((opt, index) => ({ id: ids[index] || uuidv4(), text: opt.text }));
+      return {
+        questionType: 'multi_select',
+        options,
+        correctOptionIds: options.filter((_, index) => values.selectOptions[index].isCorrect).map(opt => opt.id),
+      };
+    }
+    case 'matching': {
+      const ids = previousIds('matching');
+      return {
+        questionType: 'matching',
+        pairs: values.pairs.map((pair, index) => ({ id: ids[index] || uuidv4(), prompt: pair.prompt, match: pair.match })),
+      };
+    }
+    case 'ordering': {
+      const ids = previousIds('ordering');
+      return {
+        questionType: 'ordering',
+        options: values.orderItems.map((item, index) => ({ id: ids[index] || uuidv4(), text: item.text })),
+      };
+    }
+    case 'numeric':
+      return {
+        questionType: 'numeric',
+        numericAnswer: parseNumberInput(values.numericAnswer) ?? 0,
+        tolerance: parseNumberInput(values.numericTolerance) ?? 0,
+        unit: values.numericUnit?.trim() || null,
+      };
+  }
+};
+
+/** Form values for editing a stored question of one of the types; null for the other types. */
+export const toExtendedAnswerFormValues = (question: Question): ExtendedAnswerFormValues | null => {
+  switch (question.questionType) {
+    case 'multi_select':
+      return {
+        questionType: 'multi_select',
+        selectOptions: question.options.map(opt => ({ text: opt.text, isCorrect: question.correctOptionIds.includes(opt.id) })),
+      };
+    case 'matching':
+      return { questionType: 'matching', pairs: question.pairs.map(pair => ({ prompt: pair.prompt, match: pair.match })) };
+    case 'ordering':
+      return { questionType: 'ordering', orderItems: question.options.map(opt => ({ text: opt.text })) };
+    case 'numeric':
+      return {
+        questionType: 'numeric',
+        numericAnswer: String(question.numericAnswer),
+        numericUnit: question.unit || '',
+        numericTolerance: String(question.tolerance),
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,337 @@
+// src/components/questions/importColumnMapping.ts
+// Column mapping step of the question import: the headers of a teacher's spreadsheet are mapped to the
+// import fields that parseQuestionImportRow reads (lowercase, no spaces), and the subject, lesson and
+// tag names in the file are matched to their ids. The mapped rows then go through the dry run in
+// questionImportValidation.ts like any other file.
+import { MAX_CHOICE_ITEMS } from '@/lib/supabaseData';
+import { normalizeArabic, trigramSimilarity } from '@/lib/arabicText';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '@/components/questions/questionLabels';
+import type { Lesson, Subject, Tag } from '@/types';
+
+/** Header -> import field. An empty field means the column is ignored. */
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportTargetField {
+  key: string;
+  label: string;
+  /** Other names teachers give this column, compared after normalizeArabic. */
+  aliases?: string[];
+}
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+export const IMPORT_TARGET_FIELDS: ImportTargetField[] = [
+  { key: 'questiontype', label: 'نوع السؤال', aliases: ['النوع', 'type', 'question type'] },
+  { key: 'questiontext', label: 'نص السؤال', aliases: ['السؤال', 'question', 'text', 'question text'] },
+  { key: 'difficulty', label: 'مستوى الصعوبة', aliases: ['الصعوبة', 'level'] },
+  { key: 'subject', label: 'المادة (الاسم)', aliases: ['المادة', 'اسم المادة', 'subject name'] },
+  { key: 'subjectid', label: 'المادة (المعرف)', aliases: ['معرف المادة'] },
+  { key: 'lesson', label: 'الدرس (الاسم)', aliases: ['الدرس', 'اسم الدرس', 'lesson name'] },
+  { key: 'lessonid', label: 'الدرس (المعرف)', aliases: ['معرف الدرس'] },
+  { key: 'tags', label: 'الوسوم (أسماء)', aliases: ['الوسوم', 'التصنيفات', 'الكلمات المفتاحية', 'tag names'] },
+  { key: 'tagids', label: 'الوسوم (معرفات)', aliases: ['معرفات الوسوم'] },
+  ...range(MAX_CHOICE_ITEMS).map(n => ({ key: `option${n}`, label: `الخيار ${n}` })),
+  ...range(MAX_CHOICE_ITEMS).flatMap(n => [
+    { key: `option${n}_image`, label: `صورة الخيار ${n}` },
+    { key: `option${n}_audio`, label: `صوت الخيار ${n}` },
+    { key: `option${n}_feedback`, label: `تعليق الخيار ${n}` },
+  ]),
+  { key: 'correctoptionindex', label: 'رقم الخيار الصحيح', aliases: ['رقم الإجابة الصحيحة', 'answer index', 'correct index'] },
+  { key: 'correctoptiontext', label: 'نص الخيار الصحيح', aliases: ['الإجابة الصحيحة', 'الجواب', 'answer', 'correct answer'] },
+  { key: 'correctoptionindexes', label: 'أرقام الخيارات الصحيحة', aliases: ['الإجابات الصحيحة'] },
+  { key: 'correctbooleananswer', label: 'إجابة صح/خطأ', aliases: ['صح أو خطأ', 'true false answer'] },
+  { key: 'correctanswers', label: 'إجابات الفراغات', aliases: ['الفراغات'] },
+  { key: 'modelanswer', label: 'الإجابة النموذجية', aliases: ['model answer'] },
+  ...range(MAX_CHOICE_ITEMS).flatMap(n => [
+    { key: `pair${n}prompt`, label: `المطابقة ${n}: العبارة` },
+    { key: `pair${n}match`, label: `المطابقة ${n}: ما يقابلها` },
+  ]),
+  { key: 'numericanswer', label: 'الإجابة الرقمية', aliases: ['numeric answer'] },
+  { key: 'tolerance', label: 'هامش الخطأ المسموح', aliases: ['هامش الخطأ', 'السماحية'] },
+  { key: 'unit', label: 'الوحدة' },
+  { key: 'imageurl', label: 'رابط صورة السؤال', aliases: ['الصورة', 'رابط الصورة', 'image'] },
+  { key: 'imagehint', label: 'وصف الصورة', aliases: ['image hint'] },
+  { key: 'issane', label: 'سليم (isSane)' },
+  { key: 'sanityexplanation', label: 'ملاحظة فحص السلامة' },
+  { key: 'islocked', label: 'مقفل', aliases: ['locked'] },
+  { key: 'feedback', label: 'التغذية الراجعة', aliases: ['تعليق', 'الشرح', 'شرح الإجابة', 'general feedback'] },
+  { key: 'externalid', label: 'المعرف الخارجي', aliases: ['external id', 'source ref', 'المعرف في الملف', 'رقم السؤال'] },
+];
+
+/** The fields an import cannot do without; the subject can come from either subject column. */
+export const REQUIRED_IMPORT_FIELDS: string[][] = [['questiontype'], ['questiontext'], ['difficulty'], ['subject', 'subjectid']];
+
+/** Headers and field keys compared without case, spacing, punctuation or letter forms. */
+const compact = (text: string): string =>
+  normalizeArabic(text.replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))).replace(/ /g, '');
+
+const OPTION_LETTERS = ['ا', 'ب', 'ج', 'د', 'ه', 'و', 'ز', 'ح'];
+const OPTION_HEADER = /^(?:ال)?(?:خيار|اختيار|بديل|option|choice)(\d+|[a-h]|[ابجدهوزح])$/;
+
+/** "الخيار 2", "خيار ب", "Choice B" -> option2. */
+const optionField = (header: string): string | null => {
+  const match = OPTION_HEADER.exec(compact(header));
+  if (!match) return null;
+  const token = match[1];
+  const n = /^\d+$/.test(token) ? Number(token)
+    : /^[a-h]$/.test(token) ? token.charCodeAt(0) - 96
+    : OPTION_LETTERS.indexOf(token) + 1;
+  return n >= 1 && n <= MAX_CHOICE_ITEMS ? `option${n}` : null;
+};
+
+const FUZZY_HEADER_THRESHOLD = 0.6;
+
+const guessField = (header: string): string | null => {
+  const key = compact(header);
+  if (!key) return null;
+  const exact = IMPORT_TARGET_FIELDS.find(field =>
+    compact(field.key) === key || compact(field.label) === key || field.aliases?.some(alias => compact(alias) === key)
+  );
+  if (exact) return exact.key;
+  // An option past MAX_CHOICE_ITEMS ("الخيار 9") has no field; fuzzy matching would take it for option1.
+  if (OPTION_HEADER.test(key)) return optionField(header);
+
+  let best: { key: string; score: number } | null = null;
+  for (const field of IMPORT_TARGET_FIELDS) {
+    for (const name of [field.label, ...(field.aliases || [])]) {
+      const score = trigramSimilarity(header, name);
+      if (score >= FUZZY_HEADER_THRESHOLD && (!best || score > best.score)) best = { key: field.key, score };
+    }
+  }
+  return best?.key ?? null;
+};
+
+/** The headers of the parsed rows, in the order they first appear (xlsx leaves empty cells out of a row). */
+export const detectHeaders = (rows: Record<string, unknown>[]): string[] => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const header of Object.keys(row)) {
+      if (!seen.has(header)) {
+        seen.add(header);
+        headers.push(header);
+      }
+    }
+  }
+  return headers;
+};
+
+/** The first few non-empty values of a column, to show next to its header. */
+export const sampleValues = (rows: Record<string, unknown>[], header: string, count: number = 3): string[] => {
+  const samples: string[] = [];
+  for (const row of rows) {
+    const value = String(row[header] ?? '').trim();
+    if (value) samples.push(value);
+    if (samples.length === count) break;
+  }
+  return samples;
+};
+
+/**
+ * A mapping for the given headers: the template's choice where it has one for a header, a guess from
+ * the header name otherwise. A field is given to one column at most, the first that claims it.
+ */
+export const guessColumnMapping = (headers: string[], template?: ColumnMapping): ColumnMapping => {
+  const templateByHeader = new Map(Object.entries(template || {}).map(([header, field]) => [compact(header), field]));
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+  const assign = (header: string, field: string) => {
+    mapping[header] = field && !used.has(field) ? field : '';
+    if (mapping[header]) used.add(mapping[header]);
+  };
+  // The template's columns first, so a guess cannot take a field the template gives another column.
+  headers.forEach(header => {
+    const fromTemplate = templateByHeader.get(compact(header));
+    if (fromTemplate !== undefined) assign(header, fromTemplate);
+  });
+  headers.forEach(header => {
+    if (!(header in mapping)) assign(header, guessField(header) ?? '');
+  });
+  return Object.fromEntries(headers.map(header => [header, mapping[header]]));
+};
+
+/** Required fields that no column is mapped to, by their labels. */
+export const missingRequiredFields = (mapping: ColumnMapping): string[] => {
+  const mapped = new Set(Object.values(mapping));
+  return REQUIRED_IMPORT_FIELDS
+    .filter(alternatives => !alternatives.some(key => mapped.has(key)))
+    .map(alternatives => alternatives.map(key => IMPORT_TARGET_FIELDS.find(field => field.key === key)?.label ?? key).join(' أو '));
+};
+
+// --- Values -----------------------------------------------------------------------------------------
+
+const TRUE_VALUES = ['true', 'صح', 'صحيح', 'نعم', 'yes', '1'].map(compact);
+const FALSE_VALUES = ['false', 'خطأ', 'خاطئ', 'لا', 'no', '0'].map(compact);
+const BOOLEAN_FIELDS = ['correctbooleananswer', 'issane', 'islocked'];
+
+/** Value of a label table (Arabic label or the code itself) -> the code, or null when none matches. */
+const codeFor = (value: string, labels: Record<string, string>): string | null => {
+  const key = compact(value);
+  const code = Object.keys(labels).find(code => compact(code) === key || compact(labels[code]) === key);
+  return code ?? null;
+};
+
+/** Spells a cell the way the import expects it: type and difficulty codes, true/false for yes-no columns. */
+const normalizeValue = (field: string, value: string): string => {
+  if (field === 'questiontype') return codeFor(value, QUESTION_TYPE_LABELS) ?? value.toLowerCase().replace(/[\s-]+/g, '_');
+  if (field === 'difficulty') return codeFor(value, DIFFICULTY_LABELS) ?? value.toLowerCase();
+  if (BOOLEAN_FIELDS.includes(field)) {
+    const key = compact(value);
+    if (TRUE_VALUES.includes(key)) return 'true';
+    if (FALSE_VALUES.includes(key)) return 'false';
+  }
+  return value;
+};
+
+// --- Names ------------------------------------------------------------------------------------------
+
+export type NameKind = 'subject' | 'lesson' | 'tag';
+
+export interface NameMatch {
+  id: string;
+  name: string;
+  /** 1 for the same name after normalization, the trigram similarity otherwise. */
+  score: number;
+}
+
+export interface NameResolution {
+  kind: NameKind;
+  /** Identifies the name within its kind; lessons are looked up per subject. */
+  key: string;
+  /** The name as first written in the file. */
+  value: string;
+  /** For lessons: the subject whose lessons were searched. */
+  subjectId: string | null;
+  match: NameMatch | null;
+  /** Rows that use this name. */
+  rows: number;
+}
+
+export const NAME_MATCH_THRESHOLD = 0.45;
+
+/** The candidate with the same normalized name, or else the most similar one above the threshold. */
+export const matchName = (value: string, candidates: { id: string; name: string }[]): NameMatch | null => {
+  const key = normalizeArabic(value);
+  if (!key) return null;
+  let best: NameMatch | null = null;
+  for (const candidate of candidates) {
+    const score = normalizeArabic(candidate.name) === key ? 1 : trigramSimilarity(value, candidate.name);
+    if (score >= NAME_MATCH_THRESHOLD && (!best || score > best.score)) best = { ...candidate, score };
+    if (score === 1) break;
+  }
+  return best;
+};
+
+export const resolutionId = (kind: NameKind, key: string): string => `${kind}:${key}`;
+
+/** Ids the admin picked by hand, by resolutionId; null when they chose to leave the name unresolved. */
+export type NameOverrides = Record<string, string | null>;
+
+/** The id a name resolves to: the admin's choice when they made one, the best match otherwise. */
+export const chosenNameId = (resolution: NameResolution, overrides: NameOverrides): string | null => {
+  const id = resolutionId(resolution.kind, resolution.key);
+  return id in overrides ? overrides[id] : resolution.match?.id ?? null;
+};
+
+export type NameResolver = (kind: NameKind, key: string) => string | null;
+
+export const nameResolver = (resolutions: NameResolution[], overrides: NameOverrides): NameResolver => {
+  const byId = new Map(resolutions.map(resolution => [resolutionId(resolution.kind, resolution.key), resolution]));
+  return (kind, key) => {
+    const resolution = byId.get(resolutionId(kind, key));
+    return resolution ? chosenNameId(resolution, overrides) : null;
+  };
+};
+
+const splitTags = (value: string): string[] => value.split(/[,،;؛]/).map(tag => tag.trim()).filter(Boolean);
+const lessonKey = (subjectId: string, name: string) => `${subjectId}|${normalizeArabic(name)}`;
+
+/** Maps one row's columns to import fields, without looking up any names yet. */
+const mapColumns = (row: Record<string, unknown>, mapping: ColumnMapping): Record<string, any> => {
+  const item: Record<string, any> = {};
+  for (const [header, field] of Object.entries(mapping)) {
+    if (!field) continue;
+    const value = String(row[header] ?? '').trim();
+    if (value) item[field] = normalizeValue(field, value);
+  }
+  return item;
+};
+
+interface NameCatalog {
+  subjects: Subject[];
+  lessons: Lesson[];
+  tags: Tag[];
+}
+
+/**
+ * Every subject, lesson and tag name used in the file, with its best match. Lesson names are searched in
+ * the lessons of the row's subject, so they depend on how the subject names were resolved.
+ */
+export const collectNameResolutions = (
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  catalog: NameCatalog,
+  overrides: NameOverrides
+): NameResolution[] => {
+  const found = new Map<string, NameResolution>();
+  const add = (kind: NameKind, key: string, value: string, subjectId: string | null, candidates: { id: string; name: string }[]): NameResolution => {
+    const id = resolutionId(kind, key);
+    const existing = found.get(id);
+    if (existing) {
+      existing.rows++;
+      return existing;
+    }
+    const resolution: NameResolution = { kind, key, value, subjectId, match: matchName(value, candidates), rows: 1 };
+    found.set(id, resolution);
+    return resolution;
+  };
+  const subjectCandidates = catalog.subjects.filter(s => s.id).map(s => ({ id: s.id!, name: s.name }));
+  const tagCandidates = catalog.tags.filter(t => t.id).map(t => ({ id: t.id!, name: t.name }));
+
+  for (const row of rows) {
+    const item = mapColumns(row, mapping);
+    let subjectId: string | null = item.subjectid ? String(item.subjectid) : null;
+    if (!subjectId && item.subject) {
+      subjectId = chosenNameId(add('subject', normalizeArabic(item.subject), item.subject, null, subjectCandidates), overrides);
+    }
+    if (!item.lessonid && item.lesson && subjectId) {
+      const lessons = catalog.lessons.filter(l => l.subjectId === subjectId && l.id).map(l => ({ id: l.id!, name: l.title }));
+      add('lesson', lessonKey(subjectId, item.lesson), item.lesson, subjectId, lessons);
+    }
+    if (item.tags) {
+      splitTags(item.tags).forEach(tag => add('tag', normalizeArabic(tag), tag, null, tagCandidates));
+    }
+  }
+  return Array.from(found.values());
+};
+
+/**
+ * The rows as import items: mapped columns under their field keys, values spelled the way the import
+ * expects, and subject, lesson and tag names replaced by the resolved ids. Names left unresolved stay
+ * in the item (subject, lesson, tags), so the dry run can still report the unknown subject.
+ */
+export const applyColumnMapping = (
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  resolve: NameResolver
+): Record<string, any>[] =>
+  rows.map(row => {
+    const item = mapColumns(row, mapping);
+    if (!item.subjectid && item.subject) {
+      const subjectId = resolve('subject', normalizeArabic(item.subject));
+      if (subjectId) item.subjectid = subjectId;
+    }
+    if (!item.lessonid && item.lesson && item.subjectid) {
+      const lessonId = resolve('lesson', lessonKey(String(item.subjectid), item.lesson));
+      if (lessonId) item.lessonid = lessonId;
+    }
+    if (item.tags) {
+      const tagIds = splitTags(item.tags)
+        .map(tag => resolve('tag', normalizeArabic(tag)))
+        .filter((id): id is string => !!id);
+      const existing = item.tagids ? String(item.tagids).split(',').map(id => id.trim()).filter(Boolean) : [];
+      const all = Array.from(new Set([...existing, ...tagIds]));
+      if (all.length > 0) item.tagids = all.join(',');
+    }
+    return item;
+  });
@@ -0,0 +1,41 @@
+// src/components/questions/optionMedia.ts
+// Form schema and conversions for MCQ options carrying an image and/or audio clip next to their text.
+// The files are uploaded with <OptionMediaFields />; an option is valid as long as it has text or media.
+// Per-choice feedback (brought in by Moodle XML / GIFT imports) has no field of its own and is carried along.
+import * as z from 'zod';
+import type { Option } from '@/types';
+
+export const mcqOptionSchema = (emptyMessage: string) => z.object({
+  text: z.string(),
+  imageUrl: z.string().optional().nullable(),
+  audioUrl: z.string().optional().nullable(),
+  feedback: z.string().optional().nullable(),
+}).refine(opt => !!opt.text.trim() || !!opt.imageUrl || !!opt.audioUrl, { message: emptyMessage, path: ['text'] });
+
+export type McqOptionFormValues = z.infer<ReturnType<typeof mcqOptionSchema>>;
+
+export const hasOptionContent = (opt: Partial<McqOptionFormValues> | undefined): boolean =>
+  !!opt && (!!opt.text?.trim() || !!opt.imageUrl || !!opt.audioUrl);
+
+/** The media and feedback part of a saved option; absent keys keep the stored jsonb identical for text-only options. */
+export const toOptionMedia = (opt: Partial<McqOptionFormValues>): Pick<Option, 'imageUrl' | 'audioUrl' | 'feedback'> => ({
+  ...(opt.imageUrl ? { imageUrl: opt.imageUrl } : {}),
+  ...(opt.audioUrl ? { audioUrl: opt.audioUrl } : {}),
+  ...(opt.feedback ? { feedback: opt.feedback } : {}),
+});
+
+export const toOptionFormValues = (opt: Option): McqOptionFormValues => ({
+  text: opt.text,
+  imageUrl: opt.imageUrl || null,
+  audioUrl: opt.audioUrl || null,
+  feedback: opt.feedback || null,
+});
+
+export const optionMediaUrls = (options: Partial<McqOptionFormValues>[] | undefined): string[] =>
+  (options || []).flatMap(opt => [opt.imageUrl, opt.audioUrl]).filter((url): url is string => !!url);
+
+/** Label for the correct-answer select, which would otherwise be blank for media-only options. */
+export const optionSelectLabel = (opt: Partial<McqOptionFormValues>, index: number): string => {
+  const text = opt.text?.trim() || (opt.imageUrl ? '(صورة)' : opt.audioUrl ? '(صوت)' : '');
+  return `الخيار ${index + 1}: ${text.length > 30 ? text.substring(0, 30) + '...' : text}`;
+};
@@ -0,0 +1,120 @@
+// src/components/questions/questionImportValidation.ts
+// Dry run of a question import: every row is checked the way importQuestionsBatch would read it
+// (parseQuestionImportRow), plus softer checks that do not stop the row from being imported.
+import * as XLSX from 'xlsx';
+import { MAX_CHOICE_ITEMS, parseQuestionImportRow } from '@/lib/supabaseData';
+import { normalizeArabic } from '@/lib/arabicText';
+import type { Subject } from '@/types';
+
+export type ImportRowStatus = 'valid' | 'warning' | 'error';
+
+export interface ImportRowIssue {
+  level: 'warning' | 'error';
+  message: string;
+}
+
+export interface ValidatedImportRow {
+  /** 0-based position in the file. */
+  index: number;
+  /** The normalized row (lowercase keys), with the subject name resolved to subjectid when it could be. */
+  item: Record<string, any>;
+  issues: ImportRowIssue[];
+  status: ImportRowStatus;
+}
+
+export const IMPORT_ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: 'سليم',
+  warning: 'تحذير',
+  error: 'خطأ',
+};
+
+const MIN_QUESTION_TEXT_LENGTH = 10;
+const MCQ_MAX_OPTIONS = 6;
+
+export const rowStatus = (issues: ImportRowIssue[]): ImportRowStatus =>
+  issues.some(issue => issue.level === 'error') ? 'error' : issues.length > 0 ? 'warning' : 'valid';
+
+/** Fills subjectid from the subject column (a name), which the instructions allow instead of the id. */
+const resolveSubject = (item: Record<string, any>, subjects: Subject[], issues: ImportRowIssue[]): Record<string, any> => {
+  if (item.subjectid) {
+    if (subjects.length > 0 && !subjects.some(subject => subject.id === String(item.subjectid))) {
+      issues.push({ level: 'error', message: `لا توجد مادة بالمعرف "${item.subjectid}" أو لا تملك صلاحية عليها.` });
+    }
+    return item;
+  }
+  if (!item.subject) return item;
+  const name = normalizeArabic(String(item.subject));
+  const subject = subjects.find(s => normalizeArabic(s.name) === name);
+  if (!subject?.id) {
+    issues.push({ level: 'error', message: `لا توجد مادة باسم "${item.subject}".` });
+    return item;
+  }
+  return { ...item, subjectid: subject.id };
+};
+
+const warningsFor = (item: Record<string, any>): ImportRowIssue[] => {
+  const warnings: string[] = [];
+  const text = String(item.questiontext ?? '').trim();
+  if (text && text.length < MIN_QUESTION_TEXT_LENGTH) {
+    warnings.push(`نص السؤال قصير جدًا (${text.length} أحرف).`);
+  }
+  const maxOptions = item.questiontype === 'mcq' ? MCQ_MAX_OPTIONS : MAX_CHOICE_ITEMS;
+  const ignored = Object.keys(item).filter(key => {
+    const match = /^option(\d+)$/.exec(key);
+    return match && Number(match[1]) > maxOptions && String(item[key] ?? '').trim();
+  });
+  if (ignored.length > 0) {
+    warnings.push(`سيتم تجاهل الأعمدة ${ignored.join('، ')}؛ الحد الأقصى ${maxOptions} خيارات لهذا النوع.`);
+  }
+  if (item.issane !== undefined && item.issane !== '' && !['true', 'false'].includes(String(item.issane).toLowerCase())) {
+    warnings.push(`قيمة isSane "${item.issane}" ليست true أو false وستُعامل كـ false.`);
+  }
+  if (item.imageurl && !/^https?:\/\//i.test(String(item.imageurl))) {
+    warnings.push(`رابط الصورة "${item.imageurl}" لا يبدأ بـ http أو https.`);
+  }
+  return warnings.map(message => ({ level: 'warning', message }));
+};
+
+export const validateQuestionImportRow = (item: Record<string, any>, index: number, subjects: Subject[]): ValidatedImportRow => {
+  const issues: ImportRowIssue[] = [];
+  const resolved = resolveSubject(item, subjects, issues);
+  if (issues.length === 0) {
+    const parsed = parseQuestionImportRow(resolved);
+    if (typeof parsed === 'string') issues.push({ level: 'error', message: parsed });
+  }
+  issues.push(...warningsFor(resolved));
+  return { index, item: resolved, issues, status: rowStatus(issues) };
+};
+
+export const validateQuestionImport = (items: Record<string, any>[], subjects: Subject[]): ValidatedImportRow[] => {
+  // importQuestionsBatch skips a row repeating the external id of an earlier one, so it is an error here.
+  const firstRowByExternalId = new Map<string, number>();
+  return items.map((item, index) => {
+    const row = validateQuestionImportRow(item, index, subjects);
+    const externalId = item.externalid ? String(item.externalid).trim() : '';
+    if (!externalId) return row;
+    const first = firstRowByExternalId.get(externalId);
+    if (first === undefined) {
+      firstRowByExternalId.set(externalId, index);
+      return row;
+    }
+    const issues = [...row.issues, { level: 'error' as const, message: `المعرف الخارجي "${externalId}" مكرر؛ ورد أولًا في الصف ${first + 1}.` }];
+    return { ...row, issues, status: rowStatus(issues) };
+  });
+};
+
+/** Saves the rows with problems as an XLSX file: row number, status and messages, then the row as read. */
+export const downloadImportReport = (rows: ValidatedImportRow[], fileName: string) => {
+  const reportRows = rows
+    .filter(row => row.issues.length > 0)
+    .map(row => ({
+      'الصف': row.index + 1,
+      'الحالة': IMPORT_ROW_STATUS_LABELS[row.status],
+      'الملاحظات': row.issues.map(issue => issue.message).join('\n'),
+      ...row.item,
+    }));
+  const worksheet = XLSX.utils.json_to_sheet(reportRows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Import report");
+  XLSX.writeFile(workbook, `${fileName.replace(/\.[^.]+$/, '')}-report.xlsx`);
+};
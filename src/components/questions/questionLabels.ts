@@ -0,0 +1,19 @@
+// src/components/questions/questionLabels.ts
+import type { Question, QuestionType } from '@/types';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'اختيار من متعدد',
+  true_false: 'صح/خطأ',
+  fill_in_the_blanks: 'املأ الفراغات',
+  short_answer: 'سؤال مقالي قصير',
+  multi_select: 'اختيار متعدد الإجابات',
+  matching: 'مطابقة',
+  ordering: 'ترتيب',
+  numeric: 'إجابة رقمية',
+};
+
+export const DIFFICULTY_LABELS: Record<NonNullable<Question['difficulty']>, string> = {
+  easy: 'سهل',
+  medium: 'متوسط',
+  hard: 'صعب',
+};
@@ -17,7 +17,7 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 // Card imports removed as it will be handled by the parent (SubjectDetails) when shown
 import { useToast } from '@/hooks/use-toast';
-import { addSubjectSection } from '@/lib/firestore';
+import { addSubjectSection } from '@/lib/supabaseData';
 import { Loader2, PlusCircle } from 'lucide-react';
 
 const sectionSchema = z.object({
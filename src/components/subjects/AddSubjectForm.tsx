@@ -17,7 +17,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { addSubject } from '@/lib/firestore';
+import { addSubject } from '@/lib/supabaseData';
 import { uploadFile } from '@/lib/storage'; // Import the uploadFile function
 import { Loader2, BookPlus, Upload } from 'lucide-react'; 
 import type { SubjectBranch } from '@/types';
@@ -0,0 +1,108 @@
+// src/components/subjects/CoursePackageExport.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getSubjects } from '@/lib/supabaseData';
+import { exportCoursePackage } from '@/lib/coursePackage';
+import type { Subject } from '@/types';
+import { AlertCircle, Loader2, Package } from 'lucide-react';
+
+/**
+ * Downloads a whole subject as a course package (.zip) for <CoursePackageImport /> on another project.
+ */
+export default function CoursePackageExport() {
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectId, setSubjectId] = useState<string>('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [missingMedia, setMissingMedia] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getSubjects()
+      .then(setSubjects)
+      .catch(error => {
+        console.error("Error fetching subjects for course package export:", error);
+        toast({ variant: "destructive", title: "خطأ", description: "فشل تحميل المواد." });
+      });
+  }, [toast]);
+
+  const handleExport = async () => {
+    if (!subjectId) return;
+    setIsExporting(true);
+    setMissingMedia([]);
+    try {
+      const { blob, fileName, missingMedia: missing } = await exportCoursePackage(subjectId);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setMissingMedia(missing);
+      toast({ title: "نجاح", description: `تم تصدير حزمة المقرر ${fileName}.` });
+    } catch (error) {
+      console.error("Error exporting course package:", error);
+      toast({ variant: "destructive", title: "خطأ في التصدير", description: "فشل تصدير حزمة المقرر." });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <CardHeader className="p-0 pb-4">
+        <div className="flex items-center space-x-2 rtl:space-x-reverse">
+          <Package className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">تصدير حزمة مقرر</CardTitle>
+        </div>
+        <CardDescription>
+          مادة كاملة بأقسامها ودروسها وأسئلتها ووسومها وامتحاناتها (بترتيب الأسئلة ودرجاتها) مع ملفات الوسائط، في ملف ZIP
+          يمكن استيراده في مشروع آخر من صفحة الاستيراد.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0 space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="course-package-subject">المادة</Label>
+          <Select value={subjectId} onValueChange={setSubjectId} disabled={isExporting}>
+            <SelectTrigger id="course-package-subject"><SelectValue placeholder="اختر مادة" /></SelectTrigger>
+            <SelectContent>
+              {subjects.map(subject => (
+                <SelectItem key={subject.id} value={subject.id!}>{subject.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleExport} disabled={!subjectId || isExporting} className="w-full">
+          {isExporting ? <Loader2 className="ml-2 h-5 w-5 animate-spin rtl:mr-2 rtl:ml-0" /> : <Package className="ml-2 h-5 w-5 rtl:mr-2 rtl:ml-0" />}
+          تصدير ZIP
+        </Button>
+        {missingMedia.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>ملفات لم تُضف إلى الحزمة</AlertTitle>
+            <AlertDescription>
+              تعذر تنزيل {missingMedia.length} من ملفات الوسائط، وستبقى روابطها في الحزمة تشير إلى هذا المشروع:
+              <ul className="mt-1 list-disc ps-5 text-xs break-all">
+                {missingMedia.map(url => <li key={url}>{url}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
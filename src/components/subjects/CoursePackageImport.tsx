@@ -0,0 +1,203 @@
+// src/components/subjects/CoursePackageImport.tsx
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  checkCoursePackage,
+  importCoursePackage,
+  readCoursePackage,
+  type CoursePackageFile,
+} from '@/lib/coursePackage';
+import type { CoursePackageConflict, CoursePackageConflictKind, CoursePackageImportResult } from '@/types';
+import { AlertCircle, CheckCircle, Loader2, Package, Upload } from 'lucide-react';
+
+const CONFLICT_LABELS: Record<CoursePackageConflictKind, string> = {
+  subject_name: 'توجد مادة بالاسم نفسه في هذا الفرع، وستُضاف المادة المستوردة بجانبها.',
+  external_id: 'المعرف الخارجي مستخدم هنا، وسيُستورد العنصر دونه.',
+  tag_exists: 'الوسم موجود، وسيُستخدم الوسم الموجود.',
+  missing_question: 'سؤال في الامتحان ليس في الحزمة، وسيُحذف من الامتحان.',
+  missing_exam: 'امتحان مرتبط بالدرس ليس في الحزمة، وسيُزال الربط.',
+  missing_media: 'الملف ليس في الحزمة، وسيبقى الرابط يشير إلى المشروع الأصلي.',
+};
+
+const CONFLICT_ENTITY_LABELS: Record<CoursePackageConflict['entity'], string> = {
+  subject: 'مادة',
+  question: 'سؤال',
+  exam: 'امتحان',
+  tag: 'وسم',
+  lesson: 'درس',
+  media: 'ملف',
+};
+
+const describeCounts = (counts: CoursePackageImportResult['counts']): string =>
+  `${counts.sections} قسم، ${counts.lessons} درس، ${counts.questions} سؤال، ${counts.questionGroups} مجموعة أسئلة، ` +
+  `${counts.exams} امتحان (${counts.examQuestions} ربط سؤال)، ${counts.tags} وسم جديد`;
+
+/**
+ * Imports a course package exported by <CoursePackageExport /> on another project: the file is read and
+ * checked first, and the conflicts are shown before anything is written.
+ */
+export default function CoursePackageImport() {
+  const [pkg, setPkg] = useState<CoursePackageFile | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<CoursePackageConflict[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CoursePackageImportResult | null>(null);
+  const { toast } = useToast();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setPkg(null);
+    setConflicts([]);
+    setError(null);
+    setResult(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    setIsChecking(true);
+    try {
+      const opened = await readCoursePackage(file);
+      setConflicts(await checkCoursePackage(opened));
+      setPkg(opened);
+    } catch (err: any) {
+      console.error("Error checking course package:", err);
+      setError(err.message || "فشل فحص حزمة المقرر.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pkg) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await importCoursePackage(pkg);
+      setResult(imported);
+      setPkg(null);
+      const fileInput = document.getElementById('course-package-input') as HTMLInputElement | null;
+      if (fileInput) fileInput.value = '';
+      toast({ title: "نجاح", description: `تم استيراد المقرر: ${describeCounts(imported.counts)}.` });
+    } catch (err: any) {
+      console.error("Error importing course package:", err);
+      setError(err.message || "فشل استيراد حزمة المقرر.");
+      toast({ variant: "destructive", title: "خطأ", description: "فشل استيراد حزمة المقرر. لم يُضف أي شيء." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const manifest = pkg?.manifest;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex items-center space-x-2 rtl:space-x-reverse">
+          <Package className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl">استيراد حزمة مقرر</CardTitle>
+        </div>
+        <CardDescription>
+          ملف ZIP مصدَّر من صفحة التصدير في مشروع آخر: مادة كاملة بأقسامها ودروسها وأسئلتها ووسومها وامتحاناتها مع ملفات الوسائط.
+          تُنشأ المادة وكل ما فيها بمعرفات جديدة، ولا يُعدَّل أي محتوى موجود.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="course-package-input" className="text-base font-medium">اختر ملف الحزمة</Label>
+          <Input
+            id="course-package-input"
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleFileChange}
+            className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
+            disabled={isChecking || isImporting}
+          />
+          {isChecking && (
+            <p className="text-sm text-muted-foreground flex items-center mt-1">
+              <Loader2 className="h-4 w-4 ml-2 rtl:mr-2 rtl:ml-0 animate-spin" /> جارٍ فحص {fileName}...
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>خطأ في حزمة المقرر</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {manifest && (
+          <div className="space-y-3 rounded-md border p-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">{manifest.subject.name}</span>
+              <Badge variant="secondary">{manifest.sections.length} قسم</Badge>
+              <Badge variant="secondary">{manifest.lessons.length} درس</Badge>
+              <Badge variant="secondary">{manifest.questions.length} سؤال</Badge>
+              <Badge variant="secondary">{manifest.exams.length} امتحان</Badge>
+              <Badge variant="secondary">{manifest.media.length} ملف وسائط</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              صُدِّرت في {new Date(manifest.exported_at).toLocaleString('ar')} (إصدار الحزمة {manifest.format_version}).
+            </p>
+
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">لا توجد تعارضات: سيُستورد كل شيء كما هو في الحزمة.</p>
+            ) : (
+              <ScrollArea className="h-64 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>العنصر</TableHead>
+                      <TableHead>الاسم</TableHead>
+                      <TableHead>التعارض</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {conflicts.map((conflict, index) => (
+                      <TableRow key={`${conflict.kind}-${index}`}>
+                        <TableCell className="whitespace-nowrap">{CONFLICT_ENTITY_LABELS[conflict.entity]}</TableCell>
+                        <TableCell className="max-w-xs truncate" title={conflict.detail ?? undefined}>
+                          {conflict.name || conflict.detail || '-'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{CONFLICT_LABELS[conflict.kind]}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+
+            <Button onClick={handleImport} disabled={isImporting} size="lg" className="w-full sm:w-auto">
+              {isImporting ? <Loader2 className="ml-2 h-5 w-5 animate-spin rtl:mr-2 rtl:ml-0" /> : <Upload className="ml-2 h-5 w-5 rtl:mr-2 rtl:ml-0" />}
+              استيراد المقرر{conflicts.length > 0 ? ' رغم التعارضات' : ''}
+            </Button>
+          </div>
+        )}
+
+        {result && (
+          <Alert variant="default" className="bg-green-50 border-green-300 text-green-700 dark:bg-green-900 dark:border-green-700 dark:text-green-300">
+            <CheckCircle className="h-4 w-4 !text-green-700 dark:!text-green-300" />
+            <AlertTitle>تم استيراد المقرر</AlertTitle>
+            <AlertDescription>
+              {describeCounts(result.counts)}.{' '}
+              <Link href={`/dashboard/subjects/edit/${result.subjectId}`} className="underline">فتح المادة</Link>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
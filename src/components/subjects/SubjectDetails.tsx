@@ -20,7 +20,7 @@ import {
     getLessonsInSection,
     getExams,
     getExamById,
-} from '@/lib/firestore';
+} from '@/lib/supabaseData';
 import type { SubjectSection, Lesson, LessonFile, Question, LessonTeacher, Exam } from '@/types';
 import AddSectionForm from '@/components/sections/AddSectionForm';
 import AddLessonForm from '@/components/lessons/AddLessonForm';
@@ -58,6 +58,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { BlockMath } from 'react-katex';
+import MathText from '@/components/MathText';
 import Link from 'next/link';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
@@ -228,7 +229,7 @@ export default function SubjectDetails({ subjectId, subjectName }: SubjectDetail
   const handleDeleteExistingLesson = async (sectionId: string, lessonId: string, lessonTitle: string) => {
     try {
       await deleteLesson(subjectId, sectionId, lessonId);
-      toast({ title: "نجاح", description: `تم حذف الدرس "${lessonTitle}" بنجاح.` });
+      toast({ title: "نجاح", description: `تم نقل الدرس "${lessonTitle}" إلى سلة المحذوفات.` });
       const currentLessons = lessonsBySection[sectionId] || [];
       setLessonsBySection(prev => ({ ...prev, [sectionId]: currentLessons.filter(l => l.id !== lessonId) }));
     } catch (err) {
@@ -295,7 +296,7 @@ export default function SubjectDetails({ subjectId, subjectName }: SubjectDetail
 
     try {
       await deleteSubjectSection(subjectId, deletingSectionId);
-      toast({ title: "نجاح", description: `تم حذف القسم "${sectionToDelete.title}" وجميع محتوياته بنجاح.` });
+      toast({ title: "نجاح", description: `تم نقل القسم "${sectionToDelete.title}" وجميع دروسه إلى سلة المحذوفات.` });
       setDeletingSectionId(null);
       fetchSubjectContent();
     } catch (err) {
@@ -491,7 +492,7 @@ export default function SubjectDetails({ subjectId, subjectName }: SubjectDetail
                             <AlertDialogHeader className="text-right">
                               <AlertDialogTitle>هل أنت متأكد من حذف القسم "{section.title}"؟</AlertDialogTitle>
                               <AlertDialogDescription>
-                                سيتم حذف هذا القسم وجميع محتوياته بشكل دائم. هذا الإجراء لا يمكن التراجع عنه.
+                                سيتم نقل هذا القسم وجميع دروسه إلى سلة المحذوفات، ويمكن استعادتها معاً من هناك.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter className="flex-row-reverse">
@@ -726,7 +727,7 @@ export default function SubjectDetails({ subjectId, subjectName }: SubjectDetail
                                                     <AlertDialogHeader className="text-right">
                                                         <AlertDialogTitle>هل أنت متأكد من حذف الدرس "{lesson.title}"؟</AlertDialogTitle>
                                                         <AlertDialogDescription>
-                                                        سيتم حذف هذا الدرس بشكل دائم. الأسئلة المرتبطة به في بنك الأسئلة لن تتأثر.
+                                                        سيتم نقل هذا الدرس إلى سلة المحذوفات. الأسئلة المرتبطة به في بنك الأسئلة لن تتأثر، وتعود مرتبطة به عند استعادته.
                                                         </AlertDialogDescription>
                                                     </AlertDialogHeader>
                                                     <AlertDialogFooter className="flex-row-reverse">
@@ -816,7 +817,7 @@ export default function SubjectDetails({ subjectId, subjectName }: SubjectDetail
                             <div className="space-y-2">
                                 {questionsInManageDialog.map((q, idx) => (
                                 <Card key={q.id!} className="p-2.5 bg-muted/40 shadow-xs">
-                                    <p className="text-sm font-medium truncate">{idx + 1}. {q.questionText}</p>
+                                    <p className="text-sm font-medium truncate">{idx + 1}. <MathText text={q.questionText} inline className="whitespace-nowrap" /></p>
                                     <p className="text-xs text-muted-foreground">الصعوبة: {q.difficulty || 'غير محدد'}</p>
                                     <div className="flex justify-end gap-1.5 mt-1.5">
                                     <Button variant="outline" size="xs" asChild>
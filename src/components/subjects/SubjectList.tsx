@@ -2,7 +2,7 @@
 "use client";
 
 import React, { useEffect, useState } from 'react';
-import { getSubjects } from '@/lib/firestore'; 
+import { getSubjects } from '@/lib/supabaseData'; 
 import type { Subject, SubjectBranch } from '@/types'; 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, BookOpen, ImageIcon, HelpCircle } from 'lucide-react';
@@ -14,7 +14,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from '@/hooks/use-toast';
-import { getSubjects, getUserByEmail, updateUser } from '@/lib/firestore';
+import { getSubjects, getUserByEmail, updateUser } from '@/lib/supabaseData';
 import type { Subject, UserProfile } from '@/types';
 import { Loader2, UserPlus, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -3,7 +3,7 @@
 "use client";
 
 import React, { useEffect, useState, useMemo } from "react";
-import { getTeachers, getSubjects, updateUser } from "@/lib/firestore"; 
+import { getTeachers, getSubjects, updateUser } from "@/lib/supabaseData"; 
 import type { UserProfile, Subject } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import {
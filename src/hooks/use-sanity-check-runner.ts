@@ -0,0 +1,50 @@
+// src/hooks/use-sanity-check-runner.ts
+"use client";
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import type { SanityCheckRunResult } from '@/lib/sanityCheckWorker';
+
+const RUN_URL = '/api/sanity-checks/run';
+
+/**
+ * "Run now" for the sanity check worker. The checks run on the server (src/lib/sanityCheckWorker.ts),
+ * which a scheduler also calls every few minutes, so nothing depends on this page staying open; this
+ * only starts a run without waiting for the next one and reports what it did. `onProcessed` runs when
+ * the run is over so the page can refresh its counts.
+ */
+export const useSanityCheckRunner = (onProcessed?: () => void) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<SanityCheckRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+  const onProcessedRef = useRef(onProcessed);
+  onProcessedRef.current = onProcessed;
+
+  const runNow = useCallback(async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch(RUN_URL, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session?.access_token ?? ''}` },
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+      if (mountedRef.current) setLastRun(body as SanityCheckRunResult);
+    } catch (runError: any) {
+      console.error("Sanity check run failed:", runError);
+      if (mountedRef.current) setError(runError?.message || 'Unknown error');
+    } finally {
+      if (mountedRef.current) setIsRunning(false);
+      onProcessedRef.current?.();
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => { mountedRef.current = false; };
+  }, []);
+
+  return { isRunning, lastRun, error, runNow };
+};
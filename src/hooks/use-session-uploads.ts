@@ -0,0 +1,43 @@
+// src/hooks/use-session-uploads.ts
+"use client";
+import { useCallback, useEffect, useRef } from 'react';
+import { deleteFileByUrl } from '@/lib/storage';
+import { findUnreferencedMediaUrls } from '@/lib/supabaseData';
+
+/**
+ * Remembers the files uploaded while a form is open so the ones that never get saved can be removed
+ * from storage: when they are replaced or cleared, and when the form is left without saving. Once the
+ * save succeeds, `commit` removes the leftover uploads and the previously saved files the form dropped,
+ * unless a question or one of its revisions still uses them (see findUnreferencedMediaUrls).
+ */
+export const useSessionUploads = () => {
+  const uploadedRef = useRef<Set<string>>(new Set());
+
+  const track = useCallback((url: string) => {
+    uploadedRef.current.add(url);
+  }, []);
+
+  const discard = useCallback(async (url: string | null | undefined) => {
+    if (url && uploadedRef.current.delete(url)) await deleteFileByUrl(url);
+  }, []);
+
+  const commit = useCallback(async (keptUrls: string[], previousUrls: string[] = []) => {
+    const dropped = Array.from(new Set([...Array.from(uploadedRef.current), ...previousUrls]))
+      .filter(url => !keptUrls.includes(url));
+    uploadedRef.current.clear();
+    const unused = await findUnreferencedMediaUrls(dropped);
+    await Promise.all(unused.map(url => deleteFileByUrl(url)));
+  }, []);
+
+  useEffect(() => {
+    const uploaded = uploadedRef.current;
+    return () => {
+      uploaded.forEach(url => { void deleteFileByUrl(url); });
+      uploaded.clear();
+    };
+  }, []);
+
+  return { track, discard, commit };
+};
+
+export type SessionUploads = ReturnType<typeof useSessionUploads>;
@@ -0,0 +1,8 @@
+// src/instrumentation.ts
+import { getSupabaseConfig } from '@/lib/supabaseConfig';
+
+// Runs once when the server starts: stop right away if the Supabase settings are missing instead of
+// failing on the first request.
+export function register() {
+  getSupabaseConfig();
+}
@@ -0,0 +1,116 @@
+// src/lib/__tests__/arabicText.test.ts
+// Arabic normalization and trigram similarity, which must agree with public.normalize_arabic and pg_trgm,
+// and the search query and highlighting built on them.
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeArabic, searchMatchRanges, toArabicPrefixTsQuery, trigramSimilarity, trigrams } from '@/lib/arabicText';
+
+describe('normalizeArabic', () => {
+  it('drops tashkeel and tatweel', () => {
+    assert.equal(normalizeArabic('الْعَرَبِيَّةُ'), 'العربيه');
+    assert.equal(normalizeArabic('مـــدرسة'), 'مدرسه');
+  });
+
+  it('folds the alef, hamza and yaa forms', () => {
+    assert.equal(normalizeArabic('أحمد إلى آدم ٱبن'), 'احمد الي ادم ابن');
+    assert.equal(normalizeArabic('مسؤول سائل'), 'مسوول سايل');
+  });
+
+  it('writes taa marbuta as haa', () => {
+    assert.equal(normalizeArabic('مدرسة'), normalizeArabic('مدرسه'));
+  });
+
+  it('turns punctuation into single spaces and keeps digits', () => {
+    assert.equal(normalizeArabic('ما هو؟ (الجواب): ٤٢!'), 'ما هو الجواب ٤٢');
+    assert.equal(normalizeArabic('  x = 3.5  '), 'x 3 5');
+  });
+
+  it('keeps the letters of every script, like [:alnum:]', () => {
+    assert.equal(normalizeArabic('Ça va, Ελλάδα'), 'ça va ελλάδα');
+    assert.equal(normalizeArabic('گل پسته'), 'گل پسته');
+  });
+
+  it('treats null as empty', () => {
+    assert.equal(normalizeArabic(null), '');
+  });
+});
+
+describe('trigrams', () => {
+  it('pads each word the way pg_trgm does', () => {
+    assert.deepEqual([...trigrams('قط')], ['  ق', ' قط', 'قط ']);
+  });
+
+  it('works on the normalized text', () => {
+    assert.deepEqual(trigrams('القِطّة'), trigrams('القطه'));
+  });
+});
+
+describe('trigramSimilarity', () => {
+  it('scores spelling variants of the same text as identical', () => {
+    assert.equal(trigramSimilarity('ما عاصمة سوريا؟', 'ما عاصِمةُ سوريا'), 1);
+    assert.equal(trigramSimilarity('إلى أين؟', 'الى اين'), 1);
+  });
+
+  it('scores a rewording as a near-duplicate', () => {
+    assert.ok(trigramSimilarity('ما هي عاصمة سوريا؟', 'ما عاصمة سوريا؟') >= 0.8);
+  });
+
+  it('keeps apart questions that differ in what they ask', () => {
+    const similarity = trigramSimilarity('ما هي عاصمة سوريا؟', 'ما هي عاصمة مصر؟');
+    assert.ok(similarity > 0.3 && similarity < 0.6, `similarity ${similarity}`);
+    assert.ok(trigramSimilarity('ما هي عاصمة سوريا؟', 'احسب مساحة المثلث') < 0.1);
+  });
+
+  it('accepts trigram sets computed beforehand', () => {
+    const grams = trigrams('ما عاصمة سوريا؟');
+    assert.equal(trigramSimilarity(grams, 'ما عاصمة سوريا'), 1);
+  });
+
+  it('is 0 when either text has no words', () => {
+    assert.equal(trigramSimilarity('', 'سوريا'), 0);
+    assert.equal(trigramSimilarity('؟!', '...'), 0);
+  });
+});
+
+describe('toArabicPrefixTsQuery', () => {
+  it('requires every word as a prefix, normalized and without the article', () => {
+    assert.equal(toArabicPrefixTsQuery('الإختبارُ النهائي'), "'اختبار':* & 'نهايي':*");
+    assert.equal(toArabicPrefixTsQuery('بالمدرسة'), "'مدرسه':*");
+  });
+
+  it('keeps an article that would leave less than two letters', () => {
+    assert.equal(toArabicPrefixTsQuery('وال'), "'وال':*");
+  });
+
+  it('never lets quotes or operators through', () => {
+    assert.equal(toArabicPrefixTsQuery("it's a|b"), "'it':* & 's':* & 'a':* & 'b':*");
+  });
+
+  it('is empty when there are no words', () => {
+    assert.equal(toArabicPrefixTsQuery('  ؟! '), '');
+    assert.equal(toArabicPrefixTsQuery(null), '');
+  });
+});
+
+describe('searchMatchRanges', () => {
+  /** The highlighted parts of the text. */
+  const highlighted = (text: string, query: string) => searchMatchRanges(text, query).map(([start, end]) => text.slice(start, end));
+
+  it('marks the match inside the original spelling, skipping the article', () => {
+    assert.deepEqual(searchMatchRanges('الإختبارُ النهائي', 'اختبار'), [[2, 9]]);
+    assert.deepEqual(highlighted('الإختبارُ النهائي', 'اختبار'), ['إختبارُ']);
+  });
+
+  it('marks only the matched prefix of each word', () => {
+    assert.deepEqual(highlighted('في المدرسةِ مدرسون', 'مدرس'), ['مدرس', 'مدرس']);
+  });
+
+  it('prefers the longest query word', () => {
+    assert.deepEqual(highlighted('كتب الكاتب كتابًا', 'كتاب كت'), ['كت', 'كتابً']);
+  });
+
+  it('marks nothing without a query', () => {
+    assert.deepEqual(searchMatchRanges('نص', ''), []);
+    assert.deepEqual(searchMatchRanges('', 'نص'), []);
+  });
+});
@@ -0,0 +1,122 @@
+// src/lib/__tests__/gift.test.ts
+// GIFT import and export against the sample in fixtures/sample.gift.
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { Question } from '@/types';
+import { parseGift, toGift } from '@/lib/gift';
+
+const sample = readFileSync(join(__dirname, 'fixtures', 'sample.gift'), 'utf8');
+
+const byExternalId = (questions: { question: Question }[], externalId: string): Question => {
+  const found = questions.find(item => item.question.externalId === externalId);
+  assert.ok(found, `no question with the external id ${externalId}`);
+  return found.question;
+};
+
+describe('parseGift', () => {
+  const parsed = parseGift(sample);
+
+  it('reads every supported question and warns about the rest', () => {
+    assert.deepEqual(parsed.questions.map(item => item.question.questionType), [
+      'mcq', 'multi_select', 'true_false', 'mcq', 'fill_in_the_blanks', 'fill_in_the_blanks', 'short_answer',
+    ]);
+    assert.equal(parsed.warnings.length, 1);
+    assert.match(parsed.warnings[0], /كم يساوي 2 \+ 2؟/);
+  });
+
+  it('turns categories into the first tag and keeps [tag:] and [id:] comments', () => {
+    assert.deepEqual(parsed.questions[0].tags, ['الجبر', 'معادلات', 'الصف الثامن']);
+    assert.deepEqual(parsed.questions[3].tags, ['الهندسة']);
+    assert.deepEqual(parsed.questions[6].tags, ['التاريخ']);
+    assert.equal(parsed.questions[0].question.externalId, 'alg-1');
+  });
+
+  it('reads MCQ answers with their feedback and the general feedback', () => {
+    const question = byExternalId(parsed.questions, 'alg-1');
+    assert.equal(question.questionType, 'mcq');
+    if (question.questionType !== 'mcq') return;
+    assert.equal(question.questionText, 'ما قيمة س إذا كان 2س = 6؟');
+    assert.deepEqual(question.options.map(opt => [opt.text, opt.feedback]), [
+      ['3', 'صحيح، 6 ÷ 2 = 3'],
+      ['2', 'راجع القسمة'],
+      ['12', 'هذا ناتج الضرب'],
+    ]);
+    assert.equal(question.correctOptionId, question.options[0].id);
+    assert.equal(question.feedback, 'نقسم طرفي المعادلة على 2.');
+  });
+
+  it('reads weighted answers as a multi-select question', () => {
+    const question = parsed.questions[1].question;
+    assert.equal(question.questionType, 'multi_select');
+    if (question.questionType !== 'multi_select') return;
+    assert.deepEqual(question.correctOptionIds.map(id => question.options.find(opt => opt.id === id)?.text), ['2', '3']);
+  });
+
+  it('gives each true/false choice its own feedback', () => {
+    const question = byExternalId(parsed.questions, 'alg-2');
+    assert.equal(question.correctOptionId, 'true');
+    assert.deepEqual(question.options?.map(opt => [opt.id, opt.feedback]), [
+      ['true', 'أحسنت، 4 × 4 = 16'],
+      ['false', 'راجع جدول المربعات'],
+    ]);
+  });
+
+  it('takes images out of [html] text', () => {
+    const question = byExternalId(parsed.questions, 'geo-1');
+    assert.equal(question.questionText, 'ما اسم هذا الشكل؟');
+    assert.equal(question.imageUrl, 'https://example.com/shapes/triangle.png');
+    assert.equal(question.imageHint, 'شكل بثلاثة أضلاع');
+  });
+
+  it('turns a short answer into a blank where the answers are', () => {
+    const question = byExternalId(parsed.questions, 'hist-1');
+    assert.equal(question.questionText, 'فُتحت الأندلس عام ____ بقيادة طارق بن زياد.');
+    assert.deepEqual(question.correctAnswers, ['711']);
+    assert.equal(parsed.questions[4].question.feedback, 'باريس على نهر السين.');
+  });
+});
+
+describe('toGift', () => {
+  it('round-trips the sample', () => {
+    const parsed = parseGift(sample);
+    const exported = toGift(parsed.questions);
+    assert.equal(exported.exported, parsed.questions.length);
+    assert.deepEqual(exported.warnings, []);
+
+    const reparsed = parseGift(exported.content);
+    assert.deepEqual(reparsed.warnings, []);
+    assert.deepEqual(reparsed.questions, parsed.questions);
+  });
+
+  it('escapes what GIFT treats as markup', () => {
+    const question: Question = {
+      questionType: 'mcq',
+      questionText: 'ما نتيجة {a: 1} = ~b؟\nسطر ثانٍ',
+      options: [{ id: 'a', text: '#1', feedback: 'a\\b' }, { id: 'b', text: '=2' }],
+      correctOptionId: 'b',
+      difficulty: 'medium',
+      feedback: null,
+      imageUrl: null,
+      imageHint: null,
+      externalId: null,
+    };
+    const [item] = parseGift(toGift([{ question, tags: [] }]).content).questions;
+    assert.equal(item.question.questionText, question.questionText);
+    assert.deepEqual(item.question.options?.map(opt => [opt.text, opt.feedback]), [['#1', 'a\\b'], ['=2', undefined]]);
+    assert.equal(item.question.correctOptionId, item.question.options?.[1].id);
+  });
+
+  it('leaves out what GIFT cannot hold, with a warning', () => {
+    const twoBlanks: Question = {
+      questionType: 'fill_in_the_blanks',
+      questionText: 'فُتحت الأندلس عام ____ بقيادة ____.',
+      correctAnswers: ['711', 'طارق بن زياد'],
+    };
+    const ordering: Question = { questionType: 'ordering', questionText: 'رتب', options: [{ id: 'a', text: 'أ' }] };
+    const result = toGift([{ question: twoBlanks, tags: [] }, { question: ordering, tags: [] }]);
+    assert.equal(result.exported, 0);
+    assert.equal(result.warnings.length, 2);
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/__tests__/moodleXml.test.ts
+// Moodle XML import and export against the sample in fixtures/sample-moodle.xml.
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+import type { Question } from '@/types';
+import { parseMoodleXml, toMoodleXml } from '@/lib/moodleXml';
+import { toBase64, type InterchangeParseResult } from '@/lib/questionInterchange';
+
+// parseMoodleXml uses the browser's DOMParser.
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const sample = readFileSync(join(__dirname, 'fixtures', 'sample-moodle.xml'), 'utf8');
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC';
+
+/** The questions with embedded image URLs, which depend on the position in the file, replaced by the files. */
+const withImageFiles = ({ questions, files }: InterchangeParseResult) =>
+  questions.map(({ question, tags }) => {
+    const file = question.imageUrl ? files.get(question.imageUrl) : undefined;
+    return {
+      question: file ? { ...question, imageUrl: `${file.name}:${file.contentType}:${toBase64(file.data)}` } : question,
+      tags,
+    };
+  });
+
+describe('parseMoodleXml', () => {
+  const parsed = parseMoodleXml(sample);
+  const question = (index: number): Question => parsed.questions[index].question;
+
+  it('reads every supported question and warns about the rest', () => {
+    assert.deepEqual(parsed.questions.map(item => item.question.questionType), [
+      'mcq', 'multi_select', 'true_false', 'mcq', 'fill_in_the_blanks', 'fill_in_the_blanks', 'short_answer',
+    ]);
+    assert.equal(parsed.warnings.length, 1);
+    assert.match(parsed.warnings[0], /numerical/);
+  });
+
+  it('turns categories into the first tag, followed by the question tags', () => {
+    assert.deepEqual(parsed.questions.map(item => item.tags), [
+      ['الجبر', 'معادلات', 'الصف الثامن'],
+      ['الجبر'],
+      ['الجبر'],
+      ['الهندسة'],
+      ['التاريخ'],
+      ['التاريخ'],
+      ['التاريخ'],
+    ]);
+  });
+
+  it('reads HTML text, per-answer feedback, general feedback and the idnumber', () => {
+    const mcq = question(0);
+    assert.equal(mcq.questionType, 'mcq');
+    if (mcq.questionType !== 'mcq') return;
+    assert.equal(mcq.questionText, 'ما قيمة س إذا كان 2س = 6؟');
+    assert.equal(mcq.externalId, 'alg-1');
+    assert.equal(mcq.feedback, 'نقسم طرفي المعادلة على 2.');
+    assert.deepEqual(mcq.options.map(opt => [opt.text, opt.feedback]), [
+      ['3', 'صحيح، 6 ÷ 2 = 3'],
+      ['2', 'راجع القسمة'],
+      ['12', 'هذا ناتج الضرب & ليس القسمة'],
+    ]);
+    assert.equal(mcq.correctOptionId, mcq.options[0].id);
+  });
+
+  it('reads multiple-answer questions and true/false feedback', () => {
+    const multi = question(1);
+    assert.equal(multi.questionType, 'multi_select');
+    if (multi.questionType === 'multi_select') {
+      assert.deepEqual(multi.correctOptionIds.map(id => multi.options.find(opt => opt.id === id)?.text), ['2', '3']);
+    }
+    const trueFalse = question(2);
+    assert.equal(trueFalse.correctOptionId, 'true');
+    assert.deepEqual(trueFalse.options?.map(opt => opt.feedback), ['أحسنت، 4 × 4 = 16', 'راجع جدول المربعات']);
+  });
+
+  it('returns embedded images as files', () => {
+    const shape = question(3);
+    assert.equal(shape.questionText, 'ما اسم هذا الشكل؟');
+    assert.equal(shape.imageHint, 'شكل بثلاثة أضلاع');
+    const file = parsed.files.get(shape.imageUrl ?? '');
+    assert.ok(file, 'the image is not among the files');
+    assert.equal(file.name, 'shape 1.png');
+    assert.equal(file.contentType, 'image/png');
+    assert.equal(toBase64(file.data), PNG);
+  });
+
+  it('reads short answer and cloze gaps as blanks', () => {
+    assert.equal(question(4).questionText, 'عاصمة فرنسا هي ____.');
+    assert.deepEqual(question(4).correctAnswers, ['باريس']);
+    assert.equal(question(5).questionText, 'فُتحت الأندلس عام ____ بقيادة ____.');
+    assert.deepEqual(question(5).correctAnswers, ['711', 'طارق بن زياد']);
+  });
+
+  it('reads essays with their grader information as the model answer', () => {
+    const essay = question(6);
+    assert.equal(essay.questionType, 'short_answer');
+    assert.equal(essay.modelAnswer, 'ينبع من تركيا ويمر بسوريا والعراق.');
+  });
+
+  it('refuses files that are not Moodle XML', () => {
+    assert.throws(() => parseMoodleXml('<html><body></body></html>'));
+    assert.throws(() => parseMoodleXml('<quiz><question'));
+  });
+});
+
+describe('toMoodleXml', () => {
+  it('round-trips the sample, embedded image included', () => {
+    const parsed = parseMoodleXml(sample);
+    const exported = toMoodleXml(parsed.questions, parsed.files);
+    assert.equal(exported.exported, parsed.questions.length);
+    assert.deepEqual(exported.warnings, []);
+
+    const reparsed = parseMoodleXml(exported.content);
+    assert.deepEqual(reparsed.warnings, []);
+    assert.deepEqual(withImageFiles(reparsed), withImageFiles(parsed));
+  });
+
+  it('links images it has no file for', () => {
+    const question: Question = {
+      questionType: 'true_false',
+      questionText: 'هذا مثلث.',
+      options: [{ id: 'true', text: 'صحيح' }, { id: 'false', text: 'خطأ' }],
+      correctOptionId: 'true',
+      imageUrl: 'https://example.com/shapes/triangle.png',
+      imageHint: 'مثلث',
+    };
+    const exported = toMoodleXml([{ question, tags: [] }]);
+    assert.doesNotMatch(exported.content, /<file /);
+    const [item] = parseMoodleXml(exported.content).questions;
+    assert.equal(item.question.imageUrl, 'https://example.com/shapes/triangle.png');
+    assert.equal(item.question.imageHint, 'مثلث');
+  });
+
+  it('keeps answers with cloze markup intact', () => {
+    const question: Question = {
+      questionType: 'fill_in_the_blanks',
+      questionText: 'الصيغة هي ____ والرمز ____',
+      correctAnswers: ['{a}/b#c', '~x & "y"'],
+    };
+    const [item] = parseMoodleXml(toMoodleXml([{ question, tags: [] }]).content).questions;
+    assert.deepEqual(item.question.correctAnswers, question.correctAnswers);
+    assert.equal(item.question.questionText, question.questionText);
+  });
+
+  it('leaves out question types Moodle XML export does not cover, with a warning', () => {
+    const numeric: Question = { questionType: 'numeric', questionText: 'كم يساوي 2 + 2؟', numericAnswer: 4, tolerance: 0 };
+    const result = toMoodleXml([{ question: numeric, tags: [] }]);
+    assert.equal(result.exported, 0);
+    assert.equal(result.warnings.length, 1);
+  });
+});
@@ -0,0 +1,122 @@
+// src/lib/arabicText.ts
+// Arabic text normalization and trigram similarity, for comparing texts in the browser (rows of an
+// import file against each other). normalizeArabic matches public.normalize_arabic in
+// supabase/migrations/*_question_duplicates.sql, and trigramSimilarity scores like pg_trgm's
+// similarity(), so the browser and the database agree on what counts as a near-duplicate.
+// The search helpers below mirror supabase/migrations/*_arabic_search.sql the same way.
+
+const TASHKEEL = /[\u064B-\u065F\u0670\u0640]/g;
+const isTashkeel = (char: string): boolean => /[\u064B-\u065F\u0670\u0640]/.test(char);
+
+const LETTER_FORMS: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+  'ؤ': 'و',
+  'ئ': 'ي', 'ى': 'ي',
+  'ة': 'ه',
+};
+
+// Anything but a letter or digit, of any script: what [:alnum:] leaves out in public.normalize_arabic.
+const NON_WORD = /[^\p{L}\p{N}]+/gu;
+
+/** Lower case, no tashkeel or tatweel, one form per letter (alef/hamza/yaa/taa marbuta), punctuation as spaces. */
+export const normalizeArabic = (text: string | null | undefined): string =>
+  (text || '')
+    .toLowerCase()
+    .replace(TASHKEEL, '')
+    .replace(/[أإآٱؤئىة]/g, letter => LETTER_FORMS[letter])
+    .replace(NON_WORD, ' ')
+    .trim();
+
+/** Character trigrams of every word, padded the way pg_trgm pads them ("  w", " wo", ..., "rd "). */
+export const trigrams = (text: string): Set<string> => {
+  const result = new Set<string>();
+  for (const word of normalizeArabic(text).split(' ')) {
+    if (!word) continue;
+    const chars = Array.from(`  ${word} `);
+    for (let i = 0; i + 3 <= chars.length; i++) {
+      result.add(chars.slice(i, i + 3).join(''));
+    }
+  }
+  return result;
+};
+
+/** Shared trigrams over all distinct trigrams of both texts, from 0 (nothing in common) to 1. */
+export const trigramSimilarity = (a: string | Set<string>, b: string | Set<string>): number => {
+  const setA = typeof a === 'string' ? trigrams(a) : a;
+  const setB = typeof b === 'string' ? trigrams(b) : b;
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach(gram => { if (setB.has(gram)) shared++; });
+  return shared / (setA.size + setB.size - shared);
+};
+
+// The definite article, alone or after a clinging preposition, longest first. Search ignores it (like
+// public.arabic_search_text) on words that keep at least two letters without it.
+const ARTICLES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+
+const articleLength = (word: string): number =>
+  ARTICLES.find(article => word.startsWith(article) && word.length - article.length >= 2)?.length ?? 0;
+
+const withoutArticle = (word: string): string => word.slice(articleLength(word));
+
+/** The words of a search box entry as search compares them: normalized, without the article. */
+export const searchTerms = (query: string | null | undefined): string[] =>
+  normalizeArabic(query).split(' ').filter(Boolean).map(withoutArticle);
+
+/**
+ * A to_tsquery expression that requires every word of the query as a prefix, for the search_vector
+ * columns (the same query public.arabic_prefix_tsquery builds in the database). Empty for no words.
+ */
+export const toArabicPrefixTsQuery = (query: string | null | undefined): string =>
+  searchTerms(query).map(term => `'${term}':*`).join(' & ');
+
+/** Local counterpart of the search_vector match: every query word starts some word of the text. */
+export const matchesArabicSearch = (text: string | null | undefined, query: string | null | undefined): boolean => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return true;
+  const words = searchTerms(text);
+  return terms.every(term => words.some(word => word.startsWith(term)));
+};
+
+/**
+ * Ranges of `text` (start inclusive, end exclusive) matched by the query words, for highlighting:
+ * the same prefix match as matchesArabicSearch, so "اختبار" marks "إختبارُ" inside "الإختبارُ".
+ * Sorted and non-overlapping.
+ */
+export const searchMatchRanges = (text: string, query: string | null | undefined): Array<[number, number]> => {
+  const terms = searchTerms(query).sort((a, b) => b.length - a.length);
+  if (terms.length === 0 || !text) return [];
+
+  // Normalize character by character, remembering where each normalized character came from.
+  // Diacritics vanish, so a match runs straight through them.
+  let normalized = '';
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (isTashkeel(text[i])) continue;
+    const folded = normalizeArabic(text[i]) || ' ';
+    for (const char of folded) {
+      normalized += char;
+      origin.push(i);
+    }
+  }
+
+  const ranges: Array<[number, number]> = [];
+  let wordStart = 0;
+  normalized.split(' ').forEach(word => {
+    const stem = wordStart + articleLength(word);
+    const match = terms.find(term => normalized.startsWith(term, stem));
+    if (word && match) {
+      let end = origin[stem + match.length - 1] + 1;
+      while (end < text.length && isTashkeel(text[end])) end++;
+      ranges.push([origin[stem], end]);
+    }
+    wordStart += word.length + 1;
+  });
+
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const previous = merged[merged.length - 1];
+    if (previous && range[0] <= previous[1]) previous[1] = Math.max(previous[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+};
@@ -0,0 +1,191 @@
+// src/lib/coursePackage.ts
+// Course package files: a zip with course.json -- the manifest of src/lib/repositories/coursePackages.ts --
+// and a media/ folder holding the Storage files the course uses (subject and exam images, question,
+// option and passage media, lesson attachments).
+//
+// On export every public Storage URL in the manifest is downloaded into media/ and listed in
+// manifest.media. On import those files are uploaded to the same buckets of the target project and the
+// manifest's URLs are rewritten to the new ones before the rows are created. Other links (YouTube videos,
+// external sites) are kept as they are.
+import type { Json } from '@/types/supabase';
+import type { CoursePackageConflict, CoursePackageImportResult } from '@/types';
+import {
+  COURSE_PACKAGE_FORMAT,
+  COURSE_PACKAGE_FORMAT_VERSION,
+  getCoursePackageConflicts,
+  getCoursePackageManifest,
+  importCoursePackageManifest,
+  type CoursePackageManifest,
+  type CoursePackageMedia,
+} from '@/lib/supabaseData';
+import { deleteFileByUrl, downloadFileByUrl, parseStorageUrl, uploadFile } from '@/lib/storage';
+import { createZip, readZip, type ZipEntry } from '@/lib/zip';
+
+export const COURSE_PACKAGE_MANIFEST_NAME = 'course.json';
+const MEDIA_FOLDER = 'media';
+
+/** A package read from a file, not imported yet. */
+export interface CoursePackageFile {
+  manifest: CoursePackageManifest;
+  /** The files of media/, by path. */
+  media: Map<string, Uint8Array>;
+}
+
+export interface CoursePackageExport {
+  blob: Blob;
+  fileName: string;
+  /** Storage URLs that could not be downloaded; the package still refers to them. */
+  missingMedia: string[];
+}
+
+type UrlMapper = (url: string) => string;
+
+const mapUrl = (value: string | null, replace: UrlMapper): string | null => (value ? replace(value) : value);
+
+// Question options and lesson files are JSON arrays of objects with URL fields.
+const mapJsonUrls = (value: Json | null, keys: string[], replace: UrlMapper): Json | null => {
+  if (!Array.isArray(value)) return value;
+  return value.map(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+    const copy = { ...item };
+    keys.forEach(key => {
+      const url = copy[key];
+      if (typeof url === 'string' && url) copy[key] = replace(url);
+    });
+    return copy;
+  });
+};
+
+/** The manifest with `replace` applied to every media URL in it. */
+const mapMediaUrls = (manifest: CoursePackageManifest, replace: UrlMapper): CoursePackageManifest => ({
+  ...manifest,
+  subject: { ...manifest.subject, image: mapUrl(manifest.subject.image, replace) },
+  lessons: manifest.lessons.map(lesson => ({ ...lesson, files: mapJsonUrls(lesson.files, ['url'], replace) })),
+  question_groups: manifest.question_groups.map(group => ({
+    ...group,
+    stimulus_image_url: mapUrl(group.stimulus_image_url, replace),
+  })),
+  questions: manifest.questions.map(question => ({
+    ...question,
+    image_url: mapUrl(question.image_url, replace),
+    options: mapJsonUrls(question.options, ['imageUrl', 'audioUrl'], replace),
+  })),
+  exams: manifest.exams.map(exam => ({ ...exam, image: mapUrl(exam.image, replace) })),
+});
+
+const collectStorageUrls = (manifest: CoursePackageManifest): string[] => {
+  const urls = new Set<string>();
+  mapMediaUrls(manifest, url => {
+    if (parseStorageUrl(url)) urls.add(url);
+    return url;
+  });
+  return Array.from(urls);
+};
+
+/** Builds the package file of a subject. Media that cannot be downloaded is reported, not fatal. */
+export const exportCoursePackage = async (subjectId: string): Promise<CoursePackageExport> => {
+  const manifest = await getCoursePackageManifest(subjectId);
+  const entries: ZipEntry[] = [];
+  const media: CoursePackageMedia[] = [];
+  const missingMedia: string[] = [];
+
+  for (const url of collectStorageUrls(manifest)) {
+    try {
+      const blob = await downloadFileByUrl(url);
+      const fileName = parseStorageUrl(url)!.filePath.split('/').pop();
+      const path = `${MEDIA_FOLDER}/${media.length + 1}-${fileName}`;
+      entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+      media.push({ path, url, contentType: blob.type || null });
+    } catch (error) {
+      console.error(`Could not add ${url} to the course package:`, error);
+      missingMedia.push(url);
+    }
+  }
+
+  const manifestJson = JSON.stringify({ ...manifest, media }, null, 2);
+  return {
+    blob: createZip([{ name: COURSE_PACKAGE_MANIFEST_NAME, data: new TextEncoder().encode(manifestJson) }, ...entries]),
+    fileName: `${manifest.subject.name.trim().replace(/\s+/g, '_')}.course.zip`,
+    missingMedia,
+  };
+};
+
+/** Opens a package file and checks that this version of the app can import it. */
+export const readCoursePackage = async (file: File): Promise<CoursePackageFile> => {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(await file.arrayBuffer());
+  } catch (error) {
+    console.error("Error reading course package:", error);
+    throw new Error("الملف ليس حزمة مقرر صالحة (ZIP).");
+  }
+
+  const manifestEntry = entries.find(entry => entry.name === COURSE_PACKAGE_MANIFEST_NAME);
+  if (!manifestEntry) throw new Error(`لا تحتوي الحزمة على الملف ${COURSE_PACKAGE_MANIFEST_NAME}.`);
+
+  let manifest: CoursePackageManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+  } catch {
+    throw new Error(`تعذر قراءة ${COURSE_PACKAGE_MANIFEST_NAME} في الحزمة.`);
+  }
+  if (manifest?.format !== COURSE_PACKAGE_FORMAT || !manifest.subject) {
+    throw new Error(`الملف ${COURSE_PACKAGE_MANIFEST_NAME} لا يصف حزمة مقرر.`);
+  }
+  if (manifest.format_version !== COURSE_PACKAGE_FORMAT_VERSION) {
+    throw new Error(`إصدار الحزمة (${manifest.format_version}) غير مدعوم. الإصدار المدعوم: ${COURSE_PACKAGE_FORMAT_VERSION}.`);
+  }
+
+  const media = new Map<string, Uint8Array>();
+  entries
+    .filter(entry => entry.name.startsWith(`${MEDIA_FOLDER}/`))
+    .forEach(entry => media.set(entry.name, entry.data));
+  return { manifest: { ...manifest, media: manifest.media || [] }, media };
+};
+
+// Storage files the course uses that the package does not hold: left out on export, or removed from the
+// zip since. Their URLs are imported unchanged and keep pointing at the project the course came from.
+const missingMediaConflicts = ({ manifest, media }: CoursePackageFile): CoursePackageConflict[] => {
+  const packed = new Map(manifest.media.filter(item => media.has(item.path)).map(item => [item.url, item.path]));
+  return collectStorageUrls(manifest)
+    .filter(url => !packed.has(url))
+    .map(url => ({
+      kind: 'missing_media' as const,
+      entity: 'media' as const,
+      name: manifest.media.find(item => item.url === url)?.path ?? null,
+      detail: url,
+    }));
+};
+
+/** Everything an import of the package would bring across differently, without importing anything. */
+export const checkCoursePackage = async (pkg: CoursePackageFile): Promise<CoursePackageConflict[]> => [
+  ...(await getCoursePackageConflicts(pkg.manifest)),
+  ...missingMediaConflicts(pkg),
+];
+
+/**
+ * Uploads the package's media and creates the course under new ids. When creating the rows fails, the
+ * uploaded files are removed again.
+ */
+export const importCoursePackage = async (pkg: CoursePackageFile): Promise<CoursePackageImportResult> => {
+  const uploaded = new Map<string, string>();
+  try {
+    for (const item of pkg.manifest.media) {
+      const data = pkg.media.get(item.path);
+      const location = parseStorageUrl(item.url);
+      if (!data || !location || uploaded.has(item.url)) continue;
+      const folder = location.filePath.split('/').slice(0, -1).join('/');
+      // Drop the numbering of the package and the upload timestamp of the source project.
+      const fileName = item.path.slice(MEDIA_FOLDER.length + 1).replace(/^(\d+-)+/, '') || 'file';
+      const file = new File([data as BlobPart], fileName, { type: item.contentType || undefined });
+      uploaded.set(item.url, await uploadFile(file, location.bucketName, folder || undefined));
+    }
+
+    const manifest = { ...mapMediaUrls(pkg.manifest, url => uploaded.get(url) ?? url), media: [] };
+    const result = await importCoursePackageManifest(manifest);
+    return { ...result, conflicts: [...result.conflicts, ...missingMediaConflicts(pkg)] };
+  } catch (error) {
+    await Promise.all(Array.from(uploaded.values()).map(url => deleteFileByUrl(url)));
+    throw error;
+  }
+};
@@ -0,0 +1,344 @@
+// src/lib/gift.ts
+// GIFT, Moodle's plain-text question format (https://docs.moodle.org/en/GIFT_format), to and from our
+// questions. A question is one paragraph: its text with the answers in braces,
+//
+//   // [id:alg-12] [tag:algebra]
+//   ::title::[html]text {=right#feedback ~wrong#feedback ####general feedback}
+//
+// where ~ = # { } : and \ are escaped with a backslash. $CATEGORY: lines put the questions after them in
+// a category, which becomes a tag. GIFT cannot embed files, so images are links in [html] text, and a
+// question has one set of answers, so fill-in-the-blanks questions can only have one blank.
+import type { Option, Question } from '@/types';
+import {
+  BLANK_MARKER,
+  addTag,
+  categoryPath,
+  categoryTag,
+  countBlanks,
+  describeQuestion,
+  imageHtml,
+  normalizeBlanks,
+  splitHtml,
+  textToHtml,
+  type HtmlImage,
+  type InterchangeExportResult,
+  type InterchangeParseResult,
+  type InterchangeQuestion,
+} from '@/lib/questionInterchange';
+
+const escapeGift = (text: string): string => text.replace(/[~=#{}:\\]/g, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+
+const unescapeGift = (text: string): string => text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+
+/** Position of `token` at or after `from` that is not escaped, or -1. */
+const findUnescaped = (text: string, token: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+};
+
+// --- Reading ----------------------------------------------------------------------------------------
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  /** The %n% credit in front of the answer, if any. */
+  weight: number | null;
+  text: string;
+  feedback: string | null;
+}
+
+/** The answers of a brace block, split on their unescaped = and ~ markers. */
+const splitAnswers = (body: string): GiftAnswer[] => {
+  const starts: number[] = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\') i++;
+    else if (body[i] === '=' || body[i] === '~') starts.push(i);
+  }
+  return starts.map((start, index) => {
+    let raw = body.slice(start + 1, index + 1 < starts.length ? starts[index + 1] : body.length);
+    let weight: number | null = null;
+    const weightMatch = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(raw);
+    if (weightMatch) {
+      weight = Number(weightMatch[1]);
+      raw = raw.slice(weightMatch[0].length);
+    }
+    const feedbackAt = findUnescaped(raw, '#');
+    return {
+      marker: body[start] as '=' | '~',
+      weight,
+      text: feedbackAt >= 0 ? raw.slice(0, feedbackAt) : raw,
+      feedback: feedbackAt >= 0 ? raw.slice(feedbackAt + 1) : null,
+    };
+  });
+};
+
+type GiftTextFormat = 'html' | 'moodle' | 'plain' | 'markdown';
+
+const readText = (raw: string, format: GiftTextFormat): { text: string; images: HtmlImage[] } =>
+  format === 'html' ? splitHtml(unescapeGift(raw)) : { text: unescapeGift(raw).trim(), images: [] };
+
+const readFeedback = (raw: string | null, format: GiftTextFormat): Pick<Option, 'feedback'> => {
+  const feedback = raw === null ? '' : readText(raw, format).text;
+  return feedback ? { feedback } : {};
+};
+
+/** Credit of an answer in percent: = answers are fully right, unweighted ~ answers wrong. */
+const answerCredit = (answer: GiftAnswer): number => answer.weight ?? (answer.marker === '=' ? 100 : 0);
+
+/** One question paragraph, without its comment and category lines; a reason instead when it is skipped. */
+const parseGiftQuestion = (source: string, warnings: string[]): Question | string => {
+  let rest = source;
+  if (rest.startsWith('::')) {
+    const titleEnd = findUnescaped(rest, '::', 2);
+    if (titleEnd >= 0) rest = rest.slice(titleEnd + 2).trimStart();
+  }
+  let format: GiftTextFormat = 'moodle';
+  const formatMatch = /^\[(html|moodle|plain|markdown)\]/i.exec(rest);
+  if (formatMatch) {
+    format = formatMatch[1].toLowerCase() as GiftTextFormat;
+    rest = rest.slice(formatMatch[0].length);
+  }
+
+  const open = findUnescaped(rest, '{');
+  const label = describeQuestion(unescapeGift(open >= 0 ? rest.slice(0, open) : rest));
+  if (open < 0) return `السؤال ${label}: لا توجد إجابات بين { }، فهو نص وصفي وليس سؤالًا.`;
+  const close = findUnescaped(rest, '}', open + 1);
+  if (close < 0) return `السؤال ${label}: لا يوجد قوس إغلاق } للإجابات.`;
+
+  let body = rest.slice(open + 1, close);
+  let generalFeedback: string | null = null;
+  const generalFeedbackAt = findUnescaped(body, '####');
+  if (generalFeedbackAt >= 0) {
+    generalFeedback = readText(body.slice(generalFeedbackAt + 4), format).text || null;
+    body = body.slice(0, generalFeedbackAt);
+  }
+
+  // Text after the answers ("Moodle costs {~lots =nothing} to download.") means they fill a gap.
+  const stem = readText(rest.slice(0, open), format);
+  const tail = readText(rest.slice(close + 1), format);
+  const images = [...stem.images, ...tail.images];
+  if (images.length > 1) warnings.push(`السؤال ${label}: يحتوي على ${images.length} صور، واستُوردت الأولى فقط.`);
+  const base = {
+    questionText: [stem.text, tail.text ? BLANK_MARKER : '', tail.text].filter(Boolean).join(' '),
+    imageUrl: images[0]?.src ?? null,
+    imageHint: images[0]?.alt ? images[0].alt.slice(0, 50) : null,
+    difficulty: 'medium' as const,
+    feedback: generalFeedback,
+  };
+
+  const trimmedBody = body.trim();
+  if (!trimmedBody) return { ...base, questionType: 'short_answer' };
+  if (trimmedBody.startsWith('#')) return `السؤال ${label}: الأسئلة الرقمية في GIFT غير مدعومة في الاستيراد.`;
+
+  const trueFalse = /^(TRUE|FALSE|T|F)\s*(#|$)/i.exec(trimmedBody);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    const feedbackAt = findUnescaped(trimmedBody, '#');
+    const [wrongFeedback = null, rightFeedback = null] = feedbackAt >= 0 ? splitFeedbacks(trimmedBody.slice(feedbackAt + 1)) : [];
+    return {
+      ...base,
+      questionType: 'true_false',
+      options: [
+        { id: 'true', text: 'صحيح', ...readFeedback(isTrue ? rightFeedback : wrongFeedback, format) },
+        { id: 'false', text: 'خطأ', ...readFeedback(isTrue ? wrongFeedback : rightFeedback, format) },
+      ],
+      correctOptionId: isTrue ? 'true' : 'false',
+    };
+  }
+
+  const answers = splitAnswers(body);
+  if (answers.length === 0) return `السؤال ${label}: تعذر قراءة الإجابات.`;
+  if (answers.some(answer => findUnescaped(answer.text, '->') >= 0)) {
+    return `السؤال ${label}: أسئلة المطابقة في GIFT غير مدعومة في الاستيراد.`;
+  }
+
+  if (answers.every(answer => answer.marker === '=')) {
+    // Short answer: the accepted answers fill the gap, or a blank added at the end of the text.
+    const accepted = answers.filter(answer => answerCredit(answer) === 100).map(answer => readText(answer.text, format).text).filter(Boolean);
+    if (accepted.length === 0) return `السؤال ${label}: لا توجد إجابة مقبولة بدرجة كاملة.`;
+    if (accepted.length > 1) warnings.push(`السؤال ${label}: له ${accepted.length} إجابات مقبولة، واستُوردت الأولى فقط.`);
+    let questionText = normalizeBlanks(base.questionText);
+    if (countBlanks(questionText) === 0) questionText = `${questionText} ${BLANK_MARKER}`;
+    if (countBlanks(questionText) > 1) return `السؤال ${label}: فيه أكثر من فراغ وإجابة واحدة فقط.`;
+    return { ...base, questionText, questionType: 'fill_in_the_blanks', correctAnswers: [accepted[0]] };
+  }
+
+  const single = answers.some(answer => answer.marker === '=');
+  const options: Option[] = answers.map((answer, index) => {
+    const { text, images: optionImages } = readText(answer.text, format);
+    return {
+      id: `option-${index + 1}`,
+      text,
+      ...(optionImages[0] ? { imageUrl: optionImages[0].src } : {}),
+      ...(single ? readFeedback(answer.feedback, format) : {}),
+    };
+  });
+  if (options.some(opt => !opt.text && !opt.imageUrl)) return `السؤال ${label}: أحد الخيارات فارغ.`;
+
+  if (single) {
+    if (answers.filter(answer => answer.marker === '=').length > 1 || answers.some(answer => answer.marker === '~' && answerCredit(answer) > 0)) {
+      warnings.push(`السؤال ${label}: الدرجات الجزئية والإجابات الصحيحة الإضافية لا تُستورد؛ الإجابة الصحيحة هي أول إجابة بعلامة =.`);
+    }
+    return { ...base, questionType: 'mcq', options, correctOptionId: options[answers.findIndex(answer => answer.marker === '=')].id };
+  }
+
+  // Without an = answer, every answer with positive credit has to be picked.
+  const correctOptionIds = options.filter((_, index) => answerCredit(answers[index]) > 0).map(opt => opt.id);
+  if (correctOptionIds.length === 0) return `السؤال ${label}: لا توجد إجابة بدرجة موجبة.`;
+  if (answers.some(answer => answer.feedback)) {
+    warnings.push(`السؤال ${label}: تعليقات الخيارات في أسئلة الاختيار المتعدد الإجابات لا تُستورد.`);
+  }
+  return { ...base, questionType: 'multi_select', options, correctOptionIds };
+};
+
+// {T#wrong answer feedback#right answer feedback}
+const splitFeedbacks = (raw: string): string[] => {
+  const second = findUnescaped(raw, '#');
+  return second >= 0 ? [raw.slice(0, second), raw.slice(second + 1)] : [raw];
+};
+
+const META = /\[(id|tag):((?:\\.|[^\]])*)\]/g;
+
+/**
+ * Reads a GIFT file. Comment lines right above a question may carry its [id:...] (kept as the external
+ * id) and [tag:...] names; the question's category is its first tag.
+ */
+export const parseGift = (content: string): InterchangeParseResult => {
+  const questions: InterchangeQuestion[] = [];
+  const warnings: string[] = [];
+  let category: string | null = null;
+
+  for (const paragraph of content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/)) {
+    const lines: string[] = [];
+    const ownTags: string[] = [];
+    let externalId: string | null = null;
+    for (const line of paragraph.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('//')) {
+        META.lastIndex = 0;
+        for (let match = META.exec(trimmed); match; match = META.exec(trimmed)) {
+          const value = unescapeGift(match[2]).trim();
+          if (match[1] === 'id') externalId = value || null;
+          else addTag(ownTags, value);
+        }
+        continue;
+      }
+      const categoryMatch = /^\$CATEGORY:\s*(.*)$/i.exec(trimmed);
+      if (categoryMatch) {
+        category = categoryTag(categoryMatch[1]);
+        continue;
+      }
+      lines.push(line);
+    }
+
+    const source = lines.join('\n').trim();
+    if (!source) continue;
+    const question = parseGiftQuestion(source, warnings);
+    if (typeof question === 'string') {
+      warnings.push(question);
+      continue;
+    }
+    const tags: string[] = [];
+    addTag(tags, category);
+    ownTags.forEach(tag => addTag(tags, tag));
+    questions.push({ question: { ...question, externalId }, tags });
+  }
+  return { questions, files: new Map(), warnings };
+};
+
+// --- Writing ----------------------------------------------------------------------------------------
+
+const escapeMeta = (text: string): string => text.replace(/[\]\n]/g, ' ').trim();
+
+const answerLine = (marker: string, text: string, feedback?: string | null): string =>
+  `${marker}${escapeGift(text)}${feedback ? `#${escapeGift(feedback)}` : ''}`;
+
+// Multi-select credit: right answers share 100%, wrong ones take it away again.
+const shareOf = (count: number): string => (100 / count).toFixed(5).replace(/\.?0+$/, '');
+
+/** The question paragraph, or null with a warning when GIFT cannot hold the question. */
+const giftQuestion = (question: Question, warnings: string[]): string | null => {
+  const label = describeQuestion(question.questionText);
+  const html = !!question.imageUrl;
+  const text = (value: string) => escapeGift(html ? textToHtml(value) : value);
+  const image = question.imageUrl ? escapeGift(`<br>${imageHtml(question.imageUrl, question.imageHint)}`) : '';
+  const generalFeedback = question.feedback ? `\n####${escapeGift(question.feedback)}` : '';
+  const prefix = html ? '[html]' : '';
+
+  const choices = (lines: string[]) => `${prefix}${text(question.questionText)}${image} {\n${lines.join('\n')}${generalFeedback}\n}`;
+  const hasTextOptions = (options: Option[]): boolean => {
+    if (options.some(opt => !opt.text.trim())) {
+      warnings.push(`السؤال ${label}: أحد خياراته صورة أو صوت بلا نص، وGIFT لا يحمل وسائط الخيارات.`);
+      return false;
+    }
+    if (options.some(opt => opt.imageUrl || opt.audioUrl)) warnings.push(`السؤال ${label}: صور الخيارات وأصواتها لا تُصدَّر إلى GIFT.`);
+    return true;
+  };
+
+  switch (question.questionType) {
+    case 'mcq':
+      if (!hasTextOptions(question.options)) return null;
+      return choices(question.options.map(opt => answerLine(opt.id === question.correctOptionId ? '=' : '~', opt.text, opt.feedback)));
+    case 'multi_select': {
+      if (!hasTextOptions(question.options)) return null;
+      const right = question.options.filter(opt => question.correctOptionIds.includes(opt.id)).length;
+      const wrong = question.options.length - right;
+      return choices(question.options.map(opt => question.correctOptionIds.includes(opt.id)
+        ? answerLine(`~%${shareOf(right)}%`, opt.text)
+        : answerLine(`~%-${shareOf(wrong)}%`, opt.text)));
+    }
+    case 'true_false': {
+      const isTrue = question.correctOptionId === 'true';
+      const feedbackOf = (id: string) => question.options.find(opt => opt.id === id)?.feedback || '';
+      const [wrong, right] = isTrue ? [feedbackOf('false'), feedbackOf('true')] : [feedbackOf('true'), feedbackOf('false')];
+      const feedbacks = right ? `#${escapeGift(wrong)}#${escapeGift(right)}` : wrong ? `#${escapeGift(wrong)}` : '';
+      return `${prefix}${text(question.questionText)}${image} {${isTrue ? 'TRUE' : 'FALSE'}${feedbacks}${generalFeedback}}`;
+    }
+    case 'fill_in_the_blanks': {
+      const parts = question.questionText.split(BLANK_MARKER);
+      if (parts.length > 2 || question.correctAnswers.length > 1) {
+        warnings.push(`السؤال ${label}: فيه أكثر من فراغ، وGIFT لا يسمح إلا بفراغ واحد في السؤال.`);
+        return null;
+      }
+      const [before, after = ''] = parts;
+      const answers = `{=${escapeGift(question.correctAnswers[0] ?? '')}${generalFeedback}}`;
+      return `${prefix}${[text(before.trim()), answers, text(after.trim())].filter(Boolean).join(' ')}${image}`;
+    }
+    case 'short_answer':
+      if (question.modelAnswer) warnings.push(`السؤال ${label}: الإجابة النموذجية لا مكان لها في GIFT ولم تُصدَّر.`);
+      return `${prefix}${text(question.questionText)}${image} {${generalFeedback ? `${generalFeedback}\n` : ''}}`;
+    default:
+      warnings.push(`السؤال ${label}: التصدير إلى GIFT لا يشمل أسئلة من نوع ${question.questionType}.`);
+      return null;
+  }
+};
+
+/** Writes questions as GIFT; those it cannot hold are left out with a warning. */
+export const toGift = (items: InterchangeQuestion[]): InterchangeExportResult => {
+  const paragraphs: string[] = [];
+  const warnings: string[] = [];
+  let category: string | null | undefined;
+
+  for (const { question, tags } of items) {
+    const body = giftQuestion(question, warnings);
+    if (body === null) continue;
+    const tag = tags[0] ?? null;
+    if (tag !== category) {
+      paragraphs.push(`$CATEGORY: ${categoryPath(tag)}`);
+      category = tag;
+    }
+    const meta = [
+      question.externalId ? `[id:${escapeMeta(question.externalId)}]` : '',
+      // The first tag is the category already.
+      ...tags.slice(1).map(name => `[tag:${escapeMeta(name)}]`),
+    ].filter(Boolean).join(' ');
+    paragraphs.push(meta ? `// ${meta}\n${body}` : body);
+  }
+  return {
+    content: paragraphs.length > 0 ? `${paragraphs.join('\n\n')}\n` : '',
+    exported: paragraphs.filter(paragraph => !paragraph.startsWith('$CATEGORY:')).length,
+    warnings,
+  };
+};
@@ -0,0 +1,108 @@
+// src/lib/mathText.ts
+// Splits authored text (question text, options, model answers, ...) into plain text and TeX segments.
+//
+// Recognised markup:
+//   $...$  or  \(...\)     inline math
+//   $$...$$  or  \[...\]   block (display) math
+//   \ce{...}               a chemical equation (mhchem) outside of any math delimiters
+//   \$                     a literal dollar sign
+//
+// An inline `$` only opens math when it is not followed by a space, and only closes it when it is not
+// preceded by one, so prices such as "5$ و 10$" stay plain text.
+
+export type MathSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'math'; value: string; display: boolean };
+
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1 && text[index - 1] === '\\' && delimiter === '$') {
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return index;
+};
+
+// Index just past the brace that closes the one at `open`, or -1 when the braces are unbalanced.
+const findBalancedEnd = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+export const splitMathSegments = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const pushMath = (value: string, display: boolean) => {
+    if (buffer) segments.push({ kind: 'text', value: buffer });
+    buffer = '';
+    segments.push({ kind: 'math', value: value.trim(), display });
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    if (rest.startsWith('\\$')) {
+      buffer += '$';
+      i += 2;
+      continue;
+    }
+
+    const block = rest.startsWith('$$') ? '$$' : rest.startsWith('\\[') ? '\\]' : null;
+    if (block) {
+      const end = findClosing(text, block, i + 2);
+      if (end !== -1 && end > i + 2) {
+        pushMath(text.slice(i + 2, end), true);
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('\\(')) {
+      const end = text.indexOf('\\)', i + 2);
+      if (end > i + 2) {
+        pushMath(text.slice(i + 2, end), false);
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (text[i] === '$' && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      const end = findClosing(text, '$', i + 1);
+      if (end > i + 1 && !/\s/.test(text[end - 1]) && !text.slice(i + 1, end).includes('\n')) {
+        pushMath(text.slice(i + 1, end), false);
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('\\ce{')) {
+      const end = findBalancedEnd(text, i + 3);
+      if (end !== -1) {
+        pushMath(text.slice(i, end), false);
+        i = end;
+        continue;
+      }
+    }
+
+    buffer += text[i];
+    i++;
+  }
+
+  if (buffer) segments.push({ kind: 'text', value: buffer });
+  return segments;
+};
+
+/** True when the text contains at least one math or \ce{} segment. */
+export const hasMathMarkup = (text: string | null | undefined): boolean =>
+  !!text && splitMathSegments(text).some(segment => segment.kind === 'math');
@@ -0,0 +1,417 @@
+// src/lib/moodleXml.ts
+// Moodle XML (https://docs.moodle.org/en/Moodle_XML_format) to and from our questions:
+//
+//   multichoice (single)    <-> mcq          multichoice (multiple) <-> multi_select
+//   truefalse               <-> true_false   essay                  <-> short_answer (graderinfo = model answer)
+//   cloze, shortanswer       -> fill_in_the_blanks, written as cloze with a SHORTANSWER gap per ____
+//
+// Texts are HTML. Images are <img> tags whose files are either links or embedded in the question as
+// base64 <file> elements referred to as @@PLUGINFILE@@/name. Category questions put the questions after
+// them in a category, which becomes a tag; <idnumber> is the external id.
+import type { BaseQuestion, Option, Question } from '@/types';
+import {
+  BLANK_MARKER,
+  addTag,
+  categoryPath,
+  categoryTag,
+  contentTypeOf,
+  countBlanks,
+  describeQuestion,
+  escapeHtml,
+  fromBase64,
+  normalizeBlanks,
+  questionName,
+  splitHtml,
+  textToHtml,
+  toBase64,
+  type HtmlImage,
+  type InterchangeExportResult,
+  type InterchangeFile,
+  type InterchangeParseResult,
+  type InterchangeQuestion,
+} from '@/lib/questionInterchange';
+
+const PLUGINFILE = '@@PLUGINFILE@@';
+
+// --- Reading ----------------------------------------------------------------------------------------
+
+const childElements = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(element => element.tagName === name);
+
+const childElement = (parent: Element, name: string): Element | null => childElements(parent, name)[0] ?? null;
+
+/** The <text> of a text element such as <questiontext> or <feedback>, as written. */
+const rawTextOf = (element: Element | null): string => (element && childElement(element, 'text')?.textContent) || '';
+
+const plainTextOf = (element: Element | null): string => rawTextOf(element).trim();
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Reads the questions of a Moodle XML export. Embedded files are returned by the URLs the questions use
+ * for them, which are only meaningful within the result (@@PLUGINFILE@@/<question>/<name>).
+ */
+export const parseMoodleXml = (xml: string): InterchangeParseResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'quiz') {
+    throw new Error("الملف ليس ملف Moodle XML صالحًا: يجب أن يكون عنصره الجذر <quiz>.");
+  }
+
+  const questions: InterchangeQuestion[] = [];
+  const files = new Map<string, InterchangeFile>();
+  const warnings: string[] = [];
+  let category: string | null = null;
+
+  childElements(doc.documentElement, 'question').forEach((element, index) => {
+    const type = element.getAttribute('type') || '';
+    if (type === 'category') {
+      category = categoryTag(plainTextOf(childElement(element, 'category')));
+      return;
+    }
+
+    // Embedded files belong to the question that holds them; another question may use the same name.
+    const fileUrl = (name: string) => `${PLUGINFILE}/${index + 1}/${name}`;
+    Array.from(element.getElementsByTagName('file')).forEach(file => {
+      const name = file.getAttribute('name');
+      if (!name || (file.getAttribute('encoding') || 'base64') !== 'base64') return;
+      files.set(fileUrl(name), { name, contentType: contentTypeOf(name), data: fromBase64(file.textContent || '') });
+    });
+    const withFileUrl = (image: HtmlImage): HtmlImage =>
+      image.src.startsWith(`${PLUGINFILE}/`) ? { ...image, src: fileUrl(safeDecode(image.src.slice(PLUGINFILE.length + 1))) } : image;
+    const readHtml = (textElement: Element | null): { text: string; images: HtmlImage[] } => {
+      const format = textElement?.getAttribute('format') || 'html';
+      if (format !== 'html') return { text: plainTextOf(textElement), images: [] };
+      const { text, images } = splitHtml(rawTextOf(textElement));
+      return { text, images: images.map(withFileUrl) };
+    };
+
+    const questionText = childElement(element, 'questiontext');
+    const body = readHtml(questionText);
+    const label = describeQuestion(body.text || plainTextOf(childElement(element, 'name')));
+    if (body.images.length > 1) warnings.push(`السؤال ${label}: يحتوي على ${body.images.length} صور، واستُوردت الأولى فقط.`);
+    const base = {
+      questionText: body.text,
+      imageUrl: body.images[0]?.src ?? null,
+      imageHint: body.images[0]?.alt ? body.images[0].alt.slice(0, 50) : null,
+      difficulty: 'medium' as const,
+      feedback: readHtml(childElement(element, 'generalfeedback')).text || null,
+      externalId: childElement(element, 'idnumber')?.textContent?.trim() || null,
+    };
+
+    const answers = childElements(element, 'answer').map(answer => ({
+      fraction: Number(answer.getAttribute('fraction') || 0),
+      ...readHtml(answer),
+      feedback: readHtml(childElement(answer, 'feedback')).text,
+    }));
+
+    let question: Question | string;
+    switch (type) {
+      case 'multichoice': {
+        const options: Option[] = answers.map((answer, optionIndex) => ({
+          id: `option-${optionIndex + 1}`,
+          text: answer.text,
+          ...(answer.images[0] ? { imageUrl: answer.images[0].src } : {}),
+        }));
+        if (options.length < 2) {
+          question = `السؤال ${label}: له أقل من خيارين.`;
+        } else if (!['false', '0'].includes(childElement(element, 'single')?.textContent?.trim().toLowerCase() ?? 'true')) {
+          const best = Math.max(...answers.map(answer => answer.fraction));
+          if (answers.some(answer => answer.fraction > 0 && answer.fraction < best)) {
+            warnings.push(`السؤال ${label}: الدرجات الجزئية لا تُستورد؛ الإجابة الصحيحة هي الخيار ذو الدرجة الأعلى.`);
+          }
+          options.forEach((opt, optionIndex) => {
+            if (answers[optionIndex].feedback) opt.feedback = answers[optionIndex].feedback;
+          });
+          question = { ...base, questionType: 'mcq', options, correctOptionId: options[answers.findIndex(answer => answer.fraction === best)].id };
+        } else {
+          const correctOptionIds = options.filter((_, optionIndex) => answers[optionIndex].fraction > 0).map(opt => opt.id);
+          if (answers.some(answer => answer.feedback)) {
+            warnings.push(`السؤال ${label}: تعليقات الخيارات في أسئلة الاختيار المتعدد الإجابات لا تُستورد.`);
+          }
+          question = correctOptionIds.length > 0
+            ? { ...base, questionType: 'multi_select', options, correctOptionIds }
+            : `السؤال ${label}: لا توجد إجابة بدرجة موجبة.`;
+        }
+        break;
+      }
+      case 'truefalse': {
+        const answerOf = (value: string) => answers.find(answer => answer.text.trim().toLowerCase() === value);
+        const correct = answerOf('true')?.fraction === 100 ? 'true' : 'false';
+        const feedbackOf = (value: string): Pick<Option, 'feedback'> => {
+          const feedback = answerOf(value)?.feedback;
+          return feedback ? { feedback } : {};
+        };
+        question = {
+          ...base,
+          questionType: 'true_false',
+          options: [{ id: 'true', text: 'صحيح', ...feedbackOf('true') }, { id: 'false', text: 'خطأ', ...feedbackOf('false') }],
+          correctOptionId: correct,
+        };
+        break;
+      }
+      case 'shortanswer': {
+        const accepted = answers.filter(answer => answer.fraction === 100 && answer.text);
+        if (accepted.length === 0) {
+          question = `السؤال ${label}: لا توجد إجابة مقبولة بدرجة كاملة.`;
+          break;
+        }
+        if (accepted.length > 1) warnings.push(`السؤال ${label}: له ${accepted.length} إجابات مقبولة، واستُوردت الأولى فقط.`);
+        let text = normalizeBlanks(base.questionText);
+        if (countBlanks(text) === 0) text = `${text} ${BLANK_MARKER}`;
+        question = countBlanks(text) > 1
+          ? `السؤال ${label}: فيه أكثر من فراغ وإجابة واحدة فقط.`
+          : { ...base, questionText: text, questionType: 'fill_in_the_blanks', correctAnswers: [accepted[0].text] };
+        break;
+      }
+      case 'cloze':
+      case 'multianswer':
+        question = readCloze(rawTextOf(questionText), label, warnings, withFileUrl, base);
+        break;
+      case 'essay':
+        question = {
+          ...base,
+          questionType: 'short_answer',
+          modelAnswer: readHtml(childElement(element, 'graderinfo')).text || undefined,
+        };
+        break;
+      default:
+        question = `السؤال ${label}: نوع أسئلة Moodle "${type}" غير مدعوم في الاستيراد.`;
+    }
+
+    if (typeof question === 'string') {
+      warnings.push(question);
+      return;
+    }
+    const tags: string[] = [];
+    addTag(tags, category);
+    childElements(childElement(element, 'tags') ?? element, 'tag').forEach(tag => addTag(tags, plainTextOf(tag)));
+    questions.push({ question, tags });
+  });
+
+  return { questions, files, warnings };
+};
+
+// {1:SHORTANSWER:=Paris#Right~%50%paris} -- only short answer gaps have a place in our questions.
+const CLOZE_GAP = /\{(\d*):([A-Z_]+):((?:\\.|[^\\}])*)\}/g;
+const SHORT_ANSWER_GAPS = ['SHORTANSWER', 'SA', 'MW', 'SHORTANSWER_C', 'SAC', 'MWC'];
+
+const unescapeCloze = (text: string): string => text.replace(/\\(.)/g, '$1');
+
+const splitAnswers = (gap: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < gap.length; i++) {
+    if (gap[i] === '\\') i++;
+    else if (gap[i] === '~') {
+      parts.push(gap.slice(start, i));
+      start = i + 1;
+    }
+  }
+  return [...parts, gap.slice(start)];
+};
+
+/** The first fully right answer of a cloze gap. */
+const clozeAnswer = (gap: string): string | null => {
+  for (const part of splitAnswers(gap)) {
+    const match = /^(?:=|%100%)((?:\\.|[^\\#])*)/.exec(part);
+    if (match) return splitHtml(unescapeCloze(match[1])).text;
+  }
+  return null;
+};
+
+const readCloze = (
+  html: string,
+  label: string,
+  warnings: string[],
+  withFileUrl: (image: HtmlImage) => HtmlImage,
+  base: Omit<BaseQuestion, 'questionType'>
+): Question | string => {
+  const answers: string[] = [];
+  let unsupported: string | null = null;
+  const withBlanks = html.replace(CLOZE_GAP, (_, _weight: string, gapType: string, gap: string) => {
+    const answer = clozeAnswer(gap);
+    if (!SHORT_ANSWER_GAPS.includes(gapType)) unsupported = gapType;
+    else if (answer) answers.push(answer);
+    else unsupported = gapType;
+    return BLANK_MARKER;
+  });
+  if (unsupported) return `السؤال ${label}: فراغات Cloze من نوع ${unsupported} (أو بلا إجابة صحيحة) غير مدعومة في الاستيراد.`;
+  if (answers.length === 0) return `السؤال ${label}: لا يحتوي على فراغات.`;
+  const { text, images } = splitHtml(withBlanks);
+  if (images.length > 1) warnings.push(`السؤال ${label}: يحتوي على ${images.length} صور، واستُوردت الأولى فقط.`);
+  const image = images[0] ? withFileUrl(images[0]) : null;
+  return {
+    ...base,
+    questionText: text,
+    imageUrl: image?.src ?? null,
+    imageHint: image?.alt ? image.alt.slice(0, 50) : null,
+    questionType: 'fill_in_the_blanks',
+    correctAnswers: answers,
+  };
+};
+
+// --- Writing ----------------------------------------------------------------------------------------
+
+const escapeXml = escapeHtml;
+
+const textElement = (tag: string, html: string, files: InterchangeFile[] = [], format = 'html'): string =>
+  `<${tag} format="${format}">\n      <text>${escapeXml(html)}</text>${files
+    .map(file => `\n      <file name="${escapeXml(file.name)}" path="/" encoding="base64">${toBase64(file.data)}</file>`)
+    .join('')}\n    </${tag}>`;
+
+// Multi-select credit: right answers share 100%, wrong ones take it away again.
+const shareOf = (count: number): string => (100 / count).toFixed(7).replace(/\.?0+$/, '');
+
+// Clozes end a gap at }, split answers at ~ and feedback at #.
+const escapeCloze = (text: string): string => text.replace(/[}#~/"\\]/g, char => `\\${char}`);
+
+/**
+ * Writes questions as Moodle XML. Images are embedded when `files` holds them by URL and linked
+ * otherwise; questions the format cannot hold are left out with a warning.
+ */
+export const toMoodleXml = (items: InterchangeQuestion[], files: Map<string, InterchangeFile> = new Map()): InterchangeExportResult => {
+  const elements: string[] = [];
+  const warnings: string[] = [];
+  let exported = 0;
+  let category: string | null | undefined;
+
+  for (const { question, tags } of items) {
+    const label = describeQuestion(question.questionText);
+    // Files of this question, named uniquely within it.
+    const embedded: InterchangeFile[] = [];
+    const image = (url: string, alt?: string | null): { html: string; files: InterchangeFile[] } => {
+      const file = files.get(url);
+      if (!file) return { html: `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt || '')}">`, files: [] };
+      const name = embedded.some(other => other.name === file.name) ? `${embedded.length + 1}-${file.name}` : file.name;
+      const named = { ...file, name };
+      embedded.push(named);
+      return { html: `<img src="${PLUGINFILE}/${encodeURIComponent(name)}" alt="${escapeHtml(alt || '')}">`, files: [named] };
+    };
+    const questionHtml = (html: string) => {
+      if (!question.imageUrl) return textElement('questiontext', `<p>${html}</p>`);
+      const img = image(question.imageUrl, question.imageHint);
+      return textElement('questiontext', `<p>${html}</p><p>${img.html}</p>`, img.files);
+    };
+    const optionAnswer = (opt: Option, fraction: string, withFeedback: boolean): string => {
+      const img = opt.imageUrl ? image(opt.imageUrl) : null;
+      const html = [opt.text ? textToHtml(opt.text) : '', img?.html ?? ''].filter(Boolean).join('<br>');
+      const feedback = withFeedback && opt.feedback ? `\n      ${textElement('feedback', textToHtml(opt.feedback))}` : '';
+      return `<answer fraction="${fraction}" format="html">\n      <text>${escapeXml(html)}</text>${(img?.files ?? [])
+        .map(file => `\n      <file name="${escapeXml(file.name)}" path="/" encoding="base64">${toBase64(file.data)}</file>`)
+        .join('')}${feedback}\n    </answer>`;
+    };
+    const warnAudio = (options: Option[]) => {
+      if (options.some(opt => opt.audioUrl)) warnings.push(`السؤال ${label}: أصوات الخيارات لا تُصدَّر إلى Moodle XML.`);
+    };
+
+    let type: string;
+    let parts: string[];
+    switch (question.questionType) {
+      case 'mcq':
+        warnAudio(question.options);
+        type = 'multichoice';
+        parts = [
+          questionHtml(textToHtml(question.questionText)),
+          '<single>true</single>',
+          '<shuffleanswers>true</shuffleanswers>',
+          '<answernumbering>abc</answernumbering>',
+          ...question.options.map(opt => optionAnswer(opt, opt.id === question.correctOptionId ? '100' : '0', true)),
+        ];
+        break;
+      case 'multi_select': {
+        warnAudio(question.options);
+        const right = question.options.filter(opt => question.correctOptionIds.includes(opt.id)).length;
+        const wrong = question.options.length - right;
+        type = 'multichoice';
+        parts = [
+          questionHtml(textToHtml(question.questionText)),
+          '<single>false</single>',
+          '<shuffleanswers>true</shuffleanswers>',
+          '<answernumbering>abc</answernumbering>',
+          ...question.options.map(opt => optionAnswer(
+            opt,
+            question.correctOptionIds.includes(opt.id) ? shareOf(right) : `-${shareOf(wrong)}`,
+            false
+          )),
+        ];
+        break;
+      }
+      case 'true_false': {
+        const answer = (value: 'true' | 'false') => {
+          const feedback = question.options.find(opt => opt.id === value)?.feedback;
+          return `<answer fraction="${question.correctOptionId === value ? 100 : 0}" format="moodle_auto_format">\n      <text>${value}</text>${
+            feedback ? `\n      ${textElement('feedback', textToHtml(feedback))}` : ''}\n    </answer>`;
+        };
+        type = 'truefalse';
+        parts = [questionHtml(textToHtml(question.questionText)), answer('true'), answer('false')];
+        break;
+      }
+      case 'fill_in_the_blanks': {
+        const pieces = question.questionText.split(BLANK_MARKER);
+        if (pieces.length - 1 !== question.correctAnswers.length) {
+          warnings.push(`السؤال ${label}: عدد الفراغات (${pieces.length - 1}) لا يساوي عدد الإجابات (${question.correctAnswers.length}).`);
+          continue;
+        }
+        type = 'cloze';
+        parts = [questionHtml(pieces
+          .map((piece, blank) => textToHtml(piece) + (blank < question.correctAnswers.length
+            ? `{1:SHORTANSWER:=${escapeHtml(escapeCloze(question.correctAnswers[blank]))}}`
+            : ''))
+          .join(''))];
+        break;
+      }
+      case 'short_answer':
+        type = 'essay';
+        parts = [
+          questionHtml(textToHtml(question.questionText)),
+          '<responseformat>editor</responseformat>',
+          '<responserequired>1</responserequired>',
+          '<responsefieldlines>10</responsefieldlines>',
+          '<attachments>0</attachments>',
+          '<attachmentsrequired>0</attachmentsrequired>',
+          textElement('graderinfo', question.modelAnswer ? textToHtml(question.modelAnswer) : ''),
+          textElement('responsetemplate', ''),
+        ];
+        break;
+      default:
+        warnings.push(`السؤال ${label}: التصدير إلى Moodle XML لا يشمل أسئلة من نوع ${question.questionType}.`);
+        continue;
+    }
+
+    const tag = tags[0] ?? null;
+    if (tag !== category) {
+      elements.push(`  <question type="category">\n    <category>\n      <text>${escapeXml(categoryPath(tag))}</text>\n    </category>\n  </question>`);
+      category = tag;
+    }
+    const [text, ...rest] = parts;
+    const ownTags = tags.slice(1);
+    elements.push([
+      `  <question type="${type}">`,
+      `    <name>\n      <text>${escapeXml(questionName(question.questionText))}</text>\n    </name>`,
+      `    ${text}`,
+      `    ${textElement('generalfeedback', question.feedback ? textToHtml(question.feedback) : '')}`,
+      '    <defaultgrade>1</defaultgrade>',
+      `    <penalty>${type === 'truefalse' ? 1 : 0.3333333}</penalty>`,
+      '    <hidden>0</hidden>',
+      `    <idnumber>${escapeXml(question.externalId || '')}</idnumber>`,
+      ...rest.map(part => `    ${part}`),
+      ...(ownTags.length > 0
+        ? [`    <tags>\n${ownTags.map(name => `      <tag>\n        <text>${escapeXml(name)}</text>\n      </tag>`).join('\n')}\n    </tags>`]
+        : []),
+      '  </question>',
+    ].join('\n'));
+    exported++;
+  }
+
+  return {
+    content: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${elements.join('\n')}\n</quiz>\n`,
+    exported,
+    warnings,
+  };
+};
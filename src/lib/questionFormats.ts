@@ -0,0 +1,176 @@
+// src/lib/questionFormats.ts
+// Question files of other quiz systems -- Moodle XML (src/lib/moodleXml.ts) and GIFT (src/lib/gift.ts) --
+// on the import and export pages. A file being imported becomes rows for the spreadsheet import, so its
+// questions go through the same column mapping, tag matching and dry run as an XLSX file.
+import type { Question, Tag } from '@/types';
+import { MAX_CHOICE_ITEMS, toQuestionSheetColumns } from '@/lib/supabaseData';
+import { downloadFileByUrl, parseStorageUrl, uploadFile } from '@/lib/storage';
+import { parseGift, toGift } from '@/lib/gift';
+import { parseMoodleXml, toMoodleXml } from '@/lib/moodleXml';
+import {
+  dataUrlFile,
+  describeQuestion,
+  type InterchangeExportResult,
+  type InterchangeFile,
+  type InterchangeParseResult,
+  type InterchangeQuestion,
+} from '@/lib/questionInterchange';
+
+export type QuestionFileFormat = 'moodle' | 'gift';
+
+export const QUESTION_FILE_TYPES: Record<QuestionFileFormat, { extension: string; mimeType: string }> = {
+  moodle: { extension: 'xml', mimeType: 'application/xml' },
+  gift: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+/** The format of a question file by its name: .xml for Moodle XML, .gift or .txt for GIFT. */
+export const questionFileFormat = (fileName: string): QuestionFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xml') return 'moodle';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  return null;
+};
+
+// The import reads media and feedback columns for the first six MCQ options only (importColumnMapping.ts).
+const MAX_MCQ_OPTIONS = 6;
+
+export interface QuestionFileImport {
+  /** Rows under the column names of the XLSX export, all in the chosen subject. */
+  rows: Record<string, string | number>[];
+  warnings: string[];
+}
+
+/**
+ * Uploads the images the file embeds (and data: URLs) and points the questions at the uploads. Images
+ * that are neither links nor in the file are dropped with a warning.
+ */
+const uploadEmbeddedImages = async (parsed: InterchangeParseResult, warnings: string[]): Promise<InterchangeQuestion[]> => {
+  const uploaded = new Map<string, string>();
+  const resolve = async (url: string | null | undefined, folder: string, label: string): Promise<string | null> => {
+    if (!url) return null;
+    if (/^https?:\/\//i.test(url)) return url;
+    const done = uploaded.get(url);
+    if (done) return done;
+    const file = parsed.files.get(url) ?? dataUrlFile(url, 'image');
+    if (!file) {
+      warnings.push(`السؤال ${label}: الصورة "${url}" ليست في الملف، ولم تُستورد.`);
+      return null;
+    }
+    const publicUrl = await uploadFile(new File([file.data as BlobPart], file.name, { type: file.contentType }), 'questionimages', folder);
+    uploaded.set(url, publicUrl);
+    return publicUrl;
+  };
+
+  const questions: InterchangeQuestion[] = [];
+  for (const { question, tags } of parsed.questions) {
+    const label = describeQuestion(question.questionText);
+    const imageUrl = await resolve(question.imageUrl, 'questions', label);
+    if (!('options' in question) || !question.options) {
+      questions.push({ question: { ...question, imageUrl }, tags });
+      continue;
+    }
+    const options = [];
+    for (const opt of question.options) {
+      options.push({ ...opt, imageUrl: await resolve(opt.imageUrl, 'question-options', label) });
+    }
+    questions.push({ question: { ...question, imageUrl, options } as Question, tags });
+  }
+  return questions;
+};
+
+/** Why a question cannot go through the spreadsheet import, or null. */
+const importLimitReason = (question: Question): string | null => {
+  const label = describeQuestion(question.questionText);
+  if (question.questionType === 'mcq' && question.options.length > MAX_MCQ_OPTIONS) {
+    return `السؤال ${label}: له ${question.options.length} خيارات، والحد الأقصى ${MAX_MCQ_OPTIONS}.`;
+  }
+  if (question.questionType === 'multi_select' && question.options.length > MAX_CHOICE_ITEMS) {
+    return `السؤال ${label}: له ${question.options.length} خيارات، والحد الأقصى ${MAX_CHOICE_ITEMS}.`;
+  }
+  // Empty options are left out by the import, which would shift the correct answer onto another option.
+  if ('options' in question && question.options?.some(opt => !opt.text.trim() && !opt.imageUrl && !opt.audioUrl)) {
+    return `السؤال ${label}: أحد خياراته فارغ بعد ترك صورته.`;
+  }
+  return null;
+};
+
+const toImportRow = ({ question, tags }: InterchangeQuestion, subjectId: string): Record<string, string | number> => {
+  // The correct MCQ option goes by position: option ids are made up and texts may repeat or be empty.
+  const { correctOptionId, correctOptionText, ...columns } = toQuestionSheetColumns(question);
+  const row: Record<string, string | number | null | undefined> = {
+    ...columns,
+    questionText: question.questionText,
+    difficulty: question.difficulty || 'medium',
+    subjectId,
+    tags: tags.join(', '),
+    externalId: question.externalId,
+    imageUrl: question.imageUrl,
+    imageHint: question.imageHint,
+    feedback: question.feedback,
+  };
+  if (question.questionType === 'mcq') {
+    row.correctOptionIndex = question.options.findIndex(opt => opt.id === question.correctOptionId) + 1;
+  }
+  return Object.fromEntries(
+    Object.entries(row).filter((entry): entry is [string, string | number] => entry[1] !== null && entry[1] !== undefined && entry[1] !== '')
+  );
+};
+
+/**
+ * Reads a Moodle XML or GIFT file into import rows for one subject. Embedded images are uploaded right
+ * away since rows only carry URLs; questions and details that cannot be imported are listed as warnings.
+ */
+export const readQuestionFile = async (file: File, subjectId: string): Promise<QuestionFileImport> => {
+  const format = questionFileFormat(file.name);
+  if (!format) throw new Error("نوع الملف غير مدعوم: المتوقع Moodle XML (.xml) أو GIFT (.gift أو .txt).");
+  const content = await file.text();
+  const parsed = format === 'moodle' ? parseMoodleXml(content) : parseGift(content);
+  const warnings = [...parsed.warnings];
+  const questions = await uploadEmbeddedImages(parsed, warnings);
+
+  const rows: Record<string, string | number>[] = [];
+  questions.forEach(item => {
+    const reason = importLimitReason(item.question);
+    if (reason) warnings.push(reason);
+    else rows.push(toImportRow(item, subjectId));
+  });
+  return { rows, warnings };
+};
+
+/** Downloads the Storage images of the questions, to embed them in a Moodle XML file. */
+const collectImageFiles = async (questions: Question[], warnings: string[]): Promise<Map<string, InterchangeFile>> => {
+  const urls = new Set<string>();
+  questions.forEach(question => {
+    if (question.imageUrl) urls.add(question.imageUrl);
+    if ('options' in question) question.options?.forEach(opt => opt.imageUrl && urls.add(opt.imageUrl));
+  });
+
+  const files = new Map<string, InterchangeFile>();
+  for (const url of Array.from(urls)) {
+    const location = parseStorageUrl(url);
+    if (!location) continue;
+    try {
+      const blob = await downloadFileByUrl(url);
+      const name = location.filePath.split('/').pop() || 'image';
+      files.set(url, { name, contentType: blob.type, data: new Uint8Array(await blob.arrayBuffer()) });
+    } catch (error) {
+      console.error(`Could not embed ${url} in the Moodle XML export:`, error);
+      warnings.push(`تعذر تنزيل الصورة ${url}، فبقيت رابطًا في الملف.`);
+    }
+  }
+  return files;
+};
+
+/** Writes questions as a Moodle XML or GIFT file; their first tag is their category. */
+export const exportQuestionFile = async (questions: Question[], tags: Tag[], format: QuestionFileFormat): Promise<InterchangeExportResult> => {
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.name]));
+  const items: InterchangeQuestion[] = questions.map(question => ({
+    question,
+    tags: (question.tagIds || []).map(id => tagNames.get(id)).filter((name): name is string => !!name),
+  }));
+  if (format === 'gift') return toGift(items);
+
+  const warnings: string[] = [];
+  const result = toMoodleXml(items, await collectImageFiles(questions, warnings));
+  return { ...result, warnings: [...warnings, ...result.warnings] };
+};
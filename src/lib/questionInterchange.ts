@@ -0,0 +1,168 @@
+// src/lib/questionInterchange.ts
+// What the Moodle XML (src/lib/moodleXml.ts) and GIFT (src/lib/gift.ts) converters share: the shape a
+// question takes between our Question union and a file, HTML text, images and category paths.
+// Both formats cover MCQ (Moodle multichoice), multi-select, true/false, short answer (Moodle essay) and
+// fill-in-the-blanks (Moodle shortanswer and cloze); other types are skipped with a warning either way.
+// Everything here is free of Storage and the database; src/lib/questionFormats.ts does that part.
+// src/lib/__tests__ round-trips sample files of both formats (fixtures/) through the converters.
+import type { Question } from '@/types';
+
+/** How a blank is written in the text of a fill-in-the-blanks question. */
+export const BLANK_MARKER = '____';
+
+/** A question read from, or written to, a file of another quiz system. */
+export interface InterchangeQuestion {
+  /** Without subject, lesson or tag ids; questions read from a file are of medium difficulty. */
+  question: Question;
+  /** Tag names: the question's category first, then its own tags. */
+  tags: string[];
+}
+
+/** A file embedded in a document, such as an image of a Moodle XML question. */
+export interface InterchangeFile {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+export interface InterchangeParseResult {
+  questions: InterchangeQuestion[];
+  /** Files embedded in the document, by the URL its questions use for them. */
+  files: Map<string, InterchangeFile>;
+  /** Questions left out and details that could not be brought across, in Arabic. */
+  warnings: string[];
+}
+
+export interface InterchangeExportResult {
+  content: string;
+  exported: number;
+  /** Questions left out and details the format has no room for, in Arabic. */
+  warnings: string[];
+}
+
+/** Short quote of a question for warnings. */
+export const describeQuestion = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return `"${line.length > 40 ? `${line.slice(0, 40)}...` : line}"`;
+};
+
+/** Question name for formats that want one: the start of the text. */
+export const questionName = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').replace(/_{3,}/g, '...').trim();
+  return line.length > 60 ? `${line.slice(0, 60)}...` : line || '-';
+};
+
+/** Runs of three or more underscores count as a blank, as in most authoring tools. */
+export const normalizeBlanks = (text: string): string => text.replace(/_{3,}/g, BLANK_MARKER);
+
+export const countBlanks = (text: string): number => text.split(BLANK_MARKER).length - 1;
+
+// --- HTML -------------------------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Our plain question text as HTML, keeping its line breaks. */
+export const textToHtml = (text: string): string => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+export interface HtmlImage {
+  src: string;
+  alt: string;
+}
+
+const attribute = (tag: string, name: string): string | null => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+};
+
+/**
+ * The plain text of an HTML fragment and the images in it, which are taken out of the text. Line breaks
+ * and paragraphs become new lines; all other markup is dropped.
+ */
+export const splitHtml = (html: string): { text: string; images: HtmlImage[] } => {
+  const images: HtmlImage[] = [];
+  const text = html
+    .replace(/<img\b[^>]*>/gi, tag => {
+      const src = attribute(tag, 'src');
+      if (src) images.push({ src, alt: attribute(tag, 'alt') ?? '' });
+      return '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+  return {
+    text: decodeEntities(text).replace(/\u00a0/g, ' ').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim(),
+    images,
+  };
+};
+
+export const imageHtml = (src: string, alt?: string | null): string =>
+  `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt || '')}">`;
+
+// --- Categories -------------------------------------------------------------------------------------
+
+// Moodle prefixes category paths with the context ($course$, $system$, $cat1$, ...) and its top category.
+const CONTEXT_SEGMENT = /^\$[a-z0-9]+\$$/i;
+
+/** The tag a category path stands for: its last named segment, or null for the top category. */
+export const categoryTag = (path: string): string | null => {
+  const segments = path.split('/').map(segment => segment.trim()).filter(Boolean);
+  const named = segments.filter((segment, index) => !CONTEXT_SEGMENT.test(segment) && !(index <= 1 && segment.toLowerCase() === 'top'));
+  return named.length > 0 ? named[named.length - 1] : null;
+};
+
+/** The category a question goes into on export: a category per first tag, under the course's top. */
+export const categoryPath = (tag: string | null | undefined): string =>
+  tag ? `$course$/top/${tag.replace(/\//g, '//')}` : '$course$/top';
+
+/** Adds a tag once, ignoring case and surrounding spaces. */
+export const addTag = (tags: string[], tag: string | null | undefined): void => {
+  const name = tag?.trim();
+  if (name && !tags.some(existing => existing.toLowerCase() === name.toLowerCase())) tags.push(name);
+};
+
+// --- Files ------------------------------------------------------------------------------------------
+
+const BASE64_CHUNK = 0x8000;
+
+export const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  for (let start = 0; start < data.length; start += BASE64_CHUNK) {
+    binary += String.fromCharCode(...Array.from(data.subarray(start, start + BASE64_CHUNK)));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return data;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+  bmp: 'image/bmp', mp3: 'audio/mpeg', ogg: 'audio/ogg', wav: 'audio/wav',
+};
+
+export const contentTypeOf = (fileName: string): string =>
+  CONTENT_TYPES[fileName.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+/** A data: URL (an image pasted into an HTML editor) as a file, or null for any other URL. */
+export const dataUrlFile = (url: string, name: string): InterchangeFile | null => {
+  const match = /^data:([^;,]+)?(;base64)?,([\s\S]*)$/i.exec(url);
+  if (!match) return null;
+  const contentType = match[1] || 'application/octet-stream';
+  const data = match[2] ? fromBase64(match[3]) : new TextEncoder().encode(decodeURIComponent(match[3]));
+  const extension = Object.keys(CONTENT_TYPES).find(ext => CONTENT_TYPES[ext] === contentType) ?? 'bin';
+  return { name: `${name}.${extension}`, contentType, data };
+};
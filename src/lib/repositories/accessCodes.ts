@@ -0,0 +1,98 @@
+// src/lib/repositories/accessCodes.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { AccessCode, AccessCodeType, ImportMode, ImportResult } from '@/types';
+import { assertNoError } from './errors';
+import { hasKey } from './shared';
+import { runKeyedImport } from './keyedImport';
+
+export type AccessCodeRow = Tables<'activation_codes'>;
+
+export type AccessCodeInput = Omit<AccessCode, 'id' | 'created_at' | 'updated_at'>;
+
+export const mapAccessCodeRow = (row: AccessCodeRow): AccessCode => ({
+  id: String(row.id),
+  name: row.name,
+  encodedValue: row.encoded_value,
+  type: row.type as AccessCodeType,
+  subjectId: row.subject_id,
+  subjectName: row.subject_name,
+  validFrom: row.valid_from,
+  validUntil: row.valid_until,
+  isActive: row.is_active,
+  isUsed: row.is_used,
+  usedAt: row.used_at,
+  usedByUserId: row.used_by_user_id,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toAccessCodeInsert = (data: AccessCodeInput): TablesInsert<'activation_codes'> => ({
+  name: data.name,
+  encoded_value: data.encodedValue,
+  type: data.type,
+  subject_id: data.subjectId ?? null,
+  subject_name: data.subjectName ?? null,
+  valid_from: data.validFrom,
+  valid_until: data.validUntil,
+  is_active: data.isActive,
+  is_used: data.isUsed,
+  used_at: data.usedAt ?? null,
+  used_by_user_id: data.usedByUserId ?? null,
+});
+
+export const toAccessCodeUpdate = (data: Partial<AccessCodeInput>): TablesUpdate<'activation_codes'> => {
+  const update: TablesUpdate<'activation_codes'> = {};
+  if (data.name !== undefined) update.name = data.name;
+  if (data.encodedValue !== undefined) update.encoded_value = data.encodedValue;
+  if (data.type !== undefined) update.type = data.type;
+  if (hasKey(data, 'subjectId')) update.subject_id = data.subjectId ?? null;
+  if (hasKey(data, 'subjectName')) update.subject_name = data.subjectName ?? null;
+  if (data.validFrom !== undefined) update.valid_from = data.validFrom;
+  if (data.validUntil !== undefined) update.valid_until = data.validUntil;
+  if (data.isActive !== undefined) update.is_active = data.isActive;
+  if (data.isUsed !== undefined) update.is_used = data.isUsed;
+  if (hasKey(data, 'usedAt')) update.used_at = data.usedAt ?? null;
+  if (hasKey(data, 'usedByUserId')) update.used_by_user_id = data.usedByUserId ?? null;
+  return update;
+};
+
+export const addAccessCode = async (data: AccessCodeInput): Promise<string> => {
+  const { data: newCode, error } = await supabase.from('activation_codes').insert(toAccessCodeInsert(data)).select('id').single();
+  assertNoError('addAccessCode', error);
+  return String(newCode!.id);
+};
+
+export const getAccessCodes = async (): Promise<AccessCode[]> => {
+  const { data, error } = await supabase.from('activation_codes').select('*');
+  assertNoError('getAccessCodes', error);
+  return (data || []).map(mapAccessCodeRow);
+};
+
+export const getAccessCodeById = async (id: string): Promise<AccessCode | null> => {
+  const { data, error } = await supabase.from('activation_codes').select('*').eq('id', id).single();
+  assertNoError('getAccessCodeById', error, { allowNotFound: true });
+  return data ? mapAccessCodeRow(data) : null;
+};
+
+export const updateAccessCode = async (id: string, data: Partial<AccessCodeInput>): Promise<void> => {
+  const { error } = await supabase.from('activation_codes').update(toAccessCodeUpdate(data)).eq('id', id);
+  assertNoError('updateAccessCode', error);
+};
+
+export const deleteAccessCode = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('activation_codes').delete().eq('id', id);
+  assertNoError('deleteAccessCode', error);
+};
+
+/**
+ * Imports access codes, matched to stored ones by the code itself (encoded_value is unique) as the mode
+ * says (see keyedImport.ts). Updating a code never touches whether and by whom it was used.
+ */
+export const addAccessCodesBatch = async (codes: AccessCodeInput[], mode: ImportMode = 'insert'): Promise<ImportResult> => {
+  if (!codes || codes.length === 0) return { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+  return runKeyedImport('addAccessCodesBatch', 'activation_codes', codes.map(toAccessCodeInsert), mode, {
+    keyColumn: 'encoded_value',
+    prepareUpdate: ({ is_used, used_at, used_by_user_id, ...row }) => row,
+  });
+};
@@ -0,0 +1,72 @@
+// src/lib/repositories/announcements.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { Announcement, AnnouncementType } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+
+export type AnnouncementRow = Tables<'announcements'>;
+
+export type AnnouncementInput = Omit<Announcement, 'id' | 'created_at' | 'updated_at'>;
+
+export const mapAnnouncementRow = (row: AnnouncementRow): Announcement => ({
+  id: String(row.id),
+  title: row.title,
+  message: row.message,
+  type: row.type as AnnouncementType,
+  isActive: row.is_active,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toAnnouncementInsert = (data: AnnouncementInput): TablesInsert<'announcements'> => ({
+  title: data.title,
+  message: data.message,
+  type: data.type,
+  is_active: data.isActive,
+});
+
+export const toAnnouncementUpdate = (data: Partial<AnnouncementInput>): TablesUpdate<'announcements'> => {
+  const update: TablesUpdate<'announcements'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (data.message !== undefined) update.message = data.message;
+  if (data.type !== undefined) update.type = data.type;
+  if (data.isActive !== undefined) update.is_active = data.isActive;
+  return update;
+};
+
+export const addAnnouncement = async (data: AnnouncementInput): Promise<string> => {
+  const { data: newAnnouncement, error } = await supabase
+    .from('announcements')
+    .insert(toAnnouncementInsert(data))
+    .select('id')
+    .single();
+  assertNoError('addAnnouncement', error);
+  if (!newAnnouncement?.id) {
+    throw new RepositoryError('addAnnouncement', "Failed to add announcement: No ID returned from database.");
+  }
+  // Note: user_notifications for students are created by a Supabase DB trigger
+  // (see notify_students_on_new_announcement SQL function and trigger).
+  return String(newAnnouncement.id);
+};
+
+export const getAnnouncements = async (): Promise<Announcement[]> => {
+  const { data, error } = await supabase.from('announcements').select('*').order('created_at', { ascending: false });
+  assertNoError('getAnnouncements', error);
+  return (data || []).map(mapAnnouncementRow);
+};
+
+export const getAnnouncementById = async (id: string): Promise<Announcement | null> => {
+  const { data, error } = await supabase.from('announcements').select('*').eq('id', id).single();
+  assertNoError('getAnnouncementById', error, { allowNotFound: true });
+  return data ? mapAnnouncementRow(data) : null;
+};
+
+export const updateAnnouncement = async (id: string, data: Partial<AnnouncementInput>): Promise<void> => {
+  const { error } = await supabase.from('announcements').update(toAnnouncementUpdate(data)).eq('id', id);
+  assertNoError('updateAnnouncement', error);
+};
+
+export const deleteAnnouncement = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('announcements').delete().eq('id', id);
+  assertNoError('deleteAnnouncement', error);
+};
@@ -0,0 +1,94 @@
+// src/lib/repositories/auditLog.ts
+// Read side of the audit log. Entries are written by the audit_row_change trigger
+// (supabase/migrations/*_audit_log.sql) on every insert, update and delete made by an admin or teacher,
+// so none of the other repositories have to log anything themselves.
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { AuditAction, AuditEntityType, AuditLogEntry, UserProfile } from '@/types';
+import { assertNoError } from './errors';
+
+export type AuditLogRow = Tables<'audit_log'>;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+export const mapAuditLogRow = (
+  row: AuditLogRow & { profiles?: { name: string | null; email: string | null } | null }
+): AuditLogEntry => ({
+  id: row.id,
+  actorId: row.actor_id,
+  actor: row.profiles ? { name: row.profiles.name, email: row.profiles.email } : undefined,
+  actorRole: row.actor_role as UserProfile['role'],
+  action: row.action as AuditAction,
+  entityType: row.entity_type as AuditEntityType,
+  entityId: row.entity_id,
+  subjectId: row.subject_id,
+  before: asRecord(row.before),
+  after: asRecord(row.after),
+  created_at: row.created_at,
+});
+
+export interface AuditLogPageParams {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  /** Inclusive lower bound, ISO timestamp. */
+  from?: string;
+  /** Exclusive upper bound, ISO timestamp. */
+  to?: string;
+  /** Offset of the first entry, as given by the previous page's `nextCursor`. */
+  cursor?: number | null;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  totalCount: number;
+  nextCursor: number | null;
+}
+
+export const DEFAULT_AUDIT_LOG_PAGE_SIZE = 50;
+
+export const getAuditLogPage = async (params: AuditLogPageParams = {}): Promise<AuditLogPage> => {
+  const limit = Math.min(Math.max(params.limit ?? DEFAULT_AUDIT_LOG_PAGE_SIZE, 1), 200);
+  const offset = Math.max(params.cursor ?? 0, 0);
+
+  let query = supabase.from('audit_log').select('*, profiles ( name, email )', { count: 'exact' });
+  if (params.actorId) query = query.eq('actor_id', params.actorId);
+  if (params.entityType) query = query.eq('entity_type', params.entityType);
+  if (params.entityId) query = query.eq('entity_id', params.entityId);
+  if (params.from) query = query.gte('created_at', params.from);
+  if (params.to) query = query.lt('created_at', params.to);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+  assertNoError('getAuditLogPage', error);
+
+  const entries = (data || []).map(mapAuditLogRow);
+  const totalCount = count ?? offset + entries.length;
+  const nextOffset = offset + entries.length;
+  return {
+    entries,
+    totalCount,
+    nextCursor: entries.length === limit && nextOffset < totalCount ? nextOffset : null,
+  };
+};
+
+/**
+ * Every entry for one entity, newest first. Exam history also includes changes to the exam's
+ * question links (logged as 'exam_question' under the exam's id).
+ */
+export const getEntityHistory = async (entityType: AuditEntityType, entityId: string): Promise<AuditLogEntry[]> => {
+  const entityTypes: AuditEntityType[] = entityType === 'exam' ? ['exam', 'exam_question'] : [entityType];
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*, profiles ( name, email )')
+    .in('entity_type', entityTypes)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+  assertNoError('getEntityHistory', error);
+  return (data || []).map(mapAuditLogRow);
+};
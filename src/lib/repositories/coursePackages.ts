@@ -0,0 +1,168 @@
+// src/lib/repositories/coursePackages.ts
+// Course packages: a subject with its sections, lessons, question groups, questions, tags and exams,
+// as rows, for moving a finished course from one project to another. The manifest keeps the rows under
+// their column names and ids; the import_course_package RPC (supabase/migrations/*_course_packages.sql)
+// gives every row a new id on the way in. Media files are handled by src/lib/coursePackage.ts.
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables } from '@/types/supabase';
+import type { CoursePackageConflict, CoursePackageImportResult } from '@/types';
+import { assertNoError, NOT_FOUND_CODE, RepositoryError } from './errors';
+
+export const COURSE_PACKAGE_FORMAT = 'course-package';
+export const COURSE_PACKAGE_FORMAT_VERSION = 1;
+
+// Columns that describe a row's life in one project rather than the course itself: timestamps, generated
+// search columns, revision counters, AI review results and references to user accounts.
+const LOCAL_COLUMNS = [
+  'created_at', 'updated_at', 'deleted_at', 'search_vector', 'normalized_text', 'revision', 'teacher_id',
+  'is_sane', 'sanity_explanation', 'sanity_checked_revision', 'answer_key_agrees', 'answer_key_confidence',
+  'answer_key_explanation', 'answer_key_solver_answer',
+] as const;
+
+type LocalColumn = (typeof LOCAL_COLUMNS)[number];
+// Rows under the subject don't carry its id: they always belong to the subject of their package.
+type PackageRow<T extends 'subjects' | 'subject_sections' | 'lessons' | 'question_groups' | 'questions' | 'exams'> =
+  Omit<Tables<T>, LocalColumn | 'subject_id'>;
+
+export interface CoursePackageMedia {
+  /** Path of the file inside the package, e.g. media/3-diagram.png. */
+  path: string;
+  /** Public Storage URL the file was downloaded from; the manifest refers to the file by this URL. */
+  url: string;
+  contentType: string | null;
+}
+
+export interface CoursePackageManifest {
+  format: typeof COURSE_PACKAGE_FORMAT;
+  format_version: number;
+  exported_at: string;
+  subject: PackageRow<'subjects'>;
+  sections: PackageRow<'subject_sections'>[];
+  lessons: PackageRow<'lessons'>[];
+  question_groups: PackageRow<'question_groups'>[];
+  questions: PackageRow<'questions'>[];
+  tags: Pick<Tables<'tags'>, 'id' | 'name'>[];
+  exams: PackageRow<'exams'>[];
+  exam_questions: Omit<Tables<'exam_questions'>, 'created_at'>[];
+  media: CoursePackageMedia[];
+}
+
+const withoutLocalColumns = <R extends object>(row: R): Omit<R, LocalColumn | 'subject_id'> => {
+  const copy = { ...row } as Record<string, unknown>;
+  [...LOCAL_COLUMNS, 'subject_id'].forEach(column => delete copy[column]);
+  return copy as Omit<R, LocalColumn | 'subject_id'>;
+};
+
+// Keeps the `in (...)` filters well inside PostgREST's URL length limit.
+const ID_CHUNK_SIZE = 100;
+
+const chunk = (ids: string[]): string[][] => {
+  const chunks: string[][] = [];
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) chunks.push(ids.slice(start, start + ID_CHUNK_SIZE));
+  return chunks;
+};
+
+/**
+ * Everything under a subject, ready to be written to a package. Trashed rows are left out.
+ * Questions of other subjects that the subject's exams use come along too, without their lesson and
+ * group; they join the imported subject. The media list is empty until the files are collected.
+ */
+export const getCoursePackageManifest = async (subjectId: string): Promise<CoursePackageManifest> => {
+  const operation = 'getCoursePackageManifest';
+
+  const { data: subject, error: subjectError } = await supabase
+    .from('subjects').select('*').eq('id', subjectId).is('deleted_at', null).maybeSingle();
+  assertNoError(operation, subjectError);
+  if (!subject) {
+    throw new RepositoryError(operation, `Subject ${subjectId} not found.`, { code: NOT_FOUND_CODE });
+  }
+
+  const [sectionsResult, lessonsResult, groupsResult, questionsResult, examsResult] = await Promise.all([
+    supabase.from('subject_sections').select('*').eq('subject_id', subjectId).is('deleted_at', null).order('order'),
+    supabase.from('lessons').select('*').eq('subject_id', subjectId).is('deleted_at', null).order('order'),
+    supabase.from('question_groups').select('*').eq('subject_id', subjectId),
+    supabase.from('questions').select('*').eq('subject_id', subjectId).is('deleted_at', null).order('created_at'),
+    supabase.from('exams').select('*').eq('subject_id', subjectId).is('deleted_at', null).order('created_at'),
+  ]);
+  [sectionsResult, lessonsResult, groupsResult, questionsResult, examsResult].forEach(result => assertNoError(operation, result.error));
+
+  const sections = sectionsResult.data || [];
+  const sectionIds = new Set(sections.map(section => section.id));
+  // Lessons of a trashed section stay where they are, out of sight.
+  const lessons = (lessonsResult.data || []).filter(lesson => sectionIds.has(lesson.section_id));
+  const exams = examsResult.data || [];
+  const questions = questionsResult.data || [];
+
+  const examQuestions: Tables<'exam_questions'>[] = [];
+  for (const ids of chunk(exams.map(exam => exam.id))) {
+    const { data, error } = await supabase
+      .from('exam_questions').select('*').in('exam_id', ids).order('order_number', { ascending: true });
+    assertNoError(operation, error);
+    examQuestions.push(...(data || []));
+  }
+
+  const ownQuestionIds = new Set(questions.map(question => question.id));
+  const borrowedIds = Array.from(new Set(examQuestions.map(link => link.question_id).filter(id => !ownQuestionIds.has(id))));
+  for (const ids of chunk(borrowedIds)) {
+    const { data, error } = await supabase.from('questions').select('*').in('id', ids).is('deleted_at', null);
+    assertNoError(operation, error);
+    questions.push(...(data || []).map(question => ({ ...question, lesson_id: null, group_id: null, group_order: null })));
+  }
+
+  const tagIds = Array.from(new Set(questions.flatMap(question => question.tag_ids || [])));
+  const tags: Pick<Tables<'tags'>, 'id' | 'name'>[] = [];
+  for (const ids of chunk(tagIds)) {
+    const { data, error } = await supabase.from('tags').select('id, name').in('id', ids);
+    assertNoError(operation, error);
+    tags.push(...(data || []));
+  }
+
+  return {
+    format: COURSE_PACKAGE_FORMAT,
+    format_version: COURSE_PACKAGE_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    subject: withoutLocalColumns(subject),
+    sections: sections.map(withoutLocalColumns),
+    lessons: lessons.map(withoutLocalColumns),
+    question_groups: (groupsResult.data || []).map(withoutLocalColumns),
+    questions: questions.map(withoutLocalColumns),
+    tags,
+    exams: exams.map(withoutLocalColumns),
+    exam_questions: examQuestions.map(({ created_at, ...link }) => link),
+    media: [],
+  };
+};
+
+const toConflicts = (value: Json | undefined): CoursePackageConflict[] =>
+  Array.isArray(value) ? (value as unknown as CoursePackageConflict[]) : [];
+
+/** What an import of the manifest would not bring across as it is, without importing anything. */
+export const getCoursePackageConflicts = async (manifest: CoursePackageManifest): Promise<CoursePackageConflict[]> => {
+  const { data, error } = await supabase.rpc('course_package_conflicts', { p_package: manifest as unknown as Json });
+  assertNoError('getCoursePackageConflicts', error);
+  return toConflicts(data);
+};
+
+/** Creates the course of the manifest under new ids, in one transaction. */
+export const importCoursePackageManifest = async (manifest: CoursePackageManifest): Promise<CoursePackageImportResult> => {
+  const { data, error } = await supabase.rpc('import_course_package', { p_package: manifest as unknown as Json });
+  assertNoError('importCoursePackageManifest', error);
+  const result = data as { subject_id?: string; counts?: Record<string, number>; conflicts?: Json } | null;
+  if (!result?.subject_id) {
+    throw new RepositoryError('importCoursePackageManifest', "Failed to import course package: no result returned from database.");
+  }
+  const counts = result.counts || {};
+  return {
+    subjectId: result.subject_id,
+    counts: {
+      sections: counts.sections ?? 0,
+      lessons: counts.lessons ?? 0,
+      questionGroups: counts.question_groups ?? 0,
+      questions: counts.questions ?? 0,
+      tags: counts.tags ?? 0,
+      exams: counts.exams ?? 0,
+      examQuestions: counts.exam_questions ?? 0,
+    },
+    conflicts: toConflicts(result.conflicts),
+  };
+};
@@ -0,0 +1,65 @@
+// src/lib/repositories/errors.ts
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST returns this code when `.single()` matches no rows.
+export const NOT_FOUND_CODE = 'PGRST116';
+
+/**
+ * Error thrown by every repository function.
+ * Keeps the PostgREST `code`, `details` and `hint` fields so existing callers that
+ * inspect them keep working, and records which repository operation failed.
+ */
+export class RepositoryError extends Error {
+  readonly operation: string;
+  readonly code: string | null;
+  readonly details: string | null;
+  readonly hint: string | null;
+  readonly cause?: unknown;
+
+  constructor(operation: string, message: string, options: { code?: string | null; details?: string | null; hint?: string | null; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.operation = operation;
+    this.code = options.code ?? null;
+    this.details = options.details ?? null;
+    this.hint = options.hint ?? null;
+    this.cause = options.cause;
+  }
+}
+
+export const isNotFoundError = (error: Pick<PostgrestError, 'code'> | null | undefined): boolean =>
+  !!error && error.code === NOT_FOUND_CODE;
+
+/**
+ * Logs a Supabase error once and wraps it in a RepositoryError.
+ * @param operation The repository function that failed (e.g. 'addSubject').
+ * @param error The error returned by Supabase, or any thrown value.
+ */
+export const toRepositoryError = (operation: string, error: unknown): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+
+  const source = (error ?? {}) as Partial<PostgrestError> & { message?: string };
+  const repositoryError = new RepositoryError(operation, source.message || `Unknown error in ${operation}.`, {
+    code: source.code,
+    details: source.details,
+    hint: source.hint,
+    cause: error,
+  });
+  console.error(`[${operation}] Supabase error:`, {
+    message: repositoryError.message,
+    code: repositoryError.code,
+    details: repositoryError.details,
+    hint: repositoryError.hint,
+  });
+  return repositoryError;
+};
+
+/**
+ * Throws a RepositoryError when a Supabase call returned an error.
+ * Pass `allowNotFound` for `.single()` lookups where a missing row is not an error.
+ */
+export function assertNoError(operation: string, error: PostgrestError | null, options?: { allowNotFound?: boolean }): void {
+  if (!error) return;
+  if (options?.allowNotFound && isNotFoundError(error)) return;
+  throw toRepositoryError(operation, error);
+}
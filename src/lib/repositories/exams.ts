@@ -0,0 +1,275 @@
+// src/lib/repositories/exams.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { Exam, ExamAttempt, ExamQuestionLink, AnswerAttempt, ImportMode, ImportResult } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { blankToNull, hasKey } from './shared';
+import { mapQuestionRow } from './questions';
+import { trashItem } from './trash';
+import { fetchRowsByKey, keysOf, planKeyedImport, sameColumnValue, stoppedImport } from './keyedImport';
+
+export type ExamRow = Tables<'exams'>;
+export type ExamQuestionRow = Tables<'exam_questions'>;
+export type ExamAttemptRow = Tables<'user_exam_attempts'>;
+
+export type ExamInput = Omit<Exam, 'id' | 'created_at' | 'updated_at' | 'questionCount' | 'questions'> & {
+  /** Ordered question IDs. When given on update, the exam's links are replaced by exactly this list. */
+  questionIds?: string[];
+  /** Points per question ID. Questions left out keep their stored points. */
+  questionPoints?: Record<string, number | null>;
+};
+
+export const mapExamRow = (row: ExamRow): Exam => ({
+  id: String(row.id),
+  title: row.title,
+  description: row.description,
+  subjectId: row.subject_id ?? '',
+  published: row.published,
+  image: row.image,
+  imageHint: row.image_hint,
+  teacherName: row.teacher_name,
+  teacherId: row.teacher_id,
+  durationInMinutes: row.duration,
+  duration: row.duration,
+  externalId: row.external_id,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toExamInsert = (data: ExamInput): TablesInsert<'exams'> => ({
+  title: data.title,
+  description: data.description || null,
+  subject_id: blankToNull(data.subjectId),
+  published: data.published || false,
+  image: data.image || null,
+  image_hint: data.imageHint || null,
+  teacher_name: data.teacherName || null,
+  teacher_id: blankToNull(data.teacherId),
+  duration: data.durationInMinutes ?? data.duration ?? null,
+  ...(data.externalId ? { external_id: data.externalId } : {}),
+});
+
+export const toExamUpdate = (data: Partial<ExamInput>): TablesUpdate<'exams'> => {
+  const update: TablesUpdate<'exams'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (hasKey(data, 'description')) update.description = data.description ?? null;
+  if (data.subjectId !== undefined) update.subject_id = blankToNull(data.subjectId);
+  if (data.published !== undefined) update.published = data.published;
+  if (hasKey(data, 'image')) update.image = data.image ?? null;
+  if (hasKey(data, 'imageHint')) update.image_hint = data.imageHint ?? null;
+  if (hasKey(data, 'teacherName')) update.teacher_name = data.teacherName ?? null;
+  if (hasKey(data, 'teacherId')) update.teacher_id = blankToNull(data.teacherId);
+  if (data.durationInMinutes !== undefined) update.duration = data.durationInMinutes;
+  else if (data.duration !== undefined) update.duration = data.duration;
+  return update;
+};
+
+/**
+ * The `p_questions` argument of the save_exam RPC: links in exam order, with `points` only for
+ * questions that have an entry in `questionPoints` (the RPC keeps stored points otherwise).
+ */
+export const toSaveExamQuestions = (questionIds: string[], questionPoints?: Record<string, number | null>): Json =>
+  questionIds.map((questionId, index) => ({
+    question_id: questionId,
+    order_number: index + 1,
+    ...(questionPoints && hasKey(questionPoints, questionId) ? { points: questionPoints[questionId] } : {}),
+  }));
+
+// Exams are written through the save_exam Postgres function (supabase/migrations/*_save_exam_rpc.sql),
+// which writes the exam row and diffs its exam_questions links in a single transaction.
+export const addExam = async (data: ExamInput): Promise<string> => {
+  const { data: newExamId, error } = await supabase.rpc('save_exam', {
+    p_exam: toExamInsert(data) as Json,
+    p_questions: toSaveExamQuestions(data.questionIds || [], data.questionPoints),
+  });
+  assertNoError('addExam', error);
+  if (!newExamId) {
+    throw new RepositoryError('addExam', "Failed to add exam: No ID returned from database.");
+  }
+  return String(newExamId);
+};
+
+export const getExams = async (): Promise<Exam[]> => {
+  const { data, error } = await supabase.from('exams').select('*, exam_questions(count)').is('deleted_at', null);
+  assertNoError('getExams', error);
+
+  return (data || []).map(({ exam_questions, ...row }) => ({
+    ...mapExamRow(row),
+    questionCount: (exam_questions as unknown as { count: number }[] | null)?.[0]?.count || 0,
+  }));
+};
+
+export const updateExam = async (id: string, data: Partial<ExamInput>): Promise<void> => {
+  const { error } = await supabase.rpc('save_exam', {
+    p_exam_id: id,
+    p_exam: toExamUpdate(data) as Json,
+    p_questions: data.questionIds !== undefined ? toSaveExamQuestions(data.questionIds, data.questionPoints) : null,
+  });
+  assertNoError('updateExam', error);
+};
+
+/** Moves the exam to the trash; its question links are kept for a restore. */
+export const deleteExam = async (id: string): Promise<void> => {
+  await trashItem('exam', id);
+};
+
+export const getExamById = async (id: string): Promise<Exam | null> => {
+  const { data: examRow, error } = await supabase.from('exams').select('*').eq('id', id).single();
+  assertNoError('getExamById', error, { allowNotFound: true });
+  if (!examRow) return null;
+
+  const { data: linkRows, error: linksError } = await supabase
+    .from('exam_questions')
+    .select('question_id, order_number, points, questions(*)')
+    .eq('exam_id', id)
+    .order('order_number', { ascending: true, nullsFirst: false });
+  assertNoError('getExamById', linksError);
+
+  const questions: ExamQuestionLink[] = (linkRows || [])
+    // Trashed questions keep their link (see save_exam) but are not part of the exam until restored.
+    .filter(link => link.questions !== null && link.questions.deleted_at === null)
+    .map(link => ({
+      question_id: link.question_id,
+      order_number: link.order_number,
+      points: link.points,
+      question: mapQuestionRow(link.questions!),
+    }));
+
+  return { ...mapExamRow(examRow), questions, questionCount: questions.length };
+};
+
+/**
+ * Appends questions to the end of an exam, keeping its current links (and their points) as they are.
+ * @returns The IDs that were added; questions already in the exam are left out.
+ */
+export const addQuestionsToExam = async (examId: string, questionIds: string[]): Promise<string[]> => {
+  const { data: linkRows, error } = await supabase
+    .from('exam_questions')
+    .select('question_id')
+    .eq('exam_id', examId)
+    .order('order_number', { ascending: true, nullsFirst: false });
+  assertNoError('addQuestionsToExam', error);
+
+  const existingIds = (linkRows || []).map(link => link.question_id);
+  const addedIds = Array.from(new Set(questionIds)).filter(id => !existingIds.includes(id));
+  if (addedIds.length === 0) return [];
+
+  const { error: saveError } = await supabase.rpc('save_exam', {
+    p_exam_id: examId,
+    p_exam: {},
+    p_questions: toSaveExamQuestions([...existingIds, ...addedIds]),
+  });
+  assertNoError('addQuestionsToExam', saveError);
+  return addedIds;
+};
+
+export const getExamTitleById = async (examId: string): Promise<string | null> => {
+  const { data, error } = await supabase.from('exams').select('title').eq('id', examId).single();
+  assertNoError('getExamTitleById', error, { allowNotFound: true });
+  return data?.title ?? null;
+};
+
+/** Live question ids of each exam, in exam order (links to trashed questions are kept but not part of the exam). */
+const getLinkedQuestionIds = async (examIds: string[]): Promise<Map<string, string[]>> => {
+  const linked = new Map<string, string[]>(examIds.map(id => [id, []]));
+  if (examIds.length === 0) return linked;
+  const { data, error } = await supabase
+    .from('exam_questions')
+    .select('exam_id, question_id, questions(deleted_at)')
+    .in('exam_id', examIds)
+    .order('order_number', { ascending: true, nullsFirst: false });
+  assertNoError('getLinkedQuestionIds', error);
+  (data || [])
+    .filter(link => link.questions !== null && link.questions.deleted_at === null)
+    .forEach(link => linked.get(link.exam_id)?.push(link.question_id));
+  return linked;
+};
+
+/**
+ * Imports exams with their question lists. Exams with an external id are matched to the ones imported
+ * from it before, as the mode says (see keyedImport.ts). An update goes through save_exam like an edit;
+ * the new exams are created together through save_exams.
+ */
+export const addExamsBatch = async (exams: ExamInput[], mode: ImportMode = 'insert'): Promise<ImportResult> => {
+  if (!exams || exams.length === 0) return { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+  const rows = exams.map(toExamInsert);
+  const plan = planKeyedImport(rows, await fetchRowsByKey('addExamsBatch', 'exams', keysOf(rows)), mode);
+
+  // The plan compares the exam columns only; an exam whose question list changed is not unchanged either.
+  const toUpdate = plan.updates.map(({ index, id }) => ({ index, id }));
+  let unchanged = plan.unchanged.length;
+  let skipped = plan.skipped.length;
+  if (plan.unchanged.length > 0) {
+    const linked = await getLinkedQuestionIds(plan.unchanged.map(entry => entry.id));
+    plan.unchanged.forEach(({ index, id }) => {
+      if (!sameColumnValue(exams[index].questionIds || [], linked.get(id) || [])) {
+        unchanged--;
+        if (mode === 'insert') skipped++;
+        else toUpdate.push({ index, id });
+      }
+    });
+  }
+  const result: ImportResult = { created: 0, updated: 0, unchanged, skipped };
+
+  for (const { index, id } of toUpdate) {
+    try {
+      await updateExam(id, exams[index]);
+      result.updated++;
+    } catch (error) {
+      // save_exam reports an exam the caller may not change as not found.
+      if (error instanceof RepositoryError && error.code === 'P0002') result.skipped++;
+      else return stoppedImport('addExamsBatch', result, error);
+    }
+  }
+
+  if (plan.inserts.length === 0) return result;
+  // save_exams creates every new exam with its links in one transaction: all of them or none.
+  const { data: inserted, error } = await supabase.rpc('save_exams', {
+    p_exams: plan.inserts.map(({ index, row }) => ({
+      exam: row,
+      questions: toSaveExamQuestions(exams[index].questionIds || [], exams[index].questionPoints),
+    })) as Json,
+  });
+  if (error) return stoppedImport('addExamsBatch', result, error);
+  if (!inserted || inserted.length !== plan.inserts.length) {
+    throw new RepositoryError('addExamsBatch', `Failed to add exams batch: expected ${plan.inserts.length} IDs from database, got ${inserted?.length || 0}.`);
+  }
+  result.created = inserted.length;
+  return result;
+};
+
+// --- Exam Attempts ---
+export const mapExamAttemptRow = (
+  row: ExamAttemptRow & { profiles?: { name: string | null; email: string | null } | null; exams?: { title: string } | null }
+): ExamAttempt => ({
+  id: String(row.id),
+  userId: row.user_id,
+  user: row.profiles ? { name: row.profiles.name, email: row.profiles.email } : undefined,
+  examId: row.exam_id ?? '',
+  exam: row.exams ? { title: row.exams.title } : undefined,
+  subjectId: row.subject_id,
+  examType: row.exam_type,
+  score: row.score,
+  correctAnswersCount: row.correct_answers_count,
+  totalQuestionsAttempted: row.total_questions_attempted,
+  answers: (Array.isArray(row.answers) ? row.answers : []) as unknown as AnswerAttempt[],
+  startedAt: row.started_at ?? undefined,
+  completedAt: row.completed_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const getExamAttempts = async (examId?: string): Promise<ExamAttempt[]> => {
+  let query = supabase
+    .from('user_exam_attempts')
+    .select('*, profiles ( name, email ), exams ( title )');
+
+  if (examId) {
+    query = query.eq('exam_id', examId);
+  }
+
+  const { data, error } = await query.order('completed_at', { ascending: false });
+  assertNoError('getExamAttempts', error);
+  return (data || []).map(mapExamAttemptRow);
+};
@@ -0,0 +1,51 @@
+// src/lib/repositories/importTemplates.ts
+// Saved column mappings of the import wizard (supabase/migrations/*_import_mapping_templates.sql).
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { ImportDataType, ImportMappingTemplate } from '@/types';
+import { assertNoError } from './errors';
+
+export type ImportMappingTemplateRow = Tables<'import_mapping_templates'>;
+
+export const mapImportMappingTemplateRow = (row: ImportMappingTemplateRow): ImportMappingTemplate => ({
+  id: row.id,
+  name: row.name,
+  dataType: row.data_type as ImportDataType,
+  mapping: row.mapping && typeof row.mapping === 'object' && !Array.isArray(row.mapping)
+    ? Object.fromEntries(Object.entries(row.mapping).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {},
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const getImportMappingTemplates = async (dataType: ImportDataType): Promise<ImportMappingTemplate[]> => {
+  const { data, error } = await supabase
+    .from('import_mapping_templates')
+    .select('*')
+    .eq('data_type', dataType)
+    .order('name', { ascending: true });
+  assertNoError('getImportMappingTemplates', error);
+  return (data || []).map(mapImportMappingTemplateRow);
+};
+
+/**
+ * Saves a mapping under a name: updates the template `id` when given, otherwise creates a new one.
+ * Names are unique per data type, so saving a new template under a taken name fails (23505).
+ */
+export const saveImportMappingTemplate = async (
+  template: { id?: string; name: string; dataType: ImportDataType; mapping: Record<string, string> }
+): Promise<ImportMappingTemplate> => {
+  const values = { name: template.name.trim(), data_type: template.dataType, mapping: template.mapping };
+  const query = template.id
+    ? supabase.from('import_mapping_templates').update(values).eq('id', template.id)
+    : supabase.from('import_mapping_templates').insert(values);
+  const { data, error } = await query.select('*').single();
+  assertNoError('saveImportMappingTemplate', error);
+  return mapImportMappingTemplateRow(data!);
+};
+
+export const deleteImportMappingTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('import_mapping_templates').delete().eq('id', id);
+  assertNoError('deleteImportMappingTemplate', error);
+};
@@ -0,0 +1,26 @@
+// src/lib/repositories/index.ts
+// Per-entity data access modules. Each one owns the row <-> domain mappers for its table(s),
+// typed against the Database definition in src/types/supabase.ts.
+export * from './errors';
+export * from './subjects';
+export * from './sections';
+export * from './lessons';
+export * from './questions';
+export * from './questionRevisions';
+export * from './questionGroups';
+export * from './questionDuplicates';
+export * from './sanityReviews';
+export * from './exams';
+export * from './accessCodes';
+export * from './news';
+export * from './announcements';
+export * from './tags';
+export * from './importTemplates';
+export * from './keyedImport';
+export * from './coursePackages';
+export * from './profiles';
+export * from './notifications';
+export * from './settings';
+export * from './trash';
+export * from './auditLog';
+export * from './search';
@@ -0,0 +1,191 @@
+// src/lib/repositories/keyedImport.ts
+// Repeatable imports. Each imported row carries a key -- its external_id (supabase/migrations/
+// *_import_external_ids.sql), or the code of an access code -- and the import mode decides what happens
+// to rows whose key is already in the table:
+//
+//   insert  -> only new keys are inserted; rows already there are left as they are (skipped, unless
+//              the file has them as stored)
+//   update  -> only rows already there are updated; new keys are skipped
+//   upsert  -> both
+//
+// Rows without a key can only be inserted. A row that matches what is stored counts as unchanged and is
+// not written, so running the same file twice writes nothing the second time.
+//
+// The writes are not one transaction: when one fails, the ones before it stay, and the result says so
+// (see stoppedImport). Running the same file again picks up where it stopped.
+import { supabase } from '@/lib/supabaseClient';
+import type { ImportMode, ImportResult } from '@/types';
+import { assertNoError, toRepositoryError } from './errors';
+
+type Row = Record<string, unknown>;
+export type KeyedTable = 'questions' | 'exams' | 'subjects' | 'news_items' | 'activation_codes';
+
+export interface KeyedImportPlan<R extends Row> {
+  inserts: { index: number; row: R }[];
+  updates: { index: number; id: string; row: R; stored: Row }[];
+  unchanged: { index: number; id: string; stored: Row }[];
+  /**
+   * Rows the mode does not allow (including rows an insert-only import finds stored with other content),
+   * rows repeating a key of an earlier row, and rows matching a trashed one.
+   */
+  skipped: number[];
+}
+
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Equality of a column value as written and as the database returns it: JSON objects compare without
+ * key order, missing equals null, and dates compare as instants ('2026-01-01' and '2026-01-01T00:00:00+00:00').
+ */
+export const sameColumnValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === undefined || a === null || b === undefined || b === null) return (a ?? null) === (b ?? null);
+  if (typeof a === 'string' && typeof b === 'string') {
+    return DATE_PREFIX.test(a) && DATE_PREFIX.test(b) && !isNaN(Date.parse(a)) && Date.parse(a) === Date.parse(b);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => sameColumnValue(item, b[i]));
+  }
+  if (typeof a === 'object' && typeof b === 'object') {
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    return keys.every(key => sameColumnValue((a as Row)[key], (b as Row)[key]));
+  }
+  return false;
+};
+
+const keyOf = (row: Row, keyColumn: string): string | null => {
+  const value = row[keyColumn];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+};
+
+/**
+ * Sorts the rows into inserts, updates, unchanged and skipped against the stored rows with the same keys.
+ * Only the columns a row sets are compared, so columns the file does not carry never count as changes.
+ */
+export const planKeyedImport = <R extends Row>(
+  rows: R[],
+  stored: Row[],
+  mode: ImportMode,
+  keyColumn: string = 'external_id'
+): KeyedImportPlan<R> => {
+  const storedByKey = new Map<string, Row>();
+  stored.forEach(row => {
+    const key = keyOf(row, keyColumn);
+    if (key) storedByKey.set(key, row);
+  });
+
+  const plan: KeyedImportPlan<R> = { inserts: [], updates: [], unchanged: [], skipped: [] };
+  const seen = new Set<string>();
+  rows.forEach((row, index) => {
+    const key = keyOf(row, keyColumn);
+    if (key) {
+      if (seen.has(key)) {
+        plan.skipped.push(index);
+        return;
+      }
+      seen.add(key);
+    }
+    const match = key ? storedByKey.get(key) : undefined;
+    if (!match) {
+      if (mode === 'update') plan.skipped.push(index);
+      else plan.inserts.push({ index, row });
+      return;
+    }
+    if (match.deleted_at) {
+      plan.skipped.push(index);
+      return;
+    }
+    const id = String(match.id);
+    if (Object.keys(row).every(column => sameColumnValue(row[column], match[column]))) {
+      plan.unchanged.push({ index, id, stored: match });
+    } else if (mode === 'insert') {
+      plan.skipped.push(index);
+    } else {
+      plan.updates.push({ index, id, row, stored: match });
+    }
+  });
+  return plan;
+};
+
+// Keeps the `in (...)` filter well inside PostgREST's URL length limit.
+const KEY_LOOKUP_CHUNK_SIZE = 100;
+
+/** The stored rows (every column) whose key is one of `keys`, trashed ones included where the caller may see them. */
+export const fetchRowsByKey = async (
+  operation: string,
+  table: KeyedTable,
+  keys: string[],
+  keyColumn: string = 'external_id'
+): Promise<Row[]> => {
+  const unique = Array.from(new Set(keys));
+  const rows: Row[] = [];
+  for (let start = 0; start < unique.length; start += KEY_LOOKUP_CHUNK_SIZE) {
+    // The tables differ in columns but not in how they are queried here; the rows are compared untyped.
+    const { data, error } = await supabase
+      .from(table as 'questions')
+      .select('*')
+      .in(keyColumn as 'external_id', unique.slice(start, start + KEY_LOOKUP_CHUNK_SIZE));
+    assertNoError(operation, error);
+    rows.push(...((data || []) as unknown as Row[]));
+  }
+  return rows;
+};
+
+/**
+ * What an import returns when a write fails: with nothing written yet the error is thrown as usual;
+ * otherwise the writes before it are kept, so the counts so far are returned with the error.
+ */
+export const stoppedImport = (operation: string, result: ImportResult, error: unknown): ImportResult => {
+  const repositoryError = toRepositoryError(operation, error);
+  if (result.created === 0 && result.updated === 0) throw repositoryError;
+  return { ...result, error: repositoryError.message };
+};
+
+export const keysOf = (rows: Row[], keyColumn: string = 'external_id'): string[] =>
+  rows.map(row => keyOf(row, keyColumn)).filter((key): key is string => key !== null);
+
+/**
+ * Runs a whole keyed import for a table whose rows are written as they are: inserts in one statement,
+ * updates one row at a time. An update that Row Level Security filters out counts as skipped. A failed
+ * update after other writes ends the import with what was written so far (see stoppedImport).
+ * `prepareUpdate` adjusts a row against its stored version before the two are compared.
+ */
+export const runKeyedImport = async <R extends Row>(
+  operation: string,
+  table: KeyedTable,
+  rows: R[],
+  mode: ImportMode,
+  options: { keyColumn?: string; prepareUpdate?: (row: R, stored: Row) => R } = {}
+): Promise<ImportResult> => {
+  const keyColumn = options.keyColumn ?? 'external_id';
+  const stored = await fetchRowsByKey(operation, table, keysOf(rows, keyColumn), keyColumn);
+  const prepared = options.prepareUpdate
+    ? rows.map(row => {
+        const key = keyOf(row, keyColumn);
+        const match = key ? stored.find(s => keyOf(s, keyColumn) === key) : undefined;
+        return match ? options.prepareUpdate!(row, match) : row;
+      })
+    : rows;
+  const plan = planKeyedImport(prepared, stored, mode, keyColumn);
+  const result: ImportResult = { created: 0, updated: 0, unchanged: plan.unchanged.length, skipped: plan.skipped.length };
+
+  if (plan.inserts.length > 0) {
+    const { data, error } = await supabase
+      .from(table as 'questions')
+      .insert(plan.inserts.map(insert => insert.row) as never[])
+      .select('id');
+    assertNoError(operation, error);
+    result.created = data?.length ?? 0;
+  }
+  for (const update of plan.updates) {
+    const { data, error } = await supabase
+      .from(table as 'questions')
+      .update(update.row as never)
+      .eq('id', update.id)
+      .select('id');
+    if (error) return stoppedImport(operation, result, error);
+    if (data && data.length > 0) result.updated++;
+    else result.skipped++;
+  }
+  return result;
+};
@@ -0,0 +1,128 @@
+// src/lib/repositories/lessons.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { Lesson, LessonFile, LessonTeacher } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { hasKey } from './shared';
+import { trashItem } from './trash';
+
+export type LessonRow = Tables<'lessons'>;
+
+export type LessonInput = Omit<Lesson, 'id' | 'subjectId' | 'sectionId' | 'created_at' | 'updated_at' | 'questions'>;
+
+export const mapLessonRow = (row: LessonRow): Lesson => ({
+  id: String(row.id),
+  subjectId: row.subject_id,
+  sectionId: row.section_id,
+  title: row.title,
+  videoUrl: row.video_url,
+  content: row.content,
+  teachers: Array.isArray(row.teachers) ? row.teachers as unknown as LessonTeacher[] : [],
+  files: Array.isArray(row.files) ? row.files as unknown as LessonFile[] : [],
+  order: row.order ?? undefined,
+  isLocked: row.is_locked,
+  linkedExamIds: row.linked_exam_ids || [],
+  notes: row.notes,
+  interactiveAppContent: row.interactive_app_content,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+// Empty teacher/file/exam lists are stored as NULL rather than '[]'.
+const listOrNull = <T>(list: T[] | undefined | null): T[] | null => (list && list.length > 0 ? list : null);
+
+export const toLessonInsert = (subjectId: string, sectionId: string, data: LessonInput): TablesInsert<'lessons'> => ({
+  subject_id: subjectId,
+  section_id: sectionId,
+  title: data.title,
+  video_url: data.videoUrl || null,
+  content: data.content || null,
+  teachers: listOrNull(data.teachers) as unknown as Json,
+  files: listOrNull(data.files) as unknown as Json,
+  order: (data.order !== undefined && data.order !== null) ? data.order : null,
+  is_locked: data.isLocked !== undefined ? data.isLocked : true,
+  linked_exam_ids: listOrNull(data.linkedExamIds),
+  notes: data.notes || null,
+  interactive_app_content: data.interactiveAppContent || null,
+});
+
+export const toLessonUpdate = (data: Partial<LessonInput>): TablesUpdate<'lessons'> => {
+  const update: TablesUpdate<'lessons'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (hasKey(data, 'videoUrl')) update.video_url = data.videoUrl ?? null;
+  if (hasKey(data, 'content')) update.content = data.content ?? null;
+  if (hasKey(data, 'teachers')) update.teachers = listOrNull(data.teachers) as unknown as Json;
+  if (hasKey(data, 'files')) update.files = listOrNull(data.files) as unknown as Json;
+  if (hasKey(data, 'order')) update.order = data.order ?? null;
+  if (data.isLocked !== undefined) update.is_locked = data.isLocked;
+  if (hasKey(data, 'linkedExamIds')) update.linked_exam_ids = listOrNull(data.linkedExamIds);
+  if (hasKey(data, 'notes')) update.notes = data.notes ?? null;
+  if (hasKey(data, 'interactiveAppContent')) update.interactive_app_content = data.interactiveAppContent ?? null;
+  return update;
+};
+
+export const addLesson = async (subjectId: string, sectionId: string, data: LessonInput): Promise<string> => {
+  const { data: inserted, error } = await supabase
+    .from('lessons')
+    .insert(toLessonInsert(subjectId, sectionId, data))
+    .select('id')
+    .single();
+  assertNoError('addLesson', error);
+  if (!inserted?.id) {
+    throw new RepositoryError('addLesson', "Failed to add lesson: No ID returned from database.");
+  }
+  return String(inserted.id);
+};
+
+export const getLessonsInSection = async (subjectId: string, sectionId: string): Promise<Lesson[]> => {
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('*')
+    .eq('section_id', sectionId)
+    .is('deleted_at', null)
+    .order('order', { ascending: true, nullsFirst: false })
+    .order('title', { ascending: true });
+  assertNoError('getLessonsInSection', error);
+  return (data || []).map(mapLessonRow);
+};
+
+/** Every lesson of the given subjects, across their sections (for matching lesson names in imports). */
+export const getLessonsForSubjects = async (subjectIds: string[]): Promise<Lesson[]> => {
+  if (subjectIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('*')
+    .in('subject_id', subjectIds)
+    .is('deleted_at', null)
+    .order('title', { ascending: true });
+  assertNoError('getLessonsForSubjects', error);
+  return (data || []).map(mapLessonRow);
+};
+
+/** The lesson, or null when it does not exist or is not in the given subject and section. */
+export const getLessonById = async (subjectId: string, sectionId: string, lessonId: string): Promise<Lesson | null> => {
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('*')
+    .eq('id', lessonId)
+    .eq('subject_id', subjectId)
+    .eq('section_id', sectionId)
+    .single();
+  assertNoError('getLessonById', error, { allowNotFound: true });
+  return data ? mapLessonRow(data) : null;
+};
+
+export const updateLesson = async (subjectId: string, sectionId: string, lessonId: string, data: Partial<LessonInput>): Promise<void> => {
+  const update = toLessonUpdate(data);
+  if (Object.keys(update).length === 0) {
+    console.warn(`updateLesson called with no data to update for lessonId: ${lessonId}`);
+    return;
+  }
+  const { error } = await supabase.from('lessons').update(update).eq('id', lessonId);
+  assertNoError('updateLesson', error);
+};
+
+/** Moves the lesson to the trash. Its questions stay linked, so restoring it brings the links back. */
+export const deleteLesson = async (subjectId: string, sectionId: string, lessonId: string): Promise<void> => {
+  await trashItem('lesson', lessonId);
+};
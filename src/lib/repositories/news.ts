@@ -0,0 +1,73 @@
+// src/lib/repositories/news.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { ImportMode, ImportResult, NewsArticle } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { hasKey } from './shared';
+import { runKeyedImport } from './keyedImport';
+
+export type NewsRow = Tables<'news_items'>;
+
+export type NewsArticleInput = Omit<NewsArticle, 'id' | 'created_at' | 'updated_at'>;
+
+export const mapNewsRow = (row: NewsRow): NewsArticle => ({
+  id: String(row.id),
+  title: row.title,
+  content: row.content,
+  imageUrl: row.image_url,
+  externalId: row.external_id,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toNewsInsert = (data: NewsArticleInput): TablesInsert<'news_items'> => ({
+  title: data.title,
+  content: data.content,
+  image_url: data.imageUrl || null,
+  ...(data.externalId ? { external_id: data.externalId } : {}),
+});
+
+export const toNewsUpdate = (data: Partial<NewsArticleInput>): TablesUpdate<'news_items'> => {
+  const update: TablesUpdate<'news_items'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (data.content !== undefined) update.content = data.content;
+  if (hasKey(data, 'imageUrl')) update.image_url = data.imageUrl ?? null;
+  return update;
+};
+
+export const addNewsArticle = async (data: NewsArticleInput): Promise<string> => {
+  const { data: newArticle, error } = await supabase.from('news_items').insert(toNewsInsert(data)).select('id').single();
+  assertNoError('addNewsArticle', error);
+  if (!newArticle?.id) {
+    throw new RepositoryError('addNewsArticle', "Failed to add news article: No ID returned from database.");
+  }
+  return String(newArticle.id);
+};
+
+export const getNewsArticles = async (): Promise<NewsArticle[]> => {
+  const { data, error } = await supabase.from('news_items').select('*').order('created_at', { ascending: false });
+  assertNoError('getNewsArticles', error);
+  return (data || []).map(mapNewsRow);
+};
+
+export const getNewsArticleById = async (id: string): Promise<NewsArticle | null> => {
+  const { data, error } = await supabase.from('news_items').select('*').eq('id', id).single();
+  assertNoError('getNewsArticleById', error, { allowNotFound: true });
+  return data ? mapNewsRow(data) : null;
+};
+
+export const updateNewsArticle = async (id: string, data: Partial<NewsArticleInput>): Promise<void> => {
+  const { error } = await supabase.from('news_items').update(toNewsUpdate(data)).eq('id', id);
+  assertNoError('updateNewsArticle', error);
+};
+
+export const deleteNewsArticle = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('news_items').delete().eq('id', id);
+  assertNoError('deleteNewsArticle', error);
+};
+
+/** Imports news; articles with an external id are matched to earlier imports as the mode says (see keyedImport.ts). */
+export const addNewsArticlesBatch = async (articles: NewsArticleInput[], mode: ImportMode = 'insert'): Promise<ImportResult> => {
+  if (!articles || articles.length === 0) return { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+  return runKeyedImport('addNewsArticlesBatch', 'news_items', articles.map(toNewsInsert), mode);
+};
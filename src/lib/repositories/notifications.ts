@@ -0,0 +1,118 @@
+// src/lib/repositories/notifications.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { AdminNotification, AdminNotificationType, UserNotification, UserNotificationType } from '@/types';
+import { assertNoError, toRepositoryError } from './errors';
+
+export type AdminNotificationRow = Tables<'admin_notifications'>;
+export type UserNotificationRow = Tables<'user_notifications'>;
+
+export interface NotificationQueryOptions {
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+export const mapAdminNotificationRow = (row: AdminNotificationRow): AdminNotification => ({
+  id: String(row.id),
+  type: row.type as AdminNotificationType,
+  message: row.message,
+  link_path: row.link_path,
+  related_entity_id: row.related_entity_id,
+  related_entity_type: row.related_entity_type,
+  is_read: row.is_read,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const mapUserNotificationRow = (row: UserNotificationRow): UserNotification => ({
+  id: String(row.id),
+  user_id: row.user_id,
+  type: row.type as UserNotificationType,
+  title: row.title,
+  message: row.message,
+  link_path: row.link_path,
+  related_entity_id: row.related_entity_id,
+  related_entity_type: row.related_entity_type,
+  is_read: row.is_read,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+// --- Admin Notifications ---
+export const getAdminNotifications = async (options?: NotificationQueryOptions): Promise<AdminNotification[]> => {
+  let query = supabase.from('admin_notifications').select('*');
+  if (options?.unreadOnly) query = query.eq('is_read', false);
+  query = query.order('created_at', { ascending: false });
+  if (options?.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) {
+    // The header bell polls this; a failure should not break the layout.
+    toRepositoryError('getAdminNotifications', error);
+    return [];
+  }
+  return (data || []).map(mapAdminNotificationRow);
+};
+
+export const markNotificationAsRead = async (notificationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('admin_notifications')
+    .update({ is_read: true, updated_at: new Date().toISOString() })
+    .eq('id', notificationId);
+  if (error) toRepositoryError('markNotificationAsRead', error);
+};
+
+// --- User Notifications (for Student App) ---
+export const getUserNotifications = async (userId: string, options?: NotificationQueryOptions): Promise<UserNotification[]> => {
+  if (!userId) {
+    console.warn("[getUserNotifications] userId is required.");
+    return [];
+  }
+  let query = supabase.from('user_notifications').select('*').eq('user_id', userId);
+  if (options?.unreadOnly) query = query.eq('is_read', false);
+  query = query.order('created_at', { ascending: false });
+  if (options?.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  assertNoError('getUserNotifications', error);
+  return (data || []).map(mapUserNotificationRow);
+};
+
+export const markUserNotificationAsRead = async (notificationId: string): Promise<void> => {
+  if (!notificationId) {
+    console.warn("[markUserNotificationAsRead] notificationId is required.");
+    return;
+  }
+  const { error } = await supabase
+    .from('user_notifications')
+    .update({ is_read: true, updated_at: new Date().toISOString() })
+    .eq('id', notificationId);
+  assertNoError('markUserNotificationAsRead', error);
+};
+
+export const markAllUserNotificationsAsRead = async (userId: string): Promise<void> => {
+  if (!userId) {
+    console.warn("[markAllUserNotificationsAsRead] userId is required.");
+    return;
+  }
+  const { error } = await supabase
+    .from('user_notifications')
+    .update({ is_read: true, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+  assertNoError('markAllUserNotificationsAsRead', error);
+};
+
+export const getUnreadUserNotificationsCount = async (userId: string): Promise<number> => {
+  if (!userId) {
+    console.warn("[getUnreadUserNotificationsCount] userId is required.");
+    return 0;
+  }
+  const { count, error } = await supabase
+    .from('user_notifications')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+  assertNoError('getUnreadUserNotificationsCount', error);
+  return count || 0;
+};
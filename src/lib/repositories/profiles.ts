@@ -0,0 +1,152 @@
+// src/lib/repositories/profiles.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { UserProfile, Badge, Reward, ActiveSubscription, SubjectBranchEnum } from '@/types';
+import { assertNoError, isNotFoundError, toRepositoryError } from './errors';
+
+export type ProfileRow = Tables<'profiles'>;
+
+export const mapProfileRow = (row: ProfileRow): UserProfile => ({
+  id: String(row.id),
+  email: row.email || null,
+  name: row.name || null,
+  avatar_url: row.avatar_url || null,
+  avatar_hint: row.avatar_hint || null,
+  points: row.points || 0,
+  level: row.level || 1,
+  progress_to_next_level: row.progress_to_next_level || 0,
+  badges: Array.isArray(row.badges) ? row.badges as unknown as Badge[] : [],
+  rewards: Array.isArray(row.rewards) ? row.rewards as unknown as Reward[] : [],
+  student_goals: row.student_goals || null,
+  branch: row.branch as SubjectBranchEnum || null,
+  university: row.university || null,
+  major: row.major || null,
+  active_subscription: typeof row.active_subscription === 'object' && row.active_subscription !== null && !Array.isArray(row.active_subscription)
+    ? row.active_subscription as unknown as ActiveSubscription
+    : null,
+  role: row.role as UserProfile['role'] || 'user',
+  youtube_channel_url: row.youtube_channel_url || null,
+  subjects_taught_ids: Array.isArray(row.subjects_taught_ids) ? row.subjects_taught_ids : null,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toProfileUpdate = (data: Partial<UserProfile>): TablesUpdate<'profiles'> => {
+  const update: TablesUpdate<'profiles'> = {};
+  if (data.name !== undefined) update.name = data.name;
+  if (data.role !== undefined) update.role = data.role;
+  if (data.youtube_channel_url !== undefined) update.youtube_channel_url = data.youtube_channel_url;
+  if (data.subjects_taught_ids !== undefined) {
+    update.subjects_taught_ids = Array.isArray(data.subjects_taught_ids) && data.subjects_taught_ids.length > 0
+      ? data.subjects_taught_ids
+      : null;
+  }
+  if (data.avatar_url !== undefined) update.avatar_url = data.avatar_url;
+  if (data.avatar_hint !== undefined) update.avatar_hint = data.avatar_hint;
+  if (data.points !== undefined) update.points = data.points;
+  if (data.level !== undefined) update.level = data.level;
+  if (data.progress_to_next_level !== undefined) update.progress_to_next_level = data.progress_to_next_level;
+  if (data.badges !== undefined) update.badges = (Array.isArray(data.badges) ? data.badges : []) as unknown as Json;
+  if (data.rewards !== undefined) update.rewards = (Array.isArray(data.rewards) ? data.rewards : []) as unknown as Json;
+  if (data.student_goals !== undefined) update.student_goals = data.student_goals;
+  if (data.branch !== undefined) update.branch = data.branch;
+  if (data.university !== undefined) update.university = data.university;
+  if (data.major !== undefined) update.major = data.major;
+  if (data.active_subscription !== undefined) {
+    update.active_subscription = typeof data.active_subscription === 'object' ? data.active_subscription as unknown as Json : null;
+  }
+  return update;
+};
+
+export const toProfileInsert = (data: Partial<UserProfile>): TablesInsert<'profiles'> => {
+  if (!data.id) {
+    throw toRepositoryError('toProfileInsert', new Error("Profile insert requires the Supabase Auth user id."));
+  }
+  return { ...toProfileUpdate(data), id: data.id, email: data.email ?? null };
+};
+
+export const getUsers = async (): Promise<UserProfile[]> => {
+  const { data, error } = await supabase.from('profiles').select('*');
+  assertNoError('getUsers', error);
+  return (data || []).map(mapProfileRow);
+};
+
+export const getUserByEmail = async (email: string): Promise<UserProfile | null> => {
+  const { data, error } = await supabase.from('profiles').select('*').eq('email', email).single();
+  assertNoError('getUserByEmail', error, { allowNotFound: true });
+  return data ? mapProfileRow(data) : null;
+};
+
+export const updateUser = async (id: string, data: Partial<Omit<UserProfile, 'id' | 'created_at' | 'updated_at'>>): Promise<void> => {
+  const update: TablesUpdate<'profiles'> = {};
+  if (data.name !== undefined) update.name = data.name;
+  if (data.role !== undefined) update.role = data.role;
+  if (data.youtube_channel_url !== undefined) update.youtube_channel_url = data.youtube_channel_url;
+
+  if (Object.keys(update).length > 0) {
+    const { error } = await supabase.from('profiles').update(update).eq('id', id);
+    assertNoError('updateUser', error);
+  }
+
+  if (data.subjects_taught_ids !== undefined && (data.role === 'teacher' || data.role === 'admin')) {
+    await updateTeacherSubjects(id, data.subjects_taught_ids);
+  }
+};
+
+export const getTeachers = async (): Promise<UserProfile[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*, teacher_subjects ( subject_id )')
+    .eq('role', 'teacher');
+  assertNoError('getTeachers', error);
+
+  return (data || []).map(({ teacher_subjects, ...row }) => ({
+    ...mapProfileRow(row),
+    subjects_taught_ids: (teacher_subjects || []).map(ts => ts.subject_id).filter(Boolean),
+  }));
+};
+
+/** IDs of the subjects linked to a teacher through the teacher_subjects table. */
+export const getTeacherSubjectIds = async (teacherId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('teacher_subjects')
+    .select('subject_id')
+    .eq('teacher_id', teacherId);
+  assertNoError('getTeacherSubjectIds', error);
+  return (data || []).map(ts => ts.subject_id);
+};
+
+/** Whether the teacher is linked to the given subject. */
+export const isTeacherAssignedToSubject = async (teacherId: string, subjectId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('teacher_subjects')
+    .select('subject_id')
+    .eq('teacher_id', teacherId)
+    .eq('subject_id', subjectId)
+    .maybeSingle();
+  if (error && !isNotFoundError(error)) throw toRepositoryError('isTeacherAssignedToSubject', error);
+  return !!data;
+};
+
+export const updateTeacherSubjects = async (teacherId: string, subjectIds: string[] | null): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from('teacher_subjects')
+    .delete()
+    .eq('teacher_id', teacherId);
+  assertNoError('updateTeacherSubjects', deleteError);
+
+  if (subjectIds && subjectIds.length > 0) {
+    const links: TablesInsert<'teacher_subjects'>[] = subjectIds.map(subjectId => ({
+      teacher_id: teacherId,
+      subject_id: subjectId,
+    }));
+    const { error: insertError } = await supabase.from('teacher_subjects').insert(links);
+    assertNoError('updateTeacherSubjects', insertError);
+  }
+};
+
+export const addUsersBatch = async (users: Partial<UserProfile>[]): Promise<void> => {
+  const rows = users.map(toProfileInsert);
+  const { error } = await supabase.from('profiles').insert(rows);
+  assertNoError('addUsersBatch', error);
+};
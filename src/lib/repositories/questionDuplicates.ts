@@ -0,0 +1,119 @@
+// src/lib/repositories/questionDuplicates.ts
+// Near-duplicate detection and merging. Texts are compared on questions.normalized_text by pg_trgm
+// similarity inside the database (supabase/migrations/*_question_duplicates.sql).
+import { supabase } from '@/lib/supabaseClient';
+import type { DuplicateQuestionPair, Question, SimilarQuestion } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { mapQuestionRow } from './questions';
+
+/** Similarity from which the new-question form and the import preview warn about a match. */
+export const SIMILAR_QUESTION_THRESHOLD = 0.6;
+
+/** Similarity from which the merge screen proposes two questions as duplicates. */
+export const DUPLICATE_QUESTION_THRESHOLD = 0.8;
+
+/**
+ * The closest existing questions (up to five each) for every text, best first.
+ * @param subjectIds Parallel to `texts`; restricts each text to questions of that subject when set.
+ */
+export const findSimilarQuestions = async (
+  texts: string[],
+  options: { subjectIds?: (string | null)[]; threshold?: number; excludeId?: string | null } = {}
+): Promise<SimilarQuestion[]> => {
+  if (texts.length === 0) return [];
+  const { data, error } = await supabase.rpc('find_similar_questions', {
+    p_texts: texts,
+    p_subject_ids: options.subjectIds ?? null,
+    p_threshold: options.threshold ?? SIMILAR_QUESTION_THRESHOLD,
+    p_exclude_id: options.excludeId ?? null,
+  });
+  assertNoError('findSimilarQuestions', error);
+  return (data || []).map(row => ({
+    inputIndex: row.input_index - 1,
+    questionId: row.question_id,
+    questionText: row.question_text,
+    subjectId: row.subject_id,
+    similarity: row.similarity,
+  }));
+};
+
+/** Pairs of likely duplicates in the bank (or in one subject), most similar first. */
+export const findDuplicateQuestionPairs = async (
+  subjectId?: string | null,
+  threshold: number = DUPLICATE_QUESTION_THRESHOLD
+): Promise<DuplicateQuestionPair[]> => {
+  const { data, error } = await supabase.rpc('find_duplicate_question_pairs', {
+    p_subject_id: subjectId ?? null,
+    p_threshold: threshold,
+  });
+  assertNoError('findDuplicateQuestionPairs', error);
+  return (data || []).map(row => ({
+    questionId: row.question_id,
+    duplicateId: row.duplicate_id,
+    similarity: row.similarity,
+  }));
+};
+
+/**
+ * Groups duplicate pairs into clusters of questions that are all (transitively) duplicates of each
+ * other, largest cluster first.
+ */
+export const clusterDuplicatePairs = (pairs: DuplicateQuestionPair[]): string[][] => {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  pairs.forEach(pair => {
+    const a = find(pair.questionId);
+    const b = find(pair.duplicateId);
+    if (a !== b) parent.set(b, a);
+  });
+
+  const clusters = new Map<string, string[]>();
+  pairs.flatMap(pair => [pair.questionId, pair.duplicateId]).forEach(id => {
+    const root = find(id);
+    const members = clusters.get(root) || [];
+    if (!members.includes(id)) members.push(id);
+    clusters.set(root, members);
+  });
+  return Array.from(clusters.values()).sort((a, b) => b.length - a.length);
+};
+
+export interface DuplicateCandidate {
+  question: Question;
+  /** Number of exams that use the question. */
+  examCount: number;
+}
+
+/** The questions of a duplicate cluster, with how often each one is used in exams. */
+export const getDuplicateCandidates = async (questionIds: string[]): Promise<DuplicateCandidate[]> => {
+  if (questionIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('questions')
+    .select('*, exam_questions ( exam_id )')
+    .in('id', questionIds)
+    .is('deleted_at', null);
+  assertNoError('getDuplicateCandidates', error);
+  return (data || []).map(({ exam_questions, ...row }) => ({
+    question: mapQuestionRow(row),
+    examCount: exam_questions?.length ?? 0,
+  }));
+};
+
+/**
+ * Keeps `survivorId`, moves the duplicates' exam links (and lesson, tags) onto it and puts the
+ * duplicates in the trash.
+ * @returns The number of exam links that were moved to the survivor.
+ */
+export const mergeQuestions = async (survivorId: string, duplicateIds: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('merge_questions', { p_survivor_id: survivorId, p_duplicate_ids: duplicateIds });
+  assertNoError('mergeQuestions', error);
+  if (typeof data !== 'number') {
+    throw new RepositoryError('mergeQuestions', "Failed to merge questions: no result returned from database.");
+  }
+  return data;
+};
@@ -0,0 +1,120 @@
+// src/lib/repositories/questionGroups.ts
+// Membership is stored on the questions (group_id, group_order) and written through the
+// set_question_group_members RPC (supabase/migrations/*_question_groups.sql), which also moves the
+// members into the group's lesson.
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { QuestionGroup, UserProfile } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { blankToNull, hasKey } from './shared';
+import { getTeacherSubjectIds } from './profiles';
+
+export type QuestionGroupRow = Tables<'question_groups'>;
+
+export type QuestionGroupInput = Omit<QuestionGroup, 'id' | 'created_at' | 'updated_at'>;
+
+type MemberRow = Pick<Tables<'questions'>, 'id' | 'group_order' | 'deleted_at'>;
+
+const QUESTION_GROUP_SELECT = '*, questions ( id, group_order, deleted_at )';
+
+// Nested selects are not ordered, and trashed members stay in the group until they are purged.
+const toMemberIds = (members: MemberRow[] | null | undefined): string[] =>
+  (members || [])
+    .filter(member => member.deleted_at === null)
+    .sort((a, b) => (a.group_order ?? Number.MAX_SAFE_INTEGER) - (b.group_order ?? Number.MAX_SAFE_INTEGER))
+    .map(member => member.id);
+
+export const mapQuestionGroupRow = (row: QuestionGroupRow & { questions?: MemberRow[] | null }): QuestionGroup => ({
+  id: String(row.id),
+  title: row.title,
+  stimulusText: row.stimulus_text,
+  stimulusImageUrl: row.stimulus_image_url,
+  stimulusImageHint: row.stimulus_image_hint,
+  subjectId: row.subject_id,
+  lessonId: row.lesson_id,
+  questionIds: toMemberIds(row.questions),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toQuestionGroupInsert = (data: QuestionGroupInput): TablesInsert<'question_groups'> => ({
+  title: data.title,
+  stimulus_text: blankToNull(data.stimulusText),
+  stimulus_image_url: blankToNull(data.stimulusImageUrl),
+  stimulus_image_hint: blankToNull(data.stimulusImageHint),
+  subject_id: blankToNull(data.subjectId),
+  lesson_id: blankToNull(data.lessonId),
+});
+
+export const toQuestionGroupUpdate = (data: Partial<QuestionGroupInput>): TablesUpdate<'question_groups'> => {
+  const update: TablesUpdate<'question_groups'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (hasKey(data, 'stimulusText')) update.stimulus_text = blankToNull(data.stimulusText);
+  if (hasKey(data, 'stimulusImageUrl')) update.stimulus_image_url = blankToNull(data.stimulusImageUrl);
+  if (hasKey(data, 'stimulusImageHint')) update.stimulus_image_hint = blankToNull(data.stimulusImageHint);
+  if (data.subjectId !== undefined) update.subject_id = blankToNull(data.subjectId);
+  if (data.lessonId !== undefined) update.lesson_id = blankToNull(data.lessonId);
+  return update;
+};
+
+/** Replaces the group's members with `questionIds`, in that order. */
+export const setQuestionGroupMembers = async (groupId: string, questionIds: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('set_question_group_members', { p_group_id: groupId, p_question_ids: questionIds });
+  assertNoError('setQuestionGroupMembers', error);
+};
+
+export const addQuestionGroup = async (data: QuestionGroupInput): Promise<string> => {
+  const { data: newGroup, error } = await supabase
+    .from('question_groups')
+    .insert(toQuestionGroupInsert(data))
+    .select('id')
+    .single();
+  assertNoError('addQuestionGroup', error);
+  if (!newGroup?.id) {
+    throw new RepositoryError('addQuestionGroup', "Failed to add question group: No ID returned from database.");
+  }
+  if (data.questionIds && data.questionIds.length > 0) {
+    await setQuestionGroupMembers(String(newGroup.id), data.questionIds);
+  }
+  return String(newGroup.id);
+};
+
+export const getQuestionGroups = async (userId?: string, userRole?: UserProfile['role']): Promise<QuestionGroup[]> => {
+  let query = supabase.from('question_groups').select(QUESTION_GROUP_SELECT);
+
+  if (userRole === 'teacher' && userId) {
+    const teacherSubjectIds = await getTeacherSubjectIds(userId);
+    if (teacherSubjectIds.length === 0) return [];
+    query = query.in('subject_id', teacherSubjectIds);
+  } else if (userRole !== 'admin') {
+    return [];
+  }
+
+  const { data, error } = await query.order('title', { ascending: true });
+  assertNoError('getQuestionGroups', error);
+  return (data || []).map(mapQuestionGroupRow);
+};
+
+export const getQuestionGroupById = async (id: string): Promise<QuestionGroup | null> => {
+  const { data, error } = await supabase.from('question_groups').select(QUESTION_GROUP_SELECT).eq('id', id).single();
+  assertNoError('getQuestionGroupById', error, { allowNotFound: true });
+  return data ? mapQuestionGroupRow(data) : null;
+};
+
+/** Updates the group; when `questionIds` is given the member list is replaced as well. */
+export const updateQuestionGroup = async (id: string, data: Partial<QuestionGroupInput>): Promise<void> => {
+  const update = toQuestionGroupUpdate(data);
+  if (Object.keys(update).length > 0) {
+    const { error } = await supabase.from('question_groups').update(update).eq('id', id);
+    assertNoError('updateQuestionGroup', error);
+  }
+  if (data.questionIds !== undefined) {
+    await setQuestionGroupMembers(id, data.questionIds);
+  }
+};
+
+/** Deletes the group; its questions are kept as standalone questions. */
+export const deleteQuestionGroup = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('question_groups').delete().eq('id', id);
+  assertNoError('deleteQuestionGroup', error);
+};
@@ -0,0 +1,60 @@
+// src/lib/repositories/questionRevisions.ts
+// Revisions are written by triggers on the questions table (supabase/migrations/*_question_revisions.sql),
+// so updateQuestion and every other write path record them without doing anything here.
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { QuestionRevision, QuestionType } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { toMatchingPairs, toOptions } from './questions';
+
+export type QuestionRevisionRow = Tables<'question_revisions'>;
+
+export const mapQuestionRevisionRow = (
+  row: QuestionRevisionRow & { profiles?: { name: string | null; email: string | null } | null }
+): QuestionRevision => ({
+  id: String(row.id),
+  questionId: row.question_id,
+  revision: row.revision,
+  questionType: row.question_type as QuestionType,
+  questionText: row.question_text,
+  imageUrl: row.image_url,
+  imageHint: row.image_hint,
+  difficulty: (row.difficulty ?? undefined) as QuestionRevision['difficulty'],
+  tagIds: row.tag_ids || [],
+  options: toOptions(row.options),
+  correctOptionId: row.correct_option_id,
+  correctAnswers: row.correct_answers,
+  modelAnswer: row.model_answer,
+  correctOptionIds: row.correct_option_ids,
+  pairs: toMatchingPairs(row.matching_pairs),
+  numericAnswer: row.numeric_answer,
+  unit: row.numeric_unit,
+  tolerance: row.numeric_tolerance,
+  createdBy: row.created_by,
+  author: row.profiles ? { name: row.profiles.name, email: row.profiles.email } : undefined,
+  created_at: row.created_at,
+});
+
+/** All revisions of a question, newest first. */
+export const getQuestionRevisions = async (questionId: string): Promise<QuestionRevision[]> => {
+  const { data, error } = await supabase
+    .from('question_revisions')
+    .select('*, profiles ( name, email )')
+    .eq('question_id', questionId)
+    .order('revision', { ascending: false });
+  assertNoError('getQuestionRevisions', error);
+  return (data || []).map(mapQuestionRevisionRow);
+};
+
+/**
+ * Copies an earlier revision's content back onto the question, which creates a new revision.
+ * @returns The question's new revision number.
+ */
+export const restoreQuestionRevision = async (questionId: string, revision: number): Promise<number> => {
+  const { data, error } = await supabase.rpc('restore_question_revision', { p_question_id: questionId, p_revision: revision });
+  assertNoError('restoreQuestionRevision', error);
+  if (typeof data !== 'number') {
+    throw new RepositoryError('restoreQuestionRevision', "Failed to restore revision: no revision number returned from database.");
+  }
+  return data;
+};
@@ -0,0 +1,656 @@
+// src/lib/repositories/questions.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type {
+  Question, QuestionType, Option, MatchingPair, MCQQuestion, TrueFalseQuestion, FillInTheBlanksQuestion, ShortAnswerQuestion,
+  MultiSelectQuestion, MatchingQuestion, OrderingQuestion, NumericQuestion, UserProfile, ImportMode, ImportResult,
+} from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { toArabicPrefixTsQuery } from '@/lib/arabicText';
+import { assertNoError, RepositoryError } from './errors';
+import { blankToNull, hasKey } from './shared';
+import { getTeacherSubjectIds } from './profiles';
+import { trashItem } from './trash';
+import { runKeyedImport } from './keyedImport';
+
+export type QuestionRow = Tables<'questions'>;
+
+export type QuestionInput = Omit<Question, 'id' | 'created_at' | 'updated_at'>;
+
+const DEFAULT_TRUE_FALSE_OPTIONS: Option[] = [{ id: 'true', text: 'صحيح' }, { id: 'false', text: 'خطأ' }];
+
+// Option and pair lists of the newer types (multi_select, matching, ordering) allow a few more entries than MCQ.
+export const MAX_CHOICE_ITEMS = 8;
+
+export const toOptions = (value: Json | null): Option[] | null =>
+  Array.isArray(value) ? value as unknown as Option[] : null;
+
+export const toMatchingPairs = (value: Json | null): MatchingPair[] | null =>
+  Array.isArray(value) ? value as unknown as MatchingPair[] : null;
+
+export const mapQuestionRow = (row: QuestionRow): Question => {
+  const base = {
+    id: String(row.id),
+    questionText: row.question_text,
+    imageUrl: row.image_url,
+    imageHint: row.image_hint,
+    difficulty: (row.difficulty ?? undefined) as Question['difficulty'],
+    subjectId: row.subject_id,
+    lessonId: row.lesson_id,
+    tagIds: row.tag_ids || [],
+    isSane: row.is_sane,
+    sanityExplanation: row.sanity_explanation,
+    answerKeyCheck: row.answer_key_agrees === null ? null : {
+      agrees: row.answer_key_agrees,
+      confidence: row.answer_key_confidence,
+      explanation: row.answer_key_explanation,
+      solverAnswer: row.answer_key_solver_answer,
+    },
+    isLocked: row.is_locked,
+    revision: row.revision,
+    groupId: row.group_id,
+    groupOrder: row.group_order,
+    externalId: row.external_id,
+    feedback: row.feedback,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+  const options = toOptions(row.options);
+
+  switch (row.question_type as QuestionType) {
+    case 'mcq':
+      return { ...base, questionType: 'mcq', options: options || [], correctOptionId: row.correct_option_id || '' };
+    case 'true_false':
+      return {
+        ...base,
+        questionType: 'true_false',
+        options: options || DEFAULT_TRUE_FALSE_OPTIONS,
+        correctOptionId: row.correct_option_id as TrueFalseQuestion['correctOptionId'],
+      };
+    case 'fill_in_the_blanks':
+      return { ...base, questionType: 'fill_in_the_blanks', correctAnswers: row.correct_answers || [] };
+    case 'short_answer':
+      return { ...base, questionType: 'short_answer', modelAnswer: row.model_answer ?? undefined };
+    case 'multi_select':
+      return { ...base, questionType: 'multi_select', options: options || [], correctOptionIds: row.correct_option_ids || [] };
+    case 'matching':
+      return { ...base, questionType: 'matching', pairs: toMatchingPairs(row.matching_pairs) || [] };
+    case 'ordering':
+      return { ...base, questionType: 'ordering', options: options || [] };
+    case 'numeric':
+      return {
+        ...base,
+        questionType: 'numeric',
+        numericAnswer: row.numeric_answer ?? 0,
+        tolerance: row.numeric_tolerance ?? 0,
+        unit: row.numeric_unit,
+      };
+    default:
+      console.warn(`mapQuestionRow: Unknown question type encountered: ${row.question_type} for question ID: ${row.id}`);
+      return { ...base, questionType: row.question_type } as unknown as Question; // Fallback, should be reviewed
+  }
+};
+
+// Writes the type-specific answer columns of a question.
+const applyAnswerFields = (target: TablesUpdate<'questions'>, questionType: QuestionType | undefined, data: Partial<QuestionInput>): void => {
+  switch (questionType) {
+    case 'mcq':
+    case 'true_false': {
+      const choiceData = data as Partial<MCQQuestion | TrueFalseQuestion>;
+      if (choiceData.options !== undefined) target.options = choiceData.options as unknown as Json;
+      if (choiceData.correctOptionId !== undefined) target.correct_option_id = choiceData.correctOptionId;
+      break;
+    }
+    case 'fill_in_the_blanks': {
+      const fitbData = data as Partial<FillInTheBlanksQuestion>;
+      if (fitbData.correctAnswers !== undefined) target.correct_answers = fitbData.correctAnswers;
+      break;
+    }
+    case 'short_answer': {
+      const saData = data as Partial<ShortAnswerQuestion>;
+      if (hasKey(saData, 'modelAnswer')) target.model_answer = saData.modelAnswer || null;
+      break;
+    }
+    case 'multi_select': {
+      const msData = data as Partial<MultiSelectQuestion>;
+      if (msData.options !== undefined) target.options = msData.options as unknown as Json;
+      if (msData.correctOptionIds !== undefined) target.correct_option_ids = msData.correctOptionIds;
+      break;
+    }
+    case 'matching': {
+      const matchingData = data as Partial<MatchingQuestion>;
+      if (matchingData.pairs !== undefined) target.matching_pairs = matchingData.pairs as unknown as Json;
+      break;
+    }
+    case 'ordering': {
+      const orderingData = data as Partial<OrderingQuestion>;
+      if (orderingData.options !== undefined) target.options = orderingData.options as unknown as Json;
+      break;
+    }
+    case 'numeric': {
+      const numericData = data as Partial<NumericQuestion>;
+      if (numericData.numericAnswer !== undefined) target.numeric_answer = numericData.numericAnswer;
+      if (numericData.tolerance !== undefined) target.numeric_tolerance = numericData.tolerance;
+      if (hasKey(numericData, 'unit')) target.numeric_unit = blankToNull(numericData.unit);
+      break;
+    }
+  }
+};
+
+export const toQuestionInsert = (data: QuestionInput): TablesInsert<'questions'> => {
+  const insert: TablesInsert<'questions'> = {
+    question_type: data.questionType,
+    question_text: data.questionText,
+    image_url: data.imageUrl || null,
+    image_hint: data.imageHint || null,
+    difficulty: data.difficulty ?? null,
+    subject_id: blankToNull(data.subjectId),
+    lesson_id: blankToNull(data.lessonId),
+    tag_ids: Array.isArray(data.tagIds) ? data.tagIds : [],
+    is_sane: data.isSane ?? null,
+    sanity_explanation: data.sanityExplanation ?? null,
+    is_locked: data.isLocked ?? true,
+    feedback: blankToNull(data.feedback),
+  };
+  applyAnswerFields(insert, data.questionType, data);
+  if (data.questionType === 'short_answer' && !hasKey(data, 'modelAnswer')) insert.model_answer = null;
+  return insert;
+};
+
+/**
+ * Builds the update payload for a question.
+ * @param questionType The type the answer fields belong to (the new type, or the stored one when unchanged).
+ */
+export const toQuestionUpdate = (data: Partial<QuestionInput>, questionType: QuestionType | undefined): TablesUpdate<'questions'> => {
+  const update: TablesUpdate<'questions'> = {};
+  if (data.questionType !== undefined) update.question_type = data.questionType;
+  if (data.questionText !== undefined) update.question_text = data.questionText;
+  if (hasKey(data, 'imageUrl')) update.image_url = data.imageUrl ?? null;
+  if (hasKey(data, 'imageHint')) update.image_hint = data.imageHint ?? null;
+  if (data.difficulty !== undefined) update.difficulty = data.difficulty;
+  if (data.subjectId !== undefined) update.subject_id = blankToNull(data.subjectId);
+  if (data.lessonId !== undefined) update.lesson_id = blankToNull(data.lessonId);
+  if (data.tagIds !== undefined) update.tag_ids = Array.isArray(data.tagIds) ? data.tagIds : [];
+  if (hasKey(data, 'isSane')) update.is_sane = data.isSane ?? null;
+  if (hasKey(data, 'sanityExplanation')) update.sanity_explanation = data.sanityExplanation ?? null;
+  if (data.isLocked !== undefined) update.is_locked = data.isLocked;
+  if (hasKey(data, 'feedback')) update.feedback = blankToNull(data.feedback);
+  applyAnswerFields(update, questionType, data);
+  return update;
+};
+
+export const addQuestion = async (data: QuestionInput): Promise<string> => {
+  const { data: newQuestion, error } = await supabase
+    .from('questions')
+    .insert(toQuestionInsert(data))
+    .select('id')
+    .single();
+  assertNoError('addQuestion', error);
+  if (!newQuestion?.id) {
+    throw new RepositoryError('addQuestion', "Failed to add question: No ID returned from database.");
+  }
+  return String(newQuestion.id);
+};
+
+export const getQuestions = async (userId?: string, userRole?: UserProfile['role']): Promise<Question[]> => {
+  let query = supabase.from('questions').select('*').is('deleted_at', null);
+
+  if (userRole === 'teacher' && userId) {
+    const teacherSubjectIds = await getTeacherSubjectIds(userId);
+    if (teacherSubjectIds.length === 0) return [];
+    query = query.in('subject_id', teacherSubjectIds);
+  } else if (userRole !== 'admin') {
+    // Only admins may fetch the whole bank through this generic getter; RLS is the final authority.
+    return [];
+  }
+
+  const { data, error } = await query;
+  assertNoError('getQuestions', error);
+  return (data || []).map(mapQuestionRow);
+};
+
+export type QuestionSortField = 'created_at' | 'updated_at' | 'question_text' | 'difficulty';
+
+export interface QuestionPageParams {
+  /** `null` selects questions that are not linked to any subject. */
+  subjectId?: string | null;
+  lessonId?: string;
+  /** Matches questions carrying at least one of the given tags. */
+  tagIds?: string[];
+  difficulty?: Question['difficulty'];
+  questionType?: QuestionType;
+  /** `null` selects questions that have not been sanity-checked yet. */
+  isSane?: boolean | null;
+  /** Arabic-aware search over the question text (see toArabicPrefixTsQuery); every word is matched as a prefix. */
+  search?: string;
+  /**
+   * Subjects and tags whose names match `search` (see matchesArabicSearch): their questions match the
+   * search too, whatever their text. The caller resolves them since it already holds the names.
+   */
+  searchSubjectIds?: string[];
+  searchTagIds?: string[];
+  /** Offset of the first row to return, as given by the previous page's `nextCursor`. */
+  cursor?: number | null;
+  limit?: number;
+  sort?: { field: QuestionSortField; ascending?: boolean };
+}
+
+export interface QuestionPage {
+  questions: Question[];
+  /** Exact for small results; the planner's estimate once it runs past the API's row limit. */
+  totalCount: number;
+  /** Pass back as `cursor` to fetch the next page; null once the last page was returned. */
+  nextCursor: number | null;
+}
+
+export const DEFAULT_QUESTION_PAGE_SIZE = 25;
+const MAX_QUESTION_PAGE_SIZE = 100;
+
+const EMPTY_QUESTION_PAGE: QuestionPage = { questions: [], totalCount: 0, nextCursor: null };
+
+export const getQuestionsPage = async (
+  params: QuestionPageParams,
+  userId?: string,
+  userRole?: UserProfile['role'],
+): Promise<QuestionPage> => {
+  const limit = Math.min(Math.max(params.limit ?? DEFAULT_QUESTION_PAGE_SIZE, 1), MAX_QUESTION_PAGE_SIZE);
+  const offset = Math.max(params.cursor ?? 0, 0);
+
+  let query = supabase.from('questions').select('*', { count: 'estimated' }).is('deleted_at', null);
+
+  if (userRole === 'teacher' && userId) {
+    const teacherSubjectIds = await getTeacherSubjectIds(userId);
+    if (teacherSubjectIds.length === 0) return EMPTY_QUESTION_PAGE;
+    if (params.subjectId === null || (params.subjectId && !teacherSubjectIds.includes(params.subjectId))) {
+      return EMPTY_QUESTION_PAGE;
+    }
+    query = query.in('subject_id', teacherSubjectIds);
+  } else if (userRole !== 'admin') {
+    // Same rule as getQuestions: only admins may page through the whole bank.
+    return EMPTY_QUESTION_PAGE;
+  }
+
+  if (params.subjectId === null) query = query.is('subject_id', null);
+  else if (params.subjectId) query = query.eq('subject_id', params.subjectId);
+  if (params.lessonId) query = query.eq('lesson_id', params.lessonId);
+  if (params.tagIds && params.tagIds.length > 0) query = query.overlaps('tag_ids', params.tagIds);
+  if (params.difficulty) query = query.eq('difficulty', params.difficulty);
+  if (params.questionType) query = query.eq('question_type', params.questionType);
+  if (params.isSane === null) query = query.is('is_sane', null);
+  else if (params.isSane !== undefined) query = query.eq('is_sane', params.isSane);
+
+  const tsQuery = toArabicPrefixTsQuery(params.search);
+  if (tsQuery) {
+    // The terms are normalized words, so the quoted tsquery never contains quotes or backslashes.
+    const matches = [`search_vector.fts(simple)."${tsQuery}"`];
+    if (params.searchSubjectIds?.length) matches.push(`subject_id.in.(${params.searchSubjectIds.join(',')})`);
+    if (params.searchTagIds?.length) matches.push(`tag_ids.ov.{${params.searchTagIds.join(',')}}`);
+    query = query.or(matches.join(','));
+  }
+
+  const sortField = params.sort?.field ?? 'created_at';
+  const ascending = params.sort?.ascending ?? false;
+  const { data, error, count } = await query
+    .order(sortField, { ascending, nullsFirst: false })
+    .order('id', { ascending: true }) // Tie-breaker so rows don't move between pages.
+    .range(offset, offset + limit - 1);
+  assertNoError('getQuestionsPage', error);
+
+  const questions = (data || []).map(mapQuestionRow);
+  const nextOffset = offset + questions.length;
+  // An estimate may fall short of the rows already seen, and cannot tell whether more follow.
+  return {
+    questions,
+    totalCount: Math.max(count ?? 0, nextOffset),
+    nextCursor: questions.length === limit ? nextOffset : null,
+  };
+};
+
+/**
+ * The given file URLs that no question and no question revision uses (see
+ * supabase/migrations/*_option_media_cleanup.sql), so they can be deleted from storage.
+ */
+export const findUnreferencedMediaUrls = async (urls: string[]): Promise<string[]> => {
+  if (urls.length === 0) return [];
+  const { data, error } = await supabase.rpc('unreferenced_media_urls', { p_urls: urls });
+  assertNoError('findUnreferencedMediaUrls', error);
+  return data || [];
+};
+
+export const getQuestionById = async (id: string): Promise<Question | null> => {
+  const { data, error } = await supabase.from('questions').select('*').eq('id', id).single();
+  assertNoError('getQuestionById', error, { allowNotFound: true });
+  return data ? mapQuestionRow(data) : null;
+};
+
+export const updateQuestion = async (id: string, data: Partial<QuestionInput>): Promise<void> => {
+  const questionType = data.questionType || (await getQuestionById(id))?.questionType;
+  const update = toQuestionUpdate(data, questionType);
+
+  if (Object.keys(update).length === 0) {
+    console.warn("updateQuestion called with no data to update for id:", id);
+    return;
+  }
+
+  const { error } = await supabase.from('questions').update(update).eq('id', id);
+  assertNoError('updateQuestion', error);
+};
+
+/** Moves the question to the trash; its lesson and exam links are kept for a restore. */
+export const deleteQuestion = async (id: string): Promise<void> => {
+  await trashItem('question', id);
+};
+
+export const getQuestionsForLesson = async (lessonId: string): Promise<Question[]> => {
+  const { data, error } = await supabase
+    .from('questions')
+    .select('*')
+    .eq('lesson_id', lessonId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+  assertNoError('getQuestionsForLesson', error);
+  return (data || []).map(mapQuestionRow);
+};
+
+export const unlinkQuestionFromLesson = async (questionId: string): Promise<void> => {
+  const { error } = await supabase.from('questions').update({ lesson_id: null }).eq('id', questionId);
+  assertNoError('unlinkQuestionFromLesson', error);
+};
+
+/**
+ * Type-specific spreadsheet columns for a question, named the way parseQuestionImportRow reads them back
+ * (option1..N, correctAnswers, pair1Prompt/pair1Match, numericAnswer, ...).
+ */
+export const toQuestionSheetColumns = (question: Question): Record<string, string | number | null | undefined> => {
+  const columns: Record<string, string | number | null | undefined> = { questionType: question.questionType };
+  const addOptionFeedback = (options: Option[]) => options.forEach((opt, index) => {
+    if (opt.feedback) columns[`option${index + 1}_feedback`] = opt.feedback;
+  });
+  const addOptions = (options: Option[]) => options.forEach((opt, index) => {
+    columns[`option${index + 1}`] = opt.text;
+    if (opt.imageUrl) columns[`option${index + 1}_image`] = opt.imageUrl;
+    if (opt.audioUrl) columns[`option${index + 1}_audio`] = opt.audioUrl;
+  });
+
+  switch (question.questionType) {
+    case 'mcq': {
+      addOptions(question.options);
+      addOptionFeedback(question.options);
+      const correctOption = question.options.find(opt => opt.id === question.correctOptionId);
+      columns.correctOptionText = correctOption ? correctOption.text : 'N/A';
+      columns.correctOptionId = question.correctOptionId;
+      break;
+    }
+    case 'true_false':
+      columns.correctOptionId = question.correctOptionId;
+      columns.correctBooleanAnswer = question.correctOptionId;
+      addOptionFeedback(question.options); // option1 is "true", option2 "false"
+      break;
+    case 'fill_in_the_blanks':
+      columns.correctAnswers = question.correctAnswers?.join('; ');
+      break;
+    case 'short_answer':
+      columns.modelAnswer = question.modelAnswer;
+      break;
+    case 'multi_select':
+      addOptions(question.options);
+      columns.correctOptionIndexes = question.options
+        .map((opt, index) => (question.correctOptionIds.includes(opt.id) ? String(index + 1) : null))
+        .filter(Boolean)
+        .join('; ');
+      break;
+    case 'matching':
+      question.pairs.forEach((pair, index) => {
+        columns[`pair${index + 1}Prompt`] = pair.prompt;
+        columns[`pair${index + 1}Match`] = pair.match;
+      });
+      break;
+    case 'ordering':
+      addOptions(question.options);
+      break;
+    case 'numeric':
+      columns.numericAnswer = question.numericAnswer;
+      columns.tolerance = question.tolerance;
+      columns.unit = question.unit ?? '';
+      break;
+  }
+  return columns;
+};
+
+const UUID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+const importUrl = (value: unknown): string | null =>
+  value === undefined || value === null ? null : blankToNull(String(value).trim());
+
+// The option{i}_feedback text of an option, as the `feedback` key of its jsonb (absent when empty).
+const importOptionFeedback = (item: Record<string, any>, i: number): Pick<Option, 'feedback'> => {
+  const feedback = item[`option${i}_feedback`] ? String(item[`option${i}_feedback`]).trim() : '';
+  return feedback ? { feedback } : {};
+};
+
+// Reads the option1..optionN columns of an import row, skipping empty cells, together with the
+// option{i}_image / option{i}_audio URLs and option{i}_feedback that toQuestionSheetColumns writes.
+// An option may consist of media only.
+const readImportOptions = (item: Record<string, any>, max: number): Option[] => {
+  const options: Option[] = [];
+  for (let i = 1; i <= max; i++) {
+    const imageUrl = importUrl(item[`option${i}_image`]);
+    const audioUrl = importUrl(item[`option${i}_audio`]);
+    if (!item[`option${i}`] && !imageUrl && !audioUrl) continue;
+    options.push({
+      id: uuidv4(),
+      text: item[`option${i}`] ? String(item[`option${i}`]) : '',
+      ...(imageUrl ? { imageUrl } : {}),
+      ...(audioUrl ? { audioUrl } : {}),
+      ...importOptionFeedback(item, i),
+    });
+  }
+  return options;
+};
+
+const parseImportNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || String(value).trim() === '') return null;
+  const parsed = Number(String(value).trim().replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/**
+ * Converts one normalized import row (lowercase, space-free keys) into a questions insert.
+ * Returns the reason, in Arabic for the import preview, instead when the row has to be skipped.
+ */
+export const parseQuestionImportRow = (item: Record<string, any>): TablesInsert<'questions'> | string => {
+  const missing = ['questiontype', 'questiontext', 'difficulty', 'subjectid'].filter(key => !item[key]);
+  if (missing.length > 0) {
+    return `حقول مطلوبة مفقودة: ${missing.join('، ')}`;
+  }
+  if (!UUID_REGEX.test(String(item.subjectid))) {
+    return `معرف المادة ليس UUID صالحًا: "${item.subjectid}"`;
+  }
+  if (!DIFFICULTIES.includes(String(item.difficulty))) {
+    return `مستوى صعوبة غير معروف "${item.difficulty}"؛ القيم المسموحة: easy، medium، hard`;
+  }
+  if (item.lessonid && !UUID_REGEX.test(String(item.lessonid))) {
+    return `معرف الدرس ليس UUID صالحًا: "${item.lessonid}"`;
+  }
+
+  const tagIds = item.tagids ? String(item.tagids).split(',').map((t: string) => t.trim()).filter(Boolean) : [];
+  const invalidTagId = tagIds.find(id => !UUID_REGEX.test(id));
+  if (invalidTagId) {
+    return `معرف التصنيف ليس UUID صالحًا: "${invalidTagId}"`;
+  }
+
+  const row: TablesInsert<'questions'> = {
+    question_type: String(item.questiontype),
+    question_text: String(item.questiontext),
+    difficulty: String(item.difficulty),
+    subject_id: String(item.subjectid),
+    lesson_id: item.lessonid ? String(item.lessonid) : null,
+    tag_ids: tagIds,
+    is_sane: item.issane !== undefined ? String(item.issane).toLowerCase() === 'true' : null,
+    sanity_explanation: item.sanityexplanation || null,
+    is_locked: item.islocked !== undefined ? String(item.islocked).toLowerCase() === 'true' : true,
+    image_url: item.imageurl || null,
+    image_hint: item.imagehint || null,
+    external_id: item.externalid ? String(item.externalid).trim() : null,
+    feedback: item.feedback ? String(item.feedback) : null,
+  };
+
+  switch (row.question_type as QuestionType) {
+    case 'mcq': {
+      const options = readImportOptions(item, 6);
+      if (options.length < 2) return `سؤال الاختيار من متعدد يحتاج إلى خيارين على الأقل، وُجد ${options.length}`;
+
+      let correctIndex = -1;
+      if (item.correctoptionindex) correctIndex = parseInt(String(item.correctoptionindex), 10) - 1;
+      else if (item.correctoptiontext) correctIndex = options.findIndex(opt => opt.text.trim().toLowerCase() === String(item.correctoptiontext).trim().toLowerCase());
+      if (correctIndex < 0 || correctIndex >= options.length) {
+        return `تعذر تحديد الخيار الصحيح (correctOptionIndex: "${item.correctoptionindex ?? ''}"، correctOptionText: "${item.correctoptiontext ?? ''}")`;
+      }
+      row.options = options as unknown as Json;
+      row.correct_option_id = options[correctIndex].id;
+      break;
+    }
+    case 'true_false': {
+      const correctBoolAnswer = String(item.correctbooleananswer).toLowerCase();
+      if (correctBoolAnswer !== 'true' && correctBoolAnswer !== 'false') {
+        return `إجابة صح/خطأ غير صالحة "${item.correctbooleananswer ?? ''}"؛ المتوقع true أو false`;
+      }
+      row.options = DEFAULT_TRUE_FALSE_OPTIONS.map((opt, index) => ({ ...opt, ...importOptionFeedback(item, index + 1) })) as unknown as Json;
+      row.correct_option_id = correctBoolAnswer;
+      break;
+    }
+    case 'fill_in_the_blanks': {
+      const answers = item.correctanswers ? String(item.correctanswers).split(';').map((ans: string) => ans.trim()).filter(Boolean) : [];
+      if (answers.length === 0) return "لا توجد إجابات صحيحة (correctAnswers)";
+      row.correct_answers = answers;
+      break;
+    }
+    case 'short_answer':
+      row.model_answer = item.modelanswer || null;
+      break;
+    case 'multi_select': {
+      const options = readImportOptions(item, MAX_CHOICE_ITEMS);
+      if (options.length < 2) return `سؤال الاختيار المتعدد يحتاج إلى خيارين على الأقل، وُجد ${options.length}`;
+      const indexes = String(item.correctoptionindexes ?? '').split(/[;,]/).map(idx => idx.trim()).filter(Boolean);
+      if (indexes.length === 0) return "لا توجد خيارات صحيحة (correctOptionIndexes)";
+      const correctIds: string[] = [];
+      for (const idx of indexes) {
+        const position = parseInt(idx, 10) - 1;
+        if (isNaN(position) || position < 0 || position >= options.length) return `رقم خيار صحيح غير صالح "${idx}"`;
+        if (!correctIds.includes(options[position].id)) correctIds.push(options[position].id);
+      }
+      row.options = options as unknown as Json;
+      row.correct_option_ids = correctIds;
+      break;
+    }
+    case 'matching': {
+      const pairs: MatchingPair[] = [];
+      for (let i = 1; i <= MAX_CHOICE_ITEMS; i++) {
+        const prompt = item[`pair${i}prompt`];
+        const match = item[`pair${i}match`];
+        if (!prompt && !match) continue;
+        if (!prompt || !match) return `الزوج ${i} يحتاج إلى pair${i}Prompt و pair${i}Match معًا`;
+        pairs.push({ id: uuidv4(), prompt: String(prompt), match: String(match) });
+      }
+      if (pairs.length < 2) return `سؤال المطابقة يحتاج إلى زوجين على الأقل، وُجد ${pairs.length}`;
+      row.matching_pairs = pairs as unknown as Json;
+      break;
+    }
+    case 'ordering': {
+      const options = readImportOptions(item, MAX_CHOICE_ITEMS);
+      if (options.length < 2) return `سؤال الترتيب يحتاج إلى عنصرين على الأقل، وُجد ${options.length}`;
+      row.options = options as unknown as Json;
+      break;
+    }
+    case 'numeric': {
+      const answer = parseImportNumber(item.numericanswer);
+      if (answer === null) return `الإجابة الرقمية مفقودة أو غير صالحة "${item.numericanswer ?? ''}"`;
+      const tolerance = parseImportNumber(item.tolerance) ?? 0;
+      if (tolerance < 0) return `هامش الخطأ لا يمكن أن يكون سالبًا (${tolerance})`;
+      row.numeric_answer = answer;
+      row.numeric_tolerance = tolerance;
+      row.numeric_unit = item.unit ? String(item.unit) : null;
+      break;
+    }
+    default:
+      return `نوع سؤال غير مدعوم "${row.question_type}"`;
+  }
+  return row;
+};
+
+/**
+ * Gives a re-imported question the ids of the stored question's options and matching pairs, by position.
+ * An unchanged row then compares equal, and answers given to the stored question still point at the
+ * same choices after an update.
+ */
+const withStoredChoiceIds = (row: TablesInsert<'questions'>, stored: Record<string, unknown>): TablesInsert<'questions'> => {
+  const storedIds = (items: unknown): string[] =>
+    Array.isArray(items) ? items.map(item => String((item as { id?: unknown } | null)?.id ?? '')) : [];
+  const next = { ...row };
+  if (Array.isArray(row.options) && row.question_type !== 'true_false') {
+    const ids = storedIds(stored.options);
+    const renamed = new Map<string, string>();
+    next.options = (row.options as unknown as Option[]).map((opt, index) => {
+      const id = ids[index] || opt.id;
+      renamed.set(opt.id, id);
+      return { ...opt, id };
+    }) as unknown as Json;
+    if (row.correct_option_id) next.correct_option_id = renamed.get(row.correct_option_id) ?? row.correct_option_id;
+    if (row.correct_option_ids) next.correct_option_ids = row.correct_option_ids.map(id => renamed.get(id) ?? id);
+  }
+  if (Array.isArray(row.matching_pairs)) {
+    const ids = storedIds(stored.matching_pairs);
+    next.matching_pairs = (row.matching_pairs as unknown as MatchingPair[])
+      .map((pair, index) => ({ ...pair, id: ids[index] || pair.id })) as unknown as Json;
+  }
+  return next;
+};
+
+// Optional columns and the import field each is read from. When a row leaves the field out, the column
+// is not written: a new question gets the column default and an updated one keeps its stored value.
+const OPTIONAL_IMPORT_COLUMNS: [keyof TablesInsert<'questions'>, string][] = [
+  ['lesson_id', 'lessonid'],
+  ['tag_ids', 'tagids'],
+  ['is_sane', 'issane'],
+  ['sanity_explanation', 'sanityexplanation'],
+  ['is_locked', 'islocked'],
+  ['image_url', 'imageurl'],
+  ['image_hint', 'imagehint'],
+  ['external_id', 'externalid'],
+  ['feedback', 'feedback'],
+];
+
+const withoutMissingColumns = (row: TablesInsert<'questions'>, item: Record<string, any>): TablesInsert<'questions'> => {
+  const next = { ...row };
+  OPTIONAL_IMPORT_COLUMNS.forEach(([column, field]) => {
+    if (item[field] === undefined || item[field] === '') delete next[column];
+  });
+  return next;
+};
+
+/**
+ * Imports normalized rows (see parseQuestionImportRow). Rows with an `externalid` are matched to the
+ * questions imported from it before, as the mode says (see keyedImport.ts); invalid rows are skipped.
+ */
+export const importQuestionsBatch = async (rawImportData: any[], mode: ImportMode = 'insert'): Promise<ImportResult> => {
+  if (!rawImportData || rawImportData.length === 0) return { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+  const rows: TablesInsert<'questions'>[] = [];
+  let skippedCount = 0;
+  // The import preview already reported why a row is invalid (see questionImportValidation.ts).
+  rawImportData.forEach(item => {
+    const parsed = parseQuestionImportRow(item);
+    if (typeof parsed === 'string') skippedCount++;
+    else rows.push(withoutMissingColumns(parsed, item));
+  });
+
+  if (rows.length === 0) {
+    throw new RepositoryError('importQuestionsBatch', "All questions in the import file were skipped due to validation errors. The import preview lists the problems of each row, and its error report (XLSX) has them for fixing the file.");
+  }
+
+  const result = await runKeyedImport('importQuestionsBatch', 'questions', rows, mode, { prepareUpdate: withStoredChoiceIds });
+  result.skipped += skippedCount;
+  return result;
+};
@@ -0,0 +1,120 @@
+// src/lib/repositories/sanityReviews.ts
+// The AI sanity check queue (supabase/migrations/*_sanity_review_queue.sql). Questions are queued in
+// the database, checked by a worker on the server (src/lib/sanityCheckWorker.ts) and the verdicts wait
+// for a teacher to accept or reject them.
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { SanityReview, SanityReviewProgress, SanityReviewStatus } from '@/types';
+import { assertNoError } from './errors';
+
+export type SanityReviewRow = Tables<'question_sanity_reviews'>;
+
+/** Attempts a check gets before it is marked failed (see fail_sanity_check). */
+export const MAX_SANITY_CHECK_ATTEMPTS = 3;
+
+export const mapSanityReviewRow = (
+  row: SanityReviewRow & { questions: { question_text: string; subject_id: string | null } | null }
+): SanityReview => ({
+  id: row.id,
+  questionId: row.question_id,
+  questionText: row.questions?.question_text ?? '',
+  subjectId: row.questions?.subject_id ?? null,
+  status: row.status as SanityReviewStatus,
+  questionRevision: row.question_revision,
+  isSane: row.is_sane,
+  explanation: row.explanation,
+  keyCheck: row.key_agrees === null ? null : {
+    agrees: row.key_agrees,
+    confidence: row.key_confidence,
+    explanation: row.key_explanation,
+    solverAnswer: row.key_solver_answer,
+  },
+  attempts: row.attempts,
+  lastError: row.last_error,
+  checkedAt: row.checked_at,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+});
+
+/**
+ * Queues the questions that were never checked or were edited since their last check.
+ * @returns The number of questions queued.
+ */
+export const enqueueSanityChecks = async (subjectId?: string | null): Promise<number> => {
+  const { data, error } = await supabase.rpc('enqueue_sanity_checks', { p_subject_id: subjectId ?? null });
+  assertNoError('enqueueSanityChecks', error);
+  return data ?? 0;
+};
+
+/**
+ * Queues the given questions for a new check, whatever their current verdict. Questions that already
+ * have an entry in the queue or waiting for review are left out.
+ * @returns The ids of the questions queued.
+ */
+export const queueSanityChecks = async (questionIds: string[]): Promise<string[]> => {
+  if (questionIds.length === 0) return [];
+  const { data, error } = await supabase.rpc('queue_sanity_checks', { p_question_ids: questionIds });
+  assertNoError('queueSanityChecks', error);
+  return data || [];
+};
+
+/** Puts failed entries back in the queue with a fresh set of attempts. */
+export const requeueSanityChecks = async (reviewIds: string[]): Promise<number> => {
+  if (reviewIds.length === 0) return 0;
+  const { data, error } = await supabase.rpc('requeue_sanity_checks', { p_review_ids: reviewIds });
+  assertNoError('requeueSanityChecks', error);
+  return data ?? 0;
+};
+
+export interface SanityReviewParams {
+  status: SanityReviewStatus;
+  /** `null` selects questions without a subject. */
+  subjectId?: string | null;
+  /** Only verdicts that found the question sane (true) or not (false). */
+  isSane?: boolean;
+  /** Only entries whose answer-key check agreed (true) or disagreed (false) with the stored key. */
+  keyAgrees?: boolean;
+  limit?: number;
+}
+
+/** Queue entries of one status, oldest first. */
+export const getSanityReviews = async (params: SanityReviewParams): Promise<SanityReview[]> => {
+  let query = supabase
+    .from('question_sanity_reviews')
+    .select('*, questions!inner ( question_text, subject_id )')
+    .eq('status', params.status)
+    .is('questions.deleted_at', null);
+  if (params.subjectId === null) query = query.is('questions.subject_id', null);
+  else if (params.subjectId) query = query.eq('questions.subject_id', params.subjectId);
+  if (params.isSane !== undefined) query = query.eq('is_sane', params.isSane);
+  if (params.keyAgrees !== undefined) query = query.eq('key_agrees', params.keyAgrees);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(params.limit ?? 100);
+  assertNoError('getSanityReviews', error);
+  return (data || []).map(mapSanityReviewRow);
+};
+
+/**
+ * Accepts (writes the verdict to the question) or rejects a verdict. Accepting fails when the question
+ * was edited after it was checked.
+ */
+export const resolveSanityReview = async (reviewId: string, accept: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('resolve_sanity_review', { p_review_id: reviewId, p_accept: accept });
+  assertNoError('resolveSanityReview', error);
+};
+
+export const getSanityReviewProgress = async (): Promise<SanityReviewProgress[]> => {
+  const { data, error } = await supabase.rpc('sanity_review_progress');
+  assertNoError('getSanityReviewProgress', error);
+  return (data || []).map(row => ({
+    subjectId: row.subject_id,
+    subjectName: row.subject_name,
+    queued: row.queued,
+    failed: row.failed,
+    toReview: row.to_review,
+    accepted: row.accepted,
+    rejected: row.rejected,
+  }));
+};
@@ -0,0 +1,29 @@
+// src/lib/repositories/search.ts
+// Search across the bank for the header search box. public.global_search
+// (supabase/migrations/*_arabic_search.sql) matches the Arabic-normalized search_vector of questions,
+// lessons, exams and news.
+import { supabase } from '@/lib/supabaseClient';
+import type { Database } from '@/types/supabase';
+import type { SearchEntity, SearchResult } from '@/types';
+import { assertNoError } from './errors';
+import { searchTerms } from '@/lib/arabicText';
+
+export type SearchRow = Database['public']['Functions']['global_search']['Returns'][number];
+
+export const mapSearchRow = (row: SearchRow): SearchResult => ({
+  entity: row.entity as SearchEntity,
+  id: String(row.id),
+  title: row.title,
+  excerpt: row.excerpt,
+  subjectId: row.subject_id,
+  subjectName: row.subject_name,
+  rank: row.rank,
+});
+
+/** The best matches of each kind (up to `limitPerEntity` each), best first within a kind. */
+export const searchEverything = async (query: string, limitPerEntity: number = 5): Promise<SearchResult[]> => {
+  if (searchTerms(query).length === 0) return [];
+  const { data, error } = await supabase.rpc('global_search', { p_query: query, p_limit: limitPerEntity });
+  assertNoError('searchEverything', error);
+  return (data || []).map(mapSearchRow);
+};
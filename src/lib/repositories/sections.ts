@@ -0,0 +1,81 @@
+// src/lib/repositories/sections.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { SubjectSection } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { hasKey } from './shared';
+import { trashItem } from './trash';
+
+export type SectionRow = Tables<'subject_sections'>;
+
+export type SectionInput = Omit<SubjectSection, 'id' | 'subjectId' | 'created_at' | 'updated_at' | 'lessons'>;
+
+export const mapSectionRow = (row: SectionRow): SubjectSection => ({
+  id: String(row.id),
+  subjectId: row.subject_id,
+  title: row.title,
+  type: row.type as SubjectSection['type'], // text column limited to 'theory' / 'practical' by a CHECK constraint
+  order: row.order ?? undefined,
+  isLocked: row.is_locked,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toSectionInsert = (subjectId: string, data: SectionInput): TablesInsert<'subject_sections'> => {
+  const insert: TablesInsert<'subject_sections'> = {
+    subject_id: subjectId,
+    title: data.title,
+    type: data.type,
+    order: (data.order !== undefined && data.order !== null) ? data.order : null,
+  };
+  if (data.isLocked !== undefined) insert.is_locked = data.isLocked;
+  return insert;
+};
+
+export const toSectionUpdate = (data: Partial<SectionInput>): TablesUpdate<'subject_sections'> => {
+  const update: TablesUpdate<'subject_sections'> = {};
+  if (data.title !== undefined) update.title = data.title;
+  if (data.type !== undefined) update.type = data.type;
+  if (hasKey(data, 'order')) update.order = data.order ?? null;
+  if (data.isLocked !== undefined) update.is_locked = data.isLocked;
+  return update;
+};
+
+export const addSubjectSection = async (subjectId: string, data: Omit<SectionInput, 'isLocked'> & { isLocked?: boolean }): Promise<string> => {
+  const { data: inserted, error } = await supabase
+    .from('subject_sections')
+    .insert(toSectionInsert(subjectId, data))
+    .select('id')
+    .single();
+  assertNoError('addSubjectSection', error);
+  if (!inserted?.id) {
+    throw new RepositoryError('addSubjectSection', "Failed to add subject section: No 'id' returned from database or unexpected response.");
+  }
+  return String(inserted.id);
+};
+
+export const getSubjectSections = async (subjectId: string): Promise<SubjectSection[]> => {
+  const { data, error } = await supabase
+    .from('subject_sections')
+    .select('*')
+    .eq('subject_id', subjectId)
+    .is('deleted_at', null)
+    .order('order', { ascending: true, nullsFirst: false })
+    .order('title', { ascending: true });
+  assertNoError('getSubjectSections', error);
+  return (data || []).map(mapSectionRow);
+};
+
+export const updateSubjectSection = async (subjectId: string, sectionId: string, data: Partial<SectionInput>): Promise<void> => {
+  const { error } = await supabase
+    .from('subject_sections')
+    .update(toSectionUpdate(data))
+    .eq('id', sectionId)
+    .eq('subject_id', subjectId);
+  assertNoError('updateSubjectSection', error);
+};
+
+/** Moves the section and its lessons to the trash. */
+export const deleteSubjectSection = async (subjectId: string, sectionId: string): Promise<void> => {
+  await trashItem('section', sectionId);
+};
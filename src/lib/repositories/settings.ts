@@ -0,0 +1,55 @@
+// src/lib/repositories/settings.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Json, Tables, TablesUpdate } from '@/types/supabase';
+import type { AppSettings, SocialMediaLink } from '@/types';
+import { assertNoError } from './errors';
+import { hasKey } from './shared';
+
+export type AppSettingsRow = Tables<'app_settings'>;
+
+export type AppSettingsInput = Omit<AppSettings, 'id' | 'created_at' | 'updated_at'>;
+
+export const mapAppSettingsRow = (row: AppSettingsRow): AppSettings => ({
+  id: String(row.id),
+  appName: row.app_name,
+  appLogoUrl: row.app_logo_url,
+  supportPhoneNumber: row.support_phone_number,
+  supportEmail: row.support_email,
+  socialMediaLinks: Array.isArray(row.social_media_links) ? row.social_media_links as unknown as SocialMediaLink[] : [],
+  termsOfServiceUrl: row.terms_of_service_url,
+  privacyPolicyUrl: row.privacy_policy_url,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export const toAppSettingsUpdate = (settings: Partial<AppSettingsInput>): TablesUpdate<'app_settings'> => {
+  const update: TablesUpdate<'app_settings'> = {};
+  if (hasKey(settings, 'appName')) update.app_name = settings.appName ?? null;
+  if (hasKey(settings, 'appLogoUrl')) update.app_logo_url = settings.appLogoUrl ?? null;
+  if (hasKey(settings, 'supportPhoneNumber')) update.support_phone_number = settings.supportPhoneNumber ?? null;
+  if (hasKey(settings, 'supportEmail')) update.support_email = settings.supportEmail ?? null;
+  if (hasKey(settings, 'socialMediaLinks')) update.social_media_links = (settings.socialMediaLinks ?? []) as unknown as Json;
+  if (hasKey(settings, 'termsOfServiceUrl')) update.terms_of_service_url = settings.termsOfServiceUrl ?? null;
+  if (hasKey(settings, 'privacyPolicyUrl')) update.privacy_policy_url = settings.privacyPolicyUrl ?? null;
+  return update;
+};
+
+export const getAppSettings = async (): Promise<AppSettings | null> => {
+  const { data, error } = await supabase.from('app_settings').select('*').limit(1).single();
+  assertNoError('getAppSettings', error, { allowNotFound: true });
+  return data ? mapAppSettingsRow(data) : null;
+};
+
+// app_settings holds a single row: update it when present, otherwise create it.
+export const updateAppSettings = async (settings: Partial<AppSettingsInput>): Promise<void> => {
+  const update = toAppSettingsUpdate(settings);
+  const existingSettings = await getAppSettings();
+
+  if (existingSettings?.id) {
+    const { error } = await supabase.from('app_settings').update(update).eq('id', existingSettings.id);
+    assertNoError('updateAppSettings', error);
+  } else {
+    const { error } = await supabase.from('app_settings').insert([update]);
+    assertNoError('updateAppSettings', error);
+  }
+};
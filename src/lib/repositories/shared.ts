@@ -0,0 +1,19 @@
+// src/lib/repositories/shared.ts
+// Small helpers shared by the row <-> domain mappers.
+
+/** Returns the value, or null when it is missing or only whitespace. */
+export const blankToNull = (value: string | null | undefined): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+/** True when `key` was explicitly passed in a partial update, even if its value is null/undefined. */
+export const hasKey = <T extends object>(data: T, key: keyof T): boolean =>
+  Object.prototype.hasOwnProperty.call(data, key);
+
+// Nested selects don't honour the parent's ordering, so sections and lessons are sorted client-side
+// the same way the flat queries order them (order asc, nulls last, then title).
+export const compareByOrderThenTitle = (a: { order?: number | null; title: string }, b: { order?: number | null; title: string }): number => {
+  const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+  const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+  if (orderA !== orderB) return orderA - orderB;
+  return a.title.localeCompare(b.title, 'ar');
+};
@@ -0,0 +1,146 @@
+// src/lib/repositories/subjects.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables, TablesInsert, TablesUpdate } from '@/types/supabase';
+import type { ImportMode, ImportResult, Subject, UserProfile } from '@/types';
+import { assertNoError, RepositoryError } from './errors';
+import { compareByOrderThenTitle, hasKey } from './shared';
+import { getTeacherSubjectIds, isTeacherAssignedToSubject } from './profiles';
+import { mapSectionRow } from './sections';
+import { mapLessonRow } from './lessons';
+import { trashItem } from './trash';
+import { runKeyedImport } from './keyedImport';
+
+export type SubjectRow = Tables<'subjects'>;
+
+export type SubjectInput = Omit<Subject, 'id' | 'created_at' | 'updated_at' | 'sections'>;
+
+export const mapSubjectRow = (row: SubjectRow): Subject => ({
+  id: String(row.id),
+  name: row.name,
+  description: row.description ?? undefined,
+  branch: row.branch as Subject['branch'],
+  image: row.image,
+  iconName: row.icon_name,
+  imageHint: row.image_hint,
+  interactiveAppContent: row.interactive_app_content,
+  order: row.order ?? undefined,
+  externalId: row.external_id,
+  created_at: row.created_at,
+  updated_at: row.updated_at ?? undefined,
+});
+
+export const toSubjectInsert = (data: SubjectInput): TablesInsert<'subjects'> => ({
+  name: data.name,
+  description: data.description || null,
+  branch: data.branch,
+  image: data.image || null,
+  icon_name: data.iconName || null,
+  image_hint: data.imageHint || null,
+  interactive_app_content: data.interactiveAppContent || null,
+  order: (data.order !== undefined && data.order !== null) ? data.order : null,
+  ...(data.externalId ? { external_id: data.externalId } : {}),
+});
+
+export const toSubjectUpdate = (data: Partial<SubjectInput>): TablesUpdate<'subjects'> => {
+  const update: TablesUpdate<'subjects'> = {};
+  if (data.name !== undefined) update.name = data.name;
+  if (data.description !== undefined) update.description = data.description;
+  if (data.branch !== undefined) update.branch = data.branch;
+  if (data.image !== undefined) update.image = data.image;
+  if (data.iconName !== undefined) update.icon_name = data.iconName;
+  if (data.imageHint !== undefined) update.image_hint = data.imageHint;
+  if (hasKey(data, 'interactiveAppContent')) update.interactive_app_content = data.interactiveAppContent ?? null;
+  if (hasKey(data, 'order')) update.order = data.order ?? null;
+  return update;
+};
+
+export const addSubject = async (data: SubjectInput): Promise<string> => {
+  const { data: newSubject, error } = await supabase
+    .from('subjects')
+    .insert(toSubjectInsert(data))
+    .select('id')
+    .single();
+  assertNoError('addSubject', error);
+  if (!newSubject?.id) {
+    throw new RepositoryError('addSubject', "Failed to add subject: No ID returned from database.");
+  }
+  return newSubject.id;
+};
+
+export const getSubjects = async (userId?: string, userRole?: UserProfile['role']): Promise<Subject[]> => {
+  let query = supabase.from('subjects').select('*').is('deleted_at', null);
+
+  if (userRole === 'teacher' && userId) {
+    const teacherSubjectIds = await getTeacherSubjectIds(userId);
+    if (teacherSubjectIds.length === 0) return []; // If teacher has no assigned subjects, return empty
+    query = query.in('id', teacherSubjectIds);
+  }
+  // Other roles fall through to the unfiltered list; RLS is the final authority on what they can read.
+
+  const { data, error } = await query
+    .order('order', { ascending: true, nullsFirst: false })
+    .order('name', { ascending: true });
+  assertNoError('getSubjects', error);
+  return (data || []).map(mapSubjectRow);
+};
+
+export const updateSubject = async (id: string, data: Partial<SubjectInput>, userId?: string, userRole?: UserProfile['role']): Promise<void> => {
+  if (userRole === 'teacher' && userId) {
+    if (!(await isTeacherAssignedToSubject(userId, id))) {
+      throw new RepositoryError('updateSubject', "الأستاذ غير مصرح له بتحديث هذه المادة أو المادة غير موجودة للأستاذ.");
+    }
+  } else if (userRole !== 'admin') { // Only allow admin if not a teacher checking their own subject
+    throw new RepositoryError('updateSubject', "المستخدم غير مصرح له بتحديث المواد.");
+  }
+
+  const { error } = await supabase.from('subjects').update(toSubjectUpdate(data)).eq('id', id);
+  assertNoError('updateSubject', error);
+};
+
+/** Moves the subject to the trash, together with its sections, lessons, questions and exams. */
+export const deleteSubject = async (subjectId: string, userId?: string, userRole?: UserProfile['role']): Promise<void> => {
+  if (userRole !== 'admin') {
+    throw new RepositoryError('deleteSubject', "المستخدم غير مصرح له بحذف المواد.");
+  }
+  await trashItem('subject', subjectId);
+};
+
+export const getSubjectById = async (id: string): Promise<Subject | null> => {
+  const { data, error } = await supabase.from('subjects').select('*').eq('id', id).is('deleted_at', null).single();
+  assertNoError('getSubjectById', error, { allowNotFound: true });
+  return data ? mapSubjectRow(data) : null;
+};
+
+export const getSubjectsWithDetails = async (): Promise<Subject[]> => {
+  const { data, error } = await supabase
+    .from('subjects')
+    .select('*, subject_sections(*, lessons(*))')
+    .is('deleted_at', null)
+    .is('subject_sections.deleted_at', null)
+    .is('subject_sections.lessons.deleted_at', null)
+    .order('order', { ascending: true, nullsFirst: false })
+    .order('name', { ascending: true });
+  assertNoError('getSubjectsWithDetails', error);
+
+  return (data || []).map(({ subject_sections, ...row }) => ({
+    ...mapSubjectRow(row),
+    sections: (subject_sections || [])
+      .map(({ lessons, ...sectionRow }) => ({
+        ...mapSectionRow(sectionRow),
+        lessons: (lessons || []).map(mapLessonRow).sort(compareByOrderThenTitle),
+      }))
+      .sort(compareByOrderThenTitle),
+  }));
+};
+
+export const getSubjectNameById = async (subjectId: string): Promise<string | null> => {
+  const { data, error } = await supabase.from('subjects').select('name').eq('id', subjectId).single();
+  assertNoError('getSubjectNameById', error, { allowNotFound: true });
+  return data?.name ?? null;
+};
+
+/** Imports subjects; ones with an external id are matched to earlier imports as the mode says (see keyedImport.ts). */
+export const addSubjectsBatch = async (subjectsData: SubjectInput[], mode: ImportMode = 'insert'): Promise<ImportResult> => {
+  if (!subjectsData || subjectsData.length === 0) return { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+  return runKeyedImport('addSubjectsBatch', 'subjects', subjectsData.map(toSubjectInsert), mode);
+};
@@ -0,0 +1,36 @@
+// src/lib/repositories/tags.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { Tables } from '@/types/supabase';
+import type { Tag } from '@/types';
+import { assertNoError } from './errors';
+
+export type TagRow = Tables<'tags'>;
+
+export const mapTagRow = (row: TagRow): Tag => ({
+  id: String(row.id),
+  name: row.name,
+  created_at: row.created_at,
+  updated_at: row.updated_at ?? undefined,
+});
+
+export const addTag = async (data: Omit<Tag, 'id' | 'created_at' | 'updated_at'>): Promise<string> => {
+  const { data: newTag, error } = await supabase.from('tags').insert({ name: data.name }).select('id').single();
+  assertNoError('addTag', error);
+  return String(newTag!.id);
+};
+
+export const getTags = async (): Promise<Tag[]> => {
+  const { data, error } = await supabase.from('tags').select('*').order('name', { ascending: true });
+  assertNoError('getTags', error);
+  return (data || []).map(mapTagRow);
+};
+
+export const updateTag = async (id: string, data: Partial<Omit<Tag, 'id' | 'created_at' | 'updated_at'>>): Promise<void> => {
+  const { error } = await supabase.from('tags').update({ name: data.name }).eq('id', id);
+  assertNoError('updateTag', error);
+};
+
+export const deleteTag = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('tags').delete().eq('id', id);
+  assertNoError('deleteTag', error);
+};
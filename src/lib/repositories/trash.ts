@@ -0,0 +1,49 @@
+// src/lib/repositories/trash.ts
+// Soft delete for subjects, sections, lessons, questions and exams. The trash_item / restore_item /
+// purge_item / list_trash functions live in supabase/migrations/*_soft_delete.sql; they move children
+// (sections, lessons, a subject's questions and exams) in and out of the trash together with their parent.
+import { supabase } from '@/lib/supabaseClient';
+import type { Database } from '@/types/supabase';
+import type { TrashEntity, TrashItem } from '@/types';
+import { assertNoError } from './errors';
+
+export type TrashRow = Database['public']['Functions']['list_trash']['Returns'][number];
+
+export const mapTrashRow = (row: TrashRow): TrashItem => ({
+  entity: row.entity as TrashEntity,
+  id: String(row.id),
+  title: row.title,
+  subjectId: row.subject_id,
+  subjectName: row.subject_name,
+  deletedAt: row.deleted_at,
+  childCount: row.child_count,
+});
+
+/** Moves a row (and the children listed above) to the trash. */
+export const trashItem = async (entity: TrashEntity, id: string): Promise<void> => {
+  const { error } = await supabase.rpc('trash_item', { p_entity: entity, p_id: id });
+  assertNoError('trashItem', error);
+};
+
+export const getTrashItems = async (): Promise<TrashItem[]> => {
+  const { data, error } = await supabase.rpc('list_trash');
+  assertNoError('getTrashItems', error);
+  return (data || []).map(mapTrashRow);
+};
+
+/** Restores a trashed row together with the children that were trashed with it. */
+export const restoreTrashItem = async (entity: TrashEntity, id: string): Promise<void> => {
+  const { error } = await supabase.rpc('restore_item', { p_entity: entity, p_id: id });
+  assertNoError('restoreTrashItem', error);
+};
+
+/**
+ * Permanently deletes a trashed row. Rows that are not in the trash are rejected. Returns the URLs of the
+ * option images and audio clips that no question or revision uses any more, for the caller to delete
+ * from storage.
+ */
+export const purgeTrashItem = async (entity: TrashEntity, id: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('purge_item', { p_entity: entity, p_id: id });
+  assertNoError('purgeTrashItem', error);
+  return data || [];
+};
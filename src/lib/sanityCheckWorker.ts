@@ -0,0 +1,105 @@
+// src/lib/sanityCheckWorker.ts
+// Server side of the AI sanity check queue (supabase/migrations/*_sanity_review_queue.sql). Runs in
+// src/app/api/sanity-checks/run/route.ts, on a schedule or when someone presses "run now" on the review
+// page. Nothing here may be imported from client code: it works with the service role client.
+import { arabicQuestionSanityCheck } from '@/ai/flows/arabic-question-sanity-check';
+import { verifyQuestionAnswerKey } from '@/ai/flows/verify-answer-key-flow';
+import { canVerifyAnswerKey } from '@/ai/answerKey';
+import { mapQuestionRow } from '@/lib/repositories/questions';
+import { MAX_SANITY_CHECK_ATTEMPTS } from '@/lib/repositories/sanityReviews';
+import { assertNoError } from '@/lib/repositories/errors';
+import type { ServiceRoleClient } from '@/lib/supabaseAdmin';
+import type { AnswerKeyCheck } from '@/types';
+
+/** Spacing between two model calls, to stay well under the provider's rate limit. */
+const MIN_CALL_INTERVAL_MS = 4000;
+/** No new entry is claimed with less than this left, so the run ends before its caller times out. */
+const ENTRY_ALLOWANCE_MS = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface SanityCheckRunResult {
+  checked: number;
+  failed: number;
+  lastError: string | null;
+  /** The time ran out with entries still due; the next run carries on with them. */
+  stoppedEarly: boolean;
+}
+
+/**
+ * Works through the queue for up to `timeBudgetMs`: claims one entry at a time, has the model check the
+ * wording and (except for short answers) solve the question against its answer key, and records both
+ * verdicts for review. A failed call is handed back to the database, which schedules the retry for a
+ * later run. An entry left claimed by a run that died is handed out again after five minutes.
+ * Errors reading or writing the queue itself end the run and are thrown.
+ */
+export const runSanityChecks = async (
+  client: ServiceRoleClient,
+  { timeBudgetMs }: { timeBudgetMs: number },
+): Promise<SanityCheckRunResult> => {
+  const deadline = Date.now() + timeBudgetMs;
+  const result: SanityCheckRunResult = { checked: 0, failed: 0, lastError: null, stoppedEarly: false };
+
+  let lastCallAt = 0;
+  const throttle = async () => {
+    const wait = lastCallAt + MIN_CALL_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastCallAt = Date.now();
+  };
+
+  while (true) {
+    if (deadline - Date.now() < ENTRY_ALLOWANCE_MS) {
+      result.stoppedEarly = true;
+      return result;
+    }
+
+    const { data: claimed, error: claimError } = await client.rpc('claim_sanity_checks', { p_limit: 1 });
+    assertNoError('runSanityChecks', claimError);
+    const entry = claimed?.[0];
+    if (!entry) return result;
+
+    try {
+      await throttle();
+      const sanity = await arabicQuestionSanityCheck({ question: entry.question_text });
+      let keyCheck: AnswerKeyCheck | null = null;
+      const { data: row, error: questionError } = await client.from('questions').select('*').eq('id', entry.question_id).maybeSingle();
+      assertNoError('runSanityChecks', questionError);
+      const question = row ? mapQuestionRow(row) : null;
+      if (question && canVerifyAnswerKey(question)) {
+        await throttle();
+        const verdict = await verifyQuestionAnswerKey(question);
+        keyCheck = {
+          agrees: verdict.agrees,
+          confidence: verdict.confidence,
+          explanation: verdict.reasoning,
+          solverAnswer: verdict.solverAnswer,
+        };
+      }
+      const { error: recordError } = await client.rpc('record_sanity_check', {
+        p_review_id: entry.review_id,
+        p_is_sane: sanity.isSane,
+        p_explanation: sanity.explanation,
+        ...(keyCheck && {
+          p_key_agrees: keyCheck.agrees,
+          p_key_confidence: keyCheck.confidence ?? undefined,
+          p_key_explanation: keyCheck.explanation ?? undefined,
+          p_key_solver_answer: keyCheck.solverAnswer ?? undefined,
+        }),
+      });
+      assertNoError('runSanityChecks', recordError);
+      result.checked++;
+    } catch (error: any) {
+      console.error(`Sanity check failed for question ${entry.question_id}:`, error);
+      const message = error?.message || 'Unknown error';
+      const { error: failError } = await client.rpc('fail_sanity_check', {
+        p_review_id: entry.review_id,
+        p_error: message,
+        p_max_attempts: MAX_SANITY_CHECK_ATTEMPTS,
+      });
+      // The entry stays claimed and is handed out again once its claim expires.
+      if (failError) console.error(`Could not record the failure for question ${entry.question_id}:`, failError);
+      result.failed++;
+      result.lastError = message;
+    }
+  }
+};
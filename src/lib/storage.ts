@@ -66,6 +66,40 @@ export const deleteFileByPath = async (bucketName: string, filePath: string): Pr
   }
 };
 
+/**
+ * Splits a public Supabase Storage URL into its bucket and path.
+ * @param fileUrl A URL like https://<project-ref>.supabase.co/storage/v1/object/public/<bucket-name>/<path-to-file>
+ * @returns The bucket and path, or null when the URL is not a public Storage URL.
+ */
+export const parseStorageUrl = (fileUrl: string): { bucketName: string; filePath: string } | null => {
+  const urlParts = fileUrl.split('/storage/v1/object/public/');
+  if (urlParts.length < 2) return null;
+  const bucketAndPath = urlParts[1].split('?')[0].split('/');
+  const bucketName = bucketAndPath.shift();
+  const filePath = bucketAndPath.join('/');
+  return bucketName && filePath ? { bucketName, filePath } : null;
+};
+
+/**
+ * Downloads a file from Supabase Storage using its public URL.
+ * @param fileUrl The full public download URL of the file.
+ * @returns The file contents.
+ */
+export const downloadFileByUrl = async (fileUrl: string): Promise<Blob> => {
+  const location = parseStorageUrl(fileUrl);
+  if (!location) throw new Error(`Not a Supabase Storage URL: ${fileUrl}`);
+
+  const { data, error } = await supabase.storage
+    .from(location.bucketName)
+    .download(location.filePath);
+
+  if (error) {
+    console.error("Supabase download error:", error);
+    throw error;
+  }
+  return data;
+};
+
 /**
  * Deletes a file from Supabase Storage using its public download URL.
  * This function attempts to parse the bucket and path from the URL.
@@ -78,21 +112,12 @@ export const deleteFileByUrl = async (fileUrl: string): Promise<void> => {
     return;
   }
   try {
-    // Example URL: https://<project-ref>.supabase.co/storage/v1/object/public/<bucket-name>/<path-to-file>
-    const urlParts = fileUrl.split('/storage/v1/object/public/');
-    if (urlParts.length < 2) {
+    const location = parseStorageUrl(fileUrl);
+    if (!location) {
       console.error("Invalid Supabase Storage URL format for deletion:", fileUrl);
       return;
     }
-    const bucketAndPath = urlParts[1].split('/');
-    const bucketName = bucketAndPath.shift();
-    const filePath = bucketAndPath.join('/');
-
-    if (!bucketName || !filePath) {
-        console.error("Could not parse bucket name or file path from URL:", fileUrl);
-        return;
-    }
-    await deleteFileByPath(bucketName, filePath);
+    await deleteFileByPath(location.bucketName, location.filePath);
 
   } catch (error: any) {
     console.error(`Error deleting file by URL ${fileUrl}:`, error);
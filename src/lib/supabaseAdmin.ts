@@ -0,0 +1,12 @@
+// src/lib/supabaseAdmin.ts
+// Supabase client with the service role key, for route handlers. Never import this from client code.
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { getSupabaseConfig, getSupabaseServiceRoleKey } from './supabaseConfig';
+
+export const createServiceRoleClient = () =>
+  createClient<Database>(getSupabaseConfig().url, getSupabaseServiceRoleKey(), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+export type ServiceRoleClient = ReturnType<typeof createServiceRoleClient>;
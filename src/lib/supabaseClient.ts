@@ -1,12 +1,8 @@
 // src/lib/supabaseClient.ts
 import { createClient } from '@supabase/supabase-js';
-import type { Database } from '@/types/supabase'; // You'll need to generate this type from your Supabase schema
+import type { Database } from '@/types/supabase';
+import { getSupabaseConfig } from './supabaseConfig';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const { url, anonKey } = getSupabaseConfig();
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Supabase URL and Anon Key must be defined in .env file');
-}
-
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(url, anonKey);
@@ -0,0 +1,42 @@
+// src/lib/supabaseConfig.ts
+// Reads the Supabase connection settings. The variables are referenced by their full names so Next.js
+// can inline them into the client bundle.
+
+export interface SupabaseConfig {
+  url: string;
+  anonKey: string;
+}
+
+export const getSupabaseConfig = (): SupabaseConfig => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  const missing = [
+    !url && 'NEXT_PUBLIC_SUPABASE_URL',
+    !anonKey && 'NEXT_PUBLIC_SUPABASE_ANON_KEY',
+  ].filter(Boolean);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `إعدادات Supabase غير مكتملة: المتغيرات التالية غير معرّفة في ملف .env: ${missing.join('، ')}. ` +
+      'أضفها ثم أعد تشغيل الخادم.'
+    );
+  }
+
+  return { url: url!, anonKey: anonKey! };
+};
+
+/**
+ * The service role key, for server code that runs without a signed-in user (the sanity check worker).
+ * It bypasses RLS, so it must never reach the browser: it has no NEXT_PUBLIC_ prefix.
+ */
+export const getSupabaseServiceRoleKey = (): string => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error(
+      'إعدادات Supabase غير مكتملة: المتغير SUPABASE_SERVICE_ROLE_KEY غير معرّف في ملف .env. ' +
+      'أضفه ثم أعد تشغيل الخادم.'
+    );
+  }
+  return serviceRoleKey;
+};
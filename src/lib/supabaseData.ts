@@ -0,0 +1,92 @@
+// src/lib/supabaseData.ts
+// Supabase data module: one import point for the per-entity repositories in src/lib/repositories.
+// Pages import the data functions from here; new code can import the repositories directly.
+
+export {
+  addSubject, getSubjects, updateSubject, deleteSubject, getSubjectById, getSubjectsWithDetails, getSubjectNameById, addSubjectsBatch,
+} from '@/lib/repositories/subjects';
+export {
+  addSubjectSection, getSubjectSections, updateSubjectSection, deleteSubjectSection,
+} from '@/lib/repositories/sections';
+export {
+  addLesson, getLessonsInSection, getLessonsForSubjects, getLessonById, updateLesson, deleteLesson,
+} from '@/lib/repositories/lessons';
+export {
+  addQuestion, getQuestions, getQuestionsPage, DEFAULT_QUESTION_PAGE_SIZE, updateQuestion, deleteQuestion, getQuestionById, importQuestionsBatch, getQuestionsForLesson, unlinkQuestionFromLesson,
+  toQuestionSheetColumns, parseQuestionImportRow, MAX_CHOICE_ITEMS, findUnreferencedMediaUrls,
+} from '@/lib/repositories/questions';
+export type { QuestionPage, QuestionPageParams, QuestionSortField } from '@/lib/repositories/questions';
+export {
+  getQuestionRevisions, restoreQuestionRevision,
+} from '@/lib/repositories/questionRevisions';
+export {
+  addQuestionGroup, getQuestionGroups, getQuestionGroupById, updateQuestionGroup, deleteQuestionGroup, setQuestionGroupMembers,
+} from '@/lib/repositories/questionGroups';
+export {
+  findSimilarQuestions, findDuplicateQuestionPairs, clusterDuplicatePairs, getDuplicateCandidates, mergeQuestions, SIMILAR_QUESTION_THRESHOLD, DUPLICATE_QUESTION_THRESHOLD,
+} from '@/lib/repositories/questionDuplicates';
+export type { DuplicateCandidate } from '@/lib/repositories/questionDuplicates';
+export {
+  enqueueSanityChecks, queueSanityChecks, requeueSanityChecks, getSanityReviews, resolveSanityReview,
+  getSanityReviewProgress, MAX_SANITY_CHECK_ATTEMPTS,
+} from '@/lib/repositories/sanityReviews';
+export type { SanityReviewParams } from '@/lib/repositories/sanityReviews';
+export {
+  addExam, getExams, updateExam, deleteExam, getExamById, getExamTitleById, addExamsBatch, getExamAttempts, addQuestionsToExam,
+} from '@/lib/repositories/exams';
+export {
+  addAccessCode, getAccessCodes, updateAccessCode, deleteAccessCode, getAccessCodeById, addAccessCodesBatch,
+} from '@/lib/repositories/accessCodes';
+export {
+  addNewsArticle, getNewsArticles, updateNewsArticle, deleteNewsArticle, getNewsArticleById, addNewsArticlesBatch,
+} from '@/lib/repositories/news';
+export {
+  addAnnouncement, getAnnouncements, updateAnnouncement, deleteAnnouncement, getAnnouncementById,
+} from '@/lib/repositories/announcements';
+export {
+  addTag, getTags, updateTag, deleteTag,
+} from '@/lib/repositories/tags';
+export {
+  getImportMappingTemplates, saveImportMappingTemplate, deleteImportMappingTemplate,
+} from '@/lib/repositories/importTemplates';
+export {
+  COURSE_PACKAGE_FORMAT, COURSE_PACKAGE_FORMAT_VERSION,
+  getCoursePackageManifest, getCoursePackageConflicts, importCoursePackageManifest,
+} from '@/lib/repositories/coursePackages';
+export type { CoursePackageManifest, CoursePackageMedia } from '@/lib/repositories/coursePackages';
+export {
+  getUsers, getUserByEmail, updateUser, getTeachers, updateTeacherSubjects, addUsersBatch,
+} from '@/lib/repositories/profiles';
+export {
+  getAdminNotifications, markNotificationAsRead,
+  getUserNotifications, markUserNotificationAsRead, markAllUserNotificationsAsRead, getUnreadUserNotificationsCount,
+} from '@/lib/repositories/notifications';
+export {
+  getAppSettings, updateAppSettings,
+} from '@/lib/repositories/settings';
+export {
+  getTrashItems, restoreTrashItem, purgeTrashItem,
+} from '@/lib/repositories/trash';
+export {
+  getAuditLogPage, getEntityHistory, DEFAULT_AUDIT_LOG_PAGE_SIZE,
+} from '@/lib/repositories/auditLog';
+export type { AuditLogPage, AuditLogPageParams } from '@/lib/repositories/auditLog';
+export {
+  searchEverything,
+} from '@/lib/repositories/search';
+export { RepositoryError } from '@/lib/repositories/errors';
+
+// --- Helper for Timestamps (if needed, Supabase usually returns ISO strings) ---
+export const convertTimestampsToDates = (data: any[]): any[] => {
+  return data.map(item => {
+    const newItem = { ...item };
+    for (const key in newItem) {
+      if (newItem[key] instanceof Date) {
+        newItem[key] = newItem[key].toISOString();
+      } else if (Array.isArray(newItem[key])) {
+        newItem[key] = convertTimestampsToDates(newItem[key]);
+      }
+    }
+    return newItem;
+  });
+};
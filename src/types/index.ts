@@ -55,7 +55,10 @@ export interface UserProfile {
 
 export interface Option {
   id: string;
-  text: string;
+  text: string; // May be empty when the option is an image or audio clip
+  imageUrl?: string | null;
+  audioUrl?: string | null;
+  feedback?: string | null; // Shown when this option is picked (MCQ and true/false)
 }
 
 export interface Tag {
@@ -65,7 +68,21 @@ export interface Tag {
   updated_at?: string;
 }
 
-export type QuestionType = 'mcq' | 'true_false' | 'fill_in_the_blanks' | 'short_answer';
+export type QuestionType =
+  | 'mcq'
+  | 'true_false'
+  | 'fill_in_the_blanks'
+  | 'short_answer'
+  | 'multi_select'
+  | 'matching'
+  | 'ordering'
+  | 'numeric';
+
+export interface MatchingPair {
+  id: string;
+  prompt: string;
+  match: string;
+}
 
 export interface BaseQuestion {
   id?: string;
@@ -82,7 +99,21 @@ export interface BaseQuestion {
   updated_at?: string;
   isSane?: boolean | null;
   sanityExplanation?: string | null;
+  answerKeyCheck?: AnswerKeyCheck | null; // Read-only; set when a verdict from the sanity review queue is accepted
   isLocked?: boolean;
+  revision?: number; // Maintained by the database; bumped whenever the content or answer key changes
+  groupId?: string | null;
+  groupOrder?: number | null; // 1-based position inside the group
+  externalId?: string | null; // Id in the authoring spreadsheet; repeated imports update the question it names
+  feedback?: string | null; // General feedback, whatever the answer; per-choice feedback is on the options
+}
+
+// The AI's own solution compared with the stored answer key (src/ai/answerKey.ts).
+export interface AnswerKeyCheck {
+  agrees: boolean;
+  confidence: number | null; // 0..1
+  explanation: string | null;
+  solverAnswer: string | null;
 }
 
 export interface MCQQuestion extends BaseQuestion {
@@ -117,7 +148,83 @@ export interface ShortAnswerQuestion extends BaseQuestion {
   correctAnswers?: never;
 }
 
-export type Question = MCQQuestion | TrueFalseQuestion | FillInTheBlanksQuestion | ShortAnswerQuestion;
+export interface MultiSelectQuestion extends BaseQuestion {
+  questionType: 'multi_select';
+  options: Option[];
+  correctOptionIds: string[]; // Every option that has to be picked
+  correctOptionId?: never;
+  correctAnswers?: never;
+  modelAnswer?: never;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+  questionType: 'matching';
+  pairs: MatchingPair[];
+  options?: never;
+  correctOptionId?: never;
+  correctAnswers?: never;
+  modelAnswer?: never;
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+  questionType: 'ordering';
+  options: Option[]; // In the correct sequence; shuffled when shown to students
+  correctOptionId?: never;
+  correctAnswers?: never;
+  modelAnswer?: never;
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  questionType: 'numeric';
+  numericAnswer: number;
+  tolerance: number; // Absolute; an answer within numericAnswer ± tolerance is correct
+  unit?: string | null;
+  options?: never;
+  correctOptionId?: never;
+  correctAnswers?: never;
+  modelAnswer?: never;
+}
+
+export type Question =
+  | MCQQuestion
+  | TrueFalseQuestion
+  | FillInTheBlanksQuestion
+  | ShortAnswerQuestion
+  | MultiSelectQuestion
+  | MatchingQuestion
+  | OrderingQuestion
+  | NumericQuestion;
+
+// A shared stimulus (reading passage, figure, data table, ...) followed by an ordered set of questions.
+// Lessons and exams take the group as a whole; its members follow the group's subject and lesson.
+export interface QuestionGroup {
+  id?: string;
+  title: string;
+  stimulusText?: string | null;
+  stimulusImageUrl?: string | null;
+  stimulusImageHint?: string | null;
+  subjectId?: string | null;
+  lessonId?: string | null;
+  questionIds?: string[]; // Members in group order
+  created_at?: string;
+  updated_at?: string;
+}
+
+// An existing question whose normalized text is close to a text being written or imported.
+export interface SimilarQuestion {
+  inputIndex: number; // 0-based position of the text it matched
+  questionId: string;
+  questionText: string;
+  subjectId: string | null;
+  similarity: number; // 0..1, trigram similarity
+}
+
+// Two questions of the same subject and type that look like duplicates (questionId < duplicateId).
+export interface DuplicateQuestionPair {
+  questionId: string;
+  duplicateId: string;
+  similarity: number;
+}
 
 // Interface for the data linking an exam to a question via the junction table
 export interface ExamQuestionLink {
@@ -140,6 +247,7 @@ export interface Exam {
   teacherId?: string | null;
   durationInMinutes?: number | null;
   duration?: number | null; // Stored in DB as 'duration' (minutes)
+  externalId?: string | null; // Id in the authoring spreadsheet, for repeatable imports
   created_at?: string;
   updated_at?: string;
 
@@ -154,6 +262,7 @@ export interface NewsArticle {
   title: string;
   content: string;
   imageUrl?: string | null;
+  externalId?: string | null; // Id in the authoring spreadsheet, for repeatable imports
   created_at?: string;
   updated_at?: string;
 }
@@ -168,7 +277,9 @@ export interface Subject {
   image?: string | null;
   iconName?: string | null;
   imageHint?: string | null;
+  interactiveAppContent?: string | null;
   order?: number;
+  externalId?: string | null; // Id in the authoring spreadsheet, for repeatable imports
   created_at?: string;
   updated_at?: string;
   sections?: SubjectSection[];
@@ -246,6 +357,7 @@ export interface AccessCode {
 
 export interface AnswerAttempt {
   questionId: string;
+  questionRevision?: number; // Revision of the question that was answered; stamped by the database on insert
   studentAnswer: any; // Could be string, number, string[] depending on question type
   isCorrect: boolean;
 }
@@ -321,6 +433,11 @@ export type SocialPlatform =
   | 'Discord'
   | ''; // Added empty string to allow for placeholder selection
 
+export interface SocialMediaLink {
+  platform: SocialPlatform;
+  url: string;
+}
+
 export interface AppSettings {
   id?: string;
   appName?: string | null;
@@ -346,6 +463,177 @@ export interface Announcement {
   updated_at?: string;
 }
 
+// An immutable snapshot of a question's content, written by the database on every change.
+export interface QuestionRevision {
+  id: string;
+  questionId: string;
+  revision: number;
+  questionType: QuestionType;
+  questionText: string;
+  imageUrl: string | null;
+  imageHint: string | null;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  tagIds: string[];
+  options: Option[] | null;
+  correctOptionId: string | null;
+  correctAnswers: string[] | null;
+  modelAnswer: string | null;
+  correctOptionIds: string[] | null;
+  pairs: MatchingPair[] | null;
+  numericAnswer: number | null;
+  unit: string | null;
+  tolerance: number | null;
+  createdBy: string | null;
+  author?: { name: string | null; email: string | null };
+  created_at: string;
+}
+
+export type TrashEntity = 'subject' | 'section' | 'lesson' | 'question' | 'exam';
+
+// An item in the trash ("سلة المحذوفات"). Children trashed together with it are counted, not listed.
+export interface TrashItem {
+  entity: TrashEntity;
+  id: string;
+  title: string;
+  subjectId: string | null;
+  subjectName: string | null;
+  deletedAt: string;
+  childCount: number;
+}
+
+export type SanityReviewStatus = 'queued' | 'checking' | 'review' | 'accepted' | 'rejected' | 'failed';
+
+// An AI sanity verdict waiting in (or gone through) the review queue. Only accepted verdicts are
+// written to the question's isSane / sanityExplanation.
+export interface SanityReview {
+  id: string;
+  questionId: string;
+  questionText: string;
+  subjectId: string | null;
+  status: SanityReviewStatus;
+  questionRevision: number | null; // The revision that was checked
+  isSane: boolean | null;
+  explanation: string | null;
+  keyCheck: AnswerKeyCheck | null; // Null for short answers, which have no key to verify
+  attempts: number;
+  lastError: string | null;
+  checkedAt: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+// Queue counts of one subject (subjectId null for questions without a subject).
+export interface SanityReviewProgress {
+  subjectId: string | null;
+  subjectName: string | null;
+  queued: number;
+  failed: number;
+  toReview: number;
+  accepted: number;
+  rejected: number;
+}
+
+export type ImportDataType = 'questions';
+
+// What an import does with rows whose external id (or access code) is already stored (src/lib/repositories/keyedImport.ts).
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  unchanged: number; // Already stored as in the file
+  skipped: number; // Invalid, not allowed by the mode (stored already, for an insert-only import), repeated in the file, or trashed
+  error?: string; // Set when a write failed after others went through: the counts are what was written and kept
+}
+
+// A saved column mapping of the import wizard: file header -> import field (e.g. "نص السؤال" -> "questiontext").
+export interface ImportMappingTemplate {
+  id: string;
+  name: string;
+  dataType: ImportDataType;
+  mapping: Record<string, string>;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Something a course package import brings across differently from how it was exported
+// (supabase/migrations/*_course_packages.sql); missing_media is found on the client.
+export type CoursePackageConflictKind =
+  | 'subject_name'
+  | 'external_id'
+  | 'tag_exists'
+  | 'missing_question'
+  | 'missing_exam'
+  | 'missing_media';
+
+export interface CoursePackageConflict {
+  kind: CoursePackageConflictKind;
+  entity: 'subject' | 'question' | 'exam' | 'tag' | 'lesson' | 'media';
+  name: string | null; // Name, title or text of the row, or the path of the media file
+  detail: string | null; // The external id, or the id of the missing question or exam
+}
+
+export interface CoursePackageImportResult {
+  subjectId: string;
+  counts: {
+    sections: number;
+    lessons: number;
+    questionGroups: number;
+    questions: number;
+    tags: number; // Tags created; tags that already existed are reused
+    exams: number;
+    examQuestions: number;
+  };
+  conflicts: CoursePackageConflict[];
+}
+
+export type SearchEntity = 'question' | 'lesson' | 'exam' | 'news';
+
+// A hit of the global search box in the header. Lessons are reached through their subject.
+export interface SearchResult {
+  entity: SearchEntity;
+  id: string;
+  title: string;
+  excerpt: string | null;
+  subjectId: string | null;
+  subjectName: string | null;
+  rank: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'trash' | 'restore';
+
+export type AuditEntityType =
+  | 'subject'
+  | 'section'
+  | 'lesson'
+  | 'question'
+  | 'question_group'
+  | 'exam'
+  | 'exam_question'
+  | 'tag'
+  | 'teacher_subject'
+  | 'access_code'
+  | 'news'
+  | 'announcement'
+  | 'app_settings'
+  | 'user';
+
+export interface AuditLogEntry {
+  id: number;
+  actorId: string | null;
+  actor?: { name: string | null; email: string | null };
+  actorRole: UserProfile['role'] | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  subjectId: string | null;
+  // Column values (snake_case, as stored) before and after the change; only changed columns on update.
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
 // Re-export the Database interface from the Supabase generated types
 export type Database = SupabaseDatabase;
 
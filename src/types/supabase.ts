@@ -1,9 +1,6 @@
-
 // src/types/supabase.ts
-// IMPORTANT: This is a basic placeholder.
-// Generate this file properly using:
-// npx supabase gen types typescript --project-id <your-project-id> --schema public > src/types/supabase.ts
-// Replace <your-project-id> with your actual Supabase project ID.
+// Types for the schema defined in supabase/migrations.
+// Regenerate after changing a migration: start the local stack (`npm run db:start`), then run `npm run db:types`.
 
 export type Json =
   | string
@@ -14,37 +11,508 @@ export type Json =
   | Json[]
 
 // Based on your SQL: public.subject_branch_enum null default 'undetermined'::subject_branch_enum
-// You might need to define this enum in Supabase first if it's not a built-in type.
-// For TypeScript, we can define it as a string literal union.
 export type SubjectBranchEnumType = 'scientific' | 'literary' | 'general' | 'undetermined';
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
+      activation_codes: {
+        Row: {
+          id: string
+          name: string
+          encoded_value: string
+          type: string
+          subject_id: string | null
+          subject_name: string | null
+          valid_from: string
+          valid_until: string
+          is_active: boolean
+          is_used: boolean
+          used_at: string | null
+          used_by_user_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          encoded_value: string
+          type: string
+          subject_id?: string | null
+          subject_name?: string | null
+          valid_from: string
+          valid_until: string
+          is_active?: boolean
+          is_used?: boolean
+          used_at?: string | null
+          used_by_user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          encoded_value?: string
+          type?: string
+          subject_id?: string | null
+          subject_name?: string | null
+          valid_from?: string
+          valid_until?: string
+          is_active?: boolean
+          is_used?: boolean
+          used_at?: string | null
+          used_by_user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activation_codes_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activation_codes_used_by_user_id_fkey"
+            columns: ["used_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_notifications: {
+        Row: {
+          id: string
+          type: string
+          message: string
+          link_path: string | null
+          related_entity_id: string | null
+          related_entity_type: string | null
+          is_read: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          type: string
+          message: string
+          link_path?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          is_read?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          type?: string
+          message?: string
+          link_path?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          is_read?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      announcements: {
+        Row: {
+          id: string
+          title: string
+          message: string
+          type: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          message: string
+          type: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          message?: string
+          type?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          id: string
+          app_name: string | null
+          app_logo_url: string | null
+          support_phone_number: string | null
+          support_email: string | null
+          social_media_links: Json | null
+          terms_of_service_url: string | null
+          privacy_policy_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          app_name?: string | null
+          app_logo_url?: string | null
+          support_phone_number?: string | null
+          support_email?: string | null
+          social_media_links?: Json | null
+          terms_of_service_url?: string | null
+          privacy_policy_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          app_name?: string | null
+          app_logo_url?: string | null
+          support_phone_number?: string | null
+          support_email?: string | null
+          social_media_links?: Json | null
+          terms_of_service_url?: string | null
+          privacy_policy_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          id: number
+          actor_id: string | null
+          actor_role: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          subject_id: string | null
+          before: Json | null
+          after: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: never
+          actor_id?: string | null
+          actor_role?: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          subject_id?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          actor_id?: string | null
+          actor_role?: string | null
+          action?: string
+          entity_type?: string
+          entity_id?: string
+          subject_id?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_questions: {
+        Row: {
+          exam_id: string
+          question_id: string
+          order_number: number | null
+          points: number | null
+          created_at: string
+        }
+        Insert: {
+          exam_id: string
+          question_id: string
+          order_number?: number | null
+          points?: number | null
+          created_at?: string
+        }
+        Update: {
+          exam_id?: string
+          question_id?: string
+          order_number?: number | null
+          points?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_questions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exams: {
+        Row: {
+          id: string
+          title: string
+          description: string | null
+          subject_id: string | null
+          published: boolean
+          image: string | null
+          image_hint: string | null
+          teacher_name: string | null
+          teacher_id: string | null
+          duration: number | null
+          external_id: string | null
+          created_at: string
+          updated_at: string
+          deleted_at: string | null
+          search_vector: unknown
+        }
+        Insert: {
+          id?: string
+          title: string
+          description?: string | null
+          subject_id?: string | null
+          published?: boolean
+          image?: string | null
+          image_hint?: string | null
+          teacher_name?: string | null
+          teacher_id?: string | null
+          duration?: number | null
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          search_vector?: never
+        }
+        Update: {
+          id?: string
+          title?: string
+          description?: string | null
+          subject_id?: string | null
+          published?: boolean
+          image?: string | null
+          image_hint?: string | null
+          teacher_name?: string | null
+          teacher_id?: string | null
+          duration?: number | null
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          search_vector?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exams_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exams_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mapping_templates: {
+        Row: {
+          id: string
+          name: string
+          data_type: string
+          mapping: Json
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          data_type?: string
+          mapping?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          data_type?: string
+          mapping?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_mapping_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          id: string
+          subject_id: string
+          section_id: string
+          title: string
+          video_url: string | null
+          content: string | null
+          teachers: Json | null
+          files: Json | null
+          order: number | null
+          is_locked: boolean
+          linked_exam_ids: string[] | null
+          notes: string | null
+          interactive_app_content: string | null
+          created_at: string
+          updated_at: string
+          deleted_at: string | null
+          search_vector: unknown
+        }
+        Insert: {
+          id?: string
+          subject_id: string
+          section_id: string
+          title: string
+          video_url?: string | null
+          content?: string | null
+          teachers?: Json | null
+          files?: Json | null
+          order?: number | null
+          is_locked?: boolean
+          linked_exam_ids?: string[] | null
+          notes?: string | null
+          interactive_app_content?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          search_vector?: never
+        }
+        Update: {
+          id?: string
+          subject_id?: string
+          section_id?: string
+          title?: string
+          video_url?: string | null
+          content?: string | null
+          teachers?: Json | null
+          files?: Json | null
+          order?: number | null
+          is_locked?: boolean
+          linked_exam_ids?: string[] | null
+          notes?: string | null
+          interactive_app_content?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          search_vector?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lessons_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "subject_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lessons_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      news_items: {
+        Row: {
+          id: string
+          title: string
+          content: string
+          image_url: string | null
+          external_id: string | null
+          created_at: string
+          updated_at: string
+          search_vector: unknown
+        }
+        Insert: {
+          id?: string
+          title: string
+          content: string
+          image_url?: string | null
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          search_vector?: never
+        }
+        Update: {
+          id?: string
+          title?: string
+          content?: string
+          image_url?: string | null
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          search_vector?: never
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
-          id: string // uuid not null
-          email: string | null // text null
-          name: string | null // text null
-          avatar_url: string | null // text null
-          avatar_hint: string | null // text null
-          points: number // integer not null default 0
-          level: number // integer not null default 1
-          progress_to_next_level: number // integer not null default 0
-          badges: Json | null // jsonb null default '[]'::jsonb
-          rewards: Json | null // jsonb null default '[]'::jsonb
-          student_goals: string | null // text null
-          branch: SubjectBranchEnumType | null // public.subject_branch_enum null default 'undetermined'::subject_branch_enum
-          university: string | null // text null
-          major: string | null // text null
-          active_subscription: Json | null // jsonb null
-          created_at: string // timestamp with time zone not null default now()
-          updated_at: string // timestamp with time zone not null default now()
-          role: string | null // text null
-          youtube_channel_url: string | null // text null
-        }
-        Insert: {
-          id: string // uuid not null
+          id: string
+          email: string | null
+          name: string | null
+          avatar_url: string | null
+          avatar_hint: string | null
+          points: number
+          level: number
+          progress_to_next_level: number
+          badges: Json | null
+          rewards: Json | null
+          student_goals: string | null
+          branch: Database["public"]["Enums"]["subject_branch_enum"] | null
+          university: string | null
+          major: string | null
+          active_subscription: Json | null
+          role: string | null
+          youtube_channel_url: string | null
+          subjects_taught_ids: string[] | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
           email?: string | null
           name?: string | null
           avatar_url?: string | null
@@ -55,14 +523,15 @@ export interface Database {
           badges?: Json | null
           rewards?: Json | null
           student_goals?: string | null
-          branch?: SubjectBranchEnumType | null
+          branch?: Database["public"]["Enums"]["subject_branch_enum"] | null
           university?: string | null
           major?: string | null
           active_subscription?: Json | null
-          created_at?: string
-          updated_at?: string
           role?: string | null
           youtube_channel_url?: string | null
+          subjects_taught_ids?: string[] | null
+          created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -76,161 +545,922 @@ export interface Database {
           badges?: Json | null
           rewards?: Json | null
           student_goals?: string | null
-          branch?: SubjectBranchEnumType | null
+          branch?: Database["public"]["Enums"]["subject_branch_enum"] | null
           university?: string | null
           major?: string | null
           active_subscription?: Json | null
-          created_at?: string
-          updated_at?: string
           role?: string | null
           youtube_channel_url?: string | null
+          subjects_taught_ids?: string[] | null
+          created_at?: string
+          updated_at?: string
         }
         Relationships: [
           {
             foreignKeyName: "profiles_id_fkey"
             columns: ["id"]
-            referencedRelation: "users" // Supabase auth users table
+            isOneToOne: true
+            referencedRelation: "users"
             referencedColumns: ["id"]
-          }
+          },
         ]
       }
-      subjects: {
+      question_groups: {
+        Row: {
+          id: string
+          title: string
+          stimulus_text: string | null
+          stimulus_image_url: string | null
+          stimulus_image_hint: string | null
+          subject_id: string | null
+          lesson_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          stimulus_text?: string | null
+          stimulus_image_url?: string | null
+          stimulus_image_hint?: string | null
+          subject_id?: string | null
+          lesson_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          stimulus_text?: string | null
+          stimulus_image_url?: string | null
+          stimulus_image_hint?: string | null
+          subject_id?: string | null
+          lesson_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_groups_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_groups_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_revisions: {
+        Row: {
+          id: string
+          question_id: string
+          revision: number
+          question_type: string
+          question_text: string
+          image_url: string | null
+          image_hint: string | null
+          difficulty: string | null
+          tag_ids: string[]
+          options: Json | null
+          correct_option_id: string | null
+          correct_answers: string[] | null
+          model_answer: string | null
+          created_by: string | null
+          created_at: string
+          correct_option_ids: string[] | null
+          matching_pairs: Json | null
+          numeric_answer: number | null
+          numeric_unit: string | null
+          numeric_tolerance: number | null
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          revision: number
+          question_type: string
+          question_text: string
+          image_url?: string | null
+          image_hint?: string | null
+          difficulty?: string | null
+          tag_ids?: string[]
+          options?: Json | null
+          correct_option_id?: string | null
+          correct_answers?: string[] | null
+          model_answer?: string | null
+          created_by?: string | null
+          created_at?: string
+          correct_option_ids?: string[] | null
+          matching_pairs?: Json | null
+          numeric_answer?: number | null
+          numeric_unit?: string | null
+          numeric_tolerance?: number | null
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          revision?: number
+          question_type?: string
+          question_text?: string
+          image_url?: string | null
+          image_hint?: string | null
+          difficulty?: string | null
+          tag_ids?: string[]
+          options?: Json | null
+          correct_option_id?: string | null
+          correct_answers?: string[] | null
+          model_answer?: string | null
+          created_by?: string | null
+          created_at?: string
+          correct_option_ids?: string[] | null
+          matching_pairs?: Json | null
+          numeric_answer?: number | null
+          numeric_unit?: string | null
+          numeric_tolerance?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_sanity_reviews: {
+        Row: {
+          id: string
+          question_id: string
+          status: string
+          question_revision: number | null
+          is_sane: boolean | null
+          explanation: string | null
+          key_agrees: boolean | null
+          key_confidence: number | null
+          key_explanation: string | null
+          key_solver_answer: string | null
+          attempts: number
+          last_error: string | null
+          next_attempt_at: string
+          claimed_at: string | null
+          checked_at: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          question_id: string
+          status?: string
+          question_revision?: number | null
+          is_sane?: boolean | null
+          explanation?: string | null
+          key_agrees?: boolean | null
+          key_confidence?: number | null
+          key_explanation?: string | null
+          key_solver_answer?: string | null
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          claimed_at?: string | null
+          checked_at?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          question_id?: string
+          status?: string
+          question_revision?: number | null
+          is_sane?: boolean | null
+          explanation?: string | null
+          key_agrees?: boolean | null
+          key_confidence?: number | null
+          key_explanation?: string | null
+          key_solver_answer?: string | null
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          claimed_at?: string | null
+          checked_at?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_sanity_reviews_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_sanity_reviews_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questions: {
+        Row: {
+          id: string
+          question_type: string
+          question_text: string
+          image_url: string | null
+          image_hint: string | null
+          difficulty: string | null
+          subject_id: string | null
+          lesson_id: string | null
+          tag_ids: string[]
+          options: Json | null
+          correct_option_id: string | null
+          correct_answers: string[] | null
+          model_answer: string | null
+          is_sane: boolean | null
+          sanity_explanation: string | null
+          sanity_checked_revision: number | null
+          answer_key_agrees: boolean | null
+          answer_key_confidence: number | null
+          answer_key_explanation: string | null
+          answer_key_solver_answer: string | null
+          is_locked: boolean
+          external_id: string | null
+          created_at: string
+          updated_at: string
+          deleted_at: string | null
+          revision: number
+          correct_option_ids: string[] | null
+          matching_pairs: Json | null
+          numeric_answer: number | null
+          numeric_unit: string | null
+          numeric_tolerance: number | null
+          group_id: string | null
+          group_order: number | null
+          feedback: string | null
+          normalized_text: string
+          search_vector: unknown
+        }
+        Insert: {
+          id?: string
+          question_type: string
+          question_text: string
+          image_url?: string | null
+          image_hint?: string | null
+          difficulty?: string | null
+          subject_id?: string | null
+          lesson_id?: string | null
+          tag_ids?: string[]
+          options?: Json | null
+          correct_option_id?: string | null
+          correct_answers?: string[] | null
+          model_answer?: string | null
+          is_sane?: boolean | null
+          sanity_explanation?: string | null
+          sanity_checked_revision?: number | null
+          answer_key_agrees?: boolean | null
+          answer_key_confidence?: number | null
+          answer_key_explanation?: string | null
+          answer_key_solver_answer?: string | null
+          is_locked?: boolean
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          revision?: number
+          correct_option_ids?: string[] | null
+          matching_pairs?: Json | null
+          numeric_answer?: number | null
+          numeric_unit?: string | null
+          numeric_tolerance?: number | null
+          group_id?: string | null
+          group_order?: number | null
+          feedback?: string | null
+          normalized_text?: never
+          search_vector?: never
+        }
+        Update: {
+          id?: string
+          question_type?: string
+          question_text?: string
+          image_url?: string | null
+          image_hint?: string | null
+          difficulty?: string | null
+          subject_id?: string | null
+          lesson_id?: string | null
+          tag_ids?: string[]
+          options?: Json | null
+          correct_option_id?: string | null
+          correct_answers?: string[] | null
+          model_answer?: string | null
+          is_sane?: boolean | null
+          sanity_explanation?: string | null
+          sanity_checked_revision?: number | null
+          answer_key_agrees?: boolean | null
+          answer_key_confidence?: number | null
+          answer_key_explanation?: string | null
+          answer_key_solver_answer?: string | null
+          is_locked?: boolean
+          external_id?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          revision?: number
+          correct_option_ids?: string[] | null
+          matching_pairs?: Json | null
+          numeric_answer?: number | null
+          numeric_unit?: string | null
+          numeric_tolerance?: number | null
+          group_id?: string | null
+          group_order?: number | null
+          feedback?: string | null
+          normalized_text?: never
+          search_vector?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "question_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subject_sections: {
         Row: {
           id: string
+          subject_id: string
+          title: string
+          type: string
+          order: number | null
+          is_locked: boolean
           created_at: string
+          updated_at: string
+          deleted_at: string | null
+        }
+        Insert: {
+          id?: string
+          subject_id: string
+          title: string
+          type: string
+          order?: number | null
+          is_locked?: boolean
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Update: {
+          id?: string
+          subject_id?: string
+          title?: string
+          type?: string
+          order?: number | null
+          is_locked?: boolean
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subject_sections_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subjects: {
+        Row: {
+          id: string
           name: string
           description: string | null
-          branch: 'scientific' | 'literary' | 'general'
+          branch: string
           image: string | null
           icon_name: string | null
           image_hint: string | null
           order: number | null
+          interactive_app_content: string | null
+          external_id: string | null
+          created_at: string
           updated_at: string | null
+          deleted_at: string | null
         }
         Insert: {
           id?: string
-          created_at?: string
           name: string
           description?: string | null
-          branch: 'scientific' | 'literary' | 'general'
+          branch: string
           image?: string | null
           icon_name?: string | null
           image_hint?: string | null
           order?: number | null
+          interactive_app_content?: string | null
+          external_id?: string | null
+          created_at?: string
           updated_at?: string | null
+          deleted_at?: string | null
         }
         Update: {
           id?: string
-          created_at?: string
           name?: string
           description?: string | null
-          branch?: 'scientific' | 'literary' | 'general'
+          branch?: string
           image?: string | null
           icon_name?: string | null
           image_hint?: string | null
           order?: number | null
+          interactive_app_content?: string | null
+          external_id?: string | null
+          created_at?: string
           updated_at?: string | null
+          deleted_at?: string | null
         }
         Relationships: []
       }
       tags: {
         Row: {
           id: string
-          created_at: string
           name: string
+          created_at: string
           updated_at: string | null
         }
         Insert: {
           id?: string
-          created_at?: string
           name: string
+          created_at?: string
           updated_at?: string | null
         }
         Update: {
           id?: string
-          created_at?: string
           name?: string
+          created_at?: string
           updated_at?: string | null
         }
         Relationships: []
       }
-      activation_codes: { // Renamed from access_codes
-        Row: {
-          id: string // uuid, primary key
-          name: string // text, not null
-          encoded_value: string // text, not null, unique
-          type: string // text, not null
-          subject_id: string | null // uuid, nullable, foreign key references subjects(id) ON DELETE SET NULL
-          subject_name: string | null // text, nullable
-          valid_from: string // timestamptz, not null
-          valid_until: string // timestamptz, not null
-          is_active: boolean // boolean, default true
-          is_used: boolean // boolean, default false
-          used_at: string | null // timestamptz, nullable
-          used_by_user_id: string | null // uuid, nullable, foreign key references profiles(id) ON DELETE SET NULL
-          created_at: string // timestamptz, default now()
-          updated_at: string // timestamptz, default now()
-        }
-        Insert: {
-          id?: string // uuid
-          name: string // text
-          encoded_value: string // text
-          type: string // text
-          subject_id?: string | null // uuid
-          subject_name?: string | null // text
-          valid_from: string // timestamptz
-          valid_until: string // timestamptz
-          is_active?: boolean // boolean
-          is_used?: boolean // boolean
-          used_at?: string | null // timestamptz
-          used_by_user_id?: string | null // uuid
-          created_at?: string // timestamptz
-          updated_at?: string // timestamptz
-        }
-        Update: {
-          id?: string // uuid
-          name?: string // text
-          encoded_value?: string // text
-          type?: string // text
-          subject_id?: string | null // uuid
-          subject_name?: string | null // text
-          valid_from?: string // timestamptz
-          valid_until?: string // timestamptz
-          is_active?: boolean // boolean
-          is_used?: boolean // boolean
-          used_at?: string | null // timestamptz
-          used_by_user_id?: string | null // uuid
-          created_at?: string // timestamptz
-          updated_at?: string // timestamptz
+      teacher_subjects: {
+        Row: {
+          teacher_id: string
+          subject_id: string
+          created_at: string
+        }
+        Insert: {
+          teacher_id: string
+          subject_id: string
+          created_at?: string
+        }
+        Update: {
+          teacher_id?: string
+          subject_id?: string
+          created_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "activation_codes_subject_id_fkey" // Assuming this FK name
+            foreignKeyName: "teacher_subjects_subject_id_fkey"
             columns: ["subject_id"]
+            isOneToOne: false
             referencedRelation: "subjects"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "activation_codes_used_by_user_id_fkey" // Assuming this FK name
-            columns: ["used_by_user_id"]
+            foreignKeyName: "teacher_subjects_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_exam_attempts: {
+        Row: {
+          id: string
+          user_id: string
+          exam_id: string | null
+          subject_id: string | null
+          exam_type: string
+          score: number
+          correct_answers_count: number
+          total_questions_attempted: number
+          answers: Json
+          started_at: string | null
+          completed_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          exam_id?: string | null
+          subject_id?: string | null
+          exam_type: string
+          score?: number
+          correct_answers_count?: number
+          total_questions_attempted?: number
+          answers?: Json
+          started_at?: string | null
+          completed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          exam_id?: string | null
+          subject_id?: string | null
+          exam_type?: string
+          score?: number
+          correct_answers_count?: number
+          total_questions_attempted?: number
+          answers?: Json
+          started_at?: string | null
+          completed_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_exam_attempts_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_exam_attempts_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_exam_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
-          }
+          },
         ]
       }
-      // ... (Define other tables like questions, exams, news_articles, etc. based on your schema)
+      user_notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          message: string
+          link_path: string | null
+          related_entity_id: string | null
+          related_entity_type: string | null
+          is_read: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          title: string
+          message: string
+          link_path?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          is_read?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          message?: string
+          link_path?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          is_read?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      arabic_prefix_tsquery: {
+        Args: {
+          p_query: string
+        }
+        Returns: unknown
+      }
+      arabic_search_text: {
+        Args: {
+          p_text: string
+        }
+        Returns: string
+      }
+      claim_sanity_checks: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          review_id: string
+          question_id: string
+          question_text: string
+          question_revision: number
+        }[]
+      }
+      course_package_conflicts: {
+        Args: {
+          p_package: Json
+        }
+        Returns: Json
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_subject_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      enqueue_sanity_checks: {
+        Args: {
+          p_subject_id?: string | null
+        }
+        Returns: number
+      }
+      fail_sanity_check: {
+        Args: {
+          p_review_id: string
+          p_error: string
+          p_max_attempts?: number
+        }
+        Returns: string
+      }
+      find_duplicate_question_pairs: {
+        Args: {
+          p_subject_id?: string | null
+          p_threshold?: number
+          p_limit?: number
+        }
+        Returns: {
+          question_id: string
+          duplicate_id: string
+          similarity: number
+        }[]
+      }
+      find_similar_questions: {
+        Args: {
+          p_texts: string[]
+          p_subject_ids?: (string | null)[] | null
+          p_threshold?: number
+          p_exclude_id?: string | null
+        }
+        Returns: {
+          input_index: number
+          question_id: string
+          question_text: string
+          subject_id: string | null
+          similarity: number
+        }[]
+      }
+      global_search: {
+        Args: {
+          p_query: string
+          p_limit?: number
+        }
+        Returns: {
+          entity: string
+          id: string
+          title: string
+          excerpt: string | null
+          subject_id: string | null
+          subject_name: string | null
+          rank: number
+        }[]
+      }
+      import_course_package: {
+        Args: {
+          p_package: Json
+        }
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_teacher: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          entity: string
+          id: string
+          title: string
+          subject_id: string | null
+          subject_name: string | null
+          deleted_at: string
+          child_count: number
+        }[]
+      }
+      merge_questions: {
+        Args: {
+          p_survivor_id: string
+          p_duplicate_ids: string[]
+        }
+        Returns: number
+      }
+      normalize_arabic: {
+        Args: {
+          p_text: string
+        }
+        Returns: string
+      }
+      option_media_urls: {
+        Args: {
+          p_options: Json
+        }
+        Returns: string[]
+      }
+      options_without_feedback: {
+        Args: {
+          p_options: Json
+        }
+        Returns: Json
+      }
+      purge_item: {
+        Args: {
+          p_entity: string
+          p_id: string
+        }
+        Returns: string[]
+      }
+      queue_sanity_checks: {
+        Args: {
+          p_question_ids: string[]
+        }
+        Returns: string[]
+      }
+      record_sanity_check: {
+        Args: {
+          p_review_id: string
+          p_is_sane: boolean
+          p_explanation: string
+          p_key_agrees?: boolean
+          p_key_confidence?: number
+          p_key_explanation?: string
+          p_key_solver_answer?: string
+        }
+        Returns: undefined
+      }
+      requeue_sanity_checks: {
+        Args: {
+          p_review_ids: string[]
+        }
+        Returns: number
+      }
+      resolve_sanity_review: {
+        Args: {
+          p_review_id: string
+          p_accept: boolean
+        }
+        Returns: undefined
+      }
+      restore_item: {
+        Args: {
+          p_entity: string
+          p_id: string
+        }
+        Returns: undefined
+      }
+      restore_question_revision: {
+        Args: {
+          p_question_id: string
+          p_revision: number
+        }
+        Returns: number
+      }
+      sanity_review_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          subject_id: string | null
+          subject_name: string | null
+          queued: number
+          failed: number
+          to_review: number
+          accepted: number
+          rejected: number
+        }[]
+      }
+      save_exam: {
+        Args: {
+          p_exam: Json
+          p_exam_id?: string | null
+          p_questions?: Json | null
+        }
+        Returns: string
+      }
+      save_exams: {
+        Args: {
+          p_exams: Json
+        }
+        Returns: string[]
+      }
+      set_question_group_members: {
+        Args: {
+          p_group_id: string
+          p_question_ids: string[]
+        }
+        Returns: undefined
+      }
+      sync_subjects_taught_ids: {
+        Args: {
+          p_teacher_id: string
+        }
+        Returns: undefined
+      }
+      teaches_subject: {
+        Args: {
+          p_subject_id: string
+        }
+        Returns: boolean
+      }
+      trash_item: {
+        Args: {
+          p_entity: string
+          p_id: string
+        }
+        Returns: string
+      }
+      unreferenced_media_urls: {
+        Args: {
+          p_urls: string[]
+        }
+        Returns: string[]
+      }
     }
     Enums: {
-       subject_branch_enum: SubjectBranchEnumType
+      subject_branch_enum: SubjectBranchEnumType
     }
     CompositeTypes: {
       [_ in never]: never
     }
   }
 }
+
+type PublicSchema = Database["public"]
+
+export type TableName = keyof PublicSchema["Tables"]
+
+export type Tables<T extends TableName> = PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends TableName> = PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends TableName> = PublicSchema["Tables"][T]["Update"]
+
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
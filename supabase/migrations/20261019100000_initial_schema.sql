@@ -0,0 +1,345 @@
+-- Initial schema for the Atmetny admin dashboard.
+-- Mirrors the tables described in src/types/supabase.ts; regenerate that file with `npm run db:types`
+-- after changing anything here.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- Enums
+-- ---------------------------------------------------------------------------
+
+create type public.subject_branch_enum as enum ('scientific', 'literary', 'general', 'undetermined');
+
+-- ---------------------------------------------------------------------------
+-- Shared trigger: keep updated_at current
+-- ---------------------------------------------------------------------------
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Profiles (one row per auth user)
+-- ---------------------------------------------------------------------------
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  name text,
+  avatar_url text,
+  avatar_hint text,
+  points integer not null default 0,
+  level integer not null default 1,
+  progress_to_next_level integer not null default 0,
+  badges jsonb default '[]'::jsonb,
+  rewards jsonb default '[]'::jsonb,
+  student_goals text,
+  branch public.subject_branch_enum default 'undetermined',
+  university text,
+  major text,
+  active_subscription jsonb,
+  role text check (role in ('admin', 'user', 'student', 'teacher')),
+  youtube_channel_url text,
+  subjects_taught_ids uuid[],
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index profiles_role_idx on public.profiles (role);
+
+-- Creates the profile row when a user signs up.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, name, role)
+  values (new.id, new.email, new.raw_user_meta_data->>'name', 'user')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- ---------------------------------------------------------------------------
+-- Subjects, sections and lessons
+-- ---------------------------------------------------------------------------
+
+create table public.subjects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  branch text not null check (branch in ('scientific', 'literary', 'general')),
+  image text,
+  icon_name text,
+  image_hint text,
+  "order" integer,
+  interactive_app_content text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz default now()
+);
+
+create table public.subject_sections (
+  id uuid primary key default gen_random_uuid(),
+  subject_id uuid not null references public.subjects (id) on delete cascade,
+  title text not null,
+  type text not null check (type in ('theory', 'practical')),
+  "order" integer,
+  is_locked boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index subject_sections_subject_id_idx on public.subject_sections (subject_id);
+
+create table public.lessons (
+  id uuid primary key default gen_random_uuid(),
+  subject_id uuid not null references public.subjects (id) on delete cascade,
+  section_id uuid not null references public.subject_sections (id) on delete cascade,
+  title text not null,
+  video_url text,
+  content text,
+  teachers jsonb,
+  files jsonb,
+  "order" integer,
+  is_locked boolean not null default false,
+  linked_exam_ids uuid[],
+  notes text,
+  interactive_app_content text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index lessons_section_id_idx on public.lessons (section_id);
+create index lessons_subject_id_idx on public.lessons (subject_id);
+
+create table public.teacher_subjects (
+  teacher_id uuid not null references public.profiles (id) on delete cascade,
+  subject_id uuid not null references public.subjects (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (teacher_id, subject_id)
+);
+
+create index teacher_subjects_subject_id_idx on public.teacher_subjects (subject_id);
+
+-- ---------------------------------------------------------------------------
+-- Tags and questions
+-- ---------------------------------------------------------------------------
+
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz default now()
+);
+
+create table public.questions (
+  id uuid primary key default gen_random_uuid(),
+  question_type text not null check (question_type in ('mcq', 'true_false', 'fill_in_the_blanks', 'short_answer')),
+  question_text text not null,
+  image_url text,
+  image_hint text,
+  difficulty text check (difficulty in ('easy', 'medium', 'hard')),
+  subject_id uuid references public.subjects (id) on delete set null,
+  lesson_id uuid references public.lessons (id) on delete set null,
+  tag_ids uuid[] not null default '{}',
+  options jsonb,
+  correct_option_id text,
+  correct_answers text[],
+  model_answer text,
+  is_sane boolean,
+  sanity_explanation text,
+  is_locked boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index questions_subject_id_idx on public.questions (subject_id);
+create index questions_lesson_id_idx on public.questions (lesson_id);
+create index questions_tag_ids_idx on public.questions using gin (tag_ids);
+-- Backs the full-text search in getQuestionsPage (textSearch with the 'simple' config).
+create index questions_question_text_fts_idx on public.questions using gin (to_tsvector('simple', question_text));
+
+-- ---------------------------------------------------------------------------
+-- Exams
+-- ---------------------------------------------------------------------------
+
+create table public.exams (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  subject_id uuid references public.subjects (id) on delete set null,
+  published boolean not null default false,
+  image text,
+  image_hint text,
+  teacher_name text,
+  teacher_id uuid references public.profiles (id) on delete set null,
+  duration integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index exams_subject_id_idx on public.exams (subject_id);
+
+create table public.exam_questions (
+  exam_id uuid not null references public.exams (id) on delete cascade,
+  question_id uuid not null references public.questions (id) on delete cascade,
+  order_number integer,
+  points integer,
+  created_at timestamptz not null default now(),
+  primary key (exam_id, question_id)
+);
+
+create index exam_questions_question_id_idx on public.exam_questions (question_id);
+
+create table public.user_exam_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  exam_id uuid references public.exams (id) on delete set null,
+  subject_id uuid references public.subjects (id) on delete set null,
+  exam_type text not null,
+  score numeric not null default 0,
+  correct_answers_count integer not null default 0,
+  total_questions_attempted integer not null default 0,
+  answers jsonb not null default '[]'::jsonb,
+  started_at timestamptz,
+  completed_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index user_exam_attempts_user_id_idx on public.user_exam_attempts (user_id);
+create index user_exam_attempts_exam_id_idx on public.user_exam_attempts (exam_id);
+
+-- ---------------------------------------------------------------------------
+-- Activation codes
+-- ---------------------------------------------------------------------------
+
+create table public.activation_codes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  encoded_value text not null unique,
+  type text not null,
+  subject_id uuid references public.subjects (id) on delete set null,
+  subject_name text,
+  valid_from timestamptz not null,
+  valid_until timestamptz not null,
+  is_active boolean not null default true,
+  is_used boolean not null default false,
+  used_at timestamptz,
+  used_by_user_id uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ---------------------------------------------------------------------------
+-- News, announcements and settings
+-- ---------------------------------------------------------------------------
+
+create table public.news_items (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  content text not null,
+  image_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.announcements (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  message text not null,
+  type text not null check (type in ('info', 'warning', 'important', 'success')),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Single-row table; updateAppSettings updates the existing row or inserts the first one.
+create table public.app_settings (
+  id uuid primary key default gen_random_uuid(),
+  app_name text,
+  app_logo_url text,
+  support_phone_number text,
+  support_email text,
+  social_media_links jsonb default '[]'::jsonb,
+  terms_of_service_url text,
+  privacy_policy_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ---------------------------------------------------------------------------
+-- Notifications
+-- ---------------------------------------------------------------------------
+
+create table public.admin_notifications (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  message text not null,
+  link_path text,
+  related_entity_id text,
+  related_entity_type text,
+  is_read boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.user_notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null,
+  title text not null,
+  message text not null,
+  link_path text,
+  related_entity_id text,
+  related_entity_type text,
+  is_read boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index user_notifications_user_id_idx on public.user_notifications (user_id, is_read);
+
+-- ---------------------------------------------------------------------------
+-- updated_at triggers
+-- ---------------------------------------------------------------------------
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'profiles', 'subjects', 'subject_sections', 'lessons', 'tags', 'questions', 'exams',
+    'user_exam_attempts', 'activation_codes', 'news_items', 'announcements', 'app_settings',
+    'admin_notifications', 'user_notifications'
+  ]
+  loop
+    execute format(
+      'create trigger set_updated_at before update on public.%I for each row execute function public.set_updated_at()',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Storage buckets used by src/lib/storage.ts
+-- ---------------------------------------------------------------------------
+
+insert into storage.buckets (id, name, public)
+values
+  ('questionimages', 'questionimages', true),
+  ('subjectimages', 'subjectimages', true)
+on conflict (id) do nothing;
@@ -0,0 +1,105 @@
+-- Row Level Security for every public table.
+--
+-- Baseline rules:
+--   * admins (profiles.role = 'admin') can read and write everything;
+--   * any signed-in user can read the catalogue (subjects, sections, lessons, questions, exams, tags,
+--     news, announcements, settings);
+--   * users can read and update their own profile (but not their role), notifications and exam attempts.
+
+-- Role of the signed-in user. security definer so policies on profiles can call it without recursing.
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() = 'admin', false);
+$$;
+
+grant execute on function public.current_user_role() to authenticated;
+grant execute on function public.is_admin() to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Enable RLS everywhere, with an admin-wide policy on each table
+-- ---------------------------------------------------------------------------
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'profiles', 'subjects', 'subject_sections', 'lessons', 'teacher_subjects', 'tags', 'questions',
+    'exams', 'exam_questions', 'user_exam_attempts', 'activation_codes', 'news_items', 'announcements',
+    'app_settings', 'admin_notifications', 'user_notifications'
+  ]
+  loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format(
+      'create policy "Admins manage %1$s" on public.%1$I for all to authenticated using (public.is_admin()) with check (public.is_admin())',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Catalogue: readable by every signed-in user
+-- ---------------------------------------------------------------------------
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'subjects', 'subject_sections', 'lessons', 'teacher_subjects', 'tags', 'questions',
+    'exams', 'exam_questions', 'news_items', 'announcements', 'app_settings'
+  ]
+  loop
+    execute format(
+      'create policy "Signed-in users read %1$s" on public.%1$I for select to authenticated using (true)',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Own rows
+-- ---------------------------------------------------------------------------
+
+create policy "Users read own profile" on public.profiles
+  for select to authenticated
+  using (id = auth.uid());
+
+create policy "Users update own profile" on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid() and role is not distinct from public.current_user_role());
+
+create policy "Users read own notifications" on public.user_notifications
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users mark own notifications read" on public.user_notifications
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users read own exam attempts" on public.user_exam_attempts
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users record own exam attempts" on public.user_exam_attempts
+  for insert to authenticated
+  with check (user_id = auth.uid());
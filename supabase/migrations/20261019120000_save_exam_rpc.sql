@@ -0,0 +1,115 @@
+-- save_exam: creates or updates an exam and its exam_questions links in one transaction.
+--
+-- p_exam       exams columns (snake_case). On update only the keys present are written.
+-- p_exam_id    NULL to create a new exam, otherwise the exam to update.
+-- p_questions  NULL leaves the links untouched. Otherwise the full, ordered list of links:
+--              [{ "question_id": uuid, "order_number"?: int, "points"?: int }, ...]
+--              Links missing from the list are removed, existing ones are updated in place
+--              (points are kept when the key is omitted) and new ones are inserted.
+--              order_number defaults to the 1-based position in the array.
+--
+-- Runs as the caller (security invoker), so RLS on exams and exam_questions still applies.
+
+-- Links are identified by (exam_id, question_id), the primary key of exam_questions.
+
+create or replace function public.save_exam(
+  p_exam jsonb,
+  p_exam_id uuid default null,
+  p_questions jsonb default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_exam_id uuid := p_exam_id;
+begin
+  if p_exam is null or jsonb_typeof(p_exam) <> 'object' then
+    raise exception 'save_exam: p_exam must be a JSON object' using errcode = '22023';
+  end if;
+
+  if v_exam_id is null then
+    if coalesce(p_exam->>'title', '') = '' then
+      raise exception 'save_exam: title is required' using errcode = '23502';
+    end if;
+
+    insert into exams (title, description, subject_id, published, image, image_hint, teacher_name, teacher_id, duration)
+    values (
+      p_exam->>'title',
+      p_exam->>'description',
+      (p_exam->>'subject_id')::uuid,
+      coalesce((p_exam->>'published')::boolean, false),
+      p_exam->>'image',
+      p_exam->>'image_hint',
+      p_exam->>'teacher_name',
+      (p_exam->>'teacher_id')::uuid,
+      (p_exam->>'duration')::integer
+    )
+    returning id into v_exam_id;
+  else
+    update exams set
+      title        = case when p_exam ? 'title'        then p_exam->>'title'                  else title end,
+      description  = case when p_exam ? 'description'  then p_exam->>'description'            else description end,
+      subject_id   = case when p_exam ? 'subject_id'   then (p_exam->>'subject_id')::uuid     else subject_id end,
+      published    = case when p_exam ? 'published'    then (p_exam->>'published')::boolean   else published end,
+      image        = case when p_exam ? 'image'        then p_exam->>'image'                  else image end,
+      image_hint   = case when p_exam ? 'image_hint'   then p_exam->>'image_hint'             else image_hint end,
+      teacher_name = case when p_exam ? 'teacher_name' then p_exam->>'teacher_name'           else teacher_name end,
+      teacher_id   = case when p_exam ? 'teacher_id'   then (p_exam->>'teacher_id')::uuid     else teacher_id end,
+      duration     = case when p_exam ? 'duration'     then (p_exam->>'duration')::integer    else duration end,
+      updated_at   = now()
+    where id = v_exam_id;
+
+    if not found then
+      raise exception 'save_exam: exam % not found', v_exam_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  if p_questions is not null then
+    if jsonb_typeof(p_questions) <> 'array' then
+      raise exception 'save_exam: p_questions must be a JSON array' using errcode = '22023';
+    end if;
+
+    if exists (
+      select 1
+      from jsonb_array_elements(p_questions) as q
+      group by q->>'question_id'
+      having q->>'question_id' is null or count(*) > 1
+    ) then
+      raise exception 'save_exam: every link needs a unique question_id' using errcode = '22023';
+    end if;
+
+    with incoming as (
+      select
+        (q->>'question_id')::uuid                                 as question_id,
+        coalesce((q->>'order_number')::integer, t.ord::integer)     as order_number,
+        q ? 'points'                                              as has_points,
+        (q->>'points')::integer                                   as points
+      from jsonb_array_elements(p_questions) with ordinality as t(q, ord)
+    ),
+    removed as (
+      delete from exam_questions eq
+      where eq.exam_id = v_exam_id
+        and eq.question_id not in (select question_id from incoming)
+    ),
+    updated as (
+      update exam_questions eq
+      set order_number = i.order_number,
+          points       = case when i.has_points then i.points else eq.points end
+      from incoming i
+      where eq.exam_id = v_exam_id
+        and eq.question_id = i.question_id
+      returning eq.question_id
+    )
+    insert into exam_questions (exam_id, question_id, order_number, points)
+    select v_exam_id, i.question_id, i.order_number, i.points
+    from incoming i
+    where i.question_id not in (select question_id from updated);
+  end if;
+
+  return v_exam_id;
+end;
+$$;
+
+grant execute on function public.save_exam(jsonb, uuid, jsonb) to authenticated;
@@ -0,0 +1,221 @@
+-- Teacher access rules, matching the dashboard's role model (see the adminOnly / teacherAllowed flags
+-- in src/components/layout/app-sidebar.tsx):
+--
+--   * teachers may edit (but not create or delete) the subjects they teach;
+--   * they may create, edit and delete sections, lessons, questions and exams inside those subjects,
+--     and link only their own subjects' questions to their exams;
+--   * they may manage tags, which are shared by every subject;
+--   * everything else stays admin-only (the baseline "Admins manage ..." policies).
+--
+-- "The subjects a teacher teaches" is profiles.subjects_taught_ids. The dashboard writes assignments to
+-- teacher_subjects (updateTeacherSubjects), so a trigger keeps the array in sync with that table.
+
+-- ---------------------------------------------------------------------------
+-- Keep profiles.subjects_taught_ids in sync with teacher_subjects
+-- ---------------------------------------------------------------------------
+
+create or replace function public.sync_subjects_taught_ids(p_teacher_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.profiles
+  set subjects_taught_ids = (
+    select coalesce(array_agg(ts.subject_id order by ts.subject_id), '{}')
+    from public.teacher_subjects ts
+    where ts.teacher_id = p_teacher_id
+  )
+  where id = p_teacher_id;
+$$;
+
+create or replace function public.on_teacher_subjects_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.sync_subjects_taught_ids(old.teacher_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.teacher_id <> old.teacher_id) then
+    perform public.sync_subjects_taught_ids(new.teacher_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger sync_subjects_taught_ids
+  after insert or update or delete on public.teacher_subjects
+  for each row execute function public.on_teacher_subjects_change();
+
+-- Backfill: assignments that only exist in the array become teacher_subjects rows, then every
+-- teacher's array is rebuilt from the table.
+insert into public.teacher_subjects (teacher_id, subject_id)
+select p.id, s.id
+from public.profiles p
+cross join lateral unnest(coalesce(p.subjects_taught_ids, '{}')) as taught(subject_id)
+join public.subjects s on s.id = taught.subject_id
+where p.role = 'teacher'
+on conflict do nothing;
+
+select public.sync_subjects_taught_ids(p.id) from public.profiles p where p.role = 'teacher';
+
+-- ---------------------------------------------------------------------------
+-- Helpers used by the policies
+-- ---------------------------------------------------------------------------
+
+create or replace function public.current_user_subject_ids()
+returns uuid[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select subjects_taught_ids from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.is_teacher()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() = 'teacher', false);
+$$;
+
+-- True when the signed-in user is a teacher assigned to the subject.
+create or replace function public.teaches_subject(p_subject_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_subject_id is not null
+    and public.is_teacher()
+    and p_subject_id = any(coalesce(public.current_user_subject_ids(), '{}'));
+$$;
+
+grant execute on function public.current_user_subject_ids() to authenticated;
+grant execute on function public.is_teacher() to authenticated;
+grant execute on function public.teaches_subject(uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Profiles: role and subject assignments are only changed by admins
+-- ---------------------------------------------------------------------------
+
+drop policy "Users update own profile" on public.profiles;
+
+create policy "Users update own profile" on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (
+    id = auth.uid()
+    and role is not distinct from public.current_user_role()
+    and subjects_taught_ids is not distinct from public.current_user_subject_ids()
+  );
+
+-- ---------------------------------------------------------------------------
+-- Subjects: teachers edit the subjects they teach
+-- ---------------------------------------------------------------------------
+
+create policy "Teachers update taught subjects" on public.subjects
+  for update to authenticated
+  using (public.teaches_subject(id))
+  with check (public.teaches_subject(id));
+
+-- ---------------------------------------------------------------------------
+-- Sections, lessons, questions and exams inside taught subjects
+-- ---------------------------------------------------------------------------
+
+create policy "Teachers insert sections" on public.subject_sections
+  for insert to authenticated
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers update sections" on public.subject_sections
+  for update to authenticated
+  using (public.teaches_subject(subject_id))
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers delete sections" on public.subject_sections
+  for delete to authenticated
+  using (public.teaches_subject(subject_id));
+
+-- A lesson's section must belong to the same (taught) subject.
+create policy "Teachers insert lessons" on public.lessons
+  for insert to authenticated
+  with check (
+    public.teaches_subject(subject_id)
+    and exists (select 1 from public.subject_sections s where s.id = section_id and s.subject_id = lessons.subject_id)
+  );
+
+create policy "Teachers update lessons" on public.lessons
+  for update to authenticated
+  using (public.teaches_subject(subject_id))
+  with check (
+    public.teaches_subject(subject_id)
+    and exists (select 1 from public.subject_sections s where s.id = section_id and s.subject_id = lessons.subject_id)
+  );
+
+create policy "Teachers delete lessons" on public.lessons
+  for delete to authenticated
+  using (public.teaches_subject(subject_id));
+
+create policy "Teachers insert questions" on public.questions
+  for insert to authenticated
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers update questions" on public.questions
+  for update to authenticated
+  using (public.teaches_subject(subject_id))
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers delete questions" on public.questions
+  for delete to authenticated
+  using (public.teaches_subject(subject_id));
+
+create policy "Teachers insert exams" on public.exams
+  for insert to authenticated
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers update exams" on public.exams
+  for update to authenticated
+  using (public.teaches_subject(subject_id))
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers delete exams" on public.exams
+  for delete to authenticated
+  using (public.teaches_subject(subject_id));
+
+-- Links are writable when the exam is in a taught subject; new links must also point at a question
+-- from a taught subject.
+create policy "Teachers insert exam questions" on public.exam_questions
+  for insert to authenticated
+  with check (
+    public.teaches_subject((select e.subject_id from public.exams e where e.id = exam_id))
+    and public.teaches_subject((select q.subject_id from public.questions q where q.id = question_id))
+  );
+
+create policy "Teachers update exam questions" on public.exam_questions
+  for update to authenticated
+  using (public.teaches_subject((select e.subject_id from public.exams e where e.id = exam_id)))
+  with check (
+    public.teaches_subject((select e.subject_id from public.exams e where e.id = exam_id))
+    and public.teaches_subject((select q.subject_id from public.questions q where q.id = question_id))
+  );
+
+create policy "Teachers delete exam questions" on public.exam_questions
+  for delete to authenticated
+  using (public.teaches_subject((select e.subject_id from public.exams e where e.id = exam_id)));
+
+-- ---------------------------------------------------------------------------
+-- Tags are shared, and the tags page is open to teachers
+-- ---------------------------------------------------------------------------
+
+create policy "Teachers manage tags" on public.tags
+  for all to authenticated
+  using (public.is_teacher())
+  with check (public.is_teacher());
@@ -0,0 +1,416 @@
+-- Soft delete for subjects, sections, lessons, questions and exams.
+--
+-- Deleting from the dashboard moves a row to the trash (deleted_at is set) instead of removing it.
+-- Children trashed together with their parent get the parent's exact deleted_at, which is how
+-- restore_item and purge_item tell them apart from children that were trashed on their own earlier:
+--
+--   subject -> its sections, lessons, questions and exams
+--   section -> its lessons
+--
+-- Questions keep their lesson_id while the lesson is in the trash, so restoring a lesson (or the section
+-- or subject above it) brings its question links back with it. exam_questions rows are kept the same way
+-- until the exam or the question is purged.
+
+alter table public.subjects add column deleted_at timestamptz;
+alter table public.subject_sections add column deleted_at timestamptz;
+alter table public.lessons add column deleted_at timestamptz;
+alter table public.questions add column deleted_at timestamptz;
+alter table public.exams add column deleted_at timestamptz;
+
+create index subjects_deleted_at_idx on public.subjects (deleted_at) where deleted_at is not null;
+create index subject_sections_deleted_at_idx on public.subject_sections (deleted_at) where deleted_at is not null;
+create index lessons_deleted_at_idx on public.lessons (deleted_at) where deleted_at is not null;
+create index questions_deleted_at_idx on public.questions (deleted_at) where deleted_at is not null;
+create index exams_deleted_at_idx on public.exams (deleted_at) where deleted_at is not null;
+
+-- ---------------------------------------------------------------------------
+-- Trashed rows are hidden from the catalogue. Admins still see them through "Admins manage ...", and
+-- teachers see the trashed content of their own subjects so they can restore it.
+-- ---------------------------------------------------------------------------
+
+drop policy "Signed-in users read subjects" on public.subjects;
+create policy "Signed-in users read subjects" on public.subjects
+  for select to authenticated
+  using (deleted_at is null or public.teaches_subject(id));
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['subject_sections', 'lessons', 'questions', 'exams']
+  loop
+    execute format('drop policy "Signed-in users read %1$s" on public.%1$I', t);
+    execute format(
+      'create policy "Signed-in users read %1$s" on public.%1$I for select to authenticated using (deleted_at is null or public.teaches_subject(subject_id))',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Deleting a subject stays admin-only: teachers may edit the subjects they teach, but not trash them.
+drop policy "Teachers update taught subjects" on public.subjects;
+create policy "Teachers update taught subjects" on public.subjects
+  for update to authenticated
+  using (public.teaches_subject(id) and deleted_at is null)
+  with check (public.teaches_subject(id) and deleted_at is null);
+
+-- ---------------------------------------------------------------------------
+-- trash_item / restore_item / purge_item
+--
+-- p_entity is one of 'subject', 'section', 'lesson', 'question', 'exam'. The functions run as the
+-- caller, so the RLS policies above decide which rows they may touch; a row the caller cannot see or
+-- change is reported as not found.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.trash_item(p_entity text, p_id uuid)
+returns timestamptz
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  -- clock_timestamp() rather than now(), so two deletes in one transaction still get distinct stamps.
+  v_deleted_at timestamptz := clock_timestamp();
+begin
+  case p_entity
+    when 'subject' then
+      if not public.is_admin() then
+        raise exception 'المستخدم غير مصرح له بحذف المواد.' using errcode = '42501';
+      end if;
+      update public.subjects set deleted_at = v_deleted_at where id = p_id and deleted_at is null;
+      if not found then
+        raise exception 'Subject % not found or already in the trash', p_id using errcode = 'P0002';
+      end if;
+      update public.subject_sections set deleted_at = v_deleted_at where subject_id = p_id and deleted_at is null;
+      update public.lessons set deleted_at = v_deleted_at where subject_id = p_id and deleted_at is null;
+      update public.questions set deleted_at = v_deleted_at where subject_id = p_id and deleted_at is null;
+      update public.exams set deleted_at = v_deleted_at where subject_id = p_id and deleted_at is null;
+
+    when 'section' then
+      update public.subject_sections set deleted_at = v_deleted_at where id = p_id and deleted_at is null;
+      if not found then
+        raise exception 'Section % not found or already in the trash', p_id using errcode = 'P0002';
+      end if;
+      update public.lessons set deleted_at = v_deleted_at where section_id = p_id and deleted_at is null;
+
+    when 'lesson' then
+      update public.lessons set deleted_at = v_deleted_at where id = p_id and deleted_at is null;
+      if not found then
+        raise exception 'Lesson % not found or already in the trash', p_id using errcode = 'P0002';
+      end if;
+
+    when 'question' then
+      update public.questions set deleted_at = v_deleted_at where id = p_id and deleted_at is null;
+      if not found then
+        raise exception 'Question % not found or already in the trash', p_id using errcode = 'P0002';
+      end if;
+
+    when 'exam' then
+      update public.exams set deleted_at = v_deleted_at where id = p_id and deleted_at is null;
+      if not found then
+        raise exception 'Exam % not found or already in the trash', p_id using errcode = 'P0002';
+      end if;
+
+    else
+      raise exception 'Unknown trash entity: %', p_entity using errcode = '22023';
+  end case;
+
+  return v_deleted_at;
+end;
+$$;
+
+-- Restores a trashed row together with the children that were trashed with it. A child whose parent is
+-- still in the trash cannot be restored on its own, since it would stay hidden under that parent.
+create or replace function public.restore_item(p_entity text, p_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_deleted_at timestamptz;
+  v_parent_id uuid;
+begin
+  case p_entity
+    when 'subject' then
+      if not public.is_admin() then
+        raise exception 'المستخدم غير مصرح له باستعادة المواد.' using errcode = '42501';
+      end if;
+      select deleted_at into v_deleted_at from public.subjects where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Subject % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      update public.subjects set deleted_at = null where id = p_id;
+      update public.subject_sections set deleted_at = null where subject_id = p_id and deleted_at = v_deleted_at;
+      update public.lessons set deleted_at = null where subject_id = p_id and deleted_at = v_deleted_at;
+      update public.questions set deleted_at = null where subject_id = p_id and deleted_at = v_deleted_at;
+      update public.exams set deleted_at = null where subject_id = p_id and deleted_at = v_deleted_at;
+
+    when 'section' then
+      select deleted_at, subject_id into v_deleted_at, v_parent_id from public.subject_sections where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Section % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      if exists (select 1 from public.subjects where id = v_parent_id and deleted_at is not null) then
+        raise exception 'لا يمكن استعادة القسم قبل استعادة المادة التابع لها.' using errcode = 'P0001';
+      end if;
+      update public.subject_sections set deleted_at = null where id = p_id;
+      update public.lessons set deleted_at = null where section_id = p_id and deleted_at = v_deleted_at;
+
+    when 'lesson' then
+      select deleted_at, section_id into v_deleted_at, v_parent_id from public.lessons where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Lesson % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      if exists (select 1 from public.subject_sections where id = v_parent_id and deleted_at is not null) then
+        raise exception 'لا يمكن استعادة الدرس قبل استعادة القسم التابع له.' using errcode = 'P0001';
+      end if;
+      update public.lessons set deleted_at = null where id = p_id;
+
+    when 'question' then
+      select deleted_at, subject_id into v_deleted_at, v_parent_id from public.questions where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Question % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      if exists (select 1 from public.subjects where id = v_parent_id and deleted_at is not null) then
+        raise exception 'لا يمكن استعادة السؤال قبل استعادة المادة التابع لها.' using errcode = 'P0001';
+      end if;
+      update public.questions set deleted_at = null where id = p_id;
+
+    when 'exam' then
+      select deleted_at, subject_id into v_deleted_at, v_parent_id from public.exams where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Exam % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      if exists (select 1 from public.subjects where id = v_parent_id and deleted_at is not null) then
+        raise exception 'لا يمكن استعادة الامتحان قبل استعادة المادة التابع لها.' using errcode = 'P0001';
+      end if;
+      update public.exams set deleted_at = null where id = p_id;
+
+    else
+      raise exception 'Unknown trash entity: %', p_entity using errcode = '22023';
+  end case;
+end;
+$$;
+
+-- Permanently deletes a trashed row. Sections and lessons go with their subject or section through the
+-- foreign keys; a subject's questions and exams are detached by the foreign keys instead, so the ones
+-- trashed together with the subject are deleted here first.
+create or replace function public.purge_item(p_entity text, p_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_deleted_at timestamptz;
+begin
+  case p_entity
+    when 'subject' then
+      select deleted_at into v_deleted_at from public.subjects where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Subject % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      delete from public.questions where subject_id = p_id and deleted_at = v_deleted_at;
+      delete from public.exams where subject_id = p_id and deleted_at = v_deleted_at;
+      delete from public.subjects where id = p_id;
+    when 'section' then
+      delete from public.subject_sections where id = p_id and deleted_at is not null;
+    when 'lesson' then
+      delete from public.lessons where id = p_id and deleted_at is not null;
+    when 'question' then
+      delete from public.questions where id = p_id and deleted_at is not null;
+    when 'exam' then
+      delete from public.exams where id = p_id and deleted_at is not null;
+    else
+      raise exception 'Unknown trash entity: %', p_entity using errcode = '22023';
+  end case;
+
+  if not found then
+    raise exception 'Trashed % % not found', p_entity, p_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- save_exam: the exam form only lists live questions, so links to trashed questions are left alone
+-- when the links are replaced. Otherwise editing an exam would drop them before a restore.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.save_exam(
+  p_exam jsonb,
+  p_exam_id uuid default null,
+  p_questions jsonb default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_exam_id uuid := p_exam_id;
+begin
+  if p_exam is null or jsonb_typeof(p_exam) <> 'object' then
+    raise exception 'save_exam: p_exam must be a JSON object' using errcode = '22023';
+  end if;
+
+  if v_exam_id is null then
+    if coalesce(p_exam->>'title', '') = '' then
+      raise exception 'save_exam: title is required' using errcode = '23502';
+    end if;
+
+    insert into exams (title, description, subject_id, published, image, image_hint, teacher_name, teacher_id, duration)
+    values (
+      p_exam->>'title',
+      p_exam->>'description',
+      (p_exam->>'subject_id')::uuid,
+      coalesce((p_exam->>'published')::boolean, false),
+      p_exam->>'image',
+      p_exam->>'image_hint',
+      p_exam->>'teacher_name',
+      (p_exam->>'teacher_id')::uuid,
+      (p_exam->>'duration')::integer
+    )
+    returning id into v_exam_id;
+  else
+    update exams set
+      title        = case when p_exam ? 'title'        then p_exam->>'title'                  else title end,
+      description  = case when p_exam ? 'description'  then p_exam->>'description'            else description end,
+      subject_id   = case when p_exam ? 'subject_id'   then (p_exam->>'subject_id')::uuid     else subject_id end,
+      published    = case when p_exam ? 'published'    then (p_exam->>'published')::boolean   else published end,
+      image        = case when p_exam ? 'image'        then p_exam->>'image'                  else image end,
+      image_hint   = case when p_exam ? 'image_hint'   then p_exam->>'image_hint'             else image_hint end,
+      teacher_name = case when p_exam ? 'teacher_name' then p_exam->>'teacher_name'           else teacher_name end,
+      teacher_id   = case when p_exam ? 'teacher_id'   then (p_exam->>'teacher_id')::uuid     else teacher_id end,
+      duration     = case when p_exam ? 'duration'     then (p_exam->>'duration')::integer    else duration end,
+      updated_at   = now()
+    where id = v_exam_id;
+
+    if not found then
+      raise exception 'save_exam: exam % not found', v_exam_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  if p_questions is not null then
+    if jsonb_typeof(p_questions) <> 'array' then
+      raise exception 'save_exam: p_questions must be a JSON array' using errcode = '22023';
+    end if;
+
+    if exists (
+      select 1
+      from jsonb_array_elements(p_questions) as q
+      group by q->>'question_id'
+      having q->>'question_id' is null or count(*) > 1
+    ) then
+      raise exception 'save_exam: every link needs a unique question_id' using errcode = '22023';
+    end if;
+
+    with incoming as (
+      select
+        (q->>'question_id')::uuid                                 as question_id,
+        coalesce((q->>'order_number')::integer, t.ord::integer)     as order_number,
+        q ? 'points'                                              as has_points,
+        (q->>'points')::integer                                   as points
+      from jsonb_array_elements(p_questions) with ordinality as t(q, ord)
+    ),
+    removed as (
+      delete from exam_questions eq
+      where eq.exam_id = v_exam_id
+        and eq.question_id not in (select question_id from incoming)
+        and not exists (select 1 from questions q where q.id = eq.question_id and q.deleted_at is not null)
+    ),
+    updated as (
+      update exam_questions eq
+      set order_number = i.order_number,
+          points       = case when i.has_points then i.points else eq.points end
+      from incoming i
+      where eq.exam_id = v_exam_id
+        and eq.question_id = i.question_id
+      returning eq.question_id
+    )
+    insert into exam_questions (exam_id, question_id, order_number, points)
+    select v_exam_id, i.question_id, i.order_number, i.points
+    from incoming i
+    where i.question_id not in (select question_id from updated);
+  end if;
+
+  return v_exam_id;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- list_trash: what the trash page shows
+--
+-- One row per item the user trashed. Children that went to the trash with their parent are not listed
+-- separately; child_count says how many of them a restore or purge of the parent will take along.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.list_trash()
+returns table (
+  entity text,
+  id uuid,
+  title text,
+  subject_id uuid,
+  subject_name text,
+  deleted_at timestamptz,
+  child_count integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select *
+  from (
+    select
+      'subject'::text, s.id, s.name, s.id, s.name, s.deleted_at,
+      ((select count(*) from public.subject_sections c where c.subject_id = s.id and c.deleted_at = s.deleted_at)
+        + (select count(*) from public.lessons c where c.subject_id = s.id and c.deleted_at = s.deleted_at)
+        + (select count(*) from public.questions c where c.subject_id = s.id and c.deleted_at = s.deleted_at)
+        + (select count(*) from public.exams c where c.subject_id = s.id and c.deleted_at = s.deleted_at))::integer
+    from public.subjects s
+    where s.deleted_at is not null
+
+    union all
+
+    select
+      'section', sec.id, sec.title, sec.subject_id, subj.name, sec.deleted_at,
+      (select count(*) from public.lessons c where c.section_id = sec.id and c.deleted_at = sec.deleted_at)::integer
+    from public.subject_sections sec
+    left join public.subjects subj on subj.id = sec.subject_id
+    where sec.deleted_at is not null
+      and subj.deleted_at is distinct from sec.deleted_at
+
+    union all
+
+    select 'lesson', l.id, l.title, l.subject_id, subj.name, l.deleted_at, 0
+    from public.lessons l
+    left join public.subject_sections sec on sec.id = l.section_id
+    left join public.subjects subj on subj.id = l.subject_id
+    where l.deleted_at is not null
+      and sec.deleted_at is distinct from l.deleted_at
+
+    union all
+
+    select 'question', q.id, left(q.question_text, 200), q.subject_id, subj.name, q.deleted_at, 0
+    from public.questions q
+    left join public.subjects subj on subj.id = q.subject_id
+    where q.deleted_at is not null
+      and subj.deleted_at is distinct from q.deleted_at
+
+    union all
+
+    select 'exam', e.id, e.title, e.subject_id, subj.name, e.deleted_at, 0
+    from public.exams e
+    left join public.subjects subj on subj.id = e.subject_id
+    where e.deleted_at is not null
+      and subj.deleted_at is distinct from e.deleted_at
+  ) as trash (entity, id, title, subject_id, subject_name, deleted_at, child_count)
+  order by trash.deleted_at desc;
+$$;
+
+grant execute on function public.trash_item(text, uuid) to authenticated;
+grant execute on function public.restore_item(text, uuid) to authenticated;
+grant execute on function public.purge_item(text, uuid) to authenticated;
+grant execute on function public.list_trash() to authenticated;
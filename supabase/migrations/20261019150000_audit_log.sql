@@ -0,0 +1,139 @@
+-- Audit log of every change an admin or teacher makes.
+--
+-- Written by row triggers rather than by the data layer, so every write path (plain table writes, the
+-- save_exam and trash RPCs, batch imports) is covered and an entry can never be skipped or forged from the
+-- client. Changes made by students (attempts, points) or without a signed-in user (migrations, seed,
+-- service role) are not logged.
+--
+-- before / after hold only what changed: the whole row for create and delete, and just the changed
+-- columns for an update. Soft deletes are logged as 'trash' and 'restore' instead of 'update'.
+
+create table public.audit_log (
+  id bigint generated always as identity primary key,
+  actor_id uuid references public.profiles (id) on delete set null,
+  actor_role text,
+  action text not null check (action in ('create', 'update', 'delete', 'trash', 'restore')),
+  entity_type text not null,
+  entity_id text not null,
+  -- Subject the row belongs to, so teachers can read the history of their own subjects. Not a foreign
+  -- key: entries must outlive a purged subject.
+  subject_id uuid,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_created_at_idx on public.audit_log (created_at desc);
+create index audit_log_entity_idx on public.audit_log (entity_type, entity_id, created_at desc);
+create index audit_log_actor_idx on public.audit_log (actor_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+-- Read-only for clients; only the trigger below writes to it.
+create policy "Admins read audit log" on public.audit_log
+  for select to authenticated
+  using (public.is_admin());
+
+create policy "Teachers read audit log of taught subjects" on public.audit_log
+  for select to authenticated
+  using (public.teaches_subject(subject_id));
+
+-- ---------------------------------------------------------------------------
+-- Trigger
+--
+-- tg_argv[0] is the entity type recorded in the log, tg_argv[1] the column holding the entity id.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text := public.current_user_role();
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_before jsonb;
+  v_after jsonb;
+  v_action text;
+  v_subject_id uuid;
+begin
+  if v_role is null or v_role not in ('admin', 'teacher') then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_new := to_jsonb(new);
+    v_action := 'create';
+    v_after := v_new;
+  elsif tg_op = 'DELETE' then
+    v_old := to_jsonb(old);
+    v_action := 'delete';
+    v_before := v_old;
+  else
+    v_old := to_jsonb(old);
+    v_new := to_jsonb(new);
+    select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, v_new -> o.key)
+    into v_before, v_after
+    from jsonb_each(v_old) as o
+    where o.key <> 'updated_at'
+      and o.value is distinct from v_new -> o.key;
+
+    -- Nothing but updated_at changed.
+    if v_before is null then
+      return null;
+    end if;
+
+    v_action := case
+      when not v_before ? 'deleted_at' then 'update'
+      when v_after ->> 'deleted_at' is null then 'restore'
+      else 'trash'
+    end;
+  end if;
+
+  v_row := coalesce(v_new, v_old);
+
+  v_subject_id := case tg_argv[0]
+    when 'subject' then (v_row ->> 'id')::uuid
+    when 'exam_question' then (select e.subject_id from public.exams e where e.id = (v_row ->> 'exam_id')::uuid)
+    else (v_row ->> 'subject_id')::uuid
+  end;
+
+  insert into public.audit_log (actor_id, actor_role, action, entity_type, entity_id, subject_id, before, after)
+  values (auth.uid(), v_role, v_action, tg_argv[0], v_row ->> tg_argv[1], v_subject_id, v_before, v_after);
+
+  return null;
+end;
+$$;
+
+do $$
+declare
+  t record;
+begin
+  for t in
+    select *
+    from (values
+      ('subjects', 'subject', 'id'),
+      ('subject_sections', 'section', 'id'),
+      ('lessons', 'lesson', 'id'),
+      ('questions', 'question', 'id'),
+      ('exams', 'exam', 'id'),
+      ('exam_questions', 'exam_question', 'exam_id'),
+      ('tags', 'tag', 'id'),
+      ('teacher_subjects', 'teacher_subject', 'teacher_id'),
+      ('activation_codes', 'access_code', 'id'),
+      ('news_items', 'news', 'id'),
+      ('announcements', 'announcement', 'id'),
+      ('app_settings', 'app_settings', 'id'),
+      ('profiles', 'user', 'id')
+    ) as audited (table_name, entity_type, id_column)
+  loop
+    execute format(
+      'create trigger audit_row_change after insert or update or delete on public.%I for each row execute function public.audit_row_change(%L, %L)',
+      t.table_name, t.entity_type, t.id_column
+    );
+  end loop;
+end;
+$$;
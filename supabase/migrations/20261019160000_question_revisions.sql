@@ -0,0 +1,178 @@
+-- Question revisions.
+--
+-- questions.revision starts at 1 and goes up by one whenever the content a student answers against
+-- changes (type, text, image, difficulty, tags, options or answer key). Every revision, including the
+-- first, is copied into question_revisions, which clients can read but never change, so the answer key a
+-- student was graded against can always be looked up. Attempts record the revision of each answered
+-- question (see stamp_answer_revisions below).
+
+alter table public.questions add column revision integer not null default 1;
+
+create table public.question_revisions (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions (id) on delete cascade,
+  revision integer not null,
+  question_type text not null,
+  question_text text not null,
+  image_url text,
+  image_hint text,
+  difficulty text,
+  tag_ids uuid[] not null default '{}',
+  options jsonb,
+  correct_option_id text,
+  correct_answers text[],
+  model_answer text,
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (question_id, revision)
+);
+
+alter table public.question_revisions enable row level security;
+
+-- Same audience as the questions themselves. There are no write policies: rows are only added by
+-- record_question_revision.
+create policy "Signed-in users read question revisions" on public.question_revisions
+  for select to authenticated
+  using (true);
+
+-- ---------------------------------------------------------------------------
+-- Triggers on questions
+-- ---------------------------------------------------------------------------
+
+-- Owns questions.revision: 1 on insert, +1 when the content changes, unchanged otherwise (so a client
+-- cannot set it directly).
+create or replace function public.bump_question_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.revision := 1;
+  elsif (new.question_type, new.question_text, new.image_url, new.image_hint, new.difficulty, new.tag_ids,
+         new.options, new.correct_option_id, new.correct_answers, new.model_answer)
+        is distinct from
+        (old.question_type, old.question_text, old.image_url, old.image_hint, old.difficulty, old.tag_ids,
+         old.options, old.correct_option_id, old.correct_answers, old.model_answer) then
+    new.revision := old.revision + 1;
+  else
+    new.revision := old.revision;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bump_question_revision
+  before insert or update on public.questions
+  for each row execute function public.bump_question_revision();
+
+create or replace function public.record_question_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.revision <> old.revision then
+    insert into public.question_revisions (
+      question_id, revision, question_type, question_text, image_url, image_hint, difficulty, tag_ids,
+      options, correct_option_id, correct_answers, model_answer, created_by
+    )
+    values (
+      new.id, new.revision, new.question_type, new.question_text, new.image_url, new.image_hint, new.difficulty,
+      new.tag_ids, new.options, new.correct_option_id, new.correct_answers, new.model_answer, auth.uid()
+    );
+  end if;
+  return null;
+end;
+$$;
+
+create trigger record_question_revision
+  after insert or update on public.questions
+  for each row execute function public.record_question_revision();
+
+-- Existing questions start with their current content as revision 1.
+insert into public.question_revisions (
+  question_id, revision, question_type, question_text, image_url, image_hint, difficulty, tag_ids,
+  options, correct_option_id, correct_answers, model_answer, created_at
+)
+select
+  id, revision, question_type, question_text, image_url, image_hint, difficulty, tag_ids,
+  options, correct_option_id, correct_answers, model_answer, updated_at
+from public.questions;
+
+-- ---------------------------------------------------------------------------
+-- restore_question_revision: copies an old revision's content back onto the question. The question gets
+-- a new revision number; history is never rewritten. Runs as the caller, so RLS on questions applies.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.restore_question_revision(p_question_id uuid, p_revision integer)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_new_revision integer;
+begin
+  update public.questions q
+  set question_type     = r.question_type,
+      question_text     = r.question_text,
+      image_url         = r.image_url,
+      image_hint        = r.image_hint,
+      difficulty        = r.difficulty,
+      tag_ids           = r.tag_ids,
+      options           = r.options,
+      correct_option_id = r.correct_option_id,
+      correct_answers   = r.correct_answers,
+      model_answer      = r.model_answer
+  from public.question_revisions r
+  where q.id = p_question_id
+    and r.question_id = p_question_id
+    and r.revision = p_revision
+  returning q.revision into v_new_revision;
+
+  if v_new_revision is null then
+    raise exception 'Revision % of question % not found', p_revision, p_question_id using errcode = 'P0002';
+  end if;
+
+  return v_new_revision;
+end;
+$$;
+
+grant execute on function public.restore_question_revision(uuid, integer) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Attempts: stamp each answer with the revision of the question that was answered
+--
+-- answers is a JSON array of { questionId, studentAnswer, isCorrect }. Every answer gets the question's
+-- current revision; a questionRevision sent by the client is replaced, so students cannot pick the key
+-- they are graded against.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.stamp_answer_revisions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if jsonb_typeof(new.answers) = 'array' then
+    new.answers := coalesce((
+      select jsonb_agg(
+        case
+          when q.revision is null then t.answer - 'questionRevision'
+          else t.answer || jsonb_build_object('questionRevision', q.revision)
+        end
+        order by t.ord
+      )
+      from jsonb_array_elements(new.answers) with ordinality as t(answer, ord)
+      left join public.questions q on q.id::text = t.answer ->> 'questionId'
+    ), '[]'::jsonb);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger stamp_answer_revisions
+  before insert on public.user_exam_attempts
+  for each row execute function public.stamp_answer_revisions();
@@ -0,0 +1,117 @@
+-- Question types multi_select, matching, ordering and numeric.
+--
+-- Where each type keeps its answer key:
+--
+--   multi_select -> options + correct_option_ids (every option that must be picked)
+--   matching     -> matching_pairs, a JSON array of { id, prompt, match }
+--   ordering     -> options, stored in the correct sequence (students see them shuffled)
+--   numeric      -> numeric_answer, numeric_tolerance (absolute, >= 0) and an optional numeric_unit
+--
+-- The new columns are part of a question's content, so question_revisions copies them as well.
+
+alter table public.questions drop constraint questions_question_type_check;
+alter table public.questions add constraint questions_question_type_check check (
+  question_type in ('mcq', 'true_false', 'fill_in_the_blanks', 'short_answer', 'multi_select', 'matching', 'ordering', 'numeric')
+);
+
+alter table public.questions
+  add column correct_option_ids text[],
+  add column matching_pairs jsonb,
+  add column numeric_answer double precision,
+  add column numeric_unit text,
+  add column numeric_tolerance double precision check (numeric_tolerance >= 0);
+
+alter table public.question_revisions
+  add column correct_option_ids text[],
+  add column matching_pairs jsonb,
+  add column numeric_answer double precision,
+  add column numeric_unit text,
+  add column numeric_tolerance double precision;
+
+-- ---------------------------------------------------------------------------
+-- Revision triggers and restore, re-created with the new columns
+-- ---------------------------------------------------------------------------
+
+create or replace function public.bump_question_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.revision := 1;
+  elsif (new.question_type, new.question_text, new.image_url, new.image_hint, new.difficulty, new.tag_ids,
+         new.options, new.correct_option_id, new.correct_answers, new.model_answer,
+         new.correct_option_ids, new.matching_pairs, new.numeric_answer, new.numeric_unit, new.numeric_tolerance)
+        is distinct from
+        (old.question_type, old.question_text, old.image_url, old.image_hint, old.difficulty, old.tag_ids,
+         old.options, old.correct_option_id, old.correct_answers, old.model_answer,
+         old.correct_option_ids, old.matching_pairs, old.numeric_answer, old.numeric_unit, old.numeric_tolerance) then
+    new.revision := old.revision + 1;
+  else
+    new.revision := old.revision;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.record_question_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.revision <> old.revision then
+    insert into public.question_revisions (
+      question_id, revision, question_type, question_text, image_url, image_hint, difficulty, tag_ids,
+      options, correct_option_id, correct_answers, model_answer,
+      correct_option_ids, matching_pairs, numeric_answer, numeric_unit, numeric_tolerance, created_by
+    )
+    values (
+      new.id, new.revision, new.question_type, new.question_text, new.image_url, new.image_hint, new.difficulty,
+      new.tag_ids, new.options, new.correct_option_id, new.correct_answers, new.model_answer,
+      new.correct_option_ids, new.matching_pairs, new.numeric_answer, new.numeric_unit, new.numeric_tolerance, auth.uid()
+    );
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.restore_question_revision(p_question_id uuid, p_revision integer)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_new_revision integer;
+begin
+  update public.questions q
+  set question_type      = r.question_type,
+      question_text      = r.question_text,
+      image_url          = r.image_url,
+      image_hint         = r.image_hint,
+      difficulty         = r.difficulty,
+      tag_ids            = r.tag_ids,
+      options            = r.options,
+      correct_option_id  = r.correct_option_id,
+      correct_answers    = r.correct_answers,
+      model_answer       = r.model_answer,
+      correct_option_ids = r.correct_option_ids,
+      matching_pairs     = r.matching_pairs,
+      numeric_answer     = r.numeric_answer,
+      numeric_unit       = r.numeric_unit,
+      numeric_tolerance  = r.numeric_tolerance
+  from public.question_revisions r
+  where q.id = p_question_id
+    and r.question_id = p_question_id
+    and r.revision = p_revision
+  returning q.revision into v_new_revision;
+
+  if v_new_revision is null then
+    raise exception 'Revision % of question % not found', p_revision, p_question_id using errcode = 'P0002';
+  end if;
+
+  return v_new_revision;
+end;
+$$;
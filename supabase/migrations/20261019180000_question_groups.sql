@@ -0,0 +1,286 @@
+-- Question groups (reading passages, comprehension sets): a shared stimulus -- text and/or an image --
+-- followed by an ordered list of questions.
+--
+-- Membership lives on the question (group_id, group_order), so a question belongs to at most one group.
+-- A group is handled as a unit:
+--
+--   lessons -> the group's lesson_id (and subject_id) is copied to its members whenever it changes, and a
+--              question joining a group takes the group's lesson
+--   exams   -> save_exam renumbers the links so that the members of a group sit next to each other, in
+--              group_order, at the position of the first member in the submitted list
+--
+-- Deleting a group keeps its questions; they just become standalone again.
+
+create table public.question_groups (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  stimulus_text text,
+  stimulus_image_url text,
+  stimulus_image_hint text,
+  subject_id uuid references public.subjects (id) on delete set null,
+  lesson_id uuid references public.lessons (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint question_groups_stimulus_check check (
+    coalesce(stimulus_text, '') <> '' or coalesce(stimulus_image_url, '') <> ''
+  )
+);
+
+create index question_groups_subject_id_idx on public.question_groups (subject_id);
+create index question_groups_lesson_id_idx on public.question_groups (lesson_id);
+
+create trigger set_updated_at before update on public.question_groups
+  for each row execute function public.set_updated_at();
+
+alter table public.questions
+  add column group_id uuid references public.question_groups (id) on delete set null,
+  add column group_order integer;
+
+create index questions_group_id_idx on public.questions (group_id, group_order);
+
+-- ---------------------------------------------------------------------------
+-- RLS: same rules as questions
+-- ---------------------------------------------------------------------------
+
+alter table public.question_groups enable row level security;
+
+create policy "Admins manage question_groups" on public.question_groups
+  for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Signed-in users read question_groups" on public.question_groups
+  for select to authenticated
+  using (true);
+
+create policy "Teachers insert question groups" on public.question_groups
+  for insert to authenticated
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers update question groups" on public.question_groups
+  for update to authenticated
+  using (public.teaches_subject(subject_id))
+  with check (public.teaches_subject(subject_id));
+
+create policy "Teachers delete question groups" on public.question_groups
+  for delete to authenticated
+  using (public.teaches_subject(subject_id));
+
+create trigger audit_row_change after insert or update or delete on public.question_groups
+  for each row execute function public.audit_row_change('question_group', 'id');
+
+-- ---------------------------------------------------------------------------
+-- Keeping members in the group's subject and lesson
+-- ---------------------------------------------------------------------------
+
+create or replace function public.check_question_group_membership()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_group public.question_groups;
+begin
+  if new.group_id is null then
+    new.group_order := null;
+    return new;
+  end if;
+
+  select * into v_group from public.question_groups where id = new.group_id;
+
+  if new.subject_id is distinct from v_group.subject_id then
+    raise exception 'A question can only join a group of its own subject' using errcode = '23514';
+  end if;
+
+  if tg_op = 'INSERT' or new.group_id is distinct from old.group_id then
+    new.lesson_id := coalesce(v_group.lesson_id, new.lesson_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_question_group_membership
+  before insert or update of group_id, subject_id on public.questions
+  for each row execute function public.check_question_group_membership();
+
+-- Runs as the caller: whoever may edit the group may edit the questions of its subject.
+create or replace function public.sync_question_group_members()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.questions
+  set subject_id = new.subject_id,
+      lesson_id  = new.lesson_id
+  where group_id = new.id
+    and (subject_id, lesson_id) is distinct from (new.subject_id, new.lesson_id);
+  return null;
+end;
+$$;
+
+create trigger sync_question_group_members
+  after update of subject_id, lesson_id on public.question_groups
+  for each row execute function public.sync_question_group_members();
+
+-- ---------------------------------------------------------------------------
+-- set_question_group_members: replaces the member list of a group in one call.
+--
+-- p_question_ids is the full, ordered member list; group_order is the 1-based position in it. Questions
+-- that are no longer listed leave the group, listed questions are taken out of any other group.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.set_question_group_members(p_group_id uuid, p_question_ids uuid[])
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.question_groups where id = p_group_id) then
+    raise exception 'Question group % not found', p_group_id using errcode = 'P0002';
+  end if;
+
+  update public.questions
+  set group_id = null
+  where group_id = p_group_id
+    and id <> all (coalesce(p_question_ids, '{}'));
+
+  update public.questions q
+  set group_id    = p_group_id,
+      group_order = m.ord
+  from unnest(coalesce(p_question_ids, '{}')) with ordinality as m(question_id, ord)
+  where q.id = m.question_id;
+end;
+$$;
+
+grant execute on function public.set_question_group_members(uuid, uuid[]) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- save_exam, re-created so that group members stay together.
+--
+-- The submitted order_number (or array position) still decides where things go, but a group is placed
+-- as a whole at the position of its first member and its members follow in group_order. The stored
+-- order_number is the resulting 1-based rank. As in the soft-delete version, links to trashed questions
+-- are kept so that restoring a question brings it back into its exams.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.save_exam(
+  p_exam jsonb,
+  p_exam_id uuid default null,
+  p_questions jsonb default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_exam_id uuid := p_exam_id;
+begin
+  if p_exam is null or jsonb_typeof(p_exam) <> 'object' then
+    raise exception 'save_exam: p_exam must be a JSON object' using errcode = '22023';
+  end if;
+
+  if v_exam_id is null then
+    if coalesce(p_exam->>'title', '') = '' then
+      raise exception 'save_exam: title is required' using errcode = '23502';
+    end if;
+
+    insert into exams (title, description, subject_id, published, image, image_hint, teacher_name, teacher_id, duration)
+    values (
+      p_exam->>'title',
+      p_exam->>'description',
+      (p_exam->>'subject_id')::uuid,
+      coalesce((p_exam->>'published')::boolean, false),
+      p_exam->>'image',
+      p_exam->>'image_hint',
+      p_exam->>'teacher_name',
+      (p_exam->>'teacher_id')::uuid,
+      (p_exam->>'duration')::integer
+    )
+    returning id into v_exam_id;
+  else
+    update exams set
+      title        = case when p_exam ? 'title'        then p_exam->>'title'                  else title end,
+      description  = case when p_exam ? 'description'  then p_exam->>'description'            else description end,
+      subject_id   = case when p_exam ? 'subject_id'   then (p_exam->>'subject_id')::uuid     else subject_id end,
+      published    = case when p_exam ? 'published'    then (p_exam->>'published')::boolean   else published end,
+      image        = case when p_exam ? 'image'        then p_exam->>'image'                  else image end,
+      image_hint   = case when p_exam ? 'image_hint'   then p_exam->>'image_hint'             else image_hint end,
+      teacher_name = case when p_exam ? 'teacher_name' then p_exam->>'teacher_name'           else teacher_name end,
+      teacher_id   = case when p_exam ? 'teacher_id'   then (p_exam->>'teacher_id')::uuid     else teacher_id end,
+      duration     = case when p_exam ? 'duration'     then (p_exam->>'duration')::integer    else duration end,
+      updated_at   = now()
+    where id = v_exam_id;
+
+    if not found then
+      raise exception 'save_exam: exam % not found', v_exam_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  if p_questions is not null then
+    if jsonb_typeof(p_questions) <> 'array' then
+      raise exception 'save_exam: p_questions must be a JSON array' using errcode = '22023';
+    end if;
+
+    if exists (
+      select 1
+      from jsonb_array_elements(p_questions) as q
+      group by q->>'question_id'
+      having q->>'question_id' is null or count(*) > 1
+    ) then
+      raise exception 'save_exam: every link needs a unique question_id' using errcode = '22023';
+    end if;
+
+    with submitted as (
+      select
+        (q->>'question_id')::uuid                                 as question_id,
+        coalesce((q->>'order_number')::integer, t.ord::integer)   as position,
+        q ? 'points'                                              as has_points,
+        (q->>'points')::integer                                   as points
+      from jsonb_array_elements(p_questions) with ordinality as t(q, ord)
+    ),
+    placed as (
+      select
+        s.*,
+        qs.group_id,
+        qs.group_order,
+        -- Ungrouped questions form a unit of their own.
+        min(s.position) over (partition by coalesce(qs.group_id, s.question_id)) as unit_position
+      from submitted s
+      left join questions qs on qs.id = s.question_id
+    ),
+    incoming as (
+      select
+        question_id,
+        has_points,
+        points,
+        row_number() over (
+          order by unit_position, group_id nulls first, group_order nulls last, position, question_id
+        )::integer as order_number
+      from placed
+    ),
+    removed as (
+      delete from exam_questions eq
+      where eq.exam_id = v_exam_id
+        and eq.question_id not in (select question_id from incoming)
+        and not exists (select 1 from questions q where q.id = eq.question_id and q.deleted_at is not null)
+    ),
+    updated as (
+      update exam_questions eq
+      set order_number = i.order_number,
+          points       = case when i.has_points then i.points else eq.points end
+      from incoming i
+      where eq.exam_id = v_exam_id
+        and eq.question_id = i.question_id
+      returning eq.question_id
+    )
+    insert into exam_questions (exam_id, question_id, order_number, points)
+    select v_exam_id, i.question_id, i.order_number, i.points
+    from incoming i
+    where i.question_id not in (select question_id from updated);
+  end if;
+
+  return v_exam_id;
+end;
+$$;
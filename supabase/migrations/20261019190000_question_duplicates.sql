@@ -0,0 +1,219 @@
+-- Near-duplicate questions.
+--
+-- questions.normalized_text is the question text with Arabic spelling variants folded together (see
+-- normalize_arabic), and is trigram-indexed so that rewordings of the same question can be found by
+-- pg_trgm similarity. src/lib/arabicText.ts applies the same normalization in the browser.
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- ---------------------------------------------------------------------------
+-- normalize_arabic: lower case, no tashkeel or tatweel, one form per letter, punctuation as spaces.
+--
+--   أ إ آ ٱ -> ا     ؤ -> و     ئ ى -> ي     ة -> ه
+-- ---------------------------------------------------------------------------
+
+create or replace function public.normalize_arabic(p_text text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select btrim(
+    regexp_replace(
+      translate(
+        regexp_replace(lower(coalesce(p_text, '')), '[\u064B-\u065F\u0670\u0640]', '', 'g'),
+        'أإآٱؤئىة',
+        'ااااوييه'
+      ),
+      '[^[:alnum:]\u0621-\u064A\u0660-\u0669]+', ' ', 'g'
+    )
+  );
+$$;
+
+grant execute on function public.normalize_arabic(text) to authenticated;
+
+alter table public.questions
+  add column normalized_text text generated always as (public.normalize_arabic(question_text)) stored;
+
+create index questions_normalized_text_trgm_idx
+  on public.questions using gin (normalized_text extensions.gin_trgm_ops);
+
+-- ---------------------------------------------------------------------------
+-- find_similar_questions: the closest existing questions for each of several texts.
+--
+-- Used by the new-question form (one text) and the import preview (every row of the file). For the
+-- text at 1-based position i, only questions of p_subject_ids[i] are compared when that entry is set.
+-- At most five matches per text are returned, best first. Trashed questions are ignored.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.find_similar_questions(
+  p_texts text[],
+  p_subject_ids uuid[] default null,
+  p_threshold real default 0.6,
+  p_exclude_id uuid default null
+)
+returns table (input_index integer, question_id uuid, question_text text, subject_id uuid, similarity real)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  -- The % operator below uses this threshold, which lets it use the trigram index.
+  perform set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  return query
+  select t.ord::integer, m.id, m.question_text, m.subject_id, m.score
+  from unnest(coalesce(p_texts, '{}')) with ordinality as t(body, ord)
+  cross join lateral (
+    select q.id, q.question_text, q.subject_id,
+           extensions.similarity(q.normalized_text, public.normalize_arabic(t.body)) as score
+    from public.questions q
+    where q.deleted_at is null
+      and q.normalized_text operator(extensions.%) public.normalize_arabic(t.body)
+      and (p_exclude_id is null or q.id <> p_exclude_id)
+      and (p_subject_ids is null or p_subject_ids[t.ord] is null or q.subject_id = p_subject_ids[t.ord])
+    order by score desc
+    limit 5
+  ) m
+  where btrim(coalesce(t.body, '')) <> ''
+  order by t.ord, m.score desc;
+end;
+$$;
+
+grant execute on function public.find_similar_questions(text[], uuid[], real, uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- find_duplicate_question_pairs: pairs of questions in the same subject that look like duplicates.
+-- Feeds the merge screen, which groups the pairs into clusters.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.find_duplicate_question_pairs(
+  p_subject_id uuid default null,
+  p_threshold real default 0.8,
+  p_limit integer default 200
+)
+returns table (question_id uuid, duplicate_id uuid, similarity real)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  return query
+  select a.id, b.id, extensions.similarity(a.normalized_text, b.normalized_text) as score
+  from public.questions a
+  join public.questions b
+    on b.normalized_text operator(extensions.%) a.normalized_text
+   and b.id > a.id
+   and b.subject_id = a.subject_id
+   and b.question_type = a.question_type
+  where a.deleted_at is null
+    and b.deleted_at is null
+    and (p_subject_id is null or a.subject_id = p_subject_id)
+  order by score desc
+  limit greatest(p_limit, 1);
+end;
+$$;
+
+grant execute on function public.find_duplicate_question_pairs(uuid, real, integer) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- merge_questions: keeps p_survivor_id and moves everything that used the duplicates onto it.
+--
+--   * exam_questions rows are re-pointed at the survivor. An exam that already has the survivor, or
+--     has several of the merged questions, keeps only the earliest of them.
+--   * the survivor takes the lesson of the first duplicate that has one when it has none itself, and
+--     the union of all their tags.
+--   * the duplicates go to the trash, so they can still be restored from there.
+--
+-- Runs as the caller. If RLS stops any of the exam links from moving (an exam of a subject the
+-- teacher does not teach), the whole merge is rolled back rather than leaving them on a trashed
+-- question. Returns the number of exam links that now point at the survivor instead of a duplicate.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.merge_questions(p_survivor_id uuid, p_duplicate_ids uuid[])
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_subject_id uuid;
+  v_duplicate_ids uuid[];
+  v_moved integer;
+  v_trashed integer;
+begin
+  select subject_id into v_subject_id
+  from public.questions
+  where id = p_survivor_id and deleted_at is null;
+  if not found then
+    raise exception 'Question % not found or in the trash', p_survivor_id using errcode = 'P0002';
+  end if;
+
+  select coalesce(array_agg(distinct d), '{}') into v_duplicate_ids
+  from unnest(coalesce(p_duplicate_ids, '{}')) d
+  where d <> p_survivor_id;
+  if cardinality(v_duplicate_ids) = 0 then
+    raise exception 'merge_questions: no duplicates given' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from public.questions
+    where id = any(v_duplicate_ids) and subject_id is distinct from v_subject_id
+  ) then
+    raise exception 'لا يمكن دمج أسئلة من مواد مختلفة.' using errcode = '23514';
+  end if;
+
+  delete from public.exam_questions eq
+  where eq.question_id = any(v_duplicate_ids)
+    and exists (
+      select 1 from public.exam_questions o
+      where o.exam_id = eq.exam_id
+        and (
+          o.question_id = p_survivor_id
+          or (o.question_id = any(v_duplicate_ids)
+              and (coalesce(o.order_number, 2147483647), o.question_id)
+                < (coalesce(eq.order_number, 2147483647), eq.question_id))
+        )
+    );
+
+  update public.exam_questions
+  set question_id = p_survivor_id
+  where question_id = any(v_duplicate_ids);
+  get diagnostics v_moved = row_count;
+
+  if exists (select 1 from public.exam_questions where question_id = any(v_duplicate_ids)) then
+    raise exception 'بعض الامتحانات التي تستخدم هذه الأسئلة لا يمكنك تعديلها.' using errcode = '42501';
+  end if;
+
+  update public.questions s
+  set lesson_id = coalesce(s.lesson_id, (
+        select d.lesson_id
+        from unnest(p_duplicate_ids) with ordinality as u(id, ord)
+        join public.questions d on d.id = u.id
+        where d.id <> p_survivor_id and d.lesson_id is not null
+        order by u.ord
+        limit 1
+      )),
+      tag_ids = (
+        select coalesce(array_agg(distinct tag), '{}')
+        from public.questions d, unnest(d.tag_ids) tag
+        where d.id = p_survivor_id or d.id = any(v_duplicate_ids)
+      )
+  where s.id = p_survivor_id;
+
+  update public.questions
+  set deleted_at = clock_timestamp()
+  where id = any(v_duplicate_ids) and deleted_at is null;
+  get diagnostics v_trashed = row_count;
+
+  if v_trashed <> cardinality(v_duplicate_ids) then
+    raise exception 'Some of the duplicates were not found or are already in the trash' using errcode = 'P0002';
+  end if;
+
+  return v_moved;
+end;
+$$;
+
+grant execute on function public.merge_questions(uuid, uuid[]) to authenticated;
@@ -0,0 +1,140 @@
+-- Arabic-aware search.
+--
+-- Questions, lessons, exams and news get a search_vector built from arabic_search_text, so "إختبار",
+-- "اختبار", "اِخْتِبار" and "الاختبار" are the same word to search. Titles weigh more than bodies.
+-- arabic_prefix_tsquery builds the matching query; the client does the same with toArabicPrefixTsQuery
+-- in src/lib/arabicText.ts when it filters through PostgREST.
+
+-- ---------------------------------------------------------------------------
+-- arabic_search_text: normalize_arabic (see *_question_duplicates.sql) without the definite article,
+-- alone or after a clinging preposition (ال، وال، بال، كال، فال، لل), on words that keep at least two
+-- letters without it.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.arabic_search_text(p_text text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select btrim(regexp_replace(' ' || public.normalize_arabic(p_text), ' (وال|بال|كال|فال|لل|ال)(?=\S\S)', ' ', 'g'));
+$$;
+
+grant execute on function public.arabic_search_text(text) to authenticated;
+
+alter table public.questions
+  add column search_vector tsvector
+  generated always as (to_tsvector('simple'::regconfig, public.arabic_search_text(question_text))) stored;
+
+alter table public.lessons
+  add column search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(title)), 'A')
+    || setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(content)), 'B')
+  ) stored;
+
+alter table public.exams
+  add column search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(title)), 'A')
+    || setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(description)), 'B')
+  ) stored;
+
+alter table public.news_items
+  add column search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(title)), 'A')
+    || setweight(to_tsvector('simple'::regconfig, public.arabic_search_text(content)), 'B')
+  ) stored;
+
+-- Replaced by the normalized vector.
+drop index if exists public.questions_question_text_fts_idx;
+
+create index questions_search_vector_idx on public.questions using gin (search_vector);
+create index lessons_search_vector_idx on public.lessons using gin (search_vector);
+create index exams_search_vector_idx on public.exams using gin (search_vector);
+create index news_items_search_vector_idx on public.news_items using gin (search_vector);
+
+-- ---------------------------------------------------------------------------
+-- arabic_prefix_tsquery: every word of the input's arabic_search_text as a prefix, all required
+-- ("إختبار الكيم" -> 'اختبار':* & 'كيم':*). Null when the input has no words.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.arabic_prefix_tsquery(p_query text)
+returns tsquery
+language sql
+immutable
+parallel safe
+as $$
+  select to_tsquery('simple'::regconfig, string_agg(quote_literal(term) || ':*', ' & '))
+  from regexp_split_to_table(public.arabic_search_text(p_query), '\s+') as term
+  where term <> '';
+$$;
+
+grant execute on function public.arabic_prefix_tsquery(text) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- global_search: the best matches of each kind for the search box in the header.
+--
+-- Returns up to p_limit rows per entity ('question', 'lesson', 'exam', 'news'), best first within each
+-- kind. Runs as the caller, so RLS decides what can be found; trashed rows are left out.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.global_search(p_query text, p_limit integer default 5)
+returns table (
+  entity text,
+  id uuid,
+  title text,
+  excerpt text,
+  subject_id uuid,
+  subject_name text,
+  rank real
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_query tsquery := public.arabic_prefix_tsquery(p_query);
+  v_limit integer := least(greatest(coalesce(p_limit, 5), 1), 20);
+begin
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  (select 'question'::text, q.id, q.question_text, null::text, q.subject_id, s.name,
+          ts_rank(q.search_vector, v_query)
+   from public.questions q
+   left join public.subjects s on s.id = q.subject_id
+   where q.deleted_at is null and q.search_vector @@ v_query
+   order by 7 desc
+   limit v_limit)
+  union all
+  (select 'lesson'::text, l.id, l.title, left(l.content, 200), l.subject_id, s.name,
+          ts_rank(l.search_vector, v_query)
+   from public.lessons l
+   join public.subjects s on s.id = l.subject_id
+   where l.deleted_at is null and l.search_vector @@ v_query
+   order by 7 desc
+   limit v_limit)
+  union all
+  (select 'exam'::text, e.id, e.title, left(e.description, 200), e.subject_id, s.name,
+          ts_rank(e.search_vector, v_query)
+   from public.exams e
+   left join public.subjects s on s.id = e.subject_id
+   where e.deleted_at is null and e.search_vector @@ v_query
+   order by 7 desc
+   limit v_limit)
+  union all
+  (select 'news'::text, n.id, n.title, left(n.content, 200), null::uuid, null::text,
+          ts_rank(n.search_vector, v_query)
+   from public.news_items n
+   where n.search_vector @@ v_query
+   order by 7 desc
+   limit v_limit);
+end;
+$$;
+
+grant execute on function public.global_search(text, integer) to authenticated;
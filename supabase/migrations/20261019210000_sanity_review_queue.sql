@@ -0,0 +1,305 @@
+-- Batch AI sanity checks with a review queue.
+--
+-- enqueue_sanity_checks queues every question that was never checked or was edited since its last
+-- check. A runner in the browser (src/hooks/use-sanity-check-runner.ts) claims queued rows one at a time,
+-- asks the model, and records the verdict or the failure; failures are retried with a growing delay
+-- until they run out of attempts. Verdicts wait in the queue until a teacher accepts them (they are
+-- written to the question) or rejects them (the question is left as it was).
+--
+--   queued -> checking -> review -> accepted | rejected
+--                    \-> queued (retry later) | failed (out of attempts; can be queued again)
+
+-- The revision the current is_sane verdict was given for, so "edited since its last check" is a plain
+-- comparison with questions.revision.
+alter table public.questions add column sanity_checked_revision integer;
+
+update public.questions set sanity_checked_revision = revision where is_sane is not null;
+
+create or replace function public.stamp_sanity_checked_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_sane is null then
+    new.sanity_checked_revision := null;
+  elsif tg_op = 'INSERT'
+     or (new.is_sane, new.sanity_explanation) is distinct from (old.is_sane, old.sanity_explanation) then
+    new.sanity_checked_revision := new.revision;
+  else
+    new.sanity_checked_revision := old.sanity_checked_revision;
+  end if;
+  return new;
+end;
+$$;
+
+-- Named to fire after bump_question_revision (triggers run in name order), so new.revision is final.
+create trigger stamp_sanity_checked_revision
+  before insert or update on public.questions
+  for each row execute function public.stamp_sanity_checked_revision();
+
+create table public.question_sanity_reviews (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions (id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'checking', 'review', 'accepted', 'rejected', 'failed')),
+  -- The revision whose text was sent to the model; set when the row is claimed.
+  question_revision integer,
+  is_sane boolean,
+  explanation text,
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  claimed_at timestamptz,
+  checked_at timestamptz,
+  reviewed_by uuid references public.profiles (id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- At most one open entry per question.
+create unique index question_sanity_reviews_open_idx on public.question_sanity_reviews (question_id)
+  where status in ('queued', 'checking', 'review', 'failed');
+
+create index question_sanity_reviews_status_idx on public.question_sanity_reviews (status, next_attempt_at);
+
+-- ---------------------------------------------------------------------------
+-- RLS: same audience as the questions
+-- ---------------------------------------------------------------------------
+
+alter table public.question_sanity_reviews enable row level security;
+
+create policy "Admins manage question sanity reviews" on public.question_sanity_reviews
+  for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Teachers manage their subjects' sanity reviews" on public.question_sanity_reviews
+  for all to authenticated
+  using (public.teaches_subject((select q.subject_id from public.questions q where q.id = question_id)))
+  with check (public.teaches_subject((select q.subject_id from public.questions q where q.id = question_id)));
+
+-- ---------------------------------------------------------------------------
+-- enqueue_sanity_checks: queues the questions (of one subject, or all the caller can see) that have no
+-- verdict or were edited since it, unless that revision already went through the queue.
+-- Returns the number of questions queued.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.enqueue_sanity_checks(p_subject_id uuid default null)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.question_sanity_reviews (question_id)
+  select q.id
+  from public.questions q
+  where q.deleted_at is null
+    and (p_subject_id is null or q.subject_id = p_subject_id)
+    and (q.is_sane is null or q.sanity_checked_revision is distinct from q.revision)
+    and not exists (
+      select 1 from public.question_sanity_reviews r
+      where r.question_id = q.id
+        and (r.status in ('queued', 'checking', 'review', 'failed') or r.question_revision = q.revision)
+    );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.enqueue_sanity_checks(uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- claim_sanity_checks: hands the next due entries to a runner and returns what to send to the model.
+-- Entries left in 'checking' for more than five minutes (a closed tab) are handed out again.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.claim_sanity_checks(p_limit integer default 1)
+returns table (review_id uuid, question_id uuid, question_text text, question_revision integer)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  return query
+  with due as (
+    select r.id
+    from public.question_sanity_reviews r
+    join public.questions q on q.id = r.question_id and q.deleted_at is null
+    where (r.status = 'queued' and r.next_attempt_at <= now())
+       or (r.status = 'checking' and r.claimed_at < now() - interval '5 minutes')
+    order by r.next_attempt_at, r.created_at
+    limit greatest(coalesce(p_limit, 1), 1)
+    for update of r skip locked
+  )
+  update public.question_sanity_reviews r
+  set status = 'checking',
+      claimed_at = now(),
+      question_revision = q.revision
+  from due, public.questions q
+  where r.id = due.id and q.id = r.question_id
+  returning r.id, r.question_id, q.question_text, q.revision;
+end;
+$$;
+
+grant execute on function public.claim_sanity_checks(integer) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- record_sanity_check / fail_sanity_check: the runner's result for a claimed entry
+-- ---------------------------------------------------------------------------
+
+create or replace function public.record_sanity_check(p_review_id uuid, p_is_sane boolean, p_explanation text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.question_sanity_reviews
+  set status = 'review',
+      is_sane = p_is_sane,
+      explanation = p_explanation,
+      attempts = attempts + 1,
+      last_error = null,
+      checked_at = now()
+  where id = p_review_id and status = 'checking';
+
+  if not found then
+    raise exception 'Sanity check % is not being checked', p_review_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.record_sanity_check(uuid, boolean, text) to authenticated;
+
+-- Puts the entry back in the queue after 30 s, 1 min, 2 min, ... until p_max_attempts, then marks it failed.
+create or replace function public.fail_sanity_check(p_review_id uuid, p_error text, p_max_attempts integer default 3)
+returns text
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_status text;
+begin
+  update public.question_sanity_reviews
+  set attempts = attempts + 1,
+      last_error = p_error,
+      status = case when attempts + 1 >= p_max_attempts then 'failed' else 'queued' end,
+      next_attempt_at = now() + interval '30 seconds' * power(2, attempts)
+  where id = p_review_id and status = 'checking'
+  returning status into v_status;
+
+  if v_status is null then
+    raise exception 'Sanity check % is not being checked', p_review_id using errcode = 'P0002';
+  end if;
+
+  return v_status;
+end;
+$$;
+
+grant execute on function public.fail_sanity_check(uuid, text, integer) to authenticated;
+
+-- Failed entries go back to the queue with a fresh set of attempts.
+create or replace function public.requeue_sanity_checks(p_review_ids uuid[])
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.question_sanity_reviews
+  set status = 'queued', attempts = 0, last_error = null, next_attempt_at = now()
+  where id = any(p_review_ids) and status = 'failed';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.requeue_sanity_checks(uuid[]) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- resolve_sanity_review: a teacher's decision on a verdict. Accepting writes it to the question, which
+-- must still be at the checked revision; a question edited in the meantime needs a new check.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.resolve_sanity_review(p_review_id uuid, p_accept boolean)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_review public.question_sanity_reviews%rowtype;
+begin
+  select * into v_review
+  from public.question_sanity_reviews
+  where id = p_review_id and status = 'review'
+  for update;
+
+  if not found then
+    raise exception 'Sanity review % is not waiting for a decision', p_review_id using errcode = 'P0002';
+  end if;
+
+  if p_accept then
+    update public.questions
+    set is_sane = v_review.is_sane,
+        sanity_explanation = v_review.explanation
+    where id = v_review.question_id and revision = v_review.question_revision;
+
+    if not found then
+      raise exception 'Question % was edited after the check', v_review.question_id using errcode = '23514';
+    end if;
+  end if;
+
+  update public.question_sanity_reviews
+  set status = case when p_accept then 'accepted' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_review_id;
+end;
+$$;
+
+grant execute on function public.resolve_sanity_review(uuid, boolean) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- sanity_review_progress: queue counts per subject, for the progress bars of the review page
+-- ---------------------------------------------------------------------------
+
+create or replace function public.sanity_review_progress()
+returns table (
+  subject_id uuid,
+  subject_name text,
+  queued integer,
+  failed integer,
+  to_review integer,
+  accepted integer,
+  rejected integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    q.subject_id,
+    s.name,
+    count(*) filter (where r.status in ('queued', 'checking'))::integer,
+    count(*) filter (where r.status = 'failed')::integer,
+    count(*) filter (where r.status = 'review')::integer,
+    count(*) filter (where r.status = 'accepted')::integer,
+    count(*) filter (where r.status = 'rejected')::integer
+  from public.question_sanity_reviews r
+  join public.questions q on q.id = r.question_id and q.deleted_at is null
+  left join public.subjects s on s.id = q.subject_id
+  group by q.subject_id, s.name
+  order by s.name nulls last;
+$$;
+
+grant execute on function public.sanity_review_progress() to authenticated;
@@ -0,0 +1,162 @@
+-- AI answer-key verification.
+--
+-- The model solves a question without seeing its key (src/ai/flows/verify-answer-key-flow.ts) and the
+-- answer is compared with the stored one. The check runs with the sanity check in the review queue
+-- (20261019210000_sanity_review_queue.sql): both verdicts land on the same entry and are accepted or
+-- rejected together. Accepted key verdicts are kept on the question until its content changes.
+
+alter table public.questions
+  add column answer_key_agrees boolean,
+  add column answer_key_confidence real,
+  add column answer_key_explanation text,
+  add column answer_key_solver_answer text;
+
+-- A verdict about an older key says nothing about the new one. Named to fire after bump_question_revision.
+create or replace function public.clear_answer_key_verdict()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.revision <> old.revision
+     and (new.answer_key_agrees, new.answer_key_confidence, new.answer_key_explanation, new.answer_key_solver_answer)
+         is not distinct from
+         (old.answer_key_agrees, old.answer_key_confidence, old.answer_key_explanation, old.answer_key_solver_answer) then
+    new.answer_key_agrees := null;
+    new.answer_key_confidence := null;
+    new.answer_key_explanation := null;
+    new.answer_key_solver_answer := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger clear_answer_key_verdict
+  before update on public.questions
+  for each row execute function public.clear_answer_key_verdict();
+
+alter table public.question_sanity_reviews
+  add column key_agrees boolean,
+  add column key_confidence real,
+  add column key_explanation text,
+  add column key_solver_answer text;
+
+-- ---------------------------------------------------------------------------
+-- enqueue_sanity_checks: also queues questions whose key was never verified. Short answers have only a
+-- model answer and are left out of that.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.enqueue_sanity_checks(p_subject_id uuid default null)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.question_sanity_reviews (question_id)
+  select q.id
+  from public.questions q
+  where q.deleted_at is null
+    and (p_subject_id is null or q.subject_id = p_subject_id)
+    and (q.is_sane is null
+         or q.sanity_checked_revision is distinct from q.revision
+         or (q.answer_key_agrees is null and q.question_type <> 'short_answer'))
+    and not exists (
+      select 1 from public.question_sanity_reviews r
+      where r.question_id = q.id
+        and (r.status in ('queued', 'checking', 'review', 'failed')
+             or (r.question_revision = q.revision and (r.key_agrees is not null or q.question_type = 'short_answer')))
+    );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- record_sanity_check: takes the key verdict along (null for short answers)
+-- ---------------------------------------------------------------------------
+
+drop function public.record_sanity_check(uuid, boolean, text);
+
+create function public.record_sanity_check(
+  p_review_id uuid,
+  p_is_sane boolean,
+  p_explanation text,
+  p_key_agrees boolean default null,
+  p_key_confidence real default null,
+  p_key_explanation text default null,
+  p_key_solver_answer text default null
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update public.question_sanity_reviews
+  set status = 'review',
+      is_sane = p_is_sane,
+      explanation = p_explanation,
+      key_agrees = p_key_agrees,
+      key_confidence = p_key_confidence,
+      key_explanation = p_key_explanation,
+      key_solver_answer = p_key_solver_answer,
+      attempts = attempts + 1,
+      last_error = null,
+      checked_at = now()
+  where id = p_review_id and status = 'checking';
+
+  if not found then
+    raise exception 'Sanity check % is not being checked', p_review_id using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.record_sanity_check(uuid, boolean, text, boolean, real, text, text) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- resolve_sanity_review: accepting writes the key verdict too, when there is one
+-- ---------------------------------------------------------------------------
+
+create or replace function public.resolve_sanity_review(p_review_id uuid, p_accept boolean)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_review public.question_sanity_reviews%rowtype;
+begin
+  select * into v_review
+  from public.question_sanity_reviews
+  where id = p_review_id and status = 'review'
+  for update;
+
+  if not found then
+    raise exception 'Sanity review % is not waiting for a decision', p_review_id using errcode = 'P0002';
+  end if;
+
+  if p_accept then
+    update public.questions
+    set is_sane = v_review.is_sane,
+        sanity_explanation = v_review.explanation,
+        answer_key_agrees = coalesce(v_review.key_agrees, answer_key_agrees),
+        answer_key_confidence = case when v_review.key_agrees is null then answer_key_confidence else v_review.key_confidence end,
+        answer_key_explanation = case when v_review.key_agrees is null then answer_key_explanation else v_review.key_explanation end,
+        answer_key_solver_answer = case when v_review.key_agrees is null then answer_key_solver_answer else v_review.key_solver_answer end
+    where id = v_review.question_id and revision = v_review.question_revision;
+
+    if not found then
+      raise exception 'Question % was edited after the check', v_review.question_id using errcode = '23514';
+    end if;
+  end if;
+
+  update public.question_sanity_reviews
+  set status = case when p_accept then 'accepted' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_review_id;
+end;
+$$;
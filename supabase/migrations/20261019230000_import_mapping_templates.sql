@@ -0,0 +1,52 @@
+-- Named column mappings for the spreadsheet import wizard.
+--
+-- A template maps the headers of a teacher's spreadsheet ("نص السؤال", "Correct answer", ...) to the
+-- import fields (questiontext, correctoptiontext, ...), so the same layout only has to be mapped once.
+-- Templates are shared: every admin and teacher can use them, but only their author (or an admin) may
+-- change or delete one. Names are unique per kind of import.
+
+create table public.import_mapping_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  data_type text not null default 'questions',
+  -- { "<header as written in the file>": "<import field>" }; headers left out are ignored.
+  mapping jsonb not null default '{}'::jsonb,
+  created_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint import_mapping_templates_name_check check (btrim(name) <> ''),
+  constraint import_mapping_templates_data_type_check check (data_type in ('questions')),
+  constraint import_mapping_templates_mapping_check check (jsonb_typeof(mapping) = 'object'),
+  constraint import_mapping_templates_name_key unique (data_type, name)
+);
+
+create trigger set_updated_at before update on public.import_mapping_templates
+  for each row execute function public.set_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- RLS: read by staff, written by the author or an admin
+-- ---------------------------------------------------------------------------
+
+alter table public.import_mapping_templates enable row level security;
+
+create policy "Admins manage import_mapping_templates" on public.import_mapping_templates
+  for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+create policy "Teachers read import mapping templates" on public.import_mapping_templates
+  for select to authenticated
+  using (public.is_teacher());
+
+create policy "Teachers insert import mapping templates" on public.import_mapping_templates
+  for insert to authenticated
+  with check (public.is_teacher() and created_by = auth.uid());
+
+create policy "Teachers update own import mapping templates" on public.import_mapping_templates
+  for update to authenticated
+  using (public.is_teacher() and created_by = auth.uid())
+  with check (public.is_teacher() and created_by = auth.uid());
+
+create policy "Teachers delete own import mapping templates" on public.import_mapping_templates
+  for delete to authenticated
+  using (public.is_teacher() and created_by = auth.uid());
@@ -0,0 +1,193 @@
+-- External ids for repeatable imports.
+--
+-- Content that is authored elsewhere (the weekly sync from the authoring spreadsheet) carries its own id
+-- there. Storing it as external_id lets an import recognise rows it brought in before and update them
+-- instead of inserting a second copy; see src/lib/repositories/keyedImport.ts for the import modes.
+-- Access codes need no such column: their code (encoded_value) is already unique.
+--
+-- The id is optional and unique per table. Trashed rows keep theirs, so re-importing a trashed question
+-- does not bring back a duplicate of it.
+--
+-- New exams of an import are created through save_exams (below), in one transaction, so they get their
+-- question links the way the exam form writes them.
+
+alter table public.questions
+  add column external_id text,
+  add constraint questions_external_id_key unique (external_id),
+  add constraint questions_external_id_check check (btrim(external_id) <> '');
+
+alter table public.exams
+  add column external_id text,
+  add constraint exams_external_id_key unique (external_id),
+  add constraint exams_external_id_check check (btrim(external_id) <> '');
+
+alter table public.subjects
+  add column external_id text,
+  add constraint subjects_external_id_key unique (external_id),
+  add constraint subjects_external_id_check check (btrim(external_id) <> '');
+
+alter table public.news_items
+  add column external_id text,
+  add constraint news_items_external_id_key unique (external_id),
+  add constraint news_items_external_id_check check (btrim(external_id) <> '');
+
+-- ---------------------------------------------------------------------------
+-- save_exam, re-created so that a new exam keeps the external_id it was imported with. Everything else is
+-- as in the question groups version. An existing exam keeps its external_id.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.save_exam(
+  p_exam jsonb,
+  p_exam_id uuid default null,
+  p_questions jsonb default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_exam_id uuid := p_exam_id;
+begin
+  if p_exam is null or jsonb_typeof(p_exam) <> 'object' then
+    raise exception 'save_exam: p_exam must be a JSON object' using errcode = '22023';
+  end if;
+
+  if v_exam_id is null then
+    if coalesce(p_exam->>'title', '') = '' then
+      raise exception 'save_exam: title is required' using errcode = '23502';
+    end if;
+
+    insert into exams (
+      title, description, subject_id, published, image, image_hint, teacher_name, teacher_id, duration, external_id
+    )
+    values (
+      p_exam->>'title',
+      p_exam->>'description',
+      (p_exam->>'subject_id')::uuid,
+      coalesce((p_exam->>'published')::boolean, false),
+      p_exam->>'image',
+      p_exam->>'image_hint',
+      p_exam->>'teacher_name',
+      (p_exam->>'teacher_id')::uuid,
+      (p_exam->>'duration')::integer,
+      p_exam->>'external_id'
+    )
+    returning id into v_exam_id;
+  else
+    update exams set
+      title        = case when p_exam ? 'title'        then p_exam->>'title'                  else title end,
+      description  = case when p_exam ? 'description'  then p_exam->>'description'            else description end,
+      subject_id   = case when p_exam ? 'subject_id'   then (p_exam->>'subject_id')::uuid     else subject_id end,
+      published    = case when p_exam ? 'published'    then (p_exam->>'published')::boolean   else published end,
+      image        = case when p_exam ? 'image'        then p_exam->>'image'                  else image end,
+      image_hint   = case when p_exam ? 'image_hint'   then p_exam->>'image_hint'             else image_hint end,
+      teacher_name = case when p_exam ? 'teacher_name' then p_exam->>'teacher_name'           else teacher_name end,
+      teacher_id   = case when p_exam ? 'teacher_id'   then (p_exam->>'teacher_id')::uuid     else teacher_id end,
+      duration     = case when p_exam ? 'duration'     then (p_exam->>'duration')::integer    else duration end,
+      updated_at   = now()
+    where id = v_exam_id;
+
+    if not found then
+      raise exception 'save_exam: exam % not found', v_exam_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  if p_questions is not null then
+    if jsonb_typeof(p_questions) <> 'array' then
+      raise exception 'save_exam: p_questions must be a JSON array' using errcode = '22023';
+    end if;
+
+    if exists (
+      select 1
+      from jsonb_array_elements(p_questions) as q
+      group by q->>'question_id'
+      having q->>'question_id' is null or count(*) > 1
+    ) then
+      raise exception 'save_exam: every link needs a unique question_id' using errcode = '22023';
+    end if;
+
+    with submitted as (
+      select
+        (q->>'question_id')::uuid                                 as question_id,
+        coalesce((q->>'order_number')::integer, t.ord::integer)   as position,
+        q ? 'points'                                              as has_points,
+        (q->>'points')::integer                                   as points
+      from jsonb_array_elements(p_questions) with ordinality as t(q, ord)
+    ),
+    placed as (
+      select
+        s.*,
+        qs.group_id,
+        qs.group_order,
+        -- Ungrouped questions form a unit of their own.
+        min(s.position) over (partition by coalesce(qs.group_id, s.question_id)) as unit_position
+      from submitted s
+      left join questions qs on qs.id = s.question_id
+    ),
+    incoming as (
+      select
+        question_id,
+        has_points,
+        points,
+        row_number() over (
+          order by unit_position, group_id nulls first, group_order nulls last, position, question_id
+        )::integer as order_number
+      from placed
+    ),
+    removed as (
+      delete from exam_questions eq
+      where eq.exam_id = v_exam_id
+        and eq.question_id not in (select question_id from incoming)
+        and not exists (select 1 from questions q where q.id = eq.question_id and q.deleted_at is not null)
+    ),
+    updated as (
+      update exam_questions eq
+      set order_number = i.order_number,
+          points       = case when i.has_points then i.points else eq.points end
+      from incoming i
+      where eq.exam_id = v_exam_id
+        and eq.question_id = i.question_id
+      returning eq.question_id
+    )
+    insert into exam_questions (exam_id, question_id, order_number, points)
+    select v_exam_id, i.question_id, i.order_number, i.points
+    from incoming i
+    where i.question_id not in (select question_id from updated);
+  end if;
+
+  return v_exam_id;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- save_exams: creates the exams of an import in one transaction.
+--
+-- p_exams is an array of { exam, questions }, each passed to save_exam as p_exam and p_questions, so the
+-- links are written and grouped exactly as for a single exam. If one exam fails, none is created.
+-- Returns the new ids in the order of p_exams.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.save_exams(p_exams jsonb)
+returns uuid[]
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_ids uuid[] := '{}';
+begin
+  if p_exams is null or jsonb_typeof(p_exams) <> 'array' then
+    raise exception 'save_exams: p_exams must be a JSON array' using errcode = '22023';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_exams) loop
+    v_ids := v_ids || public.save_exam(v_item->'exam', null, nullif(v_item->'questions', 'null'));
+  end loop;
+
+  return v_ids;
+end;
+$$;
+
+grant execute on function public.save_exams(jsonb) to authenticated;
@@ -0,0 +1,298 @@
+-- Course packages: a whole course -- one subject with its sections, lessons, question groups, questions,
+-- tags, exams and exam_questions -- moved from one project to another (staging -> production).
+--
+-- The package is the JSON manifest built by src/lib/coursePackage.ts: the rows in their column names,
+-- under the ids they had where they were exported. Media travels next to it in the package zip and is
+-- uploaded by the client before the import, which rewrites the URLs in the manifest.
+--
+-- Every row gets a new id on import; references between rows in the package are rewritten to the new ids
+-- and references to anything outside the package are dropped. Tags are matched by name, so a tag that
+-- already exists is reused rather than duplicated.
+--
+-- course_package_conflicts lists what will not come across as it is in the package, and
+-- import_course_package returns the same list with the result. Conflicts never stop an import:
+--
+--   subject_name     a subject with the same name and branch exists; the import adds a second one
+--   external_id      the external id is taken (supabase/migrations/*_import_external_ids.sql); the row is
+--                    imported without it
+--   tag_exists       a tag with the same name exists and is reused
+--   missing_question an exam links a question that is not in the package; the link is dropped
+--   missing_exam     a lesson links an exam that is not in the package; the link is dropped
+--
+-- Both run as the caller (security invoker), so RLS decides who may import; today that is admins only,
+-- since only they may create subjects.
+
+create or replace function public.course_package_conflicts(p_package jsonb)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with
+    pkg_subject as (select p_package->'subject' as s),
+    pkg_questions as (select x from jsonb_array_elements(coalesce(p_package->'questions', '[]')) x),
+    pkg_exams as (select x from jsonb_array_elements(coalesce(p_package->'exams', '[]')) x),
+    conflicts as (
+      select 1 as sort, 'subject_name' as kind, 'subject' as entity, s->>'name' as name, null::text as detail
+      from pkg_subject
+      where exists (
+        select 1 from subjects
+        where name = pkg_subject.s->>'name' and branch = pkg_subject.s->>'branch' and deleted_at is null
+      )
+
+      union all
+      select 2, 'external_id', 'subject', s->>'name', s->>'external_id'
+      from pkg_subject
+      where exists (select 1 from subjects where external_id = pkg_subject.s->>'external_id')
+
+      union all
+      select 2, 'external_id', 'question', x->>'question_text', x->>'external_id'
+      from pkg_questions
+      where exists (select 1 from questions where external_id = pkg_questions.x->>'external_id')
+
+      union all
+      select 2, 'external_id', 'exam', x->>'title', x->>'external_id'
+      from pkg_exams
+      where exists (select 1 from exams where external_id = pkg_exams.x->>'external_id')
+
+      union all
+      select distinct 3, 'tag_exists', 'tag', btrim(t->>'name'), null
+      from jsonb_array_elements(coalesce(p_package->'tags', '[]')) t
+      where exists (select 1 from tags where name = btrim(t->>'name'))
+
+      union all
+      select 4, 'missing_question', 'exam', (select x->>'title' from pkg_exams where x->>'id' = l->>'exam_id'), l->>'question_id'
+      from jsonb_array_elements(coalesce(p_package->'exam_questions', '[]')) l
+      where not exists (select 1 from pkg_questions where x->>'id' = l->>'question_id')
+
+      union all
+      select 5, 'missing_exam', 'lesson', x->>'title', linked
+      from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x,
+        jsonb_array_elements_text(coalesce(x->'linked_exam_ids', '[]')) linked
+      where not exists (select 1 from pkg_exams e where e.x->>'id' = linked)
+    )
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object('kind', kind, 'entity', entity, 'name', name, 'detail', detail)
+      order by sort, entity, name
+    ),
+    '[]'
+  )
+  from conflicts;
+$$;
+
+grant execute on function public.course_package_conflicts(jsonb) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- import_course_package: creates the course in one transaction.
+--
+-- Returns { subject_id, counts: { sections, lessons, question_groups, questions, tags, exams,
+-- exam_questions }, conflicts }, where counts.tags is the number of tags created.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.import_course_package(p_package jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_subject jsonb := p_package->'subject';
+  v_conflicts jsonb;
+  v_ids jsonb;
+  v_tag_ids jsonb;
+  v_subject_id uuid;
+  v_counts jsonb := '{}';
+  v_count integer;
+begin
+  if p_package is null or jsonb_typeof(p_package) <> 'object' or p_package->>'format' is distinct from 'course-package' then
+    raise exception 'import_course_package: not a course package' using errcode = '22023';
+  end if;
+  if (p_package->>'format_version')::integer is distinct from 1 then
+    raise exception 'import_course_package: unsupported package version %', p_package->>'format_version'
+      using errcode = '22023';
+  end if;
+  if jsonb_typeof(v_subject) is distinct from 'object' or v_subject->>'id' is null then
+    raise exception 'import_course_package: the package has no subject' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x
+    where not exists (
+      select 1 from jsonb_array_elements(coalesce(p_package->'sections', '[]')) s
+      where s->>'id' = x->>'section_id'
+    )
+  ) then
+    raise exception 'import_course_package: every lesson needs a section of the package' using errcode = '22023';
+  end if;
+
+  v_conflicts := public.course_package_conflicts(p_package);
+
+  -- One new id for every row id in the package.
+  select coalesce(jsonb_object_agg(old_id, gen_random_uuid()), '{}') into v_ids
+  from (
+    select v_subject->>'id' as old_id
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'sections', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'question_groups', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'questions', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'exams', '[]')) x
+  ) ids
+  where old_id is not null;
+
+  insert into tags (name)
+  select distinct btrim(t->>'name')
+  from jsonb_array_elements(coalesce(p_package->'tags', '[]')) t
+  where coalesce(btrim(t->>'name'), '') <> ''
+  on conflict (name) do nothing;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('tags', v_count);
+
+  select coalesce(jsonb_object_agg(t->>'id', tags.id), '{}') into v_tag_ids
+  from jsonb_array_elements(coalesce(p_package->'tags', '[]')) t
+  join tags on tags.name = btrim(t->>'name');
+
+  insert into subjects (id, name, description, branch, image, icon_name, image_hint, "order", interactive_app_content, external_id)
+  values (
+    (v_ids->>(v_subject->>'id'))::uuid,
+    v_subject->>'name',
+    v_subject->>'description',
+    v_subject->>'branch',
+    v_subject->>'image',
+    v_subject->>'icon_name',
+    v_subject->>'image_hint',
+    (v_subject->>'order')::integer,
+    v_subject->>'interactive_app_content',
+    case when not exists (select 1 from subjects where external_id = v_subject->>'external_id')
+      then v_subject->>'external_id' end
+  )
+  returning id into v_subject_id;
+
+  insert into subject_sections (id, subject_id, title, type, "order", is_locked)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    v_subject_id,
+    x->>'title',
+    x->>'type',
+    (x->>'order')::integer,
+    coalesce((x->>'is_locked')::boolean, false)
+  from jsonb_array_elements(coalesce(p_package->'sections', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('sections', v_count);
+
+  insert into lessons (
+    id, subject_id, section_id, title, video_url, content, teachers, files, "order", is_locked,
+    linked_exam_ids, notes, interactive_app_content
+  )
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    v_subject_id,
+    (v_ids->>(x->>'section_id'))::uuid,
+    x->>'title',
+    x->>'video_url',
+    x->>'content',
+    nullif(x->'teachers', 'null'),
+    nullif(x->'files', 'null'),
+    (x->>'order')::integer,
+    coalesce((x->>'is_locked')::boolean, false),
+    array(
+      select (v_ids->>linked)::uuid
+      from jsonb_array_elements_text(coalesce(x->'linked_exam_ids', '[]')) linked
+      where exists (
+        select 1 from jsonb_array_elements(coalesce(p_package->'exams', '[]')) e where e->>'id' = linked
+      )
+    ),
+    x->>'notes',
+    x->>'interactive_app_content'
+  from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('lessons', v_count);
+
+  insert into question_groups (id, title, stimulus_text, stimulus_image_url, stimulus_image_hint, subject_id, lesson_id)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'title',
+    x->>'stimulus_text',
+    x->>'stimulus_image_url',
+    x->>'stimulus_image_hint',
+    v_subject_id,
+    (v_ids->>(x->>'lesson_id'))::uuid
+  from jsonb_array_elements(coalesce(p_package->'question_groups', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('question_groups', v_count);
+
+  insert into questions (
+    id, question_type, question_text, image_url, image_hint, difficulty, subject_id, lesson_id, tag_ids,
+    options, correct_option_id, correct_answers, model_answer, is_locked, external_id, correct_option_ids,
+    matching_pairs, numeric_answer, numeric_unit, numeric_tolerance, group_id, group_order
+  )
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'question_type',
+    x->>'question_text',
+    x->>'image_url',
+    x->>'image_hint',
+    x->>'difficulty',
+    v_subject_id,
+    (v_ids->>(x->>'lesson_id'))::uuid,
+    array(
+      select distinct (v_tag_ids->>tag)::uuid
+      from jsonb_array_elements_text(coalesce(x->'tag_ids', '[]')) tag
+      where v_tag_ids ? tag
+    ),
+    nullif(x->'options', 'null'),
+    x->>'correct_option_id',
+    case when jsonb_typeof(x->'correct_answers') = 'array'
+      then array(select jsonb_array_elements_text(x->'correct_answers')) end,
+    x->>'model_answer',
+    coalesce((x->>'is_locked')::boolean, true),
+    case when not exists (select 1 from questions q where q.external_id = x->>'external_id')
+      then x->>'external_id' end,
+    case when jsonb_typeof(x->'correct_option_ids') = 'array'
+      then array(select jsonb_array_elements_text(x->'correct_option_ids')) end,
+    nullif(x->'matching_pairs', 'null'),
+    (x->>'numeric_answer')::numeric,
+    x->>'numeric_unit',
+    (x->>'numeric_tolerance')::numeric,
+    (v_ids->>(x->>'group_id'))::uuid,
+    (x->>'group_order')::integer
+  from jsonb_array_elements(coalesce(p_package->'questions', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('questions', v_count);
+
+  insert into exams (id, title, description, subject_id, published, image, image_hint, teacher_name, duration, external_id)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'title',
+    x->>'description',
+    v_subject_id,
+    coalesce((x->>'published')::boolean, false),
+    x->>'image',
+    x->>'image_hint',
+    x->>'teacher_name',
+    (x->>'duration')::integer,
+    case when not exists (select 1 from exams e where e.external_id = x->>'external_id')
+      then x->>'external_id' end
+  from jsonb_array_elements(coalesce(p_package->'exams', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('exams', v_count);
+
+  insert into exam_questions (exam_id, question_id, order_number, points)
+  select
+    (v_ids->>(l->>'exam_id'))::uuid,
+    (v_ids->>(l->>'question_id'))::uuid,
+    (l->>'order_number')::integer,
+    (l->>'points')::integer
+  from jsonb_array_elements(coalesce(p_package->'exam_questions', '[]')) l
+  where exists (select 1 from jsonb_array_elements(coalesce(p_package->'exams', '[]')) e where e->>'id' = l->>'exam_id')
+    and exists (select 1 from jsonb_array_elements(coalesce(p_package->'questions', '[]')) q where q->>'id' = l->>'question_id');
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('exam_questions', v_count);
+
+  return jsonb_build_object('subject_id', v_subject_id, 'counts', v_counts, 'conflicts', v_conflicts);
+end;
+$$;
+
+grant execute on function public.import_course_package(jsonb) to authenticated;
@@ -0,0 +1,261 @@
+-- Feedback text on questions, as Moodle XML and GIFT carry it (src/lib/moodleXml.ts, src/lib/gift.ts).
+--
+-- questions.feedback is the general feedback, meant for the student after answering whatever the answer.
+-- Feedback for a particular choice of an MCQ or true/false question lives on the option, in the options
+-- jsonb ({ id, text, feedback }), so it needs no column.
+--
+-- Feedback is not part of the question's content for revisions: changing the general feedback or the
+-- feedback of a choice does not bump the revision (options_without_feedback below), so it does not
+-- invalidate the sanity and answer-key checks either.
+
+alter table public.questions add column feedback text;
+
+-- ---------------------------------------------------------------------------
+-- bump_question_revision, re-created to compare the options without their feedback. The revision
+-- snapshot still copies the options as they are, feedback included.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.options_without_feedback(p_options jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(p_options) = 'array' then
+      coalesce((select jsonb_agg(o - 'feedback' order by i) from jsonb_array_elements(p_options) with ordinality as t(o, i)), '[]'::jsonb)
+    else p_options
+  end;
+$$;
+
+create or replace function public.bump_question_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.revision := 1;
+  elsif (new.question_type, new.question_text, new.image_url, new.image_hint, new.difficulty, new.tag_ids,
+         public.options_without_feedback(new.options), new.correct_option_id, new.correct_answers, new.model_answer,
+         new.correct_option_ids, new.matching_pairs, new.numeric_answer, new.numeric_unit, new.numeric_tolerance)
+        is distinct from
+        (old.question_type, old.question_text, old.image_url, old.image_hint, old.difficulty, old.tag_ids,
+         public.options_without_feedback(old.options), old.correct_option_id, old.correct_answers, old.model_answer,
+         old.correct_option_ids, old.matching_pairs, old.numeric_answer, old.numeric_unit, old.numeric_tolerance) then
+    new.revision := old.revision + 1;
+  else
+    new.revision := old.revision;
+  end if;
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- import_course_package, re-created so that course packages bring the feedback along.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.import_course_package(p_package jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_subject jsonb := p_package->'subject';
+  v_conflicts jsonb;
+  v_ids jsonb;
+  v_tag_ids jsonb;
+  v_subject_id uuid;
+  v_counts jsonb := '{}';
+  v_count integer;
+begin
+  if p_package is null or jsonb_typeof(p_package) <> 'object' or p_package->>'format' is distinct from 'course-package' then
+    raise exception 'import_course_package: not a course package' using errcode = '22023';
+  end if;
+  if (p_package->>'format_version')::integer is distinct from 1 then
+    raise exception 'import_course_package: unsupported package version %', p_package->>'format_version'
+      using errcode = '22023';
+  end if;
+  if jsonb_typeof(v_subject) is distinct from 'object' or v_subject->>'id' is null then
+    raise exception 'import_course_package: the package has no subject' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x
+    where not exists (
+      select 1 from jsonb_array_elements(coalesce(p_package->'sections', '[]')) s
+      where s->>'id' = x->>'section_id'
+    )
+  ) then
+    raise exception 'import_course_package: every lesson needs a section of the package' using errcode = '22023';
+  end if;
+
+  v_conflicts := public.course_package_conflicts(p_package);
+
+  -- One new id for every row id in the package.
+  select coalesce(jsonb_object_agg(old_id, gen_random_uuid()), '{}') into v_ids
+  from (
+    select v_subject->>'id' as old_id
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'sections', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'question_groups', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'questions', '[]')) x
+    union select x->>'id' from jsonb_array_elements(coalesce(p_package->'exams', '[]')) x
+  ) ids
+  where old_id is not null;
+
+  insert into tags (name)
+  select distinct btrim(t->>'name')
+  from jsonb_array_elements(coalesce(p_package->'tags', '[]')) t
+  where coalesce(btrim(t->>'name'), '') <> ''
+  on conflict (name) do nothing;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('tags', v_count);
+
+  select coalesce(jsonb_object_agg(t->>'id', tags.id), '{}') into v_tag_ids
+  from jsonb_array_elements(coalesce(p_package->'tags', '[]')) t
+  join tags on tags.name = btrim(t->>'name');
+
+  insert into subjects (id, name, description, branch, image, icon_name, image_hint, "order", interactive_app_content, external_id)
+  values (
+    (v_ids->>(v_subject->>'id'))::uuid,
+    v_subject->>'name',
+    v_subject->>'description',
+    v_subject->>'branch',
+    v_subject->>'image',
+    v_subject->>'icon_name',
+    v_subject->>'image_hint',
+    (v_subject->>'order')::integer,
+    v_subject->>'interactive_app_content',
+    case when not exists (select 1 from subjects where external_id = v_subject->>'external_id')
+      then v_subject->>'external_id' end
+  )
+  returning id into v_subject_id;
+
+  insert into subject_sections (id, subject_id, title, type, "order", is_locked)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    v_subject_id,
+    x->>'title',
+    x->>'type',
+    (x->>'order')::integer,
+    coalesce((x->>'is_locked')::boolean, false)
+  from jsonb_array_elements(coalesce(p_package->'sections', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('sections', v_count);
+
+  insert into lessons (
+    id, subject_id, section_id, title, video_url, content, teachers, files, "order", is_locked,
+    linked_exam_ids, notes, interactive_app_content
+  )
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    v_subject_id,
+    (v_ids->>(x->>'section_id'))::uuid,
+    x->>'title',
+    x->>'video_url',
+    x->>'content',
+    nullif(x->'teachers', 'null'),
+    nullif(x->'files', 'null'),
+    (x->>'order')::integer,
+    coalesce((x->>'is_locked')::boolean, false),
+    array(
+      select (v_ids->>linked)::uuid
+      from jsonb_array_elements_text(coalesce(x->'linked_exam_ids', '[]')) linked
+      where exists (
+        select 1 from jsonb_array_elements(coalesce(p_package->'exams', '[]')) e where e->>'id' = linked
+      )
+    ),
+    x->>'notes',
+    x->>'interactive_app_content'
+  from jsonb_array_elements(coalesce(p_package->'lessons', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('lessons', v_count);
+
+  insert into question_groups (id, title, stimulus_text, stimulus_image_url, stimulus_image_hint, subject_id, lesson_id)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'title',
+    x->>'stimulus_text',
+    x->>'stimulus_image_url',
+    x->>'stimulus_image_hint',
+    v_subject_id,
+    (v_ids->>(x->>'lesson_id'))::uuid
+  from jsonb_array_elements(coalesce(p_package->'question_groups', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('question_groups', v_count);
+
+  insert into questions (
+    id, question_type, question_text, image_url, image_hint, difficulty, subject_id, lesson_id, tag_ids,
+    options, correct_option_id, correct_answers, model_answer, is_locked, external_id, correct_option_ids,
+    matching_pairs, numeric_answer, numeric_unit, numeric_tolerance, group_id, group_order, feedback
+  )
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'question_type',
+    x->>'question_text',
+    x->>'image_url',
+    x->>'image_hint',
+    x->>'difficulty',
+    v_subject_id,
+    (v_ids->>(x->>'lesson_id'))::uuid,
+    array(
+      select distinct (v_tag_ids->>tag)::uuid
+      from jsonb_array_elements_text(coalesce(x->'tag_ids', '[]')) tag
+      where v_tag_ids ? tag
+    ),
+    nullif(x->'options', 'null'),
+    x->>'correct_option_id',
+    case when jsonb_typeof(x->'correct_answers') = 'array'
+      then array(select jsonb_array_elements_text(x->'correct_answers')) end,
+    x->>'model_answer',
+    coalesce((x->>'is_locked')::boolean, true),
+    case when not exists (select 1 from questions q where q.external_id = x->>'external_id')
+      then x->>'external_id' end,
+    case when jsonb_typeof(x->'correct_option_ids') = 'array'
+      then array(select jsonb_array_elements_text(x->'correct_option_ids')) end,
+    nullif(x->'matching_pairs', 'null'),
+    (x->>'numeric_answer')::numeric,
+    x->>'numeric_unit',
+    (x->>'numeric_tolerance')::numeric,
+    (v_ids->>(x->>'group_id'))::uuid,
+    (x->>'group_order')::integer,
+    x->>'feedback'
+  from jsonb_array_elements(coalesce(p_package->'questions', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('questions', v_count);
+
+  insert into exams (id, title, description, subject_id, published, image, image_hint, teacher_name, duration, external_id)
+  select
+    (v_ids->>(x->>'id'))::uuid,
+    x->>'title',
+    x->>'description',
+    v_subject_id,
+    coalesce((x->>'published')::boolean, false),
+    x->>'image',
+    x->>'image_hint',
+    x->>'teacher_name',
+    (x->>'duration')::integer,
+    case when not exists (select 1 from exams e where e.external_id = x->>'external_id')
+      then x->>'external_id' end
+  from jsonb_array_elements(coalesce(p_package->'exams', '[]')) x;
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('exams', v_count);
+
+  insert into exam_questions (exam_id, question_id, order_number, points)
+  select
+    (v_ids->>(l->>'exam_id'))::uuid,
+    (v_ids->>(l->>'question_id'))::uuid,
+    (l->>'order_number')::integer,
+    (l->>'points')::integer
+  from jsonb_array_elements(coalesce(p_package->'exam_questions', '[]')) l
+  where exists (select 1 from jsonb_array_elements(coalesce(p_package->'exams', '[]')) e where e->>'id' = l->>'exam_id')
+    and exists (select 1 from jsonb_array_elements(coalesce(p_package->'questions', '[]')) q where q->>'id' = l->>'question_id');
+  get diagnostics v_count = row_count;
+  v_counts := v_counts || jsonb_build_object('exam_questions', v_count);
+
+  return jsonb_build_object('subject_id', v_subject_id, 'counts', v_counts, 'conflicts', v_conflicts);
+end;
+$$;
+
+grant execute on function public.import_course_package(jsonb) to authenticated;
@@ -0,0 +1,116 @@
+-- Removing option images and audio clips from storage once nothing points at them any more.
+--
+-- Options carry imageUrl / audioUrl keys in their jsonb. A file stays needed as long as a question or
+-- any of its revisions (which keep the answer key a student was graded against) refers to it, so the
+-- files of a removed option only become garbage when its question is purged. Storage objects are
+-- deleted by the client (src/lib/storage.ts); the database only says which files are safe to delete.
+
+-- The imageUrl and audioUrl values of an options array.
+create or replace function public.option_media_urls(p_options jsonb)
+returns setof text
+language sql
+immutable
+set search_path = public
+as $$
+  select url
+  from jsonb_array_elements(case when jsonb_typeof(p_options) = 'array' then p_options else '[]' end) opt,
+       lateral (values (opt->>'imageUrl'), (opt->>'audioUrl')) media(url)
+  where jsonb_typeof(opt) = 'object' and coalesce(url, '') <> '';
+$$;
+
+-- ---------------------------------------------------------------------------
+-- unreferenced_media_urls: the given URLs that no question and no question revision uses, whether as an
+-- option's media or as the question image. Runs as definer so a teacher never deletes a file that a
+-- question of another subject (a copy, say) still shows.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.unreferenced_media_urls(p_urls text[])
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(distinct url), '{}')
+  from unnest(p_urls) url
+  where coalesce(url, '') <> ''
+    and not exists (select 1 from public.questions q where q.image_url = url)
+    and not exists (select 1 from public.question_revisions r where r.image_url = url)
+    and not exists (
+      select 1 from public.questions q
+      where q.options is not null and url in (select public.option_media_urls(q.options))
+    )
+    and not exists (
+      select 1 from public.question_revisions r
+      where r.options is not null and url in (select public.option_media_urls(r.options))
+    );
+$$;
+
+-- ---------------------------------------------------------------------------
+-- purge_item, re-created to return the option media that the purged questions (and their revisions,
+-- which go with them) leave behind, for the caller to delete from storage. Otherwise unchanged.
+-- ---------------------------------------------------------------------------
+
+drop function public.purge_item(text, uuid);
+
+create function public.purge_item(p_entity text, p_id uuid)
+returns text[]
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_deleted_at timestamptz;
+  v_question_ids uuid[] := '{}';
+  v_urls text[];
+begin
+  case p_entity
+    when 'subject' then
+      select deleted_at into v_deleted_at from public.subjects where id = p_id;
+      if v_deleted_at is null then
+        raise exception 'Subject % is not in the trash', p_id using errcode = 'P0002';
+      end if;
+      select coalesce(array_agg(id), '{}') into v_question_ids
+      from public.questions where subject_id = p_id and deleted_at = v_deleted_at;
+    when 'question' then
+      select coalesce(array_agg(id), '{}') into v_question_ids
+      from public.questions where id = p_id and deleted_at is not null;
+    else
+      null;
+  end case;
+
+  select coalesce(array_agg(distinct url), '{}') into v_urls
+  from (
+    select public.option_media_urls(q.options) as url from public.questions q where q.id = any (v_question_ids)
+    union
+    select public.option_media_urls(r.options) from public.question_revisions r where r.question_id = any (v_question_ids)
+  ) media;
+
+  case p_entity
+    when 'subject' then
+      delete from public.questions where subject_id = p_id and deleted_at = v_deleted_at;
+      delete from public.exams where subject_id = p_id and deleted_at = v_deleted_at;
+      delete from public.subjects where id = p_id;
+    when 'section' then
+      delete from public.subject_sections where id = p_id and deleted_at is not null;
+    when 'lesson' then
+      delete from public.lessons where id = p_id and deleted_at is not null;
+    when 'question' then
+      delete from public.questions where id = p_id and deleted_at is not null;
+    when 'exam' then
+      delete from public.exams where id = p_id and deleted_at is not null;
+    else
+      raise exception 'Unknown trash entity: %', p_entity using errcode = '22023';
+  end case;
+
+  if not found then
+    raise exception 'Trashed % % not found', p_entity, p_id using errcode = 'P0002';
+  end if;
+
+  return public.unreferenced_media_urls(v_urls);
+end;
+$$;
+
+grant execute on function public.purge_item(text, uuid) to authenticated;
+grant execute on function public.option_media_urls(jsonb) to authenticated;
+grant execute on function public.unreferenced_media_urls(text[]) to authenticated;
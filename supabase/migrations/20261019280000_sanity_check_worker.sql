@@ -0,0 +1,52 @@
+-- Sanity checks run by a server-side worker.
+--
+-- The queue entries are no longer worked through by the review page in the browser but by a route
+-- handler (src/app/api/sanity-checks/run/route.ts) that a scheduler calls every few minutes, with the
+-- service role. It uses claim_sanity_checks, record_sanity_check and fail_sanity_check unchanged.
+--
+-- The questions page's bulk "sanity check" action goes through the queue as well, with
+-- queue_sanity_checks below, instead of calling the model from the browser question by question.
+
+-- ---------------------------------------------------------------------------
+-- queue_sanity_checks: queues the given questions for a new check, whatever their current verdict.
+-- Failed entries are queued again with a fresh set of attempts; questions with an entry that is queued,
+-- being checked or waiting for review are left alone. Returns the ids of the questions queued.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.queue_sanity_checks(p_question_ids uuid[])
+returns uuid[]
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_requeued uuid[];
+  v_inserted uuid[];
+begin
+  with requeued as (
+    update public.question_sanity_reviews
+    set status = 'queued', attempts = 0, last_error = null, next_attempt_at = now()
+    where question_id = any(p_question_ids) and status = 'failed'
+    returning question_id
+  )
+  select coalesce(array_agg(question_id), '{}') into v_requeued from requeued;
+
+  with inserted as (
+    insert into public.question_sanity_reviews (question_id)
+    select q.id
+    from public.questions q
+    where q.id = any(p_question_ids)
+      and q.deleted_at is null
+      and not exists (
+        select 1 from public.question_sanity_reviews r
+        where r.question_id = q.id and r.status in ('queued', 'checking', 'review', 'failed')
+      )
+    returning question_id
+  )
+  select coalesce(array_agg(question_id), '{}') into v_inserted from inserted;
+
+  return v_requeued || v_inserted;
+end;
+$$;
+
+grant execute on function public.queue_sanity_checks(uuid[]) to authenticated;
@@ -0,0 +1,180 @@
+-- Sample data for a local Supabase instance (`npm run db:reset` applies the migrations, then this file).
+--
+-- Sign-in accounts (password for both: password123):
+--   admin@atmetny.local    admin
+--   teacher@atmetny.local  teacher, assigned to الرياضيات and الفيزياء
+--
+-- IDs are fixed so rows can reference each other and so the data is stable across resets.
+
+-- ---------------------------------------------------------------------------
+-- Auth users (the on_auth_user_created trigger creates their profiles)
+-- ---------------------------------------------------------------------------
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+values
+  ('00000000-0000-0000-0000-000000000000', 'a0000000-0000-4000-8000-000000000001', 'authenticated', 'authenticated',
+   'admin@atmetny.local', extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+   '{"provider":"email","providers":["email"]}', '{"name":"مدير المنصة"}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', 'a0000000-0000-4000-8000-000000000002', 'authenticated', 'authenticated',
+   'teacher@atmetny.local', extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+   '{"provider":"email","providers":["email"]}', '{"name":"أ. سامر الخطيب"}', now(), now(), '', '', '', '');
+
+insert into auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+values
+  (gen_random_uuid(), 'a0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001',
+   '{"sub":"a0000000-0000-4000-8000-000000000001","email":"admin@atmetny.local"}', 'email', now(), now(), now()),
+  (gen_random_uuid(), 'a0000000-0000-4000-8000-000000000002', 'a0000000-0000-4000-8000-000000000002',
+   '{"sub":"a0000000-0000-4000-8000-000000000002","email":"teacher@atmetny.local"}', 'email', now(), now(), now());
+
+update public.profiles set role = 'admin' where id = 'a0000000-0000-4000-8000-000000000001';
+update public.profiles
+set role = 'teacher',
+    youtube_channel_url = 'https://www.youtube.com/@atmetny'
+where id = 'a0000000-0000-4000-8000-000000000002';
+
+-- ---------------------------------------------------------------------------
+-- Subjects, sections and lessons
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, description, branch, icon_name, "order")
+values
+  ('b0000000-0000-4000-8000-000000000001', 'الرياضيات', 'التحليل والجبر والهندسة لطلاب الشهادة الثانوية.', 'scientific', 'Calculator', 1),
+  ('b0000000-0000-4000-8000-000000000002', 'الفيزياء', 'الميكانيك والكهرباء والأمواج.', 'scientific', 'Atom', 2),
+  ('b0000000-0000-4000-8000-000000000003', 'الكيمياء', 'الكيمياء العامة والعضوية.', 'scientific', 'FlaskConical', 3),
+  ('b0000000-0000-4000-8000-000000000004', 'اللغة العربية', 'النحو والبلاغة والأدب.', 'literary', 'BookOpen', 4),
+  ('b0000000-0000-4000-8000-000000000005', 'الثقافة العامة', 'أسئلة منوعة لجميع الفروع.', 'general', 'Globe', 5);
+
+-- Also fills the teacher's profiles.subjects_taught_ids (sync_subjects_taught_ids trigger).
+insert into public.teacher_subjects (teacher_id, subject_id)
+values
+  ('a0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001'),
+  ('a0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000002');
+
+insert into public.subject_sections (id, subject_id, title, type, "order")
+values
+  ('c0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'التحليل', 'theory', 1),
+  ('c0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001', 'تمارين محلولة', 'practical', 2),
+  ('c0000000-0000-4000-8000-000000000003', 'b0000000-0000-4000-8000-000000000002', 'الميكانيك', 'theory', 1),
+  ('c0000000-0000-4000-8000-000000000004', 'b0000000-0000-4000-8000-000000000003', 'الكيمياء العضوية', 'theory', 1),
+  ('c0000000-0000-4000-8000-000000000005', 'b0000000-0000-4000-8000-000000000004', 'النحو', 'theory', 1);
+
+insert into public.lessons (id, subject_id, section_id, title, content, teachers, "order", is_locked)
+values
+  ('d0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000001',
+   'النهايات والاستمرار', 'تعريف النهاية عند نقطة وعند اللانهاية، وشروط استمرار التابع.',
+   '[{"name":"أ. سامر الخطيب","youtubeUrl":"https://www.youtube.com/@atmetny"}]', 1, false),
+  ('d0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000001',
+   'الاشتقاق وتطبيقاته', 'قواعد الاشتقاق، ودراسة تغيرات التابع، والقيم الحدية.', null, 2, true),
+  ('d0000000-0000-4000-8000-000000000003', 'b0000000-0000-4000-8000-000000000002', 'c0000000-0000-4000-8000-000000000003',
+   'قوانين نيوتن', 'القانون الأول والثاني والثالث لنيوتن مع أمثلة محلولة.', null, 1, false),
+  ('d0000000-0000-4000-8000-000000000004', 'b0000000-0000-4000-8000-000000000003', 'c0000000-0000-4000-8000-000000000004',
+   'الألكانات', 'الصيغة العامة للألكانات وتسميتها وخواصها.', null, 1, false),
+  ('d0000000-0000-4000-8000-000000000005', 'b0000000-0000-4000-8000-000000000004', 'c0000000-0000-4000-8000-000000000005',
+   'المبتدأ والخبر', 'أنواع الخبر وأحكام تقديمه وتأخيره.', null, 1, false);
+
+-- ---------------------------------------------------------------------------
+-- Tags and questions
+-- ---------------------------------------------------------------------------
+
+insert into public.tags (id, name)
+values
+  ('e0000000-0000-4000-8000-000000000001', 'دورة 2023'),
+  ('e0000000-0000-4000-8000-000000000002', 'دورة 2024'),
+  ('e0000000-0000-4000-8000-000000000003', 'مسائل'),
+  ('e0000000-0000-4000-8000-000000000004', 'تعاريف'),
+  ('e0000000-0000-4000-8000-000000000005', 'مراجعة نهائية');
+
+insert into public.questions (
+  id, question_type, question_text, difficulty, subject_id, lesson_id, tag_ids,
+  options, correct_option_id, correct_answers, model_answer, is_sane, sanity_explanation
+)
+values
+  ('f0000000-0000-4000-8000-000000000001', 'mcq', 'ما قيمة نهاية التابع (x² - 1) / (x - 1) عندما تسعى x إلى 1؟', 'medium',
+   'b0000000-0000-4000-8000-000000000001', 'd0000000-0000-4000-8000-000000000001',
+   array['e0000000-0000-4000-8000-000000000002', 'e0000000-0000-4000-8000-000000000003']::uuid[],
+   '[{"id":"opt-1","text":"0"},{"id":"opt-2","text":"1"},{"id":"opt-3","text":"2"},{"id":"opt-4","text":"غير موجودة"}]',
+   'opt-3', null, null, true, 'السؤال سليم لغويًا وعلميًا.'),
+  ('f0000000-0000-4000-8000-000000000002', 'true_false', 'كل تابع قابل للاشتقاق عند نقطة يكون مستمرًا عندها.', 'easy',
+   'b0000000-0000-4000-8000-000000000001', 'd0000000-0000-4000-8000-000000000002',
+   array['e0000000-0000-4000-8000-000000000004']::uuid[],
+   '[{"id":"true","text":"صحيح"},{"id":"false","text":"خطأ"}]', 'true', null, null, null, null),
+  ('f0000000-0000-4000-8000-000000000003', 'fill_in_the_blanks', 'مشتق التابع sin(x) هو ____.', 'easy',
+   'b0000000-0000-4000-8000-000000000001', 'd0000000-0000-4000-8000-000000000002',
+   array['e0000000-0000-4000-8000-000000000005']::uuid[],
+   null, null, array['cos(x)', 'cos x'], null, null, null),
+  ('f0000000-0000-4000-8000-000000000004', 'mcq', 'جسم كتلته 2 kg يتحرك بتسارع 3 m/s². ما محصلة القوى المؤثرة فيه؟', 'easy',
+   'b0000000-0000-4000-8000-000000000002', 'd0000000-0000-4000-8000-000000000003',
+   array['e0000000-0000-4000-8000-000000000003']::uuid[],
+   '[{"id":"opt-1","text":"1.5 N"},{"id":"opt-2","text":"5 N"},{"id":"opt-3","text":"6 N"}]',
+   'opt-3', null, null, true, null),
+  ('f0000000-0000-4000-8000-000000000005', 'short_answer', 'اذكر نص قانون نيوتن الثالث.', 'medium',
+   'b0000000-0000-4000-8000-000000000002', 'd0000000-0000-4000-8000-000000000003',
+   array['e0000000-0000-4000-8000-000000000004', 'e0000000-0000-4000-8000-000000000001']::uuid[],
+   null, null, null, 'لكل فعل رد فعل مساوٍ له في الشدة ومعاكس له في الاتجاه.', null, null),
+  ('f0000000-0000-4000-8000-000000000006', 'mcq', 'ما الصيغة العامة للألكانات؟', 'easy',
+   'b0000000-0000-4000-8000-000000000003', 'd0000000-0000-4000-8000-000000000004',
+   array['e0000000-0000-4000-8000-000000000004']::uuid[],
+   '[{"id":"opt-1","text":"CnH2n"},{"id":"opt-2","text":"CnH2n+2"},{"id":"opt-3","text":"CnH2n-2"}]',
+   'opt-2', null, null, true, null),
+  ('f0000000-0000-4000-8000-000000000007', 'true_false', 'يأتي خبر المبتدأ جملةً فعلية أحيانًا.', 'hard',
+   'b0000000-0000-4000-8000-000000000004', 'd0000000-0000-4000-8000-000000000005',
+   array['e0000000-0000-4000-8000-000000000001']::uuid[],
+   '[{"id":"true","text":"صحيح"},{"id":"false","text":"خطأ"}]', 'true', null, null, false, 'يُفضّل ضبط الصياغة: "قد يأتي خبر المبتدأ جملةً فعلية".'),
+  ('f0000000-0000-4000-8000-000000000008', 'mcq', 'ما عاصمة الجمهورية العربية السورية؟', 'easy',
+   'b0000000-0000-4000-8000-000000000005', null, '{}',
+   '[{"id":"opt-1","text":"حلب"},{"id":"opt-2","text":"دمشق"},{"id":"opt-3","text":"حمص"}]',
+   'opt-2', null, null, null, null);
+
+-- ---------------------------------------------------------------------------
+-- Exams
+-- ---------------------------------------------------------------------------
+
+insert into public.exams (id, title, description, subject_id, published, teacher_name, teacher_id, duration)
+values
+  ('10000000-0000-4000-8000-000000000001', 'اختبار التحليل - الوحدة الأولى', 'النهايات والاشتقاق.',
+   'b0000000-0000-4000-8000-000000000001', true, 'أ. سامر الخطيب', 'a0000000-0000-4000-8000-000000000002', 30),
+  ('10000000-0000-4000-8000-000000000002', 'اختبار الميكانيك التجريبي', 'قوانين نيوتن.',
+   'b0000000-0000-4000-8000-000000000002', false, 'أ. سامر الخطيب', 'a0000000-0000-4000-8000-000000000002', 20);
+
+insert into public.exam_questions (exam_id, question_id, order_number, points)
+values
+  ('10000000-0000-4000-8000-000000000001', 'f0000000-0000-4000-8000-000000000001', 1, 4),
+  ('10000000-0000-4000-8000-000000000001', 'f0000000-0000-4000-8000-000000000002', 2, 2),
+  ('10000000-0000-4000-8000-000000000001', 'f0000000-0000-4000-8000-000000000003', 3, 2),
+  ('10000000-0000-4000-8000-000000000002', 'f0000000-0000-4000-8000-000000000004', 1, 5),
+  ('10000000-0000-4000-8000-000000000002', 'f0000000-0000-4000-8000-000000000005', 2, 5);
+
+-- ---------------------------------------------------------------------------
+-- Activation codes, news, announcements and settings
+-- ---------------------------------------------------------------------------
+
+insert into public.activation_codes (name, encoded_value, type, subject_id, subject_name, valid_from, valid_until)
+values
+  ('كود الرياضيات الشهري', 'ATM-MATH-0001', 'subject_monthly', 'b0000000-0000-4000-8000-000000000001', 'الرياضيات', now(), now() + interval '30 days'),
+  ('كود عام سنوي', 'ATM-GEN-0001', 'general_yearly', null, null, now(), now() + interval '365 days');
+
+insert into public.news_items (title, content)
+values
+  ('صدور برنامج امتحانات الشهادة الثانوية', 'أعلنت وزارة التربية برنامج امتحانات الشهادة الثانوية بفرعيها العلمي والأدبي.'),
+  ('إضافة دورات 2024 إلى بنك الأسئلة', 'تمت إضافة أسئلة دورات عام 2024 لمادتي الرياضيات والفيزياء.');
+
+insert into public.announcements (title, message, type, is_active)
+values
+  ('مرحبًا بكم في أتمتني', 'نتمنى لكم دراسة ممتعة وموفقة.', 'info', true),
+  ('صيانة مجدولة', 'ستتوقف المنصة عن العمل مساء الجمعة من الساعة 10 حتى 11 لأعمال الصيانة.', 'warning', false);
+
+insert into public.app_settings (app_name, support_email, support_phone_number, social_media_links)
+values
+  ('أتمتني', 'support@atmetny.local', '+963 900 000 000',
+   '[{"platform":"Telegram","url":"https://t.me/atmetny"},{"platform":"YouTube","url":"https://www.youtube.com/@atmetny"}]');
+
+insert into public.admin_notifications (type, message, link_path, related_entity_id, related_entity_type)
+values
+  ('low_question_count_subject', 'مادة الثقافة العامة تحتوي على سؤال واحد فقط.', '/dashboard/subjects',
+   'b0000000-0000-4000-8000-000000000005', 'subject'),
+  ('new_user_registered', 'انضم أستاذ جديد إلى المنصة: أ. سامر الخطيب.', '/dashboard/teachers',
+   'a0000000-0000-4000-8000-000000000002', 'user');
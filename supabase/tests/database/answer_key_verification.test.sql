@@ -0,0 +1,58 @@
+-- Answer-key verdicts in the sanity review queue (supabase/migrations/*_answer_key_verification.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: a checked numeric question whose key was never verified, and a checked short answer
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, branch)
+values ('b7b7b7b7-0000-4000-8000-000000000001', 'مادة المفتاح', 'scientific');
+
+insert into public.questions (id, question_type, question_text, subject_id, is_sane, sanity_explanation, numeric_answer, numeric_tolerance)
+values
+  ('e7e7e7e7-0000-4000-8000-000000000001', 'numeric', 'كم يساوي 2 + 2؟', 'b7b7b7b7-0000-4000-8000-000000000001', true, 'سليم', 5, 0),
+  ('e7e7e7e7-0000-4000-8000-000000000002', 'short_answer', 'عرّف الذرة', 'b7b7b7b7-0000-4000-8000-000000000001', true, 'سليم', null, null);
+
+select is(
+  public.enqueue_sanity_checks('b7b7b7b7-0000-4000-8000-000000000001'),
+  1,
+  'questions without a key verdict are queued; short answers are not'
+);
+
+select public.record_sanity_check(review_id, true, 'سليم', false, 0.9, '2 + 2 = 4', '4')
+from public.claim_sanity_checks(1);
+
+select public.resolve_sanity_review(r.id, true)
+from public.question_sanity_reviews r
+where r.question_id = 'e7e7e7e7-0000-4000-8000-000000000001';
+
+select results_eq(
+  $$ select answer_key_agrees, answer_key_solver_answer from public.questions
+     where id = 'e7e7e7e7-0000-4000-8000-000000000001' $$,
+  $$ values (false, '4'::text) $$,
+  'accepting a verdict writes the key verdict to the question'
+);
+
+select is(
+  public.enqueue_sanity_checks('b7b7b7b7-0000-4000-8000-000000000001'),
+  0,
+  'a verified key is not queued again'
+);
+
+update public.questions set numeric_answer = 4 where id = 'e7e7e7e7-0000-4000-8000-000000000001';
+
+select is(
+  (select answer_key_agrees from public.questions where id = 'e7e7e7e7-0000-4000-8000-000000000001'),
+  null,
+  'changing the key clears the verdict'
+);
+
+select * from finish();
+
+rollback;
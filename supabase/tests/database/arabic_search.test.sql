@@ -0,0 +1,81 @@
+-- Arabic-aware search (supabase/migrations/*_arabic_search.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: one of each searchable kind, spelled with tashkeel and hamza forms
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, branch)
+values ('b5b5b5b5-0000-4000-8000-000000000001', 'مادة البحث', 'scientific');
+
+insert into public.subject_sections (id, subject_id, title, type)
+values ('c5c5c5c5-0000-4000-8000-000000000001', 'b5b5b5b5-0000-4000-8000-000000000001', 'قسم', 'theory');
+
+insert into public.lessons (id, subject_id, section_id, title, content)
+values ('d5d5d5d5-0000-4000-8000-000000000001', 'b5b5b5b5-0000-4000-8000-000000000001', 'c5c5c5c5-0000-4000-8000-000000000001',
+        'الأحماضُ والقواعد', 'مراجعة قبل إختبار الكيمياء');
+
+insert into public.questions (id, question_type, question_text, subject_id)
+values
+  ('e5e5e5e5-0000-4000-8000-000000000001', 'short_answer', 'عرّف الحمضَ حسب أرهينيوس', 'b5b5b5b5-0000-4000-8000-000000000001'),
+  ('e5e5e5e5-0000-4000-8000-000000000002', 'short_answer', 'اذكر خواص القواعد', 'b5b5b5b5-0000-4000-8000-000000000001');
+
+insert into public.exams (id, title, description, subject_id)
+values ('a5a5a5a5-0000-4000-8000-000000000001', 'الإختبار النهائي', 'الأحماض والقواعد', 'b5b5b5b5-0000-4000-8000-000000000001');
+
+insert into public.news_items (id, title, content)
+values ('f5f5f5f5-0000-4000-8000-000000000001', 'موعد الاختبار', 'يبدأ إختبار الكيمياء يوم الأحد');
+
+-- ---------------------------------------------------------------------------
+-- Query building
+-- ---------------------------------------------------------------------------
+
+select is(
+  public.arabic_search_text('الإختبارُ والقلم للطالب الى'),
+  'اختبار قلم طالب الي',
+  'arabic_search_text normalizes and drops the article, but not from words that would be too short'
+);
+
+select is(
+  public.arabic_prefix_tsquery('إختبار  الكيم!'),
+  to_tsquery('simple', '''اختبار'':* & ''كيم'':*'),
+  'arabic_prefix_tsquery requires every word as a prefix'
+);
+
+select is(public.arabic_prefix_tsquery(' ؟! '), null, 'arabic_prefix_tsquery is null without words');
+
+-- ---------------------------------------------------------------------------
+-- Matching
+-- ---------------------------------------------------------------------------
+
+select results_eq(
+  $$ select id from public.questions where search_vector @@ public.arabic_prefix_tsquery('الحمض') $$,
+  $$ values ('e5e5e5e5-0000-4000-8000-000000000001'::uuid) $$,
+  'questions match regardless of tashkeel and the article'
+);
+
+select results_eq(
+  $$ select entity, id from public.global_search('اختبار') order by entity $$,
+  $$ values ('exam'::text, 'a5a5a5a5-0000-4000-8000-000000000001'::uuid),
+            ('lesson'::text, 'd5d5d5d5-0000-4000-8000-000000000001'::uuid),
+            ('news'::text, 'f5f5f5f5-0000-4000-8000-000000000001'::uuid) $$,
+  'global_search finds exams, lessons and news by title or body'
+);
+
+update public.exams set deleted_at = now() where id = 'a5a5a5a5-0000-4000-8000-000000000001';
+
+select is(
+  (select count(*)::integer from public.global_search('قواعد') where entity = 'exam'),
+  0,
+  'trashed rows are left out of global_search'
+);
+
+select * from finish();
+
+rollback;
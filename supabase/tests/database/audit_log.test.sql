@@ -0,0 +1,108 @@
+-- audit_row_change trigger (supabase/migrations/*_audit_log.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+create schema tests;
+grant usage on schema tests to authenticated;
+
+create function tests.act_as(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  perform set_config('role', 'authenticated', true);
+end;
+$$;
+
+insert into auth.users (id, email)
+values
+  ('a0a0a0a0-0000-4000-8000-000000000001', 'audit-admin@test.local'),
+  ('a0a0a0a0-0000-4000-8000-000000000002', 'audit-teacher@test.local'),
+  ('a0a0a0a0-0000-4000-8000-000000000003', 'audit-student@test.local');
+
+update public.profiles set role = 'admin' where id = 'a0a0a0a0-0000-4000-8000-000000000001';
+update public.profiles set role = 'teacher' where id = 'a0a0a0a0-0000-4000-8000-000000000002';
+update public.profiles set role = 'student' where id = 'a0a0a0a0-0000-4000-8000-000000000003';
+
+insert into public.subjects (id, name, branch)
+values ('b0b0b0b0-0000-4000-8000-000000000001', 'مادة التدقيق', 'general');
+
+insert into public.teacher_subjects (teacher_id, subject_id)
+values ('a0a0a0a0-0000-4000-8000-000000000002', 'b0b0b0b0-0000-4000-8000-000000000001');
+
+select is(
+  (select count(*)::int from public.audit_log),
+  0,
+  'changes made without a signed-in admin or teacher are not logged'
+);
+
+-- ---------------------------------------------------------------------------
+-- Teacher edits a question
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('a0a0a0a0-0000-4000-8000-000000000002');
+
+insert into public.questions (id, question_type, question_text, subject_id)
+values ('c0c0c0c0-0000-4000-8000-000000000001', 'short_answer', 'نص أول', 'b0b0b0b0-0000-4000-8000-000000000001');
+update public.questions set question_text = 'نص معدل' where id = 'c0c0c0c0-0000-4000-8000-000000000001';
+update public.questions set updated_at = now() where id = 'c0c0c0c0-0000-4000-8000-000000000001';
+select public.trash_item('question', 'c0c0c0c0-0000-4000-8000-000000000001');
+
+select is(
+  (select array_agg(action order by id) from public.audit_log where entity_type = 'question'),
+  array['create', 'update', 'trash'],
+  'create, update and soft delete are logged; a touch of updated_at alone is not'
+);
+select is(
+  (select after from public.audit_log where entity_type = 'question' and action = 'update'),
+  '{"question_text": "نص معدل"}'::jsonb,
+  'an update keeps only the changed columns'
+);
+select is(
+  (select before -> 'question_text' from public.audit_log where entity_type = 'question' and action = 'update'),
+  to_jsonb('نص أول'::text),
+  'before holds the old value'
+);
+select is(
+  (select distinct actor_role from public.audit_log where entity_type = 'question'),
+  'teacher',
+  'the actor role is recorded'
+);
+select is(
+  (select count(*)::int from public.audit_log where entity_type = 'question'),
+  3,
+  'teachers can read the history of their own subjects'
+);
+
+select throws_ok(
+  $$ insert into public.audit_log (action, entity_type, entity_id) values ('create', 'question', 'x') $$,
+  '42501', null,
+  'clients cannot write to the audit log'
+);
+
+-- ---------------------------------------------------------------------------
+-- Students are not logged
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('a0a0a0a0-0000-4000-8000-000000000003');
+
+insert into public.user_exam_attempts (user_id, exam_type)
+values ('a0a0a0a0-0000-4000-8000-000000000003', 'practice');
+
+reset role;
+
+select is(
+  (select count(*)::int from public.audit_log where actor_id = 'a0a0a0a0-0000-4000-8000-000000000003'),
+  0,
+  'student activity is not logged'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,124 @@
+-- Course package import (supabase/migrations/*_course_packages.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: what the target project already has
+-- ---------------------------------------------------------------------------
+
+insert into public.tags (id, name) values ('b9b9b9b9-0000-4000-8000-000000000001', 'الحركة');
+
+insert into public.questions (id, question_type, question_text, external_id)
+values ('b9b9b9b9-0000-4000-8000-000000000002', 'short_answer', 'سؤال موجود', 'PKG-Q-1');
+
+-- The package, under the ids of the project it came from (none of them exist here).
+create temp table package as
+select jsonb_build_object(
+  'format', 'course-package',
+  'format_version', 1,
+  'subject', jsonb_build_object(
+    'id', 'a7a7a7a7-0000-4000-8000-000000000001', 'name', 'فيزياء الحزمة', 'branch', 'scientific',
+    'external_id', 'PKG-SUBJ'
+  ),
+  'sections', jsonb_build_array(jsonb_build_object(
+    'id', 'a7a7a7a7-0000-4000-8000-000000000002', 'title', 'الميكانيك', 'type', 'theory', 'order', 1
+  )),
+  'lessons', jsonb_build_array(jsonb_build_object(
+    'id', 'a7a7a7a7-0000-4000-8000-000000000003', 'section_id', 'a7a7a7a7-0000-4000-8000-000000000002',
+    'title', 'السرعة', 'order', 1,
+    'linked_exam_ids', jsonb_build_array('a7a7a7a7-0000-4000-8000-000000000006', 'a7a7a7a7-0000-4000-8000-0000000000ff')
+  )),
+  'tags', jsonb_build_array(
+    jsonb_build_object('id', 'a7a7a7a7-0000-4000-8000-000000000010', 'name', 'الحركة'),
+    jsonb_build_object('id', 'a7a7a7a7-0000-4000-8000-000000000011', 'name', 'السرعة المتوسطة')
+  ),
+  'questions', jsonb_build_array(
+    jsonb_build_object(
+      'id', 'a7a7a7a7-0000-4000-8000-000000000004', 'question_type', 'short_answer', 'question_text', 'عرّف السرعة',
+      'lesson_id', 'a7a7a7a7-0000-4000-8000-000000000003', 'external_id', 'PKG-Q-1',
+      'tag_ids', jsonb_build_array('a7a7a7a7-0000-4000-8000-000000000010', 'a7a7a7a7-0000-4000-8000-000000000011')
+    ),
+    jsonb_build_object(
+      'id', 'a7a7a7a7-0000-4000-8000-000000000005', 'question_type', 'short_answer', 'question_text', 'ما وحدة السرعة؟',
+      'lesson_id', 'a7a7a7a7-0000-4000-8000-000000000003', 'external_id', 'PKG-Q-2'
+    )
+  ),
+  'exams', jsonb_build_array(jsonb_build_object(
+    'id', 'a7a7a7a7-0000-4000-8000-000000000006', 'title', 'اختبار السرعة', 'published', true
+  )),
+  'exam_questions', jsonb_build_array(
+    jsonb_build_object('exam_id', 'a7a7a7a7-0000-4000-8000-000000000006', 'question_id', 'a7a7a7a7-0000-4000-8000-000000000005', 'order_number', 1, 'points', 3),
+    jsonb_build_object('exam_id', 'a7a7a7a7-0000-4000-8000-000000000006', 'question_id', 'a7a7a7a7-0000-4000-8000-000000000004', 'order_number', 2, 'points', 5),
+    jsonb_build_object('exam_id', 'a7a7a7a7-0000-4000-8000-000000000006', 'question_id', 'a7a7a7a7-0000-4000-8000-0000000000ee', 'order_number', 3)
+  )
+) as p;
+
+select is(
+  (select jsonb_agg(c->>'kind' order by c->>'kind') from jsonb_array_elements(public.course_package_conflicts(p)) c),
+  '["external_id", "missing_exam", "missing_question", "tag_exists"]'::jsonb,
+  'the conflicts of a package are listed before importing it'
+) from package;
+
+create temp table imported as select public.import_course_package(p) as r from package;
+
+select is(
+  (select r->'counts' from imported),
+  '{"tags": 1, "sections": 1, "lessons": 1, "question_groups": 0, "questions": 2, "exams": 1, "exam_questions": 2}'::jsonb,
+  'the whole course is created, with only the missing tag added'
+);
+
+select isnt(
+  (select (r->>'subject_id')::uuid from imported),
+  'a7a7a7a7-0000-4000-8000-000000000001'::uuid,
+  'the subject gets a new id'
+);
+
+select is(
+  (select count(*)::int
+   from public.lessons l
+   join public.subject_sections s on s.id = l.section_id
+   where l.subject_id = (select (r->>'subject_id')::uuid from imported)
+     and s.subject_id = l.subject_id
+     and l.linked_exam_ids = array(select id from public.exams where subject_id = l.subject_id)),
+  1,
+  'lessons point at the imported section and exam, and links outside the package are dropped'
+);
+
+select is(
+  (select array_agg(q.question_text || ':' || eq.points order by eq.order_number)
+   from public.exam_questions eq
+   join public.exams e on e.id = eq.exam_id
+   join public.questions q on q.id = eq.question_id
+   where e.subject_id = (select (r->>'subject_id')::uuid from imported)),
+  array['ما وحدة السرعة؟:3', 'عرّف السرعة:5'],
+  'exam links keep their order and points'
+);
+
+select is(
+  (select tag_ids @> array['b9b9b9b9-0000-4000-8000-000000000001'::uuid] and cardinality(tag_ids) = 2
+   from public.questions where question_text = 'عرّف السرعة'),
+  true,
+  'an existing tag with the same name is reused'
+);
+
+select is(
+  (select array_agg(coalesce(external_id, '-') order by question_text)
+   from public.questions where subject_id = (select (r->>'subject_id')::uuid from imported)),
+  array['-', 'PKG-Q-2'],
+  'a taken external id is left out instead of failing the import'
+);
+
+select throws_ok(
+  $$ select public.import_course_package(jsonb_set(p, '{format_version}', '2')) from package $$,
+  '22023', null,
+  'a package of an unknown version is refused'
+);
+
+select * from finish();
+
+rollback;
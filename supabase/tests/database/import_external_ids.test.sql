@@ -0,0 +1,85 @@
+-- External ids for repeatable imports (supabase/migrations/*_import_external_ids.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into public.subjects (id, name, branch, external_id)
+values ('b8b8b8b8-0000-4000-8000-000000000001', 'مادة المزامنة', 'scientific', 'SUBJ-1');
+
+insert into public.questions (id, question_type, question_text, subject_id, external_id)
+values
+  ('e8e8e8e8-0000-4000-8000-000000000001', 'short_answer', 'سؤال من الملف', 'b8b8b8b8-0000-4000-8000-000000000001', 'Q-1'),
+  ('e8e8e8e8-0000-4000-8000-000000000002', 'short_answer', 'سؤال بلا معرف', 'b8b8b8b8-0000-4000-8000-000000000001', null),
+  ('e8e8e8e8-0000-4000-8000-000000000003', 'short_answer', 'سؤال آخر بلا معرف', 'b8b8b8b8-0000-4000-8000-000000000001', null);
+
+select is(
+  (select count(*)::int from public.questions where subject_id = 'b8b8b8b8-0000-4000-8000-000000000001' and external_id is null),
+  2,
+  'any number of rows can go without an external id'
+);
+
+select throws_ok(
+  $$ insert into public.questions (question_type, question_text, subject_id, external_id)
+     values ('short_answer', 'نسخة ثانية', 'b8b8b8b8-0000-4000-8000-000000000001', 'Q-1') $$,
+  '23505', null,
+  'an external id names one question'
+);
+
+-- Trashed rows keep their id, so an import cannot bring back a second copy of them.
+update public.questions set deleted_at = now() where id = 'e8e8e8e8-0000-4000-8000-000000000001';
+
+select throws_ok(
+  $$ insert into public.questions (question_type, question_text, subject_id, external_id)
+     values ('short_answer', 'نسخة ثانية', 'b8b8b8b8-0000-4000-8000-000000000001', 'Q-1') $$,
+  '23505', null,
+  'a trashed question keeps its external id'
+);
+
+select throws_ok(
+  $$ insert into public.subjects (name, branch, external_id) values ('مادة بمعرف فارغ', 'scientific', '  ') $$,
+  '23514', null,
+  'a blank external id is rejected'
+);
+
+-- New exams of an import are created together, with their links.
+select is(
+  cardinality(public.save_exams(jsonb_build_array(
+    jsonb_build_object(
+      'exam', jsonb_build_object('title', 'اختبار المزامنة', 'external_id', 'EXAM-1'),
+      'questions', jsonb_build_array(jsonb_build_object('question_id', 'e8e8e8e8-0000-4000-8000-000000000002'))
+    ),
+    jsonb_build_object('exam', jsonb_build_object('title', 'اختبار بلا أسئلة', 'external_id', 'EXAM-2'))
+  ))),
+  2,
+  'save_exams returns one id per exam'
+);
+
+select is(
+  (select count(*)::int from public.exams e join public.exam_questions eq on eq.exam_id = e.id
+   where e.external_id = 'EXAM-1' and eq.question_id = 'e8e8e8e8-0000-4000-8000-000000000002'),
+  1,
+  'a new exam keeps its external id and gets its links'
+);
+
+select throws_ok(
+  $$ select public.save_exams(jsonb_build_array(
+       jsonb_build_object('exam', jsonb_build_object('title', 'اختبار جديد', 'external_id', 'EXAM-3')),
+       jsonb_build_object('exam', jsonb_build_object('title', ''))
+     )) $$,
+  '23502', null,
+  'an exam that cannot be saved fails the batch'
+);
+
+select is(
+  (select count(*)::int from public.exams where external_id = 'EXAM-3'),
+  0,
+  'and none of its exams are created'
+);
+
+select * from finish();
+
+rollback;
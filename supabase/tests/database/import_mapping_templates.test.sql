@@ -0,0 +1,80 @@
+-- Import mapping templates (supabase/migrations/*_import_mapping_templates.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+create schema tests;
+grant usage on schema tests to authenticated;
+
+create function tests.act_as(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  perform set_config('role', 'authenticated', true);
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: two teachers and a student
+-- ---------------------------------------------------------------------------
+
+insert into auth.users (id, email)
+values
+  ('a6a6a6a6-0000-4000-8000-000000000001', 'templates-teacher-a@test.local'),
+  ('a6a6a6a6-0000-4000-8000-000000000002', 'templates-teacher-b@test.local'),
+  ('a6a6a6a6-0000-4000-8000-000000000003', 'templates-student@test.local');
+
+update public.profiles set role = 'teacher' where id in ('a6a6a6a6-0000-4000-8000-000000000001', 'a6a6a6a6-0000-4000-8000-000000000002');
+update public.profiles set role = 'student' where id = 'a6a6a6a6-0000-4000-8000-000000000003';
+
+-- ---------------------------------------------------------------------------
+-- Sharing and ownership
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('a6a6a6a6-0000-4000-8000-000000000001');
+
+select lives_ok(
+  $$ insert into public.import_mapping_templates (id, name, mapping)
+     values ('f6f6f6f6-0000-4000-8000-000000000001', 'قالب الأستاذ أ', '{"نص السؤال": "questiontext"}') $$,
+  'a teacher can save a template'
+);
+
+select tests.act_as('a6a6a6a6-0000-4000-8000-000000000002');
+
+select is(
+  (select count(*)::int from public.import_mapping_templates where id = 'f6f6f6f6-0000-4000-8000-000000000001'),
+  1,
+  'other teachers can use the template'
+);
+
+update public.import_mapping_templates set mapping = '{}' where id = 'f6f6f6f6-0000-4000-8000-000000000001';
+
+select is(
+  (select mapping ->> 'نص السؤال' from public.import_mapping_templates where id = 'f6f6f6f6-0000-4000-8000-000000000001'),
+  'questiontext',
+  'only the author can change the template'
+);
+
+select throws_ok(
+  $$ insert into public.import_mapping_templates (name, mapping) values ('قالب الأستاذ أ', '{}') $$,
+  '23505', null,
+  'template names are unique'
+);
+
+select tests.act_as('a6a6a6a6-0000-4000-8000-000000000003');
+
+select is(
+  (select count(*)::int from public.import_mapping_templates),
+  0,
+  'students do not see templates'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,55 @@
+-- Option media cleanup (supabase/migrations/*_option_media_cleanup.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.questions (id, question_type, question_text, options, correct_option_id)
+values
+  (
+    'f7f7f7f7-0000-4000-8000-000000000001', 'mcq', 'أي صورة لقطة؟',
+    '[{"id": "a", "text": "", "imageUrl": "https://files.test/cat.png"}, {"id": "b", "text": "كلب", "audioUrl": "https://files.test/dog.mp3"}]',
+    'a'
+  ),
+  (
+    'f7f7f7f7-0000-4000-8000-000000000002', 'mcq', 'أي صوت لكلب؟',
+    '[{"id": "a", "text": "", "audioUrl": "https://files.test/dog.mp3"}, {"id": "b", "text": "قطة"}]',
+    'a'
+  );
+
+select results_eq(
+  $$ select public.option_media_urls(options) from public.questions where id = 'f7f7f7f7-0000-4000-8000-000000000001' $$,
+  $$ values ('https://files.test/cat.png'), ('https://files.test/dog.mp3') $$,
+  'option_media_urls lists the image and audio URLs of the options'
+);
+
+-- Swapping the cat picture leaves the old one in revision 1.
+update public.questions
+set options = '[{"id": "a", "text": "", "imageUrl": "https://files.test/cat-2.png"}, {"id": "b", "text": "كلب", "audioUrl": "https://files.test/dog.mp3"}]'
+where id = 'f7f7f7f7-0000-4000-8000-000000000001';
+
+select is(
+  public.unreferenced_media_urls(array['https://files.test/cat.png', 'https://files.test/cat-2.png', 'https://files.test/unused.png']),
+  array['https://files.test/unused.png'],
+  'files used by a question or one of its revisions are not reported'
+);
+
+update public.questions set deleted_at = now() where id = 'f7f7f7f7-0000-4000-8000-000000000001';
+
+select set_eq(
+  $$ select unnest(public.purge_item('question', 'f7f7f7f7-0000-4000-8000-000000000001')) $$,
+  $$ values ('https://files.test/cat.png'), ('https://files.test/cat-2.png') $$,
+  'purging a question returns the option media of all its revisions, but not the audio another question uses'
+);
+
+select is_empty(
+  $$ select 1 from public.question_revisions where question_id = 'f7f7f7f7-0000-4000-8000-000000000001' $$,
+  'the revisions are purged with the question'
+);
+
+select * from finish();
+
+rollback;
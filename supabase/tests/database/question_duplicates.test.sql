@@ -0,0 +1,127 @@
+-- Near-duplicate questions (supabase/migrations/*_question_duplicates.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: the same question written three ways, an unrelated one, and one in another subject
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, branch)
+values
+  ('b4b4b4b4-0000-4000-8000-000000000001', 'مادة التكرار', 'scientific'),
+  ('b4b4b4b4-0000-4000-8000-000000000002', 'مادة أخرى', 'scientific');
+
+insert into public.subject_sections (id, subject_id, title, type)
+values ('c4c4c4c4-0000-4000-8000-000000000001', 'b4b4b4b4-0000-4000-8000-000000000001', 'قسم', 'theory');
+
+insert into public.lessons (id, subject_id, section_id, title)
+values ('d4d4d4d4-0000-4000-8000-000000000001', 'b4b4b4b4-0000-4000-8000-000000000001', 'c4c4c4c4-0000-4000-8000-000000000001', 'الدرس');
+
+insert into public.tags (id, name)
+values
+  ('f4f4f4f4-0000-4000-8000-000000000001', 'وسم التكرار الأول'),
+  ('f4f4f4f4-0000-4000-8000-000000000002', 'وسم التكرار الثاني');
+
+insert into public.questions (id, question_type, question_text, subject_id, lesson_id, tag_ids)
+values
+  ('e4e4e4e4-0000-4000-8000-000000000001', 'short_answer', 'ما هي عاصمة المملكة العربية السعودية؟',
+   'b4b4b4b4-0000-4000-8000-000000000001', null, array['f4f4f4f4-0000-4000-8000-000000000001']::uuid[]),
+  ('e4e4e4e4-0000-4000-8000-000000000002', 'short_answer', 'ما هِيَ عاصمةُ المملكه العربيه السعودية',
+   'b4b4b4b4-0000-4000-8000-000000000001', 'd4d4d4d4-0000-4000-8000-000000000001', array['f4f4f4f4-0000-4000-8000-000000000002']::uuid[]),
+  ('e4e4e4e4-0000-4000-8000-000000000003', 'short_answer', 'ما هى عاصمة المملكة العربية السعودية ؟',
+   'b4b4b4b4-0000-4000-8000-000000000001', null, '{}'),
+  ('e4e4e4e4-0000-4000-8000-000000000004', 'short_answer', 'احسب مساحة الدائرة التي نصف قطرها ٣ سم',
+   'b4b4b4b4-0000-4000-8000-000000000001', null, '{}'),
+  ('e4e4e4e4-0000-4000-8000-000000000005', 'short_answer', 'ما هي عاصمة المملكة العربية السعودية؟',
+   'b4b4b4b4-0000-4000-8000-000000000002', null, '{}');
+
+-- Exam 1 uses two of the duplicates, exam 2 uses one of them next to the survivor.
+insert into public.exams (id, title, subject_id)
+values
+  ('a4a4a4a4-0000-4000-8000-000000000001', 'امتحان التكرار 1', 'b4b4b4b4-0000-4000-8000-000000000001'),
+  ('a4a4a4a4-0000-4000-8000-000000000002', 'امتحان التكرار 2', 'b4b4b4b4-0000-4000-8000-000000000001');
+
+insert into public.exam_questions (exam_id, question_id, order_number)
+values
+  ('a4a4a4a4-0000-4000-8000-000000000001', 'e4e4e4e4-0000-4000-8000-000000000003', 1),
+  ('a4a4a4a4-0000-4000-8000-000000000001', 'e4e4e4e4-0000-4000-8000-000000000002', 2),
+  ('a4a4a4a4-0000-4000-8000-000000000002', 'e4e4e4e4-0000-4000-8000-000000000001', 1),
+  ('a4a4a4a4-0000-4000-8000-000000000002', 'e4e4e4e4-0000-4000-8000-000000000002', 2);
+
+-- ---------------------------------------------------------------------------
+-- Normalization and detection
+-- ---------------------------------------------------------------------------
+
+select is(
+  public.normalize_arabic('ما هِيَ عاصمةُ المملكة؟ إجابة: أ'),
+  'ما هي عاصمه المملكه اجابه ا',
+  'normalize_arabic drops tashkeel and punctuation and folds letter forms'
+);
+
+select results_eq(
+  $$ select question_id from public.find_similar_questions(
+       array['ما هي عاصمه المملكة العربيّة السعودية'],
+       array['b4b4b4b4-0000-4000-8000-000000000001']::uuid[]
+     ) order by question_id $$,
+  $$ values ('e4e4e4e4-0000-4000-8000-000000000001'::uuid),
+            ('e4e4e4e4-0000-4000-8000-000000000002'::uuid),
+            ('e4e4e4e4-0000-4000-8000-000000000003'::uuid) $$,
+  'find_similar_questions matches spelling variants within the given subject only'
+);
+
+select is(
+  (select count(*)::integer from public.find_duplicate_question_pairs('b4b4b4b4-0000-4000-8000-000000000001')),
+  3,
+  'find_duplicate_question_pairs pairs up the three variants and leaves the unrelated question out'
+);
+
+-- ---------------------------------------------------------------------------
+-- Merging
+-- ---------------------------------------------------------------------------
+
+select throws_ok(
+  $$ select public.merge_questions('e4e4e4e4-0000-4000-8000-000000000001',
+       array['e4e4e4e4-0000-4000-8000-000000000005']::uuid[]) $$,
+  '23514', null,
+  'questions of different subjects cannot be merged'
+);
+
+select is(
+  public.merge_questions('e4e4e4e4-0000-4000-8000-000000000001',
+    array['e4e4e4e4-0000-4000-8000-000000000002', 'e4e4e4e4-0000-4000-8000-000000000003']::uuid[]),
+  1,
+  'only the exam without the survivor gets a link moved'
+);
+
+select results_eq(
+  $$ select exam_id, question_id, order_number from public.exam_questions
+     where exam_id in ('a4a4a4a4-0000-4000-8000-000000000001', 'a4a4a4a4-0000-4000-8000-000000000002')
+     order by exam_id $$,
+  $$ values ('a4a4a4a4-0000-4000-8000-000000000001'::uuid, 'e4e4e4e4-0000-4000-8000-000000000001'::uuid, 1),
+            ('a4a4a4a4-0000-4000-8000-000000000002'::uuid, 'e4e4e4e4-0000-4000-8000-000000000001'::uuid, 1) $$,
+  'each exam ends up with the survivor once, at the earliest position'
+);
+
+select results_eq(
+  $$ select lesson_id, tag_ids from public.questions where id = 'e4e4e4e4-0000-4000-8000-000000000001' $$,
+  $$ values ('d4d4d4d4-0000-4000-8000-000000000001'::uuid,
+             array['f4f4f4f4-0000-4000-8000-000000000001', 'f4f4f4f4-0000-4000-8000-000000000002']::uuid[]) $$,
+  'the survivor takes over the lesson and the tags of the duplicates'
+);
+
+select is(
+  (select count(*)::integer from public.questions
+   where id in ('e4e4e4e4-0000-4000-8000-000000000002', 'e4e4e4e4-0000-4000-8000-000000000003')
+     and deleted_at is not null),
+  2,
+  'the duplicates are moved to the trash'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,81 @@
+-- Question feedback (supabase/migrations/*_question_feedback.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into public.questions (id, question_type, question_text, options, correct_option_id, feedback)
+values (
+  'c7c7c7c7-0000-4000-8000-000000000001', 'mcq', 'ما عاصمة سوريا؟',
+  '[{"id": "a", "text": "دمشق", "feedback": "صحيح"}, {"id": "b", "text": "حلب", "feedback": "حلب مدينة في الشمال"}]', 'a',
+  'دمشق هي العاصمة.'
+);
+
+select is(
+  (select feedback from public.questions where id = 'c7c7c7c7-0000-4000-8000-000000000001'),
+  'دمشق هي العاصمة.',
+  'a question keeps its general feedback'
+);
+
+update public.questions set feedback = 'دمشق أقدم عاصمة مأهولة.' where id = 'c7c7c7c7-0000-4000-8000-000000000001';
+
+select is(
+  (select revision from public.questions where id = 'c7c7c7c7-0000-4000-8000-000000000001'),
+  1,
+  'changing the general feedback does not bump the revision'
+);
+
+update public.questions
+set options = '[{"id": "a", "text": "دمشق", "feedback": "أحسنت"}, {"id": "b", "text": "حلب", "feedback": "حلب مدينة في الشمال"}]'
+where id = 'c7c7c7c7-0000-4000-8000-000000000001';
+
+select is(
+  (select revision from public.questions where id = 'c7c7c7c7-0000-4000-8000-000000000001'),
+  1,
+  'nor does changing the feedback of a choice'
+);
+
+update public.questions
+set options = '[{"id": "a", "text": "دمشق", "feedback": "أحسنت"}, {"id": "b", "text": "حمص", "feedback": "حلب مدينة في الشمال"}]'
+where id = 'c7c7c7c7-0000-4000-8000-000000000001';
+
+select is(
+  (select revision from public.questions where id = 'c7c7c7c7-0000-4000-8000-000000000001'),
+  2,
+  'changing the text of a choice does'
+);
+
+create temp table imported as
+select public.import_course_package(jsonb_build_object(
+  'format', 'course-package',
+  'format_version', 1,
+  'subject', jsonb_build_object('id', 'c7c7c7c7-0000-4000-8000-000000000002', 'name', 'جغرافيا التغذية الراجعة', 'branch', 'general'),
+  'questions', jsonb_build_array(jsonb_build_object(
+    'id', 'c7c7c7c7-0000-4000-8000-000000000003', 'question_type', 'true_false', 'question_text', 'دمشق عاصمة سوريا',
+    'options', jsonb_build_array(
+      jsonb_build_object('id', 'true', 'text', 'صح', 'feedback', 'نعم'),
+      jsonb_build_object('id', 'false', 'text', 'خطأ', 'feedback', 'بل هي العاصمة')
+    ),
+    'correct_option_id', 'true',
+    'feedback', 'منذ القدم'
+  ))
+)) as r;
+
+select is(
+  (select feedback from public.questions where subject_id = (select (r->>'subject_id')::uuid from imported)),
+  'منذ القدم',
+  'a course package brings the general feedback along'
+);
+
+select is(
+  (select options -> 1 ->> 'feedback' from public.questions where subject_id = (select (r->>'subject_id')::uuid from imported)),
+  'بل هي العاصمة',
+  'and the feedback of each choice'
+);
+
+select * from finish();
+
+rollback;
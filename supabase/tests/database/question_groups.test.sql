@@ -0,0 +1,118 @@
+-- Question groups (supabase/migrations/*_question_groups.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: a subject with two lessons, three questions and a group holding two of them
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, branch)
+values
+  ('b3b3b3b3-0000-4000-8000-000000000001', 'مادة المجموعات', 'scientific'),
+  ('b3b3b3b3-0000-4000-8000-000000000002', 'مادة أخرى', 'scientific');
+
+insert into public.subject_sections (id, subject_id, title, type)
+values ('c3c3c3c3-0000-4000-8000-000000000001', 'b3b3b3b3-0000-4000-8000-000000000001', 'قسم', 'theory');
+
+insert into public.lessons (id, subject_id, section_id, title)
+values
+  ('d3d3d3d3-0000-4000-8000-000000000001', 'b3b3b3b3-0000-4000-8000-000000000001', 'c3c3c3c3-0000-4000-8000-000000000001', 'الدرس الأول'),
+  ('d3d3d3d3-0000-4000-8000-000000000002', 'b3b3b3b3-0000-4000-8000-000000000001', 'c3c3c3c3-0000-4000-8000-000000000001', 'الدرس الثاني');
+
+insert into public.questions (id, question_type, question_text, subject_id)
+values
+  ('e3e3e3e3-0000-4000-8000-000000000001', 'short_answer', 'سؤال مستقل', 'b3b3b3b3-0000-4000-8000-000000000001'),
+  ('e3e3e3e3-0000-4000-8000-000000000002', 'short_answer', 'السؤال الأول عن النص', 'b3b3b3b3-0000-4000-8000-000000000001'),
+  ('e3e3e3e3-0000-4000-8000-000000000003', 'short_answer', 'السؤال الثاني عن النص', 'b3b3b3b3-0000-4000-8000-000000000001'),
+  ('e3e3e3e3-0000-4000-8000-000000000004', 'short_answer', 'سؤال من مادة أخرى', 'b3b3b3b3-0000-4000-8000-000000000002');
+
+insert into public.question_groups (id, title, stimulus_text, subject_id, lesson_id)
+values ('a3a3a3a3-0000-4000-8000-000000000001', 'نص القراءة', 'نص طويل...', 'b3b3b3b3-0000-4000-8000-000000000001', 'd3d3d3d3-0000-4000-8000-000000000001');
+
+-- ---------------------------------------------------------------------------
+-- Membership
+-- ---------------------------------------------------------------------------
+
+select public.set_question_group_members(
+  'a3a3a3a3-0000-4000-8000-000000000001',
+  array['e3e3e3e3-0000-4000-8000-000000000003', 'e3e3e3e3-0000-4000-8000-000000000002']::uuid[]
+);
+
+select results_eq(
+  $$ select id, group_order, lesson_id from public.questions
+     where group_id = 'a3a3a3a3-0000-4000-8000-000000000001' order by group_order $$,
+  $$ values ('e3e3e3e3-0000-4000-8000-000000000003'::uuid, 1, 'd3d3d3d3-0000-4000-8000-000000000001'::uuid),
+            ('e3e3e3e3-0000-4000-8000-000000000002'::uuid, 2, 'd3d3d3d3-0000-4000-8000-000000000001'::uuid) $$,
+  'members are stored in the given order and join the group''s lesson'
+);
+
+select throws_ok(
+  $$ select public.set_question_group_members('a3a3a3a3-0000-4000-8000-000000000001',
+       array['e3e3e3e3-0000-4000-8000-000000000004']::uuid[]) $$,
+  '23514', null,
+  'a question of another subject cannot join the group'
+);
+
+update public.question_groups set lesson_id = 'd3d3d3d3-0000-4000-8000-000000000002'
+where id = 'a3a3a3a3-0000-4000-8000-000000000001';
+
+select is(
+  (select count(*)::integer from public.questions
+   where group_id = 'a3a3a3a3-0000-4000-8000-000000000001' and lesson_id = 'd3d3d3d3-0000-4000-8000-000000000002'),
+  2,
+  'moving the group to another lesson moves all its members'
+);
+
+-- ---------------------------------------------------------------------------
+-- Exams keep members together
+-- ---------------------------------------------------------------------------
+
+select lives_ok(
+  $$ select public.save_exam(
+       '{"title": "امتحان المجموعات", "subject_id": "b3b3b3b3-0000-4000-8000-000000000001"}',
+       null,
+       '[{"question_id": "e3e3e3e3-0000-4000-8000-000000000002"},
+         {"question_id": "e3e3e3e3-0000-4000-8000-000000000001"},
+         {"question_id": "e3e3e3e3-0000-4000-8000-000000000003"}]'
+     ) $$,
+  'save_exam accepts group members split by another question'
+);
+
+select results_eq(
+  $$ select eq.question_id from public.exam_questions eq
+     join public.exams e on e.id = eq.exam_id
+     where e.title = 'امتحان المجموعات' order by eq.order_number $$,
+  $$ values ('e3e3e3e3-0000-4000-8000-000000000003'::uuid),
+            ('e3e3e3e3-0000-4000-8000-000000000002'::uuid),
+            ('e3e3e3e3-0000-4000-8000-000000000001'::uuid) $$,
+  'the group is placed where its first member was, in group order'
+);
+
+-- ---------------------------------------------------------------------------
+-- Deleting a group keeps its questions
+-- ---------------------------------------------------------------------------
+
+delete from public.question_groups where id = 'a3a3a3a3-0000-4000-8000-000000000001';
+
+select is(
+  (select count(*)::integer from public.questions
+   where id in ('e3e3e3e3-0000-4000-8000-000000000002', 'e3e3e3e3-0000-4000-8000-000000000003')
+     and group_id is null and group_order is null),
+  2,
+  'members become standalone questions when the group is deleted'
+);
+
+select throws_ok(
+  $$ insert into public.question_groups (title, subject_id) values ('بلا مقطع', 'b3b3b3b3-0000-4000-8000-000000000001') $$,
+  '23514', null,
+  'a group needs stimulus text or an image'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,89 @@
+-- Question revisions (supabase/migrations/*_question_revisions.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into auth.users (id, email)
+values ('a1a1a1a1-0000-4000-8000-000000000001', 'revisions-student@test.local');
+
+insert into public.subjects (id, name, branch)
+values ('b1b1b1b1-0000-4000-8000-000000000001', 'مادة النسخ', 'general');
+
+insert into public.questions (id, question_type, question_text, subject_id, options, correct_option_id)
+values (
+  'c1c1c1c1-0000-4000-8000-000000000001', 'mcq', 'كم يساوي ٢ + ٢؟', 'b1b1b1b1-0000-4000-8000-000000000001',
+  '[{"id": "a", "text": "٣"}, {"id": "b", "text": "٤"}]', 'a'
+);
+
+select is(
+  (select revision from public.questions where id = 'c1c1c1c1-0000-4000-8000-000000000001'),
+  1,
+  'a new question starts at revision 1'
+);
+
+-- Student answers against the wrong key, then the key is fixed.
+insert into public.user_exam_attempts (id, user_id, exam_type, answers)
+values (
+  'd1d1d1d1-0000-4000-8000-000000000001', 'a1a1a1a1-0000-4000-8000-000000000001', 'practice',
+  '[{"questionId": "c1c1c1c1-0000-4000-8000-000000000001", "studentAnswer": "a", "isCorrect": true}]'
+);
+
+update public.questions set correct_option_id = 'b' where id = 'c1c1c1c1-0000-4000-8000-000000000001';
+update public.questions set is_locked = true where id = 'c1c1c1c1-0000-4000-8000-000000000001';
+
+select is(
+  (select revision from public.questions where id = 'c1c1c1c1-0000-4000-8000-000000000001'),
+  2,
+  'changing the answer key bumps the revision; other columns do not'
+);
+select is(
+  (select array_agg(correct_option_id order by revision) from public.question_revisions
+   where question_id = 'c1c1c1c1-0000-4000-8000-000000000001'),
+  array['a', 'b'],
+  'every revision is kept'
+);
+select is(
+  (select answers -> 0 ->> 'questionRevision' from public.user_exam_attempts
+   where id = 'd1d1d1d1-0000-4000-8000-000000000001'),
+  '1',
+  'attempt answers record the revision that was answered'
+);
+
+-- A client claiming to have answered the old revision gets the current one.
+insert into public.user_exam_attempts (id, user_id, exam_type, answers)
+values (
+  'd1d1d1d1-0000-4000-8000-000000000002', 'a1a1a1a1-0000-4000-8000-000000000001', 'practice',
+  '[{"questionId": "c1c1c1c1-0000-4000-8000-000000000001", "studentAnswer": "a", "isCorrect": true, "questionRevision": 1}]'
+);
+
+select is(
+  (select answers -> 0 ->> 'questionRevision' from public.user_exam_attempts
+   where id = 'd1d1d1d1-0000-4000-8000-000000000002'),
+  '2',
+  'the revision sent by the client is overwritten'
+);
+
+select is(
+  public.restore_question_revision('c1c1c1c1-0000-4000-8000-000000000001', 1),
+  3,
+  'restoring an old revision creates a new one'
+);
+select is(
+  (select correct_option_id from public.questions where id = 'c1c1c1c1-0000-4000-8000-000000000001'),
+  'a',
+  'the restored content is back on the question'
+);
+
+select throws_ok(
+  $$ select public.restore_question_revision('c1c1c1c1-0000-4000-8000-000000000001', 99) $$,
+  'P0002', null,
+  'restoring a missing revision fails'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,47 @@
+-- multi_select, matching, ordering and numeric questions (supabase/migrations/*_more_question_types.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+select lives_ok(
+  $$
+    insert into public.questions (question_type, question_text, options, correct_option_ids) values
+      ('multi_select', 'اختر الغازات النبيلة', '[{"id": "a", "text": "He"}, {"id": "b", "text": "O"}, {"id": "c", "text": "Ne"}]', array['a', 'c']);
+    insert into public.questions (question_type, question_text, matching_pairs) values
+      ('matching', 'طابق العنصر برمزه', '[{"id": "p1", "prompt": "صوديوم", "match": "Na"}, {"id": "p2", "prompt": "حديد", "match": "Fe"}]');
+    insert into public.questions (question_type, question_text, options) values
+      ('ordering', 'رتّب الكواكب من الشمس', '[{"id": "1", "text": "عطارد"}, {"id": "2", "text": "الزهرة"}]');
+  $$,
+  'the new question types are accepted'
+);
+
+select throws_ok(
+  $$ insert into public.questions (question_type, question_text, numeric_answer, numeric_tolerance)
+     values ('numeric', 'تسارع الجاذبية؟', 9.81, -1) $$,
+  '23514', null,
+  'a negative tolerance is rejected'
+);
+
+insert into public.questions (id, question_type, question_text, numeric_answer, numeric_unit, numeric_tolerance)
+values ('c2c2c2c2-0000-4000-8000-000000000001', 'numeric', 'تسارع الجاذبية؟', 9.8, 'م/ث²', 0.1);
+update public.questions set numeric_answer = 9.81 where id = 'c2c2c2c2-0000-4000-8000-000000000001';
+
+select is(
+  (select revision from public.questions where id = 'c2c2c2c2-0000-4000-8000-000000000001'),
+  2,
+  'changing the numeric answer creates a revision'
+);
+select is(
+  (select array_agg(numeric_answer order by revision) from public.question_revisions
+   where question_id = 'c2c2c2c2-0000-4000-8000-000000000001'),
+  array[9.8, 9.81]::double precision[],
+  'revisions keep the numeric answer key'
+);
+
+select * from finish();
+
+rollback;
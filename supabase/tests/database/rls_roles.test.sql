@@ -0,0 +1,288 @@
+-- Row Level Security checks for the admin / teacher / student role model.
+-- Run against the local stack with `npm run db:test` (wraps `supabase test db`).
+-- Everything runs in one transaction that is rolled back, so the seed data is left untouched.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(35);
+
+-- ---------------------------------------------------------------------------
+-- Helpers
+-- ---------------------------------------------------------------------------
+
+create schema tests;
+grant usage on schema tests to authenticated;
+
+-- Switches the rest of the transaction to the given user, as PostgREST does for a signed-in request.
+create function tests.act_as(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  perform set_config('role', 'authenticated', true);
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Fixtures (as the migration owner, so RLS does not apply)
+-- ---------------------------------------------------------------------------
+
+insert into auth.users (id, email)
+values
+  ('11111111-0000-4000-8000-000000000001', 'rls-admin@test.local'),
+  ('11111111-0000-4000-8000-000000000002', 'rls-teacher-a@test.local'),
+  ('11111111-0000-4000-8000-000000000003', 'rls-teacher-b@test.local'),
+  ('11111111-0000-4000-8000-000000000004', 'rls-student@test.local');
+
+update public.profiles set role = 'admin' where id = '11111111-0000-4000-8000-000000000001';
+update public.profiles set role = 'teacher' where id in ('11111111-0000-4000-8000-000000000002', '11111111-0000-4000-8000-000000000003');
+update public.profiles set role = 'student' where id = '11111111-0000-4000-8000-000000000004';
+
+insert into public.subjects (id, name, branch)
+values
+  ('22222222-0000-4000-8000-000000000001', 'مادة الأستاذ أ', 'scientific'),
+  ('22222222-0000-4000-8000-000000000002', 'مادة الأستاذ ب', 'literary');
+
+insert into public.teacher_subjects (teacher_id, subject_id)
+values
+  ('11111111-0000-4000-8000-000000000002', '22222222-0000-4000-8000-000000000001'),
+  ('11111111-0000-4000-8000-000000000003', '22222222-0000-4000-8000-000000000002');
+
+insert into public.subject_sections (id, subject_id, title, type)
+values
+  ('33333333-0000-4000-8000-000000000001', '22222222-0000-4000-8000-000000000001', 'قسم أ', 'theory'),
+  ('33333333-0000-4000-8000-000000000002', '22222222-0000-4000-8000-000000000002', 'قسم ب', 'theory');
+
+insert into public.questions (id, question_type, question_text, subject_id)
+values
+  ('44444444-0000-4000-8000-000000000001', 'short_answer', 'سؤال الأستاذ أ', '22222222-0000-4000-8000-000000000001'),
+  ('44444444-0000-4000-8000-000000000002', 'short_answer', 'سؤال الأستاذ ب', '22222222-0000-4000-8000-000000000002');
+
+insert into public.exams (id, title, subject_id)
+values
+  ('55555555-0000-4000-8000-000000000001', 'امتحان الأستاذ أ', '22222222-0000-4000-8000-000000000001'),
+  ('55555555-0000-4000-8000-000000000002', 'امتحان الأستاذ ب', '22222222-0000-4000-8000-000000000002');
+
+insert into public.user_exam_attempts (user_id, exam_id, exam_type)
+values ('11111111-0000-4000-8000-000000000004', '55555555-0000-4000-8000-000000000001', 'exam');
+
+select is(
+  (select subjects_taught_ids from public.profiles where id = '11111111-0000-4000-8000-000000000002'),
+  array['22222222-0000-4000-8000-000000000001']::uuid[],
+  'teacher_subjects rows are mirrored into profiles.subjects_taught_ids'
+);
+
+-- ---------------------------------------------------------------------------
+-- Teacher A: teacherAllowed pages, limited to the subjects they teach
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('11111111-0000-4000-8000-000000000002');
+
+update public.subjects set description = 'وصف محدث' where id = '22222222-0000-4000-8000-000000000001';
+update public.subjects set description = 'تعديل غير مسموح' where id = '22222222-0000-4000-8000-000000000002';
+delete from public.subjects where id = '22222222-0000-4000-8000-000000000001';
+
+select throws_ok(
+  $$ insert into public.subjects (name, branch) values ('مادة جديدة', 'general') $$,
+  '42501', null,
+  'teacher cannot create subjects'
+);
+
+select lives_ok(
+  $$ insert into public.subject_sections (subject_id, title, type) values ('22222222-0000-4000-8000-000000000001', 'قسم جديد', 'practical') $$,
+  'teacher can add a section to a taught subject'
+);
+select throws_ok(
+  $$ insert into public.subject_sections (subject_id, title, type) values ('22222222-0000-4000-8000-000000000002', 'قسم دخيل', 'practical') $$,
+  '42501', null,
+  'teacher cannot add a section to another subject'
+);
+
+select lives_ok(
+  $$ insert into public.lessons (subject_id, section_id, title) values ('22222222-0000-4000-8000-000000000001', '33333333-0000-4000-8000-000000000001', 'درس جديد') $$,
+  'teacher can add a lesson to a taught subject'
+);
+select throws_ok(
+  $$ insert into public.lessons (subject_id, section_id, title) values ('22222222-0000-4000-8000-000000000002', '33333333-0000-4000-8000-000000000002', 'درس دخيل') $$,
+  '42501', null,
+  'teacher cannot add a lesson to another subject'
+);
+select throws_ok(
+  $$ insert into public.lessons (subject_id, section_id, title) values ('22222222-0000-4000-8000-000000000001', '33333333-0000-4000-8000-000000000002', 'درس في قسم غريب') $$,
+  '42501', null,
+  'teacher cannot attach a lesson to another subject''s section'
+);
+
+select lives_ok(
+  $$ insert into public.questions (question_type, question_text, subject_id) values ('short_answer', 'سؤال جديد', '22222222-0000-4000-8000-000000000001') $$,
+  'teacher can add a question to a taught subject'
+);
+select throws_ok(
+  $$ insert into public.questions (question_type, question_text, subject_id) values ('short_answer', 'سؤال دخيل', '22222222-0000-4000-8000-000000000002') $$,
+  '42501', null,
+  'teacher cannot add a question to another subject'
+);
+select throws_ok(
+  $$ update public.questions set subject_id = '22222222-0000-4000-8000-000000000002' where id = '44444444-0000-4000-8000-000000000001' $$,
+  '42501', null,
+  'teacher cannot move a question into another subject'
+);
+update public.questions set question_text = 'تعديل غير مسموح' where id = '44444444-0000-4000-8000-000000000002';
+delete from public.questions where id = '44444444-0000-4000-8000-000000000002';
+
+select lives_ok(
+  $$ select public.save_exam('{"title": "امتحان جديد", "subject_id": "22222222-0000-4000-8000-000000000001"}'::jsonb, null,
+       '[{"question_id": "44444444-0000-4000-8000-000000000001", "points": 2}]'::jsonb) $$,
+  'teacher can create an exam with questions in a taught subject'
+);
+select throws_ok(
+  $$ select public.save_exam('{"title": "امتحان دخيل", "subject_id": "22222222-0000-4000-8000-000000000002"}'::jsonb) $$,
+  '42501', null,
+  'teacher cannot create an exam in another subject'
+);
+select throws_ok(
+  $$ select public.save_exam('{}'::jsonb, '55555555-0000-4000-8000-000000000001',
+       '[{"question_id": "44444444-0000-4000-8000-000000000002"}]'::jsonb) $$,
+  '42501', null,
+  'teacher cannot link another subject''s question to their exam'
+);
+delete from public.exams where id = '55555555-0000-4000-8000-000000000002';
+
+select lives_ok(
+  $$ insert into public.tags (name) values ('تصنيف من الأستاذ') $$,
+  'teacher can manage tags'
+);
+
+-- adminOnly pages
+select throws_ok(
+  $$ insert into public.news_items (title, content) values ('خبر', 'محتوى') $$,
+  '42501', null,
+  'teacher cannot publish news'
+);
+select throws_ok(
+  $$ insert into public.announcements (title, message, type) values ('إعلان', 'نص', 'info') $$,
+  '42501', null,
+  'teacher cannot create announcements'
+);
+select throws_ok(
+  $$ insert into public.activation_codes (name, encoded_value, type, valid_from, valid_until) values ('كود', 'RLS-TEST-1', 'general_yearly', now(), now()) $$,
+  '42501', null,
+  'teacher cannot create activation codes'
+);
+select throws_ok(
+  $$ insert into public.teacher_subjects (teacher_id, subject_id) values ('11111111-0000-4000-8000-000000000002', '22222222-0000-4000-8000-000000000002') $$,
+  '42501', null,
+  'teacher cannot assign themselves a subject'
+);
+select throws_ok(
+  $$ update public.profiles set role = 'admin' where id = '11111111-0000-4000-8000-000000000002' $$,
+  '42501', null,
+  'teacher cannot promote themselves'
+);
+select throws_ok(
+  $$ update public.profiles set subjects_taught_ids = array['22222222-0000-4000-8000-000000000002']::uuid[] where id = '11111111-0000-4000-8000-000000000002' $$,
+  '42501', null,
+  'teacher cannot edit their own subjects_taught_ids'
+);
+select is(
+  (select count(*)::int from public.profiles where id in ('11111111-0000-4000-8000-000000000001', '11111111-0000-4000-8000-000000000002', '11111111-0000-4000-8000-000000000003', '11111111-0000-4000-8000-000000000004')),
+  1,
+  'teacher only sees their own profile'
+);
+select is(
+  (select count(*)::int from public.user_exam_attempts where user_id = '11111111-0000-4000-8000-000000000004'),
+  0,
+  'teacher cannot read students'' exam attempts (analytics is admin-only)'
+);
+
+reset role;
+
+select is(
+  (select description from public.subjects where id = '22222222-0000-4000-8000-000000000001'),
+  'وصف محدث',
+  'teacher can edit a taught subject'
+);
+select is(
+  (select description from public.subjects where id = '22222222-0000-4000-8000-000000000002'),
+  null,
+  'teacher cannot edit another teacher''s subject'
+);
+select is(
+  (select count(*)::int from public.subjects where id = '22222222-0000-4000-8000-000000000001'),
+  1,
+  'teacher cannot delete subjects'
+);
+select is(
+  (select question_text from public.questions where id = '44444444-0000-4000-8000-000000000002'),
+  'سؤال الأستاذ ب',
+  'teacher cannot edit or delete another subject''s question'
+);
+select is(
+  (select count(*)::int from public.exams where id = '55555555-0000-4000-8000-000000000002'),
+  1,
+  'teacher cannot delete another subject''s exam'
+);
+
+-- ---------------------------------------------------------------------------
+-- Student: read-only catalogue, own attempts
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('11111111-0000-4000-8000-000000000004');
+
+select is(
+  (select count(*)::int from public.subjects where id in ('22222222-0000-4000-8000-000000000001', '22222222-0000-4000-8000-000000000002')),
+  2,
+  'student can read subjects'
+);
+select is(
+  (select count(*)::int from public.user_exam_attempts where user_id = '11111111-0000-4000-8000-000000000004'),
+  1,
+  'student can read their own exam attempts'
+);
+select throws_ok(
+  $$ insert into public.questions (question_type, question_text, subject_id) values ('short_answer', 'سؤال طالب', '22222222-0000-4000-8000-000000000001') $$,
+  '42501', null,
+  'student cannot add questions'
+);
+update public.subjects set name = 'تعديل طالب' where id = '22222222-0000-4000-8000-000000000001';
+
+reset role;
+
+select is(
+  (select name from public.subjects where id = '22222222-0000-4000-8000-000000000001'),
+  'مادة الأستاذ أ',
+  'student cannot edit subjects'
+);
+
+-- ---------------------------------------------------------------------------
+-- Admin: every page
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('11111111-0000-4000-8000-000000000001');
+
+select lives_ok(
+  $$ insert into public.subjects (name, branch) values ('مادة المدير', 'general') $$,
+  'admin can create subjects'
+);
+select lives_ok(
+  $$ insert into public.news_items (title, content) values ('خبر المدير', 'محتوى') $$,
+  'admin can publish news'
+);
+select lives_ok(
+  $$ insert into public.teacher_subjects (teacher_id, subject_id) values ('11111111-0000-4000-8000-000000000002', '22222222-0000-4000-8000-000000000002') $$,
+  'admin can assign subjects to teachers'
+);
+select is(
+  (select count(*)::int from public.user_exam_attempts where user_id = '11111111-0000-4000-8000-000000000004'),
+  1,
+  'admin can read every exam attempt'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;
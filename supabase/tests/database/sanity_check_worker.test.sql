@@ -0,0 +1,57 @@
+-- Queueing chosen questions for a sanity check (supabase/migrations/*_sanity_check_worker.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: a checked question, one waiting for review, one whose check failed, and a trashed one
+-- ---------------------------------------------------------------------------
+
+insert into public.questions (id, question_type, question_text, is_sane, sanity_explanation, deleted_at)
+values
+  ('f8f8f8f8-0000-4000-8000-000000000001', 'short_answer', 'سؤال مفحوص', true, 'سليم', null),
+  ('f8f8f8f8-0000-4000-8000-000000000002', 'short_answer', 'سؤال بانتظار المراجعة', null, null, null),
+  ('f8f8f8f8-0000-4000-8000-000000000003', 'short_answer', 'سؤال تعذر فحصه', null, null, null),
+  ('f8f8f8f8-0000-4000-8000-000000000004', 'short_answer', 'سؤال محذوف', null, null, now());
+
+insert into public.question_sanity_reviews (question_id, status, is_sane, explanation, attempts, last_error)
+values
+  ('f8f8f8f8-0000-4000-8000-000000000002', 'review', true, 'سليم', 1, null),
+  ('f8f8f8f8-0000-4000-8000-000000000003', 'failed', null, null, 3, 'timeout');
+
+select set_eq(
+  $$ select unnest(public.queue_sanity_checks(array[
+    'f8f8f8f8-0000-4000-8000-000000000001',
+    'f8f8f8f8-0000-4000-8000-000000000002',
+    'f8f8f8f8-0000-4000-8000-000000000003',
+    'f8f8f8f8-0000-4000-8000-000000000004'
+  ]::uuid[])) $$,
+  $$ values ('f8f8f8f8-0000-4000-8000-000000000001'::uuid), ('f8f8f8f8-0000-4000-8000-000000000003'::uuid) $$,
+  'queue_sanity_checks queues checked and failed questions, but not open entries or trashed questions'
+);
+
+select is(
+  (select attempts from public.question_sanity_reviews where question_id = 'f8f8f8f8-0000-4000-8000-000000000003'),
+  0,
+  'a failed entry gets a fresh set of attempts'
+);
+
+select is(
+  (select status from public.question_sanity_reviews where question_id = 'f8f8f8f8-0000-4000-8000-000000000002'),
+  'review',
+  'a verdict waiting for review is kept'
+);
+
+select is(
+  public.queue_sanity_checks(array['f8f8f8f8-0000-4000-8000-000000000001']::uuid[]),
+  '{}'::uuid[],
+  'a question already in the queue is not queued twice'
+);
+
+select * from finish();
+
+rollback;
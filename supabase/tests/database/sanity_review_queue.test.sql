@@ -0,0 +1,100 @@
+-- The AI sanity check queue (supabase/migrations/*_sanity_review_queue.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: a question never checked, one checked, and one edited since its check
+-- ---------------------------------------------------------------------------
+
+insert into public.subjects (id, name, branch)
+values ('b6b6b6b6-0000-4000-8000-000000000001', 'مادة الفحص', 'scientific');
+
+insert into public.questions (id, question_type, question_text, subject_id, is_sane, sanity_explanation)
+values
+  ('e6e6e6e6-0000-4000-8000-000000000001', 'short_answer', 'سؤال لم يُفحص', 'b6b6b6b6-0000-4000-8000-000000000001', null, null),
+  ('e6e6e6e6-0000-4000-8000-000000000002', 'short_answer', 'سؤال مفحوص', 'b6b6b6b6-0000-4000-8000-000000000001', true, 'سليم'),
+  ('e6e6e6e6-0000-4000-8000-000000000003', 'short_answer', 'سؤال قبل التعديل', 'b6b6b6b6-0000-4000-8000-000000000001', true, 'سليم');
+
+update public.questions set question_text = 'سؤال بعد التعديل' where id = 'e6e6e6e6-0000-4000-8000-000000000003';
+
+-- ---------------------------------------------------------------------------
+-- Queueing and checking
+-- ---------------------------------------------------------------------------
+
+select is(
+  public.enqueue_sanity_checks('b6b6b6b6-0000-4000-8000-000000000001'),
+  2,
+  'enqueue_sanity_checks queues unchecked questions and questions edited since their check'
+);
+
+select is(
+  public.enqueue_sanity_checks('b6b6b6b6-0000-4000-8000-000000000001'),
+  0,
+  'questions with an open entry are not queued twice'
+);
+
+select is((select count(*)::integer from public.claim_sanity_checks(5)), 2, 'claim_sanity_checks hands out due entries');
+
+select public.record_sanity_check(r.id, false, 'الإجابة ناقصة')
+from public.question_sanity_reviews r
+where r.question_id = 'e6e6e6e6-0000-4000-8000-000000000001';
+
+select is(
+  (select public.fail_sanity_check(r.id, 'timeout')
+   from public.question_sanity_reviews r
+   where r.question_id = 'e6e6e6e6-0000-4000-8000-000000000003'),
+  'queued',
+  'a failed check goes back to the queue while it has attempts left'
+);
+
+select is((select count(*)::integer from public.claim_sanity_checks(5)), 0, 'a failed check waits for its retry');
+
+-- ---------------------------------------------------------------------------
+-- Review
+-- ---------------------------------------------------------------------------
+
+select public.resolve_sanity_review(r.id, true)
+from public.question_sanity_reviews r
+where r.question_id = 'e6e6e6e6-0000-4000-8000-000000000001';
+
+select results_eq(
+  $$ select is_sane, sanity_explanation, sanity_checked_revision from public.questions
+     where id = 'e6e6e6e6-0000-4000-8000-000000000001' $$,
+  $$ values (false, 'الإجابة ناقصة'::text, 1) $$,
+  'accepting a verdict writes it to the question'
+);
+
+update public.question_sanity_reviews set next_attempt_at = now()
+where question_id = 'e6e6e6e6-0000-4000-8000-000000000003';
+
+select public.record_sanity_check(review_id, true, 'سليم') from public.claim_sanity_checks(1);
+
+update public.questions set question_text = 'سؤال بعد تعديل ثانٍ' where id = 'e6e6e6e6-0000-4000-8000-000000000003';
+
+select throws_ok(
+  $$ select public.resolve_sanity_review(r.id, true)
+     from public.question_sanity_reviews r
+     where r.question_id = 'e6e6e6e6-0000-4000-8000-000000000003' $$,
+  '23514',
+  null,
+  'a verdict on an older revision cannot be accepted'
+);
+
+select public.resolve_sanity_review(r.id, false)
+from public.question_sanity_reviews r
+where r.question_id = 'e6e6e6e6-0000-4000-8000-000000000003';
+
+select is(
+  public.enqueue_sanity_checks('b6b6b6b6-0000-4000-8000-000000000001'),
+  1,
+  'a question edited after its check is queued again once the old verdict is resolved'
+);
+
+select * from finish();
+
+rollback;
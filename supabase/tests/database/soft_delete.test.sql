@@ -0,0 +1,190 @@
+-- Trash / restore / purge (supabase/migrations/*_soft_delete.sql).
+-- Run against the local stack with `npm run db:test`. Everything is rolled back at the end.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(18);
+
+create schema tests;
+grant usage on schema tests to authenticated;
+
+create function tests.act_as(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true);
+  perform set_config('role', 'authenticated', true);
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Fixtures: one subject with a section of two lessons, two questions (one linked to a lesson) and an exam
+-- ---------------------------------------------------------------------------
+
+insert into auth.users (id, email)
+values
+  ('aaaaaaaa-0000-4000-8000-000000000001', 'trash-admin@test.local'),
+  ('aaaaaaaa-0000-4000-8000-000000000002', 'trash-teacher@test.local'),
+  ('aaaaaaaa-0000-4000-8000-000000000003', 'trash-student@test.local');
+
+update public.profiles set role = 'admin' where id = 'aaaaaaaa-0000-4000-8000-000000000001';
+update public.profiles set role = 'teacher' where id = 'aaaaaaaa-0000-4000-8000-000000000002';
+update public.profiles set role = 'student' where id = 'aaaaaaaa-0000-4000-8000-000000000003';
+
+insert into public.subjects (id, name, branch)
+values ('bbbbbbbb-0000-4000-8000-000000000001', 'مادة السلة', 'scientific');
+
+insert into public.teacher_subjects (teacher_id, subject_id)
+values ('aaaaaaaa-0000-4000-8000-000000000002', 'bbbbbbbb-0000-4000-8000-000000000001');
+
+insert into public.subject_sections (id, subject_id, title, type)
+values ('cccccccc-0000-4000-8000-000000000001', 'bbbbbbbb-0000-4000-8000-000000000001', 'قسم السلة', 'theory');
+
+insert into public.lessons (id, subject_id, section_id, title)
+values
+  ('dddddddd-0000-4000-8000-000000000001', 'bbbbbbbb-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000001', 'الدرس الأول'),
+  ('dddddddd-0000-4000-8000-000000000002', 'bbbbbbbb-0000-4000-8000-000000000001', 'cccccccc-0000-4000-8000-000000000001', 'الدرس الثاني');
+
+insert into public.questions (id, question_type, question_text, subject_id, lesson_id)
+values
+  ('eeeeeeee-0000-4000-8000-000000000001', 'short_answer', 'سؤال الدرس الأول', 'bbbbbbbb-0000-4000-8000-000000000001', 'dddddddd-0000-4000-8000-000000000001'),
+  ('eeeeeeee-0000-4000-8000-000000000002', 'short_answer', 'سؤال بلا درس', 'bbbbbbbb-0000-4000-8000-000000000001', null);
+
+insert into public.exams (id, title, subject_id)
+values ('ffffffff-0000-4000-8000-000000000001', 'امتحان السلة', 'bbbbbbbb-0000-4000-8000-000000000001');
+
+insert into public.exam_questions (exam_id, question_id, order_number)
+values
+  ('ffffffff-0000-4000-8000-000000000001', 'eeeeeeee-0000-4000-8000-000000000001', 1),
+  ('ffffffff-0000-4000-8000-000000000001', 'eeeeeeee-0000-4000-8000-000000000002', 2);
+
+-- ---------------------------------------------------------------------------
+-- Trash: a lesson on its own, then the whole subject
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('aaaaaaaa-0000-4000-8000-000000000002');
+
+select lives_ok(
+  $$ select public.trash_item('lesson', 'dddddddd-0000-4000-8000-000000000002') $$,
+  'teacher can trash a lesson in a taught subject'
+);
+select throws_ok(
+  $$ select public.trash_item('subject', 'bbbbbbbb-0000-4000-8000-000000000001') $$,
+  '42501', null,
+  'teacher cannot trash a subject'
+);
+
+select tests.act_as('aaaaaaaa-0000-4000-8000-000000000001');
+
+select lives_ok(
+  $$ select public.trash_item('subject', 'bbbbbbbb-0000-4000-8000-000000000001') $$,
+  'admin can trash a subject'
+);
+select is(
+  (select count(*)::int from public.lessons where section_id = 'cccccccc-0000-4000-8000-000000000001' and deleted_at is not null),
+  2,
+  'trashing the subject trashes its lessons'
+);
+select is(
+  (select array_agg(entity order by entity) from public.list_trash() where subject_id = 'bbbbbbbb-0000-4000-8000-000000000001'),
+  array['lesson', 'subject'],
+  'list_trash shows the subject and the lesson trashed before it, not the cascaded children'
+);
+select is(
+  (select child_count from public.list_trash() where id = 'bbbbbbbb-0000-4000-8000-000000000001'),
+  5,
+  'the subject counts its section, lesson, two questions and exam'
+);
+
+select tests.act_as('aaaaaaaa-0000-4000-8000-000000000003');
+
+select is(
+  (select count(*)::int from public.subjects where id = 'bbbbbbbb-0000-4000-8000-000000000001'),
+  0,
+  'students do not see trashed subjects'
+);
+select is(
+  (select count(*)::int from public.questions where subject_id = 'bbbbbbbb-0000-4000-8000-000000000001'),
+  0,
+  'students do not see trashed questions'
+);
+
+-- ---------------------------------------------------------------------------
+-- Restore
+-- ---------------------------------------------------------------------------
+
+select tests.act_as('aaaaaaaa-0000-4000-8000-000000000002');
+
+select throws_ok(
+  $$ select public.restore_item('lesson', 'dddddddd-0000-4000-8000-000000000002') $$,
+  'P0001', null,
+  'a lesson cannot be restored while its section is in the trash'
+);
+
+select tests.act_as('aaaaaaaa-0000-4000-8000-000000000001');
+
+select lives_ok(
+  $$ select public.restore_item('subject', 'bbbbbbbb-0000-4000-8000-000000000001') $$,
+  'admin can restore a subject'
+);
+select is(
+  (select count(*)::int from public.subject_sections where id = 'cccccccc-0000-4000-8000-000000000001' and deleted_at is null),
+  1,
+  'restoring the subject restores its section'
+);
+select is(
+  (select array_agg(id order by id) from public.lessons where section_id = 'cccccccc-0000-4000-8000-000000000001' and deleted_at is null),
+  array['dddddddd-0000-4000-8000-000000000001']::uuid[],
+  'only the lesson trashed with the subject comes back'
+);
+select is(
+  (select lesson_id from public.questions where id = 'eeeeeeee-0000-4000-8000-000000000001' and deleted_at is null),
+  'dddddddd-0000-4000-8000-000000000001'::uuid,
+  'the restored question is still linked to its lesson'
+);
+select is(
+  (select count(*)::int from public.exam_questions where exam_id = 'ffffffff-0000-4000-8000-000000000001'),
+  2,
+  'the restored exam keeps its question links'
+);
+
+-- ---------------------------------------------------------------------------
+-- save_exam leaves links to trashed questions alone
+-- ---------------------------------------------------------------------------
+
+select public.trash_item('question', 'eeeeeeee-0000-4000-8000-000000000002');
+select public.save_exam('{}'::jsonb, 'ffffffff-0000-4000-8000-000000000001', '[{"question_id": "eeeeeeee-0000-4000-8000-000000000001"}]'::jsonb);
+
+select is(
+  (select count(*)::int from public.exam_questions where exam_id = 'ffffffff-0000-4000-8000-000000000001'),
+  2,
+  'saving an exam does not drop the link to a trashed question'
+);
+
+-- ---------------------------------------------------------------------------
+-- Purge
+-- ---------------------------------------------------------------------------
+
+select throws_ok(
+  $$ select public.purge_item('lesson', 'dddddddd-0000-4000-8000-000000000001') $$,
+  'P0002', null,
+  'a lesson that is not in the trash cannot be purged'
+);
+select lives_ok(
+  $$ select public.purge_item('question', 'eeeeeeee-0000-4000-8000-000000000002') $$,
+  'admin can purge a trashed question'
+);
+select is(
+  (select count(*)::int from public.exam_questions where question_id = 'eeeeeeee-0000-4000-8000-000000000002'),
+  0,
+  'purging a question removes its exam links'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;